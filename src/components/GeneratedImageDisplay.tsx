@@ -1,38 +1,113 @@
-import React from "react";
+import React, { useState } from "react";
 import type { GeneratedImageDTO } from "@/types";
 
 interface GeneratedImageDisplayProps {
   image: GeneratedImageDTO;
   onUseInProject: () => void;
+  /** Candidates waiting to be picked; when present, the picker is shown instead of the image */
+  candidates?: GeneratedImageDTO[];
+  onKeepCandidates?: (keepIds: string[]) => void;
+  isLoading?: boolean;
 }
 
-const GeneratedImageDisplay: React.FC<GeneratedImageDisplayProps> = ({ image, onUseInProject }) => (
-  <div className="w-full space-y-4">
-    <div className="space-y-2">
-      <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-50">Wygenerowany obraz</h3>
-      <div className="relative w-full rounded-lg overflow-hidden shadow-lg bg-slate-100 dark:bg-slate-800 aspect-video flex items-center justify-center">
-        <img
-          src={image.image_url}
-          alt={image.prompt || "Wygenerowany obraz meble"}
-          className="w-full h-full object-cover"
-        />
+const GeneratedImageDisplay: React.FC<GeneratedImageDisplayProps> = ({
+  image,
+  onUseInProject,
+  candidates = [],
+  onKeepCandidates,
+  isLoading = false,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleCandidate = (candidateId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(candidateId) ? prev.filter((id) => id !== candidateId) : [...prev, candidateId]
+    );
+  };
+
+  if (candidates.length > 0 && onKeepCandidates) {
+    return (
+      <div className="w-full space-y-4">
+        <div className="space-y-1">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-50">Wybierz warianty do zachowania</h3>
+          <p className="text-xs text-slate-600 dark:text-slate-400">
+            Limit generacji zużywa tylko każdy zachowany obraz. Pozostałe warianty zostaną usunięte.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {candidates.map((candidate, index) => {
+            const isSelected = selectedIds.includes(candidate.id);
+            return (
+              <button
+                key={candidate.id}
+                type="button"
+                onClick={() => toggleCandidate(candidate.id)}
+                aria-pressed={isSelected}
+                className={`relative overflow-hidden rounded-lg border-2 transition-colors ${
+                  isSelected ? "border-blue-600 dark:border-blue-400" : "border-transparent hover:border-slate-300"
+                }`}
+              >
+                <img
+                  src={candidate.image_url}
+                  alt={`Wariant ${index + 1}`}
+                  className="aspect-square w-full object-cover"
+                />
+                <span
+                  className={`absolute top-2 right-2 rounded-full px-2 py-0.5 text-xs font-semibold shadow ${
+                    isSelected ? "bg-blue-600 text-white" : "bg-white/90 text-slate-700"
+                  }`}
+                >
+                  {isSelected ? "✓ Zachowaj" : `Wariant ${index + 1}`}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={() => onKeepCandidates(selectedIds)}
+          disabled={isLoading}
+          className="w-full px-4 py-2 rounded-lg bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600 text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {selectedIds.length === 0
+            ? "Odrzuć wszystkie warianty"
+            : `Zachowaj wybrane (${selectedIds.length}) i usuń pozostałe`}
+        </button>
       </div>
-    </div>
+    );
+  }
 
-    {image.prompt && (
-      <div className="bg-slate-50 dark:bg-slate-800/50 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
-        <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Użyty prompt:</p>
-        <p className="text-sm text-slate-700 dark:text-slate-300 italic">&ldquo;{image.prompt}&rdquo;</p>
+  return (
+    <div className="w-full space-y-4">
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-50">Wygenerowany obraz</h3>
+        <div className="relative w-full rounded-lg overflow-hidden shadow-lg bg-slate-100 dark:bg-slate-800 aspect-video flex items-center justify-center">
+          <img
+            src={image.image_url}
+            alt={image.prompt || "Wygenerowany obraz meble"}
+            className="w-full h-full object-cover"
+          />
+        </div>
       </div>
-    )}
-
-    <button
-      onClick={onUseInProject}
-      className="w-full px-4 py-2 rounded-lg bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600 text-white font-medium transition-colors"
-    >
-      ➜ Użyj w projekcie
-    </button>
-  </div>
-);
+
+      {image.prompt && (
+        <div className="bg-slate-50 dark:bg-slate-800/50 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+          <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">
+            {image.parent_image_id ? "Wprowadzona zmiana:" : "Użyty prompt:"}
+          </p>
+          <p className="text-sm text-slate-700 dark:text-slate-300 italic">&ldquo;{image.prompt}&rdquo;</p>
+        </div>
+      )}
+
+      <button
+        onClick={onUseInProject}
+        className="w-full px-4 py-2 rounded-lg bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600 text-white font-medium transition-colors"
+      >
+        ➜ Użyj w projekcie
+      </button>
+    </div>
+  );
+};
 
 export default GeneratedImageDisplay;
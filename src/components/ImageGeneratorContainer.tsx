@@ -5,6 +5,8 @@ import GenerateButton from "./GenerateButton";
 import QuotaDisplay from "./QuotaDisplay";
 import GeneratedImageDisplay from "./GeneratedImageDisplay";
 import ErrorMessage from "./ErrorMessage";
+import ImageVersionTree from "./ImageVersionTree";
+import RefinementInput from "./RefinementInput";
 import { useImageGenerator } from "./hooks/useImageGenerator";
 
 interface ImageGeneratorContainerProps {
@@ -12,14 +14,21 @@ interface ImageGeneratorContainerProps {
 }
 
 const ImageGeneratorContainer: React.FC<ImageGeneratorContainerProps> = () => {
-  const { state, generateImage, clearError, reset } = useImageGenerator();
+  const { state, generateImage, keepCandidates, refineImage, selectVersion, clearError, reset } = useImageGenerator();
 
   const [prompt, setPrompt] = useState("");
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [change, setChange] = useState("");
 
   const handleGenerateClick = useCallback(async () => {
-    await generateImage(prompt);
+    await generateImage(prompt, candidateCount);
     setPrompt("");
-  }, [prompt, generateImage]);
+  }, [prompt, candidateCount, generateImage]);
+
+  const handleRefineClick = useCallback(async () => {
+    await refineImage(change);
+    setChange("");
+  }, [change, refineImage]);
 
   const handleUseInProject = useCallback(() => {
     if (state.generatedImage) {
@@ -29,6 +38,7 @@ const ImageGeneratorContainer: React.FC<ImageGeneratorContainerProps> = () => {
 
   const handleReset = useCallback(() => {
     setPrompt("");
+    setChange("");
     reset();
   }, [reset]);
 
@@ -40,7 +50,11 @@ const ImageGeneratorContainer: React.FC<ImageGeneratorContainerProps> = () => {
         </p>
       </div>
 
-      <QuotaDisplay remaining={state.remainingGenerations} total={10} />
+      <QuotaDisplay
+        remaining={state.remainingGenerations}
+        total={state.generationLimit}
+        resetsAt={state.quotaResetsAt}
+      />
 
       {state.error && <ErrorMessage error={state.error} onClose={clearError} />}
 
@@ -54,6 +68,29 @@ const ImageGeneratorContainer: React.FC<ImageGeneratorContainerProps> = () => {
             maxLength={500}
           />
 
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="candidate-count" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Liczba wariantów
+            </label>
+            <select
+              id="candidate-count"
+              value={candidateCount}
+              onChange={(e) => setCandidateCount(Number(e.target.value))}
+              disabled={state.isLoading}
+              className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-slate-50"
+            >
+              <option value={1}>1 obraz</option>
+              <option value={2}>2 warianty</option>
+              <option value={3}>3 warianty</option>
+              <option value={4}>4 warianty</option>
+            </select>
+          </div>
+          {candidateCount > 1 && (
+            <p className="text-xs text-slate-600 dark:text-slate-400">
+              Limit zużyje tylko każdy wariant, który zachowasz.
+            </p>
+          )}
+
           <GenerateButton
             onClick={handleGenerateClick}
             isLoading={state.isLoading}
@@ -65,7 +102,38 @@ const ImageGeneratorContainer: React.FC<ImageGeneratorContainerProps> = () => {
 
       {state.generatedImage && (
         <div className="space-y-4">
-          <GeneratedImageDisplay image={state.generatedImage} onUseInProject={handleUseInProject} />
+          <GeneratedImageDisplay
+            image={state.generatedImage}
+            onUseInProject={handleUseInProject}
+            candidates={state.candidates}
+            onKeepCandidates={keepCandidates}
+            isLoading={state.isLoading}
+          />
+        </div>
+      )}
+
+      {state.generatedImage && state.candidates.length === 0 && (
+        <div className="space-y-4">
+          <RefinementInput
+            value={change}
+            onChange={setChange}
+            onSubmit={handleRefineClick}
+            isLoading={state.isLoading}
+            disabled={state.versionCount >= state.maxVersions}
+          />
+
+          {state.versions.length > 1 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-50">
+                Wersje projektu ({state.versionCount}/{state.maxVersions})
+              </h3>
+              <ImageVersionTree
+                versions={state.versions}
+                selectedId={state.generatedImage.id}
+                onSelect={selectVersion}
+              />
+            </div>
+          )}
 
           <div className="flex gap-3">
             <button
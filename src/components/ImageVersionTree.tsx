@@ -0,0 +1,72 @@
+import React from "react";
+import type { GeneratedImageDTO } from "@/types";
+
+interface ImageVersionTreeProps {
+  /** All versions of a design, oldest first */
+  versions: GeneratedImageDTO[];
+  selectedId?: string;
+  onSelect: (imageId: string) => void;
+}
+
+/**
+ * ImageVersionTree Component
+ *
+ * Shows the versions of a design as a tree: every refinement is nested under the image it was made from.
+ */
+const ImageVersionTree: React.FC<ImageVersionTreeProps> = ({ versions, selectedId, onSelect }) => {
+  const versionNumbers = new Map(versions.map((version, index) => [version.id, index + 1]));
+  const childrenByParent = new Map<string | null, GeneratedImageDTO[]>();
+  versions.forEach((version) => {
+    // Versions whose parent is missing from the list are shown at the top level
+    const parentId =
+      version.parent_image_id && versionNumbers.has(version.parent_image_id) ? version.parent_image_id : null;
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), version]);
+  });
+
+  const renderBranch = (parentId: string | null, level: number): React.ReactNode => {
+    const children = childrenByParent.get(parentId);
+    if (!children) {
+      return null;
+    }
+
+    return (
+      <ul className={level > 0 ? "ml-4 border-l border-slate-200 dark:border-slate-700 pl-3 space-y-2" : "space-y-2"}>
+        {children.map((version) => (
+          <li key={version.id} className="space-y-2">
+            <button
+              type="button"
+              onClick={() => onSelect(version.id)}
+              aria-current={version.id === selectedId ? "true" : undefined}
+              className={`flex w-full items-center gap-3 rounded-lg border p-2 text-left transition-colors ${
+                version.id === selectedId
+                  ? "border-blue-500 bg-blue-50 dark:bg-blue-950/30"
+                  : "border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+              }`}
+            >
+              <img src={version.image_url} alt="" className="h-12 w-12 flex-shrink-0 rounded object-cover" />
+              <span className="min-w-0">
+                <span className="block text-xs font-semibold text-slate-900 dark:text-slate-50">
+                  {version.parent_image_id ? `Wersja ${versionNumbers.get(version.id)}` : "Oryginał"}
+                </span>
+                {version.prompt && (
+                  <span className="block truncate text-xs text-slate-600 dark:text-slate-400" title={version.prompt}>
+                    {version.prompt}
+                  </span>
+                )}
+              </span>
+            </button>
+            {renderBranch(version.id, level + 1)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <nav aria-label="Wersje projektu" className="space-y-2">
+      {renderBranch(null, 0)}
+    </nav>
+  );
+};
+
+export default ImageVersionTree;
@@ -3,18 +3,21 @@ import React from "react";
 interface QuotaDisplayProps {
   remaining: number;
   total?: number;
+  /** When the monthly quota resets (ISO date) */
+  resetsAt?: string | null;
 }
 
-const QuotaDisplay: React.FC<QuotaDisplayProps> = ({ remaining, total = 10 }) => {
+const QuotaDisplay: React.FC<QuotaDisplayProps> = ({ remaining, total = 10, resetsAt = null }) => {
   const used = total - remaining;
-  const percentage = (used / total) * 100;
+  const percentage = total > 0 ? (used / total) * 100 : 100;
+  const resetDate = resetsAt ? new Date(resetsAt).toLocaleDateString("pl-PL", { timeZone: "UTC" }) : null;
   const isLow = remaining <= 2;
   const isEmpty = remaining === 0;
 
   return (
     <div className="w-full space-y-3 bg-slate-50 dark:bg-slate-800/50 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
       <div className="flex justify-between items-center">
-        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-50">Limit generacji</h3>
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-50">Miesięczny limit generacji</h3>
         <span
           className={`text-sm font-semibold ${
             isEmpty
@@ -41,9 +44,12 @@ const QuotaDisplay: React.FC<QuotaDisplayProps> = ({ remaining, total = 10 }) =>
         />
       </div>
 
+      {resetDate && <p className="text-xs text-slate-600 dark:text-slate-400">Limit odnowi się {resetDate}</p>}
+
       {isEmpty && (
         <p className="text-xs text-red-700 dark:text-red-300 font-medium">
-          ⚠️ Wyczerpałeś limit darmowych generacji. Uaktualnij konto aby generować więcej.
+          ⚠️ Wykorzystałeś limit generacji w tym miesiącu.
+          {resetDate ? ` Nowe generacje będą dostępne od ${resetDate}.` : ""} Aby generować więcej, uaktualnij konto.
         </p>
       )}
       {isLow && !isEmpty && (
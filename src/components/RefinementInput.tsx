@@ -0,0 +1,54 @@
+import React from "react";
+
+interface RefinementInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  isLoading: boolean;
+  disabled: boolean;
+}
+
+const MAX_CHANGE_LENGTH = 300;
+
+/**
+ * RefinementInput Component
+ *
+ * Lets the client describe a change to the current image ("te same, ale z orzechowymi nogami").
+ */
+const RefinementInput: React.FC<RefinementInputProps> = ({ value, onChange, onSubmit, isLoading, disabled }) => (
+  <div className="w-full space-y-2">
+    <label htmlFor="refinement-input" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+      Dopracuj ten obraz
+    </label>
+    <div className="flex gap-2">
+      <input
+        id="refinement-input"
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !disabled && value.trim().length >= 3) {
+            onSubmit();
+          }
+        }}
+        disabled={isLoading}
+        maxLength={MAX_CHANGE_LENGTH}
+        placeholder="np. Te same, ale z orzechowymi nogami"
+        className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-50 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50"
+      />
+      <button
+        type="button"
+        onClick={onSubmit}
+        disabled={disabled || isLoading || value.trim().length < 3}
+        className="px-4 py-2 rounded-lg bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600 text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? "Dopracowywanie..." : "Dopracuj"}
+      </button>
+    </div>
+    <p className="text-xs text-slate-600 dark:text-slate-400">
+      Dopracowanie nie zużywa limitu generacji. Opisz tylko zmianę, reszta projektu zostanie zachowana.
+    </p>
+  </div>
+);
+
+export default RefinementInput;
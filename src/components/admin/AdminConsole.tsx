@@ -0,0 +1,53 @@
+/**
+ * AdminConsole Component
+ *
+ * Moderation console for admins: users, reviews, projects, the queue of content reports
+ * and the audit log of moderator actions, each in its own tab.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AdminUsersSection } from "./AdminUsersSection";
+import { AdminReviewsSection } from "./AdminReviewsSection";
+import { AdminProjectsSection } from "./AdminProjectsSection";
+import { AdminReportsSection } from "./AdminReportsSection";
+import { ModerationLogSection } from "./ModerationLogSection";
+
+type AdminTab = "users" | "reviews" | "projects" | "reports" | "audit";
+
+const tabs: { id: AdminTab; label: string }[] = [
+  { id: "users", label: "Użytkownicy" },
+  { id: "reviews", label: "Opinie" },
+  { id: "projects", label: "Projekty" },
+  { id: "reports", label: "Zgłoszenia" },
+  { id: "audit", label: "Dziennik moderacji" },
+];
+
+export default function AdminConsole() {
+  const [activeTab, setActiveTab] = useState<AdminTab>("users");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2 border-b pb-2" role="tablist">
+        {tabs.map((tab) => (
+          <Button
+            key={tab.id}
+            role="tab"
+            aria-selected={activeTab === tab.id}
+            variant={activeTab === tab.id ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setActiveTab(tab.id)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      {activeTab === "users" && <AdminUsersSection />}
+      {activeTab === "reviews" && <AdminReviewsSection />}
+      {activeTab === "projects" && <AdminProjectsSection />}
+      {activeTab === "reports" && <AdminReportsSection />}
+      {activeTab === "audit" && <ModerationLogSection />}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { PaginationMetaDTO } from "@/types";
+import { Button } from "@/components/ui/button";
+
+interface AdminPaginationProps {
+  pagination: PaginationMetaDTO | null;
+  onPageChange: (page: number) => void;
+}
+
+export function AdminPagination({ pagination, onPageChange }: AdminPaginationProps) {
+  if (!pagination || pagination.total_pages <= 1) {
+    return null;
+  }
+
+  const { page, total_pages, total } = pagination;
+
+  return (
+    <div className="flex items-center justify-between gap-4 pt-4">
+      <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+        ← Poprzednia
+      </Button>
+      <span className="text-sm text-muted-foreground">
+        Strona {page} z {total_pages} (łącznie: {total})
+      </span>
+      <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= total_pages}>
+        Następna →
+      </Button>
+    </div>
+  );
+}
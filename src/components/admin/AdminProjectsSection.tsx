@@ -0,0 +1,100 @@
+/**
+ * AdminProjectsSection Component
+ *
+ * Lists projects of all clients with a status filter. Moderators can close projects
+ * that break the rules, e.g. spam or offensive generated images.
+ */
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAdminList } from "@/components/hooks/useAdminList";
+import { AdminPagination } from "./AdminPagination";
+import { ModerationReasonDialog } from "./ModerationReasonDialog";
+import type { AdminProjectDTO, ProjectStatus } from "@/types";
+
+const statusLabels: Record<ProjectStatus, string> = {
+  open: "Otwarty",
+  in_progress: "W realizacji",
+  completed: "Zakończony",
+  closed: "Zamknięty",
+};
+
+export function AdminProjectsSection() {
+  const [status, setStatus] = useState("");
+  const [projectToClose, setProjectToClose] = useState<AdminProjectDTO | null>(null);
+
+  const { items, pagination, isLoading, error, setPage, runAction } = useAdminList<AdminProjectDTO>(
+    "/api/admin/projects",
+    { status: status || undefined }
+  );
+
+  return (
+    <div className="space-y-4">
+      <select
+        value={status}
+        onChange={(e) => setStatus(e.target.value)}
+        aria-label="Status projektu"
+        className="rounded-md border bg-background px-3 py-2 text-sm"
+      >
+        <option value="">Wszystkie statusy</option>
+        {Object.entries(statusLabels).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isLoading && items.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">Brak projektów</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {items.map((project) => (
+            <li key={project.id} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{project.category.name}</span>
+                  <Badge variant={project.status === "closed" ? "secondary" : "outline"}>
+                    {statusLabels[project.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {project.id} · utworzony {new Date(project.created_at).toLocaleDateString("pl-PL")}
+                </p>
+              </div>
+              {project.status !== "closed" && (
+                <Button variant="destructive" size="sm" onClick={() => setProjectToClose(project)}>
+                  Zamknij
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AdminPagination pagination={pagination} onPageChange={setPage} />
+
+      <ModerationReasonDialog
+        title={projectToClose ? "Zamknij projekt" : null}
+        description="Zamknięty projekt zniknie z giełdy zleceń i nie będzie przyjmował ofert."
+        onConfirm={(reason) =>
+          projectToClose
+            ? runAction(`/api/admin/projects/${projectToClose.id}/close`, "POST", { reason })
+            : Promise.resolve(false)
+        }
+        onClose={() => setProjectToClose(null)}
+      />
+    </div>
+  );
+}
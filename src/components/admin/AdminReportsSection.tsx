@@ -0,0 +1,146 @@
+/**
+ * AdminReportsSection Component
+ *
+ * Triage queue of content reports, oldest first. Moderators uphold reports, which hides the
+ * content, or dismiss them, which restores content hidden automatically after the reports.
+ * The decision applies to every pending report of the same content.
+ */
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAdminList } from "@/components/hooks/useAdminList";
+import { REPORT_REASON_LABELS } from "@/components/reports/ReportContentButton";
+import { AdminPagination } from "./AdminPagination";
+import { ModerationReasonDialog } from "./ModerationReasonDialog";
+import type { ContentReportDTO, ReportStatus, ReportTargetType } from "@/types";
+
+const statusLabels: Record<ReportStatus, string> = {
+  pending: "Oczekujące",
+  upheld: "Uwzględnione",
+  dismissed: "Odrzucone",
+};
+
+const targetTypeLabels: Record<ReportTargetType, string> = {
+  project: "Projekt",
+  proposal: "Oferta",
+  review: "Opinia",
+  generated_image: "Obraz",
+};
+
+type ReportDecision = Exclude<ReportStatus, "pending">;
+
+export function AdminReportsSection() {
+  const [status, setStatus] = useState<ReportStatus>("pending");
+  const [targetType, setTargetType] = useState("");
+  const [resolution, setResolution] = useState<{ report: ContentReportDTO; decision: ReportDecision } | null>(null);
+
+  const { items, pagination, isLoading, error, setPage, runAction } = useAdminList<ContentReportDTO>(
+    "/api/admin/reports",
+    { status, target_type: targetType || undefined }
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ReportStatus)}
+          aria-label="Status zgłoszenia"
+          className="rounded-md border bg-background px-3 py-2 text-sm"
+        >
+          {Object.entries(statusLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={targetType}
+          onChange={(e) => setTargetType(e.target.value)}
+          aria-label="Typ treści"
+          className="rounded-md border bg-background px-3 py-2 text-sm"
+        >
+          <option value="">Wszystkie treści</option>
+          {Object.entries(targetTypeLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isLoading && items.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">Brak zgłoszeń</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {items.map((report) => (
+            <li key={report.id} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-start sm:justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{targetTypeLabels[report.target_type]}</Badge>
+                  <span className="font-medium">{REPORT_REASON_LABELS[report.reason]}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(report.created_at).toLocaleDateString("pl-PL")}
+                  </span>
+                </div>
+                {report.details && <p className="text-sm">{report.details}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {report.target_type === "project" ? (
+                    <a href={`/projects/${report.target_id}`} className="underline">
+                      Zobacz projekt
+                    </a>
+                  ) : (
+                    `ID treści: ${report.target_id}`
+                  )}
+                  {report.resolution_note && ` · Decyzja: ${report.resolution_note}`}
+                </p>
+              </div>
+              {report.status === "pending" && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setResolution({ report, decision: "dismissed" })}>
+                    Odrzuć
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => setResolution({ report, decision: "upheld" })}>
+                    Uwzględnij
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AdminPagination pagination={pagination} onPageChange={setPage} />
+
+      <ModerationReasonDialog
+        title={resolution ? (resolution.decision === "upheld" ? "Uwzględnij zgłoszenia" : "Odrzuć zgłoszenia") : null}
+        description={
+          resolution?.decision === "upheld"
+            ? "Treść zostanie ukryta. Decyzja dotyczy wszystkich oczekujących zgłoszeń tej treści."
+            : "Treść ukryta automatycznie po zgłoszeniach będzie znów widoczna. Decyzja dotyczy wszystkich oczekujących zgłoszeń tej treści."
+        }
+        onConfirm={(reason) =>
+          resolution
+            ? runAction(`/api/admin/reports/${resolution.report.id}/resolve`, "POST", {
+                decision: resolution.decision,
+                reason,
+              })
+            : Promise.resolve(false)
+        }
+        onClose={() => setResolution(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * AdminReviewsSection Component
+ *
+ * Lists reviews with their moderation state. Moderators can hide abusive reviews
+ * and make hidden reviews public again.
+ */
+
+import { useState } from "react";
+import { Loader2, Star } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useAdminList } from "@/components/hooks/useAdminList";
+import { AdminPagination } from "./AdminPagination";
+import { ModerationReasonDialog } from "./ModerationReasonDialog";
+import type { AdminReviewDTO } from "@/types";
+
+export function AdminReviewsSection() {
+  const [hiddenOnly, setHiddenOnly] = useState(false);
+  const [reviewToHide, setReviewToHide] = useState<AdminReviewDTO | null>(null);
+
+  const { items, pagination, isLoading, error, setPage, runAction } = useAdminList<AdminReviewDTO>(
+    "/api/admin/reviews",
+    { hidden_only: hiddenOnly ? "true" : undefined }
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="hidden-only"
+          checked={hiddenOnly}
+          onCheckedChange={(checked) => setHiddenOnly(checked === true)}
+        />
+        <Label htmlFor="hidden-only" className="cursor-pointer">
+          Tylko ukryte opinie
+        </Label>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isLoading && items.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">Brak opinii</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {items.map((review) => (
+            <li key={review.id} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-start sm:justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="flex items-center gap-1 font-medium">
+                    <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                    {review.rating}/5
+                  </span>
+                  {review.hidden_at && <Badge variant="destructive">Ukryta</Badge>}
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(review.created_at).toLocaleDateString("pl-PL")}
+                  </span>
+                </div>
+                <p className="text-sm">{review.comment || "Brak komentarza"}</p>
+                <p className="text-xs text-muted-foreground">
+                  <a href={`/artisan/${review.reviewee_id}`} className="underline">
+                    Profil ocenianego
+                  </a>
+                  {review.hidden_reason && ` · Powód ukrycia: ${review.hidden_reason}`}
+                </p>
+              </div>
+              {review.hidden_at ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runAction(`/api/admin/reviews/${review.id}/hide`, "DELETE")}
+                >
+                  Przywróć
+                </Button>
+              ) : (
+                <Button variant="destructive" size="sm" onClick={() => setReviewToHide(review)}>
+                  Ukryj
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AdminPagination pagination={pagination} onPageChange={setPage} />
+
+      <ModerationReasonDialog
+        title={reviewToHide ? "Ukryj opinię" : null}
+        description="Ukryta opinia nie będzie widoczna publicznie ani wliczana do oceny rzemieślnika."
+        onConfirm={(reason) =>
+          reviewToHide
+            ? runAction(`/api/admin/reviews/${reviewToHide.id}/hide`, "POST", { reason })
+            : Promise.resolve(false)
+        }
+        onClose={() => setReviewToHide(null)}
+      />
+    </div>
+  );
+}
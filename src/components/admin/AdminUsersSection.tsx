@@ -0,0 +1,182 @@
+/**
+ * AdminUsersSection Component
+ *
+ * Lists users with search and role filters. Moderators can suspend and reinstate users,
+ * unpublish artisan profiles and verify artisan companies in the business registry. Companies
+ * registered under a different name wait until the moderator compares the names and accepts them.
+ */
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAdminList } from "@/components/hooks/useAdminList";
+import { AdminPagination } from "./AdminPagination";
+import { ModerationReasonDialog } from "./ModerationReasonDialog";
+import type { AdminUserDTO, UserRole, VerificationStatus } from "@/types";
+
+const roleLabels: Record<UserRole, string> = {
+  client: "Klient",
+  artisan: "Rzemieślnik",
+  admin: "Administrator",
+};
+
+const verificationLabels: Record<VerificationStatus, string> = {
+  unverified: "Niezweryfikowany",
+  verified: "Zweryfikowany",
+  needs_review: "Nazwa firmy różni się od rejestru",
+  failed: "NIP nie figuruje w rejestrze",
+};
+
+type PendingAction = { type: "suspend" | "unpublish"; user: AdminUserDTO } | null;
+
+export function AdminUsersSection() {
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState("");
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+
+  const { items, pagination, isLoading, error, setPage, runAction } = useAdminList<AdminUserDTO>("/api/admin/users", {
+    search: search.trim() || undefined,
+    role: role || undefined,
+  });
+
+  const handleConfirm = async (reason: string) => {
+    if (!pendingAction) return false;
+
+    const { type, user } = pendingAction;
+    return type === "suspend"
+      ? runAction(`/api/admin/users/${user.id}/suspend`, "POST", { reason })
+      : runAction(`/api/admin/artisans/${user.id}/unpublish`, "POST", { reason });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <Input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Szukaj po e-mailu, nazwie lub firmie"
+          aria-label="Szukaj użytkowników"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value)}
+          aria-label="Rola"
+          className="rounded-md border bg-background px-3 py-2 text-sm"
+        >
+          <option value="">Wszystkie role</option>
+          <option value="client">Klienci</option>
+          <option value="artisan">Rzemieślnicy</option>
+          <option value="admin">Administratorzy</option>
+        </select>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isLoading && items.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">Brak użytkowników</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {items.map((user) => (
+            <li key={user.id} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{user.display_name || user.email}</span>
+                  <Badge variant="outline">{roleLabels[user.role]}</Badge>
+                  {user.suspended_at && <Badge variant="destructive">Zawieszony</Badge>}
+                  {user.company_name && !user.is_public && <Badge variant="secondary">Profil prywatny</Badge>}
+                  {user.verification_status && (
+                    <Badge variant={user.verification_status === "failed" ? "destructive" : "secondary"}>
+                      {verificationLabels[user.verification_status]}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {user.email}
+                  {user.company_name && ` · ${user.company_name}`}
+                </p>
+                {user.verification_status === "needs_review" && (
+                  <p className="text-sm text-muted-foreground">Nazwa w rejestrze: {user.verified_company_name}</p>
+                )}
+                {user.suspension_reason && (
+                  <p className="text-sm text-muted-foreground">Powód zawieszenia: {user.suspension_reason}</p>
+                )}
+              </div>
+              {user.role !== "admin" && (
+                <div className="flex gap-2">
+                  {user.company_name && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runAction(`/api/admin/artisans/${user.id}/verify`, "POST")}
+                    >
+                      {user.verification_status === "unverified" ? "Zweryfikuj NIP" : "Sprawdź NIP ponownie"}
+                    </Button>
+                  )}
+                  {user.verification_status === "needs_review" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        runAction(`/api/admin/artisans/${user.id}/verify`, "POST", { accept_name_mismatch: true })
+                      }
+                    >
+                      Zatwierdź nazwę
+                    </Button>
+                  )}
+                  {user.company_name && user.is_public && (
+                    <Button variant="outline" size="sm" onClick={() => setPendingAction({ type: "unpublish", user })}>
+                      Ukryj profil
+                    </Button>
+                  )}
+                  {user.suspended_at ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runAction(`/api/admin/users/${user.id}/suspend`, "DELETE")}
+                    >
+                      Przywróć
+                    </Button>
+                  ) : (
+                    <Button variant="destructive" size="sm" onClick={() => setPendingAction({ type: "suspend", user })}>
+                      Zawieś
+                    </Button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AdminPagination pagination={pagination} onPageChange={setPage} />
+
+      <ModerationReasonDialog
+        title={
+          pendingAction
+            ? pendingAction.type === "suspend"
+              ? "Zawieś użytkownika"
+              : "Wycofaj profil rzemieślnika z publikacji"
+            : null
+        }
+        description={
+          pendingAction?.type === "suspend"
+            ? "Zawieszony użytkownik zostanie wylogowany i nie będzie mógł się zalogować."
+            : "Profil stanie się prywatny, a rzemieślnik nie będzie mógł go ponownie opublikować."
+        }
+        onConfirm={handleConfirm}
+        onClose={() => setPendingAction(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * ModerationLogSection Component
+ *
+ * Audit log of moderator actions, newest first, with a filter by action.
+ */
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useAdminList } from "@/components/hooks/useAdminList";
+import { AdminPagination } from "./AdminPagination";
+import type { ModerationAction, ModerationActionDTO } from "@/types";
+
+const actionLabels: Record<ModerationAction, string> = {
+  user_suspended: "Zawieszenie użytkownika",
+  user_reinstated: "Przywrócenie użytkownika",
+  review_hidden: "Ukrycie opinii",
+  review_restored: "Przywrócenie opinii",
+  artisan_profile_unpublished: "Wycofanie profilu rzemieślnika",
+  project_closed: "Zamknięcie projektu",
+  generation_quota_set: "Ustawienie limitu generacji",
+  generation_quota_cleared: "Usunięcie limitu generacji",
+  report_upheld: "Uwzględnienie zgłoszeń",
+  report_dismissed: "Odrzucenie zgłoszeń",
+  artisan_nip_checked: "Weryfikacja NIP rzemieślnika",
+};
+
+export function ModerationLogSection() {
+  const [action, setAction] = useState("");
+
+  const { items, pagination, isLoading, error, setPage } = useAdminList<ModerationActionDTO>("/api/admin/audit", {
+    action: action || undefined,
+  });
+
+  return (
+    <div className="space-y-4">
+      <select
+        value={action}
+        onChange={(e) => setAction(e.target.value)}
+        aria-label="Typ akcji"
+        className="rounded-md border bg-background px-3 py-2 text-sm"
+      >
+        <option value="">Wszystkie akcje</option>
+        {Object.entries(actionLabels).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isLoading && items.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">Dziennik moderacji jest pusty</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {items.map((entry) => (
+            <li key={entry.id} className="space-y-1 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium">{actionLabels[entry.action]}</span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(entry.created_at).toLocaleString("pl-PL")}
+                </span>
+              </div>
+              {entry.reason && <p className="text-sm">{entry.reason}</p>}
+              <p className="text-xs text-muted-foreground">
+                Obiekt: {entry.target_id} · Moderator: {entry.admin_id ?? "usunięty"}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AdminPagination pagination={pagination} onPageChange={setPage} />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * ModerationReasonDialog Component
+ *
+ * Asks the moderator for the reason of an action before running it. The reason is
+ * recorded in the audit log.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ModerationReasonDialogProps {
+  /** Title of the action, e.g. "Zawieś użytkownika"; the dialog is closed when null */
+  title: string | null;
+  description?: string;
+  onConfirm: (reason: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function ModerationReasonDialog({ title, description, onConfirm, onClose }: ModerationReasonDialogProps) {
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setReason("");
+      onClose();
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const success = await onConfirm(reason.trim());
+
+    setIsSubmitting(false);
+    if (success) {
+      handleOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={title !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="moderation-reason">Powód</Label>
+            <Textarea
+              id="moderation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Powód zostanie zapisany w dzienniku moderacji"
+              maxLength={500}
+              disabled={isSubmitting}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" variant="destructive" disabled={isSubmitting || reason.trim().length < 3}>
+              {isSubmitting ? "Zapisywanie..." : "Potwierdź"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ExternalLink, Loader2 } from "lucide-react";
+import { formatBudget, formatDimensions } from "@/lib/project-format";
 import type { ProjectDTO, PaginatedResponseDTO } from "@/types";
 
 /**
@@ -97,10 +98,12 @@ export function AvailableProjectsList() {
                   <p className="text-xs text-muted-foreground">{project.material.name}</p>
                 </div>
               </div>
-              {project.budget_range && (
-                <p className="text-sm text-muted-foreground mb-2">Budżet: {project.budget_range}</p>
+              {project.budget && (
+                <p className="text-sm text-muted-foreground mb-2">Budżet: {formatBudget(project.budget)}</p>
+              )}
+              {project.dimensions && (
+                <p className="text-xs text-muted-foreground">Wymiary: {formatDimensions(project.dimensions)}</p>
               )}
-              {project.dimensions && <p className="text-xs text-muted-foreground">Wymiary: {project.dimensions}</p>}
             </CardContent>
           </a>
         </Card>
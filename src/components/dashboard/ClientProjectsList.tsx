@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { FolderOpen, Plus, Users, Clock, CheckCircle, XCircle } from "lucide-react";
+import { formatBudget, formatDimensions } from "../../lib/project-format";
 import type { ProjectDTO } from "../../types";
 
 /**
@@ -182,13 +183,13 @@ export function ClientProjectsList() {
                     {project.dimensions && (
                       <div className="flex items-center text-sm text-muted-foreground">
                         <span className="font-medium">Wymiary:</span>
-                        <span className="ml-2">{project.dimensions}</span>
+                        <span className="ml-2">{formatDimensions(project.dimensions)}</span>
                       </div>
                     )}
-                    {project.budget_range && (
+                    {project.budget && (
                       <div className="flex items-center text-sm text-muted-foreground">
                         <span className="font-medium">Budżet:</span>
-                        <span className="ml-2">{project.budget_range}</span>
+                        <span className="ml-2">{formatBudget(project.budget)}</span>
                       </div>
                     )}
                   </div>
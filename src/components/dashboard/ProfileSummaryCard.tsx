@@ -2,14 +2,16 @@ import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Star, Edit } from "lucide-react";
-import type { ArtisanProfileDTO, ApiErrorDTO } from "@/types";
+import { Loader2, Star, Edit, MapPin } from "lucide-react";
+import { UserAvatar } from "@/components/profile/UserAvatar";
+import type { ArtisanProfileDTO, ApiErrorDTO, CurrentUserDTO, UserProfileDTO } from "@/types";
 
 /**
  * Profile Summary Card
  *
  * Displays artisan's profile overview with key information:
  * - Company name
+ * - Public profile (avatar, display name, city)
  * - Profile status (public/private)
  * - Average rating
  * - Total reviews
@@ -18,6 +20,7 @@ import type { ArtisanProfileDTO, ApiErrorDTO } from "@/types";
  */
 export function ProfileSummaryCard() {
   const [profile, setProfile] = useState<ArtisanProfileDTO | null>(null);
+  const [userProfile, setUserProfile] = useState<UserProfileDTO | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<ApiErrorDTO | null>(null);
 
@@ -27,7 +30,13 @@ export function ProfileSummaryCard() {
         setIsLoading(true);
         setError(null);
 
-        const response = await fetch("/api/artisans/me");
+        const [response, userResponse] = await Promise.all([fetch("/api/artisans/me"), fetch("/api/users/me")]);
+
+        // The public profile is optional in the card - the artisan profile is shown without it
+        if (userResponse.ok) {
+          const userData: CurrentUserDTO = await userResponse.json();
+          setUserProfile(userData.profile);
+        }
 
         if (response.ok) {
           const data: ArtisanProfileDTO = await response.json();
@@ -75,9 +84,21 @@ export function ProfileSummaryCard() {
     <Card>
       <CardHeader>
         <div className="flex items-start justify-between">
-          <div className="flex-1">
-            <CardTitle className="text-lg">{profile.company_name}</CardTitle>
-            <p className="text-sm text-muted-foreground mt-1">NIP: {profile.nip}</p>
+          <div className="flex flex-1 items-start gap-3">
+            {userProfile && (
+              <UserAvatar name={userProfile.display_name || profile.company_name} avatarUrl={userProfile.avatar_url} />
+            )}
+            <div>
+              <CardTitle className="text-lg">{profile.company_name}</CardTitle>
+              {userProfile?.display_name && <p className="text-sm mt-1">{userProfile.display_name}</p>}
+              <p className="text-sm text-muted-foreground mt-1">NIP: {profile.nip}</p>
+              {userProfile?.city && (
+                <p className="flex items-center gap-1 text-sm text-muted-foreground mt-1">
+                  <MapPin className="h-3 w-3" aria-hidden="true" />
+                  {userProfile.city}
+                </p>
+              )}
+            </div>
           </div>
           <Badge variant={profile.is_public ? "default" : "secondary"}>
             {profile.is_public ? "Publiczny" : "Prywatny"}
@@ -125,13 +146,16 @@ export function ProfileSummaryCard() {
           </div>
         )}
 
-        {/* Edit button */}
+        {/* Edit buttons */}
         <Button variant="outline" size="sm" className="w-full mt-4" asChild>
           <a href="/profile/edit">
             <Edit className="h-4 w-4 mr-2" />
             Edytuj profil
           </a>
         </Button>
+        <Button variant="ghost" size="sm" className="w-full" asChild>
+          <a href="/settings/profile">Zdjęcie, nazwa wyświetlana i miasto</a>
+        </Button>
       </CardContent>
     </Card>
   );
@@ -14,7 +14,7 @@ interface Stats {
  * Quick Stats Grid
  *
  * Displays key metrics for artisan at a glance:
- * - Active proposals (submitted but not yet accepted/rejected)
+ * - Active proposals (pending - not accepted, rejected or withdrawn)
  * - Projects in progress
  * - Completed projects this month
  * - Potential revenue from active proposals
@@ -43,7 +43,9 @@ export function QuickStatsGrid() {
         const proposals: MyProposalDTO[] = data.data || [];
 
         // Calculate stats
-        const activeProposals = proposals.filter((p) => p.project.status === "open" && !p.is_accepted).length;
+        // Only pending proposals on open projects are still in play
+        const pendingProposals = proposals.filter((p) => p.status === "pending" && p.project.status === "open");
+        const activeProposals = pendingProposals.length;
 
         const inProgress = proposals.filter((p) => p.project.status === "in_progress" && p.is_accepted).length;
 
@@ -57,9 +59,7 @@ export function QuickStatsGrid() {
         }).length;
 
         // Potential revenue from active proposals
-        const potentialRevenue = proposals
-          .filter((p) => p.project.status === "open" && !p.is_accepted)
-          .reduce((sum, p) => sum + p.price, 0);
+        const potentialRevenue = pendingProposals.reduce((sum, p) => sum + p.price, 0);
 
         setStats({
           activeProposals,
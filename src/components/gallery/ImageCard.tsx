@@ -1,11 +1,27 @@
+import { useState } from "react";
 import type { GeneratedImageDTO } from "@/types";
 import { Button } from "@/components/ui/button";
+import ImageVersionTree from "@/components/ImageVersionTree";
+import { useImageVersions } from "@/components/hooks/useImageVersions";
+import { ReportContentButton } from "@/components/reports/ReportContentButton";
 
 interface ImageCardProps {
   image: GeneratedImageDTO;
+  /** Shows the "Zgłoś" action; images of other users only, the author cannot report their own */
+  reportable?: boolean;
 }
 
-export default function ImageCard({ image }: ImageCardProps) {
+export default function ImageCard({ image, reportable = false }: ImageCardProps) {
+  const [showVersions, setShowVersions] = useState(false);
+  const { versions, isLoading, error, loadVersions } = useImageVersions(image.id);
+
+  const handleToggleVersions = () => {
+    if (!showVersions) {
+      loadVersions();
+    }
+    setShowVersions(!showVersions);
+  };
+
   const formattedDate = new Date(image.created_at).toLocaleDateString("pl-PL", {
     year: "numeric",
     month: "long",
@@ -23,6 +39,13 @@ export default function ImageCard({ image }: ImageCardProps) {
           loading="lazy"
         />
 
+        {/* Version badge */}
+        {image.parent_image_id && (
+          <div className="absolute top-3 left-3 bg-background/90 text-foreground text-xs font-semibold px-3 py-1.5 rounded-full shadow-md">
+            Wersja dopracowana
+          </div>
+        )}
+
         {/* Usage badge */}
         {image.is_used && (
           <div className="absolute top-3 right-3 bg-primary text-primary-foreground text-xs font-semibold px-3 py-1.5 rounded-full shadow-md">
@@ -48,6 +71,28 @@ export default function ImageCard({ image }: ImageCardProps) {
           </p>
         )}
         <p className="text-xs text-muted-foreground">{formattedDate}</p>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" size="sm">
+            <a href={`/generate?image=${image.id}`}>Dopracuj</a>
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleToggleVersions} aria-expanded={showVersions}>
+            {showVersions ? "Ukryj wersje" : "Wersje"}
+          </Button>
+          {reportable && <ReportContentButton targetType="generated_image" targetId={image.id} className="ml-auto" />}
+        </div>
+        {showVersions && (
+          <div className="pt-2">
+            {isLoading && <p className="text-xs text-muted-foreground">Ładowanie wersji...</p>}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            {versions && (
+              <ImageVersionTree
+                versions={versions}
+                selectedId={image.id}
+                onSelect={(imageId) => (window.location.href = `/generate?image=${imageId}`)}
+              />
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
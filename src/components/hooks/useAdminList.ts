@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from "react";
+import type { PaginatedResponseDTO, PaginationMetaDTO } from "../../types";
+
+interface UseAdminListReturn<T> {
+  items: T[];
+  pagination: PaginationMetaDTO | null;
+  isLoading: boolean;
+  error: string | null;
+  page: number;
+  setPage: (page: number) => void;
+  reload: () => Promise<void>;
+  runAction: (url: string, method: "POST" | "PUT" | "DELETE", body?: unknown) => Promise<boolean>;
+}
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || fallback;
+};
+
+/**
+ * Loads a paginated list of the moderation console and runs moderator actions on its items
+ *
+ * @param endpoint - Admin API endpoint, e.g. "/api/admin/users"
+ * @param filters - Query parameters; changing them goes back to the first page
+ */
+export function useAdminList<T>(endpoint: string, filters: Record<string, string | undefined>): UseAdminListReturn<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [pagination, setPagination] = useState<PaginationMetaDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+
+  const filtersKey = JSON.stringify(filters);
+
+  // Go back to the first page when filters change
+  useEffect(() => {
+    setPage(1);
+  }, [filtersKey]);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "20" });
+      Object.entries(JSON.parse(filtersKey) as Record<string, string | undefined>).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        }
+      });
+
+      const response = await fetch(`${endpoint}?${params.toString()}`);
+
+      if (!response.ok) {
+        setError(await getErrorMessage(response, "Nie udało się pobrać danych"));
+        return;
+      }
+
+      const result: PaginatedResponseDTO<T> = await response.json();
+      setItems(result.data);
+      setPagination(result.pagination);
+    } catch {
+      setError("Nie udało się połączyć z serwerem");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [endpoint, filtersKey, page]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const runAction = useCallback(
+    async (url: string, method: "POST" | "PUT" | "DELETE", body?: unknown) => {
+      setError(null);
+
+      try {
+        const response = await fetch(url, {
+          method,
+          headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          setError(await getErrorMessage(response, "Nie udało się wykonać akcji"));
+          return false;
+        }
+
+        await reload();
+        return true;
+      } catch {
+        setError("Nie udało się połączyć z serwerem");
+        return false;
+      }
+    },
+    [reload]
+  );
+
+  return { items, pagination, isLoading, error, page, setPage, reload, runAction };
+}
@@ -1,5 +1,14 @@
 import { useState, useCallback, useEffect } from "react";
-import type { GeneratedImageDTO, GenerateImageResponseDTO, GeneratedImagesListResponseDTO } from "@/types";
+import type {
+  GeneratedImageDTO,
+  GeneratedImageVersionsResponseDTO,
+  GenerateImageResponseDTO,
+  GeneratedImagesListResponseDTO,
+  ResolveImageCandidatesResponseDTO,
+} from "@/types";
+
+/** Maximum number of images in one design, mirrors MAX_VERSIONS_PER_DESIGN on the server */
+const MAX_VERSIONS_PER_DESIGN = 10;
 
 export interface ErrorMessage {
   code: string;
@@ -13,12 +22,26 @@ export interface GeneratorViewState {
   isLoading: boolean;
   error: ErrorMessage | null;
   generatedImage: GeneratedImageDTO | null;
+  /** Candidates waiting to be kept or discarded */
+  candidates: GeneratedImageDTO[];
+  /** All versions of the current design, oldest first */
+  versions: GeneratedImageDTO[];
+  /** Versions made in the current design, deleted ones included */
+  versionCount: number;
+  maxVersions: number;
   remainingGenerations: number;
+  /** Monthly generation limit of the user */
+  generationLimit: number;
+  /** When the monthly quota resets (ISO date), unknown until fetched */
+  quotaResetsAt: string | null;
 }
 
 interface UseImageGeneratorReturn {
   state: GeneratorViewState;
-  generateImage: (prompt: string) => Promise<void>;
+  generateImage: (prompt: string, candidateCount?: number) => Promise<void>;
+  keepCandidates: (keepIds: string[]) => Promise<void>;
+  refineImage: (change: string) => Promise<void>;
+  selectVersion: (imageId: string) => void;
   saveImage: (imageId: string) => Promise<void>;
   clearError: () => void;
   reset: () => void;
@@ -50,7 +73,7 @@ const mapErrorToUserMessage = (error: unknown): ErrorMessage => {
     if (error.status === 429) {
       return {
         code: "RATE_LIMIT_EXCEEDED",
-        message: "Osiągnięto limit 10 darmowych generacji. Aby wygenerować więcej, uaktualnij konto.",
+        message: "Osiągnięto limit generacji. Sprawdź, kiedy limit się odnowi, lub spróbuj ponownie później.",
         retryable: false,
       };
     }
@@ -80,13 +103,37 @@ const mapErrorToUserMessage = (error: unknown): ErrorMessage => {
   };
 };
 
+const toGeneratedImage = (data: GenerateImageResponseDTO): GeneratedImageDTO => ({
+  id: data.id,
+  user_id: data.user_id,
+  prompt: data.prompt,
+  image_url: data.image_url,
+  created_at: data.created_at,
+  is_used: data.is_used,
+  parent_image_id: data.parent_image_id,
+  root_image_id: data.root_image_id,
+  positive_prompt: data.positive_prompt,
+  negative_prompt: data.negative_prompt,
+  technical_notes: data.technical_notes,
+  materials: data.materials,
+  style: data.style,
+  model: data.model,
+  generation_time_ms: data.generation_time_ms,
+});
+
 export const useImageGenerator = (): UseImageGeneratorReturn => {
   const [state, setState] = useState<GeneratorViewState>({
     prompt: "",
     isLoading: false,
     error: null,
     generatedImage: null,
+    candidates: [],
+    versions: [],
+    versionCount: 0,
+    maxVersions: MAX_VERSIONS_PER_DESIGN,
     remainingGenerations: 10,
+    generationLimit: 10,
+    quotaResetsAt: null,
   });
 
   // Fetch remaining generations on component mount
@@ -99,6 +146,8 @@ export const useImageGenerator = (): UseImageGeneratorReturn => {
           setState((prev) => ({
             ...prev,
             remainingGenerations: data.remaining_generations,
+            generationLimit: data.quota?.limit ?? prev.generationLimit,
+            quotaResetsAt: data.quota?.resets_at ?? prev.quotaResetsAt,
           }));
         }
       } catch {
@@ -109,8 +158,36 @@ export const useImageGenerator = (): UseImageGeneratorReturn => {
     fetchRemainingGenerations();
   }, []);
 
+  // Open an existing design when the generator is reached from the gallery (?image=<id>)
+  useEffect(() => {
+    const imageId = new URLSearchParams(window.location.search).get("image");
+    if (!imageId) {
+      return;
+    }
+
+    const fetchVersions = async () => {
+      try {
+        const response = await fetch(`/api/images/generated/${imageId}/versions`);
+        if (response.ok) {
+          const data: GeneratedImageVersionsResponseDTO = await response.json();
+          setState((prev) => ({
+            ...prev,
+            versions: data.versions,
+            versionCount: data.version_count,
+            maxVersions: data.max_versions,
+            generatedImage: data.versions.find((version) => version.id === imageId) ?? null,
+          }));
+        }
+      } catch {
+        // Silently fail - the generator starts with an empty design
+      }
+    };
+
+    fetchVersions();
+  }, []);
+
   const generateImage = useCallback(
-    async (prompt: string) => {
+    async (prompt: string, candidateCount = 1) => {
       if (!prompt.trim()) {
         setState((prev) => ({
           ...prev,
@@ -140,7 +217,11 @@ export const useImageGenerator = (): UseImageGeneratorReturn => {
           ...prev,
           error: {
             code: "GENERATION_LIMIT_REACHED",
-            message: "Osiągnięto limit 10 darmowych generacji. Aby wygenerować więcej, uaktualnij konto.",
+            message: state.quotaResetsAt
+              ? `Osiągnięto miesięczny limit ${state.generationLimit} generacji. Limit odnowi się ${new Date(
+                  state.quotaResetsAt
+                ).toLocaleDateString("pl-PL", { timeZone: "UTC" })}.`
+              : `Osiągnięto miesięczny limit ${state.generationLimit} generacji.`,
             retryable: false,
           },
         }));
@@ -162,7 +243,7 @@ export const useImageGenerator = (): UseImageGeneratorReturn => {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ prompt }),
+          body: JSON.stringify({ prompt, candidates: candidateCount }),
           signal: controller.signal,
         });
 
@@ -173,18 +254,15 @@ export const useImageGenerator = (): UseImageGeneratorReturn => {
         }
 
         const data: GenerateImageResponseDTO = await response.json();
+        const image = toGeneratedImage(data);
 
         setState((prev) => ({
           ...prev,
           isLoading: false,
-          generatedImage: {
-            id: data.id,
-            user_id: data.user_id,
-            prompt: data.prompt,
-            image_url: data.image_url,
-            created_at: data.created_at,
-            is_used: data.is_used,
-          },
+          generatedImage: image,
+          candidates: data.candidates ?? [],
+          versions: data.candidates ? [] : [image],
+          versionCount: data.candidates ? 0 : 1,
           remainingGenerations: data.remaining_generations,
           prompt: "",
         }));
@@ -197,9 +275,144 @@ export const useImageGenerator = (): UseImageGeneratorReturn => {
         }));
       }
     },
-    [state.remainingGenerations]
+    [state.remainingGenerations, state.generationLimit, state.quotaResetsAt]
+  );
+
+  const refineImage = useCallback(
+    async (change: string) => {
+      const parentImage = state.generatedImage;
+      if (!parentImage) {
+        return;
+      }
+
+      if (change.trim().length < 3 || change.length > 300) {
+        setState((prev) => ({
+          ...prev,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Opis zmian musi zawierać 3-300 znaków",
+            retryable: true,
+          },
+        }));
+        return;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        isLoading: true,
+        error: null,
+      }));
+
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 90000);
+
+        const response = await fetch("/api/images/refine", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ parent_image_id: parentImage.id, prompt: change }),
+          signal: controller.signal,
+        });
+
+        clearTimeout(timeoutId);
+
+        if (!response.ok) {
+          throw response;
+        }
+
+        const data: GenerateImageResponseDTO = await response.json();
+        const image = toGeneratedImage(data);
+
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          generatedImage: image,
+          versions: [...prev.versions, image],
+          versionCount: prev.versionCount + 1,
+          remainingGenerations: data.remaining_generations,
+        }));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Response && error.status === 429
+            ? {
+                code: "VERSION_LIMIT_REACHED",
+                message: `Ten projekt ma już ${MAX_VERSIONS_PER_DESIGN} wersji. Wygeneruj nowy obraz, aby zacząć od nowa.`,
+                retryable: false,
+              }
+            : mapErrorToUserMessage(error);
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: errorMessage,
+        }));
+      }
+    },
+    [state.generatedImage]
+  );
+
+  const keepCandidates = useCallback(
+    async (keepIds: string[]) => {
+      const discardIds = state.candidates.map((candidate) => candidate.id).filter((id) => !keepIds.includes(id));
+
+      setState((prev) => ({
+        ...prev,
+        isLoading: true,
+        error: null,
+      }));
+
+      try {
+        const response = await fetch("/api/images/candidates", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ keep: keepIds, discard: discardIds }),
+        });
+
+        if (!response.ok) {
+          throw response;
+        }
+
+        const data: ResolveImageCandidatesResponseDTO = await response.json();
+        const [firstKept] = data.kept;
+
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          candidates: [],
+          generatedImage: firstKept ?? null,
+          versions: firstKept ? [firstKept] : [],
+          versionCount: firstKept ? 1 : 0,
+          remainingGenerations: data.remaining_generations,
+        }));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Response && error.status === 429
+            ? {
+                code: "GENERATION_LIMIT_REACHED",
+                message: "Nie masz wystarczającego limitu generacji, aby zachować wszystkie wybrane warianty.",
+                retryable: true,
+              }
+            : mapErrorToUserMessage(error);
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: errorMessage,
+        }));
+      }
+    },
+    [state.candidates]
   );
 
+  const selectVersion = useCallback((imageId: string) => {
+    setState((prev) => ({
+      ...prev,
+      generatedImage: prev.versions.find((version) => version.id === imageId) ?? prev.generatedImage,
+    }));
+  }, []);
+
   const saveImage = useCallback(async (imageId: string) => {
     // Guard clause: no image to save
     if (!imageId) {
@@ -259,6 +472,9 @@ export const useImageGenerator = (): UseImageGeneratorReturn => {
     setState((prev) => ({
       ...prev,
       generatedImage: null,
+      candidates: [],
+      versions: [],
+      versionCount: 0,
       error: null,
       prompt: "",
     }));
@@ -267,6 +483,9 @@ export const useImageGenerator = (): UseImageGeneratorReturn => {
   return {
     state,
     generateImage,
+    keepCandidates,
+    refineImage,
+    selectVersion,
     saveImage,
     clearError,
     reset,
@@ -0,0 +1,42 @@
+import { useState, useCallback } from "react";
+import type { GeneratedImageDTO, GeneratedImageVersionsResponseDTO } from "@/types";
+
+/**
+ * Custom hook for lazily loading the version tree of a generated image
+ *
+ * The versions are fetched the first time they are requested and kept afterwards.
+ *
+ * @param imageId - ID of any image of the design
+ * @returns Versions of the design, loading and error state, and a loader
+ */
+export function useImageVersions(imageId: string) {
+  const [versions, setVersions] = useState<GeneratedImageDTO[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (versions) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/images/generated/${imageId}/versions`);
+      if (!response.ok) {
+        setError("Nie udało się pobrać wersji obrazu.");
+        return;
+      }
+
+      const data: GeneratedImageVersionsResponseDTO = await response.json();
+      setVersions(data.versions);
+    } catch {
+      setError("Nie udało się pobrać wersji obrazu.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [imageId, versions]);
+
+  return { versions, isLoading, error, loadVersions };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import type {
-  ProjectDTO,
+  ProjectListItemDTO,
+  ProjectSortOption,
   CategoryDTO,
   MaterialDTO,
   PaginationMetaDTO,
@@ -12,30 +13,82 @@ export interface MarketplaceFilters {
   search?: string;
   categoryId?: string;
   materialId?: string;
+  budgetMin?: number;
+  budgetMax?: number;
+  maxWidth?: number;
+  maxDepth?: number;
+  maxHeight?: number;
+  sort?: ProjectSortOption;
+}
+
+const ITEMS_PER_PAGE = 20;
+const DEBOUNCE_DELAY = 300; // ms
+
+/**
+ * Numeric filters with their query parameter names (budget in PLN, dimensions in centimetres)
+ */
+const NUMERIC_FILTER_PARAMS = [
+  ["budgetMin", "budget_min"],
+  ["budgetMax", "budget_max"],
+  ["maxWidth", "max_width"],
+  ["maxDepth", "max_depth"],
+  ["maxHeight", "max_height"],
+] as const;
+
+const SORT_OPTIONS: ProjectSortOption[] = ["newest", "oldest", "budget_desc", "fewest_proposals"];
+
+/**
+ * Builds the /api/projects query of the marketplace filters (open projects only)
+ */
+function buildProjectsQuery(filters: MarketplaceFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set("status", "open"); // Only show open projects in marketplace
+  params.set("limit", ITEMS_PER_PAGE.toString());
+
+  if (filters.search) {
+    params.set("search", filters.search);
+  }
+  if (filters.categoryId) {
+    params.set("category_id", filters.categoryId);
+  }
+  if (filters.materialId) {
+    params.set("material_id", filters.materialId);
+  }
+  NUMERIC_FILTER_PARAMS.forEach(([key, param]) => {
+    const value = filters[key];
+    if (value !== undefined) {
+      params.set(param, value.toString());
+    }
+  });
+  if (filters.sort) {
+    params.set("sort", filters.sort);
+  }
+
+  return params;
 }
 
 interface UseMarketplaceReturn {
-  projects: ProjectDTO[];
+  projects: ProjectListItemDTO[];
   pagination: PaginationMetaDTO | null;
   filters: MarketplaceFilters;
   page: number;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: ApiErrorDTO | null;
   categories: CategoryDTO[];
   materials: MaterialDTO[];
   setFilters: (newFilters: Partial<MarketplaceFilters>) => void;
   setPage: (page: number) => void;
+  loadMore: () => Promise<void>;
 }
 
-const ITEMS_PER_PAGE = 20;
-const DEBOUNCE_DELAY = 300; // ms
-
 export function useMarketplace(): UseMarketplaceReturn {
-  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  const [projects, setProjects] = useState<ProjectListItemDTO[]>([]);
   const [pagination, setPagination] = useState<PaginationMetaDTO | null>(null);
   const [filters, setFiltersState] = useState<MarketplaceFilters>({});
   const [page, setPageState] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<ApiErrorDTO | null>(null);
   const [categories, setCategories] = useState<CategoryDTO[]>([]);
   const [materials, setMaterials] = useState<MaterialDTO[]>([]);
@@ -74,11 +127,17 @@ export function useMarketplace(): UseMarketplaceReturn {
     const search = params.get("search");
     const categoryId = params.get("category_id");
     const materialId = params.get("material_id");
+    const sort = params.get("sort");
     const urlPage = params.get("page");
 
     if (search) urlFilters.search = search;
     if (categoryId) urlFilters.categoryId = categoryId;
     if (materialId) urlFilters.materialId = materialId;
+    NUMERIC_FILTER_PARAMS.forEach(([key, param]) => {
+      const value = Number(params.get(param) || NaN);
+      if (!Number.isNaN(value)) urlFilters[key] = value;
+    });
+    if (SORT_OPTIONS.includes(sort as ProjectSortOption)) urlFilters.sort = sort as ProjectSortOption;
 
     setFiltersState(urlFilters);
     if (urlPage) setPageState(parseInt(urlPage, 10));
@@ -92,17 +151,8 @@ export function useMarketplace(): UseMarketplaceReturn {
 
       try {
         // Build query parameters
-        const params = new URLSearchParams();
-        params.set("status", "open"); // Only show open projects in marketplace
+        const params = buildProjectsQuery(filters);
         params.set("page", page.toString());
-        params.set("limit", ITEMS_PER_PAGE.toString());
-
-        if (filters.categoryId) {
-          params.set("category_id", filters.categoryId);
-        }
-        if (filters.materialId) {
-          params.set("material_id", filters.materialId);
-        }
 
         // Call API
         const response = await fetch(`/api/projects?${params.toString()}`);
@@ -112,21 +162,10 @@ export function useMarketplace(): UseMarketplaceReturn {
           throw new Error(errorData.error?.message || "Failed to load projects");
         }
 
-        const data: PaginatedResponseDTO<ProjectDTO> = await response.json();
-
-        // Filter by search on client side (if provided)
-        let filteredProjects = data.data;
-        if (filters.search) {
-          const searchLower = filters.search.toLowerCase();
-          filteredProjects = filteredProjects.filter(
-            (p) =>
-              p.category.name.toLowerCase().includes(searchLower) ||
-              p.material.name.toLowerCase().includes(searchLower) ||
-              p.generated_image.prompt?.toLowerCase().includes(searchLower)
-          );
-        }
+        // Search results come ranked by relevance with highlighted snippets
+        const data: PaginatedResponseDTO<ProjectListItemDTO> = await response.json();
 
-        setProjects(filteredProjects);
+        setProjects(data.data);
         setPagination(data.pagination);
       } catch (err) {
         setError({
@@ -140,12 +179,13 @@ export function useMarketplace(): UseMarketplaceReturn {
       }
     };
 
-    // Debounce search filter
+    // Debounce filters typed by the user (search and numeric filters)
+    const hasTypedFilters = !!filters.search || NUMERIC_FILTER_PARAMS.some(([key]) => filters[key] !== undefined);
     const timeoutId = setTimeout(
       () => {
         loadProjects();
       },
-      filters.search ? DEBOUNCE_DELAY : 0
+      hasTypedFilters ? DEBOUNCE_DELAY : 0
     );
 
     return () => clearTimeout(timeoutId);
@@ -158,6 +198,11 @@ export function useMarketplace(): UseMarketplaceReturn {
     if (filters.search) params.set("search", filters.search);
     if (filters.categoryId) params.set("category_id", filters.categoryId);
     if (filters.materialId) params.set("material_id", filters.materialId);
+    NUMERIC_FILTER_PARAMS.forEach(([key, param]) => {
+      const value = filters[key];
+      if (value !== undefined) params.set(param, value.toString());
+    });
+    if (filters.sort) params.set("sort", filters.sort);
     if (page > 1) params.set("page", page.toString());
 
     const newUrl = params.toString() ? `${window.location.pathname}?${params.toString()}` : window.location.pathname;
@@ -174,16 +219,52 @@ export function useMarketplace(): UseMarketplaceReturn {
     setPageState(newPage);
   }, []);
 
+  // Append the page after the last loaded project (keyset pagination keeps it stable while new projects arrive)
+  const loadMore = useCallback(async () => {
+    if (!pagination?.next_cursor) return;
+
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      const params = buildProjectsQuery(filters);
+      params.set("cursor", pagination.next_cursor);
+
+      const response = await fetch(`/api/projects?${params.toString()}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || "Failed to load projects");
+      }
+
+      const data: PaginatedResponseDTO<ProjectListItemDTO> = await response.json();
+
+      setProjects((prev) => [...prev, ...data.data]);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError({
+        error: {
+          code: "LOAD_PROJECTS_ERROR",
+          message: err instanceof Error ? err.message : "Nie udało się załadować projektów",
+        },
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [filters, pagination]);
+
   return {
     projects,
     pagination,
     filters,
     page,
     isLoading,
+    isLoadingMore,
     error,
     categories,
     materials,
     setFilters,
     setPage,
+    loadMore,
   };
 }
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from "react";
+import type {
+  CreateSavedSearchCommand,
+  SavedSearchDTO,
+  SpecializationDTO,
+  UpdateSavedSearchCommand,
+} from "../../types";
+
+interface UseSavedSearchesReturn {
+  savedSearches: SavedSearchDTO[];
+  specializations: SpecializationDTO[];
+  isLoading: boolean;
+  error: string | null;
+  createSavedSearch: (command: CreateSavedSearchCommand) => Promise<boolean>;
+  updateSavedSearch: (searchId: string, command: UpdateSavedSearchCommand) => Promise<void>;
+  deleteSavedSearch: (searchId: string) => Promise<void>;
+}
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || fallback;
+};
+
+export function useSavedSearches(): UseSavedSearchesReturn {
+  const [savedSearches, setSavedSearches] = useState<SavedSearchDTO[]>([]);
+  const [specializations, setSpecializations] = useState<SpecializationDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load saved searches and specializations on mount
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [searchesResponse, specializationsResponse] = await Promise.all([
+          fetch("/api/saved-searches"),
+          fetch("/api/specializations"),
+        ]);
+
+        if (searchesResponse.ok) {
+          const searchesData = await searchesResponse.json();
+          setSavedSearches(searchesData.data || []);
+        }
+        if (specializationsResponse.ok) {
+          const specializationsData = await specializationsResponse.json();
+          setSpecializations(specializationsData.data || []);
+        }
+      } catch {
+        // Silent catch - saved searches are not critical for browsing the marketplace
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const createSavedSearch = useCallback(async (command: CreateSavedSearchCommand) => {
+    setError(null);
+    try {
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        setError(await getErrorMessage(response, "Nie udało się zapisać wyszukiwania"));
+        return false;
+      }
+
+      const search: SavedSearchDTO = await response.json();
+      setSavedSearches((prev) => [search, ...prev]);
+      return true;
+    } catch {
+      setError("Nie udało się zapisać wyszukiwania");
+      return false;
+    }
+  }, []);
+
+  const updateSavedSearch = useCallback(async (searchId: string, command: UpdateSavedSearchCommand) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/saved-searches/${searchId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        setError(await getErrorMessage(response, "Nie udało się zaktualizować wyszukiwania"));
+        return;
+      }
+
+      const search: SavedSearchDTO = await response.json();
+      setSavedSearches((prev) => prev.map((item) => (item.id === search.id ? search : item)));
+    } catch {
+      setError("Nie udało się zaktualizować wyszukiwania");
+    }
+  }, []);
+
+  const deleteSavedSearch = useCallback(async (searchId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/saved-searches/${searchId}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        setError(await getErrorMessage(response, "Nie udało się usunąć wyszukiwania"));
+        return;
+      }
+
+      setSavedSearches((prev) => prev.filter((item) => item.id !== searchId));
+    } catch {
+      setError("Nie udało się usunąć wyszukiwania");
+    }
+  }, []);
+
+  return {
+    savedSearches,
+    specializations,
+    isLoading,
+    error,
+    createSavedSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+  };
+}
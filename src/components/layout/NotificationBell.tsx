@@ -0,0 +1,161 @@
+/**
+ * NotificationBell Component
+ *
+ * Bell icon in the header with the number of unread notifications.
+ * Opens a panel with the latest notifications; users can mark them as read
+ * one by one or all at once. The unread count is refreshed periodically.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Bell, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { NotificationDTO, NotificationsListResponseDTO, MarkNotificationsReadCommand } from "@/types";
+
+const POLL_INTERVAL_MS = 60_000;
+const NOTIFICATIONS_LIMIT = 10;
+
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<NotificationDTO[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/notifications?limit=${NOTIFICATIONS_LIMIT}`);
+      if (!response.ok) return;
+
+      const result: NotificationsListResponseDTO = await response.json();
+      setNotifications(result.data);
+      setUnreadCount(result.unread_count);
+    } catch {
+      // Notifications are not critical - keep the previous state
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  // Close the panel when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const markAsRead = async (command: MarkNotificationsReadCommand) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (response.ok) {
+        await fetchNotifications();
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenNotification = async (notification: NotificationDTO) => {
+    if (!notification.read_at) {
+      await markAsRead({ notification_ids: [notification.id] });
+    }
+    if (notification.project_id) {
+      window.location.href = `/projects/${notification.project_id}`;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label={unreadCount > 0 ? `Powiadomienia (${unreadCount} nieprzeczytane)` : "Powiadomienia"}
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((open) => !open)}
+        className="relative"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 rounded-md border bg-popover text-popover-foreground shadow-lg">
+          <div className="flex items-center justify-between border-b px-4 py-2">
+            <span className="text-sm font-semibold">Powiadomienia</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                className="text-xs text-primary hover:underline disabled:opacity-50"
+                onClick={() => markAsRead({ all: true })}
+                disabled={isLoading}
+              >
+                Oznacz wszystkie jako przeczytane
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">Brak powiadomień</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification.id} className="border-b last:border-b-0">
+                  <button
+                    type="button"
+                    className={`w-full px-4 py-3 text-left hover:bg-accent ${notification.read_at ? "" : "bg-accent/40"}`}
+                    onClick={() => handleOpenNotification(notification)}
+                    disabled={isLoading}
+                  >
+                    <p className="flex items-center gap-2 text-sm font-medium">
+                      {!notification.read_at && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                      {notification.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{notification.message}</p>
+                    <p className="mt-1 text-[11px] text-muted-foreground">
+                      {new Date(notification.created_at).toLocaleString("pl-PL")}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isLoading && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          <a
+            href="/settings/notifications"
+            className="block border-t px-4 py-2 text-center text-xs text-muted-foreground hover:text-foreground"
+          >
+            Ustawienia powiadomień e-mail
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,9 @@ import { useMarketplace } from "../hooks/useMarketplace";
 import ProjectFilters from "./ProjectFilters";
 import ProjectList from "./ProjectList";
 import PaginationControls from "./PaginationControls";
-import type { ProjectDTO } from "../../types";
+import SavedSearchesPanel from "./SavedSearchesPanel";
+import { formatBudget, formatDimensions } from "../../lib/project-format";
+import type { ProjectListItemDTO, ProjectSearchSnippetSegmentDTO } from "../../types";
 
 export interface ProjectCardViewModel {
   id: string;
@@ -12,23 +14,39 @@ export interface ProjectCardViewModel {
   budgetRange: string | null;
   dimensions: string | null;
   createdAt: string;
+  snippet?: ProjectSearchSnippetSegmentDTO[];
 }
 
-function transformProjectToViewModel(project: ProjectDTO): ProjectCardViewModel {
+function transformProjectToViewModel(project: ProjectListItemDTO): ProjectCardViewModel {
   return {
     id: project.id,
     imageUrl: project.generated_image.image_url,
     categoryName: project.category.name,
     materialName: project.material.name,
-    budgetRange: project.budget_range,
-    dimensions: project.dimensions,
+    budgetRange: formatBudget(project.budget),
+    dimensions: formatDimensions(project.dimensions),
     createdAt: project.created_at,
+    snippet: project.search_match?.snippet,
   };
 }
 
 export default function MarketplaceView() {
-  const { projects, pagination, filters, isLoading, error, categories, materials, setFilters, setPage } =
-    useMarketplace();
+  const {
+    projects,
+    pagination,
+    filters,
+    isLoading,
+    isLoadingMore,
+    error,
+    categories,
+    materials,
+    setFilters,
+    setPage,
+    loadMore,
+  } = useMarketplace();
+
+  // Search results are ranked by relevance and paginated by page, other lists load more projects by cursor
+  const isSearching = !!filters.search;
 
   // Transform projects to view models
   const projectViewModels = projects.map(transformProjectToViewModel);
@@ -53,6 +71,11 @@ export default function MarketplaceView() {
           />
         </div>
 
+        {/* Saved Searches */}
+        <div className="mb-6">
+          <SavedSearchesPanel filters={filters} categories={categories} materials={materials} onApply={setFilters} />
+        </div>
+
         {/* Error State */}
         {error && (
           <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800" role="alert">
@@ -67,9 +90,14 @@ export default function MarketplaceView() {
             <ProjectList projects={projectViewModels} isLoading={isLoading} />
 
             {/* Pagination */}
-            {pagination && pagination.total_pages > 1 && (
+            {pagination && (isSearching ? pagination.total_pages > 1 : !!pagination.next_cursor) && (
               <div className="mt-8">
-                <PaginationControls pagination={pagination} onPageChange={setPage} isLoading={isLoading} />
+                <PaginationControls
+                  pagination={pagination}
+                  onPageChange={setPage}
+                  onLoadMore={isSearching ? undefined : loadMore}
+                  isLoading={isLoading || isLoadingMore}
+                />
               </div>
             )}
           </>
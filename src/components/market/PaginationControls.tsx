@@ -1,15 +1,37 @@
 import { Button } from "../ui/button";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
 import type { PaginationMetaDTO } from "../../types";
 
 interface PaginationControlsProps {
   pagination: PaginationMetaDTO;
   onPageChange: (page: number) => void;
+  /** Switches to "load more" mode, appending the page after pagination.next_cursor */
+  onLoadMore?: () => void;
   isLoading: boolean;
 }
 
-export default function PaginationControls({ pagination, onPageChange, isLoading }: PaginationControlsProps) {
-  const { page, total_pages } = pagination;
+export default function PaginationControls({
+  pagination,
+  onPageChange,
+  onLoadMore,
+  isLoading,
+}: PaginationControlsProps) {
+  const { page, total_pages, next_cursor } = pagination;
+
+  if (onLoadMore) {
+    if (!next_cursor) {
+      return null;
+    }
+
+    return (
+      <div className="flex justify-center">
+        <Button variant="outline" onClick={onLoadMore} disabled={isLoading} aria-label="Załaduj więcej projektów">
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Załaduj więcej
+        </Button>
+      </div>
+    );
+  }
 
   const handlePrevious = () => {
     if (page > 1) {
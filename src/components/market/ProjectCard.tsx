@@ -1,4 +1,5 @@
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "../ui/card";
+import { ReportContentButton } from "../reports/ReportContentButton";
 import type { ProjectCardViewModel } from "./MarketplaceView";
 
 interface ProjectCardProps {
@@ -22,6 +23,19 @@ export default function ProjectCard({ project }: ProjectCardProps) {
           <CardDescription>Materiał: {project.materialName}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-2">
+          {project.snippet && (
+            <p className="text-sm text-gray-700">
+              {project.snippet.map((segment, index) =>
+                segment.highlighted ? (
+                  <mark key={index} className="rounded-sm bg-yellow-100 px-0.5 text-gray-900">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+            </p>
+          )}
           {project.dimensions && (
             <div className="flex items-center text-sm text-gray-600">
               <span className="font-medium">Wymiary:</span>
@@ -35,8 +49,9 @@ export default function ProjectCard({ project }: ProjectCardProps) {
             </div>
           )}
         </CardContent>
-        <CardFooter className="text-xs text-gray-500">
+        <CardFooter className="flex items-center justify-between text-xs text-gray-500">
           Dodano: {new Date(project.createdAt).toLocaleDateString("pl-PL")}
+          <ReportContentButton targetType="project" targetId={project.id} />
         </CardFooter>
       </Card>
     </a>
@@ -5,7 +5,14 @@ import { Button } from "../ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "../ui/dialog";
 import { Filter } from "lucide-react";
 import type { MarketplaceFilters } from "../hooks/useMarketplace";
-import type { CategoryDTO, MaterialDTO } from "../../types";
+import type { CategoryDTO, MaterialDTO, ProjectSortOption } from "../../types";
+
+const SORT_LABELS: Record<ProjectSortOption, string> = {
+  newest: "Najnowsze",
+  oldest: "Najdłużej otwarte",
+  budget_desc: "Najwyższy budżet",
+  fewest_proposals: "Najmniej ofert",
+};
 
 interface ProjectFiltersProps {
   filters: MarketplaceFilters;
@@ -36,8 +43,29 @@ export default function ProjectFilters({
     onFilterChange({ materialId: value === "all" ? undefined : value });
   };
 
+  const handleSortChange = (value: string) => {
+    onFilterChange({ sort: value === "newest" ? undefined : (value as ProjectSortOption) });
+  };
+
+  const handleNumberChange =
+    (key: "budgetMin" | "budgetMax" | "maxWidth" | "maxDepth" | "maxHeight") =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value === "" ? undefined : Number(e.target.value);
+      onFilterChange({ [key]: value !== undefined && !Number.isNaN(value) ? value : undefined });
+    };
+
   const handleResetFilters = () => {
-    onFilterChange({ search: undefined, categoryId: undefined, materialId: undefined });
+    onFilterChange({
+      search: undefined,
+      categoryId: undefined,
+      materialId: undefined,
+      budgetMin: undefined,
+      budgetMax: undefined,
+      maxWidth: undefined,
+      maxDepth: undefined,
+      maxHeight: undefined,
+      sort: undefined,
+    });
     setIsDialogOpen(false);
   };
 
@@ -59,6 +87,30 @@ export default function ProjectFilters({
         />
       </div>
 
+      {/* Sort Select - search results are always ordered by relevance */}
+      <div>
+        <label htmlFor="sort" className="mb-2 block text-sm font-medium text-gray-700">
+          Sortuj
+        </label>
+        <Select
+          value={filters.sort || "newest"}
+          onValueChange={handleSortChange}
+          disabled={isLoading || !!filters.search}
+        >
+          <SelectTrigger id="sort" aria-label="Wybierz sortowanie">
+            <SelectValue placeholder={SORT_LABELS.newest} />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {filters.search && <p className="mt-1 text-xs text-gray-500">Wyniki wyszukiwania są sortowane trafnością</p>}
+      </div>
+
       {/* Category Select */}
       <div>
         <label htmlFor="category" className="mb-2 block text-sm font-medium text-gray-700">
@@ -99,6 +151,65 @@ export default function ProjectFilters({
         </Select>
       </div>
 
+      {/* Budget Range */}
+      <fieldset>
+        <legend className="mb-2 block text-sm font-medium text-gray-700">Budżet (PLN)</legend>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="number"
+            min={0}
+            placeholder="Od"
+            value={filters.budgetMin ?? ""}
+            onChange={handleNumberChange("budgetMin")}
+            disabled={isLoading}
+            aria-label="Budżet od"
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder="Do"
+            value={filters.budgetMax ?? ""}
+            onChange={handleNumberChange("budgetMax")}
+            disabled={isLoading}
+            aria-label="Budżet do"
+          />
+        </div>
+      </fieldset>
+
+      {/* Maximum Size */}
+      <fieldset>
+        <legend className="mb-2 block text-sm font-medium text-gray-700">Maksymalne wymiary (cm)</legend>
+        <div className="grid grid-cols-3 gap-2">
+          <Input
+            type="number"
+            min={0}
+            placeholder="Szer."
+            value={filters.maxWidth ?? ""}
+            onChange={handleNumberChange("maxWidth")}
+            disabled={isLoading}
+            aria-label="Maksymalna szerokość"
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder="Gł."
+            value={filters.maxDepth ?? ""}
+            onChange={handleNumberChange("maxDepth")}
+            disabled={isLoading}
+            aria-label="Maksymalna głębokość"
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder="Wys."
+            value={filters.maxHeight ?? ""}
+            onChange={handleNumberChange("maxHeight")}
+            disabled={isLoading}
+            aria-label="Maksymalna wysokość"
+          />
+        </div>
+      </fieldset>
+
       {/* Reset Button */}
       <Button variant="outline" onClick={handleResetFilters} disabled={isLoading} className="w-full">
         Wyczyść filtry
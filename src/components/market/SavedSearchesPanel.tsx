@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Bell, BellOff, BookmarkPlus, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Checkbox } from "../ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "../ui/dialog";
+import { useSavedSearches } from "../hooks/useSavedSearches";
+import type { MarketplaceFilters } from "../hooks/useMarketplace";
+import type { CategoryDTO, MaterialDTO, SavedSearchDTO } from "../../types";
+
+interface SavedSearchesPanelProps {
+  filters: MarketplaceFilters;
+  categories: CategoryDTO[];
+  materials: MaterialDTO[];
+  onApply: (filters: Partial<MarketplaceFilters>) => void;
+}
+
+const parseBudget = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+export default function SavedSearchesPanel({ filters, categories, materials, onApply }: SavedSearchesPanelProps) {
+  const { savedSearches, specializations, error, createSavedSearch, updateSavedSearch, deleteSavedSearch } =
+    useSavedSearches();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [budgetMin, setBudgetMin] = useState("");
+  const [budgetMax, setBudgetMax] = useState("");
+  const [specializationId, setSpecializationId] = useState<string | undefined>(undefined);
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+
+  const categoryName = (id: string | null) => categories.find((category) => category.id === id)?.name;
+  const materialName = (id: string | null) => materials.find((material) => material.id === id)?.name;
+
+  const describeFilters = (search: Pick<SavedSearchDTO, "query" | "category_id" | "material_id">) =>
+    [search.query && `„${search.query}”`, categoryName(search.category_id), materialName(search.material_id)]
+      .filter(Boolean)
+      .join(" · ") || "Wszystkie projekty";
+
+  const resetForm = () => {
+    setName("");
+    setBudgetMin("");
+    setBudgetMax("");
+    setSpecializationId(undefined);
+    setAlertsEnabled(true);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // Prefill the budget with the budget filter of the marketplace
+    if (open) {
+      setBudgetMin(filters.budgetMin?.toString() ?? "");
+      setBudgetMax(filters.budgetMax?.toString() ?? "");
+    }
+    setIsDialogOpen(open);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const saved = await createSavedSearch({
+      name,
+      query: filters.search,
+      category_id: filters.categoryId,
+      material_id: filters.materialId,
+      specialization_id: specializationId,
+      budget_min: parseBudget(budgetMin),
+      budget_max: parseBudget(budgetMax),
+      alerts_enabled: alertsEnabled,
+    });
+
+    setIsSaving(false);
+    if (saved) {
+      resetForm();
+      setIsDialogOpen(false);
+    }
+  };
+
+  const handleApply = (search: SavedSearchDTO) => {
+    onApply({
+      search: search.query ?? undefined,
+      categoryId: search.category_id ?? undefined,
+      materialId: search.material_id ?? undefined,
+      budgetMin: search.budget_min ?? undefined,
+      budgetMax: search.budget_max ?? undefined,
+    });
+  };
+
+  return (
+    <div className="rounded-lg border bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Zapisane wyszukiwania</h2>
+          <p className="text-xs text-gray-500">Otrzymasz powiadomienie, gdy pojawi się pasujący projekt</p>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={handleOpenChange}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm">
+              <BookmarkPlus className="mr-2 h-4 w-4" />
+              Zapisz wyszukiwanie
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Zapisz wyszukiwanie</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Filtry:{" "}
+                {describeFilters({
+                  query: filters.search ?? null,
+                  category_id: filters.categoryId ?? null,
+                  material_id: filters.materialId ?? null,
+                })}
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="saved-search-name">Nazwa</Label>
+                <Input
+                  id="saved-search-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="np. Dębowe stoły"
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="saved-search-budget-min">Budżet od (PLN)</Label>
+                  <Input
+                    id="saved-search-budget-min"
+                    type="number"
+                    min={0}
+                    value={budgetMin}
+                    onChange={(e) => setBudgetMin(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="saved-search-budget-max">Budżet do (PLN)</Label>
+                  <Input
+                    id="saved-search-budget-max"
+                    type="number"
+                    min={0}
+                    value={budgetMax}
+                    onChange={(e) => setBudgetMax(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="saved-search-specialization">Specjalizacja</Label>
+                <Select
+                  value={specializationId || "all"}
+                  onValueChange={(value) => setSpecializationId(value === "all" ? undefined : value)}
+                >
+                  <SelectTrigger id="saved-search-specialization" aria-label="Wybierz specjalizację">
+                    <SelectValue placeholder="Dowolna specjalizacja" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Dowolna specjalizacja</SelectItem>
+                    {specializations.map((specialization) => (
+                      <SelectItem key={specialization.id} value={specialization.id}>
+                        {specialization.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="saved-search-alerts"
+                  checked={alertsEnabled}
+                  onCheckedChange={(checked) => setAlertsEnabled(checked === true)}
+                />
+                <Label htmlFor="saved-search-alerts" className="font-normal">
+                  Powiadamiaj o nowych projektach
+                </Label>
+              </div>
+
+              {error && (
+                <p className="text-sm text-destructive" role="alert">
+                  {error}
+                </p>
+              )}
+
+              <DialogFooter>
+                <Button type="submit" disabled={isSaving || name.trim() === ""}>
+                  {isSaving ? "Zapisywanie..." : "Zapisz"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {!isDialogOpen && error && (
+        <p className="mt-3 text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {savedSearches.length > 0 && (
+        <ul className="mt-4 flex flex-wrap gap-2">
+          {savedSearches.map((search) => (
+            <li
+              key={search.id}
+              className="flex items-center gap-1 rounded-full border bg-gray-50 py-1 pr-1 pl-3 text-sm"
+            >
+              <button
+                type="button"
+                className="font-medium text-gray-900 hover:underline"
+                onClick={() => handleApply(search)}
+                title={describeFilters(search)}
+              >
+                {search.name}
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label={search.alerts_enabled ? "Wyłącz powiadomienia" : "Włącz powiadomienia"}
+                onClick={() => updateSavedSearch(search.id, { alerts_enabled: !search.alerts_enabled })}
+              >
+                {search.alerts_enabled ? (
+                  <Bell className="h-3.5 w-3.5 text-primary" />
+                ) : (
+                  <BellOff className="h-3.5 w-3.5 text-gray-400" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label={`Usuń wyszukiwanie ${search.name}`}
+                onClick={() => deleteSavedSearch(search.id)}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
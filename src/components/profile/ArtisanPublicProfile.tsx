@@ -10,17 +10,16 @@ import { Loader2, AlertCircle, Star, ArrowLeft } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import type { ArtisanProfileDTO } from "@/types";
+import type { ArtisanProfileDTO, ReviewerDTO } from "@/types";
+import { UserAvatar } from "./UserAvatar";
+import { VerifiedBadge } from "./VerifiedBadge";
 
 interface Review {
   id: string;
   rating: number;
   comment: string | null;
   created_at: string;
-  reviewer: {
-    id: string;
-    name: string;
-  };
+  reviewer: ReviewerDTO;
   project: {
     id: string;
     category: {
@@ -154,7 +153,12 @@ export default function ArtisanPublicProfile({ artisanId }: ArtisanPublicProfile
         <Card>
           <CardHeader>
             <div className="space-y-2">
-              <CardTitle className="text-3xl">{profile.company_name}</CardTitle>
+              <div className="flex flex-wrap items-center gap-3">
+                <CardTitle className="text-3xl">{profile.company_name}</CardTitle>
+                {profile.verification_status === "verified" && (
+                  <VerifiedBadge companyName={profile.verified_company_name} />
+                )}
+              </div>
               <div className="flex items-center gap-4 text-muted-foreground">
                 {profile.average_rating !== null && (
                   <div className="flex items-center gap-1">
@@ -214,6 +218,14 @@ export default function ArtisanPublicProfile({ artisanId }: ArtisanPublicProfile
               <span className="text-sm font-medium">NIP:</span>
               <span className="ml-2 text-sm text-muted-foreground">{profile.nip}</span>
             </div>
+            {profile.verification_status === "verified" && (
+              <div>
+                <span className="text-sm font-medium">Dane z rejestru:</span>
+                <span className="ml-2 text-sm text-muted-foreground">
+                  {[profile.verified_company_name, profile.verified_address].filter(Boolean).join(", ")}
+                </span>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -232,20 +244,24 @@ export default function ArtisanPublicProfile({ artisanId }: ArtisanPublicProfile
                 {reviews.data.map((review) => (
                   <div key={review.id} className="border-b last:border-0 pb-6 last:pb-0">
                     <div className="flex items-start justify-between mb-2">
-                      <div className="space-y-1">
-                        <div className="flex items-center gap-1">
-                          {Array.from({ length: 5 }, (_, i) => (
-                            <Star
-                              key={i}
-                              className={
-                                i < review.rating
-                                  ? "h-4 w-4 fill-yellow-400 text-yellow-400"
-                                  : "h-4 w-4 fill-gray-200 text-gray-200"
-                              }
-                            />
-                          ))}
+                      <div className="flex items-start gap-3">
+                        <UserAvatar name={review.reviewer.name} avatarUrl={review.reviewer.avatar_url} />
+                        <div className="space-y-1">
+                          <p className="text-sm font-medium">{review.reviewer.name}</p>
+                          <div className="flex items-center gap-1">
+                            {Array.from({ length: 5 }, (_, i) => (
+                              <Star
+                                key={i}
+                                className={
+                                  i < review.rating
+                                    ? "h-4 w-4 fill-yellow-400 text-yellow-400"
+                                    : "h-4 w-4 fill-gray-200 text-gray-200"
+                                }
+                              />
+                            ))}
+                          </div>
+                          <p className="text-sm text-muted-foreground">Projekt: {review.project.category.name}</p>
                         </div>
-                        <p className="text-sm text-muted-foreground">Projekt: {review.project.category.name}</p>
                       </div>
                       <time className="text-sm text-muted-foreground">
                         {new Date(review.created_at).toLocaleDateString("pl-PL", {
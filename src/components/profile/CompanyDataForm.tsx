@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { isValidNip, NIP_PATTERN } from "@/lib/nip";
 import type { CompanyDataViewModel } from "@/components/hooks/useArtisanProfileForm";
 
 interface CompanyDataFormProps {
@@ -43,15 +44,18 @@ export function CompanyDataForm({ initialData, onNext, isSubmitting }: CompanyDa
   };
 
   /**
-   * Validate NIP (must be exactly 10 digits)
+   * Validate NIP (must be exactly 10 digits with a valid check digit)
    */
   const validateNip = (value: string): string | undefined => {
     if (!value.trim()) {
       return "NIP jest wymagany";
     }
-    if (!/^\d{10}$/.test(value.trim())) {
+    if (!NIP_PATTERN.test(value.trim())) {
       return "NIP musi składać się z dokładnie 10 cyfr";
     }
+    if (!isValidNip(value.trim())) {
+      return "Nieprawidłowy NIP - cyfra kontrolna się nie zgadza";
+    }
     return undefined;
   };
 
@@ -141,7 +145,7 @@ export function CompanyDataForm({ initialData, onNext, isSubmitting }: CompanyDa
             value={nip}
             onChange={(e) => setNip(e.target.value)}
             onBlur={handleNipBlur}
-            placeholder="1234567890"
+            placeholder="1234563218"
             maxLength={10}
             aria-invalid={touched.nip && !!fieldErrors.nip}
             aria-describedby={fieldErrors.nip ? "nip-error" : undefined}
@@ -153,7 +157,10 @@ export function CompanyDataForm({ initialData, onNext, isSubmitting }: CompanyDa
               {fieldErrors.nip}
             </p>
           )}
-          <p className="text-xs text-muted-foreground">Wprowadź 10 cyfr bez kresek i spacji</p>
+          <p className="text-xs text-muted-foreground">
+            Wprowadź 10 cyfr bez kresek i spacji. Zmiana NIP usuwa oznaczenie firmy zweryfikowanej do czasu ponownej
+            weryfikacji.
+          </p>
         </div>
 
         {/* Profile Visibility Field */}
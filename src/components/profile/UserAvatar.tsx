@@ -0,0 +1,44 @@
+/**
+ * UserAvatar Component
+ *
+ * Shows the avatar of a user from their public profile, or the initials of their display name.
+ */
+
+import { cn } from "@/lib/utils";
+
+interface UserAvatarProps {
+  name: string;
+  avatarUrl: string | null;
+  className?: string;
+}
+
+/**
+ * Get up to two initials from a display name
+ */
+function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0])
+    .join("")
+    .toUpperCase();
+}
+
+export function UserAvatar({ name, avatarUrl, className }: UserAvatarProps) {
+  if (avatarUrl) {
+    return <img src={avatarUrl} alt={name} className={cn("h-10 w-10 shrink-0 rounded-full object-cover", className)} />;
+  }
+
+  return (
+    <div
+      aria-hidden="true"
+      className={cn(
+        "h-10 w-10 shrink-0 rounded-full bg-primary/10 flex items-center justify-center text-sm font-medium",
+        className
+      )}
+    >
+      {getInitials(name)}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * VerifiedBadge Component
+ *
+ * "Zweryfikowany" badge of artisans whose company was found in the business registry by NIP,
+ * followed by the company name registered under the NIP.
+ */
+
+import { BadgeCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface VerifiedBadgeProps {
+  /** Company name registered under the NIP, shown next to the label */
+  companyName?: string | null;
+  /** Company name and address from the registry, shown on hover */
+  details?: string;
+  className?: string;
+}
+
+export function VerifiedBadge({ companyName, details, className }: VerifiedBadgeProps) {
+  return (
+    <Badge
+      variant="secondary"
+      className={cn("gap-1 text-green-700 dark:text-green-400", className)}
+      title={details ?? "Firma zweryfikowana w rejestrze na podstawie NIP"}
+    >
+      <BadgeCheck className="h-3.5 w-3.5" aria-hidden="true" />
+      Zweryfikowany
+      {companyName && <span className="font-normal">· {companyName}</span>}
+    </Badge>
+  );
+}
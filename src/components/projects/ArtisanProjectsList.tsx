@@ -3,6 +3,8 @@ import { Loader2, AlertCircle, Package } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import type { MyProposalDTO, ApiErrorDTO } from "@/types";
+import { formatLeadTime, isProposalExpired } from "@/lib/project-format";
+import { ProposalStatusBadge } from "./ProposalStatusBadge";
 
 interface ArtisanProjectsListProps {
   status?: string;
@@ -175,11 +177,7 @@ export default function ArtisanProjectsList({ status }: ArtisanProjectsListProps
                     alt={project.project.category.name}
                     className="object-cover w-full h-full group-hover:scale-105 transition-transform duration-300"
                   />
-                  {project.is_accepted && (
-                    <div className="absolute top-2 right-2 bg-green-500 text-white text-xs px-2 py-1 rounded">
-                      Zaakceptowano
-                    </div>
-                  )}
+                  <ProposalStatusBadge status={project.status} className="absolute top-2 right-2 shadow" />
                 </div>
                 <div className="p-4">
                   <div className="flex items-center justify-between mb-2">
@@ -199,9 +197,25 @@ export default function ArtisanProjectsList({ status }: ArtisanProjectsListProps
                     </span>
                   </div>
                   <p className="text-2xl font-bold mb-2">{project.price} PLN</p>
+                  {project.lead_time_days !== null && (
+                    <p className="text-sm text-muted-foreground">
+                      Czas realizacji: {formatLeadTime(project.lead_time_days)}
+                    </p>
+                  )}
                   <p className="text-xs text-muted-foreground">
                     Oferta z {new Date(project.created_at).toLocaleDateString("pl-PL")}
                   </p>
+                  {project.valid_until && project.status === "pending" && (
+                    <p
+                      className={`text-xs ${isProposalExpired(project.valid_until) ? "text-destructive" : "text-muted-foreground"}`}
+                    >
+                      {isProposalExpired(project.valid_until) ? "Wygasła" : "Ważna do"}{" "}
+                      {new Date(project.valid_until).toLocaleDateString("pl-PL")}
+                    </p>
+                  )}
+                  {project.rejection_reason && (
+                    <p className="mt-2 text-xs text-muted-foreground">Powód odrzucenia: {project.rejection_reason}</p>
+                  )}
                 </div>
               </a>
             ))}
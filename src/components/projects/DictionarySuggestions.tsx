@@ -0,0 +1,60 @@
+import React from "react";
+import type { DictionarySuggestionDTO, SuggestionConfidence } from "@/types";
+
+interface DictionarySuggestionsProps {
+  name: string;
+  suggestions: DictionarySuggestionDTO[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+const confidenceLabels: Record<SuggestionConfidence, string> = {
+  high: "wysoka pewność",
+  medium: "średnia pewność",
+  low: "niska pewność",
+};
+
+const confidenceStyles: Record<SuggestionConfidence, string> = {
+  high: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-gray-100 text-gray-800",
+};
+
+/**
+ * DictionarySuggestions Component
+ *
+ * Shows categories or materials recognized in the image prompt, ranked from the most likely,
+ * so the client can pick the right entry with one click instead of searching the whole list.
+ */
+const DictionarySuggestions: React.FC<DictionarySuggestionsProps> = ({ name, suggestions, selectedId, onSelect }) => {
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" aria-label={`Sugestie: ${name}`}>
+      <span className="text-xs md:text-sm text-muted-foreground">Sugerowane na podstawie promptu:</span>
+      {suggestions.map((suggestion) => {
+        const isSelected = suggestion.id === selectedId;
+        return (
+          <button
+            key={suggestion.id}
+            type="button"
+            onClick={() => onSelect(suggestion.id)}
+            aria-pressed={isSelected}
+            className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs md:text-sm transition-colors hover:bg-muted ${
+              isSelected ? "border-primary bg-primary/5 font-medium" : ""
+            }`}
+          >
+            {suggestion.name}
+            <span className={`text-[10px] md:text-xs px-1.5 py-0.5 rounded ${confidenceStyles[suggestion.confidence]}`}>
+              {confidenceLabels[suggestion.confidence]}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DictionarySuggestions;
@@ -15,7 +15,7 @@ interface FormFieldProps {
   error?: string;
   onChange: (value: string) => void;
   onBlur: () => void;
-  type: "text" | "select";
+  type: "text" | "number" | "select";
   options?: FormFieldOption[];
   placeholder?: string;
   required?: boolean;
@@ -70,7 +70,9 @@ const FormField: React.FC<FormFieldProps> = ({
       ) : (
         <Input
           id={name}
-          type="text"
+          type={type}
+          min={type === "number" ? 0 : undefined}
+          step={type === "number" ? "any" : undefined}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           onBlur={onBlur}
@@ -4,8 +4,17 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { ProposalsList } from "./ProposalsList.tsx";
 import { ProposalForm } from "./ProposalForm.tsx";
+import { ProposalNegotiation } from "./ProposalNegotiation.tsx";
+import { ProposalStatusBadge } from "./ProposalStatusBadge.tsx";
 import { ReviewsList } from "./ReviewsList.tsx";
-import { AcceptedProposal, ChatWidget, ReviewForm, useProjectDetails } from "./details";
+import {
+  AcceptedProposal,
+  ChatWidget,
+  MilestonesPanel,
+  ProjectTimeline,
+  ReviewForm,
+  useProjectDetails,
+} from "./details";
 
 interface ProjectDetailsViewProps {
   projectId: string;
@@ -20,7 +29,8 @@ interface ProjectDetailsViewProps {
  * - User ownership (isOwner)
  */
 export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProps) {
-  const { project, isLoading, error, refresh, submitReview, completeProject } = useProjectDetails(projectId);
+  const { project, isLoading, error, refresh, submitReview, completeProject, withdrawProposal } =
+    useProjectDetails(projectId);
   const [isSubmittingReview, setIsSubmittingReview] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
@@ -68,7 +78,7 @@ export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProp
     );
   }
 
-  const { isOwner, hasProposed, hasReviewed, acceptedProposal } = project;
+  const { isOwner, hasProposed, hasReviewed, acceptedProposal, ownProposal } = project;
   const dashboardUrl = isOwner ? "/dashboard/client" : "/dashboard/artisan";
   const reviewerLabel = isOwner ? "Opinia rzemieślnika" : "Opinia klienta";
 
@@ -127,6 +137,13 @@ export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProp
               <p className="text-base italic">{project.prompt}</p>
             </div>
           )}
+
+          {project.technicalNotes && (
+            <div className="mt-6 pt-6 border-t">
+              <p className="text-sm text-muted-foreground mb-2">Uwagi techniczne</p>
+              <p className="text-base whitespace-pre-line">{project.technicalNotes}</p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -136,7 +153,7 @@ export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProp
         {project.status === "open" && (
           <>
             {/* CLIENT + OWNER: Show proposals list */}
-            {isOwner && <ProposalsList projectId={projectId} onProposalAccepted={refresh} />}
+            {isOwner && <ProposalsList projectId={projectId} budget={project.budget} onProposalAccepted={refresh} />}
 
             {/* ARTISAN + NOT PROPOSED: Show proposal form */}
             {!isOwner && !hasProposed && <ProposalForm projectId={projectId} />}
@@ -148,6 +165,39 @@ export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProp
                 <AlertDescription>Twoja oferta została wysłana. Czekaj na decyzję klienta.</AlertDescription>
               </Alert>
             )}
+
+            {/* ARTISAN + ALREADY PROPOSED: Proposal status and negotiation thread with the client */}
+            {!isOwner && ownProposal && (
+              <div className="bg-card rounded-lg border p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold">Twoja oferta</h3>
+                  <ProposalStatusBadge status={ownProposal.status} />
+                </div>
+                {ownProposal.rejectionReason && (
+                  <p className="text-sm text-muted-foreground mb-4">Powód odrzucenia: {ownProposal.rejectionReason}</p>
+                )}
+                {ownProposal.status === "pending" && (
+                  <>
+                    <ProposalNegotiation proposalId={ownProposal.id} party="artisan" onChange={refresh} />
+                    <Button
+                      variant="outline"
+                      className="mt-4"
+                      onClick={async () => {
+                        if (confirm("Czy na pewno chcesz wycofać swoją ofertę?")) {
+                          try {
+                            await withdrawProposal(ownProposal.id);
+                          } catch (err) {
+                            alert(err instanceof Error ? err.message : "Nie udało się wycofać oferty");
+                          }
+                        }
+                      }}
+                    >
+                      Wycofaj ofertę
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
           </>
         )}
 
@@ -158,6 +208,7 @@ export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProp
             {acceptedProposal && currentUserId && (
               <ChatWidget projectId={projectId} artisanId={acceptedProposal.artisanId} currentUserId={currentUserId} />
             )}
+            {acceptedProposal && <MilestonesPanel projectId={projectId} party={isOwner ? "client" : "artisan"} />}
 
             {/* Mark as completed button - only for project owner */}
             {isOwner && (
@@ -173,8 +224,9 @@ export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProp
                       try {
                         await completeProject();
                         refresh();
-                      } catch {
-                        alert("Nie udało się oznaczyć projektu jako zakończony");
+                      } catch (err) {
+                        // e.g. milestones still waiting for approval
+                        alert(err instanceof Error ? err.message : "Nie udało się oznaczyć projektu jako zakończony");
                       }
                     }
                   }}
@@ -195,6 +247,10 @@ export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProp
               <AlertDescription>Ten projekt został pomyślnie zakończony.</AlertDescription>
             </Alert>
 
+            {acceptedProposal && (
+              <MilestonesPanel projectId={projectId} party={isOwner ? "client" : "artisan"} readOnly />
+            )}
+
             {/* Display existing reviews */}
             {project.reviews.length > 0 && <ReviewsList reviews={project.reviews} reviewerLabel={reviewerLabel} />}
 
@@ -229,6 +285,11 @@ export default function ProjectDetailsView({ projectId }: ProjectDetailsViewProp
             <AlertDescription>Ten projekt został zamknięty i nie przyjmuje już ofert.</AlertDescription>
           </Alert>
         )}
+
+        {/* Audit trail - visible to the project owner and the artisan with the accepted proposal */}
+        {(isOwner || (acceptedProposal && project.status !== "open")) && (
+          <ProjectTimeline projectId={projectId} refreshKey={project} />
+        )}
       </div>
     </div>
   );
@@ -1,28 +1,57 @@
 import React from "react";
-import type { CategoryDTO, MaterialDTO } from "@/types";
+import type { CategoryDTO, MaterialDTO, ProjectSuggestionsDTO } from "@/types";
 import SelectedImageView from "./SelectedImageView";
 import FormField from "./FormField";
+import DictionarySuggestions from "./DictionarySuggestions";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 import { useProjectForm } from "./hooks/useProjectForm";
 
+const dimensionFields = [
+  { name: "width", label: "Szerokość" },
+  { name: "depth", label: "Głębokość" },
+  { name: "height", label: "Wysokość" },
+] as const;
+
+const dimensionUnitOptions = [
+  { id: "mm", name: "mm" },
+  { id: "cm", name: "cm" },
+  { id: "m", name: "m" },
+];
+
+const currencyOptions = [
+  { id: "PLN", name: "PLN" },
+  { id: "EUR", name: "EUR" },
+  { id: "USD", name: "USD" },
+];
+
 interface ProjectFormContainerProps {
   imageId: string;
   imageUrl: string;
   imagePrompt: string | null;
   categories: CategoryDTO[];
   materials: MaterialDTO[];
+  suggestions?: ProjectSuggestionsDTO;
 }
 
+// Sugestia o niskiej pewności jest tylko pokazywana, nie wybierana automatycznie
+const preselect = (suggestions: ProjectSuggestionsDTO["categories"] = []) =>
+  suggestions[0] && suggestions[0].confidence !== "low" ? suggestions[0].id : undefined;
+
 const ProjectFormContainer: React.FC<ProjectFormContainerProps> = ({
   imageId,
   imageUrl,
   imagePrompt,
   categories,
   materials,
+  suggestions,
 }) => {
   const { formData, errors, isLoading, handleChange, handleBlur, handleSubmit, handleCancel } = useProjectForm({
     imageId,
+    initialValues: {
+      category_id: preselect(suggestions?.categories),
+      material_id: preselect(suggestions?.materials),
+    },
   });
 
   return (
@@ -58,6 +87,12 @@ const ProjectFormContainer: React.FC<ProjectFormContainerProps> = ({
           options={categories.map((cat) => ({ id: cat.id, name: cat.name }))}
           required
         />
+        <DictionarySuggestions
+          name="kategoria"
+          suggestions={suggestions?.categories ?? []}
+          selectedId={formData.category_id}
+          onSelect={(id) => handleChange("category_id", id)}
+        />
 
         <FormField
           label="Materiał"
@@ -70,28 +105,84 @@ const ProjectFormContainer: React.FC<ProjectFormContainerProps> = ({
           options={materials.map((mat) => ({ id: mat.id, name: mat.name }))}
           required
         />
-
-        <FormField
-          label="Wymiary"
-          name="dimensions"
-          value={formData.dimensions}
-          error={errors.dimensions}
-          onChange={(value: string) => handleChange("dimensions", value)}
-          onBlur={() => handleBlur("dimensions")}
-          type="text"
-          placeholder="np. 120cm x 80cm x 75cm"
+        <DictionarySuggestions
+          name="materiał"
+          suggestions={suggestions?.materials ?? []}
+          selectedId={formData.material_id}
+          onSelect={(id) => handleChange("material_id", id)}
         />
 
-        <FormField
-          label="Zakres budżetu"
-          name="budget_range"
-          value={formData.budget_range}
-          error={errors.budget_range}
-          onChange={(value: string) => handleChange("budget_range", value)}
-          onBlur={() => handleBlur("budget_range")}
-          type="text"
-          placeholder="np. 2000-3000 PLN"
-        />
+        <fieldset className="space-y-2">
+          <legend className="text-sm md:text-base font-medium">Wymiary</legend>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {dimensionFields.map(({ name, label }) => (
+              <FormField
+                key={name}
+                label={label}
+                name={name}
+                value={formData[name]}
+                error={errors[name]}
+                onChange={(value: string) => handleChange(name, value)}
+                onBlur={() => handleBlur(name)}
+                type="number"
+              />
+            ))}
+            <FormField
+              label="Jednostka"
+              name="dimension_unit"
+              value={formData.dimension_unit}
+              onChange={(value: string) => handleChange("dimension_unit", value)}
+              onBlur={() => handleBlur("dimension_unit")}
+              type="select"
+              options={dimensionUnitOptions}
+            />
+          </div>
+          {errors.dimensions && (
+            <p className="text-sm text-destructive" role="alert">
+              {errors.dimensions}
+            </p>
+          )}
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm md:text-base font-medium">Budżet</legend>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <FormField
+              label="Od"
+              name="budget_min"
+              value={formData.budget_min}
+              error={errors.budget_min}
+              onChange={(value: string) => handleChange("budget_min", value)}
+              onBlur={() => handleBlur("budget_min")}
+              type="number"
+              placeholder="np. 2000"
+            />
+            <FormField
+              label="Do"
+              name="budget_max"
+              value={formData.budget_max}
+              error={errors.budget_max}
+              onChange={(value: string) => handleChange("budget_max", value)}
+              onBlur={() => handleBlur("budget_max")}
+              type="number"
+              placeholder="np. 3000"
+            />
+            <FormField
+              label="Waluta"
+              name="budget_currency"
+              value={formData.budget_currency}
+              onChange={(value: string) => handleChange("budget_currency", value)}
+              onBlur={() => handleBlur("budget_currency")}
+              type="select"
+              options={currencyOptions}
+            />
+          </div>
+          {errors.budget && (
+            <p className="text-sm text-destructive" role="alert">
+              {errors.budget}
+            </p>
+          )}
+        </fieldset>
 
         <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-3 sm:gap-4 pt-4 border-t">
           <Button
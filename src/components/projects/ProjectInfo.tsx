@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { formatBudget } from "@/lib/project-format";
 import type { ProjectDTO } from "@/types";
 
 interface ProjectInfoProps {
@@ -11,6 +12,12 @@ interface ProjectInfoProps {
   };
 }
 
+const dimensionLabels = [
+  ["width", "Szerokość"],
+  ["depth", "Głębokość"],
+  ["height", "Wysokość"],
+] as const;
+
 const statusLabels: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
   open: { label: "Otwarty", variant: "default" },
   in_progress: { label: "W realizacji", variant: "secondary" },
@@ -26,6 +33,8 @@ const statusLabels: Record<string, { label: string; variant: "default" | "second
  */
 export function ProjectInfo({ project }: ProjectInfoProps) {
   const statusInfo = statusLabels[project.status] || statusLabels.open;
+  const { dimensions } = project;
+  const budget = formatBudget(project.budget);
 
   return (
     <Card>
@@ -62,17 +71,26 @@ export function ProjectInfo({ project }: ProjectInfoProps) {
             <p className="text-base">{project.material.name}</p>
           </div>
 
-          {project.dimensions && (
+          {dimensions && (
             <div>
               <h3 className="text-sm font-medium text-muted-foreground mb-1">Wymiary</h3>
-              <p className="text-base">{project.dimensions}</p>
+              <dl className="grid grid-cols-3 gap-2 text-base">
+                {dimensionLabels.map(([key, label]) => (
+                  <div key={key}>
+                    <dt className="text-xs text-muted-foreground">{label}</dt>
+                    <dd>
+                      {dimensions[key] !== null ? `${dimensions[key].toLocaleString("pl-PL")} ${dimensions.unit}` : "—"}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
             </div>
           )}
 
-          {project.budget_range && (
+          {budget && (
             <div>
               <h3 className="text-sm font-medium text-muted-foreground mb-1">Budżet</h3>
-              <p className="text-base">{project.budget_range}</p>
+              <p className="text-base">{budget}</p>
             </div>
           )}
 
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Eye, EyeOff, FileText, Download } from "lucide-react";
+import type { ProposalAttachmentDTO } from "@/types";
+
+interface ProposalAttachmentsProps {
+  attachments: ProposalAttachmentDTO[];
+  /** Smaller thumbnails and no inline PDF preview (used in the comparison table) */
+  compact?: boolean;
+}
+
+/**
+ * Formats a file size, e.g. "240 KB" or "1,2 MB"
+ */
+function formatFileSize(bytes: number): string {
+  return bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / 1024 / 1024).toLocaleString("pl-PL", { maximumFractionDigits: 1 })} MB`;
+}
+
+/**
+ * ProposalAttachments Component
+ *
+ * Shows the captioned files of a proposal: images as thumbnails and PDFs as documents
+ * that can be previewed inline.
+ */
+export function ProposalAttachments({ attachments, compact = false }: ProposalAttachmentsProps) {
+  const [previewedAttachmentId, setPreviewedAttachmentId] = useState<string | null>(null);
+
+  const images = attachments.filter((attachment) => attachment.mime_type.startsWith("image/"));
+  const documents = attachments.filter((attachment) => !attachment.mime_type.startsWith("image/"));
+
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {images.length > 0 && (
+        <div className={`grid gap-2 ${compact ? "grid-cols-2" : "grid-cols-2 sm:grid-cols-4"}`}>
+          {images.map((image) => (
+            <figure key={image.id} className="space-y-1">
+              <a href={image.file_url} target="_blank" rel="noopener noreferrer" className="block hover:opacity-80">
+                <img
+                  src={image.file_url}
+                  alt={image.caption || image.file_name}
+                  className="aspect-square w-full rounded border object-cover"
+                  loading="lazy"
+                />
+              </a>
+              {image.caption && (
+                <figcaption className="text-xs text-muted-foreground line-clamp-2">{image.caption}</figcaption>
+              )}
+            </figure>
+          ))}
+        </div>
+      )}
+
+      {documents.map((file) => (
+        <div key={file.id} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <FileText className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+            <span className="font-medium">{file.caption || file.file_name}</span>
+            {file.size_bytes !== null && (
+              <span className="text-xs text-muted-foreground">({formatFileSize(file.size_bytes)})</span>
+            )}
+            <div className="ml-auto flex gap-1">
+              {!compact && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPreviewedAttachmentId(previewedAttachmentId === file.id ? null : file.id)}
+                  aria-expanded={previewedAttachmentId === file.id}
+                >
+                  {previewedAttachmentId === file.id ? (
+                    <EyeOff className="h-4 w-4 mr-1" />
+                  ) : (
+                    <Eye className="h-4 w-4 mr-1" />
+                  )}
+                  {previewedAttachmentId === file.id ? "Ukryj podgląd" : "Podgląd"}
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" asChild>
+                <a href={file.file_url} target="_blank" rel="noopener noreferrer">
+                  <Download className="h-4 w-4 mr-1" />
+                  Pobierz
+                </a>
+              </Button>
+            </div>
+          </div>
+          {previewedAttachmentId === file.id && (
+            <iframe
+              src={file.file_url}
+              title={`Podgląd: ${file.caption || file.file_name}`}
+              className="h-[32rem] w-full rounded border"
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, FileText, Star, X } from "lucide-react";
+import type { ProjectBudgetDTO, ProposalDTO } from "@/types";
+import {
+  PROPOSAL_INCLUSION_LABELS,
+  comparePriceToBudget,
+  formatLeadTime,
+  isProposalExpired,
+} from "@/lib/project-format";
+import { ProposalStatusBadge } from "./ProposalStatusBadge";
+import { ProposalAttachments } from "./ProposalAttachments";
+import { VerifiedBadge } from "@/components/profile/VerifiedBadge";
+
+interface ProposalComparisonProps {
+  proposals: ProposalDTO[];
+  budget: ProjectBudgetDTO | null;
+  acceptingProposalId: string | null;
+  onAccept: (proposal: ProposalDTO) => void;
+  onClose: () => void;
+}
+
+const BUDGET_POSITION_CLASSES = {
+  below: "text-green-700",
+  within: "text-green-700",
+  above: "text-destructive",
+} as const;
+
+/**
+ * ProposalComparison Component
+ *
+ * Shows the proposals selected by the client side by side: price against the budget, lead time,
+ * offer terms, artisan rating, specializations, portfolio and the attached offer.
+ */
+export function ProposalComparison({
+  proposals,
+  budget,
+  acceptingProposalId,
+  onAccept,
+  onClose,
+}: ProposalComparisonProps) {
+  const lowestPrice = Math.min(...proposals.map((proposal) => proposal.price));
+  const leadTimes = proposals.flatMap((proposal) =>
+    proposal.lead_time_days !== null ? [proposal.lead_time_days] : []
+  );
+  const shortestLeadTime = leadTimes.length > 1 ? Math.min(...leadTimes) : null;
+
+  const rows: { label: string; render: (proposal: ProposalDTO) => ReactNode }[] = [
+    {
+      label: "Cena",
+      render: (proposal) => (
+        <div className="space-y-1">
+          <p className="text-lg font-bold">{proposal.price.toLocaleString("pl-PL")} PLN</p>
+          {proposal.price === lowestPrice && proposals.length > 1 && <Badge variant="secondary">Najniższa cena</Badge>}
+        </div>
+      ),
+    },
+    {
+      label: "Cena a budżet",
+      render: (proposal) => {
+        const comparison = comparePriceToBudget(proposal.price, budget);
+        return comparison ? (
+          <span className={BUDGET_POSITION_CLASSES[comparison.position]}>{comparison.label}</span>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        );
+      },
+    },
+    {
+      label: "Czas realizacji",
+      render: ({ lead_time_days }) =>
+        lead_time_days !== null ? (
+          <div className="space-y-1">
+            <p>{formatLeadTime(lead_time_days)}</p>
+            {lead_time_days === shortestLeadTime && <Badge variant="secondary">Najkrótszy termin</Badge>}
+          </div>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        ),
+    },
+    {
+      label: "W cenie",
+      render: ({ inclusions }) =>
+        inclusions.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {inclusions.map((inclusion) => (
+              <Badge key={inclusion} variant="outline">
+                {PROPOSAL_INCLUSION_LABELS[inclusion]}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        ),
+    },
+    {
+      label: "Zakres prac",
+      render: ({ scope_description }) =>
+        scope_description ? (
+          <p className="whitespace-pre-line">{scope_description}</p>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        ),
+    },
+    {
+      label: "Ważna do",
+      render: ({ valid_until }) =>
+        !valid_until ? (
+          <span className="text-muted-foreground">Bezterminowo</span>
+        ) : isProposalExpired(valid_until) ? (
+          <span className="text-destructive">Wygasła {new Date(valid_until).toLocaleDateString("pl-PL")}</span>
+        ) : (
+          new Date(valid_until).toLocaleDateString("pl-PL")
+        ),
+    },
+    {
+      label: "Ocena",
+      render: ({ artisan }) =>
+        artisan.average_rating !== null ? (
+          <span className="flex items-center gap-1">
+            <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" aria-hidden="true" />
+            {artisan.average_rating.toFixed(1)}
+            <span className="text-muted-foreground">({artisan.total_reviews} opinii)</span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">Brak opinii</span>
+        ),
+    },
+    {
+      label: "Specjalizacje",
+      render: ({ artisan }) =>
+        artisan.specializations.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {artisan.specializations.map((specialization) => (
+              <Badge key={specialization.id} variant="outline">
+                {specialization.name}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        ),
+    },
+    {
+      label: "Portfolio",
+      render: ({ artisan }) =>
+        artisan.portfolio_images.length > 0 ? (
+          <div className="grid grid-cols-2 gap-1">
+            {artisan.portfolio_images.map((image) => (
+              <img
+                key={image.id}
+                src={image.image_url}
+                alt={`Realizacja ${artisan.company_name}`}
+                className="aspect-square w-full rounded object-cover"
+                loading="lazy"
+              />
+            ))}
+          </div>
+        ) : (
+          <span className="text-muted-foreground">Brak zdjęć</span>
+        ),
+    },
+    {
+      label: "Załączniki",
+      render: ({ attachment_url, attachments }) =>
+        attachments.length > 0 ? (
+          <ProposalAttachments attachments={attachments} compact />
+        ) : !attachment_url ? (
+          <span className="text-muted-foreground">—</span>
+        ) : (
+          <a
+            href={attachment_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-primary underline"
+          >
+            <FileText className="h-4 w-4" aria-hidden="true" />
+            Otwórz załącznik
+          </a>
+        ),
+    },
+    {
+      label: "Wiadomość",
+      render: ({ message }) => message || <span className="text-muted-foreground">—</span>,
+    },
+    {
+      label: "Status",
+      render: (proposal) => <ProposalStatusBadge status={proposal.status} />,
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Porównanie ofert ({proposals.length})</h3>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4 mr-2" />
+          Zamknij porównanie
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full table-fixed border-collapse text-sm">
+          <thead>
+            <tr>
+              <th scope="col" className="w-32 p-2" />
+              {proposals.map((proposal) => (
+                <th key={proposal.id} scope="col" className="p-2 text-left align-bottom">
+                  <a href={`/artisan/${proposal.artisan.user_id}`} className="hover:text-primary hover:underline">
+                    {proposal.artisan.company_name}
+                  </a>
+                  {proposal.artisan.is_verified && (
+                    <VerifiedBadge companyName={proposal.artisan.verified_company_name} className="ml-2 align-middle" />
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-t">
+                <th scope="row" className="p-2 text-left align-top font-medium text-muted-foreground">
+                  {row.label}
+                </th>
+                {proposals.map((proposal) => (
+                  <td key={proposal.id} className="p-2 align-top">
+                    {row.render(proposal)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="border-t">
+              <td className="p-2" />
+              {proposals.map((proposal) => (
+                <td key={proposal.id} className="p-2">
+                  {proposal.status === "pending" && (
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      onClick={() => onAccept(proposal)}
+                      disabled={acceptingProposalId !== null || isProposalExpired(proposal.valid_until)}
+                    >
+                      {acceptingProposalId === proposal.id ? (
+                        <>
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Akceptowanie...
+                        </>
+                      ) : (
+                        "Akceptuj ofertę"
+                      )}
+                    </Button>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, X } from "lucide-react";
+import type { ProposalInclusion } from "@/types";
+import { PROPOSAL_INCLUSION_LABELS } from "@/lib/project-format";
+
+/** Maximum number of files attached to a proposal (validated again by the API) */
+const MAX_PROPOSAL_ATTACHMENTS = 5;
 
 interface ProposalFormProps {
   projectId: string;
@@ -15,33 +21,62 @@ interface ProposalFormProps {
  * ProposalForm Component
  *
  * Form for artisans to submit proposals for a project.
- * Includes price, message, and optional attachment.
+ * Includes price, offer terms (lead time, scope, inclusions, expiry date), message, and captioned attachments.
  */
 export function ProposalForm({ projectId }: ProposalFormProps) {
   const [price, setPrice] = useState("");
+  const [leadTimeDays, setLeadTimeDays] = useState("");
+  const [scopeDescription, setScopeDescription] = useState("");
+  const [inclusions, setInclusions] = useState<ProposalInclusion[]>([]);
+  const [validUntil, setValidUntil] = useState("");
   const [message, setMessage] = useState("");
-  const [attachment, setAttachment] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<{ file: File; caption: string }[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
   const handleAttachmentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
+    const files = Array.from(e.target.files || []);
+    // Reset the input so the same file can be picked again after removing it
+    e.target.value = "";
+
+    if (files.length === 0) return;
+
+    if (attachments.length + files.length > MAX_PROPOSAL_ATTACHMENTS) {
+      setError(`Możesz dodać maksymalnie ${MAX_PROPOSAL_ATTACHMENTS} załączników.`);
+      return;
+    }
+
+    const allowedTypes = ["application/pdf", "image/jpeg", "image/png"];
+    for (const file of files) {
       // Validate file size (max 5MB)
       if (file.size > 5 * 1024 * 1024) {
-        setError("Plik jest za duży. Maksymalny rozmiar to 5MB.");
+        setError(`Plik ${file.name} jest za duży. Maksymalny rozmiar to 5MB.`);
         return;
       }
       // Validate file type
-      const allowedTypes = ["application/pdf", "image/jpeg", "image/png"];
       if (!allowedTypes.includes(file.type)) {
-        setError("Nieprawidłowy typ pliku. Dozwolone: PDF, JPG, PNG.");
+        setError(`Nieprawidłowy typ pliku ${file.name}. Dozwolone: PDF, JPG, PNG.`);
         return;
       }
-      setAttachment(file);
-      setError(null);
     }
+
+    setAttachments((prev) => [...prev, ...files.map((file) => ({ file, caption: "" }))]);
+    setError(null);
+  };
+
+  const updateCaption = (index: number, caption: string) => {
+    setAttachments((prev) => prev.map((attachment, i) => (i === index ? { ...attachment, caption } : attachment)));
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const toggleInclusion = (inclusion: ProposalInclusion) => {
+    setInclusions((prev) =>
+      prev.includes(inclusion) ? prev.filter((item) => item !== inclusion) : [...prev, inclusion]
+    );
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -55,17 +90,35 @@ export function ProposalForm({ projectId }: ProposalFormProps) {
       return;
     }
 
-    if (!attachment) {
+    const leadTimeNum = parseInt(leadTimeDays, 10);
+    if (!leadTimeDays || leadTimeNum <= 0) {
+      setError("Podaj szacowany czas realizacji w dniach");
+      return;
+    }
+
+    if (attachments.length === 0) {
       setError("Załącznik jest wymagany");
       return;
     }
 
+    if (attachments.some((attachment) => !attachment.caption.trim())) {
+      setError("Dodaj podpis do każdego załącznika");
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
       const formData = new FormData();
       formData.append("price", priceNum.toString());
-      formData.append("attachment", attachment);
+      formData.append("lead_time_days", leadTimeNum.toString());
+      if (scopeDescription.trim()) formData.append("scope_description", scopeDescription.trim());
+      inclusions.forEach((inclusion) => formData.append("inclusions", inclusion));
+      if (validUntil) formData.append("valid_until", validUntil);
+      attachments.forEach(({ file, caption }) => {
+        formData.append("attachments", file);
+        formData.append("captions", caption.trim());
+      });
 
       const response = await fetch(`/api/projects/${projectId}/proposals`, {
         method: "POST",
@@ -75,16 +128,17 @@ export function ProposalForm({ projectId }: ProposalFormProps) {
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || "Nie udało się złożyć oferty");
+        throw new Error(result.error?.message || "Nie udało się złożyć oferty");
       }
 
       setSuccess(true);
       setPrice("");
+      setLeadTimeDays("");
+      setScopeDescription("");
+      setInclusions([]);
+      setValidUntil("");
       setMessage("");
-      setAttachment(null);
-      // Reset file input
-      const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
-      if (fileInput) fileInput.value = "";
+      setAttachments([]);
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Wystąpił błąd podczas składania oferty. Spróbuj ponownie.";
@@ -135,6 +189,70 @@ export function ProposalForm({ projectId }: ProposalFormProps) {
             />
           </div>
 
+          {/* Lead time and expiry date */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="lead-time-days">Czas realizacji (dni)</Label>
+              <Input
+                id="lead-time-days"
+                type="number"
+                step="1"
+                min="1"
+                max="365"
+                placeholder="np. 21"
+                value={leadTimeDays}
+                onChange={(e) => setLeadTimeDays(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="valid-until">Oferta ważna do (opcjonalnie)</Label>
+              <Input
+                id="valid-until"
+                type="date"
+                min={new Date().toISOString().slice(0, 10)}
+                value={validUntil}
+                onChange={(e) => setValidUntil(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          {/* Scope */}
+          <div className="space-y-2">
+            <Label htmlFor="scope-description">Zakres prac (opcjonalnie)</Label>
+            <Textarea
+              id="scope-description"
+              placeholder="Opisz, co obejmuje oferta: materiały, wymiary, sposób wykonania..."
+              rows={4}
+              maxLength={2000}
+              value={scopeDescription}
+              onChange={(e) => setScopeDescription(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Inclusions */}
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">W cenie</legend>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(PROPOSAL_INCLUSION_LABELS) as ProposalInclusion[]).map((inclusion) => (
+                <div key={inclusion} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`inclusion-${inclusion}`}
+                    checked={inclusions.includes(inclusion)}
+                    onCheckedChange={() => toggleInclusion(inclusion)}
+                    disabled={isSubmitting}
+                  />
+                  <Label htmlFor={`inclusion-${inclusion}`} className="font-normal">
+                    {PROPOSAL_INCLUSION_LABELS[inclusion]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
           {/* Message */}
           <div className="space-y-2">
             <Label htmlFor="message">Wiadomość (opcjonalnie)</Label>
@@ -149,21 +267,47 @@ export function ProposalForm({ projectId }: ProposalFormProps) {
             <p className="text-xs text-muted-foreground">To dobra okazja aby wyróżnić się na tle innych ofert</p>
           </div>
 
-          {/* Attachment */}
+          {/* Attachments */}
           <div className="space-y-2">
-            <Label htmlFor="attachment">Załącznik (wymagany)</Label>
+            <Label htmlFor="attachments">Załączniki (co najmniej jeden)</Label>
             <Input
-              id="attachment"
+              id="attachments"
               type="file"
               accept=".pdf,.jpg,.jpeg,.png"
+              multiple
               onChange={handleAttachmentChange}
-              disabled={isSubmitting}
-              required
+              disabled={isSubmitting || attachments.length >= MAX_PROPOSAL_ATTACHMENTS}
             />
             <p className="text-xs text-muted-foreground">
-              Prześlij portfolio, zdjęcia wcześniejszych prac lub szczegółową ofertę (PDF, JPG, PNG; max 5MB)
+              Prześlij rysunki techniczne, wycenę w PDF lub zdjęcia próbek materiałów (PDF, JPG, PNG; max 5MB każdy, do{" "}
+              {MAX_PROPOSAL_ATTACHMENTS} plików)
             </p>
-            {attachment && <p className="text-sm text-green-600">Wybrany plik: {attachment.name}</p>}
+            {attachments.map((attachment, index) => (
+              <div key={`${attachment.file.name}-${index}`} className="flex items-center gap-2">
+                <span className="w-40 truncate text-sm" title={attachment.file.name}>
+                  {attachment.file.name}
+                </span>
+                <Input
+                  placeholder="Podpis, np. Rysunek techniczny"
+                  aria-label={`Podpis załącznika ${attachment.file.name}`}
+                  maxLength={200}
+                  value={attachment.caption}
+                  onChange={(e) => updateCaption(index, e.target.value)}
+                  disabled={isSubmitting}
+                  required
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeAttachment(index)}
+                  disabled={isSubmitting}
+                  aria-label={`Usuń załącznik ${attachment.file.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
           </div>
 
           {error && (
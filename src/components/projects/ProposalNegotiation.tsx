@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Download } from "lucide-react";
+import type { ProposalNegotiationDTO } from "@/types";
+
+interface ProposalNegotiationProps {
+  proposalId: string;
+  /** Which side of the negotiation the current user is on */
+  party: "client" | "artisan";
+  /** Called after a counter-offer or revision has been sent */
+  onChange?: () => void;
+}
+
+type ThreadEntry =
+  | {
+      kind: "revision";
+      id: string;
+      price: number;
+      note: string | null;
+      createdAt: string;
+      revision: number;
+      attachmentUrl: string | null;
+    }
+  | { kind: "counter_offer"; id: string; price: number; note: string | null; createdAt: string };
+
+/**
+ * ProposalNegotiation Component
+ *
+ * Shows the negotiation thread of a single proposal (artisan revisions and
+ * client counter-offers in chronological order). Clients can send a
+ * counter-price, artisans can revise their price or attachment.
+ */
+export function ProposalNegotiation({ proposalId, party, onChange }: ProposalNegotiationProps) {
+  const [negotiation, setNegotiation] = useState<ProposalNegotiationDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [price, setPrice] = useState("");
+  const [note, setNote] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchNegotiation = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/proposals/${proposalId}/negotiation`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || "Nie udało się załadować negocjacji");
+      }
+
+      setNegotiation(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się załadować negocjacji");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [proposalId]);
+
+  useEffect(() => {
+    fetchNegotiation();
+  }, [fetchNegotiation]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const priceNum = parseFloat(price);
+    if (!price || priceNum <= 0) {
+      setError("Cena musi być większa od 0");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      let response: Response;
+
+      if (party === "client") {
+        response = await fetch(`/api/proposals/${proposalId}/counter-offers`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ price: priceNum, note: note || undefined }),
+        });
+      } else {
+        const formData = new FormData();
+        formData.append("price", priceNum.toString());
+        if (note) formData.append("note", note);
+        if (attachment) formData.append("attachment", attachment);
+
+        response = await fetch(`/api/proposals/${proposalId}/revisions`, {
+          method: "POST",
+          body: formData,
+        });
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || "Nie udało się wysłać odpowiedzi");
+      }
+
+      setPrice("");
+      setNote("");
+      setAttachment(null);
+      await fetchNegotiation();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się wysłać odpowiedzi");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading && !negotiation) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const entries: ThreadEntry[] = negotiation
+    ? [
+        ...negotiation.revisions.map(
+          (r): ThreadEntry => ({
+            kind: "revision",
+            id: r.id,
+            price: r.price,
+            note: r.note,
+            createdAt: r.created_at,
+            revision: r.revision_number,
+            attachmentUrl: r.attachment_url,
+          })
+        ),
+        ...negotiation.counter_offers.map(
+          (c): ThreadEntry => ({
+            kind: "counter_offer",
+            id: c.id,
+            price: c.price,
+            note: c.note,
+            createdAt: c.created_at,
+          })
+        ),
+      ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    : [];
+
+  const isLocked = negotiation?.accepted_revision !== null && negotiation?.accepted_revision !== undefined;
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-3">
+        {entries.map((entry) => (
+          <li
+            key={entry.id}
+            className={`rounded-md border p-3 text-sm ${entry.kind === "counter_offer" ? "bg-muted/50 ml-6" : "mr-6"}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {entry.kind === "revision"
+                  ? entry.revision === 1
+                    ? "Oferta rzemieślnika"
+                    : `Zmiana oferty (wersja ${entry.revision})`
+                  : "Kontrpropozycja klienta"}
+              </span>
+              <div className="flex items-center gap-2">
+                {entry.kind === "revision" && entry.revision === negotiation?.current_revision && (
+                  <Badge variant="outline">{isLocked ? "Zaakceptowana" : "Aktualna"}</Badge>
+                )}
+                <span className="font-semibold">{entry.price.toLocaleString("pl-PL")} PLN</span>
+              </div>
+            </div>
+            {entry.note && <p className="mt-2 text-muted-foreground">{entry.note}</p>}
+            <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {new Date(entry.createdAt).toLocaleDateString("pl-PL", {
+                  year: "numeric",
+                  month: "long",
+                  day: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </span>
+              {entry.kind === "revision" && entry.attachmentUrl && (
+                <a
+                  href={entry.attachmentUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center hover:text-primary"
+                >
+                  <Download className="h-3 w-3 mr-1" />
+                  Załącznik
+                </a>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {!isLocked && (
+        <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+          <div className="space-y-2">
+            <Label htmlFor={`negotiation-price-${proposalId}`}>
+              {party === "client" ? "Twoja propozycja ceny (PLN)" : "Nowa cena (PLN)"}
+            </Label>
+            <Input
+              id={`negotiation-price-${proposalId}`}
+              type="number"
+              step="0.01"
+              min="0"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`negotiation-note-${proposalId}`}>Notatka (opcjonalnie)</Label>
+            <Textarea
+              id={`negotiation-note-${proposalId}`}
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          {party === "artisan" && (
+            <div className="space-y-2">
+              <Label htmlFor={`negotiation-attachment-${proposalId}`}>Nowy załącznik (opcjonalnie)</Label>
+              <Input
+                id={`negotiation-attachment-${proposalId}`}
+                type="file"
+                accept=".pdf,.jpg,.jpeg,.png"
+                onChange={(e) => setAttachment(e.target.files?.[0] || null)}
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" size="sm" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Wysyłanie...
+              </>
+            ) : party === "client" ? (
+              "Wyślij kontrpropozycję"
+            ) : (
+              "Zaktualizuj ofertę"
+            )}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import type { ProposalStatus } from "@/types";
+
+interface ProposalStatusBadgeProps {
+  status: ProposalStatus;
+  className?: string;
+}
+
+export const proposalStatusLabels: Record<ProposalStatus, string> = {
+  pending: "Oczekuje",
+  accepted: "Zaakceptowana",
+  withdrawn: "Wycofana",
+  rejected: "Odrzucona",
+  auto_rejected: "Wybrano inną ofertę",
+};
+
+const proposalStatusStyles: Record<ProposalStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  withdrawn: "bg-gray-100 text-gray-800",
+  rejected: "bg-red-100 text-red-800",
+  auto_rejected: "bg-red-100 text-red-800",
+};
+
+/**
+ * ProposalStatusBadge Component
+ *
+ * Shows the lifecycle status of a proposal so open bids can be told apart from lost ones.
+ */
+export function ProposalStatusBadge({ status, className = "" }: ProposalStatusBadgeProps) {
+  return (
+    <span className={`text-xs px-2 py-1 rounded ${proposalStatusStyles[status]} ${className}`}>
+      {proposalStatusLabels[status]}
+    </span>
+  );
+}
@@ -3,25 +3,26 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Download, User } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Download, MessageSquare, Columns3, Star, Clock } from "lucide-react";
+import type { ProjectBudgetDTO, ProposalDTO } from "@/types";
+import { PROPOSAL_INCLUSION_LABELS, formatLeadTime, isProposalExpired } from "@/lib/project-format";
+import { ProposalNegotiation } from "./ProposalNegotiation";
+import { ProposalStatusBadge } from "./ProposalStatusBadge";
+import { ProposalComparison } from "./ProposalComparison";
+import { ProposalAttachments } from "./ProposalAttachments";
+import { UserAvatar } from "@/components/profile/UserAvatar";
+import { VerifiedBadge } from "@/components/profile/VerifiedBadge";
+import { ReportContentButton } from "@/components/reports/ReportContentButton";
 
-interface ArtisanProfile {
-  company_name: string;
-}
-
-interface Proposal {
-  id: string;
-  project_id: string;
-  artisan_id: string;
-  price: number;
-  message: string | null;
-  attachment_url: string | null;
-  created_at: string;
-  artisan_profiles: ArtisanProfile;
-}
+/** Maximum number of proposals compared side by side */
+const MAX_COMPARED_PROPOSALS = 4;
 
 interface ProposalsListProps {
   projectId: string;
+  budget?: ProjectBudgetDTO | null;
   onProposalAccepted?: () => void;
 }
 
@@ -29,13 +30,21 @@ interface ProposalsListProps {
  * ProposalsList Component
  *
  * Displays list of proposals for a project (client view).
- * Allows client to view and accept proposals.
+ * Allows client to view, negotiate, accept and reject proposals,
+ * and to compare selected proposals side by side.
  */
-export function ProposalsList({ projectId, onProposalAccepted }: ProposalsListProps) {
-  const [proposals, setProposals] = useState<Proposal[]>([]);
+export function ProposalsList({ projectId, budget = null, onProposalAccepted }: ProposalsListProps) {
+  const [proposals, setProposals] = useState<ProposalDTO[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [acceptingProposalId, setAcceptingProposalId] = useState<string | null>(null);
+  const [negotiatingProposalId, setNegotiatingProposalId] = useState<string | null>(null);
+  const [rejectingProposalId, setRejectingProposalId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [selectedProposalIds, setSelectedProposalIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
 
   useEffect(() => {
     const fetchProposals = async () => {
@@ -60,12 +69,12 @@ export function ProposalsList({ projectId, onProposalAccepted }: ProposalsListPr
     };
 
     fetchProposals();
-  }, [projectId]);
+  }, [projectId, refreshKey]);
 
-  const handleAcceptProposal = async (proposalId: string) => {
+  const handleAcceptProposal = async (proposal: ProposalDTO) => {
     if (acceptingProposalId) return; // Prevent multiple clicks
 
-    setAcceptingProposalId(proposalId);
+    setAcceptingProposalId(proposal.id);
 
     try {
       const response = await fetch(`/api/projects/${projectId}/accept-proposal`, {
@@ -73,7 +82,8 @@ export function ProposalsList({ projectId, onProposalAccepted }: ProposalsListPr
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ proposal_id: proposalId }),
+        // Send the revision the client has seen, so a last-minute change by the artisan is not accepted blindly
+        body: JSON.stringify({ proposal_id: proposal.id, revision_number: proposal.current_revision }),
       });
 
       if (!response.ok) {
@@ -93,6 +103,44 @@ export function ProposalsList({ projectId, onProposalAccepted }: ProposalsListPr
     }
   };
 
+  const handleRejectProposal = async (proposal: ProposalDTO) => {
+    if (isRejecting) return;
+
+    setIsRejecting(true);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/proposals/${proposal.id}/reject`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reason: rejectionReason.trim() || undefined }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || "Nie udało się odrzucić oferty");
+      }
+
+      setRejectingProposalId(null);
+      setRejectionReason("");
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Wystąpił błąd podczas odrzucania oferty";
+      alert(errorMessage);
+    } finally {
+      setIsRejecting(false);
+    }
+  };
+
+  const toggleProposalSelection = (proposalId: string) => {
+    setSelectedProposalIds((selected) =>
+      selected.includes(proposalId) ? selected.filter((id) => id !== proposalId) : [...selected, proposalId]
+    );
+  };
+
+  const selectedProposals = proposals.filter((proposal) => selectedProposalIds.includes(proposal.id));
+
   if (isLoading) {
     return (
       <Card>
@@ -126,9 +174,33 @@ export function ProposalsList({ projectId, onProposalAccepted }: ProposalsListPr
       <CardHeader>
         <CardTitle>Złożone oferty ({proposals.length})</CardTitle>
         <CardDescription>Przejrzyj oferty od rzemieślników i wybierz najlepszą dla Ciebie</CardDescription>
+        {proposals.length > 1 && !isComparing && (
+          <div className="flex items-center gap-3 pt-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsComparing(true)}
+              disabled={selectedProposals.length < 2}
+            >
+              <Columns3 className="h-4 w-4 mr-2" />
+              Porównaj wybrane ({selectedProposals.length})
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              Zaznacz od 2 do {MAX_COMPARED_PROPOSALS} ofert, aby zobaczyć je obok siebie
+            </span>
+          </div>
+        )}
       </CardHeader>
       <CardContent>
-        {proposals.length === 0 ? (
+        {isComparing && selectedProposals.length > 1 ? (
+          <ProposalComparison
+            proposals={selectedProposals}
+            budget={budget}
+            acceptingProposalId={acceptingProposalId}
+            onAccept={handleAcceptProposal}
+            onClose={() => setIsComparing(false)}
+          />
+        ) : proposals.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-muted-foreground">Brak złożonych ofert</p>
             <p className="text-sm text-muted-foreground mt-2">
@@ -143,20 +215,64 @@ export function ProposalsList({ projectId, onProposalAccepted }: ProposalsListPr
                   <div className="flex items-start justify-between mb-4">
                     <div className="space-y-1">
                       <div className="flex items-center gap-2">
-                        <User className="h-4 w-4 text-muted-foreground" />
+                        {proposals.length > 1 && (
+                          <Checkbox
+                            checked={selectedProposalIds.includes(proposal.id)}
+                            onCheckedChange={() => toggleProposalSelection(proposal.id)}
+                            disabled={
+                              !selectedProposalIds.includes(proposal.id) &&
+                              selectedProposalIds.length >= MAX_COMPARED_PROPOSALS
+                            }
+                            aria-label={`Porównaj ofertę ${proposal.artisan.company_name}`}
+                          />
+                        )}
+                        <UserAvatar
+                          name={proposal.artisan.display_name || proposal.artisan.company_name}
+                          avatarUrl={proposal.artisan.avatar_url}
+                          className="h-6 w-6 text-xs"
+                        />
                         <a
-                          href={`/artisan/${proposal.artisan_id}`}
+                          href={`/artisan/${proposal.artisan.user_id}`}
                           className="font-semibold hover:text-primary hover:underline transition-colors"
                         >
-                          {proposal.artisan_profiles.company_name}
+                          {proposal.artisan.company_name}
                         </a>
+                        {proposal.artisan.is_verified && (
+                          <VerifiedBadge companyName={proposal.artisan.verified_company_name} />
+                        )}
                       </div>
+                      {(proposal.artisan.display_name || proposal.artisan.city) && (
+                        <p className="text-sm text-muted-foreground">
+                          {[proposal.artisan.display_name, proposal.artisan.city].filter(Boolean).join(" · ")}
+                        </p>
+                      )}
+                      {proposal.artisan.average_rating !== null && (
+                        <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                          <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" aria-hidden="true" />
+                          {proposal.artisan.average_rating.toFixed(1)} ({proposal.artisan.total_reviews} opinii)
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <Badge variant="secondary" className="text-lg font-bold">
+                        {proposal.price.toLocaleString("pl-PL")} PLN
+                      </Badge>
+                      <ProposalStatusBadge status={proposal.status} />
+                      {proposal.current_revision > 1 && (
+                        <span className="text-xs text-muted-foreground">
+                          Wersja oferty: {proposal.current_revision}
+                        </span>
+                      )}
                     </div>
-                    <Badge variant="secondary" className="text-lg font-bold">
-                      {proposal.price.toLocaleString("pl-PL")} PLN
-                    </Badge>
                   </div>
 
+                  {proposal.rejection_reason && (
+                    <div className="mb-4">
+                      <p className="text-sm text-muted-foreground mb-1">Powód odrzucenia:</p>
+                      <p className="text-sm">{proposal.rejection_reason}</p>
+                    </div>
+                  )}
+
                   {proposal.message && (
                     <div className="mb-4">
                       <p className="text-sm text-muted-foreground mb-1">Wiadomość:</p>
@@ -164,8 +280,46 @@ export function ProposalsList({ projectId, onProposalAccepted }: ProposalsListPr
                     </div>
                   )}
 
+                  {(proposal.lead_time_days !== null || proposal.inclusions.length > 0 || proposal.valid_until) && (
+                    <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+                      {proposal.lead_time_days !== null && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+                          Czas realizacji: {formatLeadTime(proposal.lead_time_days)}
+                        </span>
+                      )}
+                      {proposal.inclusions.map((inclusion) => (
+                        <Badge key={inclusion} variant="outline">
+                          {PROPOSAL_INCLUSION_LABELS[inclusion]}
+                        </Badge>
+                      ))}
+                      {proposal.valid_until && (
+                        <span
+                          className={`ml-auto text-xs ${isProposalExpired(proposal.valid_until) ? "text-destructive" : "text-muted-foreground"}`}
+                        >
+                          {isProposalExpired(proposal.valid_until) ? "Oferta wygasła" : "Ważna do"}{" "}
+                          {new Date(proposal.valid_until).toLocaleDateString("pl-PL")}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {proposal.scope_description && (
+                    <div className="mb-4">
+                      <p className="text-sm text-muted-foreground mb-1">Zakres prac:</p>
+                      <p className="text-sm whitespace-pre-line">{proposal.scope_description}</p>
+                    </div>
+                  )}
+
+                  {proposal.attachments.length > 0 && (
+                    <div className="mb-4">
+                      <p className="text-sm text-muted-foreground mb-2">Załączniki ({proposal.attachments.length}):</p>
+                      <ProposalAttachments attachments={proposal.attachments} />
+                    </div>
+                  )}
+
                   <div className="flex gap-2">
-                    {proposal.attachment_url && (
+                    {proposal.attachment_url && proposal.attachments.length === 0 && (
                       <Button variant="outline" size="sm" asChild>
                         <a href={proposal.attachment_url} target="_blank" rel="noopener noreferrer">
                           <Download className="h-4 w-4 mr-2" />
@@ -173,33 +327,98 @@ export function ProposalsList({ projectId, onProposalAccepted }: ProposalsListPr
                         </a>
                       </Button>
                     )}
-                    <Button
-                      size="sm"
-                      className="ml-auto"
-                      onClick={() => handleAcceptProposal(proposal.id)}
-                      disabled={acceptingProposalId !== null}
-                    >
-                      {acceptingProposalId === proposal.id ? (
-                        <>
-                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                          Akceptowanie...
-                        </>
-                      ) : (
-                        "Akceptuj ofertę"
-                      )}
-                    </Button>
+                    {proposal.status === "pending" && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setNegotiatingProposalId(negotiatingProposalId === proposal.id ? null : proposal.id)
+                          }
+                        >
+                          <MessageSquare className="h-4 w-4 mr-2" />
+                          {negotiatingProposalId === proposal.id ? "Ukryj negocjacje" : "Negocjuj"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setRejectingProposalId(rejectingProposalId === proposal.id ? null : proposal.id)
+                          }
+                        >
+                          Odrzuć
+                        </Button>
+                        <Button
+                          size="sm"
+                          className="ml-auto"
+                          onClick={() => handleAcceptProposal(proposal)}
+                          disabled={acceptingProposalId !== null || isProposalExpired(proposal.valid_until)}
+                        >
+                          {acceptingProposalId === proposal.id ? (
+                            <>
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              Akceptowanie...
+                            </>
+                          ) : (
+                            "Akceptuj ofertę"
+                          )}
+                        </Button>
+                      </>
+                    )}
                   </div>
 
-                  <p className="text-xs text-muted-foreground mt-4">
-                    {"Złożona: "}
-                    {new Date(proposal.created_at).toLocaleDateString("pl-PL", {
-                      year: "numeric",
-                      month: "long",
-                      day: "numeric",
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}
-                  </p>
+                  {rejectingProposalId === proposal.id && (
+                    <div className="mt-4 border-t pt-4 space-y-3">
+                      <Label htmlFor={`rejection-reason-${proposal.id}`}>Powód odrzucenia (opcjonalnie)</Label>
+                      <Textarea
+                        id={`rejection-reason-${proposal.id}`}
+                        rows={2}
+                        maxLength={500}
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value)}
+                        disabled={isRejecting}
+                      />
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleRejectProposal(proposal)}
+                        disabled={isRejecting}
+                      >
+                        {isRejecting ? (
+                          <>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Odrzucanie...
+                          </>
+                        ) : (
+                          "Potwierdź odrzucenie"
+                        )}
+                      </Button>
+                    </div>
+                  )}
+
+                  {negotiatingProposalId === proposal.id && (
+                    <div className="mt-4 border-t pt-4">
+                      <ProposalNegotiation
+                        proposalId={proposal.id}
+                        party="client"
+                        onChange={() => setRefreshKey((key) => key + 1)}
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between mt-4">
+                    <p className="text-xs text-muted-foreground">
+                      {"Złożona: "}
+                      {new Date(proposal.created_at).toLocaleDateString("pl-PL", {
+                        year: "numeric",
+                        month: "long",
+                        day: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </p>
+                    <ReportContentButton targetType="proposal" targetId={proposal.id} />
+                  </div>
                 </CardContent>
               </Card>
             ))}
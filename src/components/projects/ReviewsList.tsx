@@ -2,14 +2,19 @@
  * ReviewsList Component
  *
  * Displays list of reviews for a completed project with ratings and comments.
+ * Abusive reviews can be reported to the moderators.
  */
 
 import { Star } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserAvatar } from "@/components/profile/UserAvatar";
+import { ReportContentButton } from "@/components/reports/ReportContentButton";
+import type { ReviewerDTO } from "@/types";
 
 interface Review {
   id: string;
   reviewer_id: string;
+  reviewer: ReviewerDTO;
   rating: number;
   comment: string | null;
   created_at: string;
@@ -39,13 +44,6 @@ function StarRating({ rating }: { rating: number }) {
   );
 }
 
-/**
- * Get initials from user ID for avatar fallback
- */
-function getInitials(userId: string): string {
-  return userId.substring(0, 2).toUpperCase();
-}
-
 /**
  * Format date to Polish locale
  */
@@ -72,17 +70,20 @@ export function ReviewsList({ reviews, reviewerLabel = "Opinie" }: ReviewsListPr
           {reviews.map((review) => (
             <div key={review.id} className="border-b last:border-0 pb-4 last:pb-0">
               <div className="flex items-start gap-3">
-                <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center text-sm font-medium">
-                  {getInitials(review.reviewer_id)}
-                </div>
+                <UserAvatar name={review.reviewer.name} avatarUrl={review.reviewer.avatar_url} />
 
                 <div className="flex-1 space-y-2">
                   <div className="flex items-center justify-between">
-                    <StarRating rating={review.rating} />
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">{review.reviewer.name}</p>
+                      <StarRating rating={review.rating} />
+                    </div>
                     <time className="text-sm text-muted-foreground">{formatDate(review.created_at)}</time>
                   </div>
 
                   {review.comment && <p className="text-sm text-muted-foreground leading-relaxed">{review.comment}</p>}
+
+                  <ReportContentButton targetType="review" targetId={review.id} className="-ml-3" />
                 </div>
               </div>
             </div>
@@ -0,0 +1,342 @@
+/**
+ * MilestonesPanel Component
+ *
+ * Shows the milestone plan of a project in progress with the progress of
+ * staged payments. The accepted artisan defines the plan and submits
+ * milestones, the client approves them.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import type { MilestoneStatus, ProjectMilestonesDTO } from "@/types";
+
+interface MilestonesPanelProps {
+  projectId: string;
+  /** Which side of the project the current user is on */
+  party: "client" | "artisan";
+  /** Read-only mode (e.g. for completed projects) */
+  readOnly?: boolean;
+}
+
+interface PlanItem {
+  title: string;
+  amount: string;
+  dueDate: string;
+}
+
+const milestoneStatusLabels: Record<MilestoneStatus, string> = {
+  pending: "Do realizacji",
+  submitted: "Do akceptacji",
+  approved: "Zatwierdzony",
+};
+
+const emptyItem: PlanItem = { title: "", amount: "", dueDate: "" };
+
+/**
+ * Milestones panel with plan editor (artisan) and approval actions (client)
+ */
+export function MilestonesPanel({ projectId, party, readOnly = false }: MilestonesPanelProps) {
+  const [data, setData] = useState<ProjectMilestonesDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [plan, setPlan] = useState<PlanItem[]>([{ ...emptyItem }]);
+  const [pendingActionId, setPendingActionId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchMilestones = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/projects/${projectId}/milestones`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || "Nie udało się załadować etapów");
+      }
+
+      setData(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się załadować etapów");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchMilestones();
+  }, [fetchMilestones]);
+
+  const startEditing = () => {
+    if (data && data.milestones.length > 0) {
+      setPlan(
+        data.milestones.map((m) => ({
+          title: m.title,
+          amount: String(m.amount),
+          dueDate: m.due_date ?? "",
+        }))
+      );
+    } else {
+      setPlan([{ ...emptyItem }]);
+    }
+    setIsEditing(true);
+  };
+
+  const updateItem = (index: number, changes: Partial<PlanItem>) => {
+    setPlan((items) => items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSavePlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (plan.some((item) => !item.title.trim() || !(parseFloat(item.amount) > 0))) {
+      setError("Każdy etap musi mieć nazwę i kwotę większą od 0");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const response = await fetch(`/api/projects/${projectId}/milestones`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          milestones: plan.map((item) => ({
+            title: item.title.trim(),
+            amount: parseFloat(item.amount),
+            due_date: item.dueDate || undefined,
+          })),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || "Nie udało się zapisać planu etapów");
+      }
+
+      setData(result);
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się zapisać planu etapów");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTransition = async (milestoneId: string, action: "submit" | "approve") => {
+    if (pendingActionId) return;
+
+    setPendingActionId(milestoneId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/milestones/${milestoneId}/${action}`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || "Nie udało się zmienić statusu etapu");
+      }
+
+      await fetchMilestones();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się zmienić statusu etapu");
+    } finally {
+      setPendingActionId(null);
+    }
+  };
+
+  if (isLoading && !data) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Etapy realizacji</CardTitle>
+        </CardHeader>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const milestones = data?.milestones ?? [];
+  const acceptedPrice = data?.accepted_price ?? 0;
+  const approvedAmount = data?.approved_amount ?? 0;
+  const progress = acceptedPrice > 0 ? Math.min(100, Math.round((approvedAmount / acceptedPrice) * 100)) : 0;
+  const canEditPlan =
+    !readOnly && party === "artisan" && milestones.every((milestone) => milestone.status === "pending");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Etapy realizacji</CardTitle>
+        <CardDescription>
+          Płatności etapowe - suma etapów musi odpowiadać zaakceptowanej cenie ({acceptedPrice.toLocaleString("pl-PL")}{" "}
+          PLN)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {milestones.length > 0 && (
+          <div>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-muted-foreground">Zatwierdzono</span>
+              <span className="font-medium">
+                {approvedAmount.toLocaleString("pl-PL")} / {acceptedPrice.toLocaleString("pl-PL")} PLN
+              </span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+              <div className="h-full bg-primary transition-all" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+        )}
+
+        {!isEditing && milestones.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {party === "artisan"
+              ? "Nie zdefiniowano jeszcze etapów. Podziel realizację na etapy, aby klient mógł je zatwierdzać."
+              : "Rzemieślnik nie zdefiniował jeszcze etapów realizacji."}
+          </p>
+        )}
+
+        {!isEditing && milestones.length > 0 && (
+          <ol className="space-y-3">
+            {milestones.map((milestone) => (
+              <li key={milestone.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div>
+                  <p className="font-medium">
+                    {milestone.position}. {milestone.title}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {milestone.amount.toLocaleString("pl-PL")} PLN
+                    {milestone.due_date && ` • termin: ${new Date(milestone.due_date).toLocaleDateString("pl-PL")}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={milestone.status === "approved" ? "default" : "secondary"}>
+                    {milestoneStatusLabels[milestone.status]}
+                  </Badge>
+                  {!readOnly && party === "artisan" && milestone.status === "pending" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleTransition(milestone.id, "submit")}
+                      disabled={pendingActionId !== null}
+                    >
+                      {pendingActionId === milestone.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Zgłoś wykonanie
+                    </Button>
+                  )}
+                  {!readOnly && party === "client" && milestone.status === "submitted" && (
+                    <Button
+                      size="sm"
+                      onClick={() => handleTransition(milestone.id, "approve")}
+                      disabled={pendingActionId !== null}
+                    >
+                      {pendingActionId === milestone.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Zatwierdź
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {isEditing && (
+          <form onSubmit={handleSavePlan} className="space-y-3">
+            {plan.map((item, index) => (
+              <div key={index} className="grid gap-2 sm:grid-cols-[1fr_8rem_10rem_auto] items-end">
+                <div>
+                  <Label htmlFor={`milestone-title-${index}`}>Etap {index + 1}</Label>
+                  <Input
+                    id={`milestone-title-${index}`}
+                    value={item.title}
+                    maxLength={120}
+                    placeholder="np. Akceptacja projektu"
+                    onChange={(e) => updateItem(index, { title: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`milestone-amount-${index}`}>Kwota (PLN)</Label>
+                  <Input
+                    id={`milestone-amount-${index}`}
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={item.amount}
+                    onChange={(e) => updateItem(index, { amount: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`milestone-due-${index}`}>Termin</Label>
+                  <Input
+                    id={`milestone-due-${index}`}
+                    type="date"
+                    value={item.dueDate}
+                    onChange={(e) => updateItem(index, { dueDate: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Usuń etap ${index + 1}`}
+                  onClick={() => setPlan((items) => items.filter((_, i) => i !== index))}
+                  disabled={isSaving || plan.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPlan((items) => [...items, { ...emptyItem }])}
+                disabled={isSaving || plan.length >= 10}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Dodaj etap
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                Anuluj
+              </Button>
+              <Button type="submit" size="sm" className="ml-auto" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Zapisz plan
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {!isEditing && canEditPlan && (
+          <Button variant="outline" size="sm" onClick={startEditing}>
+            {milestones.length > 0 ? "Edytuj plan etapów" : "Zdefiniuj etapy"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
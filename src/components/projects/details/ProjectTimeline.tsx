@@ -0,0 +1,119 @@
+/**
+ * ProjectTimeline Component
+ *
+ * Shows the audit trail of a project (creation, proposals, acceptance,
+ * status changes and reviews) as a vertical timeline.
+ */
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import type { ProjectEventDTO, ProjectEventType, ProjectStatus, ProjectHistoryDTO } from "@/types";
+
+interface ProjectTimelineProps {
+  projectId: string;
+  /** Changing this value reloads the history (e.g. after a status change) */
+  refreshKey?: unknown;
+}
+
+const eventLabels: Record<ProjectEventType, string> = {
+  created: "Projekt utworzony",
+  proposal_received: "Otrzymano ofertę",
+  proposal_accepted: "Oferta zaakceptowana",
+  status_changed: "Zmiana statusu",
+  review_posted: "Wystawiono opinię",
+};
+
+const statusLabels: Record<ProjectStatus, string> = {
+  open: "Otwarty",
+  in_progress: "W realizacji",
+  completed: "Zakończony",
+  closed: "Zamknięty",
+};
+
+const actorLabels: Record<NonNullable<ProjectEventDTO["actor_role"]>, string> = {
+  client: "Klient",
+  artisan: "Rzemieślnik",
+  admin: "Moderator",
+};
+
+/**
+ * Timeline of project events, oldest first
+ */
+export function ProjectTimeline({ projectId, refreshKey }: ProjectTimelineProps) {
+  const [events, setEvents] = useState<ProjectEventDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/projects/${projectId}/history`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error?.message || "Nie udało się załadować historii projektu");
+        }
+
+        setEvents((result as ProjectHistoryDTO).events);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się załadować historii projektu");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [projectId, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Historia projektu</CardTitle>
+        <CardDescription>Kto i kiedy zmieniał projekt</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Brak zdarzeń</p>
+        ) : (
+          <ol className="relative border-l border-muted ml-2 space-y-6">
+            {events.map((event) => (
+              <li key={event.id} className="ml-6">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                <p className="font-medium">{eventLabels[event.event_type]}</p>
+                {event.event_type !== "created" && event.to_status && (
+                  <p className="text-sm">
+                    {event.from_status ? `${statusLabels[event.from_status]} → ` : ""}
+                    {statusLabels[event.to_status]}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(event.created_at).toLocaleDateString("pl-PL", {
+                    year: "numeric",
+                    month: "long",
+                    day: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                  {event.actor_role && ` • ${actorLabels[event.actor_role]}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
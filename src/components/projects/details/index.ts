@@ -6,6 +6,8 @@
 
 export { AcceptedProposal } from "./AcceptedProposal";
 export { ChatWidget } from "./ChatWidget";
+export { MilestonesPanel } from "./MilestonesPanel";
+export { ProjectTimeline } from "./ProjectTimeline";
 export { ReviewForm } from "./ReviewForm";
 export { useProjectDetails } from "./useProjectDetails";
 export type { ProposalViewModel, ProjectDetailsViewModel } from "./types";
@@ -4,7 +4,7 @@
  * These types transform API DTOs into UI-optimized data structures
  */
 
-import type { ProjectStatus } from "@/types";
+import type { ProjectBudgetDTO, ProjectStatus, ProposalStatus, ReviewerDTO } from "@/types";
 
 /**
  * ProposalViewModel - Simplified proposal data for UI rendering
@@ -18,6 +18,9 @@ export interface ProposalViewModel {
   price: number;
   attachmentUrl: string;
   message: string | null;
+  currentRevision: number;
+  status: ProposalStatus;
+  rejectionReason: string | null;
   createdAt: string;
 }
 
@@ -27,6 +30,7 @@ export interface ProposalViewModel {
 export interface ReviewViewModel {
   id: string;
   reviewer_id: string;
+  reviewer: ReviewerDTO;
   rating: number;
   comment: string | null;
   created_at: string;
@@ -40,15 +44,18 @@ export interface ProjectDetailsViewModel {
   status: ProjectStatus;
   imageUrl: string;
   prompt: string | null;
+  technicalNotes: string | null;
   category: string;
   material: string;
   dimensions: string | null;
   budgetRange: string | null;
+  budget: ProjectBudgetDTO | null;
   isOwner: boolean;
   hasProposed: boolean;
   hasReviewed: boolean;
   reviews: ReviewViewModel[];
   proposals: ProposalViewModel[];
+  ownProposal: ProposalViewModel | null;
   acceptedProposal: ProposalViewModel | null;
   createdAt: string;
   proposalsCount: number;
@@ -6,8 +6,9 @@
  */
 
 import { useState, useEffect, useCallback } from "react";
+import { formatBudget, formatDimensions } from "@/lib/project-format";
 import type { ProjectDetailsViewModel, ReviewViewModel } from "./types";
-import type { ApiErrorDTO, CreateReviewCommand } from "@/types";
+import type { ApiErrorDTO, CreateReviewCommand, ProposalDTO } from "@/types";
 
 interface UseProjectDetailsReturn {
   project: ProjectDetailsViewModel | null;
@@ -16,6 +17,7 @@ interface UseProjectDetailsReturn {
   acceptProposal: (proposalId: string) => Promise<void>;
   submitProposal: (data: FormData) => Promise<void>;
   completeProject: () => Promise<void>;
+  withdrawProposal: (proposalId: string) => Promise<void>;
   submitReview: (data: CreateReviewCommand) => Promise<void>;
   refresh: () => void;
 }
@@ -72,16 +74,18 @@ export function useProjectDetails(projectId: string): UseProjectDetailsReturn {
             const proposalsData = await proposalsResponse.json();
 
             // Transform proposals to ViewModel
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            proposals = (proposalsData.data || []).map((p: any) => ({
+            proposals = ((proposalsData.data || []) as ProposalDTO[]).map((p) => ({
               id: p.id,
-              artisanId: p.artisan_id,
-              artisanName: p.artisan_profiles?.company_name || "Nieznany rzemieślnik",
-              artisanRating: null, // TODO: Add when reviews are implemented
-              artisanReviewsCount: 0, // TODO: Add when reviews are implemented
+              artisanId: p.artisan.user_id,
+              artisanName: p.artisan.company_name,
+              artisanRating: p.artisan.average_rating,
+              artisanReviewsCount: p.artisan.total_reviews,
               price: p.price,
               attachmentUrl: p.attachment_url || "",
               message: p.message || null,
+              currentRevision: p.current_revision || 1,
+              status: p.status || "pending",
+              rejectionReason: p.rejection_reason || null,
               createdAt: formatRelativeDate(p.created_at),
             }));
 
@@ -94,6 +98,9 @@ export function useProjectDetails(projectId: string): UseProjectDetailsReturn {
         }
       }
 
+      // Find the current artisan's own proposal (artisans only receive their own)
+      const ownProposal = proposals.find((p) => p.artisanId === userData.id) || null;
+
       // Find accepted proposal
       const acceptedProposal = projectData.accepted_proposal_id
         ? proposals.find((p) => p.id === projectData.accepted_proposal_id) || null
@@ -142,15 +149,18 @@ export function useProjectDetails(projectId: string): UseProjectDetailsReturn {
         status: projectData.status,
         imageUrl: projectData.generated_image.image_url,
         prompt: projectData.generated_image.prompt,
+        technicalNotes: projectData.generated_image.technical_notes ?? null,
         category: projectData.category.name,
         material: projectData.material.name,
-        dimensions: projectData.dimensions,
-        budgetRange: projectData.budget_range,
+        dimensions: formatDimensions(projectData.dimensions),
+        budgetRange: formatBudget(projectData.budget),
+        budget: projectData.budget,
         isOwner: projectData.client_id === userData.id,
         reviews,
         hasProposed,
         hasReviewed,
         proposals,
+        ownProposal,
         acceptedProposal,
         createdAt: projectData.created_at,
         proposalsCount: projectData.proposals_count || proposals.length,
@@ -234,6 +244,23 @@ export function useProjectDetails(projectId: string): UseProjectDetailsReturn {
     await fetchProject();
   };
 
+  /**
+   * Withdraw the current artisan's pending proposal
+   */
+  const withdrawProposal = async (proposalId: string): Promise<void> => {
+    const response = await fetch(`/api/proposals/me/${proposalId}/withdraw`, {
+      method: "POST",
+    });
+
+    if (!response.ok) {
+      const errorData: ApiErrorDTO = await response.json();
+      throw new Error(errorData.error.message);
+    }
+
+    // Refresh project data
+    await fetchProject();
+  };
+
   /**
    * Submit a review for completed project
    */
@@ -269,6 +296,7 @@ export function useProjectDetails(projectId: string): UseProjectDetailsReturn {
     acceptProposal,
     submitProposal,
     completeProject,
+    withdrawProposal,
     submitReview,
     refresh,
   };
@@ -1,32 +1,54 @@
 import { useState } from "react";
-import type { CreateProjectCommand } from "@/types";
+import type { CreateProjectCommand, CurrencyCode, DimensionUnit } from "@/types";
 
 interface ProjectFormViewModel {
   category_id: string;
   material_id: string;
-  dimensions: string;
-  budget_range: string;
+  width: string;
+  depth: string;
+  height: string;
+  dimension_unit: DimensionUnit;
+  budget_min: string;
+  budget_max: string;
+  budget_currency: CurrencyCode;
 }
 
 interface FormErrors {
   category_id?: string;
   material_id?: string;
+  width?: string;
+  depth?: string;
+  height?: string;
+  dimension_unit?: string;
+  budget_min?: string;
+  budget_max?: string;
+  budget_currency?: string;
+  // Błędy całej grupy pól zwracane przez backend (zagnieżdżone obiekty)
   dimensions?: string;
-  budget_range?: string;
+  budget?: string;
   general?: string;
 }
 
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
 interface UseProjectFormOptions {
   imageId: string;
+  // Wartości wstępnie wybrane na podstawie sugestii z promptu obrazu
+  initialValues?: Partial<Pick<ProjectFormViewModel, "category_id" | "material_id">>;
   onSuccess?: (projectId: string) => void;
 }
 
-export const useProjectForm = ({ imageId, onSuccess }: UseProjectFormOptions) => {
+export const useProjectForm = ({ imageId, initialValues, onSuccess }: UseProjectFormOptions) => {
   const [formData, setFormData] = useState<ProjectFormViewModel>({
-    category_id: "",
-    material_id: "",
-    dimensions: "",
-    budget_range: "",
+    category_id: initialValues?.category_id ?? "",
+    material_id: initialValues?.material_id ?? "",
+    width: "",
+    depth: "",
+    height: "",
+    dimension_unit: "cm",
+    budget_min: "",
+    budget_max: "",
+    budget_currency: "PLN",
   });
 
   const [errors, setErrors] = useState<FormErrors>({});
@@ -38,13 +60,28 @@ export const useProjectForm = ({ imageId, onSuccess }: UseProjectFormOptions) =>
         return value ? undefined : "Kategoria jest wymagana";
       case "material_id":
         return value ? undefined : "Materiał jest wymagany";
-      case "dimensions":
-        if (value && value.length < 5) {
-          return "Wymiary muszą mieć co najmniej 5 znaków";
+      case "width":
+      case "depth":
+      case "height": {
+        const dimension = toNumber(value);
+        if (dimension !== undefined && !(dimension > 0)) {
+          return "Wymiar musi być liczbą dodatnią";
         }
         return undefined;
-      case "budget_range":
+      }
+      case "budget_min":
+      case "budget_max": {
+        const amount = toNumber(value);
+        if (amount !== undefined && !(amount >= 0)) {
+          return "Budżet musi być liczbą nieujemną";
+        }
+        const min = toNumber(name === "budget_min" ? value : formData.budget_min);
+        const max = toNumber(name === "budget_max" ? value : formData.budget_max);
+        if (name === "budget_max" && min !== undefined && max !== undefined && min > max) {
+          return "Budżet maksymalny nie może być mniejszy niż minimalny";
+        }
         return undefined;
+      }
       default:
         return undefined;
     }
@@ -102,12 +139,22 @@ export const useProjectForm = ({ imageId, onSuccess }: UseProjectFormOptions) =>
     setErrors({});
 
     try {
+      const width = toNumber(formData.width);
+      const depth = toNumber(formData.depth);
+      const height = toNumber(formData.height);
+      const budgetMin = toNumber(formData.budget_min);
+      const budgetMax = toNumber(formData.budget_max);
+
       const command: CreateProjectCommand = {
         generated_image_id: imageId,
         category_id: formData.category_id,
         material_id: formData.material_id,
-        ...(formData.dimensions && { dimensions: formData.dimensions }),
-        ...(formData.budget_range && { budget_range: formData.budget_range }),
+        ...((width !== undefined || depth !== undefined || height !== undefined) && {
+          dimensions: { width, depth, height, unit: formData.dimension_unit },
+        }),
+        ...((budgetMin !== undefined || budgetMax !== undefined) && {
+          budget: { min: budgetMin, max: budgetMax, currency: formData.budget_currency },
+        }),
       };
 
       const response = await fetch("/api/projects", {
@@ -0,0 +1,170 @@
+/**
+ * ReportContentButton Component
+ *
+ * "Zgłoś" action for projects, proposals, reviews and generated images. Opens a dialog
+ * where the user picks the reason and optionally describes the problem; the report goes
+ * to the moderators' triage queue.
+ */
+
+import { useState } from "react";
+import { Flag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ReportReason, ReportTargetType } from "@/types";
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam lub reklama",
+  fraud: "Podejrzenie oszustwa",
+  offensive: "Obraźliwe treści",
+  inappropriate_image: "Nieodpowiedni obraz",
+  other: "Inny powód",
+};
+
+const targetLabels: Record<ReportTargetType, string> = {
+  project: "projekt",
+  proposal: "ofertę",
+  review: "opinię",
+  generated_image: "obraz",
+};
+
+interface ReportContentButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  className?: string;
+}
+
+export function ReportContentButton({ targetType, targetId, className }: ReportContentButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>("spam");
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = (e: React.MouseEvent) => {
+    // The button may be placed inside a link, e.g. a project card
+    e.preventDefault();
+    e.stopPropagation();
+    setIsOpen(true);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setIsOpen(false);
+      setReason("spam");
+      setDetails("");
+      setError(null);
+      setIsSubmitted(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          target_type: targetType,
+          target_id: targetId,
+          reason,
+          details: details.trim() || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error?.message || "Nie udało się wysłać zgłoszenia");
+        return;
+      }
+
+      setIsSubmitted(true);
+    } catch {
+      setError("Nie udało się połączyć z serwerem");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className={className} onClick={handleOpen}>
+        <Flag className="h-4 w-4" aria-hidden="true" />
+        Zgłoś
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Zgłoś {targetLabels[targetType]}</DialogTitle>
+            <DialogDescription>
+              Zgłoszenie trafi do moderatorów. Treść zgłoszona przez kilku użytkowników zostanie automatycznie ukryta do
+              czasu jej sprawdzenia.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isSubmitted ? (
+            <>
+              <p className="text-sm">Dziękujemy, zgłoszenie zostało przekazane moderatorom.</p>
+              <DialogFooter>
+                <Button onClick={() => handleOpenChange(false)}>Zamknij</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={`report-reason-${targetId}`}>Powód</Label>
+                <select
+                  id={`report-reason-${targetId}`}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value as ReportReason)}
+                  disabled={isSubmitting}
+                  className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+                >
+                  {Object.entries(REPORT_REASON_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`report-details-${targetId}`}>Opis (opcjonalnie)</Label>
+                <Textarea
+                  id={`report-details-${targetId}`}
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  placeholder="Opisz, co jest nie tak z tą treścią"
+                  maxLength={1000}
+                  disabled={isSubmitting}
+                />
+              </div>
+              {error && (
+                <p className="text-sm text-destructive" role="alert">
+                  {error}
+                </p>
+              )}
+              <DialogFooter>
+                <Button type="submit" variant="destructive" disabled={isSubmitting}>
+                  {isSubmitting ? "Wysyłanie..." : "Wyślij zgłoszenie"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * EmailPreferencesForm Component
+ *
+ * Lets users choose which transactional emails they want to receive.
+ * Every change is saved immediately; on failure the previous value is restored.
+ */
+
+import { useState, useEffect } from "react";
+import { Loader2, AlertCircle } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { EmailEvent, EmailPreferencesDTO } from "@/types";
+
+const EMAIL_EVENT_OPTIONS: { event: EmailEvent; label: string; description: string }[] = [
+  {
+    event: "proposal_received",
+    label: "Nowa oferta",
+    description: "Gdy rzemieślnik złoży ofertę do Twojego projektu",
+  },
+  {
+    event: "proposal_accepted",
+    label: "Zaakceptowana oferta",
+    description: "Gdy klient zaakceptuje Twoją ofertę",
+  },
+  {
+    event: "project_completed",
+    label: "Zakończony projekt",
+    description: "Gdy klient oznaczy projekt, który realizujesz, jako zakończony",
+  },
+  {
+    event: "review_request",
+    label: "Prośba o opinię",
+    description: "Gdy Twój projekt zostanie zakończony i możesz ocenić rzemieślnika",
+  },
+];
+
+export default function EmailPreferencesForm() {
+  const [preferences, setPreferences] = useState<EmailPreferencesDTO | null>(null);
+  const [savingEvent, setSavingEvent] = useState<EmailEvent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/users/me/email-preferences");
+        if (!response.ok) {
+          throw new Error("Nie udało się pobrać ustawień powiadomień");
+        }
+        setPreferences(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Wystąpił nieoczekiwany błąd");
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const handleToggle = async (event: EmailEvent, enabled: boolean) => {
+    if (!preferences) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, [event]: enabled });
+    setSavingEvent(event);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/users/me/email-preferences", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ [event]: enabled }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || "Nie udało się zapisać ustawień powiadomień");
+      }
+
+      setPreferences(await response.json());
+    } catch (err) {
+      setPreferences(previous);
+      setError(err instanceof Error ? err.message : "Wystąpił nieoczekiwany błąd");
+    } finally {
+      setSavingEvent(null);
+    }
+  };
+
+  if (!preferences && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Błąd</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {preferences && (
+        <div className="space-y-4 rounded-lg border p-4">
+          {EMAIL_EVENT_OPTIONS.map((option) => (
+            <div key={option.event} className="flex items-start space-x-3">
+              <Checkbox
+                id={`email-${option.event}`}
+                checked={preferences[option.event]}
+                onCheckedChange={(checked) => handleToggle(option.event, checked === true)}
+                disabled={savingEvent !== null}
+              />
+              <div className="flex-1 space-y-1">
+                <Label
+                  htmlFor={`email-${option.event}`}
+                  className="text-sm font-medium cursor-pointer leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                >
+                  {option.label}
+                </Label>
+                <p className="text-sm text-muted-foreground">{option.description}</p>
+              </div>
+              {savingEvent === option.event && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * UserProfileForm Component
+ *
+ * Lets users edit their public profile (display name, avatar, city) shown next to their
+ * reviews, proposals and in the chat. Empty fields are cleared.
+ */
+
+import { useState, useEffect } from "react";
+import { Loader2, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { UserAvatar } from "@/components/profile/UserAvatar";
+import { DEFAULT_DISPLAY_NAME } from "@/lib/services/user-profile.service";
+import type { CurrentUserDTO, UserProfileDTO } from "@/types";
+
+interface ProfileFormValues {
+  display_name: string;
+  avatar_url: string;
+  city: string;
+}
+
+type FieldErrors = Partial<Record<keyof ProfileFormValues, string>>;
+
+const toFormValues = (profile: UserProfileDTO): ProfileFormValues => ({
+  display_name: profile.display_name ?? "",
+  avatar_url: profile.avatar_url ?? "",
+  city: profile.city ?? "",
+});
+
+export default function UserProfileForm() {
+  const [values, setValues] = useState<ProfileFormValues | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const response = await fetch("/api/users/me");
+        if (!response.ok) {
+          throw new Error("Nie udało się pobrać profilu");
+        }
+        const user: CurrentUserDTO = await response.json();
+        setValues(toFormValues(user.profile));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Wystąpił nieoczekiwany błąd");
+      }
+    };
+
+    fetchProfile();
+  }, []);
+
+  const handleChange = (field: keyof ProfileFormValues, value: string) => {
+    if (!values) return;
+
+    setValues({ ...values, [field]: value });
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+    setIsSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values) return;
+
+    setIsSaving(true);
+    setError(null);
+    setIsSaved(false);
+
+    try {
+      const response = await fetch("/api/users/me", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          display_name: values.display_name.trim() || null,
+          avatar_url: values.avatar_url.trim() || null,
+          city: values.city.trim() || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        setFieldErrors(errorData.error?.details ?? {});
+        throw new Error(errorData.error?.message || "Nie udało się zapisać profilu");
+      }
+
+      const profile: UserProfileDTO = await response.json();
+      setValues(toFormValues(profile));
+      setIsSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Wystąpił nieoczekiwany błąd");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!values && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Błąd</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isSaved && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>Profil został zapisany</AlertDescription>
+        </Alert>
+      )}
+
+      {values && (
+        <form onSubmit={handleSubmit} className="space-y-6 rounded-lg border p-4">
+          <div className="flex items-center gap-4">
+            <UserAvatar
+              name={values.display_name.trim() || DEFAULT_DISPLAY_NAME}
+              avatarUrl={values.avatar_url.trim() || null}
+              className="h-16 w-16 text-lg"
+            />
+            <p className="text-sm text-muted-foreground">
+              Tak będziesz widoczny przy opiniach, ofertach i w czacie. Bez nazwy wyświetlanej zobaczą Cię jako &quot;
+              {DEFAULT_DISPLAY_NAME}&quot;.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="display_name">Nazwa wyświetlana</Label>
+            <Input
+              id="display_name"
+              type="text"
+              value={values.display_name}
+              onChange={(e) => handleChange("display_name", e.target.value)}
+              placeholder="np. Anna K."
+              maxLength={50}
+              aria-invalid={!!fieldErrors.display_name}
+              aria-describedby={fieldErrors.display_name ? "display_name-error" : undefined}
+              disabled={isSaving}
+            />
+            {fieldErrors.display_name && (
+              <p id="display_name-error" className="text-sm text-destructive">
+                {fieldErrors.display_name}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="avatar_url">Adres zdjęcia profilowego</Label>
+            <Input
+              id="avatar_url"
+              type="url"
+              value={values.avatar_url}
+              onChange={(e) => handleChange("avatar_url", e.target.value)}
+              placeholder="https://..."
+              aria-invalid={!!fieldErrors.avatar_url}
+              aria-describedby={fieldErrors.avatar_url ? "avatar_url-error" : undefined}
+              disabled={isSaving}
+            />
+            {fieldErrors.avatar_url && (
+              <p id="avatar_url-error" className="text-sm text-destructive">
+                {fieldErrors.avatar_url}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="city">Miasto</Label>
+            <Input
+              id="city"
+              type="text"
+              value={values.city}
+              onChange={(e) => handleChange("city", e.target.value)}
+              placeholder="np. Kraków"
+              maxLength={100}
+              aria-invalid={!!fieldErrors.city}
+              aria-describedby={fieldErrors.city ? "city-error" : undefined}
+              disabled={isSaving}
+            />
+            {fieldErrors.city && (
+              <p id="city-error" className="text-sm text-destructive">
+                {fieldErrors.city}
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Zapisz profil
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
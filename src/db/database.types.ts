@@ -34,22 +34,40 @@ export type Database = {
           company_name: string;
           is_public: boolean;
           nip: string;
+          unpublish_reason: string | null;
+          unpublished_at: string | null;
           updated_at: string;
           user_id: string;
+          verification_status: Database["public"]["Enums"]["verification_status"];
+          verified_address: string | null;
+          verified_at: string | null;
+          verified_company_name: string | null;
         };
         Insert: {
           company_name: string;
           is_public?: boolean;
           nip: string;
+          unpublish_reason?: string | null;
+          unpublished_at?: string | null;
           updated_at?: string;
           user_id: string;
+          verification_status?: Database["public"]["Enums"]["verification_status"];
+          verified_address?: string | null;
+          verified_at?: string | null;
+          verified_company_name?: string | null;
         };
         Update: {
           company_name?: string;
           is_public?: boolean;
           nip?: string;
+          unpublish_reason?: string | null;
+          unpublished_at?: string | null;
           updated_at?: string;
           user_id?: string;
+          verification_status?: Database["public"]["Enums"]["verification_status"];
+          verified_address?: string | null;
+          verified_at?: string | null;
+          verified_company_name?: string | null;
         };
         Relationships: [
           {
@@ -106,32 +124,177 @@ export type Database = {
         };
         Relationships: [];
       };
+      content_reports: {
+        Row: {
+          created_at: string;
+          details: string | null;
+          id: string;
+          reason: Database["public"]["Enums"]["report_reason"];
+          reporter_id: string;
+          resolution_note: string | null;
+          resolved_at: string | null;
+          resolved_by: string | null;
+          status: Database["public"]["Enums"]["report_status"];
+          target_id: string;
+          target_type: Database["public"]["Enums"]["report_target_type"];
+        };
+        Insert: {
+          created_at?: string;
+          details?: string | null;
+          id?: string;
+          reason: Database["public"]["Enums"]["report_reason"];
+          reporter_id: string;
+          resolution_note?: string | null;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          status?: Database["public"]["Enums"]["report_status"];
+          target_id: string;
+          target_type: Database["public"]["Enums"]["report_target_type"];
+        };
+        Update: {
+          created_at?: string;
+          details?: string | null;
+          id?: string;
+          reason?: Database["public"]["Enums"]["report_reason"];
+          reporter_id?: string;
+          resolution_note?: string | null;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          status?: Database["public"]["Enums"]["report_status"];
+          target_id?: string;
+          target_type?: Database["public"]["Enums"]["report_target_type"];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "content_reports_reporter_id_fkey";
+            columns: ["reporter_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "content_reports_resolved_by_fkey";
+            columns: ["resolved_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      email_preferences: {
+        Row: {
+          project_completed: boolean;
+          proposal_accepted: boolean;
+          proposal_received: boolean;
+          review_request: boolean;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          project_completed?: boolean;
+          proposal_accepted?: boolean;
+          proposal_received?: boolean;
+          review_request?: boolean;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          project_completed?: boolean;
+          proposal_accepted?: boolean;
+          proposal_received?: boolean;
+          review_request?: boolean;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "email_preferences_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       generated_images: {
         Row: {
           created_at: string;
+          generation_time_ms: number | null;
+          hidden_at: string | null;
+          hidden_reason: string | null;
           id: string;
           image_url: string;
+          is_candidate: boolean;
           is_used: boolean;
+          materials: string[];
+          model: string | null;
+          negative_prompt: string | null;
+          parent_image_id: string | null;
+          positive_prompt: string | null;
           prompt: string | null;
+          refinements_count: number;
+          root_image_id: string | null;
+          style: string | null;
+          technical_notes: string | null;
           user_id: string;
         };
         Insert: {
           created_at?: string;
+          generation_time_ms?: number | null;
+          hidden_at?: string | null;
+          hidden_reason?: string | null;
           id?: string;
           image_url: string;
+          is_candidate?: boolean;
           is_used?: boolean;
+          materials?: string[];
+          model?: string | null;
+          negative_prompt?: string | null;
+          parent_image_id?: string | null;
+          positive_prompt?: string | null;
           prompt?: string | null;
+          refinements_count?: number;
+          root_image_id?: string | null;
+          style?: string | null;
+          technical_notes?: string | null;
           user_id: string;
         };
         Update: {
           created_at?: string;
+          generation_time_ms?: number | null;
+          hidden_at?: string | null;
+          hidden_reason?: string | null;
           id?: string;
           image_url?: string;
+          is_candidate?: boolean;
           is_used?: boolean;
+          materials?: string[];
+          model?: string | null;
+          negative_prompt?: string | null;
+          parent_image_id?: string | null;
+          positive_prompt?: string | null;
           prompt?: string | null;
+          refinements_count?: number;
+          root_image_id?: string | null;
+          style?: string | null;
+          technical_notes?: string | null;
           user_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "generated_images_parent_image_id_fkey";
+            columns: ["parent_image_id"];
+            isOneToOne: false;
+            referencedRelation: "generated_images";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "generated_images_root_image_id_fkey";
+            columns: ["root_image_id"];
+            isOneToOne: false;
+            referencedRelation: "generated_images";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "generated_images_user_id_fkey";
             columns: ["user_id"];
@@ -141,6 +304,84 @@ export type Database = {
           },
         ];
       };
+      generation_quota_events: {
+        Row: {
+          created_at: string;
+          generated_image_id: string | null;
+          id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          generated_image_id?: string | null;
+          id?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          generated_image_id?: string | null;
+          id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "generation_quota_events_generated_image_id_fkey";
+            columns: ["generated_image_id"];
+            isOneToOne: false;
+            referencedRelation: "generated_images";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "generation_quota_events_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      generation_quota_overrides: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          monthly_limit: number;
+          reason: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          monthly_limit: number;
+          reason?: string | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          monthly_limit?: number;
+          reason?: string | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "generation_quota_overrides_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "generation_quota_overrides_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       materials: {
         Row: {
           id: string;
@@ -156,6 +397,99 @@ export type Database = {
         };
         Relationships: [];
       };
+      moderation_actions: {
+        Row: {
+          action: Database["public"]["Enums"]["moderation_action"];
+          admin_id: string | null;
+          created_at: string;
+          id: string;
+          reason: string | null;
+          target_id: string;
+        };
+        Insert: {
+          action: Database["public"]["Enums"]["moderation_action"];
+          admin_id?: string | null;
+          created_at?: string;
+          id?: string;
+          reason?: string | null;
+          target_id: string;
+        };
+        Update: {
+          action?: Database["public"]["Enums"]["moderation_action"];
+          admin_id?: string | null;
+          created_at?: string;
+          id?: string;
+          reason?: string | null;
+          target_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_admin_id_fkey";
+            columns: ["admin_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          actor_id: string | null;
+          created_at: string;
+          id: string;
+          message: string;
+          project_id: string | null;
+          read_at: string | null;
+          title: string;
+          type: Database["public"]["Enums"]["notification_type"];
+          user_id: string;
+        };
+        Insert: {
+          actor_id?: string | null;
+          created_at?: string;
+          id?: string;
+          message: string;
+          project_id?: string | null;
+          read_at?: string | null;
+          title: string;
+          type: Database["public"]["Enums"]["notification_type"];
+          user_id: string;
+        };
+        Update: {
+          actor_id?: string | null;
+          created_at?: string;
+          id?: string;
+          message?: string;
+          project_id?: string | null;
+          read_at?: string | null;
+          title?: string;
+          type?: Database["public"]["Enums"]["notification_type"];
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey";
+            columns: ["actor_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_project_id_fkey";
+            columns: ["project_id"];
+            isOneToOne: false;
+            referencedRelation: "projects";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       portfolio_images: {
         Row: {
           artisan_id: string;
@@ -185,48 +519,224 @@ export type Database = {
           },
         ];
       };
+      project_events: {
+        Row: {
+          actor_id: string | null;
+          actor_role: Database["public"]["Enums"]["user_role"] | null;
+          created_at: string;
+          event_type: Database["public"]["Enums"]["project_event_type"];
+          from_status: Database["public"]["Enums"]["project_status"] | null;
+          id: string;
+          project_id: string;
+          proposal_id: string | null;
+          review_id: string | null;
+          to_status: Database["public"]["Enums"]["project_status"] | null;
+        };
+        Insert: {
+          actor_id?: string | null;
+          actor_role?: Database["public"]["Enums"]["user_role"] | null;
+          created_at?: string;
+          event_type: Database["public"]["Enums"]["project_event_type"];
+          from_status?: Database["public"]["Enums"]["project_status"] | null;
+          id?: string;
+          project_id: string;
+          proposal_id?: string | null;
+          review_id?: string | null;
+          to_status?: Database["public"]["Enums"]["project_status"] | null;
+        };
+        Update: {
+          actor_id?: string | null;
+          actor_role?: Database["public"]["Enums"]["user_role"] | null;
+          created_at?: string;
+          event_type?: Database["public"]["Enums"]["project_event_type"];
+          from_status?: Database["public"]["Enums"]["project_status"] | null;
+          id?: string;
+          project_id?: string;
+          proposal_id?: string | null;
+          review_id?: string | null;
+          to_status?: Database["public"]["Enums"]["project_status"] | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "project_events_actor_id_fkey";
+            columns: ["actor_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "project_events_project_id_fkey";
+            columns: ["project_id"];
+            isOneToOne: false;
+            referencedRelation: "projects";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "project_events_proposal_id_fkey";
+            columns: ["proposal_id"];
+            isOneToOne: false;
+            referencedRelation: "proposals";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "project_events_review_id_fkey";
+            columns: ["review_id"];
+            isOneToOne: false;
+            referencedRelation: "reviews";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      project_milestones: {
+        Row: {
+          amount: number;
+          approved_at: string | null;
+          created_at: string;
+          due_date: string | null;
+          id: string;
+          position: number;
+          project_id: string;
+          proposal_id: string;
+          status: Database["public"]["Enums"]["milestone_status"];
+          submitted_at: string | null;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          amount: number;
+          approved_at?: string | null;
+          created_at?: string;
+          due_date?: string | null;
+          id?: string;
+          position: number;
+          project_id: string;
+          proposal_id: string;
+          status?: Database["public"]["Enums"]["milestone_status"];
+          submitted_at?: string | null;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          amount?: number;
+          approved_at?: string | null;
+          created_at?: string;
+          due_date?: string | null;
+          id?: string;
+          position?: number;
+          project_id?: string;
+          proposal_id?: string;
+          status?: Database["public"]["Enums"]["milestone_status"];
+          submitted_at?: string | null;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "project_milestones_project_id_fkey";
+            columns: ["project_id"];
+            isOneToOne: false;
+            referencedRelation: "projects";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "project_milestones_proposal_id_fkey";
+            columns: ["proposal_id"];
+            isOneToOne: false;
+            referencedRelation: "proposals";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       projects: {
         Row: {
           accepted_price: number | null;
           accepted_proposal_id: string | null;
-          budget_range: string | null;
+          accepted_revision: number | null;
+          budget_currency: Database["public"]["Enums"]["currency_code"] | null;
+          budget_max: number | null;
+          budget_min: number | null;
+          budget_sort: number;
+          budget_span: unknown;
           category_id: string;
           client_id: string;
           created_at: string;
-          dimensions: string | null;
+          depth: number | null;
+          depth_cm: number | null;
+          dimension_unit: Database["public"]["Enums"]["dimension_unit"] | null;
           generated_image_id: string;
+          height: number | null;
+          height_cm: number | null;
+          hidden_at: string | null;
+          hidden_reason: string | null;
           id: string;
           material_id: string;
+          proposals_count: number;
+          search_document: string | null;
+          search_vector: unknown;
           status: Database["public"]["Enums"]["project_status"];
           updated_at: string;
+          width: number | null;
+          width_cm: number | null;
         };
         Insert: {
           accepted_price?: number | null;
           accepted_proposal_id?: string | null;
-          budget_range?: string | null;
+          accepted_revision?: number | null;
+          budget_currency?: Database["public"]["Enums"]["currency_code"] | null;
+          budget_max?: number | null;
+          budget_min?: number | null;
+          budget_sort?: never;
+          budget_span?: never;
           category_id: string;
           client_id: string;
           created_at?: string;
-          dimensions?: string | null;
+          depth?: number | null;
+          depth_cm?: never;
+          dimension_unit?: Database["public"]["Enums"]["dimension_unit"] | null;
           generated_image_id: string;
+          height?: number | null;
+          height_cm?: never;
+          hidden_at?: string | null;
+          hidden_reason?: string | null;
           id?: string;
           material_id: string;
+          proposals_count?: number;
+          search_document?: string | null;
+          search_vector?: unknown;
           status?: Database["public"]["Enums"]["project_status"];
           updated_at?: string;
+          width?: number | null;
+          width_cm?: never;
         };
         Update: {
           accepted_price?: number | null;
           accepted_proposal_id?: string | null;
-          budget_range?: string | null;
+          accepted_revision?: number | null;
+          budget_currency?: Database["public"]["Enums"]["currency_code"] | null;
+          budget_max?: number | null;
+          budget_min?: number | null;
+          budget_sort?: never;
+          budget_span?: never;
           category_id?: string;
           client_id?: string;
           created_at?: string;
-          dimensions?: string | null;
+          depth?: number | null;
+          depth_cm?: never;
+          dimension_unit?: Database["public"]["Enums"]["dimension_unit"] | null;
           generated_image_id?: string;
+          height?: number | null;
+          height_cm?: never;
+          hidden_at?: string | null;
+          hidden_reason?: string | null;
           id?: string;
           material_id?: string;
+          proposals_count?: number;
+          search_document?: string | null;
+          search_vector?: unknown;
           status?: Database["public"]["Enums"]["project_status"];
           updated_at?: string;
+          width?: number | null;
+          width_cm?: never;
         };
         Relationships: [
           {
@@ -266,33 +776,187 @@ export type Database = {
           },
         ];
       };
+      proposal_attachments: {
+        Row: {
+          caption: string | null;
+          created_at: string;
+          file_name: string;
+          file_url: string;
+          id: string;
+          mime_type: string;
+          position: number;
+          proposal_id: string;
+          size_bytes: number | null;
+        };
+        Insert: {
+          caption?: string | null;
+          created_at?: string;
+          file_name: string;
+          file_url: string;
+          id?: string;
+          mime_type: string;
+          position?: number;
+          proposal_id: string;
+          size_bytes?: number | null;
+        };
+        Update: {
+          caption?: string | null;
+          created_at?: string;
+          file_name?: string;
+          file_url?: string;
+          id?: string;
+          mime_type?: string;
+          position?: number;
+          proposal_id?: string;
+          size_bytes?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "proposal_attachments_proposal_id_fkey";
+            columns: ["proposal_id"];
+            isOneToOne: false;
+            referencedRelation: "proposals";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      proposal_counter_offers: {
+        Row: {
+          client_id: string;
+          created_at: string;
+          id: string;
+          note: string | null;
+          price: number;
+          proposal_id: string;
+        };
+        Insert: {
+          client_id: string;
+          created_at?: string;
+          id?: string;
+          note?: string | null;
+          price: number;
+          proposal_id: string;
+        };
+        Update: {
+          client_id?: string;
+          created_at?: string;
+          id?: string;
+          note?: string | null;
+          price?: number;
+          proposal_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "proposal_counter_offers_client_id_fkey";
+            columns: ["client_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "proposal_counter_offers_proposal_id_fkey";
+            columns: ["proposal_id"];
+            isOneToOne: false;
+            referencedRelation: "proposals";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      proposal_revisions: {
+        Row: {
+          attachment_url: string | null;
+          created_at: string;
+          id: string;
+          note: string | null;
+          price: number;
+          proposal_id: string;
+          revision_number: number;
+        };
+        Insert: {
+          attachment_url?: string | null;
+          created_at?: string;
+          id?: string;
+          note?: string | null;
+          price: number;
+          proposal_id: string;
+          revision_number: number;
+        };
+        Update: {
+          attachment_url?: string | null;
+          created_at?: string;
+          id?: string;
+          note?: string | null;
+          price?: number;
+          proposal_id?: string;
+          revision_number?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "proposal_revisions_proposal_id_fkey";
+            columns: ["proposal_id"];
+            isOneToOne: false;
+            referencedRelation: "proposals";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       proposals: {
         Row: {
           artisan_id: string;
           attachment_url: string | null;
           created_at: string;
+          current_revision: number;
+          hidden_at: string | null;
+          hidden_reason: string | null;
           id: string;
+          inclusions: Database["public"]["Enums"]["proposal_inclusion"][];
+          lead_time_days: number | null;
           message: string | null;
           price: number;
           project_id: string;
+          rejection_reason: string | null;
+          scope_description: string | null;
+          status: Database["public"]["Enums"]["proposal_status"];
+          status_changed_at: string | null;
+          valid_until: string | null;
         };
         Insert: {
           artisan_id: string;
           attachment_url?: string | null;
           created_at?: string;
+          current_revision?: number;
+          hidden_at?: string | null;
+          hidden_reason?: string | null;
           id?: string;
+          inclusions?: Database["public"]["Enums"]["proposal_inclusion"][];
+          lead_time_days?: number | null;
           message?: string | null;
           price: number;
           project_id: string;
+          rejection_reason?: string | null;
+          scope_description?: string | null;
+          status?: Database["public"]["Enums"]["proposal_status"];
+          status_changed_at?: string | null;
+          valid_until?: string | null;
         };
         Update: {
           artisan_id?: string;
           attachment_url?: string | null;
           created_at?: string;
+          current_revision?: number;
+          hidden_at?: string | null;
+          hidden_reason?: string | null;
           id?: string;
+          inclusions?: Database["public"]["Enums"]["proposal_inclusion"][];
+          lead_time_days?: number | null;
           message?: string | null;
           price?: number;
           project_id?: string;
+          rejection_reason?: string | null;
+          scope_description?: string | null;
+          status?: Database["public"]["Enums"]["proposal_status"];
+          status_changed_at?: string | null;
+          valid_until?: string | null;
         };
         Relationships: [
           {
@@ -315,6 +979,9 @@ export type Database = {
         Row: {
           comment: string | null;
           created_at: string;
+          hidden_at: string | null;
+          hidden_by: string | null;
+          hidden_reason: string | null;
           id: string;
           project_id: string;
           rating: number;
@@ -324,6 +991,9 @@ export type Database = {
         Insert: {
           comment?: string | null;
           created_at?: string;
+          hidden_at?: string | null;
+          hidden_by?: string | null;
+          hidden_reason?: string | null;
           id?: string;
           project_id: string;
           rating: number;
@@ -333,6 +1003,9 @@ export type Database = {
         Update: {
           comment?: string | null;
           created_at?: string;
+          hidden_at?: string | null;
+          hidden_by?: string | null;
+          hidden_reason?: string | null;
           id?: string;
           project_id?: string;
           rating?: number;
@@ -340,6 +1013,13 @@ export type Database = {
           reviewer_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "reviews_hidden_by_fkey";
+            columns: ["hidden_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "reviews_project_id_fkey";
             columns: ["project_id"];
@@ -363,6 +1043,120 @@ export type Database = {
           },
         ];
       };
+      saved_searches: {
+        Row: {
+          alerts_enabled: boolean;
+          artisan_id: string;
+          budget_max: number | null;
+          budget_min: number | null;
+          category_id: string | null;
+          created_at: string;
+          id: string;
+          material_id: string | null;
+          name: string;
+          query: string | null;
+          specialization_id: string | null;
+        };
+        Insert: {
+          alerts_enabled?: boolean;
+          artisan_id: string;
+          budget_max?: number | null;
+          budget_min?: number | null;
+          category_id?: string | null;
+          created_at?: string;
+          id?: string;
+          material_id?: string | null;
+          name: string;
+          query?: string | null;
+          specialization_id?: string | null;
+        };
+        Update: {
+          alerts_enabled?: boolean;
+          artisan_id?: string;
+          budget_max?: number | null;
+          budget_min?: number | null;
+          category_id?: string | null;
+          created_at?: string;
+          id?: string;
+          material_id?: string | null;
+          name?: string;
+          query?: string | null;
+          specialization_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_artisan_id_fkey";
+            columns: ["artisan_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "saved_searches_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "saved_searches_material_id_fkey";
+            columns: ["material_id"];
+            isOneToOne: false;
+            referencedRelation: "materials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "saved_searches_specialization_id_fkey";
+            columns: ["specialization_id"];
+            isOneToOne: false;
+            referencedRelation: "specializations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      specialization_scopes: {
+        Row: {
+          category_id: string | null;
+          id: string;
+          material_id: string | null;
+          specialization_id: string;
+        };
+        Insert: {
+          category_id?: string | null;
+          id?: string;
+          material_id?: string | null;
+          specialization_id: string;
+        };
+        Update: {
+          category_id?: string | null;
+          id?: string;
+          material_id?: string | null;
+          specialization_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "specialization_scopes_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "specialization_scopes_material_id_fkey";
+            columns: ["material_id"];
+            isOneToOne: false;
+            referencedRelation: "materials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "specialization_scopes_specialization_id_fkey";
+            columns: ["specialization_id"];
+            isOneToOne: false;
+            referencedRelation: "specializations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       specializations: {
         Row: {
           id: string;
@@ -378,21 +1172,62 @@ export type Database = {
         };
         Relationships: [];
       };
+      user_profiles: {
+        Row: {
+          avatar_url: string | null;
+          city: string | null;
+          display_name: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          avatar_url?: string | null;
+          city?: string | null;
+          display_name?: string | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          avatar_url?: string | null;
+          city?: string | null;
+          display_name?: string | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       users: {
         Row: {
           created_at: string;
           id: string;
+          plan: Database["public"]["Enums"]["user_plan"];
           role: Database["public"]["Enums"]["user_role"];
+          suspended_at: string | null;
+          suspension_reason: string | null;
         };
         Insert: {
           created_at?: string;
           id: string;
+          plan?: Database["public"]["Enums"]["user_plan"];
           role: Database["public"]["Enums"]["user_role"];
+          suspended_at?: string | null;
+          suspension_reason?: string | null;
         };
         Update: {
           created_at?: string;
           id?: string;
+          plan?: Database["public"]["Enums"]["user_plan"];
           role?: Database["public"]["Enums"]["user_role"];
+          suspended_at?: string | null;
+          suspension_reason?: string | null;
         };
         Relationships: [];
       };
@@ -401,14 +1236,132 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
+      accept_proposal: {
+        Args: { accepted_revision: number; project_id: string; proposal_id: string };
+        Returns: Database["public"]["Tables"]["projects"]["Row"];
+      };
+      admin_list_users: {
+        Args: {
+          page_num?: number;
+          page_size?: number;
+          role_filter?: Database["public"]["Enums"]["user_role"];
+          search_query?: string;
+        };
+        Returns: Json;
+      };
+      can_report_content: {
+        Args: {
+          report_target_id: string;
+          report_target_type: Database["public"]["Enums"]["report_target_type"];
+        };
+        Returns: boolean;
+      };
+      can_send_event_email: {
+        Args: {
+          event: Database["public"]["Enums"]["email_event"];
+          project_id: string;
+          recipient_id: string;
+        };
+        Returns: boolean;
+      };
+      consume_generation_quota: {
+        Args: { image_ids: string[]; plan_limit: number };
+        Returns: number;
+      };
+      create_saved_search_alerts: {
+        Args: { project_id: string };
+        Returns: number;
+      };
+      is_admin: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      revise_proposal: {
+        Args: {
+          base_revision: number;
+          new_attachment_url: string | null;
+          new_price: number;
+          proposal_id: string;
+          revision_note?: string | null;
+        };
+        Returns: Database["public"]["Tables"]["proposal_revisions"]["Row"];
+      };
+      search_projects: {
+        Args: {
+          budget_max?: number;
+          budget_min?: number;
+          category_id?: string;
+          currency?: Database["public"]["Enums"]["currency_code"];
+          material_id?: string;
+          max_depth?: number;
+          max_height?: number;
+          max_width?: number;
+          project_status?: Database["public"]["Enums"]["project_status"];
+          result_limit?: number;
+          result_offset?: number;
+          search_query: string;
+        };
+        Returns: {
+          id: string;
+          rank: number;
+          snippet: string;
+          total_count: number;
+        }[];
+      };
+      set_milestone_plan: {
+        Args: { milestones: Json; project_id: string; proposal_id: string };
+        Returns: Database["public"]["Tables"]["project_milestones"]["Row"][];
+      };
       user_has_proposal_for_project: {
         Args: { project_id: string };
         Returns: boolean;
       };
+      user_is_accepted_artisan: {
+        Args: { project_id: string };
+        Returns: boolean;
+      };
+      user_owns_proposal_project: {
+        Args: { proposal_id: string };
+        Returns: boolean;
+      };
+      user_shares_project: {
+        Args: { project_id: string; other_user_id: string };
+        Returns: boolean;
+      };
     };
     Enums: {
+      currency_code: "PLN" | "EUR" | "USD";
+      dimension_unit: "mm" | "cm" | "m";
+      email_event: "proposal_received" | "proposal_accepted" | "project_completed" | "review_request";
+      milestone_status: "pending" | "submitted" | "approved";
+      moderation_action:
+        | "user_suspended"
+        | "user_reinstated"
+        | "review_hidden"
+        | "review_restored"
+        | "artisan_profile_unpublished"
+        | "project_closed"
+        | "generation_quota_set"
+        | "generation_quota_cleared"
+        | "report_upheld"
+        | "report_dismissed"
+        | "artisan_nip_checked";
+      notification_type:
+        | "proposal_received"
+        | "proposal_accepted"
+        | "project_status_changed"
+        | "review_received"
+        | "saved_search_match";
+      project_event_type: "created" | "proposal_received" | "proposal_accepted" | "status_changed" | "review_posted";
       project_status: "open" | "in_progress" | "completed" | "closed";
-      user_role: "client" | "artisan";
+      proposal_inclusion: "delivery" | "assembly" | "finishing";
+      proposal_status: "pending" | "accepted" | "withdrawn" | "rejected" | "auto_rejected";
+      report_reason: "spam" | "fraud" | "offensive" | "inappropriate_image" | "other";
+      report_status: "pending" | "upheld" | "dismissed";
+      report_target_type: "project" | "proposal" | "review" | "generated_image";
+      user_plan: "free" | "premium";
+      user_role: "client" | "artisan" | "admin";
+      verification_status: "unverified" | "verified" | "needs_review" | "failed";
     };
     CompositeTypes: {
       [_ in never]: never;
@@ -531,8 +1484,40 @@ export const Constants = {
   },
   public: {
     Enums: {
+      currency_code: ["PLN", "EUR", "USD"],
+      dimension_unit: ["mm", "cm", "m"],
+      email_event: ["proposal_received", "proposal_accepted", "project_completed", "review_request"],
+      milestone_status: ["pending", "submitted", "approved"],
+      moderation_action: [
+        "user_suspended",
+        "user_reinstated",
+        "review_hidden",
+        "review_restored",
+        "artisan_profile_unpublished",
+        "project_closed",
+        "generation_quota_set",
+        "generation_quota_cleared",
+        "report_upheld",
+        "report_dismissed",
+        "artisan_nip_checked",
+      ],
+      notification_type: [
+        "proposal_received",
+        "proposal_accepted",
+        "project_status_changed",
+        "review_received",
+        "saved_search_match",
+      ],
+      project_event_type: ["created", "proposal_received", "proposal_accepted", "status_changed", "review_posted"],
       project_status: ["open", "in_progress", "completed", "closed"],
-      user_role: ["client", "artisan"],
+      proposal_inclusion: ["delivery", "assembly", "finishing"],
+      proposal_status: ["pending", "accepted", "withdrawn", "rejected", "auto_rejected"],
+      report_reason: ["spam", "fraud", "offensive", "inappropriate_image", "other"],
+      report_status: ["pending", "upheld", "dismissed"],
+      report_target_type: ["project", "proposal", "review", "generated_image"],
+      user_plan: ["free", "premium"],
+      user_role: ["client", "artisan", "admin"],
+      verification_status: ["unverified", "verified", "needs_review", "failed"],
     },
   },
 } as const;
@@ -0,0 +1,22 @@
+import { createClient } from "@supabase/supabase-js";
+
+import type { Database } from "./database.types.ts";
+import type { SupabaseClient } from "./supabase.client.ts";
+
+/**
+ * Creates a client authenticated with the service role key, which bypasses RLS.
+ * Server only - used for data users must never read directly, such as email addresses in auth.users.
+ *
+ * @throws Error if SUPABASE_SERVICE_ROLE_KEY is missing
+ */
+export function createSupabaseAdminClient(): SupabaseClient {
+  const serviceRoleKey = import.meta.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is required");
+  }
+
+  return createClient<Database>(import.meta.env.SUPABASE_URL, serviceRoleKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
@@ -17,9 +17,26 @@ declare global {
 interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
+  readonly SUPABASE_SERVICE_ROLE_KEY?: string;
   readonly OPENROUTER_API_KEY: string;
+  readonly PUBLIC_OPENROUTER_API_KEY?: string;
+  readonly IMAGE_PROVIDER?: "openrouter" | "openai" | "mock" | (string & {});
+  readonly IMAGE_MODEL?: string;
+  readonly OPENAI_IMAGES_API_KEY?: string;
+  readonly OPENAI_IMAGES_BASE_URL?: string;
   readonly GETSTREAM_API_KEY: string;
   readonly GETSTREAM_API_SECRET: string;
+  readonly APP_URL?: string;
+  readonly MAIL_TRANSPORT?: "smtp" | "file" | "console";
+  readonly MAIL_FROM?: string;
+  readonly MAIL_FILE_DIR?: string;
+  readonly SMTP_HOST?: string;
+  readonly SMTP_PORT?: string;
+  readonly SMTP_SECURE?: string;
+  readonly SMTP_USER?: string;
+  readonly SMTP_PASSWORD?: string;
+  readonly BUSINESS_REGISTRY_PROVIDER?: "mf" | "stub";
+  readonly BUSINESS_REGISTRY_API_URL?: string;
   // more env variables...
 }
 
@@ -0,0 +1,141 @@
+/**
+ * Transactional email templates
+ *
+ * Localized subject and body of every email event. Polish is the default
+ * (and currently the only) locale; a new locale only needs a new entry in `templates`.
+ */
+
+import type { EmailEvent } from "../types";
+
+export type EmailLocale = "pl";
+
+/**
+ * Event-specific data passed to the templates
+ */
+export interface EmailTemplateData {
+  proposal_received: { companyName: string; price: number };
+  proposal_accepted: { price: number };
+  project_completed: Record<string, never>;
+  review_request: Record<string, never>;
+}
+
+/**
+ * Links shared by all templates
+ */
+export interface EmailTemplateLinks {
+  projectUrl: string;
+  preferencesUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface TemplateContent {
+  subject: string;
+  paragraphs: string[];
+  actionLabel: string;
+}
+
+interface LocaleTemplates {
+  greeting: string;
+  footer: string;
+  signature: string;
+  events: { [E in EmailEvent]: (data: EmailTemplateData[E]) => TemplateContent };
+}
+
+const formatPrice = (price: number) => `${price.toLocaleString("pl-PL")} PLN`;
+
+const templates: Record<EmailLocale, LocaleTemplates> = {
+  pl: {
+    greeting: "Dzień dobry,",
+    footer: "Nie chcesz otrzymywać takich wiadomości? Zmień ustawienia powiadomień:",
+    signature: "Zespół ChairAI",
+    events: {
+      proposal_received: ({ companyName, price }) => ({
+        subject: "Nowa oferta do Twojego projektu",
+        paragraphs: [`${companyName} złożył ofertę do Twojego projektu na kwotę ${formatPrice(price)}.`],
+        actionLabel: "Zobacz ofertę",
+      }),
+      proposal_accepted: ({ price }) => ({
+        subject: "Twoja oferta została zaakceptowana",
+        paragraphs: [
+          `Klient zaakceptował Twoją ofertę na kwotę ${formatPrice(price)}.`,
+          "Projekt jest w realizacji - skontaktuj się z klientem, aby ustalić szczegóły.",
+        ],
+        actionLabel: "Przejdź do projektu",
+      }),
+      project_completed: () => ({
+        subject: "Projekt został zakończony",
+        paragraphs: [
+          "Klient oznaczył projekt jako zakończony. Dziękujemy za współpracę!",
+          "Możesz teraz wystawić opinię klientowi.",
+        ],
+        actionLabel: "Wystaw opinię",
+      }),
+      review_request: () => ({
+        subject: "Oceń realizację swojego projektu",
+        paragraphs: [
+          "Twój projekt został zakończony.",
+          "Podziel się opinią o rzemieślniku - pomożesz innym klientom wybrać wykonawcę.",
+        ],
+        actionLabel: "Wystaw opinię",
+      }),
+    },
+  },
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Renders the email of an event as plain text and HTML
+ *
+ * @param event - Email event
+ * @param data - Event-specific template data
+ * @param links - Project and preferences URLs
+ * @param locale - Template language (default: "pl")
+ * @returns Subject, plain text and HTML body
+ *
+ * @example
+ * const email = renderEmailTemplate("proposal_accepted", { price: 2500 }, links);
+ */
+export function renderEmailTemplate<E extends EmailEvent>(
+  event: E,
+  data: EmailTemplateData[E],
+  links: EmailTemplateLinks,
+  locale: EmailLocale = "pl"
+): RenderedEmail {
+  const localeTemplates = templates[locale];
+  const content = localeTemplates.events[event](data);
+
+  const text = [
+    localeTemplates.greeting,
+    "",
+    ...content.paragraphs,
+    "",
+    `${content.actionLabel}: ${links.projectUrl}`,
+    "",
+    localeTemplates.signature,
+    "",
+    `${localeTemplates.footer} ${links.preferencesUrl}`,
+  ].join("\n");
+
+  const html = [
+    `<p>${escapeHtml(localeTemplates.greeting)}</p>`,
+    ...content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p><a href="${escapeHtml(links.projectUrl)}">${escapeHtml(content.actionLabel)}</a></p>`,
+    `<p>${escapeHtml(localeTemplates.signature)}</p>`,
+    `<p style="color:#6b7280;font-size:12px">${escapeHtml(localeTemplates.footer)} ` +
+      `<a href="${escapeHtml(links.preferencesUrl)}">${escapeHtml(links.preferencesUrl)}</a></p>`,
+  ].join("\n");
+
+  return { subject: content.subject, text, html };
+}
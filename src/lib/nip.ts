@@ -0,0 +1,35 @@
+/**
+ * NIP Helpers
+ *
+ * Validation of the Polish tax identification number (NIP) of artisan companies.
+ */
+
+/**
+ * Ten digits without separators
+ */
+export const NIP_PATTERN = /^\d{10}$/;
+
+/**
+ * Official weights of the first nine digits of a NIP
+ */
+const NIP_WEIGHTS = [6, 5, 7, 2, 3, 4, 5, 6, 7] as const;
+
+/**
+ * Checks that a NIP has 10 digits and a valid check digit
+ *
+ * The check digit is the weighted sum of the first nine digits modulo 11. A sum giving 10
+ * matches no digit, such NIPs are never issued.
+ *
+ * @param nip - NIP without separators, e.g. "1234563218"
+ * @returns True if the NIP is valid
+ */
+export function isValidNip(nip: string): boolean {
+  if (!NIP_PATTERN.test(nip)) {
+    return false;
+  }
+
+  const digits = nip.split("").map(Number);
+  const checksum = NIP_WEIGHTS.reduce((sum, weight, index) => sum + weight * digits[index], 0) % 11;
+
+  return checksum === digits[9];
+}
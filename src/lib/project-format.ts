@@ -0,0 +1,128 @@
+/**
+ * Project Formatting Helpers
+ *
+ * Human-readable labels for the structured dimensions and budget of a project and the terms
+ * of proposals, shared by the project views, dashboards and the marketplace.
+ */
+
+import type { ProjectBudgetDTO, ProjectDimensionsDTO, ProposalInclusion } from "../types";
+
+const formatNumber = (value: number) => value.toLocaleString("pl-PL");
+
+/**
+ * Formats project dimensions, e.g. "120 × 80 × 75 cm" or "szer. 120 cm, wys. 75 cm" when some are missing
+ *
+ * @param dimensions - Structured dimensions of a project
+ * @returns Formatted dimensions or null when no dimensions are given
+ */
+export function formatDimensions(dimensions: ProjectDimensionsDTO | null): string | null {
+  if (!dimensions) {
+    return null;
+  }
+
+  const { width, depth, height, unit } = dimensions;
+
+  if (width !== null && depth !== null && height !== null) {
+    return `${formatNumber(width)} × ${formatNumber(depth)} × ${formatNumber(height)} ${unit}`;
+  }
+
+  const parts = [
+    ["szer.", width],
+    ["gł.", depth],
+    ["wys.", height],
+  ] as const;
+
+  return (
+    parts
+      .filter(([, value]) => value !== null)
+      .map(([label, value]) => `${label} ${formatNumber(value as number)} ${unit}`)
+      .join(", ") || null
+  );
+}
+
+/**
+ * Formats a project budget, e.g. "1 000 – 2 000 PLN", "do 1 500 PLN" or "od 3 000 EUR"
+ *
+ * @param budget - Structured budget of a project
+ * @returns Formatted budget or null when no budget is given
+ */
+export function formatBudget(budget: ProjectBudgetDTO | null): string | null {
+  if (!budget) {
+    return null;
+  }
+
+  const { min, max, currency } = budget;
+
+  if (min !== null && max !== null) {
+    return min === max ? `${formatNumber(min)} ${currency}` : `${formatNumber(min)} – ${formatNumber(max)} ${currency}`;
+  }
+  if (max !== null) {
+    return `do ${formatNumber(max)} ${currency}`;
+  }
+  if (min !== null) {
+    return `od ${formatNumber(min)} ${currency}`;
+  }
+
+  return null;
+}
+
+/**
+ * Describes a proposal price against the project budget, e.g. "w budżecie" or "500 PLN powyżej budżetu"
+ * Proposal prices are in PLN, so budgets in other currencies are not compared
+ *
+ * @param price - Proposal price in PLN
+ * @param budget - Structured budget of the project
+ * @returns Position of the price relative to the budget range, or null when it cannot be compared
+ */
+export function comparePriceToBudget(
+  price: number,
+  budget: ProjectBudgetDTO | null
+): { position: "below" | "within" | "above"; label: string } | null {
+  if (!budget || budget.currency !== "PLN" || (budget.min === null && budget.max === null)) {
+    return null;
+  }
+
+  if (budget.max !== null && price > budget.max) {
+    return { position: "above", label: `${formatNumber(price - budget.max)} PLN powyżej budżetu` };
+  }
+  if (budget.min !== null && price < budget.min) {
+    return { position: "below", label: `${formatNumber(budget.min - price)} PLN poniżej budżetu` };
+  }
+
+  return { position: "within", label: "w budżecie" };
+}
+
+/**
+ * Labels of the services an artisan can include in a proposal
+ */
+export const PROPOSAL_INCLUSION_LABELS: Record<ProposalInclusion, string> = {
+  delivery: "Transport",
+  assembly: "Montaż",
+  finishing: "Wykończenie",
+};
+
+/**
+ * Formats a proposal lead time, e.g. "1 dzień" or "21 dni"
+ *
+ * @param days - Estimated completion time in days
+ * @returns Formatted lead time or null when it was not given
+ */
+export function formatLeadTime(days: number | null): string | null {
+  if (days === null) {
+    return null;
+  }
+
+  return days === 1 ? "1 dzień" : `${formatNumber(days)} dni`;
+}
+
+/**
+ * Checks whether a proposal is past its expiry date
+ * The offer stays valid through the whole valid_until day (dates are compared in UTC)
+ *
+ * @param validUntil - Last day (YYYY-MM-DD) on which the offer can be accepted
+ * @param now - Current time
+ * @returns True when the offer can no longer be accepted
+ */
+export function isProposalExpired(validUntil: string | null, now: Date = new Date()): boolean {
+  return validUntil !== null && validUntil < now.toISOString().slice(0, 10);
+}
@@ -11,6 +11,10 @@ const RATE_LIMIT_CONFIG = {
   IMAGE_GENERATION_LIMIT: 5,
   // Time window in seconds
   WINDOW_SIZE_SECONDS: 300, // 5 minutes
+  // Maximum content reports per window per user
+  CONTENT_REPORT_LIMIT: 10,
+  // Time window of content reports in seconds
+  CONTENT_REPORT_WINDOW_SECONDS: 3600, // 1 hour
   // Storage for tracking request counts (in production, use Redis)
   requestCounts: new Map<string, { count: number; resetTime: number }>(),
 };
@@ -123,6 +127,30 @@ export function checkImageGenerationRateLimit(
   };
 }
 
+/**
+ * Check rate limit for reporting content
+ * Reports are counted separately from other requests of the user
+ *
+ * @param userId User ID
+ * @returns Object with allowed status and reset time
+ */
+export function checkContentReportRateLimit(userId: string): {
+  allowed: boolean;
+  resetTime: number;
+} {
+  const key = `report:${getRateLimitKey(userId, "")}`;
+  const allowed = checkRateLimit(
+    key,
+    RATE_LIMIT_CONFIG.CONTENT_REPORT_LIMIT,
+    RATE_LIMIT_CONFIG.CONTENT_REPORT_WINDOW_SECONDS
+  );
+
+  return {
+    allowed,
+    resetTime: getResetTime(key),
+  };
+}
+
 /**
  * Reset rate limit for specific key
  * Useful for testing or manual intervention
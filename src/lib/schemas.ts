@@ -6,6 +6,7 @@
  */
 
 import { z } from "zod";
+import { isValidNip, NIP_PATTERN } from "./nip";
 
 // ============================================================================
 // Authentication Schemas
@@ -90,6 +91,46 @@ export const PasswordResetSchema = z
 
 export type PasswordResetInput = z.infer<typeof PasswordResetSchema>;
 
+// ============================================================================
+// User Profile Schemas
+// ============================================================================
+
+/**
+ * Schema for updating the public profile of the current user
+ * At least one field must be given; null clears the field
+ */
+export const UpdateUserProfileSchema = z
+  .object({
+    display_name: z
+      .string({ invalid_type_error: "Nazwa wyświetlana musi być tekstem" })
+      .trim()
+      .min(2, { message: "Nazwa wyświetlana musi mieć co najmniej 2 znaki" })
+      .max(50, { message: "Nazwa wyświetlana może mieć maksymalnie 50 znaków" })
+      .nullable()
+      .optional(),
+    avatar_url: z
+      .string({ invalid_type_error: "Adres awatara musi być tekstem" })
+      .trim()
+      .url({ message: "Nieprawidłowy adres URL awatara" })
+      .max(500, { message: "Adres awatara może mieć maksymalnie 500 znaków" })
+      .refine((url) => url.startsWith("https://"), { message: "Adres awatara musi zaczynać się od https://" })
+      .nullable()
+      .optional(),
+    city: z
+      .string({ invalid_type_error: "Miasto musi być tekstem" })
+      .trim()
+      .max(100, { message: "Nazwa miasta może mieć maksymalnie 100 znaków" })
+      .transform((city) => city || null)
+      .nullable()
+      .optional(),
+  })
+  .strict({ message: "Nieznane pole profilu" })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Podaj co najmniej jedno pole profilu",
+  });
+
+export type UpdateUserProfileInput = z.infer<typeof UpdateUserProfileSchema>;
+
 // ============================================================================
 // Generated Images Schemas
 // ============================================================================
@@ -102,10 +143,55 @@ export const GenerateImageSchema = z.object({
     .string({ required_error: "Prompt jest wymagany" })
     .min(10, "Prompt musi mieć co najmniej 10 znaków")
     .max(500, "Prompt nie może przekraczać 500 znaków"),
+  candidates: z
+    .number({ invalid_type_error: "Liczba wariantów musi być liczbą" })
+    .int("Liczba wariantów musi być liczbą całkowitą")
+    .min(1, "Liczba wariantów musi wynosić co najmniej 1")
+    .max(4, "Można wygenerować maksymalnie 4 warianty")
+    .default(1),
 });
 
 export type GenerateImageInput = z.infer<typeof GenerateImageSchema>;
 
+/**
+ * Schema for refining an existing generated image
+ * Maps to RefineImageCommand interface from types.ts
+ */
+export const RefineImageSchema = z.object({
+  parent_image_id: z
+    .string({ required_error: "Obraz do dopracowania jest wymagany" })
+    .uuid({ message: "Nieprawidłowy format UUID dla obrazu" }),
+  prompt: z
+    .string({ required_error: "Opis zmian jest wymagany" })
+    .trim()
+    .min(3, "Opis zmian musi mieć co najmniej 3 znaki")
+    .max(300, "Opis zmian nie może przekraczać 300 znaków"),
+});
+
+export type RefineImageInput = z.infer<typeof RefineImageSchema>;
+
+/**
+ * Schema for keeping and discarding candidate images
+ * Maps to ResolveImageCandidatesCommand interface from types.ts
+ */
+const candidateIdsSchema = z.array(z.string().uuid({ message: "Nieprawidłowy format UUID dla obrazu" })).max(4);
+
+export const ResolveImageCandidatesSchema = z
+  .object({
+    keep: candidateIdsSchema.default([]),
+    discard: candidateIdsSchema.default([]),
+  })
+  .refine((data) => data.keep.length + data.discard.length > 0, {
+    message: "Wybierz co najmniej jeden wariant",
+    path: ["keep"],
+  })
+  .refine((data) => data.keep.every((id) => !data.discard.includes(id)), {
+    message: "Wariant nie może być jednocześnie zachowany i odrzucony",
+    path: ["discard"],
+  });
+
+export type ResolveImageCandidatesInput = z.infer<typeof ResolveImageCandidatesSchema>;
+
 /**
  * Schema for listing generated images query parameters
  * Maps to GeneratedImagesQueryParams interface from types.ts
@@ -156,12 +242,49 @@ export type ImagePrompt = z.infer<typeof imagePromptSchema>;
  * Schema for creating a new project
  * Maps to CreateProjectCommand interface from types.ts
  */
+const dimensionValueSchema = z
+  .number({ invalid_type_error: "Wymiar musi być liczbą" })
+  .positive({ message: "Wymiar musi być dodatni" })
+  .max(100000, { message: "Wymiar nie może przekraczać 100000" })
+  .optional();
+
+const budgetValueSchema = z
+  .number({ invalid_type_error: "Budżet musi być liczbą" })
+  .nonnegative({ message: "Budżet nie może być ujemny" })
+  .max(10000000, { message: "Budżet nie może przekraczać 10,000,000" })
+  .optional();
+
 export const CreateProjectSchema = z.object({
   generated_image_id: z.string().uuid({ message: "Nieprawidłowy UUID dla wygenerowanego obrazu" }),
   category_id: z.string().uuid({ message: "Nieprawidłowy UUID dla kategorii" }),
   material_id: z.string().uuid({ message: "Nieprawidłowy UUID dla materiału" }),
-  dimensions: z.string().max(100, "Wymiary nie mogą przekraczać 100 znaków").optional(),
-  budget_range: z.string().max(50, "Budżet nie może przekraczać 50 znaków").optional(),
+  dimensions: z
+    .object({
+      width: dimensionValueSchema,
+      depth: dimensionValueSchema,
+      height: dimensionValueSchema,
+      unit: z.enum(["mm", "cm", "m"], {
+        required_error: "Jednostka wymiarów jest wymagana",
+        invalid_type_error: "Nieprawidłowa jednostka wymiarów",
+      }),
+    })
+    .refine((data) => data.width !== undefined || data.depth !== undefined || data.height !== undefined, {
+      message: "Podaj co najmniej jeden wymiar",
+    })
+    .optional(),
+  budget: z
+    .object({
+      min: budgetValueSchema,
+      max: budgetValueSchema,
+      currency: z.enum(["PLN", "EUR", "USD"], { invalid_type_error: "Nieprawidłowa waluta" }).default("PLN"),
+    })
+    .refine((data) => data.min !== undefined || data.max !== undefined, {
+      message: "Podaj budżet minimalny lub maksymalny",
+    })
+    .refine((data) => data.min === undefined || data.max === undefined || data.min <= data.max, {
+      message: "Budżet minimalny nie może być większy niż maksymalny",
+    })
+    .optional(),
 });
 
 export type CreateProjectInput = z.infer<typeof CreateProjectSchema>;
@@ -180,7 +303,11 @@ export const CreateUpdateArtisanProfileSchema = z.object({
     .min(1, { message: "Nazwa firmy nie może być pusta" }),
   nip: z
     .string({ required_error: "NIP jest wymagany" })
-    .regex(/^\d{10}$/, { message: "NIP musi składać się z dokładnie 10 cyfr" }),
+    .regex(NIP_PATTERN, { message: "NIP musi składać się z dokładnie 10 cyfr" })
+    // Only a well-formed NIP gets the checksum error, so the format message is not overwritten
+    .refine((nip) => !NIP_PATTERN.test(nip) || isValidNip(nip), {
+      message: "Nieprawidłowy NIP - cyfra kontrolna się nie zgadza",
+    }),
   is_public: z.boolean(),
 });
 
@@ -218,37 +345,85 @@ export type PortfolioImageUploadInput = z.infer<typeof PortfolioImageUploadSchem
 // Project Query Schemas
 // ============================================================================
 
+/**
+ * Optional non-negative number in a query string (missing or empty means "not given")
+ */
+const optionalNumberQuerySchema = (label: string) =>
+  z
+    .string()
+    .nullish()
+    .transform((val) => (val ? Number(val) : undefined))
+    .pipe(
+      z
+        .number({ invalid_type_error: `${label}: wartość musi być liczbą` })
+        .nonnegative({ message: `${label}: wartość nie może być ujemna` })
+        .optional()
+    );
+
 /**
  * Schema for listing projects query parameters
  * Maps to ProjectsQueryParams interface from types.ts
  */
-export const ProjectsQuerySchema = z.object({
-  status: z
-    .string()
-    .nullable()
-    .transform((val) => val || "open")
-    .pipe(z.enum(["open", "in_progress", "completed", "closed"])),
-  category_id: z
-    .string()
-    .nullable()
-    .transform((val) => val || undefined)
-    .pipe(z.string().uuid({ message: "Nieprawidłowy UUID dla kategorii" }).optional()),
-  material_id: z
-    .string()
-    .nullable()
-    .transform((val) => val || undefined)
-    .pipe(z.string().uuid({ message: "Nieprawidłowy UUID dla materiału" }).optional()),
-  page: z
-    .string()
-    .nullable()
-    .transform((val) => (val ? parseInt(val, 10) : 1))
-    .pipe(z.number().int().positive()),
-  limit: z
-    .string()
-    .nullable()
-    .transform((val) => (val ? parseInt(val, 10) : 20))
-    .pipe(z.number().int().positive().max(100)),
-});
+export const ProjectsQuerySchema = z
+  .object({
+    search: z
+      .string()
+      .nullish()
+      .transform((val) => val?.trim() || undefined)
+      .pipe(z.string().max(200, { message: "Fraza wyszukiwania może mieć maksymalnie 200 znaków" }).optional()),
+    status: z
+      .string()
+      .nullable()
+      .transform((val) => val || "open")
+      .pipe(z.enum(["open", "in_progress", "completed", "closed"])),
+    category_id: z
+      .string()
+      .nullable()
+      .transform((val) => val || undefined)
+      .pipe(z.string().uuid({ message: "Nieprawidłowy UUID dla kategorii" }).optional()),
+    material_id: z
+      .string()
+      .nullable()
+      .transform((val) => val || undefined)
+      .pipe(z.string().uuid({ message: "Nieprawidłowy UUID dla materiału" }).optional()),
+    budget_min: optionalNumberQuerySchema("Budżet minimalny"),
+    budget_max: optionalNumberQuerySchema("Budżet maksymalny"),
+    currency: z
+      .string()
+      .nullish()
+      .transform((val) => val || undefined)
+      .pipe(z.enum(["PLN", "EUR", "USD"], { message: "Nieprawidłowa waluta" }).optional()),
+    max_width: optionalNumberQuerySchema("Maksymalna szerokość"),
+    max_depth: optionalNumberQuerySchema("Maksymalna głębokość"),
+    max_height: optionalNumberQuerySchema("Maksymalna wysokość"),
+    sort: z
+      .string()
+      .nullish()
+      .transform((val) => val || "newest")
+      .pipe(z.enum(["newest", "oldest", "budget_desc", "fewest_proposals"], { message: "Nieprawidłowe sortowanie" })),
+    cursor: z
+      .string()
+      .nullish()
+      .transform((val) => val || undefined)
+      .pipe(z.string().max(500, { message: "Nieprawidłowy kursor" }).optional()),
+    page: z
+      .string()
+      .nullable()
+      .transform((val) => (val ? parseInt(val, 10) : 1))
+      .pipe(z.number().int().positive()),
+    limit: z
+      .string()
+      .nullable()
+      .transform((val) => (val ? parseInt(val, 10) : 20))
+      .pipe(z.number().int().positive().max(100)),
+  })
+  .refine(
+    (data) => data.budget_min === undefined || data.budget_max === undefined || data.budget_min <= data.budget_max,
+    {
+      message: "Budżet minimalny nie może być większy niż maksymalny",
+      path: ["budget_min"],
+    }
+  );
 
 export type ProjectsQuery = z.infer<typeof ProjectsQuerySchema>;
 
@@ -276,9 +451,29 @@ export type UpdateProjectStatusInput = z.infer<typeof UpdateProjectStatusSchema>
 // Proposal Schemas
 // ============================================================================
 
+/**
+ * Maximum number of files attached to a proposal
+ */
+const MAX_PROPOSAL_ATTACHMENTS = 5;
+
+/**
+ * Schema for a single proposal attachment file (PDF, JPG or PNG, max 5MB)
+ */
+const proposalFileSchema = z
+  .instanceof(File, { message: "Załącznik jest wymagany" })
+  .refine((file) => file.size > 0, {
+    message: "Plik nie może być pusty",
+  })
+  .refine((file) => file.size <= 5 * 1024 * 1024, {
+    message: "Rozmiar pliku nie może przekraczać 5MB",
+  })
+  .refine((file) => ["application/pdf", "image/jpeg", "image/png", "image/jpg"].includes(file.type), {
+    message: "Nieprawidłowy typ pliku. Dozwolone są tylko PDF, JPG i PNG",
+  });
+
 /**
  * Schema for creating a proposal
- * Validates price and attachment file for proposal submission
+ * Validates price, offer terms (lead time, scope, inclusions, expiry date) and the captioned attachment files
  */
 export const CreateProposalSchema = z.object({
   price: z
@@ -288,16 +483,43 @@ export const CreateProposalSchema = z.object({
     })
     .positive({ message: "Cena musi być dodatnia" })
     .max(1000000, { message: "Cena nie może przekraczać 1,000,000 PLN" }),
-  attachment: z
-    .instanceof(File, { message: "Załącznik jest wymagany" })
-    .refine((file) => file.size > 0, {
-      message: "Plik nie może być pusty",
+  lead_time_days: z
+    .number({
+      required_error: "Czas realizacji jest wymagany",
+      invalid_type_error: "Czas realizacji musi być liczbą",
     })
-    .refine((file) => file.size <= 5 * 1024 * 1024, {
-      message: "Rozmiar pliku nie może przekraczać 5MB",
+    .int({ message: "Czas realizacji musi być liczbą całkowitą dni" })
+    .positive({ message: "Czas realizacji musi być dodatni" })
+    .max(365, { message: "Czas realizacji nie może przekraczać 365 dni" }),
+  scope_description: z
+    .string()
+    .trim()
+    .max(2000, { message: "Opis zakresu prac nie może przekraczać 2000 znaków" })
+    .optional(),
+  inclusions: z
+    .array(z.enum(["delivery", "assembly", "finishing"], { message: "Nieprawidłowy element oferty" }))
+    .default([]),
+  valid_until: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Data ważności musi mieć format RRRR-MM-DD" })
+    .refine((date) => date >= new Date().toISOString().slice(0, 10), {
+      message: "Data ważności oferty nie może być w przeszłości",
     })
-    .refine((file) => ["application/pdf", "image/jpeg", "image/png", "image/jpg"].includes(file.type), {
-      message: "Nieprawidłowy typ pliku. Dozwolone są tylko PDF, JPG i PNG",
+    .optional(),
+  attachments: z
+    .array(
+      z.object({
+        file: proposalFileSchema,
+        caption: z
+          .string({ required_error: "Podpis załącznika jest wymagany" })
+          .trim()
+          .min(1, { message: "Podpis załącznika jest wymagany" })
+          .max(200, { message: "Podpis załącznika nie może przekraczać 200 znaków" }),
+      })
+    )
+    .min(1, { message: "Załącznik jest wymagany" })
+    .max(MAX_PROPOSAL_ATTACHMENTS, {
+      message: `Oferta może mieć maksymalnie ${MAX_PROPOSAL_ATTACHMENTS} załączników`,
     }),
 });
 
@@ -311,10 +533,135 @@ export const AcceptProposalSchema = z.object({
   proposal_id: z
     .string({ required_error: "ID propozycji jest wymagane" })
     .uuid({ message: "Nieprawidłowy format UUID dla propozycji" }),
+  revision_number: z
+    .number({ invalid_type_error: "Numer wersji oferty musi być liczbą" })
+    .int({ message: "Numer wersji oferty musi być liczbą całkowitą" })
+    .positive({ message: "Numer wersji oferty musi być dodatni" })
+    .optional(),
 });
 
 export type AcceptProposalInput = z.infer<typeof AcceptProposalSchema>;
 
+/**
+ * Schema for proposal ID path parameter
+ */
+export const ProposalIdSchema = z.string().uuid({ message: "Nieprawidłowy format UUID dla propozycji" });
+
+export type ProposalId = z.infer<typeof ProposalIdSchema>;
+
+/**
+ * Schema for proposal attachment ID path parameter
+ */
+export const AttachmentIdSchema = z.string().uuid({ message: "Nieprawidłowy format UUID dla załącznika" });
+
+/**
+ * Schema for a client's counter-offer on a proposal
+ * Used in: POST /api/proposals/{id}/counter-offers
+ */
+export const CreateCounterOfferSchema = z.object({
+  price: z
+    .number({
+      required_error: "Cena jest wymagana",
+      invalid_type_error: "Cena musi być liczbą",
+    })
+    .positive({ message: "Cena musi być dodatnia" })
+    .max(1000000, { message: "Cena nie może przekraczać 1,000,000 PLN" }),
+  note: z.string().max(1000, { message: "Notatka nie może przekraczać 1000 znaków" }).optional(),
+});
+
+export type CreateCounterOfferInput = z.infer<typeof CreateCounterOfferSchema>;
+
+/**
+ * Schema for an artisan's revision of a proposal
+ * Validates new price and optional replacement attachment
+ * Used in: POST /api/proposals/{id}/revisions
+ */
+export const ReviseProposalSchema = z.object({
+  price: z
+    .number({
+      required_error: "Cena jest wymagana",
+      invalid_type_error: "Cena musi być liczbą",
+    })
+    .positive({ message: "Cena musi być dodatnia" })
+    .max(1000000, { message: "Cena nie może przekraczać 1,000,000 PLN" }),
+  attachment: z
+    .instanceof(File)
+    .refine((file) => file.size > 0, {
+      message: "Plik nie może być pusty",
+    })
+    .refine((file) => file.size <= 5 * 1024 * 1024, {
+      message: "Rozmiar pliku nie może przekraczać 5MB",
+    })
+    .refine((file) => ["application/pdf", "image/jpeg", "image/png", "image/jpg"].includes(file.type), {
+      message: "Nieprawidłowy typ pliku. Dozwolone są tylko PDF, JPG i PNG",
+    })
+    .optional(),
+  note: z.string().max(1000, { message: "Notatka nie może przekraczać 1000 znaków" }).optional(),
+});
+
+export type ReviseProposalInput = z.infer<typeof ReviseProposalSchema>;
+
+/**
+ * Schema for rejecting a proposal by the project owner
+ * Used in: POST /api/projects/{id}/proposals/{proposalId}/reject
+ */
+export const RejectProposalSchema = z.object({
+  reason: z.string().trim().max(500, { message: "Powód odrzucenia nie może przekraczać 500 znaków" }).optional(),
+});
+
+export type RejectProposalInput = z.infer<typeof RejectProposalSchema>;
+
+/**
+ * Schema for proposal status filter
+ * Used in: GET /api/proposals/me
+ */
+export const ProposalStatusSchema = z.enum(["pending", "accepted", "withdrawn", "rejected", "auto_rejected"], {
+  invalid_type_error: "Nieprawidłowy status oferty",
+});
+
+// ============================================================================
+// Milestone Schemas
+// ============================================================================
+
+/**
+ * Schema for milestone ID path parameter
+ */
+export const MilestoneIdSchema = z.string().uuid({ message: "Nieprawidłowy format ID etapu" });
+
+/**
+ * Schema for a project's milestone plan
+ * Validates each milestone's title, amount and optional due date (YYYY-MM-DD)
+ * Used in: PUT /api/projects/{id}/milestones
+ */
+export const SetMilestonePlanSchema = z.object({
+  milestones: z
+    .array(
+      z.object({
+        title: z
+          .string({ required_error: "Nazwa etapu jest wymagana" })
+          .trim()
+          .min(1, { message: "Nazwa etapu nie może być pusta" })
+          .max(120, { message: "Nazwa etapu nie może przekraczać 120 znaków" }),
+        amount: z
+          .number({
+            required_error: "Kwota etapu jest wymagana",
+            invalid_type_error: "Kwota etapu musi być liczbą",
+          })
+          .positive({ message: "Kwota etapu musi być dodatnia" })
+          .max(1000000, { message: "Kwota etapu nie może przekraczać 1,000,000 PLN" }),
+        due_date: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Termin musi mieć format RRRR-MM-DD" })
+          .optional(),
+      }),
+      { required_error: "Lista etapów jest wymagana" }
+    )
+    .min(1, { message: "Wymagany jest co najmniej jeden etap" })
+    .max(10, { message: "Projekt może mieć maksymalnie 10 etapów" }),
+});
+
+export type SetMilestonePlanInput = z.infer<typeof SetMilestonePlanSchema>;
+
 // ============================================================================
 // Review Schemas
 // ============================================================================
@@ -368,3 +715,371 @@ export const ArtisanReviewsQuerySchema = z.object({
 });
 
 export type ArtisanReviewsQuery = z.infer<typeof ArtisanReviewsQuerySchema>;
+
+// ============================================================================
+// Notification Schemas
+// ============================================================================
+
+/**
+ * Schema for listing notifications query parameters
+ * Maps to NotificationsQueryParams interface from types.ts
+ */
+export const NotificationsQuerySchema = z.object({
+  page: z
+    .string()
+    .nullable()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .pipe(z.number().int().positive()),
+  limit: z
+    .string()
+    .nullable()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().int().positive().max(100)),
+  unread_only: z
+    .string()
+    .nullable()
+    .transform((val) => val === "true")
+    .pipe(z.boolean()),
+});
+
+export type NotificationsQuery = z.infer<typeof NotificationsQuerySchema>;
+
+/**
+ * Schema for marking notifications as read
+ * Either a list of notification IDs or `all: true` must be given
+ */
+export const MarkNotificationsReadSchema = z
+  .object({
+    notification_ids: z
+      .array(z.string().uuid({ message: "Nieprawidłowy format ID powiadomienia" }))
+      .min(1, { message: "Lista powiadomień nie może być pusta" })
+      .max(100, { message: "Można oznaczyć maksymalnie 100 powiadomień naraz" })
+      .optional(),
+    all: z.literal(true, { invalid_type_error: "Pole all musi mieć wartość true" }).optional(),
+  })
+  .refine((data) => (data.notification_ids !== undefined) !== (data.all !== undefined), {
+    message: "Podaj listę powiadomień albo all: true",
+  });
+
+export type MarkNotificationsReadInput = z.infer<typeof MarkNotificationsReadSchema>;
+
+/**
+ * Schema for updating email preferences
+ * At least one event flag must be given
+ */
+export const UpdateEmailPreferencesSchema = z
+  .object({
+    proposal_received: z.boolean({ invalid_type_error: "Wartość musi być typu logicznego" }).optional(),
+    proposal_accepted: z.boolean({ invalid_type_error: "Wartość musi być typu logicznego" }).optional(),
+    project_completed: z.boolean({ invalid_type_error: "Wartość musi być typu logicznego" }).optional(),
+    review_request: z.boolean({ invalid_type_error: "Wartość musi być typu logicznego" }).optional(),
+  })
+  .strict({ message: "Nieznany typ powiadomienia e-mail" })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Podaj co najmniej jedno ustawienie",
+  });
+
+export type UpdateEmailPreferencesInput = z.infer<typeof UpdateEmailPreferencesSchema>;
+
+// ============================================================================
+// Saved Search Schemas
+// ============================================================================
+
+/**
+ * Schema for saving a marketplace search
+ * Every criterion is optional, the budget range must not be inverted
+ */
+export const CreateSavedSearchSchema = z
+  .object({
+    name: z
+      .string({ required_error: "Nazwa wyszukiwania jest wymagana" })
+      .trim()
+      .min(1, { message: "Nazwa wyszukiwania jest wymagana" })
+      .max(100, { message: "Nazwa wyszukiwania może mieć maksymalnie 100 znaków" }),
+    query: z
+      .string()
+      .trim()
+      .max(200, { message: "Fraza wyszukiwania może mieć maksymalnie 200 znaków" })
+      .optional()
+      .transform((val) => val || undefined),
+    category_id: z.string().uuid({ message: "Nieprawidłowy UUID dla kategorii" }).optional(),
+    material_id: z.string().uuid({ message: "Nieprawidłowy UUID dla materiału" }).optional(),
+    specialization_id: z.string().uuid({ message: "Nieprawidłowy UUID dla specjalizacji" }).optional(),
+    budget_min: z
+      .number({ invalid_type_error: "Budżet musi być liczbą" })
+      .nonnegative({ message: "Budżet nie może być ujemny" })
+      .optional(),
+    budget_max: z
+      .number({ invalid_type_error: "Budżet musi być liczbą" })
+      .nonnegative({ message: "Budżet nie może być ujemny" })
+      .optional(),
+    alerts_enabled: z.boolean({ invalid_type_error: "Wartość musi być typu logicznego" }).optional(),
+  })
+  .refine(
+    (data) => data.budget_min === undefined || data.budget_max === undefined || data.budget_min <= data.budget_max,
+    {
+      message: "Budżet minimalny nie może być większy niż maksymalny",
+      path: ["budget_min"],
+    }
+  );
+
+export type CreateSavedSearchInput = z.infer<typeof CreateSavedSearchSchema>;
+
+/**
+ * Schema for updating a saved search
+ * At least one field must be given
+ */
+export const UpdateSavedSearchSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: "Nazwa wyszukiwania jest wymagana" })
+      .max(100, { message: "Nazwa wyszukiwania może mieć maksymalnie 100 znaków" })
+      .optional(),
+    alerts_enabled: z.boolean({ invalid_type_error: "Wartość musi być typu logicznego" }).optional(),
+  })
+  .strict({ message: "Można zmienić tylko nazwę i powiadomienia" })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Podaj co najmniej jedno pole do zmiany",
+  });
+
+export type UpdateSavedSearchInput = z.infer<typeof UpdateSavedSearchSchema>;
+
+/**
+ * Schema for saved search ID path parameter
+ */
+export const SavedSearchIdSchema = z.string().uuid({ message: "Nieprawidłowy UUID dla zapisanego wyszukiwania" });
+
+// ============================================================================
+// Admin Schemas
+// ============================================================================
+
+const pageQuerySchema = z
+  .string()
+  .nullable()
+  .transform((val) => (val ? parseInt(val, 10) : 1))
+  .pipe(z.number().int().positive());
+
+const limitQuerySchema = z
+  .string()
+  .nullable()
+  .transform((val) => (val ? parseInt(val, 10) : 20))
+  .pipe(z.number().int().positive().max(100));
+
+/**
+ * Schema for user ID path parameter
+ */
+export const UserIdSchema = z.string().uuid({ message: "Nieprawidłowy format ID użytkownika" });
+
+/**
+ * Schema for review ID path parameter
+ */
+export const ReviewIdSchema = z.string().uuid({ message: "Nieprawidłowy format ID opinii" });
+
+/**
+ * Schema for the reason of a moderator action
+ * Used in: POST /api/admin/users/{id}/suspend, /reviews/{id}/hide, /artisans/{id}/unpublish, /projects/{id}/close
+ */
+export const ModerationSchema = z.object({
+  reason: z
+    .string({ required_error: "Powód jest wymagany" })
+    .trim()
+    .min(3, { message: "Powód musi mieć co najmniej 3 znaki" })
+    .max(500, { message: "Powód nie może przekraczać 500 znaków" }),
+});
+
+export type ModerationInput = z.infer<typeof ModerationSchema>;
+
+/**
+ * Schema for verifying the company of an artisan (the body is optional)
+ * Used in: POST /api/admin/artisans/{id}/verify
+ */
+export const VerifyArtisanSchema = z.object({
+  accept_name_mismatch: z
+    .boolean({ invalid_type_error: "accept_name_mismatch musi być wartością logiczną" })
+    .default(false),
+});
+
+export type VerifyArtisanInput = z.infer<typeof VerifyArtisanSchema>;
+
+/**
+ * Schema for setting the monthly generation limit of a user
+ * Used in: PUT /api/admin/users/{id}/generation-quota
+ */
+export const SetGenerationQuotaSchema = z.object({
+  monthly_limit: z
+    .number({ required_error: "Limit jest wymagany", invalid_type_error: "Limit musi być liczbą" })
+    .int({ message: "Limit musi być liczbą całkowitą" })
+    .min(0, { message: "Limit nie może być ujemny" })
+    .max(10000, { message: "Limit nie może przekraczać 10000 generacji" }),
+  reason: z.string().trim().max(400, { message: "Powód nie może przekraczać 400 znaków" }).optional(),
+});
+
+export type SetGenerationQuotaInput = z.infer<typeof SetGenerationQuotaSchema>;
+
+/**
+ * Schema for listing users in the moderation console
+ * Maps to AdminUsersQueryParams interface from types.ts
+ */
+export const AdminUsersQuerySchema = z.object({
+  search: z
+    .string()
+    .nullish()
+    .transform((val) => val?.trim() || undefined)
+    .pipe(z.string().max(200, { message: "Fraza wyszukiwania może mieć maksymalnie 200 znaków" }).optional()),
+  role: z
+    .string()
+    .nullish()
+    .transform((val) => val || undefined)
+    .pipe(z.enum(["client", "artisan", "admin"], { message: "Nieprawidłowa rola" }).optional()),
+  page: pageQuerySchema,
+  limit: limitQuerySchema,
+});
+
+export type AdminUsersQuery = z.infer<typeof AdminUsersQuerySchema>;
+
+/**
+ * Schema for listing reviews in the moderation console
+ * Maps to AdminReviewsQueryParams interface from types.ts
+ */
+export const AdminReviewsQuerySchema = z.object({
+  hidden_only: z
+    .string()
+    .nullable()
+    .transform((val) => val === "true")
+    .pipe(z.boolean()),
+  page: pageQuerySchema,
+  limit: limitQuerySchema,
+});
+
+export type AdminReviewsQuery = z.infer<typeof AdminReviewsQuerySchema>;
+
+/**
+ * Schema for listing projects in the moderation console
+ * Maps to AdminProjectsQueryParams interface from types.ts
+ */
+export const AdminProjectsQuerySchema = z.object({
+  status: z
+    .string()
+    .nullish()
+    .transform((val) => val || undefined)
+    .pipe(
+      z.enum(["open", "in_progress", "completed", "closed"], { message: "Nieprawidłowy status projektu" }).optional()
+    ),
+  page: pageQuerySchema,
+  limit: limitQuerySchema,
+});
+
+export type AdminProjectsQuery = z.infer<typeof AdminProjectsQuerySchema>;
+
+/**
+ * Schema for listing the audit log of moderator actions
+ * Maps to ModerationActionsQueryParams interface from types.ts
+ */
+export const ModerationActionsQuerySchema = z.object({
+  action: z
+    .string()
+    .nullish()
+    .transform((val) => val || undefined)
+    .pipe(
+      z
+        .enum(
+          [
+            "user_suspended",
+            "user_reinstated",
+            "review_hidden",
+            "review_restored",
+            "artisan_profile_unpublished",
+            "project_closed",
+            "generation_quota_set",
+            "generation_quota_cleared",
+            "report_upheld",
+            "report_dismissed",
+            "artisan_nip_checked",
+          ],
+          { message: "Nieprawidłowy typ akcji" }
+        )
+        .optional()
+    ),
+  target_id: z
+    .string()
+    .nullish()
+    .transform((val) => val || undefined)
+    .pipe(z.string().uuid({ message: "Nieprawidłowy format ID obiektu" }).optional()),
+  page: pageQuerySchema,
+  limit: limitQuerySchema,
+});
+
+export type ModerationActionsQuery = z.infer<typeof ModerationActionsQuerySchema>;
+
+/**
+ * Schema for report ID path parameter
+ */
+export const ReportIdSchema = z.string().uuid({ message: "Nieprawidłowy format ID zgłoszenia" });
+
+/**
+ * Schema for resolving a report in the triage queue
+ * Used in: POST /api/admin/reports/{id}/resolve
+ */
+export const ResolveContentReportSchema = ModerationSchema.extend({
+  decision: z.enum(["upheld", "dismissed"], {
+    required_error: "Decyzja jest wymagana",
+    message: "Nieprawidłowa decyzja",
+  }),
+});
+
+export type ResolveContentReportInput = z.infer<typeof ResolveContentReportSchema>;
+
+/**
+ * Schema for listing reports in the triage queue
+ * Maps to ContentReportsQueryParams interface from types.ts
+ */
+export const ContentReportsQuerySchema = z.object({
+  status: z
+    .string()
+    .nullish()
+    .transform((val) => val || "pending")
+    .pipe(z.enum(["pending", "upheld", "dismissed"], { message: "Nieprawidłowy status zgłoszenia" })),
+  target_type: z
+    .string()
+    .nullish()
+    .transform((val) => val || undefined)
+    .pipe(
+      z.enum(["project", "proposal", "review", "generated_image"], { message: "Nieprawidłowy typ treści" }).optional()
+    ),
+  page: pageQuerySchema,
+  limit: limitQuerySchema,
+});
+
+export type ContentReportsQuery = z.infer<typeof ContentReportsQuerySchema>;
+
+// ============================================================================
+// Content Report Schemas
+// ============================================================================
+
+/**
+ * Schema for reporting a project, proposal, review or generated image
+ * Used in: POST /api/reports
+ */
+export const CreateContentReportSchema = z.object({
+  target_type: z.enum(["project", "proposal", "review", "generated_image"], {
+    required_error: "Typ zgłaszanej treści jest wymagany",
+    message: "Nieprawidłowy typ zgłaszanej treści",
+  }),
+  target_id: z
+    .string({ required_error: "ID zgłaszanej treści jest wymagane" })
+    .uuid({ message: "Nieprawidłowy format ID zgłaszanej treści" }),
+  reason: z.enum(["spam", "fraud", "offensive", "inappropriate_image", "other"], {
+    required_error: "Powód zgłoszenia jest wymagany",
+    message: "Nieprawidłowy powód zgłoszenia",
+  }),
+  details: z
+    .string()
+    .trim()
+    .max(1000, { message: "Opis nie może przekraczać 1000 znaków" })
+    .optional()
+    .transform((val) => val || undefined),
+});
+
+export type CreateContentReportInput = z.infer<typeof CreateContentReportSchema>;
@@ -0,0 +1,804 @@
+/**
+ * Admin Service
+ *
+ * Service responsible for moderation: suspending users, hiding reviews, unpublishing artisan profiles,
+ * closing projects, setting generation limits, resolving content reports and verifying artisan companies in
+ * the business registry. Every action is recorded
+ * in the moderation_actions audit log. Admin writes go through RLS policies guarded by is_admin(), so
+ * the service must be used with the client of the signed-in admin.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AdminProjectDTO,
+  AdminReviewDTO,
+  AdminUserDTO,
+  ArtisanVerificationDTO,
+  ContentReportDTO,
+  ModerationAction,
+  ModerationActionDTO,
+  PaginatedResponseDTO,
+  ReportStatus,
+  ReportTargetType,
+  ResolveContentReportCommand,
+  SetGenerationQuotaCommand,
+  UserRole,
+} from "../../types";
+import type {
+  AdminProjectsQuery,
+  AdminReviewsQuery,
+  AdminUsersQuery,
+  ContentReportsQuery,
+  ModerationActionsQuery,
+} from "../schemas";
+import {
+  companyNamesMatch,
+  createBusinessRegistryProvider,
+  type BusinessRegistryEntry,
+  type BusinessRegistryProvider,
+} from "./business-registry.service";
+import { AUTO_HIDDEN_REASON, REPORT_TARGETS } from "./content-report.service";
+import { GenerationQuotaService } from "./generation-quota.service";
+
+/**
+ * Custom error class for moderation-related business logic errors
+ */
+export class AdminError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "AdminError";
+  }
+}
+
+const ADMIN_REVIEW_COLUMNS =
+  "id, project_id, reviewer_id, reviewee_id, rating, comment, created_at, hidden_at, hidden_reason" as const;
+
+/**
+ * Service for the moderation console
+ */
+export class AdminService {
+  private registry: BusinessRegistryProvider;
+
+  constructor(
+    private supabase: SupabaseClient,
+    registry?: BusinessRegistryProvider
+  ) {
+    this.registry = registry ?? createBusinessRegistryProvider();
+  }
+
+  /**
+   * Lists users with their email addresses, newest first
+   *
+   * @param params - Search phrase, role filter and pagination
+   * @returns Promise containing a page of users
+   * @throws AdminError if the list cannot be fetched
+   *
+   * @example
+   * const users = await adminService.listUsers({ search: "kowalski", role: undefined, page: 1, limit: 20 });
+   */
+  async listUsers(params: AdminUsersQuery): Promise<PaginatedResponseDTO<AdminUserDTO>> {
+    const { data, error } = await this.supabase.rpc("admin_list_users", {
+      search_query: params.search,
+      role_filter: params.role,
+      page_num: params.page,
+      page_size: params.limit,
+    });
+
+    if (error || !data) {
+      if (error?.code === "42501") {
+        throw new AdminError("Brak uprawnień administratora", "FORBIDDEN", 403);
+      }
+
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to list users:", error);
+      throw new AdminError("Nie udało się pobrać użytkowników", "USERS_FETCH_FAILED", 500);
+    }
+
+    return data as unknown as PaginatedResponseDTO<AdminUserDTO>;
+  }
+
+  /**
+   * Suspends a user
+   *
+   * Business rules:
+   * - Admins cannot suspend themselves or other admins
+   * - A suspended user is signed out on the next request and cannot sign in again
+   *
+   * @param adminId - ID of the admin
+   * @param userId - ID of the user to suspend
+   * @param reason - Reason shown in the audit log
+   * @throws AdminError if the user is not found, is an admin or is already suspended
+   *
+   * @example
+   * await adminService.suspendUser(adminId, userId, "Fałszywe oferty");
+   */
+  async suspendUser(adminId: string, userId: string, reason: string): Promise<void> {
+    // Step 1: Admins cannot lock themselves out
+    if (adminId === userId) {
+      throw new AdminError("Nie możesz zawiesić własnego konta", "CANNOT_MODERATE_SELF", 400);
+    }
+
+    // Step 2: Check the target user
+    const user = await this.getUser(userId);
+
+    if (user.role === "admin") {
+      throw new AdminError("Nie można zawiesić administratora", "CANNOT_SUSPEND_ADMIN", 403);
+    }
+
+    if (user.suspended_at) {
+      throw new AdminError("Użytkownik jest już zawieszony", "USER_ALREADY_SUSPENDED", 409);
+    }
+
+    // Step 3: Suspend the user
+    const { error } = await this.supabase
+      .from("users")
+      .update({ suspended_at: new Date().toISOString(), suspension_reason: reason })
+      .eq("id", userId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to suspend user:", error);
+      throw new AdminError("Nie udało się zawiesić użytkownika", "MODERATION_FAILED", 500);
+    }
+
+    // Step 4: Record the action
+    await this.recordAction(adminId, "user_suspended", userId, reason);
+  }
+
+  /**
+   * Lifts the suspension of a user
+   *
+   * @param adminId - ID of the admin
+   * @param userId - ID of the suspended user
+   * @throws AdminError if the user is not found or is not suspended
+   *
+   * @example
+   * await adminService.reinstateUser(adminId, userId);
+   */
+  async reinstateUser(adminId: string, userId: string): Promise<void> {
+    // Step 1: Check the target user
+    const user = await this.getUser(userId);
+
+    if (!user.suspended_at) {
+      throw new AdminError("Użytkownik nie jest zawieszony", "USER_NOT_SUSPENDED", 409);
+    }
+
+    // Step 2: Lift the suspension
+    const { error } = await this.supabase
+      .from("users")
+      .update({ suspended_at: null, suspension_reason: null })
+      .eq("id", userId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to reinstate user:", error);
+      throw new AdminError("Nie udało się przywrócić użytkownika", "MODERATION_FAILED", 500);
+    }
+
+    // Step 3: Record the action
+    await this.recordAction(adminId, "user_reinstated", userId);
+  }
+
+  /**
+   * Sets the monthly generation limit of a user, replacing the limit of the plan
+   *
+   * @param adminId - ID of the admin
+   * @param userId - ID of the user
+   * @param command - Monthly limit and optional reason
+   * @throws AdminError if the user is not found
+   * @throws GenerationQuotaError if the limit cannot be saved
+   *
+   * @example
+   * await adminService.setGenerationQuota(adminId, userId, { monthly_limit: 50, reason: "Projekt pilotażowy" });
+   */
+  async setGenerationQuota(adminId: string, userId: string, command: SetGenerationQuotaCommand): Promise<void> {
+    await this.getUser(userId);
+
+    const quotaService = new GenerationQuotaService(this.supabase);
+    await quotaService.setOverride(userId, command.monthly_limit, adminId, command.reason);
+
+    const note = `Limit miesięczny: ${command.monthly_limit}`;
+    await this.recordAction(
+      adminId,
+      "generation_quota_set",
+      userId,
+      command.reason ? `${note}. ${command.reason}` : note
+    );
+  }
+
+  /**
+   * Removes the generation limit set for a user, restoring the limit of the plan
+   *
+   * @param adminId - ID of the admin
+   * @param userId - ID of the user
+   * @throws AdminError if the user is not found
+   * @throws GenerationQuotaError if the limit cannot be removed
+   *
+   * @example
+   * await adminService.clearGenerationQuota(adminId, userId);
+   */
+  async clearGenerationQuota(adminId: string, userId: string): Promise<void> {
+    await this.getUser(userId);
+
+    const quotaService = new GenerationQuotaService(this.supabase);
+    await quotaService.clearOverride(userId);
+
+    await this.recordAction(adminId, "generation_quota_cleared", userId);
+  }
+
+  /**
+   * Lists reviews with their moderation state, newest first
+   *
+   * @param params - Hidden-only filter and pagination
+   * @returns Promise containing a page of reviews
+   * @throws AdminError if the list cannot be fetched
+   *
+   * @example
+   * const reviews = await adminService.listReviews({ hidden_only: false, page: 1, limit: 20 });
+   */
+  async listReviews(params: AdminReviewsQuery): Promise<PaginatedResponseDTO<AdminReviewDTO>> {
+    const offset = (params.page - 1) * params.limit;
+
+    let query = this.supabase
+      .from("reviews")
+      .select(ADMIN_REVIEW_COLUMNS, { count: "exact" })
+      .order("created_at", { ascending: false });
+
+    if (params.hidden_only) {
+      query = query.not("hidden_at", "is", null);
+    }
+
+    const { data, count, error } = await query.range(offset, offset + params.limit - 1);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to list reviews:", error);
+      throw new AdminError("Nie udało się pobrać opinii", "REVIEWS_FETCH_FAILED", 500);
+    }
+
+    return this.paginate(data || [], count, params);
+  }
+
+  /**
+   * Hides a review
+   *
+   * Business rules:
+   * - A hidden review is only visible to its author and admins
+   * - Hidden reviews are left out of the artisan's rating
+   *
+   * @param adminId - ID of the admin
+   * @param reviewId - ID of the review
+   * @param reason - Reason shown in the audit log
+   * @throws AdminError if the review is not found or is already hidden
+   *
+   * @example
+   * await adminService.hideReview(adminId, reviewId, "Obraźliwe treści");
+   */
+  async hideReview(adminId: string, reviewId: string, reason: string): Promise<void> {
+    // Step 1: Check the review
+    const review = await this.getReview(reviewId);
+
+    if (review.hidden_at) {
+      throw new AdminError("Opinia jest już ukryta", "REVIEW_ALREADY_HIDDEN", 409);
+    }
+
+    // Step 2: Hide the review
+    const { error } = await this.supabase
+      .from("reviews")
+      .update({ hidden_at: new Date().toISOString(), hidden_reason: reason, hidden_by: adminId })
+      .eq("id", reviewId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to hide review:", error);
+      throw new AdminError("Nie udało się ukryć opinii", "MODERATION_FAILED", 500);
+    }
+
+    // Step 3: Record the action
+    await this.recordAction(adminId, "review_hidden", reviewId, reason);
+  }
+
+  /**
+   * Makes a hidden review public again
+   *
+   * @param adminId - ID of the admin
+   * @param reviewId - ID of the review
+   * @throws AdminError if the review is not found or is not hidden
+   *
+   * @example
+   * await adminService.restoreReview(adminId, reviewId);
+   */
+  async restoreReview(adminId: string, reviewId: string): Promise<void> {
+    // Step 1: Check the review
+    const review = await this.getReview(reviewId);
+
+    if (!review.hidden_at) {
+      throw new AdminError("Opinia nie jest ukryta", "REVIEW_NOT_HIDDEN", 409);
+    }
+
+    // Step 2: Restore the review
+    const { error } = await this.supabase
+      .from("reviews")
+      .update({ hidden_at: null, hidden_reason: null, hidden_by: null })
+      .eq("id", reviewId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to restore review:", error);
+      throw new AdminError("Nie udało się przywrócić opinii", "MODERATION_FAILED", 500);
+    }
+
+    // Step 3: Record the action
+    await this.recordAction(adminId, "review_restored", reviewId);
+  }
+
+  /**
+   * Unpublishes an artisan profile
+   *
+   * Business rules:
+   * - The profile becomes private and its owner cannot publish it again
+   *
+   * @param adminId - ID of the admin
+   * @param artisanId - ID of the artisan (user_id of the profile)
+   * @param reason - Reason shown in the audit log
+   * @throws AdminError if the profile is not found or is already unpublished
+   *
+   * @example
+   * await adminService.unpublishArtisanProfile(adminId, artisanId, "Fałszywe dane firmy");
+   */
+  async unpublishArtisanProfile(adminId: string, artisanId: string, reason: string): Promise<void> {
+    // Step 1: Check the profile
+    const { data: profile, error: profileError } = await this.supabase
+      .from("artisan_profiles")
+      .select("user_id, unpublished_at")
+      .eq("user_id", artisanId)
+      .maybeSingle();
+
+    if (profileError) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to fetch artisan profile:", profileError);
+      throw new AdminError("Nie udało się pobrać profilu rzemieślnika", "ARTISAN_FETCH_FAILED", 500);
+    }
+
+    if (!profile) {
+      throw new AdminError("Nie znaleziono profilu rzemieślnika", "ARTISAN_NOT_FOUND", 404);
+    }
+
+    if (profile.unpublished_at) {
+      throw new AdminError("Profil rzemieślnika jest już wycofany z publikacji", "ARTISAN_ALREADY_UNPUBLISHED", 409);
+    }
+
+    // Step 2: Unpublish the profile
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from("artisan_profiles")
+      .update({ is_public: false, unpublished_at: now, unpublish_reason: reason, updated_at: now })
+      .eq("user_id", artisanId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to unpublish artisan profile:", error);
+      throw new AdminError("Nie udało się wycofać profilu z publikacji", "MODERATION_FAILED", 500);
+    }
+
+    // Step 3: Record the action
+    await this.recordAction(adminId, "artisan_profile_unpublished", artisanId, reason);
+  }
+
+  /**
+   * Verifies the company of an artisan by looking its NIP up in the business registry
+   *
+   * Business rules:
+   * - A NIP found in the registry under the company name of the profile marks the profile as verified
+   *   and stores the registered company name and address; a NIP missing from it marks the profile as failed
+   * - A NIP registered under a different company name is left for manual review (needs_review); the moderator
+   *   compares the names and verifies the profile again with acceptNameMismatch
+   * - Verification can be repeated, e.g. after the artisan changed the NIP or company name (which resets it)
+   * - The result is recorded in the audit log
+   *
+   * @param adminId - ID of the admin
+   * @param artisanId - ID of the artisan (user_id of the profile)
+   * @param acceptNameMismatch - Verify the profile although the registered company name differs
+   * @returns Promise containing the verification result
+   * @throws AdminError if the profile is not found or the registry is unavailable
+   *
+   * @example
+   * const verification = await adminService.verifyArtisan(adminId, artisanId);
+   */
+  async verifyArtisan(adminId: string, artisanId: string, acceptNameMismatch = false): Promise<ArtisanVerificationDTO> {
+    // Step 1: Fetch the NIP and company name of the profile
+    const { data: profile, error: profileError } = await this.supabase
+      .from("artisan_profiles")
+      .select("user_id, nip, company_name")
+      .eq("user_id", artisanId)
+      .maybeSingle();
+
+    if (profileError) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to fetch artisan profile:", profileError);
+      throw new AdminError("Nie udało się pobrać profilu rzemieślnika", "ARTISAN_FETCH_FAILED", 500);
+    }
+
+    if (!profile) {
+      throw new AdminError("Nie znaleziono profilu rzemieślnika", "ARTISAN_NOT_FOUND", 404);
+    }
+
+    // Step 2: Look the company up in the registry
+    let entry: BusinessRegistryEntry | null;
+    try {
+      entry = await this.registry.lookupByNip(profile.nip);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Business registry lookup failed:", error);
+      throw new AdminError("Rejestr firm jest chwilowo niedostępny", "REGISTRY_UNAVAILABLE", 503);
+    }
+
+    // Step 3: Compare the registered company name with the profile
+    const namesMatch = entry ? companyNamesMatch(profile.company_name, entry.company_name) : false;
+    const isVerified = entry !== null && (namesMatch || acceptNameMismatch);
+
+    // Step 4: Store the result on the profile
+    const verification: ArtisanVerificationDTO = entry
+      ? {
+          verification_status: isVerified ? "verified" : "needs_review",
+          verified_company_name: entry.company_name,
+          verified_address: entry.address || null,
+          verified_at: isVerified ? new Date().toISOString() : null,
+        }
+      : { verification_status: "failed", verified_company_name: null, verified_address: null, verified_at: null };
+
+    const { error } = await this.supabase.from("artisan_profiles").update(verification).eq("user_id", artisanId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to store artisan verification:", error);
+      throw new AdminError("Nie udało się zapisać wyniku weryfikacji", "MODERATION_FAILED", 500);
+    }
+
+    // Step 5: Record the action
+    let note = `Nie znaleziono NIP ${profile.nip} w rejestrze`;
+    if (entry && namesMatch) {
+      note = `Zweryfikowano w rejestrze: ${entry.company_name}`;
+    } else if (entry && isVerified) {
+      note = `Zweryfikowano ręcznie mimo różnicy nazw: ${entry.company_name} (profil: ${profile.company_name})`;
+    } else if (entry) {
+      note = `Nazwa w rejestrze różni się od profilu: ${entry.company_name} (profil: ${profile.company_name})`;
+    }
+
+    await this.recordAction(adminId, "artisan_nip_checked", artisanId, note);
+
+    return verification;
+  }
+
+  /**
+   * Lists projects of all clients, newest first
+   *
+   * @param params - Status filter and pagination
+   * @returns Promise containing a page of projects
+   * @throws AdminError if the list cannot be fetched
+   *
+   * @example
+   * const projects = await adminService.listProjects({ status: "open", page: 1, limit: 20 });
+   */
+  async listProjects(params: AdminProjectsQuery): Promise<PaginatedResponseDTO<AdminProjectDTO>> {
+    const offset = (params.page - 1) * params.limit;
+
+    let query = this.supabase
+      .from("projects")
+      .select("id, client_id, status, created_at, updated_at, category:categories(id, name)", { count: "exact" })
+      .order("created_at", { ascending: false });
+
+    if (params.status) {
+      query = query.eq("status", params.status);
+    }
+
+    const { data, count, error } = await query.range(offset, offset + params.limit - 1);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to list projects:", error);
+      throw new AdminError("Nie udało się pobrać projektów", "PROJECTS_FETCH_FAILED", 500);
+    }
+
+    return this.paginate(data || [], count, params);
+  }
+
+  /**
+   * Closes a project
+   *
+   * Business rules:
+   * - Any project that is not closed yet can be closed, regardless of the owner's status transitions
+   * - The change appears in the project history attributed to a moderator
+   *
+   * @param adminId - ID of the admin
+   * @param projectId - ID of the project
+   * @param reason - Reason shown in the audit log
+   * @throws AdminError if the project is not found or is already closed
+   *
+   * @example
+   * await adminService.closeProject(adminId, projectId, "Spam");
+   */
+  async closeProject(adminId: string, projectId: string, reason: string): Promise<void> {
+    // Step 1: Check the project
+    const { data: project, error: projectError } = await this.supabase
+      .from("projects")
+      .select("id, status")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new AdminError("Nie znaleziono projektu", "PROJECT_NOT_FOUND", 404);
+    }
+
+    if (project.status === "closed") {
+      throw new AdminError("Projekt jest już zamknięty", "PROJECT_ALREADY_CLOSED", 409);
+    }
+
+    // Step 2: Close the project
+    const { error } = await this.supabase
+      .from("projects")
+      .update({ status: "closed", updated_at: new Date().toISOString() })
+      .eq("id", projectId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to close project:", error);
+      throw new AdminError("Nie udało się zamknąć projektu", "MODERATION_FAILED", 500);
+    }
+
+    // Step 3: Record the action
+    await this.recordAction(adminId, "project_closed", projectId, reason);
+  }
+
+  /**
+   * Lists the audit log of moderator actions, newest first
+   *
+   * @param params - Action and target filters and pagination
+   * @returns Promise containing a page of moderator actions
+   * @throws AdminError if the log cannot be fetched
+   *
+   * @example
+   * const log = await adminService.listAuditLog({ action: undefined, target_id: userId, page: 1, limit: 20 });
+   */
+  async listAuditLog(params: ModerationActionsQuery): Promise<PaginatedResponseDTO<ModerationActionDTO>> {
+    const offset = (params.page - 1) * params.limit;
+
+    let query = this.supabase
+      .from("moderation_actions")
+      .select("id, admin_id, action, target_id, reason, created_at", { count: "exact" })
+      .order("created_at", { ascending: false });
+
+    if (params.action) {
+      query = query.eq("action", params.action);
+    }
+
+    if (params.target_id) {
+      query = query.eq("target_id", params.target_id);
+    }
+
+    const { data, count, error } = await query.range(offset, offset + params.limit - 1);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to list moderation actions:", error);
+      throw new AdminError("Nie udało się pobrać dziennika moderacji", "AUDIT_FETCH_FAILED", 500);
+    }
+
+    return this.paginate(data || [], count, params);
+  }
+
+  /**
+   * Lists reports of the triage queue, oldest first
+   *
+   * @param params - Status and content type filters and pagination
+   * @returns Promise containing a page of reports
+   * @throws AdminError if the queue cannot be fetched
+   *
+   * @example
+   * const queue = await adminService.listReports({ status: "pending", target_type: undefined, page: 1, limit: 20 });
+   */
+  async listReports(params: ContentReportsQuery): Promise<PaginatedResponseDTO<ContentReportDTO>> {
+    const offset = (params.page - 1) * params.limit;
+
+    let query = this.supabase
+      .from("content_reports")
+      .select("*", { count: "exact" })
+      .eq("status", params.status)
+      .order("created_at", { ascending: true });
+
+    if (params.target_type) {
+      query = query.eq("target_type", params.target_type);
+    }
+
+    const { data, count, error } = await query.range(offset, offset + params.limit - 1);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to list reports:", error);
+      throw new AdminError("Nie udało się pobrać zgłoszeń", "REPORTS_FETCH_FAILED", 500);
+    }
+
+    return this.paginate(data || [], count, params);
+  }
+
+  /**
+   * Resolves every pending report of the reported content
+   *
+   * Business rules:
+   * - Upholding hides the content, or keeps it hidden, with the moderator's reason
+   * - Dismissing makes content hidden automatically after the reports visible again;
+   *   content hidden by a moderator stays hidden
+   *
+   * @param adminId - ID of the admin
+   * @param reportId - ID of one of the reports of the content
+   * @param command - Decision and reason shown in the audit log
+   * @throws AdminError if the report is not found or is already resolved
+   *
+   * @example
+   * await adminService.resolveReport(adminId, reportId, { decision: "upheld", reason: "Spam" });
+   */
+  async resolveReport(adminId: string, reportId: string, command: ResolveContentReportCommand): Promise<void> {
+    // Step 1: Check the report
+    const { data: report, error: reportError } = await this.supabase
+      .from("content_reports")
+      .select("id, target_type, target_id, status")
+      .eq("id", reportId)
+      .single();
+
+    if (reportError || !report) {
+      throw new AdminError("Nie znaleziono zgłoszenia", "REPORT_NOT_FOUND", 404);
+    }
+
+    if (report.status !== "pending") {
+      throw new AdminError("Zgłoszenie zostało już rozpatrzone", "REPORT_ALREADY_RESOLVED", 409);
+    }
+
+    // Step 2: Resolve all pending reports of the content
+    const { error } = await this.supabase
+      .from("content_reports")
+      .update({
+        status: command.decision,
+        resolved_at: new Date().toISOString(),
+        resolved_by: adminId,
+        resolution_note: command.reason,
+      })
+      .eq("target_type", report.target_type)
+      .eq("target_id", report.target_id)
+      .eq("status", "pending");
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to resolve reports:", error);
+      throw new AdminError("Nie udało się rozpatrzyć zgłoszeń", "MODERATION_FAILED", 500);
+    }
+
+    // Step 3: Hide or restore the content
+    await this.applyReportDecision(adminId, report.target_type, report.target_id, command.decision, command.reason);
+
+    // Step 4: Record the action
+    await this.recordAction(
+      adminId,
+      command.decision === "upheld" ? "report_upheld" : "report_dismissed",
+      report.target_id,
+      command.reason
+    );
+  }
+
+  /**
+   * Fetches the role and suspension state of a user
+   */
+  private async getUser(userId: string): Promise<{ role: UserRole; suspended_at: string | null }> {
+    const { data: user, error } = await this.supabase
+      .from("users")
+      .select("id, role, suspended_at")
+      .eq("id", userId)
+      .single();
+
+    if (error || !user) {
+      throw new AdminError("Nie znaleziono użytkownika", "USER_NOT_FOUND", 404);
+    }
+
+    return user;
+  }
+
+  /**
+   * Fetches the moderation state of a review
+   */
+  private async getReview(reviewId: string): Promise<{ hidden_at: string | null }> {
+    const { data: review, error } = await this.supabase
+      .from("reviews")
+      .select("id, hidden_at")
+      .eq("id", reviewId)
+      .single();
+
+    if (error || !review) {
+      throw new AdminError("Nie znaleziono opinii", "REVIEW_NOT_FOUND", 404);
+    }
+
+    return review;
+  }
+
+  /**
+   * Hides reported content when the reports are upheld, or restores content hidden
+   * automatically when they are dismissed
+   */
+  private async applyReportDecision(
+    adminId: string,
+    targetType: ReportTargetType,
+    targetId: string,
+    decision: Exclude<ReportStatus, "pending">,
+    reason: string
+  ): Promise<void> {
+    const { table } = REPORT_TARGETS[targetType];
+
+    const { error } =
+      decision === "upheld"
+        ? await this.supabase
+            .from(table)
+            .update({
+              hidden_at: new Date().toISOString(),
+              hidden_reason: reason,
+              ...(targetType === "review" && { hidden_by: adminId }),
+            })
+            .eq("id", targetId)
+        : await this.supabase
+            .from(table)
+            .update({ hidden_at: null, hidden_reason: null })
+            .eq("id", targetId)
+            .eq("hidden_reason", AUTO_HIDDEN_REASON);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to apply report decision:", error);
+      throw new AdminError("Nie udało się zmienić widoczności zgłoszonej treści", "MODERATION_FAILED", 500);
+    }
+  }
+
+  /**
+   * Records a moderator action in the audit log
+   */
+  private async recordAction(
+    adminId: string,
+    action: ModerationAction,
+    targetId: string,
+    reason?: string
+  ): Promise<void> {
+    const { error } = await this.supabase.from("moderation_actions").insert({
+      admin_id: adminId,
+      action,
+      target_id: targetId,
+      reason: reason ?? null,
+    });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[AdminService] Failed to record moderation action:", error);
+      throw new AdminError("Nie udało się zapisać akcji w dzienniku moderacji", "AUDIT_RECORD_FAILED", 500);
+    }
+  }
+
+  /**
+   * Wraps a page of rows with pagination metadata
+   */
+  private paginate<T>(
+    data: T[],
+    count: number | null,
+    params: { page: number; limit: number }
+  ): PaginatedResponseDTO<T> {
+    const total = count ?? 0;
+
+    return {
+      data,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        total_pages: Math.ceil(total / params.limit),
+      },
+    };
+  }
+}
@@ -3,16 +3,15 @@
  *
  * Service for generating furniture images using AI.
  * Orchestrates the image generation workflow by:
- * 1. Enhancing user prompts using OpenRouter LLM
- * 2. Generating images based on enhanced prompts
+ * 1. Enhancing user prompts using OpenRouter LLM (or only locally when no OpenRouter key is used)
+ * 2. Generating images based on enhanced prompts with the configured image provider
  * 3. Managing generation quotas and tracking
  */
 
 import { OpenRouterService } from "./openrouter.service";
 import { OpenRouterImageService } from "./openrouter-image.service";
-import { PromptEngineerService } from "./prompt-engineer.service";
-import { imagePromptSchema } from "@/lib/schemas";
-import { z } from "zod";
+import { createImageProvider, type ImageProvider } from "./image-provider.service";
+import { PromptEngineerService, type EnhancedPromptResult } from "./prompt-engineer.service";
 
 // ============================================================================
 // Types and Interfaces
@@ -23,18 +22,27 @@ import { z } from "zod";
  */
 export interface GenerateImageResult {
   imageUrl: string;
+  /** All generated candidates; imageUrl is the first of them */
+  imageUrls?: string[];
   success: boolean;
   error?: string;
   positivePrompt?: string;
   negativePrompt?: string;
+  /** Construction notes, materials and style extracted from the description by the prompt engineer */
+  technicalNotes?: string;
+  materials?: string[];
+  style?: string;
+  /** Model that generated the image(s) and the time it took in milliseconds */
+  modelUsed?: string;
+  generationTime?: number;
 }
 
 /**
  * Furniture image generation service
  */
 export class AIImageService {
-  private readonly openrouterService: OpenRouterService;
-  private readonly openrouterImageService: OpenRouterImageService;
+  private readonly openrouterService: OpenRouterService | null;
+  private readonly imageProvider: ImageProvider;
   private readonly promptEngineer: PromptEngineerService;
   private readonly config: AIImageServiceConfig;
 
@@ -50,17 +58,19 @@ export class AIImageService {
   /**
    * Initialize AIImageService
    *
-   * @param openrouterApiKey API key for OpenRouter service
+   * @param openrouterApiKey API key for OpenRouter service; may be empty when an image provider is given,
+   * prompts are then enhanced only locally
    * @param config Optional configuration overrides
-   * @throws {Error} If openrouterApiKey is not provided
+   * @param imageProvider Optional image provider (default: OpenRouter with openrouterApiKey)
+   * @throws {Error} If neither openrouterApiKey nor imageProvider is provided
    */
-  constructor(openrouterApiKey: string, config?: Partial<AIImageServiceConfig>) {
-    if (!openrouterApiKey) {
+  constructor(openrouterApiKey: string, config?: Partial<AIImageServiceConfig>, imageProvider?: ImageProvider) {
+    if (!openrouterApiKey && !imageProvider) {
       throw new Error("OpenRouter API key is required for AIImageService");
     }
 
-    this.openrouterService = new OpenRouterService({ apiKey: openrouterApiKey });
-    this.openrouterImageService = new OpenRouterImageService({ apiKey: openrouterApiKey });
+    this.openrouterService = openrouterApiKey ? new OpenRouterService({ apiKey: openrouterApiKey }) : null;
+    this.imageProvider = imageProvider ?? new OpenRouterImageService({ apiKey: openrouterApiKey });
     this.promptEngineer = new PromptEngineerService({
       includePhotographyStyle: true,
       includeTechnicalDetails: true,
@@ -80,14 +90,15 @@ export class AIImageService {
    * Workflow:
    * 1. Validates user input
    * 2. Enhances prompt using OpenRouter LLM
-   * 3. Generates image based on enhanced prompt
+   * 3. Generates image based on enhanced prompt (or several candidates from the same prompt)
    * 4. Returns image URL or error
    *
    * @param userDescription - User's description of the furniture
+   * @param candidateCount - Number of candidate images to generate (default: 1)
    * @returns Promise with generated image URL and metadata
    * @throws {Error} If API requests fail or input is invalid
    */
-  async generateFurnitureImage(userDescription: string): Promise<GenerateImageResult> {
+  async generateFurnitureImage(userDescription: string, candidateCount = 1): Promise<GenerateImageResult> {
     try {
       // Validate input
       this.validateUserInput(userDescription);
@@ -95,8 +106,12 @@ export class AIImageService {
       // Generate enhanced prompt using OpenRouter
       const enhancedPrompt = await this.generateEnhancedPrompt(userDescription);
 
-      // Generate actual image using OpenRouter Image Generation API
-      const generationResult = await this.openrouterImageService.generateImage(
+      if (candidateCount > 1) {
+        return await this.generateCandidates(enhancedPrompt, candidateCount);
+      }
+
+      // Generate actual image using the configured image provider
+      const generationResult = await this.imageProvider.generateImage(
         enhancedPrompt.positivePrompt,
         enhancedPrompt.negativePrompt
       );
@@ -114,8 +129,7 @@ export class AIImageService {
       return {
         imageUrl: generationResult.imageUrl,
         success: true,
-        positivePrompt: enhancedPrompt.positivePrompt,
-        negativePrompt: enhancedPrompt.negativePrompt,
+        ...this.toGenerationMetadata(enhancedPrompt, generationResult),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Nieznany błąd podczas generowania obrazu";
@@ -128,6 +142,69 @@ export class AIImageService {
     }
   }
 
+  /**
+   * Refine an existing furniture image with a described change
+   *
+   * Workflow:
+   * 1. Validates the requested change
+   * 2. Builds a description of the design from its history (original description and earlier changes)
+   * 3. Enhances the prompt using OpenRouter LLM
+   * 4. Generates the image starting from the parent image, so the design stays recognizable
+   *
+   * @param designHistory - Prompts of the design from the original description up to the parent image
+   * @param change - Requested change, e.g. "te same, ale z orzechowymi nogami"
+   * @param parentImageUrl - URL of the image being refined
+   * @returns Promise with generated image URL and metadata
+   */
+  async refineFurnitureImage(
+    designHistory: string[],
+    change: string,
+    parentImageUrl: string
+  ): Promise<GenerateImageResult> {
+    try {
+      this.validateRefinementInput(change);
+
+      const [originalDescription, ...earlierChanges] = designHistory;
+      const designDescription = [
+        originalDescription ?? "",
+        "Wprowadzone zmiany:",
+        ...[...earlierChanges, change].map((item) => `- ${item}`),
+      ].join("\n");
+
+      const enhancedPrompt = await this.generateEnhancedPrompt(designDescription);
+
+      const generationResult = await this.imageProvider.generateImage(
+        `Keep the furniture from the reference image and apply only this change: ${change}\n${enhancedPrompt.positivePrompt}`,
+        enhancedPrompt.negativePrompt,
+        parentImageUrl
+      );
+
+      if (!generationResult.success) {
+        return {
+          imageUrl: "",
+          success: false,
+          error: generationResult.error || "Nie udało się dopracować obrazu",
+          positivePrompt: enhancedPrompt.positivePrompt,
+          negativePrompt: enhancedPrompt.negativePrompt,
+        };
+      }
+
+      return {
+        imageUrl: generationResult.imageUrl,
+        success: true,
+        ...this.toGenerationMetadata(enhancedPrompt, generationResult),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Nieznany błąd podczas dopracowywania obrazu";
+
+      return {
+        imageUrl: "",
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
   /**
    * Get the maximum number of free generations allowed per client
    *
@@ -141,6 +218,63 @@ export class AIImageService {
   // Private Methods
   // ============================================================================
 
+  /**
+   * Generate several candidate images from one enhanced prompt
+   *
+   * @param enhancedPrompt Enhanced positive and negative prompts
+   * @param candidateCount Number of candidates to generate
+   * @returns Generation result listing all candidates that succeeded
+   */
+  private async generateCandidates(
+    enhancedPrompt: EnhancedPromptResult,
+    candidateCount: number
+  ): Promise<GenerateImageResult> {
+    const candidatesResult = await this.imageProvider.generateImageCandidates(
+      enhancedPrompt.positivePrompt,
+      enhancedPrompt.negativePrompt,
+      candidateCount
+    );
+
+    if (!candidatesResult.success) {
+      return {
+        imageUrl: "",
+        success: false,
+        error: candidatesResult.error || "Nie udało się wygenerować obrazu",
+        positivePrompt: enhancedPrompt.positivePrompt,
+        negativePrompt: enhancedPrompt.negativePrompt,
+      };
+    }
+
+    return {
+      imageUrl: candidatesResult.imageUrls[0],
+      imageUrls: candidatesResult.imageUrls,
+      success: true,
+      ...this.toGenerationMetadata(enhancedPrompt, candidatesResult),
+    };
+  }
+
+  /**
+   * Collect the metadata of a successful generation: enhanced prompts, prompt engineer's
+   * notes, model and generation time
+   *
+   * @param enhancedPrompt Enhanced prompts with the prompt engineer's metadata
+   * @param generation Model and generation time reported by the image provider
+   */
+  private toGenerationMetadata(
+    enhancedPrompt: EnhancedPromptResult,
+    generation: { modelUsed: string; generationTime: number }
+  ): Omit<GenerateImageResult, "imageUrl" | "imageUrls" | "success" | "error"> {
+    return {
+      positivePrompt: enhancedPrompt.positivePrompt,
+      negativePrompt: enhancedPrompt.negativePrompt,
+      technicalNotes: enhancedPrompt.technicalNotes,
+      materials: enhancedPrompt.materials,
+      style: enhancedPrompt.style,
+      modelUsed: generation.modelUsed,
+      generationTime: generation.generationTime,
+    };
+  }
+
   /**
    * Validate user input before processing
    *
@@ -165,23 +299,46 @@ export class AIImageService {
     }
   }
 
+  /**
+   * Validate a requested change before refining an image
+   *
+   * @param change Requested change of the design
+   * @throws {Error} If input is invalid
+   */
+  private validateRefinementInput(change: string): void {
+    if (typeof change !== "string" || change.trim().length === 0) {
+      throw new Error("Opis zmian nie może być pusty");
+    }
+
+    if (change.length > 300) {
+      throw new Error("Opis zmian nie może być dłuższy niż 300 znaków");
+    }
+  }
+
   /**
    * Generate enhanced prompt using PromptEngineerService and OpenRouter
    *
    * Process:
    * 1. Use PromptEngineerService to locally enhance the user description
-   * 2. Send the enhanced description to OpenRouter for AI refinement
-   * 3. Return the final prompt pair for image generation
+   * 2. Send the enhanced description to OpenRouter for AI refinement (skipped without OpenRouter key)
+   * 3. Return the final prompt pair for image generation with the local technical notes, materials and style
    *
    * @param userDescription User's furniture description
-   * @returns Enhanced positive and negative prompts
+   * @returns Enhanced positive and negative prompts with the prompt engineer's metadata
    * @throws {Error} If OpenRouter API request fails
    */
-  private async generateEnhancedPrompt(userDescription: string): Promise<z.infer<typeof imagePromptSchema>> {
+  private async generateEnhancedPrompt(userDescription: string): Promise<EnhancedPromptResult> {
     try {
       // Step 1: Local enhancement using PromptEngineerService
       const localEnhancement = this.promptEngineer.enhancePrompt(userDescription);
 
+      if (!this.openrouterService) {
+        return {
+          ...localEnhancement,
+          positivePrompt: `${localEnhancement.positivePrompt}\n${localEnhancement.technicalNotes}`,
+        };
+      }
+
       // Step 2: Use OpenRouter to further refine the prompt
       // Send the locally enhanced prompt for AI refinement
       const openrouterRefined = await this.openrouterService.generateImagePrompt(
@@ -191,6 +348,7 @@ export class AIImageService {
       // Step 3: Combine both enhancements
       // Use OpenRouter's response as primary, with our technical guidance
       return {
+        ...localEnhancement,
         positivePrompt: `${openrouterRefined.positivePrompt}\n${localEnhancement.technicalNotes}`,
         negativePrompt: openrouterRefined.negativePrompt,
       };
@@ -212,6 +370,21 @@ interface AIImageServiceConfig {
 
 const DEFAULT_MAX_FREE_GENERATIONS = 10;
 
+/**
+ * Creates AIImageService with the image provider configured by IMAGE_PROVIDER
+ *
+ * Prompts are refined by OpenRouter when PUBLIC_OPENROUTER_API_KEY is set. The mock provider
+ * runs fully offline, so with it prompts are only enhanced locally.
+ *
+ * @throws Error if the image provider is unknown or its configuration is missing
+ */
+export function createAIImageService(env: Partial<ImportMetaEnv> = import.meta.env): AIImageService {
+  const imageProvider = createImageProvider(env);
+  const promptApiKey = imageProvider.name === "mock" ? "" : env.PUBLIC_OPENROUTER_API_KEY;
+
+  return new AIImageService(promptApiKey ?? "", undefined, imageProvider);
+}
+
 // ============================================================================
 // Legacy Function Exports (for backward compatibility)
 // ============================================================================
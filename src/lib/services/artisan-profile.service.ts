@@ -69,7 +69,11 @@ export class ArtisanProfileService {
         company_name,
         nip,
         is_public,
-        updated_at
+        updated_at,
+        verification_status,
+        verified_company_name,
+        verified_address,
+        verified_at
       `
       )
       .eq("user_id", userId)
@@ -144,6 +148,10 @@ export class ArtisanProfileService {
       average_rating: averageRating ? Number(averageRating.toFixed(2)) : null,
       total_reviews: totalReviews,
       updated_at: profile.updated_at,
+      verification_status: profile.verification_status,
+      verified_company_name: profile.verified_company_name,
+      verified_address: profile.verified_address,
+      verified_at: profile.verified_at,
     };
   }
 
@@ -154,6 +162,7 @@ export class ArtisanProfileService {
    * - NIP must be unique across all artisan profiles
    * - Only artisans can create/update their own profile
    * - Profile is created with is_public = false by default
+   * - Changing the NIP resets the verification (protect_artisan_verification trigger)
    *
    * @param dto - Artisan profile data
    * @param userId - ID of the artisan user
@@ -162,7 +171,7 @@ export class ArtisanProfileService {
    *
    * @example
    * const profile = await artisanProfileService.upsertArtisanProfile(
-   *   { company_name: "Master Woodworks", nip: "1234567890" },
+   *   { company_name: "Master Woodworks", nip: "1234563218" },
    *   "user-uuid"
    * );
    */
@@ -204,7 +213,11 @@ export class ArtisanProfileService {
         company_name,
         nip,
         is_public,
-        updated_at
+        updated_at,
+        verification_status,
+        verified_company_name,
+        verified_address,
+        verified_at
       `
       )
       .single();
@@ -233,6 +246,10 @@ export class ArtisanProfileService {
       average_rating: null,
       total_reviews: 0,
       updated_at: profile.updated_at,
+      verification_status: profile.verification_status,
+      verified_company_name: profile.verified_company_name,
+      verified_address: profile.verified_address,
+      verified_at: profile.verified_at,
     };
   }
 
@@ -0,0 +1,224 @@
+/**
+ * Business Registry Service
+ *
+ * Lookup of companies by NIP, used to verify artisans. The registry is pluggable and selected
+ * by BUSINESS_REGISTRY_PROVIDER:
+ * - "mf" (default) - the VAT taxpayer white list of the Ministry of Finance (public API, no key)
+ * - "stub" - offline lookup with fixed entries (development and tests)
+ */
+
+/**
+ * Custom error class for business registry errors
+ */
+export class BusinessRegistryError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 503
+  ) {
+    super(message);
+    this.name = "BusinessRegistryError";
+  }
+}
+
+/**
+ * Company registered under a NIP
+ */
+export interface BusinessRegistryEntry {
+  company_name: string;
+  address: string;
+}
+
+/**
+ * Business registry backend
+ */
+export interface BusinessRegistryProvider {
+  /** Name under which the provider is selected */
+  readonly name: string;
+
+  /**
+   * Looks a company up by NIP
+   *
+   * @param nip - NIP without separators
+   * @returns The registered company, or null if the NIP is not in the registry
+   * @throws BusinessRegistryError if the registry cannot be reached or returns an error
+   */
+  lookupByNip(nip: string): Promise<BusinessRegistryEntry | null>;
+}
+
+const MF_REGISTRY_CONFIG = {
+  BASE_URL: "https://wl-api.mf.gov.pl",
+  TIMEOUT_MS: 10000,
+} as const;
+
+/**
+ * Subject of the white list API response (only the fields used here)
+ */
+interface MfWhiteListResponse {
+  result?: {
+    subject: {
+      name: string;
+      workingAddress: string | null;
+      residenceAddress: string | null;
+    } | null;
+  };
+  message?: string;
+}
+
+/**
+ * Looks companies up in the VAT taxpayer white list of the Ministry of Finance (production)
+ *
+ * The white list covers active and exempt VAT taxpayers; a company missing from it is reported as not found.
+ */
+export class MfWhiteListRegistryProvider implements BusinessRegistryProvider {
+  readonly name = "mf";
+
+  constructor(private baseUrl: string = MF_REGISTRY_CONFIG.BASE_URL) {}
+
+  async lookupByNip(nip: string): Promise<BusinessRegistryEntry | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), MF_REGISTRY_CONFIG.TIMEOUT_MS);
+    // The API returns the state of the registry on the given day
+    const date = new Date().toISOString().slice(0, 10);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/search/nip/${nip}?date=${date}`, {
+        headers: { Accept: "application/json" },
+        signal: controller.signal,
+      });
+
+      const data = (await response.json().catch(() => ({}))) as MfWhiteListResponse;
+
+      if (!response.ok) {
+        throw new BusinessRegistryError(
+          `Business registry error: ${data.message || `HTTP ${response.status} error`}`,
+          "REGISTRY_ERROR"
+        );
+      }
+
+      const subject = data.result?.subject;
+      if (!subject) {
+        return null;
+      }
+
+      return {
+        company_name: subject.name,
+        address: subject.workingAddress || subject.residenceAddress || "",
+      };
+    } catch (error) {
+      if (error instanceof BusinessRegistryError) {
+        throw error;
+      }
+
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new BusinessRegistryError("Business registry request timed out", "REGISTRY_UNAVAILABLE");
+      }
+
+      throw new BusinessRegistryError(
+        `Business registry request failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "REGISTRY_UNAVAILABLE"
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Offline registry (development and tests)
+ *
+ * With entries it finds only the given NIPs; without them every NIP is registered to a test company.
+ */
+export class StubBusinessRegistryProvider implements BusinessRegistryProvider {
+  readonly name = "stub";
+
+  constructor(private entries?: Record<string, BusinessRegistryEntry>) {}
+
+  async lookupByNip(nip: string): Promise<BusinessRegistryEntry | null> {
+    if (this.entries) {
+      return this.entries[nip] ?? null;
+    }
+
+    return {
+      company_name: `Firma testowa NIP ${nip}`,
+      address: "ul. Testowa 1, 00-001 Warszawa",
+    };
+  }
+}
+
+/**
+ * Words of Polish legal forms ("sp. z o.o.", "S.A.", "sp.j.", "spółka komandytowa" etc.), ignored when comparing names
+ */
+const LEGAL_FORM_WORDS = new Set([
+  "sp",
+  "spolka",
+  "z",
+  "o",
+  "oo",
+  "zoo",
+  "s",
+  "a",
+  "sa",
+  "j",
+  "k",
+  "p",
+  "spj",
+  "spk",
+  "ska",
+  "spp",
+  "jawna",
+  "komandytowa",
+  "komandytowo",
+  "akcyjna",
+  "cywilna",
+  "partnerska",
+  "ograniczona",
+  "ograniczonej",
+  "odpowiedzialnoscia",
+  "odpowiedzialnosci",
+]);
+
+/**
+ * Splits a company name into lowercase words without diacritics, punctuation and legal form
+ */
+function getCompanyNameWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/ł/g, "l")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !LEGAL_FORM_WORDS.has(word));
+}
+
+/**
+ * Checks that the company name of a profile matches the name registered under its NIP
+ *
+ * Case, diacritics, punctuation and the legal form are ignored. Every word of the profile name has to
+ * appear in the registered name, which for sole traders usually also holds the name of the owner
+ * ("Stolarnia Kowalski" matches "JAN KOWALSKI STOLARNIA KOWALSKI").
+ *
+ * @param profileName - Company name entered by the artisan
+ * @param registryName - Company name from the registry
+ * @returns True if the names match
+ */
+export function companyNamesMatch(profileName: string, registryName: string): boolean {
+  const profileWords = getCompanyNameWords(profileName);
+  const registryWords = new Set(getCompanyNameWords(registryName));
+
+  return profileWords.length > 0 && profileWords.every((word) => registryWords.has(word));
+}
+
+/**
+ * Creates the registry configured by BUSINESS_REGISTRY_PROVIDER ("mf" | "stub", default: "mf")
+ */
+export function createBusinessRegistryProvider(
+  env: Partial<ImportMetaEnv> = import.meta.env
+): BusinessRegistryProvider {
+  switch (env.BUSINESS_REGISTRY_PROVIDER) {
+    case "stub":
+      return new StubBusinessRegistryProvider();
+    default:
+      return new MfWhiteListRegistryProvider(env.BUSINESS_REGISTRY_API_URL || undefined);
+  }
+}
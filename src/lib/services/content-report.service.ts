@@ -0,0 +1,144 @@
+/**
+ * Content Report Service
+ *
+ * Service responsible for users reporting suspicious projects, spam proposals, abusive reviews
+ * and offensive images. Content reported by enough different users is hidden automatically by the
+ * hide_reported_content() trigger; moderators resolve the reports in the triage queue (AdminService).
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { CreateContentReportCommand, ReportTargetType, SubmittedReportDTO } from "../../types";
+
+/**
+ * Custom error class for report-related business logic errors
+ */
+export class ContentReportError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "ContentReportError";
+  }
+}
+
+/**
+ * Reason set by hide_reported_content() on content hidden after reports; dismissing the reports
+ * restores only content hidden this way
+ */
+export const AUTO_HIDDEN_REASON = "Ukryto automatycznie po zgłoszeniach użytkowników";
+
+/**
+ * Table holding each type of reportable content
+ */
+export const REPORT_TARGETS = {
+  project: { table: "projects" },
+  proposal: { table: "proposals" },
+  review: { table: "reviews" },
+  generated_image: { table: "generated_images" },
+} as const satisfies Record<ReportTargetType, { table: string }>;
+
+const SUBMITTED_REPORT_COLUMNS = "id, target_type, target_id, reason, details, status, created_at" as const;
+
+/**
+ * Service for reporting content
+ */
+export class ContentReportService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Reports a project, proposal, review or generated image
+   *
+   * Business rules:
+   * - Users can only report content they can see, and not their own
+   * - A user can report a piece of content once
+   * - Content is hidden automatically once 3 different users have pending reports on it
+   *
+   * @param reporterId - ID of the user submitting the report
+   * @param command - Reported content, reason and optional details
+   * @returns Promise containing the submitted report
+   * @throws ContentReportError if the content is not found, belongs to the reporter or was already reported
+   *
+   * @example
+   * const report = await reportService.createReport(userId, {
+   *   target_type: "proposal",
+   *   target_id: proposalId,
+   *   reason: "spam",
+   * });
+   */
+  async createReport(reporterId: string, command: CreateContentReportCommand): Promise<SubmittedReportDTO> {
+    // Step 1: Check that the reporter can see the content and is not its author
+    const ownerId = await this.getTargetOwner(command.target_type, command.target_id);
+
+    if (ownerId === reporterId) {
+      throw new ContentReportError("Nie możesz zgłosić własnej treści", "CANNOT_REPORT_OWN_CONTENT", 400);
+    }
+
+    // Step 2: Save the report (the insert policy repeats the step 1 checks); the trigger hides the content
+    // once the threshold is reached
+    const { data: report, error } = await this.supabase
+      .from("content_reports")
+      .insert({
+        reporter_id: reporterId,
+        target_type: command.target_type,
+        target_id: command.target_id,
+        reason: command.reason,
+        details: command.details ?? null,
+      })
+      .select(SUBMITTED_REPORT_COLUMNS)
+      .single();
+
+    if (error || !report) {
+      if (error?.code === "23505") {
+        throw new ContentReportError("Ta treść została już przez Ciebie zgłoszona", "ALREADY_REPORTED", 409);
+      }
+
+      // The insert policy rejects content the reporter cannot see or owns (e.g. changed since step 1)
+      if (error?.code === "42501") {
+        throw new ContentReportError("Nie znaleziono zgłaszanej treści", "TARGET_NOT_FOUND", 404);
+      }
+
+      // eslint-disable-next-line no-console
+      console.error("[ContentReportService] Failed to create report:", error);
+      throw new ContentReportError("Nie udało się wysłać zgłoszenia", "REPORT_CREATE_FAILED", 500);
+    }
+
+    return report;
+  }
+
+  /**
+   * Fetches the author of the reported content
+   */
+  private async getTargetOwner(targetType: ReportTargetType, targetId: string): Promise<string> {
+    const { data, error } = await this.fetchTargetOwner(targetType, targetId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[ContentReportService] Failed to fetch reported content:", error);
+      throw new ContentReportError("Nie udało się pobrać zgłaszanej treści", "TARGET_FETCH_FAILED", 500);
+    }
+
+    if (!data) {
+      throw new ContentReportError("Nie znaleziono zgłaszanej treści", "TARGET_NOT_FOUND", 404);
+    }
+
+    return data.owner_id;
+  }
+
+  /**
+   * Selects the author column of each type of reportable content as owner_id
+   */
+  private fetchTargetOwner(targetType: ReportTargetType, targetId: string) {
+    switch (targetType) {
+      case "project":
+        return this.supabase.from("projects").select("id, owner_id:client_id").eq("id", targetId).maybeSingle();
+      case "proposal":
+        return this.supabase.from("proposals").select("id, owner_id:artisan_id").eq("id", targetId).maybeSingle();
+      case "review":
+        return this.supabase.from("reviews").select("id, owner_id:reviewer_id").eq("id", targetId).maybeSingle();
+      case "generated_image":
+        return this.supabase.from("generated_images").select("id, owner_id:user_id").eq("id", targetId).maybeSingle();
+    }
+  }
+}
@@ -9,10 +9,91 @@ import type { SupabaseClient } from "../../db/supabase.client";
 import type {
   GeneratedImagesListResponseDTO,
   GeneratedImageDTO,
+  GeneratedImageVersionsResponseDTO,
   GeneratedImagesQueryParams,
   PaginationMetaDTO,
 } from "../../types";
-import { getMaxFreeGenerations } from "./ai-image.service";
+import type { Tables } from "../../db/database.types";
+import { GenerationQuotaService } from "./generation-quota.service";
+import { deleteStorageImage, getStorageFileName } from "./supabase-storage.service";
+
+/**
+ * Maximum number of images in one design (the original image and all its refinements)
+ *
+ * Deleted refinements still count; the database enforces the limit with the refinement counter
+ * of the root image (count_image_refinement).
+ */
+export const MAX_VERSIONS_PER_DESIGN = 10;
+
+/**
+ * Maximum number of candidate images a user can have waiting for a decision
+ */
+export const MAX_PENDING_CANDIDATES = 8;
+
+/**
+ * Hours after which candidates the user did not keep or discard expire
+ */
+export const CANDIDATE_EXPIRY_HOURS = 24;
+
+/**
+ * Returns the creation time before which candidates are expired
+ *
+ * @param now - Current time (default: now)
+ */
+function getCandidateExpiryCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - CANDIDATE_EXPIRY_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Custom error class for generated image operations
+ */
+export class GeneratedImageError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = "GeneratedImageError";
+  }
+}
+
+/**
+ * Maps a generated_images row to GeneratedImageDTO
+ *
+ * @param image - generated_images row
+ * @param isUsed - Whether the image is used in a project (default: the is_used column)
+ */
+export function toGeneratedImageDTO(image: Tables<"generated_images">, isUsed = image.is_used): GeneratedImageDTO {
+  return {
+    id: image.id,
+    user_id: image.user_id,
+    prompt: image.prompt,
+    image_url: image.image_url,
+    created_at: image.created_at,
+    is_used: isUsed,
+    parent_image_id: image.parent_image_id,
+    root_image_id: image.root_image_id,
+    positive_prompt: image.positive_prompt,
+    negative_prompt: image.negative_prompt,
+    technical_notes: image.technical_notes,
+    materials: image.materials ?? [],
+    style: image.style,
+    model: image.model,
+    generation_time_ms: image.generation_time_ms,
+  };
+}
+
+/**
+ * Image being refined together with the history of its design
+ */
+export interface RefinementBase {
+  parent: GeneratedImageDTO;
+  rootImageId: string;
+  /** Prompts from the original description up to the parent image */
+  designHistory: string[];
+  versionCount: number;
+}
 
 /**
  * Service for managing generated images
@@ -21,15 +102,17 @@ import { getMaxFreeGenerations } from "./ai-image.service";
  * Handles pagination, quota tracking, and usage status tracking.
  */
 export class GeneratedImagesService {
-  constructor(private supabase: SupabaseClient) {}
+  constructor(
+    private supabase: SupabaseClient,
+    private quotaService: GenerationQuotaService = new GenerationQuotaService(supabase)
+  ) {}
 
   /**
    * Retrieves paginated list of user's generated images with optional filtering
    *
    * Fetches all AI-generated furniture images created by a specific user,
    * with support for pagination and filtering by usage status.
-   * Calculates remaining generation quota based on max free generations
-   * configured in the system.
+   * Includes the monthly generation quota of the user (GenerationQuotaService).
    *
    * Note: This method expects already validated parameters from GeneratedImagesQuerySchema.
    * The page and limit are guaranteed to be positive numbers with limit <= 100.
@@ -44,8 +127,10 @@ export class GeneratedImagesService {
    *   - data: Array of GeneratedImageDTO objects
    *   - pagination: Metadata for pagination (page, limit, total, total_pages)
    *   - remaining_generations: Number of generations remaining for user
+   *   - quota: Monthly generation quota with its limit and reset date
    *
    * @throws Error if database query fails
+   * @throws GenerationQuotaError if the quota cannot be read
    *
    * @example
    * const params = { page: 1, limit: 20, unused_only: false };
@@ -53,7 +138,8 @@ export class GeneratedImagesService {
    * // Returns: {
    * //   data: [...],
    * //   pagination: { page: 1, limit: 20, total: 45, total_pages: 3 },
-   * //   remaining_generations: 5
+   * //   remaining_generations: 5,
+   * //   quota: { plan: "free", limit: 10, used: 5, remaining: 5, resets_at: "2025-12-01T00:00:00.000Z", ... }
    * // }
    */
   async listUserGeneratedImages(
@@ -72,7 +158,8 @@ export class GeneratedImagesService {
     const countQuery = this.supabase
       .from("generated_images")
       .select("*", { count: "exact", head: true })
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .eq("is_candidate", false);
 
     // Apply unused_only filter if requested
     if (params.unused_only) {
@@ -95,6 +182,7 @@ export class GeneratedImagesService {
       .from("generated_images")
       .select("*")
       .eq("user_id", userId)
+      .eq("is_candidate", false)
       .order("created_at", { ascending: false });
 
     // Apply unused_only filter if requested
@@ -116,28 +204,13 @@ export class GeneratedImagesService {
     // STEP 3: Map to DTO with is_used flag from database
     // ========================================================================
 
-    const imageDTOs: GeneratedImageDTO[] = (images || []).map((img) => ({
-      id: img.id,
-      user_id: img.user_id,
-      prompt: img.prompt,
-      image_url: img.image_url,
-      created_at: img.created_at,
-      is_used: img.is_used, // Now using real value from database
-    }));
+    const imageDTOs: GeneratedImageDTO[] = (images || []).map((img) => toGeneratedImageDTO(img));
 
     // ========================================================================
-    // STEP 4: Calculate remaining generation quota
+    // STEP 4: Get the monthly generation quota
     // ========================================================================
-    // Note: Quota is based on total images, not filtered count
-    const totalImagesQuery = this.supabase
-      .from("generated_images")
-      .select("*", { count: "exact", head: true })
-      .eq("user_id", userId);
-
-    const { count: totalImages } = await totalImagesQuery;
-
-    const maxGenerations = getMaxFreeGenerations();
-    const remainingGenerations = Math.max(0, maxGenerations - (totalImages ?? 0));
+    // Note: Quota is based on the generation ledger, not on the listed images
+    const quota = await this.quotaService.getQuota(userId);
 
     // ========================================================================
     // STEP 5: Build pagination metadata
@@ -157,7 +230,288 @@ export class GeneratedImagesService {
     return {
       data: imageDTOs,
       pagination: paginationMeta,
+      remaining_generations: quota.remaining,
+      quota,
+    };
+  }
+
+  /**
+   * Retrieves all versions of the design an image belongs to
+   *
+   * Business rules:
+   * - Only the owner of the image can see its versions
+   * - A design consists of the original image and all images refined from it
+   * - Pending candidates are not part of any design until they are kept
+   * - The version count includes deleted refinements, counted on the root image
+   *
+   * @param userId - ID of the image owner
+   * @param imageId - ID of any image of the design
+   * @returns Promise containing the versions ordered from the oldest
+   * @throws GeneratedImageError if the image does not exist or the query fails
+   *
+   * @example
+   * const { root_image_id, versions } = await service.getImageVersions(userId, imageId);
+   */
+  async getImageVersions(userId: string, imageId: string): Promise<GeneratedImageVersionsResponseDTO> {
+    // Step 1: Find the image and the root of its design
+    const { data: image, error: imageError } = await this.supabase
+      .from("generated_images")
+      .select("id, root_image_id")
+      .eq("id", imageId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (imageError) {
+      // eslint-disable-next-line no-console
+      console.error("[GeneratedImagesService] Error fetching image:", imageError);
+      throw new GeneratedImageError("Nie udało się pobrać obrazu", "DATABASE_ERROR", 500);
+    }
+
+    if (!image) {
+      throw new GeneratedImageError("Nie znaleziono obrazu", "NOT_FOUND", 404);
+    }
+
+    const rootImageId = image.root_image_id ?? image.id;
+
+    // Step 2: Fetch the whole design tree in one query
+    const { data: versions, error: versionsError } = await this.supabase
+      .from("generated_images")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("is_candidate", false)
+      .or(`id.eq.${rootImageId},root_image_id.eq.${rootImageId}`)
+      .order("created_at", { ascending: true });
+
+    if (versionsError) {
+      // eslint-disable-next-line no-console
+      console.error("[GeneratedImagesService] Error fetching image versions:", versionsError);
+      throw new GeneratedImageError("Nie udało się pobrać wersji obrazu", "DATABASE_ERROR", 500);
+    }
+
+    // Step 3: Count the versions made so far, including deleted ones
+    const root = (versions || []).find((version) => version.id === rootImageId);
+
+    return {
+      root_image_id: rootImageId,
+      versions: (versions || []).map((version) => toGeneratedImageDTO(version)),
+      version_count: root ? root.refinements_count + 1 : (versions || []).length,
+      max_versions: MAX_VERSIONS_PER_DESIGN,
+    };
+  }
+
+  /**
+   * Prepares the refinement of an image
+   *
+   * Business rules:
+   * - Only the owner of the image can refine it
+   * - Pending candidates cannot be refined until they are kept
+   * - A design can have at most MAX_VERSIONS_PER_DESIGN images, deleted refinements included
+   * - The design history lists the original description followed by the changes leading to the parent
+   *
+   * @param userId - ID of the image owner
+   * @param parentImageId - ID of the image being refined
+   * @returns Promise containing the parent image, the root of the design and its history
+   * @throws GeneratedImageError if the image does not exist or the design has no versions left
+   *
+   * @example
+   * const base = await service.getRefinementBase(userId, parentImageId);
+   * // base.designHistory: ["Dębowy stół z metalowymi nogami", "orzechowe nogi"]
+   */
+  async getRefinementBase(userId: string, parentImageId: string): Promise<RefinementBase> {
+    // Step 1: Load the design tree of the parent image
+    const {
+      root_image_id: rootImageId,
+      versions,
+      version_count: versionCount,
+    } = await this.getImageVersions(userId, parentImageId);
+
+    // Step 2: Check the size of the design
+    if (versionCount >= MAX_VERSIONS_PER_DESIGN) {
+      throw new GeneratedImageError(
+        `Osiągnięto limit ${MAX_VERSIONS_PER_DESIGN} wersji tego projektu`,
+        "VERSION_LIMIT_REACHED",
+        429
+      );
+    }
+
+    // Step 3: Walk from the parent up to the original image
+    const versionsById = new Map(versions.map((version) => [version.id, version]));
+    const parent = versionsById.get(parentImageId);
+
+    if (!parent) {
+      throw new GeneratedImageError("Nie znaleziono obrazu", "NOT_FOUND", 404);
+    }
+
+    const designHistory: string[] = [];
+    let current: GeneratedImageDTO | undefined = parent;
+    while (current) {
+      designHistory.unshift(current.prompt ?? "");
+      current = current.parent_image_id ? versionsById.get(current.parent_image_id) : undefined;
+    }
+
+    return { parent, rootImageId, designHistory, versionCount };
+  }
+
+  /**
+   * Keeps the chosen candidate images and discards the rest
+   *
+   * Business rules:
+   * - Only pending candidates of the user can be kept or discarded, expired candidates
+   *   (older than CANDIDATE_EXPIRY_HOURS) are no longer available
+   * - Kept candidates become regular images and are charged to the monthly generation quota
+   * - The quota must cover all kept candidates
+   * - Discarded candidates are deleted together with their files in storage
+   *
+   * @param userId - ID of the candidates' owner
+   * @param keepIds - IDs of the candidates to keep
+   * @param discardIds - IDs of the candidates to discard
+   * @returns Promise containing the kept images and the remaining quota
+   * @throws GeneratedImageError if a candidate does not exist
+   * @throws GenerationQuotaError if the quota is exceeded
+   *
+   * @example
+   * const result = await service.resolveCandidates(userId, ["candidate-1"], ["candidate-2", "candidate-3"]);
+   */
+  async resolveCandidates(
+    userId: string,
+    keepIds: string[],
+    discardIds: string[]
+  ): Promise<{ kept: GeneratedImageDTO[]; remaining_generations: number }> {
+    // Step 1: Verify all images are pending candidates of the user
+    const candidateIds = [...keepIds, ...discardIds];
+    const { data: candidates, error: candidatesError } = await this.supabase
+      .from("generated_images")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("is_candidate", true)
+      .gte("created_at", getCandidateExpiryCutoff())
+      .in("id", candidateIds);
+
+    if (candidatesError) {
+      // eslint-disable-next-line no-console
+      console.error("[GeneratedImagesService] Error fetching candidates:", candidatesError);
+      throw new GeneratedImageError("Nie udało się pobrać wariantów", "DATABASE_ERROR", 500);
+    }
+
+    if (!candidates || candidates.length !== candidateIds.length) {
+      throw new GeneratedImageError("Nie znaleziono wariantu obrazu", "CANDIDATE_NOT_FOUND", 404);
+    }
+
+    // Step 2: Check the quota covers all kept candidates
+    const quota = await this.quotaService.assertCanGenerate(userId, keepIds.length);
+
+    // Step 3: Charge kept candidates to the quota and turn them into regular images
+    let remainingGenerations = quota.remaining;
+    if (keepIds.length > 0) {
+      remainingGenerations = await this.quotaService.consumeGenerations(quota, keepIds);
+
+      const { error: keepError } = await this.supabase
+        .from("generated_images")
+        .update({ is_candidate: false })
+        .eq("user_id", userId)
+        .in("id", keepIds);
+
+      if (keepError) {
+        // eslint-disable-next-line no-console
+        console.error("[GeneratedImagesService] Error keeping candidates:", keepError);
+        throw new GeneratedImageError("Nie udało się zachować wybranych wariantów", "DATABASE_ERROR", 500);
+      }
+    }
+
+    // Step 4: Delete discarded candidates and their files
+    if (discardIds.length > 0) {
+      const { error: discardError } = await this.supabase
+        .from("generated_images")
+        .delete()
+        .eq("user_id", userId)
+        .in("id", discardIds);
+
+      if (discardError) {
+        // eslint-disable-next-line no-console
+        console.error("[GeneratedImagesService] Error discarding candidates:", discardError);
+        throw new GeneratedImageError("Nie udało się odrzucić wariantów", "DATABASE_ERROR", 500);
+      }
+
+      await this.deleteImageFiles(candidates.filter((image) => discardIds.includes(image.id)));
+    }
+
+    return {
+      kept: candidates
+        .filter((image) => keepIds.includes(image.id))
+        .map((image) => toGeneratedImageDTO({ ...image, is_candidate: false })),
       remaining_generations: remainingGenerations,
     };
   }
+
+  /**
+   * Checks that the user can receive new candidate images
+   *
+   * Business rules:
+   * - Expired candidates (older than CANDIDATE_EXPIRY_HOURS) are discarded first, with their files
+   * - A user can have at most MAX_PENDING_CANDIDATES candidates waiting for a decision
+   *
+   * @param userId - ID of the user
+   * @param count - Number of candidates about to be generated
+   * @param now - Current time (default: now)
+   * @throws GeneratedImageError with CANDIDATE_LIMIT_REACHED (429) if too many candidates are pending
+   *
+   * @example
+   * await service.assertCanCreateCandidates(userId, 3);
+   */
+  async assertCanCreateCandidates(userId: string, count: number, now: Date = new Date()): Promise<void> {
+    // Step 1: Discard expired candidates
+    const cutoff = getCandidateExpiryCutoff(now);
+    const { data: expired, error: expiredError } = await this.supabase
+      .from("generated_images")
+      .delete()
+      .eq("user_id", userId)
+      .eq("is_candidate", true)
+      .lt("created_at", cutoff)
+      .select("id, image_url");
+
+    if (expiredError) {
+      // eslint-disable-next-line no-console
+      console.error("[GeneratedImagesService] Error discarding expired candidates:", expiredError);
+      throw new GeneratedImageError("Nie udało się sprawdzić wariantów", "DATABASE_ERROR", 500);
+    }
+
+    await this.deleteImageFiles(expired || []);
+
+    // Step 2: Count the candidates still waiting for a decision
+    const { count: pendingCount, error: countError } = await this.supabase
+      .from("generated_images")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("is_candidate", true);
+
+    if (countError) {
+      // eslint-disable-next-line no-console
+      console.error("[GeneratedImagesService] Error counting candidates:", countError);
+      throw new GeneratedImageError("Nie udało się sprawdzić wariantów", "DATABASE_ERROR", 500);
+    }
+
+    if ((pendingCount ?? 0) + count > MAX_PENDING_CANDIDATES) {
+      throw new GeneratedImageError(
+        "Masz zbyt wiele niewybranych wariantów. Zachowaj lub odrzuć poprzednie warianty",
+        "CANDIDATE_LIMIT_REACHED",
+        429
+      );
+    }
+  }
+
+  /**
+   * Removes the storage files of deleted images
+   *
+   * Files are removed best-effort; a leftover file does not affect the user.
+   *
+   * @param images - Deleted images
+   */
+  private async deleteImageFiles(images: Pick<Tables<"generated_images">, "image_url">[]): Promise<void> {
+    for (const image of images) {
+      const fileName = getStorageFileName(image.image_url);
+      if (fileName) {
+        await deleteStorageImage(this.supabase, fileName);
+      }
+    }
+  }
 }
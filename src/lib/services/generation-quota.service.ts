@@ -0,0 +1,245 @@
+/**
+ * Generation Quota Service
+ *
+ * Service responsible for the monthly image generation quota.
+ * Every generation charged to the quota is recorded in the generation_quota_events ledger,
+ * which is never decremented, so deleting images does not refund the quota.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { GenerationQuotaDTO, UserPlan } from "../../types";
+
+/**
+ * Custom error class for generation quota-related business logic errors
+ */
+export class GenerationQuotaError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "GenerationQuotaError";
+  }
+}
+
+/**
+ * Monthly generation limits of the plans
+ */
+export const GENERATION_PLAN_LIMITS: Record<UserPlan, number> = {
+  free: 10,
+  premium: 100,
+};
+
+/**
+ * Returns the quota window containing the given moment: the calendar month in UTC
+ *
+ * @param now - Moment inside the window (default: current time)
+ * @returns Start of the month and start of the next month, when the quota resets
+ */
+export function getQuotaPeriod(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Service for the monthly generation quota
+ *
+ * Only images generated from scratch and kept are charged: refinements and pending candidates are free.
+ * The routes check the quota with assertCanGenerate before generating and charge the images with
+ * consumeGenerations right after they are stored.
+ */
+export class GenerationQuotaService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Gets the generation quota of a user in the current month
+   *
+   * Business rules:
+   * - The limit comes from the user's plan (GENERATION_PLAN_LIMITS)
+   * - A limit set by an admin for the user replaces the plan limit
+   * - Generations recorded in the ledger since the start of the month are used
+   *
+   * @param userId - ID of the user
+   * @param now - Current time (default: now)
+   * @returns Promise containing the quota with the reset date
+   * @throws GenerationQuotaError if the quota cannot be read
+   *
+   * @example
+   * const quota = await quotaService.getQuota(userId);
+   * // { plan: "free", limit: 10, used: 3, remaining: 7, is_override: false, resets_at: "2025-12-01T00:00:00.000Z", ... }
+   */
+  async getQuota(userId: string, now: Date = new Date()): Promise<GenerationQuotaDTO> {
+    // Step 1: Get the plan and the admin override of the user
+    const { data: user, error: userError } = await this.supabase
+      .from("users")
+      .select("plan, generation_quota_overrides!generation_quota_overrides_user_id_fkey(monthly_limit)")
+      .eq("id", userId)
+      .single();
+
+    if (userError || !user) {
+      // eslint-disable-next-line no-console
+      console.error("[GenerationQuotaService] Failed to fetch user plan:", userError);
+      throw new GenerationQuotaError("Nie udało się sprawdzić limitu generacji", "QUOTA_FETCH_FAILED", 500);
+    }
+
+    // Step 2: Count generations recorded in the current month
+    const period = getQuotaPeriod(now);
+    const { count, error: countError } = await this.supabase
+      .from("generation_quota_events")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .gte("created_at", period.start.toISOString());
+
+    if (countError) {
+      // eslint-disable-next-line no-console
+      console.error("[GenerationQuotaService] Failed to count generations:", countError);
+      throw new GenerationQuotaError("Nie udało się sprawdzić limitu generacji", "QUOTA_FETCH_FAILED", 500);
+    }
+
+    // Step 3: Compute the remaining quota
+    const override = user.generation_quota_overrides;
+    const limit = override ? override.monthly_limit : GENERATION_PLAN_LIMITS[user.plan];
+    const used = count ?? 0;
+
+    return {
+      plan: user.plan,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      is_override: Boolean(override),
+      period_start: period.start.toISOString(),
+      resets_at: period.end.toISOString(),
+    };
+  }
+
+  /**
+   * Checks that the quota covers the given number of generations
+   *
+   * @param userId - ID of the user
+   * @param generations - Number of generations to charge (default: 1)
+   * @returns Promise containing the current quota
+   * @throws GenerationQuotaError with GENERATION_LIMIT_REACHED (429) if the quota is insufficient
+   *
+   * @example
+   * const quota = await quotaService.assertCanGenerate(userId);
+   */
+  async assertCanGenerate(userId: string, generations = 1): Promise<GenerationQuotaDTO> {
+    const quota = await this.getQuota(userId);
+
+    if (generations > quota.remaining) {
+      const resetDate = new Date(quota.resets_at).toLocaleDateString("pl-PL", { timeZone: "UTC" });
+      throw new GenerationQuotaError(
+        quota.remaining === 0
+          ? `Osiągnięto miesięczny limit ${quota.limit} generacji. Limit odnowi się ${resetDate}`
+          : `Możesz zachować jeszcze ${quota.remaining} ${quota.remaining === 1 ? "obraz" : "obrazy"} w tym miesiącu`,
+        "GENERATION_LIMIT_REACHED",
+        429
+      );
+    }
+
+    return quota;
+  }
+
+  /**
+   * Charges generated images to the quota
+   *
+   * Business rules:
+   * - Every image adds one event to the ledger
+   * - The quota is checked and charged in one transaction (consume_generation_quota), so concurrent
+   *   generations of the same user cannot exceed it
+   * - Events are never removed, deleting an image only clears its reference
+   *
+   * @param quota - Quota of the images' owner from getQuota/assertCanGenerate (provides the plan)
+   * @param imageIds - IDs of the charged images
+   * @returns Promise containing the remaining quota after the charge
+   * @throws GenerationQuotaError with GENERATION_LIMIT_REACHED (429) if the images no longer fit in the quota
+   * @throws GenerationQuotaError if the events cannot be recorded
+   *
+   * @example
+   * const remaining = await quotaService.consumeGenerations(quota, [image.id]);
+   */
+  async consumeGenerations(quota: GenerationQuotaDTO, imageIds: string[]): Promise<number> {
+    if (imageIds.length === 0) {
+      return quota.remaining;
+    }
+
+    const { data: remaining, error } = await this.supabase.rpc("consume_generation_quota", {
+      image_ids: imageIds,
+      plan_limit: GENERATION_PLAN_LIMITS[quota.plan],
+    });
+
+    if (error?.code === "P0001") {
+      throw new GenerationQuotaError(
+        `Osiągnięto miesięczny limit ${quota.limit} generacji`,
+        "GENERATION_LIMIT_REACHED",
+        429
+      );
+    }
+
+    if (error || remaining === null) {
+      // eslint-disable-next-line no-console
+      console.error("[GenerationQuotaService] Failed to record generations:", error);
+      throw new GenerationQuotaError("Nie udało się zapisać wykorzystania limitu", "QUOTA_RECORD_FAILED", 500);
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Sets the monthly limit of a single user, replacing the limit of the plan
+   *
+   * Requires the client of an admin: users can only read their own override.
+   *
+   * @param userId - ID of the user
+   * @param monthlyLimit - Monthly number of generations (0 blocks generating)
+   * @param adminId - ID of the admin setting the limit
+   * @param reason - Optional reason, e.g. a support ticket
+   * @throws GenerationQuotaError if the limit is negative or cannot be saved
+   *
+   * @example
+   * await quotaService.setOverride(userId, 50, adminId, "Projekt pilotażowy");
+   */
+  async setOverride(userId: string, monthlyLimit: number, adminId: string, reason?: string): Promise<void> {
+    if (!Number.isInteger(monthlyLimit) || monthlyLimit < 0) {
+      throw new GenerationQuotaError("Limit musi być nieujemną liczbą całkowitą", "INVALID_QUOTA_LIMIT", 422);
+    }
+
+    const { error } = await this.supabase.from("generation_quota_overrides").upsert({
+      user_id: userId,
+      monthly_limit: monthlyLimit,
+      reason: reason ?? null,
+      created_by: adminId,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[GenerationQuotaService] Failed to set quota override:", error);
+      throw new GenerationQuotaError("Nie udało się ustawić limitu użytkownika", "QUOTA_OVERRIDE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Removes the limit set for a user, restoring the limit of the plan
+   *
+   * Requires the client of an admin.
+   *
+   * @param userId - ID of the user
+   * @throws GenerationQuotaError if the limit cannot be removed
+   *
+   * @example
+   * await quotaService.clearOverride(userId);
+   */
+  async clearOverride(userId: string): Promise<void> {
+    const { error } = await this.supabase.from("generation_quota_overrides").delete().eq("user_id", userId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[GenerationQuotaService] Failed to clear quota override:", error);
+      throw new GenerationQuotaError("Nie udało się usunąć limitu użytkownika", "QUOTA_OVERRIDE_FAILED", 500);
+    }
+  }
+}
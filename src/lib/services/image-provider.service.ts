@@ -0,0 +1,144 @@
+/**
+ * Image Provider Registry
+ *
+ * Common interface of image generation backends and the registry that creates the backend
+ * selected by IMAGE_PROVIDER. Built-in providers:
+ * - "openrouter" (default) - OpenRouter chat completions with image modality
+ * - "openai" - any OpenAI-compatible /images endpoint (OpenAI, LocalAI, vLLM, ...)
+ * - "mock" - deterministic offline placeholder PNGs (development and e2e tests)
+ */
+
+import { OpenRouterImageService } from "./openrouter-image.service";
+import { OpenAIImageService } from "./openai-image.service";
+import { MockImageService } from "./mock-image.service";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * Result of a single image generation
+ */
+export interface ImageGenerationResult {
+  /** Generated image as a base64 data URL */
+  imageUrl: string;
+  modelUsed: string;
+  generationTime: number;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Result of generating several candidates from the same prompt
+ */
+export interface ImageCandidatesResult {
+  /** Generated images as base64 data URLs */
+  imageUrls: string[];
+  modelUsed: string;
+  generationTime: number;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Image generation backend
+ *
+ * Implementations never throw from the generation methods - failures are reported
+ * through `success: false` and `error`.
+ */
+export interface ImageProvider {
+  /** Name under which the provider is registered */
+  readonly name: string;
+  /** Model used to generate images */
+  readonly model: string;
+
+  /**
+   * Generate an image from a prompt
+   *
+   * @param prompt The enhanced positive prompt
+   * @param negativePrompt Optional negative prompt (may be ignored by the provider)
+   * @param referenceImageUrl Optional image to start from when refining an existing design
+   */
+  generateImage(prompt: string, negativePrompt?: string, referenceImageUrl?: string): Promise<ImageGenerationResult>;
+
+  /**
+   * Generate several candidate images from the same prompt
+   *
+   * The result may contain fewer images than requested; it fails only when no image was generated.
+   */
+  generateImageCandidates(prompt: string, negativePrompt: string, count: number): Promise<ImageCandidatesResult>;
+}
+
+/**
+ * Creates a provider from the environment configuration
+ *
+ * @throws Error if the configuration required by the provider is missing
+ */
+export type ImageProviderFactory = (env: Partial<ImportMetaEnv>) => ImageProvider;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const DEFAULT_IMAGE_PROVIDER = "openrouter";
+
+const imageProviderRegistry = new Map<string, ImageProviderFactory>([
+  [
+    "openrouter",
+    (env) => {
+      if (!env.PUBLIC_OPENROUTER_API_KEY) {
+        throw new Error("PUBLIC_OPENROUTER_API_KEY is required when IMAGE_PROVIDER is 'openrouter'");
+      }
+      return new OpenRouterImageService({ apiKey: env.PUBLIC_OPENROUTER_API_KEY, model: env.IMAGE_MODEL });
+    },
+  ],
+  [
+    "openai",
+    (env) => {
+      if (!env.OPENAI_IMAGES_API_KEY) {
+        throw new Error("OPENAI_IMAGES_API_KEY is required when IMAGE_PROVIDER is 'openai'");
+      }
+      return new OpenAIImageService({
+        apiKey: env.OPENAI_IMAGES_API_KEY,
+        baseUrl: env.OPENAI_IMAGES_BASE_URL,
+        model: env.IMAGE_MODEL,
+      });
+    },
+  ],
+  ["mock", () => new MockImageService()],
+]);
+
+/**
+ * Registers an image provider under a name usable in IMAGE_PROVIDER
+ *
+ * Registering an existing name replaces the provider.
+ *
+ * @example
+ * registerImageProvider("replicate", (env) => new ReplicateImageService(env.REPLICATE_API_TOKEN));
+ */
+export function registerImageProvider(name: string, factory: ImageProviderFactory): void {
+  imageProviderRegistry.set(name, factory);
+}
+
+/**
+ * Names of all registered image providers
+ */
+export function getImageProviderNames(): string[] {
+  return [...imageProviderRegistry.keys()];
+}
+
+/**
+ * Creates the image provider configured by IMAGE_PROVIDER (default: "openrouter")
+ *
+ * @throws Error if the provider is unknown or its configuration is missing
+ */
+export function createImageProvider(env: Partial<ImportMetaEnv> = import.meta.env): ImageProvider {
+  const name = env.IMAGE_PROVIDER || DEFAULT_IMAGE_PROVIDER;
+  const factory = imageProviderRegistry.get(name);
+
+  if (!factory) {
+    throw new Error(`Unknown IMAGE_PROVIDER '${name}'. Available providers: ${getImageProviderNames().join(", ")}`);
+  }
+
+  return factory(env);
+}
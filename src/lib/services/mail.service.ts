@@ -0,0 +1,341 @@
+/**
+ * Mail Service
+ *
+ * Service responsible for transactional emails about marketplace events.
+ * Checks the recipient (respecting their email preferences), reads their address with the
+ * service role, renders the localized template and hands the message to a pluggable transport
+ * (SMTP, file or console).
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { randomUUID } from "node:crypto";
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { createSupabaseAdminClient } from "../../db/supabase-admin.client";
+import type { EmailEvent, EmailPreferencesDTO, UpdateEmailPreferencesCommand } from "../../types";
+import { renderEmailTemplate, type EmailLocale, type EmailTemplateData } from "../mail-templates";
+
+/**
+ * Custom error class for mail-related business logic errors
+ */
+export class MailError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "MailError";
+  }
+}
+
+/**
+ * Email ready to be delivered by a transport
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Delivery mechanism of emails
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * SMTP server configuration
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends emails through an SMTP server (production)
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Writes every email as a JSON file to a directory (development and tests)
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(join(this.directory, `${Date.now()}-${randomUUID()}.json`), JSON.stringify(message, null, 2));
+  }
+}
+
+/**
+ * Prints every email to the console (development default)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    // eslint-disable-next-line no-console
+    console.log(`[Mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+/**
+ * Creates the transport configured by MAIL_TRANSPORT ("smtp" | "file" | "console", default in development: "console")
+ *
+ * @throws Error if MAIL_TRANSPORT is missing in production or SMTP is selected but SMTP_HOST is missing
+ */
+export function createMailTransport(env: Partial<ImportMetaEnv> = import.meta.env): MailTransport {
+  if (!env.MAIL_TRANSPORT && env.PROD) {
+    throw new Error("MAIL_TRANSPORT is required in production");
+  }
+
+  switch (env.MAIL_TRANSPORT) {
+    case "smtp":
+      if (!env.SMTP_HOST) {
+        throw new Error("SMTP_HOST is required when MAIL_TRANSPORT is 'smtp'");
+      }
+      return new SmtpMailTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === "true",
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      });
+    case "file":
+      return new FileMailTransport(env.MAIL_FILE_DIR || ".mail");
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+/**
+ * Sender and link configuration of emails
+ */
+export interface MailConfig {
+  from: string;
+  appUrl: string;
+  locale: EmailLocale;
+}
+
+const EMAIL_PREFERENCE_COLUMNS = "proposal_received, proposal_accepted, project_completed, review_request";
+
+/**
+ * Preferences of users who never changed them - every email is sent
+ */
+const DEFAULT_EMAIL_PREFERENCES: EmailPreferencesDTO = {
+  proposal_received: true,
+  proposal_accepted: true,
+  project_completed: true,
+  review_request: true,
+};
+
+const DEFAULT_MAIL_CONFIG: MailConfig = {
+  from: import.meta.env.MAIL_FROM || "ChairAI <no-reply@chairai.pl>",
+  appUrl: import.meta.env.APP_URL || "http://localhost:3000",
+  locale: "pl",
+};
+
+/**
+ * Parameters of a single event email
+ */
+export interface EventEmailParams<E extends EmailEvent> {
+  projectId: string;
+  recipientId: string;
+  data: EmailTemplateData[E];
+}
+
+/**
+ * Service for sending transactional emails
+ *
+ * Used next to NotificationService by ProposalService and ProjectService.
+ */
+export class MailService {
+  private transport: MailTransport;
+  private config: MailConfig;
+
+  /**
+   * @param supabase - Client of the current user, who triggers the event
+   * @param transport - Delivery mechanism (default: configured by MAIL_TRANSPORT)
+   * @param config - Sender and link configuration
+   * @param adminSupabase - Service role client reading email addresses (default: created on first email)
+   */
+  constructor(
+    private supabase: SupabaseClient,
+    transport?: MailTransport,
+    config?: Partial<MailConfig>,
+    private adminSupabase?: SupabaseClient
+  ) {
+    this.transport = transport ?? createMailTransport();
+    this.config = { ...DEFAULT_MAIL_CONFIG, ...config };
+  }
+
+  /**
+   * Sends the email of an event to a project party
+   *
+   * Business rules:
+   * - Delivery is best-effort: a failure is logged and never breaks the action that triggered it.
+   *   The returned promise never rejects, so callers do not await it and a slow SMTP server never delays the response
+   * - The recipient must be the one the event goes to, and the current user must be able to trigger the event
+   * - Users who opted out of the event (email_preferences) do not receive the email
+   * - The address is read with the service role client and never exposed to the current user
+   *
+   * @param event - Email event
+   * @param params - Project, recipient and template data
+   *
+   * @example
+   * void mailService.sendEventEmail("proposal_accepted", {
+   *   projectId,
+   *   recipientId: proposal.artisan_id,
+   *   data: { price: proposal.price },
+   * });
+   */
+  async sendEventEmail<E extends EmailEvent>(event: E, params: EventEmailParams<E>): Promise<void> {
+    try {
+      // Step 1: Check that the current user can send the event to the recipient and they did not opt out
+      const { data: allowed, error } = await this.supabase.rpc("can_send_event_email", {
+        project_id: params.projectId,
+        recipient_id: params.recipientId,
+        event,
+      });
+
+      if (error) {
+        // eslint-disable-next-line no-console
+        console.error("[MailService] Failed to check email recipient:", error);
+        return;
+      }
+
+      if (!allowed) {
+        return;
+      }
+
+      // Step 2: Read the recipient's address
+      const email = await this.getRecipientEmail(params.recipientId);
+
+      if (!email) {
+        return;
+      }
+
+      // Step 3: Render the localized template
+      const rendered = renderEmailTemplate(
+        event,
+        params.data,
+        {
+          projectUrl: `${this.config.appUrl}/projects/${params.projectId}`,
+          preferencesUrl: `${this.config.appUrl}/settings/notifications`,
+        },
+        this.config.locale
+      );
+
+      // Step 4: Deliver
+      await this.transport.send({ from: this.config.from, to: email, ...rendered });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[MailService] Failed to send email:", error);
+    }
+  }
+
+  /**
+   * Gets the email preferences of a user
+   *
+   * @param userId - ID of the user
+   * @returns Promise containing one flag per email event (all true if never changed)
+   * @throws MailError if the query fails
+   *
+   * @example
+   * const preferences = await mailService.getPreferences(userId);
+   */
+  async getPreferences(userId: string): Promise<EmailPreferencesDTO> {
+    const { data, error } = await this.supabase
+      .from("email_preferences")
+      .select(EMAIL_PREFERENCE_COLUMNS)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[MailService] Failed to fetch email preferences:", error);
+      throw new MailError("Nie udało się pobrać ustawień powiadomień", "EMAIL_PREFERENCES_FETCH_FAILED", 500);
+    }
+
+    return data ?? { ...DEFAULT_EMAIL_PREFERENCES };
+  }
+
+  /**
+   * Updates the email preferences of a user
+   *
+   * Business rules:
+   * - Only the given events are changed, the others keep their current value
+   *
+   * @param userId - ID of the user
+   * @param dto - Event flags to change
+   * @returns Promise containing the updated preferences
+   * @throws MailError if the update fails
+   *
+   * @example
+   * await mailService.updatePreferences(userId, { proposal_received: false });
+   */
+  async updatePreferences(userId: string, dto: UpdateEmailPreferencesCommand): Promise<EmailPreferencesDTO> {
+    // Step 1: Merge with the current preferences so the upsert never resets other flags
+    const current = await this.getPreferences(userId);
+
+    // Step 2: Save
+    const { data, error } = await this.supabase
+      .from("email_preferences")
+      .upsert({ ...current, ...dto, user_id: userId, updated_at: new Date().toISOString() })
+      .select(EMAIL_PREFERENCE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      // eslint-disable-next-line no-console
+      console.error("[MailService] Failed to update email preferences:", error);
+      throw new MailError("Nie udało się zapisać ustawień powiadomień", "EMAIL_PREFERENCES_UPDATE_FAILED", 500);
+    }
+
+    return data;
+  }
+
+  /**
+   * Reads the email address of a user from auth.users with the service role client
+   *
+   * @param userId - ID of the user
+   * @returns Promise containing the address, or null if it cannot be read
+   */
+  private async getRecipientEmail(userId: string): Promise<string | null> {
+    if (!this.adminSupabase) {
+      this.adminSupabase = createSupabaseAdminClient();
+    }
+
+    const { data, error } = await this.adminSupabase.auth.admin.getUserById(userId);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[MailService] Failed to read recipient email:", error);
+      return null;
+    }
+
+    return data.user?.email ?? null;
+  }
+}
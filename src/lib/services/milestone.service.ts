@@ -0,0 +1,403 @@
+/**
+ * Milestone Service
+ *
+ * Service responsible for milestone-based execution of projects in progress.
+ * Handles the milestone plan (staged payments), artisan submissions and client approvals.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { MilestoneDTO, ProjectMilestonesDTO, SetMilestonePlanCommand } from "../../types";
+
+/**
+ * Custom error class for milestone-related business logic errors
+ */
+export class MilestoneError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "MilestoneError";
+  }
+}
+
+/**
+ * Project data needed to authorize milestone actions
+ */
+interface MilestoneProjectContext {
+  id: string;
+  status: string;
+  accepted_proposal_id: string;
+  accepted_price: number | null;
+  isClient: boolean;
+  isArtisan: boolean;
+}
+
+const MILESTONE_COLUMNS = "id, position, title, amount, due_date, status, submitted_at, approved_at";
+
+/**
+ * Service for managing project milestones
+ *
+ * The artisan whose proposal was accepted plans the milestones and submits them
+ * one by one; the client approves each submitted milestone, releasing its share of the price.
+ */
+export class MilestoneService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Gets the milestone plan of a project together with the approved amount
+   *
+   * Business rules:
+   * - Only the project owner and the accepted artisan can view milestones
+   *
+   * @param projectId - ID of the project
+   * @param userId - ID of the user requesting the milestones
+   * @returns Promise containing milestones ordered by position and staged payments summary
+   * @throws MilestoneError if project not found or access denied
+   *
+   * @example
+   * const plan = await milestoneService.getMilestones("project-uuid", "user-uuid");
+   */
+  async getMilestones(projectId: string, userId: string): Promise<ProjectMilestonesDTO> {
+    // Step 1: Fetch project and verify user is a party of it
+    const project = await this.getProjectContext(projectId, userId);
+
+    if (!project.isClient && !project.isArtisan) {
+      throw new MilestoneError("Nie masz dostępu do etapów tego projektu", "MILESTONES_FORBIDDEN", 403);
+    }
+
+    // Step 2: Fetch milestones
+    const milestones = await this.fetchMilestones(projectId);
+
+    // Step 3: Sum up approved milestones
+    const approvedAmount = milestones
+      .filter((milestone) => milestone.status === "approved")
+      .reduce((sum, milestone) => sum + milestone.amount, 0);
+
+    return {
+      project_id: project.id,
+      accepted_price: project.accepted_price,
+      approved_amount: approvedAmount,
+      milestones,
+    };
+  }
+
+  /**
+   * Sets (or replaces) the milestone plan of a project
+   *
+   * Business rules:
+   * - Only the accepted artisan can plan milestones
+   * - Project must be 'in_progress'
+   * - The plan can be replaced only while no milestone has been submitted yet
+   * - Milestone amounts must add up to the accepted price
+   *
+   * @param projectId - ID of the project
+   * @param userId - ID of the artisan setting the plan
+   * @param command - Milestones in execution order
+   * @returns Promise containing the new plan in the same shape as getMilestones()
+   * @throws MilestoneError if validation fails or user is not the accepted artisan
+   *
+   * @example
+   * const plan = await milestoneService.setPlan("project-uuid", "artisan-uuid", {
+   *   milestones: [
+   *     { title: "Akceptacja projektu", amount: 500, due_date: "2025-11-01" },
+   *     { title: "Dostawa", amount: 2000 }
+   *   ]
+   * });
+   */
+  async setPlan(projectId: string, userId: string, command: SetMilestonePlanCommand): Promise<ProjectMilestonesDTO> {
+    // Step 1: Fetch project and verify user is the accepted artisan
+    const project = await this.getProjectContext(projectId, userId);
+
+    if (!project.isArtisan) {
+      throw new MilestoneError(
+        "Tylko rzemieślnik realizujący projekt może planować etapy",
+        "FORBIDDEN_NOT_ACCEPTED_ARTISAN",
+        403
+      );
+    }
+
+    this.assertInProgress(project);
+
+    // Step 2: Plan is locked once work has been submitted
+    const existing = await this.fetchMilestones(projectId);
+
+    if (existing.some((milestone) => milestone.status !== "pending")) {
+      throw this.planLockedError();
+    }
+
+    // Step 3: Amounts must add up to the accepted price (compared in grosze to avoid float errors)
+    const totalCents = command.milestones.reduce((sum, milestone) => sum + Math.round(milestone.amount * 100), 0);
+
+    if (project.accepted_price === null || totalCents !== Math.round(project.accepted_price * 100)) {
+      throw this.amountsMismatchError(project.accepted_price);
+    }
+
+    // Step 4: Replace the current plan in one transaction
+    // (set_milestone_plan() re-checks the lock in case a milestone was submitted meanwhile, and the amounts)
+    const { data: saved, error: saveError } = await this.supabase.rpc("set_milestone_plan", {
+      project_id: projectId,
+      proposal_id: project.accepted_proposal_id,
+      milestones: command.milestones.map((milestone) => ({
+        title: milestone.title,
+        amount: milestone.amount,
+        due_date: milestone.due_date || null,
+      })),
+    });
+
+    if (saveError?.code === "P0001") {
+      throw this.planLockedError();
+    }
+
+    if (saveError?.code === "22023") {
+      throw this.amountsMismatchError(project.accepted_price);
+    }
+
+    if (saveError || !saved) {
+      // eslint-disable-next-line no-console
+      console.error("[MilestoneService] Failed to save milestone plan:", saveError);
+      throw new MilestoneError("Nie udało się zapisać planu etapów", "MILESTONE_PLAN_SAVE_FAILED", 500);
+    }
+
+    return {
+      project_id: project.id,
+      accepted_price: project.accepted_price,
+      approved_amount: 0,
+      milestones: saved.map((milestone) => ({
+        id: milestone.id,
+        position: milestone.position,
+        title: milestone.title,
+        amount: milestone.amount,
+        due_date: milestone.due_date,
+        status: milestone.status,
+        submitted_at: milestone.submitted_at,
+        approved_at: milestone.approved_at,
+      })),
+    };
+  }
+
+  /**
+   * Submits a milestone for the client's approval
+   *
+   * Business rules:
+   * - Only the accepted artisan can submit milestones
+   * - Project must be 'in_progress'
+   * - Only 'pending' milestones can be submitted
+   *
+   * @param projectId - ID of the project
+   * @param milestoneId - ID of the milestone
+   * @param userId - ID of the artisan
+   * @returns Promise containing the updated milestone
+   * @throws MilestoneError if validation fails or user is not the accepted artisan
+   *
+   * @example
+   * const milestone = await milestoneService.submitMilestone("project-uuid", "milestone-uuid", "artisan-uuid");
+   */
+  async submitMilestone(projectId: string, milestoneId: string, userId: string): Promise<MilestoneDTO> {
+    // Step 1: Fetch project and verify user is the accepted artisan
+    const project = await this.getProjectContext(projectId, userId);
+
+    if (!project.isArtisan) {
+      throw new MilestoneError(
+        "Tylko rzemieślnik realizujący projekt może przesyłać etapy",
+        "FORBIDDEN_NOT_ACCEPTED_ARTISAN",
+        403
+      );
+    }
+
+    this.assertInProgress(project);
+
+    // Step 2: Move milestone from pending to submitted
+    return this.transitionMilestone(projectId, milestoneId, "pending", {
+      status: "submitted",
+      submitted_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Approves a submitted milestone, releasing its share of the price
+   *
+   * Business rules:
+   * - Only the project owner can approve milestones
+   * - Project must be 'in_progress'
+   * - Only 'submitted' milestones can be approved
+   *
+   * @param projectId - ID of the project
+   * @param milestoneId - ID of the milestone
+   * @param userId - ID of the client
+   * @returns Promise containing the updated milestone
+   * @throws MilestoneError if validation fails or user is not the project owner
+   *
+   * @example
+   * const milestone = await milestoneService.approveMilestone("project-uuid", "milestone-uuid", clientId);
+   */
+  async approveMilestone(projectId: string, milestoneId: string, userId: string): Promise<MilestoneDTO> {
+    // Step 1: Fetch project and verify user is the project owner
+    const project = await this.getProjectContext(projectId, userId);
+
+    if (!project.isClient) {
+      throw new MilestoneError("Tylko właściciel projektu może zatwierdzać etapy", "FORBIDDEN_NOT_PROJECT_OWNER", 403);
+    }
+
+    this.assertInProgress(project);
+
+    // Step 2: Move milestone from submitted to approved
+    return this.transitionMilestone(projectId, milestoneId, "submitted", {
+      status: "approved",
+      approved_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Fetches the project and determines the user's role in it
+   *
+   * @param projectId - ID of the project
+   * @param userId - ID of the user
+   * @returns Project data with role flags
+   * @throws MilestoneError if project not found or has no accepted proposal
+   */
+  private async getProjectContext(projectId: string, userId: string): Promise<MilestoneProjectContext> {
+    const { data: project, error } = await this.supabase
+      .from("projects")
+      .select("id, client_id, status, accepted_proposal_id, accepted_price")
+      .eq("id", projectId)
+      .single();
+
+    if (error || !project) {
+      throw new MilestoneError("Nie znaleziono projektu", "PROJECT_NOT_FOUND", 404);
+    }
+
+    if (!project.accepted_proposal_id) {
+      throw new MilestoneError("Projekt nie ma zaakceptowanej oferty", "PROJECT_NOT_ACCEPTED", 400);
+    }
+
+    const { data: proposal } = await this.supabase
+      .from("proposals")
+      .select("artisan_id")
+      .eq("id", project.accepted_proposal_id)
+      .maybeSingle();
+
+    return {
+      id: project.id,
+      status: project.status,
+      accepted_proposal_id: project.accepted_proposal_id,
+      accepted_price: project.accepted_price,
+      isClient: project.client_id === userId,
+      isArtisan: proposal?.artisan_id === userId,
+    };
+  }
+
+  /**
+   * Fetches all milestones of a project ordered by position
+   *
+   * @param projectId - ID of the project
+   * @returns Milestones of the project
+   * @throws MilestoneError if the query fails
+   */
+  private async fetchMilestones(projectId: string): Promise<MilestoneDTO[]> {
+    const { data: milestones, error } = await this.supabase
+      .from("project_milestones")
+      .select(MILESTONE_COLUMNS)
+      .eq("project_id", projectId)
+      .order("position", { ascending: true });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[MilestoneService] Failed to fetch milestones:", error);
+      throw new MilestoneError("Nie udało się pobrać etapów projektu", "MILESTONES_FETCH_FAILED", 500);
+    }
+
+    return milestones || [];
+  }
+
+  /**
+   * Ensures milestones are only worked on while the project is in progress
+   *
+   * @param project - Project context
+   * @throws MilestoneError if the project is not in progress
+   */
+  private assertInProgress(project: MilestoneProjectContext): void {
+    if (project.status !== "in_progress") {
+      throw new MilestoneError(
+        "Etapy można realizować tylko w projektach w trakcie realizacji",
+        "PROJECT_NOT_IN_PROGRESS",
+        400
+      );
+    }
+  }
+
+  /**
+   * Error raised when the milestone amounts do not add up to the accepted price
+   *
+   * @param acceptedPrice - Accepted price of the project
+   * @returns MilestoneError with status 400
+   */
+  private amountsMismatchError(acceptedPrice: number | null): MilestoneError {
+    return new MilestoneError(
+      `Suma kwot etapów musi być równa zaakceptowanej cenie (${acceptedPrice ?? 0} PLN)`,
+      "MILESTONE_AMOUNTS_MISMATCH",
+      400
+    );
+  }
+
+  /**
+   * Error raised when the plan is replaced after a milestone was submitted
+   *
+   * @returns MilestoneError with status 409
+   */
+  private planLockedError(): MilestoneError {
+    return new MilestoneError(
+      "Nie można zmienić planu etapów po przesłaniu pierwszego etapu",
+      "MILESTONE_PLAN_LOCKED",
+      409
+    );
+  }
+
+  /**
+   * Moves a milestone to its next status if it is in the expected one
+   *
+   * @param projectId - ID of the project the milestone must belong to
+   * @param milestoneId - ID of the milestone
+   * @param expectedStatus - Status the milestone must currently have
+   * @param changes - Status and timestamp to set
+   * @returns Updated milestone
+   * @throws MilestoneError if milestone not found or in a different status
+   */
+  private async transitionMilestone(
+    projectId: string,
+    milestoneId: string,
+    expectedStatus: MilestoneDTO["status"],
+    changes: Pick<MilestoneDTO, "status"> & Partial<Pick<MilestoneDTO, "submitted_at" | "approved_at">>
+  ): Promise<MilestoneDTO> {
+    const { data: milestone, error: fetchError } = await this.supabase
+      .from("project_milestones")
+      .select("id, status")
+      .eq("id", milestoneId)
+      .eq("project_id", projectId)
+      .single();
+
+    if (fetchError || !milestone) {
+      throw new MilestoneError("Nie znaleziono etapu", "MILESTONE_NOT_FOUND", 404);
+    }
+
+    if (milestone.status !== expectedStatus) {
+      throw new MilestoneError("Nieprawidłowy stan etapu dla tej operacji", "INVALID_MILESTONE_TRANSITION", 409);
+    }
+
+    const { data: updated, error: updateError } = await this.supabase
+      .from("project_milestones")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", milestoneId)
+      .select(MILESTONE_COLUMNS)
+      .single();
+
+    if (updateError || !updated) {
+      // eslint-disable-next-line no-console
+      console.error("[MilestoneService] Failed to update milestone:", updateError);
+      throw new MilestoneError("Nie udało się zaktualizować etapu", "MILESTONE_UPDATE_FAILED", 500);
+    }
+
+    return updated;
+  }
+}
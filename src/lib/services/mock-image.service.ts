@@ -0,0 +1,182 @@
+/**
+ * Mock Image Generation Service
+ *
+ * Offline image provider for development and e2e tests. Renders a placeholder PNG whose colors and
+ * pattern are derived from the prompt, so the same prompt always gives the same image and different
+ * prompts give visibly different images. No network access and no API credits are needed.
+ */
+
+import { createHash } from "node:crypto";
+import { deflateSync } from "node:zlib";
+import type { ImageCandidatesResult, ImageGenerationResult, ImageProvider } from "./image-provider.service";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MOCK_IMAGE_CONFIG = {
+  MODEL: "mock-placeholder",
+  SIZE: 256, // 256x256 px
+  GRID: 8, // 8x8 pattern cells, mirrored horizontally
+  BORDER: 16,
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// ============================================================================
+// MockImageService Class
+// ============================================================================
+
+export class MockImageService implements ImageProvider {
+  readonly name = "mock";
+  readonly model = MOCK_IMAGE_CONFIG.MODEL;
+
+  /**
+   * Render a placeholder image for a prompt
+   *
+   * @param prompt The enhanced positive prompt
+   * @param negativePrompt Ignored by the mock provider
+   * @param referenceImageUrl Optional parent image; refinements of different images differ
+   * @returns Promise resolving to an ImageGenerationResult with a PNG data URL
+   */
+  async generateImage(
+    prompt: string,
+    negativePrompt?: string,
+    referenceImageUrl?: string
+  ): Promise<ImageGenerationResult> {
+    if (!prompt || prompt.trim().length === 0) {
+      return {
+        imageUrl: "",
+        modelUsed: this.model,
+        generationTime: 0,
+        success: false,
+        error: "Prompt cannot be empty",
+      };
+    }
+
+    return {
+      imageUrl: renderPlaceholder(referenceImageUrl ? `${referenceImageUrl}\n${prompt}` : prompt),
+      modelUsed: this.model,
+      generationTime: 0,
+      success: true,
+    };
+  }
+
+  /**
+   * Render several different placeholder images for the same prompt
+   *
+   * @param prompt The enhanced positive prompt
+   * @param negativePrompt Ignored by the mock provider
+   * @param count Number of candidates to render
+   * @returns Promise resolving to an ImageCandidatesResult with PNG data URLs
+   */
+  async generateImageCandidates(prompt: string, negativePrompt: string, count: number): Promise<ImageCandidatesResult> {
+    if (!prompt || prompt.trim().length === 0) {
+      return {
+        imageUrls: [],
+        modelUsed: this.model,
+        generationTime: 0,
+        success: false,
+        error: "Prompt cannot be empty",
+      };
+    }
+
+    return {
+      imageUrls: Array.from({ length: count }, (_, index) => renderPlaceholder(`${prompt}\n#${index}`)),
+      modelUsed: this.model,
+      generationTime: 0,
+      success: true,
+    };
+  }
+}
+
+// ============================================================================
+// PNG Rendering
+// ============================================================================
+
+/**
+ * Render a symmetric pattern seeded by the text as a PNG data URL
+ */
+function renderPlaceholder(seed: string): string {
+  const { SIZE, GRID, BORDER } = MOCK_IMAGE_CONFIG;
+  const hash = createHash("sha256").update(seed).digest();
+
+  // Light background and a dark foreground derived from the hash
+  const background = [200 + (hash[0] % 56), 200 + (hash[1] % 56), 200 + (hash[2] % 56)];
+  const foreground = [hash[3] % 160, hash[4] % 160, hash[5] % 160];
+  const cellSize = (SIZE - 2 * BORDER) / GRID;
+
+  // Each scanline starts with filter type 0 (none), followed by RGB pixels
+  const rowLength = 1 + SIZE * 3;
+  const pixels = Buffer.alloc(rowLength * SIZE);
+
+  for (let y = 0; y < SIZE; y++) {
+    pixels[y * rowLength] = 0;
+    for (let x = 0; x < SIZE; x++) {
+      const insideGrid = x >= BORDER && x < SIZE - BORDER && y >= BORDER && y < SIZE - BORDER;
+      let filled = false;
+
+      if (insideGrid) {
+        const column = Math.floor((x - BORDER) / cellSize);
+        const row = Math.floor((y - BORDER) / cellSize);
+        const mirroredColumn = column < GRID / 2 ? column : GRID - 1 - column;
+        const bit = row * (GRID / 2) + mirroredColumn;
+        filled = ((hash[6 + (bit >> 3)] >> (bit & 7)) & 1) === 1;
+      }
+
+      const color = filled ? foreground : background;
+      const offset = y * rowLength + 1 + x * 3;
+      pixels[offset] = color[0];
+      pixels[offset + 1] = color[1];
+      pixels[offset + 2] = color[2];
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(SIZE, 0);
+  header.writeUInt32BE(SIZE, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  const png = Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk("IHDR", header),
+    createChunk("IDAT", deflateSync(pixels)),
+    createChunk("IEND", Buffer.alloc(0)),
+  ]);
+
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+/**
+ * Build a PNG chunk: length, type, data and CRC of type and data
+ */
+function createChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,196 @@
+/**
+ * Notification Service
+ *
+ * Service responsible for in-app notifications about marketplace events.
+ * Handles emitting notifications from other services, listing them and marking them as read.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  CreateNotificationCommand,
+  MarkNotificationsReadCommand,
+  MarkNotificationsReadResponseDTO,
+  NotificationsListResponseDTO,
+  NotificationsQueryParams,
+} from "../../types";
+
+/**
+ * Custom error class for notification-related business logic errors
+ */
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "NotificationError";
+  }
+}
+
+const NOTIFICATION_COLUMNS = "id, type, title, message, project_id, read_at, created_at";
+
+/**
+ * Service for managing in-app notifications
+ *
+ * Notifications are emitted by ProposalService, ProjectService and ReviewService
+ * for the other party of the project and read by the recipient.
+ */
+export class NotificationService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Emits a notification for a user
+   *
+   * Business rules:
+   * - Delivery is best-effort: a failure is logged and never breaks the action that triggered it
+   * - Users are never notified about their own actions
+   *
+   * @param command - Recipient, actor, type, project and content of the notification
+   *
+   * @example
+   * await notificationService.notify({
+   *   user_id: project.client_id,
+   *   actor_id: artisanId,
+   *   type: "proposal_received",
+   *   project_id: projectId,
+   *   title: "Nowa oferta",
+   *   message: "Otrzymałeś nową ofertę do swojego projektu.",
+   * });
+   */
+  async notify(command: CreateNotificationCommand): Promise<void> {
+    if (command.user_id === command.actor_id) {
+      return;
+    }
+
+    try {
+      const { error } = await this.supabase.from("notifications").insert(command);
+
+      if (error) {
+        // eslint-disable-next-line no-console
+        console.error("[NotificationService] Failed to create notification:", error);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[NotificationService] Failed to create notification:", error);
+    }
+  }
+
+  /**
+   * Lists notifications of a user, newest first
+   *
+   * @param userId - ID of the recipient
+   * @param params - Pagination and unread_only filter
+   * @returns Promise containing notifications, pagination metadata and the unread count
+   * @throws NotificationError if the query fails
+   *
+   * @example
+   * const result = await notificationService.listNotifications(userId, { page: 1, limit: 20, unread_only: false });
+   */
+  async listNotifications(
+    userId: string,
+    params: Required<NotificationsQueryParams>
+  ): Promise<NotificationsListResponseDTO> {
+    // Step 1: Fetch a page of notifications with the total count
+    const offset = (params.page - 1) * params.limit;
+
+    let query = this.supabase
+      .from("notifications")
+      .select(NOTIFICATION_COLUMNS, { count: "exact" })
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (params.unread_only) {
+      query = query.is("read_at", null);
+    }
+
+    const { data: notifications, count, error } = await query.range(offset, offset + params.limit - 1);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[NotificationService] Failed to fetch notifications:", error);
+      throw new NotificationError("Nie udało się pobrać powiadomień", "NOTIFICATIONS_FETCH_FAILED", 500);
+    }
+
+    // Step 2: Count unread notifications for the bell badge
+    const unreadCount = await this.getUnreadCount(userId);
+
+    const total = count ?? 0;
+
+    return {
+      data: notifications || [],
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        total_pages: Math.ceil(total / params.limit),
+      },
+      unread_count: unreadCount,
+    };
+  }
+
+  /**
+   * Marks notifications of a user as read
+   *
+   * Business rules:
+   * - Only the recipient's own notifications are updated, unknown IDs are ignored
+   * - Notifications that are already read keep their original read_at
+   *
+   * @param userId - ID of the recipient
+   * @param dto - Either notification_ids or all: true
+   * @returns Promise containing the number of updated notifications and the remaining unread count
+   * @throws NotificationError if the update fails
+   *
+   * @example
+   * await notificationService.markAsRead(userId, { all: true });
+   */
+  async markAsRead(userId: string, dto: MarkNotificationsReadCommand): Promise<MarkNotificationsReadResponseDTO> {
+    // Step 1: Update unread notifications of the user
+    let query = this.supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    if (!dto.all && dto.notification_ids) {
+      query = query.in("id", dto.notification_ids);
+    }
+
+    const { data: updated, error } = await query.select("id");
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[NotificationService] Failed to mark notifications as read:", error);
+      throw new NotificationError(
+        "Nie udało się oznaczyć powiadomień jako przeczytane",
+        "NOTIFICATIONS_UPDATE_FAILED",
+        500
+      );
+    }
+
+    // Step 2: Return the remaining unread count
+    return {
+      updated_count: (updated || []).length,
+      unread_count: await this.getUnreadCount(userId),
+    };
+  }
+
+  /**
+   * Counts unread notifications of a user
+   */
+  private async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from("notifications")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[NotificationService] Failed to count unread notifications:", error);
+      throw new NotificationError("Nie udało się pobrać powiadomień", "NOTIFICATIONS_FETCH_FAILED", 500);
+    }
+
+    return count ?? 0;
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * OpenAI-Compatible Image Generation Service
+ *
+ * Generates furniture images using any endpoint implementing the OpenAI Images API
+ * (OpenAI, Azure-style proxies, LocalAI, vLLM, ...).
+ * Uses /images/generations for new images and /images/edits when refining an existing image.
+ */
+
+import type { ImageCandidatesResult, ImageGenerationResult, ImageProvider } from "./image-provider.service";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+interface OpenAIImageServiceConfig {
+  apiKey: string;
+  /** Base URL of the API (default: https://api.openai.com/v1) */
+  baseUrl?: string;
+  /** Image model to use (default: OPENAI_IMAGE_CONFIG.MODEL) */
+  model?: string;
+}
+
+interface ImagesResponse {
+  data?: {
+    b64_json?: string;
+    url?: string;
+  }[];
+  error?: {
+    message?: string;
+    code?: string;
+  };
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+class OpenAIImageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = "OpenAIImageError";
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const OPENAI_IMAGE_CONFIG = {
+  MODEL: "gpt-image-1",
+  BASE_URL: "https://api.openai.com/v1",
+  TIMEOUT_MS: 120000, // 2 minutes for image generation
+  SIZE: "1024x1024",
+  MAX_PROMPT_LENGTH: 4000,
+};
+
+// ============================================================================
+// OpenAIImageService Class
+// ============================================================================
+
+export class OpenAIImageService implements ImageProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  /**
+   * Initialize OpenAIImageService with API configuration
+   *
+   * @param config Configuration object with API key, optional base URL and model
+   * @throws {Error} If API key is not provided
+   */
+  constructor(config: OpenAIImageServiceConfig) {
+    if (!config.apiKey) {
+      throw new Error("OpenAI-compatible images API key is required");
+    }
+
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || OPENAI_IMAGE_CONFIG.BASE_URL).replace(/\/+$/, "");
+    this.model = config.model || OPENAI_IMAGE_CONFIG.MODEL;
+  }
+
+  /**
+   * Generate an image from a prompt
+   *
+   * @param prompt The enhanced positive prompt for image generation
+   * @param negativePrompt Optional negative prompt, appended as "Avoid: ..." (the API has no negative prompt)
+   * @param referenceImageUrl Optional image to edit instead of generating from scratch
+   * @returns Promise resolving to an ImageGenerationResult
+   */
+  async generateImage(
+    prompt: string,
+    negativePrompt?: string,
+    referenceImageUrl?: string
+  ): Promise<ImageGenerationResult> {
+    const startTime = performance.now();
+
+    try {
+      const imageUrls = await this.requestImages(prompt, negativePrompt, 1, referenceImageUrl);
+
+      return {
+        imageUrl: imageUrls[0],
+        modelUsed: this.model,
+        generationTime: Math.round(performance.now() - startTime),
+        success: true,
+      };
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[OpenAIImageService] Generation failed:", error);
+
+      return {
+        imageUrl: "",
+        modelUsed: this.model,
+        generationTime: Math.round(performance.now() - startTime),
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      };
+    }
+  }
+
+  /**
+   * Generate several candidate images from the same prompt
+   *
+   * All candidates are requested in a single call using the "n" parameter of the API.
+   *
+   * @param prompt The enhanced positive prompt for image generation
+   * @param negativePrompt Negative prompt to exclude elements
+   * @param count Number of candidates to generate
+   * @returns Promise resolving to an ImageCandidatesResult
+   */
+  async generateImageCandidates(prompt: string, negativePrompt: string, count: number): Promise<ImageCandidatesResult> {
+    const startTime = performance.now();
+
+    try {
+      const imageUrls = await this.requestImages(prompt, negativePrompt, count);
+
+      return {
+        imageUrls,
+        modelUsed: this.model,
+        generationTime: Math.round(performance.now() - startTime),
+        success: true,
+      };
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[OpenAIImageService] Candidate generation failed:", error);
+
+      return {
+        imageUrls: [],
+        modelUsed: this.model,
+        generationTime: Math.round(performance.now() - startTime),
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      };
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Request images from the generations endpoint, or from the edits endpoint when a reference image is given
+   *
+   * @returns Generated images as base64 data URLs
+   * @throws {OpenAIImageError} If the prompt is invalid, the API fails or returns no images
+   */
+  private async requestImages(
+    prompt: string,
+    negativePrompt: string | undefined,
+    count: number,
+    referenceImageUrl?: string
+  ): Promise<string[]> {
+    if (!prompt || prompt.trim().length === 0) {
+      throw new OpenAIImageError("Prompt cannot be empty", "VALIDATION_ERROR");
+    }
+
+    const fullPrompt = (
+      negativePrompt && negativePrompt.trim() ? `${prompt}\n\nAvoid: ${negativePrompt}` : prompt
+    ).slice(0, OPENAI_IMAGE_CONFIG.MAX_PROMPT_LENGTH);
+
+    const response = referenceImageUrl
+      ? await this.callAPI("/images/edits", await this.buildEditForm(fullPrompt, count, referenceImageUrl))
+      : await this.callAPI(
+          "/images/generations",
+          JSON.stringify({ model: this.model, prompt: fullPrompt, n: count, size: OPENAI_IMAGE_CONFIG.SIZE })
+        );
+
+    const images = response.data ?? [];
+    const imageUrls = await Promise.all(images.map((image) => this.toDataUrl(image)));
+    const validImageUrls = imageUrls.filter((url): url is string => Boolean(url));
+
+    if (validImageUrls.length === 0) {
+      throw new OpenAIImageError("API response does not contain images", "NO_IMAGES");
+    }
+
+    return validImageUrls;
+  }
+
+  /**
+   * Build the multipart form of the edits endpoint with the reference image
+   */
+  private async buildEditForm(prompt: string, count: number, referenceImageUrl: string): Promise<FormData> {
+    const referenceResponse = await fetch(referenceImageUrl);
+    if (!referenceResponse.ok) {
+      throw new OpenAIImageError("Could not download the reference image", "REFERENCE_IMAGE_ERROR");
+    }
+
+    const form = new FormData();
+    form.append("model", this.model);
+    form.append("prompt", prompt);
+    form.append("n", String(count));
+    form.append("size", OPENAI_IMAGE_CONFIG.SIZE);
+    form.append("image", await referenceResponse.blob(), "reference.png");
+
+    return form;
+  }
+
+  /**
+   * Call an Images API endpoint
+   *
+   * @throws {OpenAIImageError} If the API returns an error, times out or cannot be reached
+   */
+  private async callAPI(path: string, body: string | FormData): Promise<ImagesResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), OPENAI_IMAGE_CONFIG.TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          // FormData sets its own multipart content type with the boundary
+          ...(typeof body === "string" && { "Content-Type": "application/json" }),
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      const data = (await response.json().catch(() => ({}))) as ImagesResponse;
+
+      if (!response.ok || data.error) {
+        throw new OpenAIImageError(
+          `Images API error: ${data.error?.message || `HTTP ${response.status} error`}`,
+          data.error?.code || "API_ERROR"
+        );
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof OpenAIImageError) {
+        throw error;
+      }
+
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new OpenAIImageError("Image generation request timed out (exceeded 120 seconds)", "NETWORK_ERROR");
+      }
+
+      throw new OpenAIImageError(`Failed to communicate with images API: ${String(error)}`, "NETWORK_ERROR");
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Convert an image of the API response to a base64 data URL
+   *
+   * Models return either base64 data (gpt-image-1) or a temporary URL (dall-e), which is downloaded
+   * because generated images are stored from base64 data.
+   */
+  private async toDataUrl(image: { b64_json?: string; url?: string }): Promise<string | null> {
+    if (image.b64_json) {
+      return `data:image/png;base64,${image.b64_json}`;
+    }
+
+    if (image.url) {
+      const response = await fetch(image.url);
+      if (!response.ok) {
+        return null;
+      }
+      const contentType = response.headers.get("content-type") || "image/png";
+      const buffer = Buffer.from(await response.arrayBuffer());
+      return `data:${contentType};base64,${buffer.toString("base64")}`;
+    }
+
+    return null;
+  }
+}
@@ -5,6 +5,8 @@
  * Uses the /chat/completions endpoint with image modality support.
  */
 
+import type { ImageCandidatesResult, ImageGenerationResult, ImageProvider } from "./image-provider.service";
+
 // ============================================================================
 // Types & Interfaces
 // ============================================================================
@@ -12,14 +14,8 @@
 interface OpenRouterImageServiceConfig {
   apiKey: string;
   baseUrl?: string;
-}
-
-interface ImageGenerationResult {
-  imageUrl: string;
-  modelUsed: string;
-  generationTime: number;
-  success: boolean;
-  error?: string;
+  /** Image model to use (default: OPENROUTER_IMAGE_CONFIG.MODEL) */
+  model?: string;
 }
 
 interface ChatCompletionMessage {
@@ -87,7 +83,7 @@ class NetworkError extends OpenRouterImageError {
 // ============================================================================
 
 const OPENROUTER_IMAGE_CONFIG = {
-  // Use Gemini Image Generation model available on OpenRouter
+  // Default model: Gemini Image Generation available on OpenRouter (overridable with IMAGE_MODEL)
   MODEL: "google/gemini-2.5-flash-image-preview",
   // This model supports image generation with modalities parameter
   // See: https://openrouter.ai/docs/features/multimodal/image-generation
@@ -100,14 +96,16 @@ const OPENROUTER_IMAGE_CONFIG = {
 // OpenRouterImageService Class
 // ============================================================================
 
-export class OpenRouterImageService {
+export class OpenRouterImageService implements ImageProvider {
+  readonly name = "openrouter";
+  readonly model: string;
   private readonly apiKey: string;
   private readonly baseUrl: string;
 
   /**
    * Initialize OpenRouterImageService with API configuration
    *
-   * @param config Configuration object with API key
+   * @param config Configuration object with API key and optional model
    * @throws {Error} If API key is not provided
    */
   constructor(config: OpenRouterImageServiceConfig) {
@@ -117,19 +115,25 @@ export class OpenRouterImageService {
 
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || "https://openrouter.ai/api/v1";
+    this.model = config.model || OPENROUTER_IMAGE_CONFIG.MODEL;
   }
 
   /**
-   * Generate an image from a prompt using OpenRouter with Gemini Image Generation
+   * Generate an image from a prompt using OpenRouter (Gemini Image Generation by default)
    *
    * @param prompt The enhanced positive prompt for image generation
    * @param negativePrompt Optional negative prompt to exclude elements (may not be used by all models)
+   * @param referenceImageUrl Optional image to start from when refining an existing design
    * @returns Promise resolving to an ImageGenerationResult
    * @throws {ValidationError} If the prompt is invalid
    * @throws {HttpError} If the API returns an error
    * @throws {NetworkError} If there's a network issue
    */
-  async generateImage(prompt: string, negativePrompt?: string): Promise<ImageGenerationResult> {
+  async generateImage(
+    prompt: string,
+    negativePrompt?: string,
+    referenceImageUrl?: string
+  ): Promise<ImageGenerationResult> {
     const startTime = performance.now();
 
     try {
@@ -137,7 +141,7 @@ export class OpenRouterImageService {
 
       // Combine prompts for better results
       const combinedPrompt = this.combineProfessionalPrompt(prompt, negativePrompt);
-      const payload = this.buildRequestPayload(combinedPrompt);
+      const payload = this.buildRequestPayload(combinedPrompt, referenceImageUrl);
       const response = await this.callChatAPI(payload);
       const imageUrl = this.extractImageUrl(response);
 
@@ -145,7 +149,7 @@ export class OpenRouterImageService {
 
       return {
         imageUrl,
-        modelUsed: OPENROUTER_IMAGE_CONFIG.MODEL,
+        modelUsed: this.model,
         generationTime,
         success: true,
       };
@@ -158,7 +162,7 @@ export class OpenRouterImageService {
       if (error instanceof OpenRouterImageError) {
         return {
           imageUrl: "",
-          modelUsed: OPENROUTER_IMAGE_CONFIG.MODEL,
+          modelUsed: this.model,
           generationTime,
           success: false,
           error: error.message,
@@ -168,7 +172,7 @@ export class OpenRouterImageService {
       if (error instanceof Error) {
         return {
           imageUrl: "",
-          modelUsed: OPENROUTER_IMAGE_CONFIG.MODEL,
+          modelUsed: this.model,
           generationTime,
           success: false,
           error: error.message,
@@ -177,7 +181,7 @@ export class OpenRouterImageService {
 
       return {
         imageUrl: "",
-        modelUsed: OPENROUTER_IMAGE_CONFIG.MODEL,
+        modelUsed: this.model,
         generationTime,
         success: false,
         error: "Unknown error occurred",
@@ -185,6 +189,32 @@ export class OpenRouterImageService {
     }
   }
 
+  /**
+   * Generate several candidate images from the same prompt
+   *
+   * Candidates are requested in parallel, one image per request. Failed candidates are skipped,
+   * so the result may contain fewer images than requested; it fails only when no image was generated.
+   *
+   * @param prompt The enhanced positive prompt for image generation
+   * @param negativePrompt Optional negative prompt to exclude elements
+   * @param count Number of candidates to generate
+   * @returns Promise resolving to an ImageCandidatesResult
+   */
+  async generateImageCandidates(prompt: string, negativePrompt: string, count: number): Promise<ImageCandidatesResult> {
+    const startTime = performance.now();
+
+    const results = await Promise.all(Array.from({ length: count }, () => this.generateImage(prompt, negativePrompt)));
+    const imageUrls = results.filter((result) => result.success && result.imageUrl).map((result) => result.imageUrl);
+
+    return {
+      imageUrls,
+      modelUsed: this.model,
+      generationTime: Math.round(performance.now() - startTime),
+      success: imageUrls.length > 0,
+      error: imageUrls.length > 0 ? undefined : results.find((result) => result.error)?.error,
+    };
+  }
+
   // ============================================================================
   // Private Methods
   // ============================================================================
@@ -236,16 +266,25 @@ export class OpenRouterImageService {
   /**
    * Build the request payload for the chat completions API with image generation
    *
+   * When a reference image is given, it is sent along with the prompt so the model edits
+   * that image instead of starting from scratch.
+   *
    * @param prompt The combined prompt with positive and negative guidance
+   * @param referenceImageUrl Optional image the model should start from
    * @returns Request payload object
    */
-  private buildRequestPayload(prompt: string): Record<string, unknown> {
+  private buildRequestPayload(prompt: string, referenceImageUrl?: string): Record<string, unknown> {
     return {
-      model: OPENROUTER_IMAGE_CONFIG.MODEL,
+      model: this.model,
       messages: [
         {
           role: "user",
-          content: prompt,
+          content: referenceImageUrl
+            ? [
+                { type: "text", text: prompt },
+                { type: "image_url", image_url: { url: referenceImageUrl } },
+              ]
+            : prompt,
         },
       ],
       // Enable image generation modality
@@ -268,7 +307,7 @@ export class OpenRouterImageService {
   private async callChatAPI(payload: Record<string, unknown>): Promise<ChatCompletionResponse> {
     try {
       // eslint-disable-next-line no-console
-      console.log("[OpenRouterImageService] Calling chat API with model:", OPENROUTER_IMAGE_CONFIG.MODEL);
+      console.log("[OpenRouterImageService] Calling chat API with model:", this.model);
 
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), OPENROUTER_IMAGE_CONFIG.TIMEOUT_MS);
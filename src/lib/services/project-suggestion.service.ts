@@ -0,0 +1,263 @@
+/**
+ * Project Suggestion Service
+ *
+ * Suggests the category and material of a new project from the prompt of the generated image.
+ * Keywords found in the prompt are mapped to the seeded dictionary entries (categories and materials
+ * tables), so the client starts from a ranked list instead of picking from the full dictionaries.
+ */
+
+import type {
+  CategoryDTO,
+  DictionarySuggestionDTO,
+  MaterialDTO,
+  ProjectSuggestionsDTO,
+  SuggestionConfidence,
+} from "../../types";
+import { PromptEngineerService } from "./prompt-engineer.service";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * Keywords identifying a dictionary entry
+ *
+ * Every keyword must start a word; a phrase scores one point per word, so
+ * "szafka nocna" outweighs "szafka" alone.
+ */
+interface DictionaryKeywords {
+  /** Polish stems, matched as word prefixes ("krzes" matches "krzesło", "krzesła") */
+  stems: string[];
+  /** English words, matched as whole words with an optional plural ending */
+  words: string[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Keywords of the seeded categories (see 20251019120000_seed_dictionary_tables.sql)
+ */
+const CATEGORY_KEYWORDS: Record<string, DictionaryKeywords> = {
+  Krzesła: { stems: ["krzes", "taboret", "hoker"], words: ["chair", "stool", "dining chair", "bar stool"] },
+  Stoły: { stems: ["stół", "stoł", "stół jadaln", "stoł jadaln"], words: ["table", "dining table"] },
+  Szafy: { stems: ["szaf", "garderob"], words: ["wardrobe", "closet", "armoire"] },
+  Komody: { stems: ["komod"], words: ["dresser", "commode", "chest of drawers"] },
+  Regały: { stems: ["regał", "półk", "biblioteczk"], words: ["bookcase", "bookshelf", "shelf", "shelving"] },
+  Biurka: { stems: ["biurk", "sekretarzyk"], words: ["desk", "writing desk"] },
+  Łóżka: { stems: ["łóżk", "łóżek", "łoże"], words: ["bed", "bed frame"] },
+  Fotele: { stems: ["fotel", "bujak"], words: ["armchair", "lounge chair", "recliner", "rocking chair"] },
+  Ławki: { stems: ["ławk", "ławecz"], words: ["bench"] },
+  "Stoliki kawowe": {
+    stems: ["stolik", "stolik kawow", "ława", "ławy", "ławę"],
+    words: ["coffee table", "side table"],
+  },
+  "Szafki nocne": {
+    stems: ["szafk nocn", "stolik nocn", "szafecz nocn"],
+    words: ["nightstand", "bedside table", "night table"],
+  },
+  Witryny: {
+    stems: ["witryn", "kredens", "gablot"],
+    words: ["display cabinet", "vitrine", "china cabinet", "sideboard"],
+  },
+};
+
+/**
+ * Keywords of the seeded materials (see 20251019120000_seed_dictionary_tables.sql)
+ */
+const MATERIAL_KEYWORDS: Record<string, DictionaryKeywords> = {
+  "Drewno dębowe": { stems: ["dąb", "dęb"], words: ["oak"] },
+  "Drewno bukowe": { stems: ["bukow", "buku"], words: ["beech", "buk"] },
+  "Drewno sosnowe": { stems: ["sosn"], words: ["pine"] },
+  "Drewno orzechowe": { stems: ["orzech"], words: ["walnut"] },
+  "Drewno jesionowe": { stems: ["jesion"], words: ["ash"] },
+  Metal: { stems: ["metal", "mosiądz", "mosięż", "żeliw"], words: ["metal", "iron", "brass", "wrought iron"] },
+  Stal: { stems: ["stal", "stal nierdzewn"], words: ["steel", "stainless steel"] },
+  Aluminium: { stems: ["alumin"], words: ["aluminum", "aluminium"] },
+  Szkło: { stems: ["szkł", "szkl"], words: ["glass", "tempered glass"] },
+  MDF: { stems: ["mdf"], words: ["mdf"] },
+  "Płyta wiórowa": { stems: ["wiórow", "płyt wiórow"], words: ["chipboard", "particleboard", "particle board"] },
+  Sklejka: { stems: ["sklejk"], words: ["plywood"] },
+  Ratan: { stems: ["ratan", "rattan"], words: ["rattan"] },
+  Wiklina: { stems: ["wiklin"], words: ["wicker"] },
+  Tkanina: {
+    stems: ["tkanin", "welur", "aksamit", "bukla", "tapicer"],
+    words: ["fabric", "velvet", "linen", "boucle"],
+  },
+  "Skóra naturalna": { stems: ["skór", "skór natural"], words: ["leather", "genuine leather"] },
+  "Skóra ekologiczna": {
+    stems: ["ekoskór", "skór ekologiczn", "eko skór"],
+    words: ["faux leather", "vegan leather", "leatherette"],
+  },
+  "Tworzywo sztuczne": { stems: ["tworzyw", "plastik", "akryl"], words: ["plastic", "acrylic"] },
+  Beton: { stems: ["beton"], words: ["concrete"] },
+  Marmur: { stems: ["marmur"], words: ["marble"] },
+};
+
+/**
+ * Materials implied by the generic material groups of PromptEngineerService
+ *
+ * A group only adds weak evidence, and only when no material of the group was named directly
+ * ("drewniany stół" suggests every wood equally, "dębowy drewniany stół" only oak).
+ */
+const MATERIAL_GROUPS: Record<string, string[]> = {
+  wood: ["Drewno dębowe", "Drewno bukowe", "Drewno sosnowe", "Drewno orzechowe", "Drewno jesionowe"],
+  metal: ["Metal", "Stal", "Aluminium"],
+  leather: ["Skóra naturalna", "Skóra ekologiczna"],
+  fabric: ["Tkanina"],
+  upholstery: ["Tkanina"],
+  plastic: ["Tworzywo sztuczne"],
+  glass: ["Szkło"],
+};
+
+const SUGGESTION_CONFIG = {
+  /** Score of a material implied only by its generic group */
+  GROUP_SCORE: 0.5,
+  /** Minimum share of the total score for "high" confidence */
+  HIGH_CONFIDENCE_SHARE: 0.6,
+  /** Minimum share of the total score for "medium" confidence */
+  MEDIUM_CONFIDENCE_SHARE: 0.3,
+  /** Default number of suggestions per dictionary */
+  DEFAULT_LIMIT: 3,
+};
+
+// ============================================================================
+// ProjectSuggestionService Class
+// ============================================================================
+
+/**
+ * Service for suggesting project dictionary entries from an image prompt
+ */
+export class ProjectSuggestionService {
+  constructor(private promptEngineer: PromptEngineerService = new PromptEngineerService()) {}
+
+  /**
+   * Suggest categories and materials for a project created from an image
+   *
+   * Business rules:
+   * - Only entries present in the given dictionaries are suggested (matched by name)
+   * - Suggestions are ranked by score; entries without any evidence are omitted
+   * - Confidence is the share of the entry's score in the total score of its dictionary;
+   *   an entry implied only by a generic material group never has "high" confidence
+   *
+   * @param description Prompt of the generated image
+   * @param categories Categories dictionary
+   * @param materials Materials dictionary
+   * @param limit Maximum number of suggestions per dictionary (default: 3)
+   * @returns Ranked category and material suggestions (empty lists when nothing was recognized)
+   *
+   * @example
+   * const suggestions = service.suggest("Dębowy stół jadalny na metalowych nogach", categories, materials);
+   * // suggestions.categories[0] => { id: "...", name: "Stoły", score: 3, confidence: "high" }
+   */
+  suggest(
+    description: string,
+    categories: CategoryDTO[],
+    materials: MaterialDTO[],
+    limit = SUGGESTION_CONFIG.DEFAULT_LIMIT
+  ): ProjectSuggestionsDTO {
+    const text = (description || "").toLowerCase();
+
+    // Step 1: Score categories by keywords
+    const categoryScores = this.scoreKeywords(text, CATEGORY_KEYWORDS);
+
+    // Step 2: Score materials by keywords, then add weak scores of generic material groups
+    const materialScores = this.scoreKeywords(text, MATERIAL_KEYWORDS);
+    for (const group of this.promptEngineer.detectMaterials(text)) {
+      const groupMaterials = MATERIAL_GROUPS[group] ?? [];
+      if (groupMaterials.some((name) => materialScores.has(name))) {
+        continue;
+      }
+      for (const name of groupMaterials) {
+        materialScores.set(name, SUGGESTION_CONFIG.GROUP_SCORE);
+      }
+    }
+
+    // Step 3: Map scores to dictionary entries and rank them
+    return {
+      categories: this.rank(categoryScores, categories, limit),
+      materials: this.rank(materialScores, materials, limit),
+    };
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Score dictionary entries by keywords found in the text
+   *
+   * @returns Map of entry name to score (only entries with a match)
+   */
+  private scoreKeywords(text: string, dictionary: Record<string, DictionaryKeywords>): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    for (const [name, { stems, words }] of Object.entries(dictionary)) {
+      let score = 0;
+      for (const stem of stems) {
+        if (buildKeywordPattern(stem, "\\p{L}*").test(text)) {
+          score += stem.split(" ").length;
+        }
+      }
+      for (const word of words) {
+        if (buildKeywordPattern(word, "(?:e?s)?(?!\\p{L})").test(text)) {
+          score += word.split(" ").length;
+        }
+      }
+      if (score > 0) {
+        scores.set(name, score);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Convert scores into ranked suggestions of the entries present in the dictionary
+   */
+  private rank(
+    scores: Map<string, number>,
+    dictionary: { id: string; name: string }[],
+    limit: number
+  ): DictionarySuggestionDTO[] {
+    const entries = dictionary
+      .map((entry) => ({ entry, score: scores.get(entry.name) ?? 0 }))
+      .filter(({ score }) => score > 0);
+    const total = entries.reduce((sum, { score }) => sum + score, 0);
+
+    return entries
+      .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name, "pl"))
+      .slice(0, limit)
+      .map(({ entry, score }) => ({
+        id: entry.id,
+        name: entry.name,
+        score,
+        confidence: toConfidence(score, score / total),
+      }));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build a pattern matching a keyword at the start of a word
+ *
+ * Words of a phrase may be followed by any letters (inflection) and are separated by whitespace or hyphens.
+ */
+function buildKeywordPattern(keyword: string, ending: string): RegExp {
+  const words = keyword.split(" ").map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`(?<!\\p{L})${words.join("\\p{L}*[\\s-]+")}${ending}`, "u");
+}
+
+function toConfidence(score: number, share: number): SuggestionConfidence {
+  if (share >= SUGGESTION_CONFIG.HIGH_CONFIDENCE_SHARE && score > SUGGESTION_CONFIG.GROUP_SCORE) {
+    return "high";
+  }
+  if (share >= SUGGESTION_CONFIG.MEDIUM_CONFIDENCE_SHARE) {
+    return "medium";
+  }
+  return "low";
+}
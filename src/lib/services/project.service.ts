@@ -5,9 +5,137 @@
  * Handles project creation, validation, and business logic around project lifecycle.
  */
 
+import { z } from "zod";
 import type { SupabaseClient } from "../../db/supabase.client";
-import type { CreateProjectCommand, ProjectDTO, UpdateProjectStatusResponseDTO, ProjectStatus } from "../../types";
-import type { Database } from "../../db/database.types";
+import type {
+  CreateProjectCommand,
+  ProjectBudgetDTO,
+  ProjectDimensionsDTO,
+  ProjectDTO,
+  ProjectHistoryDTO,
+  ProjectListItemDTO,
+  ProjectSearchSnippetSegmentDTO,
+  ProjectSortOption,
+  UpdateProjectStatusResponseDTO,
+  ProjectStatus,
+  CurrencyCode,
+} from "../../types";
+import type { Database, Tables } from "../../db/database.types";
+import { NotificationService } from "./notification.service";
+import { MailService } from "./mail.service";
+import { SavedSearchService } from "./saved-search.service";
+import { isProposalExpired } from "../project-format";
+
+/**
+ * Human-readable project statuses used in notifications
+ */
+const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  open: "Otwarty",
+  in_progress: "W realizacji",
+  completed: "Zakończony",
+  closed: "Zamknięty",
+};
+
+type ProjectSizeAndBudgetColumns = Pick<
+  Tables<"projects">,
+  "width" | "depth" | "height" | "dimension_unit" | "budget_min" | "budget_max" | "budget_currency"
+>;
+
+/**
+ * Maps the structured dimension columns of a project to ProjectDimensionsDTO (null when no dimensions are given)
+ */
+function toDimensionsDTO(project: ProjectSizeAndBudgetColumns): ProjectDimensionsDTO | null {
+  if (!project.dimension_unit) {
+    return null;
+  }
+
+  return { width: project.width, depth: project.depth, height: project.height, unit: project.dimension_unit };
+}
+
+/**
+ * Maps the structured budget columns of a project to ProjectBudgetDTO (null when no budget is given)
+ */
+function toBudgetDTO(project: ProjectSizeAndBudgetColumns): ProjectBudgetDTO | null {
+  if (!project.budget_currency) {
+    return null;
+  }
+
+  return { min: project.budget_min, max: project.budget_max, currency: project.budget_currency };
+}
+
+/**
+ * Columns of the project list sort orders; every order uses the project id as a tie breaker
+ */
+const PROJECT_LIST_SORTS: Record<
+  ProjectSortOption,
+  { column: "created_at" | "budget_sort" | "proposals_count"; ascending: boolean }
+> = {
+  newest: { column: "created_at", ascending: false },
+  oldest: { column: "created_at", ascending: true },
+  budget_desc: { column: "budget_sort", ascending: false },
+  fewest_proposals: { column: "proposals_count", ascending: true },
+};
+
+/**
+ * Values a cursor may carry for each sort column; the cursor goes into a PostgREST filter,
+ * so anything else is rejected
+ */
+const PROJECT_CURSOR_VALUES: Record<(typeof PROJECT_LIST_SORTS)[ProjectSortOption]["column"], z.ZodTypeAny> = {
+  created_at: z.string().datetime({ offset: true }),
+  budget_sort: z.number().finite(),
+  proposals_count: z.number().int().nonnegative(),
+};
+
+const projectCursorIdSchema = z.string().uuid();
+
+interface ProjectListCursor {
+  sort: ProjectSortOption;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Encodes the position after the last project of a page as an opaque cursor
+ */
+function encodeProjectCursor(cursor: ProjectListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString("base64url");
+}
+
+/**
+ * Decodes a cursor created by encodeProjectCursor (null when it is malformed)
+ */
+function decodeProjectCursor(cursor: string): ProjectListCursor | null {
+  try {
+    const [sort, value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof sort !== "string" || !Object.hasOwn(PROJECT_LIST_SORTS, sort)) {
+      return null;
+    }
+    const sortOption = sort as ProjectSortOption;
+    if (
+      !PROJECT_CURSOR_VALUES[PROJECT_LIST_SORTS[sortOption].column].safeParse(value).success ||
+      !projectCursorIdSchema.safeParse(id).success
+    ) {
+      return null;
+    }
+    return { sort: sortOption, value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Splits a search snippet (matched words wrapped in ⟦ ⟧ by search_projects) into plain and highlighted segments
+ */
+export function parseSearchSnippet(snippet: string): ProjectSearchSnippetSegmentDTO[] {
+  return snippet
+    .split(/(⟦[^⟧]*⟧)/)
+    .filter((part) => part !== "")
+    .map((part) =>
+      part.startsWith("⟦") && part.endsWith("⟧")
+        ? { text: part.slice(1, -1), highlighted: true }
+        : { text: part, highlighted: false }
+    );
+}
 
 /**
  * Custom error class for project-related business logic errors
@@ -30,7 +158,15 @@ export class ProjectError extends Error {
  * of dependencies (images, categories, materials) and business rules.
  */
 export class ProjectService {
-  constructor(private supabase: SupabaseClient) {}
+  private notificationService: NotificationService;
+  private mailService: MailService;
+  private savedSearchService: SavedSearchService;
+
+  constructor(private supabase: SupabaseClient) {
+    this.notificationService = new NotificationService(supabase);
+    this.mailService = new MailService(supabase);
+    this.savedSearchService = new SavedSearchService(supabase);
+  }
 
   /**
    * Creates a new furniture project
@@ -38,8 +174,10 @@ export class ProjectService {
    * Business rules:
    * - Only clients can create projects
    * - Generated image must exist and belong to the client
+   * - Generated image must not be a pending candidate (it has to be kept first)
    * - Generated image must not be already used (enforced by unique constraint on generated_image_id)
    * - Category and material must exist
+   * - Artisans with a matching saved search are alerted about the new project
    *
    * @param dto - Project creation data
    * @param clientId - ID of the client creating the project
@@ -51,15 +189,15 @@ export class ProjectService {
    *   generated_image_id: "uuid-1",
    *   category_id: "uuid-2",
    *   material_id: "uuid-3",
-   *   dimensions: "100x50x80 cm",
-   *   budget_range: "1000-2000 PLN"
+   *   dimensions: { width: 100, depth: 50, height: 80, unit: "cm" },
+   *   budget: { min: 1000, max: 2000, currency: "PLN" }
    * }, clientId);
    */
   async createProject(dto: CreateProjectCommand, clientId: string): Promise<ProjectDTO> {
     // Step 1: Validate generated image exists and belongs to client
     const { data: generatedImage, error: imageError } = await this.supabase
       .from("generated_images")
-      .select("id, user_id")
+      .select("id, user_id, is_candidate")
       .eq("id", dto.generated_image_id)
       .single();
 
@@ -71,6 +209,10 @@ export class ProjectService {
       throw new ProjectError("Nie masz uprawnień do tego obrazu", "IMAGE_FORBIDDEN", 403);
     }
 
+    if (generatedImage.is_candidate) {
+      throw new ProjectError("Najpierw zachowaj wybrany wariant obrazu", "IMAGE_IS_CANDIDATE", 409);
+    }
+
     // Step 2: Check if image is already used (check if any project uses this image)
     const { data: existingProject } = await this.supabase
       .from("projects")
@@ -111,8 +253,13 @@ export class ProjectService {
       category_id: dto.category_id,
       material_id: dto.material_id,
       status: "open",
-      dimensions: dto.dimensions || null,
-      budget_range: dto.budget_range || null,
+      width: dto.dimensions?.width ?? null,
+      depth: dto.dimensions?.depth ?? null,
+      height: dto.dimensions?.height ?? null,
+      dimension_unit: dto.dimensions?.unit ?? null,
+      budget_min: dto.budget?.min ?? null,
+      budget_max: dto.budget?.max ?? null,
+      budget_currency: dto.budget ? (dto.budget.currency ?? "PLN") : null,
     };
 
     const { data: project, error: projectError } = await this.supabase
@@ -123,8 +270,13 @@ export class ProjectService {
         id,
         client_id,
         status,
-        dimensions,
-        budget_range,
+        width,
+        depth,
+        height,
+        dimension_unit,
+        budget_min,
+        budget_max,
+        budget_currency,
         accepted_proposal_id,
         accepted_price,
         created_at,
@@ -185,8 +337,8 @@ export class ProjectService {
         name: (project.material as MaterialRelation & { name: string }).name,
       },
       status: project.status,
-      dimensions: project.dimensions,
-      budget_range: project.budget_range,
+      dimensions: toDimensionsDTO(project),
+      budget: toBudgetDTO(project),
       accepted_proposal_id: project.accepted_proposal_id,
       accepted_price: project.accepted_price,
       proposals_count: proposalsCount || 0,
@@ -194,6 +346,9 @@ export class ProjectService {
       updated_at: project.updated_at,
     };
 
+    // Step 8: Alert artisans whose saved searches match the new project
+    await this.savedSearchService.alertMatchingArtisans(project.id);
+
     return projectDTO;
   }
 
@@ -203,26 +358,47 @@ export class ProjectService {
    * Business rules:
    * - Only artisans can list projects
    * - Returns projects matching filter criteria (status, category, material)
-   * - Results are paginated
+   * - With a search phrase, projects are full-text searched (image prompt, category and material names,
+   *   dimensions) and ordered by relevance; each result carries a snippet with the matched words highlighted
+   * - Budget filters match projects whose budget range overlaps the requested one, in the requested
+   *   currency (PLN by default); projects without a budget are excluded
+   * - Size filters are maximum dimensions in centimetres, compared regardless of the unit used by the
+   *   client; projects without the filtered dimension are excluded
+   * - Results are sorted by the requested order (newest first by default) with the project id as a tie breaker
+   * - Results are paginated by page or, when a cursor is given, by keyset (the page after the cursor);
+   *   next_cursor points after the last project of the page and stays stable while new projects arrive
+   * - Search results are ordered by relevance and paginated by page only (next_cursor is null)
    *
    * @param queryParams - Query parameters including filters and pagination
    * @param userId - ID of the user requesting the list (must be artisan)
    * @param userRole - Role of the user requesting the list
    * @returns Promise containing paginated list of projects
-   * @throws ProjectError if user is not artisan
+   * @throws ProjectError if user is not artisan or the cursor is invalid
    *
    * @example
    * const result = await projectService.listProjects({
+   *   search: 'dąb regał',
    *   status: 'open',
+   *   budget_max: 3000,
+   *   max_width: 120,
    *   page: 1,
    *   limit: 20
    * }, userId, 'artisan');
    */
   async listProjects(
     queryParams: {
+      search?: string;
       status?: "open" | "in_progress" | "completed" | "closed";
       category_id?: string;
       material_id?: string;
+      budget_min?: number;
+      budget_max?: number;
+      currency?: CurrencyCode;
+      max_width?: number;
+      max_depth?: number;
+      max_height?: number;
+      sort?: ProjectSortOption;
+      cursor?: string;
       page: number;
       limit: number;
     },
@@ -234,14 +410,66 @@ export class ProjectService {
       throw new ProjectError("Tylko rzemieślnicy mogą przeglądać listę projektów", "FORBIDDEN", 403);
     }
 
-    // Step 2: Build query with filters
+    // Calculate pagination
+    const from = (queryParams.page - 1) * queryParams.limit;
+    const to = from + queryParams.limit - 1;
+    const sortOption = queryParams.sort ?? "newest";
+    const sort = PROJECT_LIST_SORTS[sortOption];
+    // Search results are paginated by page only, so a cursor is ignored while searching
+    const cursor = queryParams.cursor && !queryParams.search ? decodeProjectCursor(queryParams.cursor) : undefined;
+
+    if (cursor === null || (cursor && cursor.sort !== sortOption)) {
+      throw new ProjectError("Nieprawidłowy kursor paginacji", "INVALID_CURSOR", 400);
+    }
+
+    // Step 2: Full-text search - find the page of matching projects ordered by relevance
+    let searchMatches: { id: string; rank: number; snippet: string; total_count: number }[] | null = null;
+    if (queryParams.search) {
+      const { data: matches, error: searchError } = await this.supabase.rpc("search_projects", {
+        search_query: queryParams.search,
+        project_status: queryParams.status,
+        category_id: queryParams.category_id,
+        material_id: queryParams.material_id,
+        budget_min: queryParams.budget_min,
+        budget_max: queryParams.budget_max,
+        currency: queryParams.currency,
+        max_width: queryParams.max_width,
+        max_depth: queryParams.max_depth,
+        max_height: queryParams.max_height,
+        result_limit: queryParams.limit,
+        result_offset: from,
+      });
+
+      if (searchError) {
+        // eslint-disable-next-line no-console
+        console.error("[ProjectService] Failed to search projects:", searchError);
+        throw new ProjectError("Nie udało się wyszukać projektów", "PROJECT_SEARCH_FAILED", 500);
+      }
+
+      searchMatches = matches || [];
+      if (searchMatches.length === 0) {
+        return {
+          data: [],
+          pagination: { page: queryParams.page, limit: queryParams.limit, total: 0, total_pages: 0, next_cursor: null },
+        };
+      }
+    }
+
+    // Step 3: Build query with filters
     let query = this.supabase.from("projects").select(
       `
         id,
         client_id,
         status,
-        dimensions,
-        budget_range,
+        width,
+        depth,
+        height,
+        dimension_unit,
+        budget_min,
+        budget_max,
+        budget_currency,
+        budget_sort,
+        proposals_count,
         accepted_proposal_id,
         accepted_price,
         created_at,
@@ -260,28 +488,61 @@ export class ProjectService {
           name
         )
       `,
-      { count: "exact" }
+      // Counting every match is expensive on large lists, cursor pages only need an estimate
+      { count: cursor ? "estimated" : "exact" }
     );
 
-    // Apply filters
-    if (queryParams.status) {
-      query = query.eq("status", queryParams.status);
-    }
-    if (queryParams.category_id) {
-      query = query.eq("category_id", queryParams.category_id);
-    }
-    if (queryParams.material_id) {
-      query = query.eq("material_id", queryParams.material_id);
-    }
-
-    // Calculate pagination
-    const from = (queryParams.page - 1) * queryParams.limit;
-    const to = from + queryParams.limit - 1;
+    if (searchMatches) {
+      // Filters, ordering and pagination were already applied by the search
+      query = query.in(
+        "id",
+        searchMatches.map((match) => match.id)
+      );
+    } else {
+      // Apply filters
+      if (queryParams.status) {
+        query = query.eq("status", queryParams.status);
+      }
+      if (queryParams.category_id) {
+        query = query.eq("category_id", queryParams.category_id);
+      }
+      if (queryParams.material_id) {
+        query = query.eq("material_id", queryParams.material_id);
+      }
+      if (queryParams.budget_min !== undefined || queryParams.budget_max !== undefined) {
+        // budget_span is numrange(budget_min, budget_max), an open bound matches any amount
+        query = query
+          .eq("budget_currency", queryParams.currency ?? "PLN")
+          .overlaps("budget_span", `[${queryParams.budget_min ?? ""},${queryParams.budget_max ?? ""}]`);
+      } else if (queryParams.currency) {
+        query = query.eq("budget_currency", queryParams.currency);
+      }
+      if (queryParams.max_width !== undefined) {
+        query = query.lte("width_cm", queryParams.max_width);
+      }
+      if (queryParams.max_depth !== undefined) {
+        query = query.lte("depth_cm", queryParams.max_depth);
+      }
+      if (queryParams.max_height !== undefined) {
+        query = query.lte("height_cm", queryParams.max_height);
+      }
 
-    // Apply pagination and ordering
-    query = query.order("created_at", { ascending: false }).range(from, to);
+      // Apply ordering with the id as a tie breaker
+      query = query.order(sort.column, { ascending: sort.ascending }).order("id", { ascending: sort.ascending });
+
+      // Apply pagination: keyset after the cursor (one extra row tells whether there is a next page) or offset
+      if (cursor) {
+        const operator = sort.ascending ? "gt" : "lt";
+        const value = JSON.stringify(cursor.value);
+        query = query
+          .or(`${sort.column}.${operator}.${value},and(${sort.column}.eq.${value},id.${operator}.${cursor.id})`)
+          .limit(queryParams.limit + 1);
+      } else {
+        query = query.range(from, to);
+      }
+    }
 
-    // Step 3: Execute query
+    // Step 4: Execute query
     const { data: projects, error, count } = await query;
 
     if (error) {
@@ -290,8 +551,17 @@ export class ProjectService {
       throw new ProjectError("Nie udało się pobrać listy projektów", "PROJECT_LIST_FAILED", 500);
     }
 
-    // Step 4: Transform to ProjectListItemDTO format
-    const projectListItems = (projects || [])
+    const pageRows = (projects || []).slice(0, queryParams.limit);
+    const total = count || 0;
+    const hasNextPage = cursor ? (projects || []).length > queryParams.limit : from + pageRows.length < total;
+    const lastRow = pageRows[pageRows.length - 1];
+    const nextCursor =
+      hasNextPage && lastRow
+        ? encodeProjectCursor({ sort: sortOption, value: lastRow[sort.column], id: lastRow.id })
+        : null;
+
+    // Step 5: Transform to ProjectListItemDTO format
+    const projectListItems: ProjectListItemDTO[] = pageRows
       .filter((project) => {
         // Filter out projects without required relations
         return project.generated_image && project.category && project.material;
@@ -319,8 +589,8 @@ export class ProjectService {
             name: (project.material as MaterialRelation & { name: string }).name,
           },
           status: project.status,
-          dimensions: project.dimensions,
-          budget_range: project.budget_range,
+          dimensions: toDimensionsDTO(project),
+          budget: toBudgetDTO(project),
           accepted_proposal_id: project.accepted_proposal_id,
           accepted_price: project.accepted_price,
           created_at: project.created_at,
@@ -328,8 +598,29 @@ export class ProjectService {
         };
       });
 
-    // Step 5: Calculate pagination metadata
-    const total = count || 0;
+    // Step 6: Order search results by relevance and attach their snippets
+    if (searchMatches) {
+      const matches = searchMatches;
+      const searchTotal = matches[0].total_count;
+
+      return {
+        data: matches.flatMap((match) => {
+          const item = projectListItems.find((project) => project.id === match.id);
+          return item
+            ? [{ ...item, search_match: { rank: match.rank, snippet: parseSearchSnippet(match.snippet) } }]
+            : [];
+        }),
+        pagination: {
+          page: queryParams.page,
+          limit: queryParams.limit,
+          total: searchTotal,
+          total_pages: Math.ceil(searchTotal / queryParams.limit),
+          next_cursor: null,
+        },
+      };
+    }
+
+    // Step 7: Calculate pagination metadata
     const totalPages = Math.ceil(total / queryParams.limit);
 
     return {
@@ -339,6 +630,7 @@ export class ProjectService {
         limit: queryParams.limit,
         total,
         total_pages: totalPages,
+        next_cursor: nextCursor,
       },
     };
   }
@@ -377,8 +669,13 @@ export class ProjectService {
         id,
         client_id,
         status,
-        dimensions,
-        budget_range,
+        width,
+        depth,
+        height,
+        dimension_unit,
+        budget_min,
+        budget_max,
+        budget_currency,
         accepted_proposal_id,
         accepted_price,
         created_at,
@@ -444,8 +741,8 @@ export class ProjectService {
             name: (project.material as MaterialRelation & { name: string }).name,
           },
           status: project.status,
-          dimensions: project.dimensions,
-          budget_range: project.budget_range,
+          dimensions: toDimensionsDTO(project),
+          budget: toBudgetDTO(project),
           accepted_proposal_id: project.accepted_proposal_id,
           accepted_price: project.accepted_price,
           proposals_count: proposalsCount || 0,
@@ -476,6 +773,7 @@ export class ProjectService {
    * Business rules:
    * - Only project owner (client) or artisans (for open projects) can view details
    * - Includes proposals count
+   * - Includes the technical notes of the generated image, which help artisans price the work
    *
    * @param projectId - ID of the project to retrieve
    * @param userId - ID of the user requesting the project
@@ -499,8 +797,13 @@ export class ProjectService {
         id,
         client_id,
         status,
-        dimensions,
-        budget_range,
+        width,
+        depth,
+        height,
+        dimension_unit,
+        budget_min,
+        budget_max,
+        budget_currency,
         accepted_proposal_id,
         accepted_price,
         created_at,
@@ -508,7 +811,8 @@ export class ProjectService {
         generated_image:generated_images!projects_generated_image_id_fkey (
           id,
           image_url,
-          prompt
+          prompt,
+          technical_notes
         ),
         category:categories!projects_category_id_fkey (
           id,
@@ -568,6 +872,8 @@ export class ProjectService {
         id: (project.generated_image as GeneratedImageRelation & { id: string }).id,
         image_url: (project.generated_image as GeneratedImageRelation & { image_url: string }).image_url,
         prompt: (project.generated_image as GeneratedImageRelation & { prompt: string | null }).prompt,
+        technical_notes: (project.generated_image as GeneratedImageRelation & { technical_notes: string | null })
+          .technical_notes,
       },
       category: {
         id: (project.category as CategoryRelation & { id: string }).id,
@@ -578,8 +884,8 @@ export class ProjectService {
         name: (project.material as MaterialRelation & { name: string }).name,
       },
       status: project.status,
-      dimensions: project.dimensions,
-      budget_range: project.budget_range,
+      dimensions: toDimensionsDTO(project),
+      budget: toBudgetDTO(project),
       accepted_proposal_id: project.accepted_proposal_id,
       accepted_price: project.accepted_price,
       proposals_count: proposalsCount || 0,
@@ -596,13 +902,18 @@ export class ProjectService {
    * Business rules:
    * - Only project owner (client) can accept proposals
    * - Project must be in 'open' status
-   * - Proposal must belong to the project
+   * - Proposal must belong to the project and still be 'pending'
+   * - Proposal must not be past its expiry date (valid_until)
    * - Once accepted, project status changes to 'in_progress'
-   * - Accepted proposal ID and price are stored in project
+   * - All other pending proposals of the project are auto-rejected in the same transaction
+   * - The current revision of the proposal is locked: its number and price are stored in project
+   * - If the client names the revision they saw, it must still be the current one
+   * - The artisan is notified that their proposal was accepted (in-app and by email)
    *
    * @param projectId - ID of the project
    * @param proposalId - ID of the proposal to accept
    * @param userId - ID of the user performing the action (must be project owner)
+   * @param revisionNumber - Optional revision number the client has reviewed
    * @returns Promise containing the updated project with partial details
    * @throws ProjectError if validation fails or unauthorized
    *
@@ -616,7 +927,8 @@ export class ProjectService {
   async acceptProposal(
     projectId: string,
     proposalId: string,
-    userId: string
+    userId: string,
+    revisionNumber?: number
   ): Promise<Pick<ProjectDTO, "id" | "status" | "accepted_proposal_id" | "accepted_price" | "updated_at">> {
     // Step 1: Fetch project
     const { data: project, error: projectError } = await this.supabase
@@ -642,7 +954,7 @@ export class ProjectService {
     // Step 4: Fetch proposal and validate it belongs to project
     const { data: proposal, error: proposalError } = await this.supabase
       .from("proposals")
-      .select("id, project_id, price")
+      .select("id, project_id, artisan_id, price, current_revision, status, valid_until")
       .eq("id", proposalId)
       .single();
 
@@ -654,25 +966,59 @@ export class ProjectService {
       throw new ProjectError("Propozycja nie należy do tego projektu", "PROPOSAL_PROJECT_MISMATCH", 400);
     }
 
-    // Step 5: Update project - accept proposal
-    const { data: updatedProject, error: updateError } = await this.supabase
-      .from("projects")
-      .update({
-        status: "in_progress",
-        accepted_proposal_id: proposalId,
-        accepted_price: proposal.price,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", projectId)
-      .select("id, status, accepted_proposal_id, accepted_price, updated_at")
-      .single();
+    if (proposal.status !== "pending") {
+      throw new ProjectError("Ta oferta została wycofana lub odrzucona", "PROPOSAL_NOT_PENDING", 409);
+    }
+
+    if (isProposalExpired(proposal.valid_until)) {
+      throw new ProjectError("Termin ważności tej oferty minął", "PROPOSAL_EXPIRED", 409);
+    }
+
+    // Step 5: Make sure the client accepts the revision they have seen
+    if (revisionNumber !== undefined && revisionNumber !== proposal.current_revision) {
+      throw new ProjectError(
+        "Oferta została zmieniona przez rzemieślnika. Zapoznaj się z aktualną wersją",
+        "PROPOSAL_REVISION_OUTDATED",
+        409
+      );
+    }
+
+    // Step 6: Accept the proposal, lock its current revision and auto-reject the remaining pending proposals
+    // accept_proposal() does it in one transaction and raises P0001 when the project or proposal changed meanwhile
+    const { data: updatedProject, error: updateError } = await this.supabase.rpc("accept_proposal", {
+      project_id: projectId,
+      proposal_id: proposalId,
+      accepted_revision: proposal.current_revision,
+    });
 
     if (updateError || !updatedProject) {
+      if (updateError?.code === "P0001") {
+        throw new ProjectError(
+          "Projekt lub oferta zostały w międzyczasie zmienione. Odśwież stronę",
+          "PROPOSAL_ACCEPT_CONFLICT",
+          409
+        );
+      }
       // eslint-disable-next-line no-console
       console.error("[ProjectService] Failed to accept proposal:", updateError);
       throw new ProjectError("Nie udało się zaakceptować propozycji", "PROPOSAL_ACCEPT_FAILED", 500);
     }
 
+    // Step 7: Let the artisan know their proposal was accepted
+    await this.notificationService.notify({
+      user_id: proposal.artisan_id,
+      actor_id: userId,
+      type: "proposal_accepted",
+      project_id: projectId,
+      title: "Oferta zaakceptowana",
+      message: `Klient zaakceptował Twoją ofertę (${proposal.price} PLN). Projekt jest w realizacji.`,
+    });
+    void this.mailService.sendEventEmail("proposal_accepted", {
+      projectId,
+      recipientId: proposal.artisan_id,
+      data: { price: proposal.price },
+    });
+
     return {
       id: updatedProject.id,
       status: updatedProject.status,
@@ -693,6 +1039,9 @@ export class ProjectService {
    *   - in_progress -> completed
    *   - in_progress -> closed
    *   - completed -> closed
+   * - in_progress -> completed requires every milestone of the project to be approved
+   * - The artisan with the accepted proposal (if any) is notified about the change
+   * - On completion the artisan gets an email and the client is asked by email to post a review
    *
    * @param projectId - ID of the project to update
    * @param newStatus - New status to set
@@ -712,10 +1061,10 @@ export class ProjectService {
     newStatus: ProjectStatus,
     userId: string
   ): Promise<UpdateProjectStatusResponseDTO> {
-    // Step 1: Fetch project with current status
+    // Step 1: Fetch project with current status and the artisan of the accepted proposal
     const { data: project, error: projectError } = await this.supabase
       .from("projects")
-      .select("id, client_id, status")
+      .select("id, client_id, status, accepted_proposal:proposals!fk_accepted_proposal(artisan_id)")
       .eq("id", projectId)
       .single();
 
@@ -758,7 +1107,25 @@ export class ProjectService {
       );
     }
 
-    // Step 4: Update project status
+    // Step 4: A project with milestones can only be completed once all of them are approved
+    if (newStatus === "completed") {
+      const { data: milestones, error: milestonesError } = await this.supabase
+        .from("project_milestones")
+        .select("id, status")
+        .eq("project_id", projectId);
+
+      if (milestonesError) {
+        // eslint-disable-next-line no-console
+        console.error("[ProjectService] Failed to fetch milestones:", milestonesError);
+        throw new ProjectError("Nie udało się zaktualizować statusu projektu", "STATUS_UPDATE_FAILED", 500);
+      }
+
+      if ((milestones || []).some((milestone) => milestone.status !== "approved")) {
+        throw this.milestonesNotApprovedError();
+      }
+    }
+
+    // Step 5: Update project status
     const { data: updatedProject, error: updateError } = await this.supabase
       .from("projects")
       .update({
@@ -769,16 +1136,121 @@ export class ProjectService {
       .select("id, status, updated_at")
       .single();
 
+    // protect_project_completion raises 23514 when a milestone is no longer approved
+    if (updateError?.code === "23514") {
+      throw this.milestonesNotApprovedError();
+    }
+
     if (updateError || !updatedProject) {
       // eslint-disable-next-line no-console
       console.error("[ProjectService] Failed to update project status:", updateError);
       throw new ProjectError("Nie udało się zaktualizować statusu projektu", "STATUS_UPDATE_FAILED", 500);
     }
 
+    // Step 6: Let the artisan working on the project know about the change
+    const artisanId = project.accepted_proposal?.artisan_id;
+    if (artisanId) {
+      await this.notificationService.notify({
+        user_id: artisanId,
+        actor_id: userId,
+        type: "project_status_changed",
+        project_id: projectId,
+        title: "Zmiana statusu projektu",
+        message: `Klient zmienił status projektu na „${PROJECT_STATUS_LABELS[newStatus]}”.`,
+      });
+    }
+
+    // Step 7: Completion emails - thank the artisan and ask the client for a review
+    if (newStatus === "completed") {
+      if (artisanId) {
+        void this.mailService.sendEventEmail("project_completed", { projectId, recipientId: artisanId, data: {} });
+      }
+      void this.mailService.sendEventEmail("review_request", { projectId, recipientId: project.client_id, data: {} });
+    }
+
     return {
       id: updatedProject.id,
       status: updatedProject.status,
       updated_at: updatedProject.updated_at,
     };
   }
+
+  /**
+   * Gets the audit trail of a project
+   *
+   * Business rules:
+   * - Only project owner (client) or the artisan with the accepted proposal can view the history
+   * - Events are recorded by database triggers on every project mutation (creation, proposal received,
+   *   proposal accepted, status transitions, review posted) and cannot be modified
+   * - Events are returned in chronological order
+   * - Status changes made by a moderator (e.g. closing the project) are attributed to the admin role
+   *
+   * @param projectId - ID of the project
+   * @param userId - ID of the user requesting the history
+   * @returns Promise containing the project history
+   * @throws ProjectError if project not found, access denied or fetch fails
+   *
+   * @example
+   * const history = await projectService.getProjectHistory("project-uuid", userId);
+   */
+  async getProjectHistory(projectId: string, userId: string): Promise<ProjectHistoryDTO> {
+    // Step 1: Fetch project
+    const { data: project, error: projectError } = await this.supabase
+      .from("projects")
+      .select("id, client_id, accepted_proposal_id")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new ProjectError("Nie znaleziono projektu", "PROJECT_NOT_FOUND", 404);
+    }
+
+    // Step 2: Authorization - project owner or artisan with the accepted proposal
+    if (project.client_id !== userId) {
+      const { data: acceptedProposal } = project.accepted_proposal_id
+        ? await this.supabase
+            .from("proposals")
+            .select("id")
+            .eq("id", project.accepted_proposal_id)
+            .eq("artisan_id", userId)
+            .maybeSingle()
+        : { data: null };
+
+      if (!acceptedProposal) {
+        throw new ProjectError("Brak uprawnień do wyświetlenia historii tego projektu", "PROJECT_FORBIDDEN", 403);
+      }
+    }
+
+    // Step 3: Fetch events in chronological order
+    const { data: events, error: eventsError } = await this.supabase
+      .from("project_events")
+      .select("id, event_type, actor_id, actor_role, from_status, to_status, proposal_id, review_id, created_at")
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: true });
+
+    if (eventsError) {
+      // eslint-disable-next-line no-console
+      console.error("[ProjectService] Failed to fetch project history:", eventsError);
+      throw new ProjectError("Nie udało się pobrać historii projektu", "HISTORY_FETCH_FAILED", 500);
+    }
+
+    // actor_role is the role the actor had when the event was recorded
+    return {
+      project_id: project.id,
+      events: events || [],
+    };
+  }
+
+  /**
+   * Error raised when a project with unapproved milestones is completed
+   *
+   * @returns ProjectError with status 400
+   */
+  private milestonesNotApprovedError(): ProjectError {
+    return new ProjectError(
+      "Projekt można zakończyć dopiero po zatwierdzeniu wszystkich etapów",
+      "MILESTONES_NOT_APPROVED",
+      400
+    );
+  }
 }
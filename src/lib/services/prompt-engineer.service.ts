@@ -84,10 +84,15 @@ export class PromptEngineerService {
   }
 
   /**
-   * Extract materials mentioned in the description
-   * @private
+   * Detect material groups mentioned in the description
+   *
+   * Unlike the prompt enhancement, which assumes wood when nothing is mentioned, this returns
+   * an empty list for descriptions without materials.
+   *
+   * @param description Furniture description
+   * @returns Material groups: wood, metal, leather, fabric, plastic, glass, upholstery
    */
-  private extractMaterials(description: string): string[] {
+  detectMaterials(description: string): string[] {
     const materialPatterns: Record<string, string[]> = {
       wood: ["drewn", "oak", "beech", "walnut", "pine", "birch", "ash", "wood"],
       metal: ["metal", "steel", "aluminum", "iron", "brass", "chrome", "stalo", "stalowy"],
@@ -110,7 +115,16 @@ export class PromptEngineerService {
       }
     }
 
-    return foundMaterials.length > 0 ? foundMaterials : ["wood"];
+    return foundMaterials;
+  }
+
+  /**
+   * Extract materials mentioned in the description (wood when none is mentioned)
+   * @private
+   */
+  private extractMaterials(description: string): string[] {
+    const materials = this.detectMaterials(description);
+    return materials.length > 0 ? materials : ["wood"];
   }
 
   /**
@@ -6,7 +6,23 @@
  */
 
 import type { SupabaseClient } from "../../db/supabase.client";
-import type { ProposalDTO } from "../../types";
+import type {
+  ArtisanSpecializationDTO,
+  PortfolioImageDTO,
+  ProposalArtisanDTO,
+  ProposalAttachmentDTO,
+  ProposalDTO,
+  ProposalNegotiationDTO,
+  ProposalRevisionDTO,
+  ProposalCounterOfferDTO,
+  ProposalInclusion,
+  ProposalStatus,
+  ProposalStatusResponseDTO,
+  CreateCounterOfferCommand,
+  RejectProposalCommand,
+} from "../../types";
+import { NotificationService } from "./notification.service";
+import { MailService } from "./mail.service";
 
 /**
  * Custom error class for proposal-related business logic errors
@@ -25,10 +41,42 @@ export class ProposalError extends Error {
 interface CreateProposalData {
   projectId: string;
   price: number;
-  attachment: File;
+  leadTimeDays: number;
+  scopeDescription?: string;
+  inclusions?: ProposalInclusion[];
+  validUntil?: string;
+  attachments: { file: File; caption: string }[];
   userId: string;
 }
 
+interface ReviseProposalData {
+  proposalId: string;
+  price: number;
+  attachment?: File;
+  note?: string;
+  userId: string;
+}
+
+/**
+ * Proposal together with the project it was submitted to
+ * Used internally to authorize negotiation actions
+ */
+interface ProposalWithProject {
+  id: string;
+  project_id: string;
+  artisan_id: string;
+  price: number;
+  attachment_url: string | null;
+  current_revision: number;
+  status: ProposalStatus;
+  project: {
+    id: string;
+    client_id: string;
+    status: string;
+    accepted_revision: number | null;
+  };
+}
+
 /**
  * Service for managing project proposals
  *
@@ -38,8 +86,17 @@ interface CreateProposalData {
 export class ProposalService {
   private readonly BUCKET_NAME = "proposal-attachments";
   private readonly MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+  private readonly DOWNLOAD_URL_EXPIRY = 60; // 1 minute, enough to follow the redirect
+  private readonly REVISION_ATTACHMENT_POSITION = 100; // revision files are listed after the original attachments
+  private readonly PORTFOLIO_PREVIEW_SIZE = 4;
 
-  constructor(private supabase: SupabaseClient) {}
+  private notificationService: NotificationService;
+  private mailService: MailService;
+
+  constructor(private supabase: SupabaseClient) {
+    this.notificationService = new NotificationService(supabase);
+    this.mailService = new MailService(supabase);
+  }
 
   /**
    * Creates a new proposal for a project
@@ -48,9 +105,14 @@ export class ProposalService {
    * - Only artisans can create proposals
    * - Project must exist and have status 'open'
    * - Artisan can only submit one proposal per project
-   * - Attachment file must be uploaded to storage
+   * - All attachment files must be uploaded to the private storage bucket; the first one becomes the
+   *   primary attachment
+   * - If anything fails after the upload, all uploaded files are removed again
+   * - Attachments are returned as API download URLs (GET /api/proposals/{id}/attachments/{fileId})
+   * - Offer terms (lead time, scope, inclusions, expiry date) are stored with the proposal
+   * - The project owner is notified about the new proposal (in-app and by email)
    *
-   * @param data - Proposal creation data including file attachment
+   * @param data - Proposal creation data including captioned attachment files
    * @returns Promise containing the created proposal with full details
    * @throws ProposalError if validation fails or resources don't exist
    *
@@ -58,12 +120,15 @@ export class ProposalService {
    * const proposal = await proposalService.createProposal({
    *   projectId: "uuid-1",
    *   price: 2500,
-   *   attachment: new File(...),
+   *   leadTimeDays: 21,
+   *   inclusions: ["delivery", "assembly"],
+   *   validUntil: "2025-11-30",
+   *   attachments: [{ file: new File(...), caption: "Wycena" }],
    *   userId: "artisan-uuid"
    * });
    */
   async createProposal(data: CreateProposalData): Promise<ProposalDTO> {
-    const { projectId, price, attachment, userId } = data;
+    const { projectId, price, leadTimeDays, scopeDescription, inclusions, validUntil, attachments, userId } = data;
 
     // Step 1: Verify user is an artisan
     const { data: user, error: userError } = await this.supabase
@@ -107,8 +172,16 @@ export class ProposalService {
       throw new ProposalError("Już złożyłeś propozycję do tego projektu", "PROPOSAL_ALREADY_EXISTS", 409);
     }
 
-    // Step 4: Upload attachment to storage
-    const attachmentUrl = await this.uploadAttachment(attachment, userId, projectId);
+    // Step 4: Upload attachments to storage (removing the already uploaded ones if any upload fails)
+    const attachmentPaths: string[] = [];
+    try {
+      for (const { file } of attachments) {
+        attachmentPaths.push(await this.uploadAttachment(file, userId, projectId));
+      }
+    } catch (error) {
+      await this.deleteAttachments(attachmentPaths);
+      throw error;
+    }
 
     // Step 5: Create proposal in database
     const { data: newProposal, error: createError } = await this.supabase
@@ -117,77 +190,873 @@ export class ProposalService {
         project_id: projectId,
         artisan_id: userId,
         price,
-        attachment_url: attachmentUrl,
+        lead_time_days: leadTimeDays,
+        scope_description: scopeDescription || null,
+        inclusions: inclusions ?? [],
+        valid_until: validUntil ?? null,
+        attachment_url: attachmentPaths[0],
       })
       .select(
         `
         id,
         project_id,
         price,
+        message,
+        lead_time_days,
+        scope_description,
+        inclusions,
+        valid_until,
         attachment_url,
-        created_at,
-        artisan:users!proposals_artisan_id_fkey(
-          user_id:id,
-          artisan_profiles!inner(
-            company_name
-          )
-        )
+        current_revision,
+        status,
+        rejection_reason,
+        created_at
       `
       )
       .single();
 
     if (createError || !newProposal) {
-      // Cleanup: Delete uploaded file if database insert fails
-      await this.deleteAttachment(attachmentUrl);
+      // Cleanup: Delete uploaded files if database insert fails
+      await this.deleteAttachments(attachmentPaths);
       throw new ProposalError("Nie udało się utworzyć propozycji", "CREATE_PROPOSAL_FAILED", 500);
     }
 
-    // Step 6: Get artisan profile with review statistics
-    const { data: artisanProfile } = await this.supabase
-      .from("artisan_profiles")
-      .select("company_name")
-      .eq("user_id", userId)
-      .single();
-
-    // Calculate review statistics (simplified for now)
-    const { count: totalReviews } = await this.supabase
-      .from("reviews")
-      .select("*", { count: "exact", head: true })
-      .eq("project.proposals.artisan_id", userId);
+    // Step 6: Store attachment metadata with captions
+    const { data: savedAttachments, error: attachmentsError } = await this.supabase
+      .from("proposal_attachments")
+      .insert(
+        attachments.map(({ file, caption }, index) => ({
+          proposal_id: newProposal.id,
+          file_url: attachmentPaths[index],
+          file_name: file.name,
+          mime_type: file.type,
+          size_bytes: file.size,
+          caption,
+          position: index,
+        }))
+      )
+      .select("id, file_url, file_name, mime_type, size_bytes, caption");
 
-    const { data: reviews } = await this.supabase
-      .from("reviews")
-      .select("rating")
-      .eq("project.proposals.artisan_id", userId);
+    if (attachmentsError || !savedAttachments) {
+      // eslint-disable-next-line no-console
+      console.error("[ProposalService] Failed to save proposal attachments:", attachmentsError);
+      // Cleanup: Remove the proposal and its files so the artisan can submit it again
+      await this.supabase.from("proposals").delete().eq("id", newProposal.id);
+      await this.deleteAttachments(attachmentPaths);
+      throw new ProposalError("Nie udało się zapisać załączników oferty", "CREATE_PROPOSAL_FAILED", 500);
+    }
 
-    const averageRating =
-      reviews && reviews.length > 0 ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length : null;
+    // Step 7: Get artisan profile with review statistics
+    const artisans = await this.getArtisanSummaries([userId]);
 
-    // Step 7: Format response as ProposalDTO
+    // Step 8: Format response as ProposalDTO
     const proposalDTO: ProposalDTO = {
       id: newProposal.id,
       project_id: newProposal.project_id,
-      artisan: {
-        user_id: userId,
-        company_name: artisanProfile?.company_name || "Nieznany rzemieślnik",
-        average_rating: averageRating,
-        total_reviews: totalReviews || 0,
-      },
+      artisan: artisans.get(userId) ?? this.unknownArtisan(userId),
       price: newProposal.price,
-      attachment_url: newProposal.attachment_url,
+      message: newProposal.message,
+      lead_time_days: newProposal.lead_time_days,
+      scope_description: newProposal.scope_description,
+      inclusions: newProposal.inclusions,
+      valid_until: newProposal.valid_until,
+      attachment_url: this.attachmentDownloadUrl(newProposal.id, newProposal.attachment_url, savedAttachments),
+      attachments: savedAttachments.map((attachment) => this.toAttachmentDTO(newProposal.id, attachment)),
+      current_revision: newProposal.current_revision,
+      status: newProposal.status,
+      rejection_reason: newProposal.rejection_reason,
       created_at: newProposal.created_at,
     };
 
+    // Step 9: Let the client know about the new proposal
+    await this.notificationService.notify({
+      user_id: project.client_id,
+      actor_id: userId,
+      type: "proposal_received",
+      project_id: projectId,
+      title: "Nowa oferta",
+      message: `${proposalDTO.artisan.company_name} złożył ofertę do Twojego projektu (${proposalDTO.price} PLN).`,
+    });
+    void this.mailService.sendEventEmail("proposal_received", {
+      projectId,
+      recipientId: project.client_id,
+      data: { companyName: proposalDTO.artisan.company_name, price: proposalDTO.price },
+    });
+
     return proposalDTO;
   }
 
   /**
-   * Upload proposal attachment to Supabase Storage
+   * Lists the proposals of a project with everything needed to compare them
+   *
+   * Business rules:
+   * - The project owner sees all proposals
+   * - An artisan whose proposal was accepted sees all proposals of the project
+   * - Any other artisan who submitted a proposal sees only their own proposal
+   * - Each proposal carries its artisan's rating, review count, specializations and newest portfolio
+   *   images, fetched for all artisans at once
+   * - Each proposal carries all of its captioned attachments in upload order
+   * - Attachments are returned as API download URLs, which check access before redirecting to the file
+   * - Proposals are ordered from the newest
+   *
+   * @param projectId - ID of the project
+   * @param userId - ID of the user requesting the proposals
+   * @param userRole - Role of the user requesting the proposals
+   * @returns Promise containing the proposals visible to the user
+   * @throws ProposalError if the project does not exist or the user has no access to its proposals
+   *
+   * @example
+   * const proposals = await proposalService.listProjectProposals("project-uuid", "client-uuid", "client");
+   */
+  async listProjectProposals(projectId: string, userId: string, userRole?: string): Promise<ProposalDTO[]> {
+    // Step 1: Verify project exists
+    const { data: project, error: projectError } = await this.supabase
+      .from("projects")
+      .select("id, client_id, status, accepted_proposal_id")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new ProposalError("Projekt nie został znaleziony", "NOT_FOUND", 404);
+    }
+
+    // Step 2: Determine which proposals the user may see
+    const isOwner = project.client_id === userId;
+
+    let isArtisanWithAcceptedProposal = false;
+    if (!isOwner && userRole === "artisan" && project.accepted_proposal_id) {
+      const { data: artisanProposal } = await this.supabase
+        .from("proposals")
+        .select("id")
+        .eq("id", project.accepted_proposal_id)
+        .eq("artisan_id", userId)
+        .maybeSingle();
+
+      isArtisanWithAcceptedProposal = !!artisanProposal;
+    }
+
+    // Artisans who submitted a proposal may follow their own negotiation
+    let isArtisanWithOwnProposal = false;
+    if (!isOwner && !isArtisanWithAcceptedProposal && userRole === "artisan") {
+      const { data: ownProposal } = await this.supabase
+        .from("proposals")
+        .select("id")
+        .eq("project_id", projectId)
+        .eq("artisan_id", userId)
+        .maybeSingle();
+
+      isArtisanWithOwnProposal = !!ownProposal;
+    }
+
+    if (!isOwner && !isArtisanWithAcceptedProposal && !isArtisanWithOwnProposal) {
+      throw new ProposalError("Nie masz dostępu do ofert tego projektu", "FORBIDDEN", 403);
+    }
+
+    // Step 3: Fetch proposals
+    let proposalsQuery = this.supabase
+      .from("proposals")
+      .select(
+        `
+        id,
+        project_id,
+        artisan_id,
+        price,
+        message,
+        lead_time_days,
+        scope_description,
+        inclusions,
+        valid_until,
+        attachment_url,
+        current_revision,
+        status,
+        rejection_reason,
+        created_at
+      `
+      )
+      .eq("project_id", projectId);
+
+    if (isArtisanWithOwnProposal) {
+      proposalsQuery = proposalsQuery.eq("artisan_id", userId);
+    }
+
+    const { data: proposals, error: proposalsError } = await proposalsQuery.order("created_at", {
+      ascending: false,
+    });
+
+    if (proposalsError) {
+      // eslint-disable-next-line no-console
+      console.error("[ProposalService] Failed to fetch proposals:", proposalsError);
+      throw new ProposalError("Nie udało się pobrać ofert", "PROPOSALS_FETCH_FAILED", 500);
+    }
+
+    if (!proposals || proposals.length === 0) {
+      return [];
+    }
+
+    // Step 4: Fetch artisan details and attachments in bulk
+    const [artisans, attachmentsByProposal] = await Promise.all([
+      this.getArtisanSummaries([...new Set(proposals.map((proposal) => proposal.artisan_id))]),
+      this.getAttachments(proposals.map((proposal) => proposal.id)),
+    ]);
+
+    // Step 5: Format response as ProposalDTO list
+    return proposals.map((proposal) => ({
+      id: proposal.id,
+      project_id: proposal.project_id,
+      artisan: artisans.get(proposal.artisan_id) ?? this.unknownArtisan(proposal.artisan_id),
+      price: proposal.price,
+      message: proposal.message,
+      lead_time_days: proposal.lead_time_days,
+      scope_description: proposal.scope_description,
+      inclusions: proposal.inclusions,
+      valid_until: proposal.valid_until,
+      attachment_url: this.attachmentDownloadUrl(
+        proposal.id,
+        proposal.attachment_url,
+        attachmentsByProposal.get(proposal.id) ?? []
+      ),
+      attachments: (attachmentsByProposal.get(proposal.id) ?? []).map((attachment) =>
+        this.toAttachmentDTO(proposal.id, attachment)
+      ),
+      current_revision: proposal.current_revision,
+      status: proposal.status,
+      rejection_reason: proposal.rejection_reason,
+      created_at: proposal.created_at,
+    }));
+  }
+
+  /**
+   * Gets the negotiation thread of a proposal
+   *
+   * Business rules:
+   * - Only the proposing artisan and the project owner can view the thread
+   * - Revisions and counter-offers are returned in chronological order
+   * - Revision files are returned as API download URLs
+   *
+   * @param proposalId - ID of the proposal
+   * @param userId - ID of the user requesting the thread
+   * @returns Promise containing all revisions and counter-offers of the proposal
+   * @throws ProposalError if proposal not found or access denied
+   *
+   * @example
+   * const thread = await proposalService.getNegotiation("proposal-uuid", "user-uuid");
+   */
+  async getNegotiation(proposalId: string, userId: string): Promise<ProposalNegotiationDTO> {
+    // Step 1: Fetch proposal and verify the user takes part in the negotiation
+    const proposal = await this.getProposalWithProject(proposalId);
+
+    if (proposal.artisan_id !== userId && proposal.project.client_id !== userId) {
+      throw new ProposalError("Nie masz dostępu do negocjacji tej oferty", "NEGOTIATION_FORBIDDEN", 403);
+    }
+
+    // Step 2: Fetch revisions, counter-offers and attachments (to link revision files) in parallel
+    const [revisionsResult, counterOffersResult, attachmentsByProposal] = await Promise.all([
+      this.supabase
+        .from("proposal_revisions")
+        .select("id, revision_number, price, attachment_url, note, created_at")
+        .eq("proposal_id", proposalId)
+        .order("revision_number", { ascending: true }),
+      this.supabase
+        .from("proposal_counter_offers")
+        .select("id, price, note, created_at")
+        .eq("proposal_id", proposalId)
+        .order("created_at", { ascending: true }),
+      this.getAttachments([proposalId]),
+    ]);
+
+    if (revisionsResult.error || counterOffersResult.error) {
+      // eslint-disable-next-line no-console
+      console.error(
+        "[ProposalService] Failed to fetch negotiation:",
+        revisionsResult.error || counterOffersResult.error
+      );
+      throw new ProposalError("Nie udało się pobrać historii negocjacji", "NEGOTIATION_FETCH_FAILED", 500);
+    }
+
+    return {
+      proposal_id: proposal.id,
+      project_id: proposal.project_id,
+      current_revision: proposal.current_revision,
+      accepted_revision: proposal.project.accepted_revision,
+      revisions: (revisionsResult.data || []).map((revision) => ({
+        ...revision,
+        attachment_url: this.attachmentDownloadUrl(
+          proposalId,
+          revision.attachment_url,
+          attachmentsByProposal.get(proposalId) ?? []
+        ),
+      })),
+      counter_offers: counterOffersResult.data || [],
+    };
+  }
+
+  /**
+   * Creates a short-lived signed URL for downloading a proposal attachment
+   *
+   * Business rules:
+   * - Only the proposing artisan and the project owner can download attachments
+   * - The file must belong to the proposal
+   * - The signed URL expires after one minute; the API redirects to it right away
+   *
+   * @param proposalId - ID of the proposal
+   * @param fileId - ID of the attachment
+   * @param userId - ID of the user downloading the file
+   * @returns Promise containing the signed URL of the file
+   * @throws ProposalError if the proposal or file does not exist or access is denied
+   *
+   * @example
+   * const url = await proposalService.getAttachmentDownloadUrl("proposal-uuid", "attachment-uuid", "client-uuid");
+   */
+  async getAttachmentDownloadUrl(proposalId: string, fileId: string, userId: string): Promise<string> {
+    // Step 1: Fetch proposal and verify the user is the artisan or the project owner
+    const proposal = await this.getProposalWithProject(proposalId);
+
+    if (proposal.artisan_id !== userId && proposal.project.client_id !== userId) {
+      throw new ProposalError("Nie masz dostępu do załączników tej oferty", "ATTACHMENT_FORBIDDEN", 403);
+    }
+
+    // Step 2: Find the file among the proposal's attachments
+    const { data: attachment } = await this.supabase
+      .from("proposal_attachments")
+      .select("file_url")
+      .eq("id", fileId)
+      .eq("proposal_id", proposalId)
+      .maybeSingle();
+
+    if (!attachment) {
+      throw new ProposalError("Nie znaleziono załącznika", "ATTACHMENT_NOT_FOUND", 404);
+    }
+
+    // Step 3: Sign the file for a single download
+    const { data: signed, error } = await this.supabase.storage
+      .from(this.BUCKET_NAME)
+      .createSignedUrl(attachment.file_url, this.DOWNLOAD_URL_EXPIRY);
+
+    if (error || !signed?.signedUrl) {
+      // eslint-disable-next-line no-console
+      console.error("[ProposalService] Error generating signed URL for attachment:", error);
+      throw new ProposalError("Nie udało się udostępnić załącznika", "ATTACHMENT_URL_FAILED", 500);
+    }
+
+    return signed.signedUrl;
+  }
+
+  /**
+   * Sends a counter-offer from the project owner to the artisan
+   *
+   * Business rules:
+   * - Only the project owner can send counter-offers
+   * - Project must still be 'open' and the proposal 'pending'
+   * - Counter-offer does not change the proposal price; the artisan responds with a revision
+   *
+   * @param proposalId - ID of the proposal being negotiated
+   * @param userId - ID of the client sending the counter-offer
+   * @param dto - Counter-offer data (price, optional note)
+   * @returns Promise containing the created counter-offer
+   * @throws ProposalError if validation fails or user is not the project owner
+   *
+   * @example
+   * const counterOffer = await proposalService.createCounterOffer("proposal-uuid", clientId, {
+   *   price: 2200,
+   *   note: "Czy da się zejść trochę z ceny?"
+   * });
+   */
+  async createCounterOffer(
+    proposalId: string,
+    userId: string,
+    dto: CreateCounterOfferCommand
+  ): Promise<ProposalCounterOfferDTO> {
+    // Step 1: Fetch proposal and verify user is project owner
+    const proposal = await this.getProposalWithProject(proposalId);
+
+    if (proposal.project.client_id !== userId) {
+      throw new ProposalError(
+        "Tylko właściciel projektu może składać kontrpropozycje",
+        "FORBIDDEN_NOT_PROJECT_OWNER",
+        403
+      );
+    }
+
+    // Step 2: Negotiation is only possible while the project is open and the proposal is pending
+    if (proposal.project.status !== "open") {
+      throw new ProposalError("Negocjacje są możliwe tylko dla otwartych projektów", "PROJECT_NOT_OPEN", 403);
+    }
+
+    this.assertPending(proposal);
+
+    // Step 3: Create counter-offer
+    const { data: counterOffer, error: createError } = await this.supabase
+      .from("proposal_counter_offers")
+      .insert({
+        proposal_id: proposalId,
+        client_id: userId,
+        price: dto.price,
+        note: dto.note || null,
+      })
+      .select("id, price, note, created_at")
+      .single();
+
+    if (createError || !counterOffer) {
+      // eslint-disable-next-line no-console
+      console.error("[ProposalService] Failed to create counter-offer:", createError);
+      throw new ProposalError("Nie udało się wysłać kontrpropozycji", "COUNTER_OFFER_CREATE_FAILED", 500);
+    }
+
+    return counterOffer;
+  }
+
+  /**
+   * Revises a proposal with a new price and optionally a new attachment
+   *
+   * Business rules:
+   * - Only the proposing artisan can revise the proposal
+   * - Project must still be 'open' and the proposal 'pending'
+   * - Every revision is stored; the proposal always reflects the newest one
+   * - Without a new attachment the previous attachment is carried over
+   * - A new attachment is also added to the proposal's attachments, captioned with the revision number
+   *
+   * @param data - Revision data including optional replacement attachment
+   * @returns Promise containing the created revision
+   * @throws ProposalError if validation fails or user is not the proposal author
+   *
+   * @example
+   * const revision = await proposalService.reviseProposal({
+   *   proposalId: "proposal-uuid",
+   *   price: 2300,
+   *   note: "Cena bez montażu",
+   *   userId: "artisan-uuid"
+   * });
+   */
+  async reviseProposal(data: ReviseProposalData): Promise<ProposalRevisionDTO> {
+    const { proposalId, price, attachment, note, userId } = data;
+
+    // Step 1: Fetch proposal and verify user is its author
+    const proposal = await this.getProposalWithProject(proposalId);
+
+    if (proposal.artisan_id !== userId) {
+      throw new ProposalError("Możesz zmieniać tylko własne oferty", "FORBIDDEN_NOT_PROPOSAL_OWNER", 403);
+    }
+
+    // Step 2: Revisions are only possible while the project is open and the proposal is pending
+    if (proposal.project.status !== "open") {
+      throw new ProposalError("Negocjacje są możliwe tylko dla otwartych projektów", "PROJECT_NOT_OPEN", 403);
+    }
+
+    this.assertPending(proposal);
+
+    // Step 3: Upload new attachment or carry over the current one
+    const attachmentPath = attachment
+      ? await this.uploadAttachment(attachment, userId, proposal.project_id)
+      : proposal.attachment_url;
+
+    // Step 4: Store the new revision and make it current in one transaction
+    // revise_proposal() raises P0001 when the proposal was revised in the meantime
+    const { data: savedRevision, error: revisionError } = await this.supabase.rpc("revise_proposal", {
+      proposal_id: proposalId,
+      base_revision: proposal.current_revision,
+      new_price: price,
+      new_attachment_url: attachmentPath,
+      revision_note: note || null,
+    });
+
+    if (revisionError || !savedRevision) {
+      if (attachment && attachmentPath) {
+        await this.deleteAttachments([attachmentPath]);
+      }
+      if (revisionError?.code === "P0001" || revisionError?.code === "23505") {
+        throw new ProposalError("Oferta została w międzyczasie zmieniona", "PROPOSAL_REVISION_CONFLICT", 409);
+      }
+      // eslint-disable-next-line no-console
+      console.error("[ProposalService] Failed to revise proposal:", revisionError);
+      throw new ProposalError("Nie udało się zaktualizować oferty", "PROPOSAL_REVISE_FAILED", 500);
+    }
+
+    const revisionNumber = savedRevision.revision_number;
+    const revision: ProposalRevisionDTO = {
+      id: savedRevision.id,
+      revision_number: revisionNumber,
+      price: savedRevision.price,
+      attachment_url: savedRevision.attachment_url,
+      note: savedRevision.note,
+      created_at: savedRevision.created_at,
+    };
+
+    // Step 5: Link the carried over file, or add the new file to the proposal's attachments
+    if (!attachment || !attachmentPath) {
+      const attachmentsByProposal = await this.getAttachments([proposalId]);
+      return {
+        ...revision,
+        attachment_url: this.attachmentDownloadUrl(
+          proposalId,
+          revision.attachment_url,
+          attachmentsByProposal.get(proposalId) ?? []
+        ),
+      };
+    }
+
+    const { data: savedAttachment, error: attachmentError } = await this.supabase
+      .from("proposal_attachments")
+      .insert({
+        proposal_id: proposalId,
+        file_url: attachmentPath,
+        file_name: attachment.name,
+        mime_type: attachment.type,
+        size_bytes: attachment.size,
+        caption: `Wersja ${revisionNumber}`,
+        position: this.REVISION_ATTACHMENT_POSITION + revisionNumber,
+      })
+      .select("id, file_url, file_name, mime_type, size_bytes, caption")
+      .single();
+
+    if (attachmentError || !savedAttachment) {
+      // eslint-disable-next-line no-console
+      console.error("[ProposalService] Failed to save revision attachment:", attachmentError);
+    }
+
+    return {
+      ...revision,
+      attachment_url: savedAttachment
+        ? this.attachmentDownloadUrl(proposalId, attachmentPath, [savedAttachment])
+        : null,
+    };
+  }
+
+  /**
+   * Withdraws a pending proposal on behalf of its author
+   *
+   * Business rules:
+   * - Only the proposing artisan can withdraw the proposal
+   * - Only 'pending' proposals can be withdrawn
+   * - Withdrawn proposals stay visible to the client but can no longer be accepted or negotiated
+   *
+   * @param proposalId - ID of the proposal to withdraw
+   * @param userId - ID of the artisan withdrawing the proposal
+   * @returns Promise containing the new proposal status
+   * @throws ProposalError if validation fails or user is not the proposal author
+   *
+   * @example
+   * const result = await proposalService.withdrawProposal("proposal-uuid", "artisan-uuid");
+   */
+  async withdrawProposal(proposalId: string, userId: string): Promise<ProposalStatusResponseDTO> {
+    // Step 1: Fetch proposal and verify user is its author
+    const proposal = await this.getProposalWithProject(proposalId);
+
+    if (proposal.artisan_id !== userId) {
+      throw new ProposalError("Możesz wycofać tylko własne oferty", "FORBIDDEN_NOT_PROPOSAL_OWNER", 403);
+    }
+
+    // Step 2: Validate proposal status
+    this.assertPending(proposal);
+
+    // Step 3: Update status
+    return this.updateStatus(proposalId, "withdrawn", null);
+  }
+
+  /**
+   * Rejects a pending proposal on behalf of the project owner
+   *
+   * Business rules:
+   * - Only the project owner can reject proposals
+   * - Proposal must belong to the given project
+   * - Only 'pending' proposals of an 'open' project can be rejected
+   * - Rejection reason is optional and visible to the artisan
+   *
+   * @param projectId - ID of the project the proposal was submitted to
+   * @param proposalId - ID of the proposal to reject
+   * @param userId - ID of the client rejecting the proposal
+   * @param dto - Rejection data (optional reason)
+   * @returns Promise containing the new proposal status
+   * @throws ProposalError if validation fails or user is not the project owner
+   *
+   * @example
+   * const result = await proposalService.rejectProposal("project-uuid", "proposal-uuid", clientId, {
+   *   reason: "Cena przekracza mój budżet"
+   * });
+   */
+  async rejectProposal(
+    projectId: string,
+    proposalId: string,
+    userId: string,
+    dto: RejectProposalCommand
+  ): Promise<ProposalStatusResponseDTO> {
+    // Step 1: Fetch proposal and validate it belongs to the project
+    const proposal = await this.getProposalWithProject(proposalId);
+
+    if (proposal.project_id !== projectId) {
+      throw new ProposalError("Propozycja nie należy do tego projektu", "PROPOSAL_PROJECT_MISMATCH", 400);
+    }
+
+    // Step 2: Authorization - check if user is project owner
+    if (proposal.project.client_id !== userId) {
+      throw new ProposalError("Tylko właściciel projektu może odrzucać oferty", "FORBIDDEN_NOT_PROJECT_OWNER", 403);
+    }
+
+    // Step 3: Validate project and proposal status
+    if (proposal.project.status !== "open") {
+      throw new ProposalError("Można odrzucać oferty tylko w otwartych projektach", "PROJECT_NOT_OPEN", 403);
+    }
+
+    this.assertPending(proposal);
+
+    // Step 4: Update status
+    return this.updateStatus(proposalId, "rejected", dto.reason || null);
+  }
+
+  /**
+   * Fetches the proposal-facing details of artisans (with their public profiles) with one query per related table
+   *
+   * @param artisanIds - IDs of the artisans
+   * @returns Map of artisan ID to artisan details (artisans without a profile are missing)
+   */
+  private async getArtisanSummaries(artisanIds: string[]): Promise<Map<string, ProposalArtisanDTO>> {
+    const [profilesResult, specializationsResult, portfolioResult, reviewsResult] = await Promise.all([
+      this.supabase
+        .from("artisan_profiles")
+        .select(
+          `
+          user_id,
+          company_name,
+          verification_status,
+          verified_company_name,
+          user:users!artisan_profiles_user_id_fkey (
+            profile:user_profiles (
+              display_name,
+              avatar_url,
+              city
+            )
+          )
+        `
+        )
+        .in("user_id", artisanIds),
+      this.supabase
+        .from("artisan_specializations")
+        .select(
+          `
+          artisan_id,
+          specializations (
+            id,
+            name
+          )
+        `
+        )
+        .in("artisan_id", artisanIds),
+      this.supabase
+        .from("portfolio_images")
+        .select("id, artisan_id, image_url, created_at")
+        .in("artisan_id", artisanIds)
+        .order("created_at", { ascending: false }),
+      this.supabase.from("reviews").select("reviewee_id, rating").in("reviewee_id", artisanIds),
+    ]);
+
+    const summaries = new Map<string, ProposalArtisanDTO>();
+    (profilesResult.data || []).forEach((profile) => {
+      const ratings = (reviewsResult.data || [])
+        .filter((review) => review.reviewee_id === profile.user_id)
+        .map((review) => review.rating);
+      const averageRating =
+        ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null;
+      const specializations: ArtisanSpecializationDTO[] = (specializationsResult.data || [])
+        .filter((item) => item.artisan_id === profile.user_id && item.specializations)
+        .map((item) => item.specializations as ArtisanSpecializationDTO);
+      const portfolioImages: PortfolioImageDTO[] = (portfolioResult.data || [])
+        .filter((image) => image.artisan_id === profile.user_id)
+        .slice(0, this.PORTFOLIO_PREVIEW_SIZE)
+        .map(({ id, image_url, created_at }) => ({ id, image_url, created_at }));
+
+      const userProfile = profile.user?.profile ?? null;
+      const isVerified = profile.verification_status === "verified";
+
+      summaries.set(profile.user_id, {
+        user_id: profile.user_id,
+        company_name: profile.company_name,
+        display_name: userProfile?.display_name ?? null,
+        avatar_url: userProfile?.avatar_url ?? null,
+        city: userProfile?.city ?? null,
+        is_verified: isVerified,
+        verified_company_name: isVerified ? profile.verified_company_name : null,
+        average_rating: averageRating !== null ? Number(averageRating.toFixed(2)) : null,
+        total_reviews: ratings.length,
+        specializations,
+        portfolio_images: portfolioImages,
+      });
+    });
+
+    return summaries;
+  }
+
+  /**
+   * Placeholder details of an artisan without a profile
+   *
+   * @param artisanId - ID of the artisan
+   * @returns Artisan details without rating, specializations or portfolio
+   */
+  private unknownArtisan(artisanId: string): ProposalArtisanDTO {
+    return {
+      user_id: artisanId,
+      company_name: "Nieznany rzemieślnik",
+      display_name: null,
+      avatar_url: null,
+      city: null,
+      is_verified: false,
+      verified_company_name: null,
+      average_rating: null,
+      total_reviews: 0,
+      specializations: [],
+      portfolio_images: [],
+    };
+  }
+
+  /**
+   * Fetches the attachments of many proposals with one query
+   *
+   * @param proposalIds - IDs of the proposals
+   * @returns Attachments in upload order, keyed by proposal ID
+   */
+  private async getAttachments(proposalIds: string[]): Promise<Map<string, ProposalAttachmentDTO[]>> {
+    const { data: attachments, error } = await this.supabase
+      .from("proposal_attachments")
+      .select("id, proposal_id, file_url, file_name, mime_type, size_bytes, caption")
+      .in("proposal_id", proposalIds)
+      .order("position", { ascending: true });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[ProposalService] Failed to fetch proposal attachments:", error);
+    }
+
+    const attachmentsByProposal = new Map<string, ProposalAttachmentDTO[]>();
+    (attachments || []).forEach(({ proposal_id, ...attachment }) => {
+      attachmentsByProposal.set(proposal_id, [...(attachmentsByProposal.get(proposal_id) ?? []), attachment]);
+    });
+
+    return attachmentsByProposal;
+  }
+
+  /**
+   * Builds the API download URL of a proposal attachment
+   *
+   * @param proposalId - ID of the proposal
+   * @param fileId - ID of the attachment
+   * @returns URL of GET /api/proposals/{id}/attachments/{fileId}
+   */
+  private attachmentEndpoint(proposalId: string, fileId: string): string {
+    return `/api/proposals/${proposalId}/attachments/${fileId}`;
+  }
+
+  /**
+   * Replaces the storage path of an attachment with its API download URL
+   */
+  private toAttachmentDTO(proposalId: string, attachment: ProposalAttachmentDTO): ProposalAttachmentDTO {
+    return { ...attachment, file_url: this.attachmentEndpoint(proposalId, attachment.id) };
+  }
+
+  /**
+   * Resolves the API download URL of a stored file (primary attachment or revision file)
+   *
+   * @param proposalId - ID of the proposal
+   * @param attachmentPath - Object path of the file in the bucket
+   * @param attachments - Attachments of the proposal with their object paths
+   * @returns Download URL, or null when the proposal has no such file
+   */
+  private attachmentDownloadUrl(
+    proposalId: string,
+    attachmentPath: string | null,
+    attachments: ProposalAttachmentDTO[]
+  ): string | null {
+    const attachment = attachmentPath ? attachments.find((item) => item.file_url === attachmentPath) : undefined;
+    return attachment ? this.attachmentEndpoint(proposalId, attachment.id) : null;
+  }
+
+  /**
+   * Fetches a proposal together with its project
+   *
+   * @param proposalId - ID of the proposal
+   * @returns Proposal with nested project data
+   * @throws ProposalError if proposal not found
+   */
+  private async getProposalWithProject(proposalId: string): Promise<ProposalWithProject> {
+    const { data: proposal, error } = await this.supabase
+      .from("proposals")
+      .select(
+        `
+        id,
+        project_id,
+        artisan_id,
+        price,
+        attachment_url,
+        current_revision,
+        status,
+        project:projects!proposals_project_id_fkey(
+          id,
+          client_id,
+          status,
+          accepted_revision
+        )
+      `
+      )
+      .eq("id", proposalId)
+      .single();
+
+    if (error || !proposal || !proposal.project) {
+      throw new ProposalError("Nie znaleziono propozycji", "PROPOSAL_NOT_FOUND", 404);
+    }
+
+    return proposal as ProposalWithProject;
+  }
+
+  /**
+   * Ensure a proposal is still waiting for a decision
+   *
+   * @param proposal - Proposal to check
+   * @throws ProposalError if the proposal is no longer pending
+   */
+  private assertPending(proposal: ProposalWithProject): void {
+    if (proposal.status !== "pending") {
+      throw new ProposalError("Oferta nie oczekuje już na decyzję", "PROPOSAL_NOT_PENDING", 409);
+    }
+  }
+
+  /**
+   * Persist a proposal status change
+   *
+   * @param proposalId - ID of the proposal
+   * @param status - New status
+   * @param rejectionReason - Reason shown to the artisan (rejections only)
+   * @returns New proposal status
+   * @throws ProposalError if the update fails
+   */
+  private async updateStatus(
+    proposalId: string,
+    status: ProposalStatus,
+    rejectionReason: string | null
+  ): Promise<ProposalStatusResponseDTO> {
+    const { data: updated, error } = await this.supabase
+      .from("proposals")
+      .update({
+        status,
+        rejection_reason: rejectionReason,
+        status_changed_at: new Date().toISOString(),
+      })
+      .eq("id", proposalId)
+      .select("id, status, rejection_reason, status_changed_at")
+      .single();
+
+    if (error || !updated) {
+      // eslint-disable-next-line no-console
+      console.error("[ProposalService] Failed to update proposal status:", error);
+      throw new ProposalError("Nie udało się zmienić statusu oferty", "PROPOSAL_STATUS_UPDATE_FAILED", 500);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Upload proposal attachment to the private Supabase Storage bucket
    *
    * @param file - File to upload
    * @param userId - Artisan user ID (for organizing files)
    * @param projectId - Project ID (for organizing files)
-   * @returns Public URL of the uploaded file
+   * @returns Object path of the uploaded file in the bucket
    * @throws ProposalError if upload fails
    */
   private async uploadAttachment(file: File, userId: string, projectId: string): Promise<string> {
@@ -225,17 +1094,10 @@ export class ProposalService {
         throw new ProposalError("Nie udało się przesłać załącznika", "UPLOAD_FAILED", 500);
       }
 
-      // Get public URL
-      const { data: publicUrlData } = this.supabase.storage.from(this.BUCKET_NAME).getPublicUrl(fileName);
-
-      if (!publicUrlData?.publicUrl) {
-        throw new ProposalError("Nie udało się wygenerować URL załącznika", "URL_GENERATION_FAILED", 500);
-      }
-
       // eslint-disable-next-line no-console
       console.log("[ProposalService] Attachment uploaded successfully:", fileName);
 
-      return publicUrlData.publicUrl;
+      return fileName;
     } catch (error) {
       if (error instanceof ProposalError) {
         throw error;
@@ -248,28 +1110,24 @@ export class ProposalService {
   }
 
   /**
-   * Delete proposal attachment from Supabase Storage
-   * Used for cleanup when proposal creation fails
+   * Delete proposal attachments from Supabase Storage
+   * Used for cleanup when proposal creation or revision fails
    *
-   * @param attachmentUrl - URL of the attachment to delete
+   * @param filePaths - Object paths of the attachments to delete
    */
-  private async deleteAttachment(attachmentUrl: string): Promise<void> {
+  private async deleteAttachments(filePaths: string[]): Promise<void> {
     try {
-      // Extract file path from URL
-      const urlParts = attachmentUrl.split(`${this.BUCKET_NAME}/`);
-      if (urlParts.length < 2) {
+      if (filePaths.length === 0) {
         return;
       }
 
-      const filePath = urlParts[1];
-
-      await this.supabase.storage.from(this.BUCKET_NAME).remove([filePath]);
+      await this.supabase.storage.from(this.BUCKET_NAME).remove(filePaths);
 
       // eslint-disable-next-line no-console
-      console.log("[ProposalService] Attachment deleted:", filePath);
+      console.log("[ProposalService] Attachments deleted:", filePaths);
     } catch (error) {
       // eslint-disable-next-line no-console
-      console.error("[ProposalService] Failed to delete attachment:", error);
+      console.error("[ProposalService] Failed to delete attachments:", error);
       // Don't throw - this is cleanup, failure is not critical
     }
   }
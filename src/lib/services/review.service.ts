@@ -7,6 +7,8 @@
 
 import type { SupabaseClient } from "../../db/supabase.client";
 import type { CreateReviewCommand, ReviewDTO, ArtisanReviewsResponseDTO } from "../../types";
+import { NotificationService } from "./notification.service";
+import { getDisplayName } from "./user-profile.service";
 
 /**
  * Custom error class for review-related business logic errors
@@ -29,7 +31,11 @@ export class ReviewError extends Error {
  * of business rules (project completion, user authorization, duplicate prevention).
  */
 export class ReviewService {
-  constructor(private supabase: SupabaseClient) {}
+  private notificationService: NotificationService;
+
+  constructor(private supabase: SupabaseClient) {
+    this.notificationService = new NotificationService(supabase);
+  }
 
   /**
    * Creates a new review for a completed project
@@ -39,6 +45,7 @@ export class ReviewService {
    * - Project must have status 'completed'
    * - Reviewer must be either the client or the artisan of the project
    * - User cannot review the same project twice
+   * - The reviewed user is notified about the new review
    *
    * @param projectId - ID of the project being reviewed
    * @param reviewerId - ID of the user creating the review
@@ -156,6 +163,9 @@ export class ReviewService {
         project:projects(
           id,
           category:categories(name)
+        ),
+        reviewer:users!reviews_reviewer_id_fkey(
+          profile:user_profiles(display_name, avatar_url)
         )
       `
       )
@@ -166,10 +176,20 @@ export class ReviewService {
       throw new ReviewError("Nie udało się pobrać utworzonej recenzji", "REVIEW_FETCH_FAILED", 500);
     }
 
-    // Step 8: Get reviewer data - for now just use ID
-    // TODO: In future, fetch from auth.users or add display name to public.users
+    // Step 8: Get the reviewer's public profile (name falls back to DEFAULT_DISPLAY_NAME)
+    const reviewerProfile = completeReview.reviewer?.profile ?? null;
+
+    // Step 9: Let the reviewed user know about the review
+    await this.notificationService.notify({
+      user_id: revieweeId,
+      actor_id: reviewerId,
+      type: "review_received",
+      project_id: projectId,
+      title: "Nowa opinia",
+      message: `Otrzymałeś opinię (${dto.rating}/5) za projekt ${completeReview.project.category.name}.`,
+    });
 
-    // Step 9: Transform to ReviewDTO
+    // Step 10: Transform to ReviewDTO
     return {
       id: completeReview.id,
       project: {
@@ -180,7 +200,8 @@ export class ReviewService {
       },
       reviewer: {
         id: reviewerId,
-        name: "Użytkownik", // Placeholder - email is in auth.users which requires admin access
+        name: getDisplayName(reviewerProfile),
+        avatar_url: reviewerProfile?.avatar_url ?? null,
       },
       rating: completeReview.rating,
       comment: completeReview.comment,
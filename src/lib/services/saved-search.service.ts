@@ -0,0 +1,239 @@
+/**
+ * Saved Search Service
+ *
+ * Service responsible for marketplace searches saved by artisans.
+ * Handles managing saved searches and alerting artisans about new projects matching them.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { CreateSavedSearchCommand, SavedSearchDTO, UpdateSavedSearchCommand } from "../../types";
+
+/**
+ * Custom error class for saved search-related business logic errors
+ */
+export class SavedSearchError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "SavedSearchError";
+  }
+}
+
+const SAVED_SEARCH_COLUMNS =
+  "id, name, query, category_id, material_id, specialization_id, budget_min, budget_max, alerts_enabled, created_at";
+
+/**
+ * Maximum number of saved searches per artisan
+ */
+export const MAX_SAVED_SEARCHES = 10;
+
+/**
+ * Service for managing saved searches
+ *
+ * Artisans save filter combinations from the marketplace; ProjectService calls
+ * alertMatchingArtisans after creating a project so they do not have to refresh the marketplace.
+ */
+export class SavedSearchService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Lists saved searches of an artisan, newest first
+   *
+   * @param artisanId - ID of the artisan
+   * @returns Promise containing the saved searches
+   * @throws SavedSearchError if the query fails
+   *
+   * @example
+   * const searches = await savedSearchService.listSavedSearches(artisanId);
+   */
+  async listSavedSearches(artisanId: string): Promise<SavedSearchDTO[]> {
+    const { data, error } = await this.supabase
+      .from("saved_searches")
+      .select(SAVED_SEARCH_COLUMNS)
+      .eq("artisan_id", artisanId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[SavedSearchService] Failed to fetch saved searches:", error);
+      throw new SavedSearchError("Nie udało się pobrać zapisanych wyszukiwań", "SAVED_SEARCHES_FETCH_FAILED", 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Saves a marketplace search of an artisan
+   *
+   * Business rules:
+   * - An artisan can have at most MAX_SAVED_SEARCHES saved searches
+   * - Criteria that are not given match any project
+   * - New-project alerts are enabled by default
+   *
+   * @param artisanId - ID of the artisan
+   * @param dto - Name, filters, optional budget range and specialization
+   * @returns Promise containing the saved search
+   * @throws SavedSearchError if the limit is reached or the insert fails
+   *
+   * @example
+   * const search = await savedSearchService.createSavedSearch(artisanId, {
+   *   name: "Dębowe stoły",
+   *   category_id: "category-uuid",
+   *   material_id: "material-uuid",
+   *   budget_min: 2000,
+   * });
+   */
+  async createSavedSearch(artisanId: string, dto: CreateSavedSearchCommand): Promise<SavedSearchDTO> {
+    // Step 1: Enforce the limit of saved searches
+    const { count, error: countError } = await this.supabase
+      .from("saved_searches")
+      .select("*", { count: "exact", head: true })
+      .eq("artisan_id", artisanId);
+
+    if (countError) {
+      // eslint-disable-next-line no-console
+      console.error("[SavedSearchService] Failed to count saved searches:", countError);
+      throw new SavedSearchError("Nie udało się zapisać wyszukiwania", "SAVED_SEARCH_CREATE_FAILED", 500);
+    }
+
+    if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+      throw new SavedSearchError(
+        `Możesz mieć maksymalnie ${MAX_SAVED_SEARCHES} zapisanych wyszukiwań`,
+        "SAVED_SEARCH_LIMIT_REACHED",
+        409
+      );
+    }
+
+    // Step 2: Save the search
+    const { data, error } = await this.supabase
+      .from("saved_searches")
+      .insert({
+        artisan_id: artisanId,
+        name: dto.name,
+        query: dto.query ?? null,
+        category_id: dto.category_id ?? null,
+        material_id: dto.material_id ?? null,
+        specialization_id: dto.specialization_id ?? null,
+        budget_min: dto.budget_min ?? null,
+        budget_max: dto.budget_max ?? null,
+        alerts_enabled: dto.alerts_enabled ?? true,
+      })
+      .select(SAVED_SEARCH_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      // Foreign key violation - unknown category, material or specialization
+      if (error?.code === "23503") {
+        throw new SavedSearchError(
+          "Wybrana kategoria, materiał lub specjalizacja nie istnieje",
+          "SAVED_SEARCH_INVALID_FILTER",
+          400
+        );
+      }
+      // eslint-disable-next-line no-console
+      console.error("[SavedSearchService] Failed to create saved search:", error);
+      throw new SavedSearchError("Nie udało się zapisać wyszukiwania", "SAVED_SEARCH_CREATE_FAILED", 500);
+    }
+
+    return data;
+  }
+
+  /**
+   * Renames a saved search or toggles its alerts
+   *
+   * @param searchId - ID of the saved search
+   * @param artisanId - ID of the artisan (must own the search)
+   * @param dto - New name and/or alerts flag
+   * @returns Promise containing the updated saved search
+   * @throws SavedSearchError if the search does not exist or the update fails
+   *
+   * @example
+   * await savedSearchService.updateSavedSearch(searchId, artisanId, { alerts_enabled: false });
+   */
+  async updateSavedSearch(searchId: string, artisanId: string, dto: UpdateSavedSearchCommand): Promise<SavedSearchDTO> {
+    const { data, error } = await this.supabase
+      .from("saved_searches")
+      .update(dto)
+      .eq("id", searchId)
+      .eq("artisan_id", artisanId)
+      .select(SAVED_SEARCH_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[SavedSearchService] Failed to update saved search:", error);
+      throw new SavedSearchError("Nie udało się zaktualizować wyszukiwania", "SAVED_SEARCH_UPDATE_FAILED", 500);
+    }
+
+    if (!data) {
+      throw new SavedSearchError("Nie znaleziono zapisanego wyszukiwania", "SAVED_SEARCH_NOT_FOUND", 404);
+    }
+
+    return data;
+  }
+
+  /**
+   * Deletes a saved search
+   *
+   * @param searchId - ID of the saved search
+   * @param artisanId - ID of the artisan (must own the search)
+   * @throws SavedSearchError if the search does not exist or the delete fails
+   *
+   * @example
+   * await savedSearchService.deleteSavedSearch(searchId, artisanId);
+   */
+  async deleteSavedSearch(searchId: string, artisanId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("saved_searches")
+      .delete()
+      .eq("id", searchId)
+      .eq("artisan_id", artisanId)
+      .select("id");
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[SavedSearchService] Failed to delete saved search:", error);
+      throw new SavedSearchError("Nie udało się usunąć wyszukiwania", "SAVED_SEARCH_DELETE_FAILED", 500);
+    }
+
+    if (!data || data.length === 0) {
+      throw new SavedSearchError("Nie znaleziono zapisanego wyszukiwania", "SAVED_SEARCH_NOT_FOUND", 404);
+    }
+  }
+
+  /**
+   * Alerts artisans whose saved searches match a newly created project
+   *
+   * Business rules:
+   * - Delivery is best-effort: a failure is logged and never breaks project creation
+   * - Matching runs in the database (create_saved_search_alerts), because saved searches of
+   *   other users are not visible to the client creating the project
+   * - Each artisan gets at most one alert per project, searches with alerts disabled are skipped
+   *
+   * @param projectId - ID of the newly created project
+   * @returns Promise containing the number of alerted artisans (0 on failure)
+   *
+   * @example
+   * await savedSearchService.alertMatchingArtisans(project.id);
+   */
+  async alertMatchingArtisans(projectId: string): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.rpc("create_saved_search_alerts", { project_id: projectId });
+
+      if (error) {
+        // eslint-disable-next-line no-console
+        console.error("[SavedSearchService] Failed to create saved search alerts:", error);
+        return 0;
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[SavedSearchService] Failed to create saved search alerts:", error);
+      return 0;
+    }
+  }
+}
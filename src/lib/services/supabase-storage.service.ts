@@ -110,6 +110,18 @@ export async function uploadBase64Image(
   }
 }
 
+/**
+ * Get the storage file name (path) of an image from its public URL
+ *
+ * @param publicUrl Public URL returned by uploadBase64Image
+ * @returns File name inside the bucket, or null if the URL does not point to the bucket
+ */
+export function getStorageFileName(publicUrl: string): string | null {
+  const marker = `/${BUCKET_NAME}/`;
+  const index = publicUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(publicUrl.slice(index + marker.length).split("?")[0]);
+}
+
 /**
  * Delete an image from Supabase Storage
  *
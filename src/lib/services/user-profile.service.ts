@@ -0,0 +1,151 @@
+/**
+ * User Profile Service
+ *
+ * Service responsible for the public profiles of users (display name, avatar, city).
+ * Profiles are shown to other users next to reviews, proposals and in the chat.
+ */
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { UpdateUserProfileCommand, UserProfileDTO } from "../../types";
+
+/**
+ * Custom error class for user profile-related business logic errors
+ */
+export class UserProfileError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400
+  ) {
+    super(message);
+    this.name = "UserProfileError";
+  }
+}
+
+const USER_PROFILE_COLUMNS = "display_name, avatar_url, city";
+
+/**
+ * Name shown for users who have not set a display name
+ */
+export const DEFAULT_DISPLAY_NAME = "Użytkownik";
+
+/**
+ * Profile of users who never set it
+ */
+const EMPTY_USER_PROFILE: UserProfileDTO = {
+  display_name: null,
+  avatar_url: null,
+  city: null,
+};
+
+/**
+ * Returns the name shown to other users
+ *
+ * @param profile - Profile of the user (may be missing)
+ * @returns Display name, or DEFAULT_DISPLAY_NAME if not set
+ */
+export function getDisplayName(profile: Pick<UserProfileDTO, "display_name"> | null | undefined): string {
+  return profile?.display_name || DEFAULT_DISPLAY_NAME;
+}
+
+/**
+ * Service for managing user profiles
+ */
+export class UserProfileService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Gets the profile of a user
+   *
+   * @param userId - ID of the user
+   * @returns Promise containing the profile (all fields null if never set)
+   * @throws UserProfileError if the query fails
+   *
+   * @example
+   * const profile = await userProfileService.getProfile(userId);
+   */
+  async getProfile(userId: string): Promise<UserProfileDTO> {
+    const { data, error } = await this.supabase
+      .from("user_profiles")
+      .select(USER_PROFILE_COLUMNS)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[UserProfileService] Failed to fetch user profile:", error);
+      throw new UserProfileError("Nie udało się pobrać profilu użytkownika", "USER_PROFILE_FETCH_FAILED", 500);
+    }
+
+    return data ?? { ...EMPTY_USER_PROFILE };
+  }
+
+  /**
+   * Gets the profiles of many users with one query
+   *
+   * @param userIds - IDs of the users
+   * @returns Promise containing a map of user ID to profile (users without a profile are missing)
+   * @throws UserProfileError if the query fails
+   *
+   * @example
+   * const profiles = await userProfileService.getProfiles(artisanIds);
+   */
+  async getProfiles(userIds: string[]): Promise<Map<string, UserProfileDTO>> {
+    const profiles = new Map<string, UserProfileDTO>();
+    if (userIds.length === 0) {
+      return profiles;
+    }
+
+    const { data, error } = await this.supabase
+      .from("user_profiles")
+      .select(`user_id, ${USER_PROFILE_COLUMNS}`)
+      .in("user_id", userIds);
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("[UserProfileService] Failed to fetch user profiles:", error);
+      throw new UserProfileError("Nie udało się pobrać profili użytkowników", "USER_PROFILE_FETCH_FAILED", 500);
+    }
+
+    (data || []).forEach(({ user_id, display_name, avatar_url, city }) => {
+      profiles.set(user_id, { display_name, avatar_url, city });
+    });
+
+    return profiles;
+  }
+
+  /**
+   * Updates the profile of a user
+   *
+   * Business rules:
+   * - Only the given fields are changed, the others keep their current value
+   * - null clears a field
+   *
+   * @param userId - ID of the user
+   * @param dto - Fields to change
+   * @returns Promise containing the updated profile
+   * @throws UserProfileError if the update fails
+   *
+   * @example
+   * await userProfileService.updateProfile(userId, { display_name: "Anna K.", city: "Kraków" });
+   */
+  async updateProfile(userId: string, dto: UpdateUserProfileCommand): Promise<UserProfileDTO> {
+    // Step 1: Merge with the current profile so the upsert never clears other fields
+    const current = await this.getProfile(userId);
+
+    // Step 2: Save
+    const { data, error } = await this.supabase
+      .from("user_profiles")
+      .upsert({ ...current, ...dto, user_id: userId, updated_at: new Date().toISOString() })
+      .select(USER_PROFILE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      // eslint-disable-next-line no-console
+      console.error("[UserProfileService] Failed to update user profile:", error);
+      throw new UserProfileError("Nie udało się zapisać profilu użytkownika", "USER_PROFILE_UPDATE_FAILED", 500);
+    }
+
+    return data;
+  }
+}
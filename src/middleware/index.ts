@@ -1,6 +1,7 @@
 import { defineMiddleware } from "astro:middleware";
 import { supabaseClient } from "../db/supabase.client.ts";
 import type { UserRole } from "../types.ts";
+import { checkRouteAccess, createAccessDeniedResponse, findRoutePolicy } from "./route-policies.ts";
 
 /**
  * Authentication Middleware
@@ -10,31 +11,51 @@ import type { UserRole } from "../types.ts";
  * 2. Check for valid session tokens in cookies
  * 3. Refresh expired sessions when possible
  * 4. Populate user data in locals for authenticated requests
- * 5. Protect routes that require authentication
- * 6. Redirect authenticated users away from auth pages
+ * 5. Sign out suspended users
+ * 6. Enforce the route policies (authentication, roles, complete artisan profile)
+ * 7. Redirect authenticated users away from auth pages
  */
 
-// Routes that require authentication
-const PROTECTED_ROUTES = ["/dashboard", "/generate", "/gallery", "/profile", "/market", "/projects"];
-
 // Routes that should redirect authenticated users
 const AUTH_ROUTES = ["/login", "/register", "/password-recovery", "/password-reset"];
 
+interface UserAccount {
+  role: UserRole;
+  suspended_at: string | null;
+}
+
 /**
- * Fetch user role from database
+ * Fetch user role and suspension state from database
  */
-async function fetchUserRole(userId: string | undefined): Promise<UserRole | undefined> {
+async function fetchUserAccount(userId: string | undefined): Promise<UserAccount | undefined> {
   if (!userId) return undefined;
 
   try {
-    const { data, error } = await supabaseClient.from("users").select("role").eq("id", userId).single();
+    const { data, error } = await supabaseClient.from("users").select("role, suspended_at").eq("id", userId).single();
 
-    return !error && data ? data.role : undefined;
+    return !error && data ? data : undefined;
   } catch {
     return undefined;
   }
 }
 
+/**
+ * Check whether the artisan has created their company profile
+ */
+async function hasArtisanProfile(userId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseClient
+      .from("artisan_profiles")
+      .select("user_id")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    return !error && !!data;
+  } catch {
+    return false;
+  }
+}
+
 export const onRequest = defineMiddleware(async (context, next) => {
   // Initialize Supabase client in locals
   context.locals.supabase = supabaseClient;
@@ -77,13 +98,19 @@ export const onRequest = defineMiddleware(async (context, next) => {
             });
 
             // Fetch role from database
-            const role = await fetchUserRole(data.user.id);
-            if (role) {
-              Object.assign(data.user, { role });
-              context.locals.userRole = role;
+            const account = await fetchUserAccount(data.user.id);
+            if (account?.suspended_at) {
+              // Suspended users are signed out
+              context.cookies.delete("sb-access-token", { path: "/" });
+              context.cookies.delete("sb-refresh-token", { path: "/" });
+            } else {
+              if (account) {
+                Object.assign(data.user, { role: account.role });
+                context.locals.userRole = account.role;
+              }
+              // @ts-expect-error - adding role property to User type
+              context.locals.user = data.user;
             }
-            // @ts-expect-error - adding role property to User type
-            context.locals.user = data.user;
           } else {
             // Refresh failed, clear invalid cookies
             context.cookies.delete("sb-access-token", { path: "/" });
@@ -95,13 +122,19 @@ export const onRequest = defineMiddleware(async (context, next) => {
         }
       } else if (user) {
         // Valid token and user, fetch role from database
-        const role = await fetchUserRole(user.id);
-        if (role) {
-          Object.assign(user, { role });
-          context.locals.userRole = role;
+        const account = await fetchUserAccount(user.id);
+        if (account?.suspended_at) {
+          // Suspended users are signed out
+          context.cookies.delete("sb-access-token", { path: "/" });
+          context.cookies.delete("sb-refresh-token", { path: "/" });
+        } else {
+          if (account) {
+            Object.assign(user, { role: account.role });
+            context.locals.userRole = account.role;
+          }
+          // @ts-expect-error - adding role property to User type
+          context.locals.user = user;
         }
-        // @ts-expect-error - adding role property to User type
-        context.locals.user = user;
       }
     } catch {
       // Error occurred, clear cookies to be safe
@@ -113,15 +146,22 @@ export const onRequest = defineMiddleware(async (context, next) => {
   // Get current path
   const { pathname } = context.url;
 
-  // Check if route requires authentication
-  const isProtectedRoute = PROTECTED_ROUTES.some((route) => pathname.startsWith(route));
-
   // Check if route is an auth page
   const isAuthRoute = AUTH_ROUTES.some((route) => pathname.startsWith(route));
 
-  // Redirect unauthenticated users from protected routes
-  if (isProtectedRoute && !context.locals.user) {
-    return context.redirect("/login", 302);
+  // Enforce the policy of protected routes
+  const policy = findRoutePolicy(pathname, context.request.method);
+  if (policy) {
+    const user = context.locals.user;
+    const access = await checkRouteAccess(policy, {
+      isAuthenticated: !!user,
+      role: context.locals.userRole,
+      hasArtisanProfile: () => (user ? hasArtisanProfile(user.id) : Promise.resolve(false)),
+    });
+
+    if (!access.allowed) {
+      return createAccessDeniedResponse(pathname, access.reason);
+    }
   }
 
   // Redirect authenticated users from auth pages to home
@@ -0,0 +1,183 @@
+import { createErrorResponse } from "../lib/api-utils.ts";
+import type { UserRole } from "../types.ts";
+
+/**
+ * Route Policies
+ *
+ * Declarative access rules enforced by the middleware for pages and API routes.
+ * Pages are redirected (to /login, home or the artisan profile form), API routes
+ * get a JSON error response. Routes without a policy are public.
+ */
+
+export interface RoutePolicy {
+  // Path pattern; ":param" matches one segment, a trailing "/*" matches the path and everything below it
+  pattern: string;
+  // HTTP methods covered by the policy; all methods when omitted
+  methods?: string[];
+  // Roles allowed on the route; any signed-in user when omitted
+  roles?: UserRole[];
+  // Artisans must have created their company profile first
+  requiresCompleteArtisanProfile?: boolean;
+}
+
+/**
+ * Policies are checked in order and the first match wins, so more specific
+ * patterns must come before the wildcards that cover them.
+ */
+export const ROUTE_POLICIES: RoutePolicy[] = [
+  // Pages
+  { pattern: "/admin/*", roles: ["admin"] },
+  { pattern: "/dashboard/client", roles: ["client"] },
+  { pattern: "/dashboard/artisan", roles: ["artisan"] },
+  { pattern: "/dashboard/*" },
+  { pattern: "/generate", roles: ["client"] },
+  { pattern: "/gallery", roles: ["client"] },
+  { pattern: "/profile/*", roles: ["artisan"] },
+  { pattern: "/market", roles: ["artisan"], requiresCompleteArtisanProfile: true },
+  { pattern: "/projects", roles: ["artisan"] },
+  { pattern: "/projects/new/:imageId", roles: ["client"] },
+  { pattern: "/projects/*" },
+  { pattern: "/settings/*" },
+
+  // API: moderation
+  { pattern: "/api/admin/*", roles: ["admin"] },
+
+  // API: image generation
+  { pattern: "/api/images/*", roles: ["client"] },
+
+  // API: artisan profile
+  { pattern: "/api/artisans/me/*", roles: ["artisan"] },
+
+  // API: projects
+  { pattern: "/api/projects", methods: ["GET"], roles: ["artisan"] },
+  { pattern: "/api/projects", methods: ["POST"], roles: ["client"] },
+  { pattern: "/api/projects/me", roles: ["client"] },
+  {
+    pattern: "/api/projects/:projectId/proposals",
+    methods: ["POST"],
+    roles: ["artisan"],
+    requiresCompleteArtisanProfile: true,
+  },
+  { pattern: "/api/projects/:projectId/proposals/:proposalId/reject", roles: ["client"] },
+  { pattern: "/api/projects/:projectId/accept-proposal", roles: ["client"] },
+  { pattern: "/api/projects/:projectId/milestones/:milestoneId/approve", roles: ["client"] },
+  { pattern: "/api/projects/:projectId/milestones/:milestoneId/submit", roles: ["artisan"] },
+  { pattern: "/api/projects/:projectId/*" },
+
+  // API: proposals
+  { pattern: "/api/proposals/me/*", roles: ["artisan"] },
+  { pattern: "/api/proposals/*" },
+
+  // API: marketplace saved searches
+  { pattern: "/api/saved-searches/*", roles: ["artisan"], requiresCompleteArtisanProfile: true },
+
+  // API: account
+  { pattern: "/api/users/me/*" },
+  { pattern: "/api/notifications/*" },
+  { pattern: "/api/chat/*" },
+
+  // API: content reports
+  { pattern: "/api/reports/*" },
+];
+
+export type RouteAccessDenial = "unauthenticated" | "forbidden" | "artisan_profile_incomplete";
+
+export type RouteAccess = { allowed: true } | { allowed: false; reason: RouteAccessDenial };
+
+export interface RouteViewer {
+  isAuthenticated: boolean;
+  role?: UserRole;
+  // Resolved lazily, only for policies that require a complete artisan profile
+  hasArtisanProfile: () => Promise<boolean>;
+}
+
+/**
+ * Checks whether a pathname matches a policy pattern
+ */
+function matchesPattern(pattern: string, pathname: string): boolean {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = pathname.split("/").filter(Boolean);
+
+  if (patternSegments[patternSegments.length - 1] === "*") {
+    const prefix = patternSegments.slice(0, -1);
+    return (
+      pathSegments.length >= prefix.length &&
+      prefix.every((segment, index) => segment.startsWith(":") || segment === pathSegments[index])
+    );
+  }
+
+  return (
+    pathSegments.length === patternSegments.length &&
+    patternSegments.every((segment, index) => segment.startsWith(":") || segment === pathSegments[index])
+  );
+}
+
+/**
+ * Finds the first policy covering the given path and HTTP method
+ *
+ * @returns The matching policy, or undefined for public routes
+ */
+export function findRoutePolicy(
+  pathname: string,
+  method: string,
+  policies: RoutePolicy[] = ROUTE_POLICIES
+): RoutePolicy | undefined {
+  const upperMethod = method.toUpperCase();
+
+  return policies.find(
+    (policy) => (!policy.methods || policy.methods.includes(upperMethod)) && matchesPattern(policy.pattern, pathname)
+  );
+}
+
+/**
+ * Evaluates a policy for the current viewer
+ *
+ * Business rules:
+ * - Anonymous visitors are denied on every policy
+ * - Users whose role is not listed are forbidden
+ * - Artisans without a company profile are denied where the policy requires it
+ */
+export async function checkRouteAccess(policy: RoutePolicy, viewer: RouteViewer): Promise<RouteAccess> {
+  if (!viewer.isAuthenticated) {
+    return { allowed: false, reason: "unauthenticated" };
+  }
+
+  if (policy.roles && !(viewer.role && policy.roles.includes(viewer.role))) {
+    return { allowed: false, reason: "forbidden" };
+  }
+
+  if (policy.requiresCompleteArtisanProfile && viewer.role === "artisan" && !(await viewer.hasArtisanProfile())) {
+    return { allowed: false, reason: "artisan_profile_incomplete" };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Builds the response for a denied request: a JSON error for API routes,
+ * a redirect for pages
+ */
+export function createAccessDeniedResponse(pathname: string, reason: RouteAccessDenial): Response {
+  if (pathname === "/api" || pathname.startsWith("/api/")) {
+    switch (reason) {
+      case "unauthenticated":
+        return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+      case "forbidden":
+        return createErrorResponse("FORBIDDEN", "Brak uprawnień do tego zasobu", 403);
+      case "artisan_profile_incomplete":
+        return createErrorResponse(
+          "ARTISAN_PROFILE_INCOMPLETE",
+          "Uzupełnij profil rzemieślnika, aby korzystać z tej funkcji",
+          403
+        );
+    }
+  }
+
+  const location = {
+    unauthenticated: "/login",
+    forbidden: "/",
+    artisan_profile_incomplete: "/profile/edit",
+  }[reason];
+
+  return new Response(null, { status: 302, headers: { Location: location } });
+}
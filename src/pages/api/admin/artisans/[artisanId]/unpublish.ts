@@ -0,0 +1,93 @@
+/**
+ * Admin Artisan Profile Moderation API Endpoint
+ *
+ * POST /api/admin/artisans/{artisanId}/unpublish - Unpublish an artisan profile
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only users with role "admin"
+ *
+ * PATH PARAMETERS:
+ * - artisanId: string (UUID) - ID of the artisan (user_id of the profile)
+ *
+ * REQUEST BODY (application/json):
+ * { "reason": "Fałszywe dane firmy" }  // 3-500 characters, recorded in the audit log
+ *
+ * SUCCESS RESPONSE: 204 No Content
+ *
+ * BUSINESS RULES:
+ * - The profile becomes private and its owner cannot publish it again
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid artisan ID or invalid JSON
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not an admin
+ * - 404 Not Found: Artisan profile not found
+ * - 409 Conflict: Profile is already unpublished
+ * - 422 Unprocessable Entity: Validation error
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ArtisanIdSchema, ModerationSchema } from "@/lib/schemas";
+import { AdminService, AdminError } from "@/lib/services/admin.service";
+import { createErrorResponse } from "@/lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const artisanIdValidation = ArtisanIdSchema.safeParse(params.artisanId);
+
+    if (!artisanIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID rzemieślnika", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_JSON", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = ModerationSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 422);
+    }
+
+    // ========================================================================
+    // STEP 4: Unpublish Profile
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    await adminService.unpublishArtisanProfile(user.id, artisanIdValidation.data, validationResult.data.reason);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/admin/artisans/{artisanId}/unpublish:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
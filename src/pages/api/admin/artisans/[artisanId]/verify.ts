@@ -0,0 +1,110 @@
+/**
+ * Admin Artisan Verification API Endpoint
+ *
+ * POST /api/admin/artisans/{artisanId}/verify - Verify the company of an artisan in the business registry
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only users with role "admin"
+ *
+ * PATH PARAMETERS:
+ * - artisanId: string (UUID) - ID of the artisan (user_id of the profile)
+ *
+ * REQUEST BODY (optional):
+ * {
+ *   "accept_name_mismatch": true  // verify although the registered company name differs from the profile
+ * }
+ *
+ * SUCCESS RESPONSE (200 OK):
+ * {
+ *   "verification_status": "verified",  // "needs_review" when the names differ, "failed" when the NIP is not found
+ *   "verified_company_name": "Stolarnia Kowalski Sp. z o.o.",
+ *   "verified_address": "ul. Leśna 5, 00-001 Warszawa",
+ *   "verified_at": "2025-11-12T10:00:00Z"
+ * }
+ *
+ * BUSINESS RULES:
+ * - The NIP of the profile is looked up in the registry configured by BUSINESS_REGISTRY_PROVIDER
+ * - The registered company name has to match the company name of the profile (ignoring case, diacritics
+ *   and legal form); otherwise the profile is left for manual review until verified with accept_name_mismatch
+ * - A verified profile shows the "Zweryfikowany" badge on the public profile and on proposals
+ * - The result is recorded in the audit log
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid artisan ID or JSON
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not an admin
+ * - 404 Not Found: Artisan profile not found
+ * - 422 Unprocessable Entity: Validation failed
+ * - 500 Internal Server Error: Unexpected errors
+ * - 503 Service Unavailable: Business registry cannot be reached
+ */
+
+import type { APIRoute } from "astro";
+import { ArtisanIdSchema, VerifyArtisanSchema } from "@/lib/schemas";
+import { AdminService, AdminError } from "@/lib/services/admin.service";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const artisanIdValidation = ArtisanIdSchema.safeParse(params.artisanId);
+
+    if (!artisanIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID rzemieślnika", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body (optional)
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      const text = await request.text();
+      requestBody = text ? JSON.parse(text) : {};
+    } catch {
+      return createErrorResponse("INVALID_JSON", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = VerifyArtisanSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 422);
+    }
+
+    // ========================================================================
+    // STEP 4: Verify Company
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    const verification = await adminService.verifyArtisan(
+      user.id,
+      artisanIdValidation.data,
+      validationResult.data.accept_name_mismatch
+    );
+
+    return createSuccessResponse(verification);
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/admin/artisans/{artisanId}/verify:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
@@ -0,0 +1,97 @@
+/**
+ * Admin Report Resolution API Endpoint
+ *
+ * POST /api/admin/reports/{reportId}/resolve - Resolve every pending report of the reported content
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only users with role "admin"
+ *
+ * PATH PARAMETERS:
+ * - reportId: string (UUID) - ID of one of the reports of the content
+ *
+ * REQUEST BODY (application/json):
+ * {
+ *   "decision": "upheld",          // upheld | dismissed
+ *   "reason": "Spam"               // 3-500 characters, recorded in the audit log
+ * }
+ *
+ * SUCCESS RESPONSE: 204 No Content
+ *
+ * BUSINESS RULES:
+ * - Upholding hides the content, or keeps it hidden, with the given reason
+ * - Dismissing makes content hidden automatically after the reports visible again
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid report ID or invalid JSON
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not an admin
+ * - 404 Not Found: Report not found
+ * - 409 Conflict: Report is already resolved
+ * - 422 Unprocessable Entity: Validation error
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ReportIdSchema, ResolveContentReportSchema } from "@/lib/schemas";
+import { AdminService, AdminError } from "@/lib/services/admin.service";
+import { createErrorResponse } from "@/lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const reportIdValidation = ReportIdSchema.safeParse(params.reportId);
+
+    if (!reportIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID zgłoszenia", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_JSON", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = ResolveContentReportSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 422);
+    }
+
+    // ========================================================================
+    // STEP 4: Resolve Reports
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    await adminService.resolveReport(user.id, reportIdValidation.data, validationResult.data);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/admin/reports/{reportId}/resolve:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
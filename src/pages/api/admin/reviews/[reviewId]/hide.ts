@@ -0,0 +1,136 @@
+/**
+ * Admin Review Moderation API Endpoint
+ *
+ * POST /api/admin/reviews/{reviewId}/hide - Hide a review
+ * DELETE /api/admin/reviews/{reviewId}/hide - Make a hidden review public again
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only users with role "admin"
+ *
+ * PATH PARAMETERS:
+ * - reviewId: string (UUID) - ID of the review
+ *
+ * REQUEST BODY (POST, application/json):
+ * { "reason": "Obraźliwe treści" }  // 3-500 characters, recorded in the audit log
+ *
+ * SUCCESS RESPONSE: 204 No Content
+ *
+ * BUSINESS RULES:
+ * - A hidden review is only visible to its author and admins
+ * - Hidden reviews are left out of the artisan's rating
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid review ID or invalid JSON
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not an admin
+ * - 404 Not Found: Review not found
+ * - 409 Conflict: Review is already hidden (POST) or is not hidden (DELETE)
+ * - 422 Unprocessable Entity: Validation error
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ModerationSchema, ReviewIdSchema } from "@/lib/schemas";
+import { AdminService, AdminError } from "@/lib/services/admin.service";
+import { createErrorResponse } from "@/lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const reviewIdValidation = ReviewIdSchema.safeParse(params.reviewId);
+
+    if (!reviewIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID opinii", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_JSON", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = ModerationSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 422);
+    }
+
+    // ========================================================================
+    // STEP 4: Hide Review
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    await adminService.hideReview(user.id, reviewIdValidation.data, validationResult.data.reason);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/admin/reviews/{reviewId}/hide:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const reviewIdValidation = ReviewIdSchema.safeParse(params.reviewId);
+
+    if (!reviewIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID opinii", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Restore Review
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    await adminService.restoreReview(user.id, reviewIdValidation.data);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in DELETE /api/admin/reviews/{reviewId}/hide:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
@@ -0,0 +1,135 @@
+/**
+ * Admin Generation Quota API Endpoint
+ *
+ * PUT /api/admin/users/{userId}/generation-quota - Set the monthly generation limit of a user
+ * DELETE /api/admin/users/{userId}/generation-quota - Restore the limit of the user's plan
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only users with role "admin"
+ *
+ * PATH PARAMETERS:
+ * - userId: string (UUID) - ID of the user
+ *
+ * REQUEST BODY (PUT, application/json):
+ * {
+ *   "monthly_limit": 50,              // 0-10000, 0 blocks generating
+ *   "reason": "Projekt pilotażowy"    // optional, up to 400 characters
+ * }
+ *
+ * SUCCESS RESPONSE: 204 No Content
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid user ID or invalid JSON
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not an admin
+ * - 404 Not Found: User not found
+ * - 422 Unprocessable Entity: Validation error
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { SetGenerationQuotaSchema, UserIdSchema } from "@/lib/schemas";
+import { AdminService, AdminError } from "@/lib/services/admin.service";
+import { GenerationQuotaError } from "@/lib/services/generation-quota.service";
+import { createErrorResponse } from "@/lib/api-utils";
+
+export const prerender = false;
+
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const userIdValidation = UserIdSchema.safeParse(params.userId);
+
+    if (!userIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID użytkownika", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_JSON", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = SetGenerationQuotaSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 422);
+    }
+
+    // ========================================================================
+    // STEP 4: Set Generation Limit
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    await adminService.setGenerationQuota(user.id, userIdValidation.data, validationResult.data);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AdminError || error instanceof GenerationQuotaError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in PUT /api/admin/users/{userId}/generation-quota:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const userIdValidation = UserIdSchema.safeParse(params.userId);
+
+    if (!userIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID użytkownika", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Clear Generation Limit
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    await adminService.clearGenerationQuota(user.id, userIdValidation.data);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AdminError || error instanceof GenerationQuotaError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in DELETE /api/admin/users/{userId}/generation-quota:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
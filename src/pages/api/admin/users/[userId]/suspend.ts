@@ -0,0 +1,136 @@
+/**
+ * Admin User Suspension API Endpoint
+ *
+ * POST /api/admin/users/{userId}/suspend - Suspend a user
+ * DELETE /api/admin/users/{userId}/suspend - Lift the suspension of a user
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only users with role "admin"
+ *
+ * PATH PARAMETERS:
+ * - userId: string (UUID) - ID of the user
+ *
+ * REQUEST BODY (POST, application/json):
+ * { "reason": "Fałszywe oferty" }  // 3-500 characters, recorded in the audit log
+ *
+ * SUCCESS RESPONSE: 204 No Content
+ *
+ * BUSINESS RULES:
+ * - Admins cannot suspend themselves or other admins
+ * - A suspended user is signed out on the next request and cannot sign in again
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid user ID, invalid JSON OR suspending own account
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not an admin OR the target user is an admin
+ * - 404 Not Found: User not found
+ * - 409 Conflict: User is already suspended (POST) or is not suspended (DELETE)
+ * - 422 Unprocessable Entity: Validation error
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ModerationSchema, UserIdSchema } from "@/lib/schemas";
+import { AdminService, AdminError } from "@/lib/services/admin.service";
+import { createErrorResponse } from "@/lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const userIdValidation = UserIdSchema.safeParse(params.userId);
+
+    if (!userIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID użytkownika", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_JSON", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = ModerationSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 422);
+    }
+
+    // ========================================================================
+    // STEP 4: Suspend User
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    await adminService.suspendUser(user.id, userIdValidation.data, validationResult.data.reason);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/admin/users/{userId}/suspend:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const userIdValidation = UserIdSchema.safeParse(params.userId);
+
+    if (!userIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID użytkownika", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Reinstate User
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    await adminService.reinstateUser(user.id, userIdValidation.data);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in DELETE /api/admin/users/{userId}/suspend:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
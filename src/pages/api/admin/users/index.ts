@@ -0,0 +1,99 @@
+/**
+ * Admin Users API Endpoint
+ *
+ * GET /api/admin/users - List users for moderation, newest first
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only users with role "admin"
+ *
+ * QUERY PARAMETERS:
+ * - search: string (optional) - matches the email, display name or company name
+ * - role: "client" | "artisan" | "admin" (optional)
+ * - page: number (optional, default: 1)
+ * - limit: number (optional, default: 20, max: 100)
+ *
+ * SUCCESS RESPONSE (200 OK):
+ * {
+ *   "data": [
+ *     {
+ *       "id": "uuid",
+ *       "email": "jan@example.com",
+ *       "role": "artisan",
+ *       "display_name": "Jan K.",
+ *       "company_name": "Stolarnia Kowalski",
+ *       "is_public": true,
+ *       "suspended_at": null,
+ *       "suspension_reason": null,
+ *       "created_at": "2025-10-27T10:00:00Z"
+ *     }
+ *   ],
+ *   "pagination": { "page": 1, "limit": 20, "total": 1, "total_pages": 1 }
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not an admin
+ * - 422 Unprocessable Entity: Invalid query parameters
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { AdminUsersQuerySchema } from "@/lib/schemas";
+import { AdminService, AdminError } from "@/lib/services/admin.service";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication & Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (locals.userRole !== "admin") {
+      return createErrorResponse("FORBIDDEN", "Brak uprawnień administratora", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Query Parameter Validation
+    // ========================================================================
+    const url = new URL(request.url);
+    const queryValidation = AdminUsersQuerySchema.safeParse({
+      search: url.searchParams.get("search"),
+      role: url.searchParams.get("role"),
+      page: url.searchParams.get("page"),
+      limit: url.searchParams.get("limit"),
+    });
+
+    if (!queryValidation.success) {
+      const fieldErrors: Record<string, string> = {};
+      queryValidation.error.errors.forEach((err) => {
+        if (err.path.length > 0) {
+          fieldErrors[err.path[0].toString()] = err.message;
+        }
+      });
+
+      return createErrorResponse("VALIDATION_ERROR", "Parametry zapytania są nieprawidłowe", 422, fieldErrors);
+    }
+
+    // ========================================================================
+    // STEP 3: Fetch Users
+    // ========================================================================
+    const adminService = new AdminService(locals.supabase);
+    const result = await adminService.listUsers(queryValidation.data);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in GET /api/admin/users:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
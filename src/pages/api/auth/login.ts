@@ -40,6 +40,18 @@ export const POST: APIRoute = async (context) => {
       return createErrorResponse("NO_SESSION", "Nie udało się utworzyć sesji", 500);
     }
 
+    // Suspended users cannot sign in
+    const { data: account } = await context.locals.supabase
+      .from("users")
+      .select("suspended_at")
+      .eq("id", data.user.id)
+      .single();
+
+    if (account?.suspended_at) {
+      await context.locals.supabase.auth.signOut();
+      return createErrorResponse("ACCOUNT_SUSPENDED", "Twoje konto zostało zawieszone", 403);
+    }
+
     // Set session cookies
     setSessionCookies(context, data.session.access_token, data.session.refresh_token);
 
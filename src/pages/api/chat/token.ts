@@ -3,11 +3,13 @@
  *
  * Generates a GetStream Chat token for the authenticated user.
  * This token is required to connect to GetStream Chat.
+ * The chat user is named after the user's public profile (display name and avatar).
  */
 
 import type { APIRoute } from "astro";
 import { StreamChat } from "stream-chat";
 import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+import { UserProfileService, getDisplayName } from "@/lib/services/user-profile.service";
 
 export const prerender = false;
 
@@ -34,15 +36,15 @@ export const GET: APIRoute = async ({ locals }) => {
     // Initialize GetStream server client
     const serverClient = StreamChat.getInstance(apiKey, apiSecret);
 
-    // Get user name from metadata
-    const userName =
-      (locals.user.user_metadata?.full_name as string) ||
-      (locals.user.email ? locals.user.email.split("@")[0] : locals.user.id);
+    // Get the public profile - the email address is never shown to the other party
+    const userProfileService = new UserProfileService(locals.supabase);
+    const profile = await userProfileService.getProfile(locals.user.id);
 
     // Upsert user in GetStream (create or update)
     await serverClient.upsertUser({
       id: locals.user.id,
-      name: userName,
+      name: getDisplayName(profile),
+      image: profile.avatar_url ?? undefined,
       role: "user",
     });
 
@@ -0,0 +1,107 @@
+/**
+ * Image Candidates API Endpoint - POST /api/images/candidates
+ *
+ * Keeps the candidate images chosen by the client and discards the rest. Candidates are produced by
+ * POST /api/images/generate with "candidates" > 1 and are not charged to the generation quota until
+ * they are kept here. Discarded candidates are deleted together with their files.
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the client who generated the candidates
+ *
+ * REQUEST BODY:
+ * {
+ *   "keep": ["550e8400-e29b-41d4-a716-446655440000"],
+ *   "discard": ["7c9e6679-7425-40de-944b-e07fc1f90ae7", "9b2f1c4e-1f0a-4a8e-9c3d-2e5b7a6d8f10"]
+ * }
+ *
+ * SUCCESS RESPONSE (200 OK):
+ * {
+ *   "kept": [{ "id": "550e8400-...", "image_url": "https://...", ... }],
+ *   "remaining_generations": 8
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid JSON body
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User role is not "client"
+ * - 404 Not Found: An image is not a pending candidate of the user (or it expired)
+ * - 422 Unprocessable Entity: Validation error (IDs, no candidate selected)
+ * - 429 Too Many Requests: Not enough monthly generation quota to keep all chosen candidates
+ * - 500 Internal Server Error: Database or unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ResolveImageCandidatesSchema } from "@/lib/schemas";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+import { GeneratedImagesService, GeneratedImageError } from "@/lib/services/generated-images.service";
+import { GenerationQuotaError } from "@/lib/services/generation-quota.service";
+import { ZodError } from "zod";
+import type { ResolveImageCandidatesResponseDTO } from "@/types";
+
+export const prerender = false;
+
+export const POST: APIRoute = async (context) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+
+    const {
+      data: { user },
+      error: authError,
+    } = await context.locals.supabase.auth.getUser();
+
+    if (authError || !user) {
+      return createErrorResponse("UNAUTHORIZED", "Musisz być zalogowany", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Authorization - Role Check
+    // The role is resolved by the middleware, which also enforces the route policy
+    // ========================================================================
+
+    if (context.locals.userRole !== "client") {
+      return createErrorResponse("FORBIDDEN", "Tylko klienci mogą wybierać warianty obrazów", 403);
+    }
+
+    // ========================================================================
+    // STEP 3: Input Validation
+    // ========================================================================
+
+    const body = await context.request.json();
+    const validatedData = ResolveImageCandidatesSchema.parse(body);
+
+    // ========================================================================
+    // STEP 4: Keep Chosen Candidates and Discard the Rest
+    // ========================================================================
+
+    const service = new GeneratedImagesService(context.locals.supabase);
+    const response: ResolveImageCandidatesResponseDTO = await service.resolveCandidates(
+      user.id,
+      validatedData.keep,
+      validatedData.discard
+    );
+
+    return createSuccessResponse(response);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const fieldErrors: Record<string, string> = {};
+
+      error.errors.forEach((err) => {
+        if (err.path.length > 0) {
+          fieldErrors[err.path[0].toString()] = err.message;
+        }
+      });
+
+      return createErrorResponse("VALIDATION_ERROR", "Błąd walidacji danych", 422, fieldErrors);
+    }
+
+    if (error instanceof GeneratedImageError || error instanceof GenerationQuotaError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("Unexpected error in image candidates endpoint:", error);
+    return createErrorResponse("INTERNAL_ERROR", "Wystąpił błąd serwera. Spróbuj ponownie później.", 500);
+  }
+};
@@ -5,23 +5,29 @@
  *
  * AUTHENTICATION: Required (Supabase Auth token)
  * AUTHORIZATION: Only users with role "client" can generate images
- * RATE LIMITING: Limited by user's generation quota (default: 10 per month)
+ * RATE LIMITING: Limited by user's monthly generation quota (plan limit - free: 10, premium: 100 -
+ * or a limit set by an admin), which resets on the first day of every month (UTC).
+ * Every charged generation is recorded in the generation ledger, so deleting images does not refund it.
+ * Refinements of existing images (POST /api/images/refine) do not count towards the quota.
  *
  * WORKFLOW:
  * 1. Extract and validate authentication token
  * 2. Fetch user data and verify authentication
  * 3. Check rate limiting / generation quota
  * 4. Verify user role is "client"
- * 5. Validate request body (prompt: 10-500 characters)
- * 6. Generate enhanced prompt using OpenRouter AI
- * 7. Generate image based on enhanced prompt
- * 8. Upload image to Supabase Storage
- * 9. Save metadata to database (generated_images table)
+ * 5. Validate request body (prompt: 10-500 characters, candidates: 1-4)
+ * 6. Generate enhanced prompt using OpenRouter AI (locally only with the mock provider)
+ * 7. Generate image (or 2-4 candidates) based on enhanced prompt with the provider set by IMAGE_PROVIDER
+ * 8. Upload images to Supabase Storage
+ * 9. Save image with generation metadata (enhanced prompts, technical notes, materials, style, model,
+ *    generation time) to the generated_images table and charge it to the quota; several candidates are
+ *    stored as pending
  * 10. Return 201 Created with image data and remaining quota
  *
  * REQUEST BODY:
  * {
- *   "prompt": "A modern oak dining table with metal legs"
+ *   "prompt": "A modern oak dining table with metal legs",
+ *   "candidates": 3 // optional, 1-4, default: 1
  * }
  *
  * SUCCESS RESPONSE (201 Created):
@@ -32,28 +38,48 @@
  *   "image_url": "https://...",
  *   "created_at": "2025-10-18T12:30:45Z",
  *   "is_used": false,
+ *   "parent_image_id": null,
+ *   "root_image_id": null,
+ *   "positive_prompt": "Professional product photo of a modern oak dining table...",
+ *   "negative_prompt": "blurry, low quality, distorted",
+ *   "technical_notes": "Construction focus: joinery, materials quality",
+ *   "materials": ["oak", "metal"],
+ *   "style": "Modern",
+ *   "model": "google/gemini-2.5-flash-image-preview",
+ *   "generation_time_ms": 8450,
  *   "remaining_generations": 9
  * }
  *
+ * With "candidates" > 1 the response also contains "candidates": [GeneratedImageDTO, ...].
+ * Candidates are not charged to the quota (remaining_generations is unchanged) until they are
+ * kept via POST /api/images/candidates; the ones not kept are discarded there. The quota must still
+ * cover all requested candidates, a user can have at most 8 pending candidates and candidates not
+ * resolved within 24 hours expire.
+ *
  * ERROR RESPONSES:
  * - 400 Bad Request: Invalid JSON body
  * - 401 Unauthorized: Missing or invalid authentication token
  * - 403 Forbidden: User role is not "client" or quota exceeded
- * - 404 Not Found: User not found
  * - 422 Unprocessable Entity: Validation error (prompt length)
- * - 429 Too Many Requests: Rate limit exceeded or quota reached
+ * - 429 Too Many Requests: Rate limit exceeded, monthly quota reached or too many pending candidates
  * - 500 Internal Server Error: Database or unexpected errors
- * - 503 Service Unavailable: AI service (OpenRouter) unavailable
+ * - 503 Service Unavailable: AI service unavailable or image provider (IMAGE_PROVIDER) not configured
  */
 
 import type { APIRoute } from "astro";
 import { GenerateImageSchema } from "@/lib/schemas";
 import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
-import { AIImageService } from "@/lib/services/ai-image.service";
+import { createAIImageService, type AIImageService } from "@/lib/services/ai-image.service";
 import { checkImageGenerationRateLimit } from "@/lib/rate-limit";
-import { uploadBase64Image } from "@/lib/services/supabase-storage.service";
+import { deleteStorageImage, uploadBase64Image } from "@/lib/services/supabase-storage.service";
+import {
+  GeneratedImageError,
+  GeneratedImagesService,
+  toGeneratedImageDTO,
+} from "@/lib/services/generated-images.service";
+import { GenerationQuotaError, GenerationQuotaService } from "@/lib/services/generation-quota.service";
 import { ZodError } from "zod";
-import type { GenerateImageResponseDTO } from "@/types";
+import type { GeneratedImageDTO, GenerateImageResponseDTO } from "@/types";
 
 export const prerender = false;
 
@@ -103,20 +129,11 @@ export const POST: APIRoute = async (context) => {
 
     // ========================================================================
     // STEP 3: Authorization - Role Check
-    // Verify user has "client" role (only clients can generate images)
+    // Verify user has "client" role (only clients can generate images);
+    // the role is resolved by the middleware, which also enforces the route policy
     // ========================================================================
 
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("role")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      return createErrorResponse("USER_NOT_FOUND", "Nie znaleziono użytkownika", 404);
-    }
-
-    if (userData.role !== "client") {
+    if (context.locals.userRole !== "client") {
       return createErrorResponse("FORBIDDEN", "Tylko klienci mogą generować obrazy", 403);
     }
 
@@ -130,75 +147,89 @@ export const POST: APIRoute = async (context) => {
 
     // ========================================================================
     // STEP 5: Check Generation Quota
-    // Count existing generated images and verify user hasn't exceeded limit
+    // Verify the user has generations left in the current month for every requested image
+    // (refinements are free), and room for more pending candidates
     // ========================================================================
 
-    const { count, error: countError } = await context.locals.supabase
-      .from("generated_images")
-      .select("*", { count: "exact", head: true })
-      .eq("user_id", user.id);
+    const quotaService = new GenerationQuotaService(context.locals.supabase);
+    const quota = await quotaService.assertCanGenerate(user.id, validatedData.candidates);
 
-    if (countError) {
-      return createErrorResponse("DATABASE_ERROR", "Nie udało się sprawdzić liczby wygenerowanych obrazów", 500);
+    if (validatedData.candidates > 1) {
+      const imagesService = new GeneratedImagesService(context.locals.supabase, quotaService);
+      await imagesService.assertCanCreateCandidates(user.id, validatedData.candidates);
     }
 
-    const apiKey = import.meta.env.PUBLIC_OPENROUTER_API_KEY;
-    if (!apiKey) {
+    let aiImageService: AIImageService;
+    try {
+      aiImageService = createAIImageService();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[API] Image provider is not configured:", error);
       return createErrorResponse("CONFIGURATION_ERROR", "Usługa generowania obrazów jest niedostępna", 503);
     }
 
-    const aiImageService = new AIImageService(apiKey);
-    const maxGenerations = aiImageService.getMaxFreeGenerations();
-    const remainingGenerations = maxGenerations - (count ?? 0);
-
-    if (remainingGenerations <= 0) {
-      return createErrorResponse(
-        "GENERATION_LIMIT_REACHED",
-        `Osiągnięto limit ${maxGenerations} darmowych generacji`,
-        429
-      );
-    }
-
     // ========================================================================
     // STEP 6: AI Image Generation
-    // Generate enhanced prompt and create image using OpenRouter service
+    // Generate enhanced prompt and create the requested number of candidates using the image provider
     // ========================================================================
 
-    const aiResult = await aiImageService.generateFurnitureImage(validatedData.prompt);
+    const aiResult = await aiImageService.generateFurnitureImage(validatedData.prompt, validatedData.candidates);
+    const generatedImages = aiResult.imageUrls ?? (aiResult.imageUrl ? [aiResult.imageUrl] : []);
 
-    if (!aiResult.success || !aiResult.imageUrl) {
+    if (!aiResult.success || generatedImages.length === 0) {
       return createErrorResponse("AI_GENERATION_FAILED", aiResult.error || "Nie udało się wygenerować obrazu", 503);
     }
 
     // ========================================================================
-    // STEP 7: Upload Base64 Image to Supabase Storage
-    // Convert base64 image from OpenRouter and upload to chairai_bucket
+    // STEP 7: Upload Base64 Images to Supabase Storage
+    // Convert base64 images from the image provider and upload to chairai_bucket
     // ========================================================================
 
-    const uploadResult = await uploadBase64Image(context.locals.supabase, aiResult.imageUrl, user.id, {
-      contentType: "image/png",
-    });
+    const uploadedFiles: { publicUrl: string; fileName: string }[] = [];
+    for (const generatedImage of generatedImages) {
+      const uploadResult = await uploadBase64Image(context.locals.supabase, generatedImage, user.id, {
+        contentType: "image/png",
+      });
+
+      if (!uploadResult.success || !uploadResult.publicUrl || !uploadResult.fileName) {
+        // Cleanup: Remove candidates uploaded so far
+        for (const file of uploadedFiles) {
+          await deleteStorageImage(context.locals.supabase, file.fileName);
+        }
+        return createErrorResponse("STORAGE_UPLOAD_FAILED", "Nie udało się zapisać obrazu do magazynu", 500);
+      }
 
-    if (!uploadResult.success || !uploadResult.publicUrl) {
-      return createErrorResponse("STORAGE_UPLOAD_FAILED", "Nie udało się zapisać obrazu do magazynu", 500);
+      uploadedFiles.push({ publicUrl: uploadResult.publicUrl, fileName: uploadResult.fileName });
     }
 
     // ========================================================================
     // STEP 8: Persist to Database
-    // Save generated image metadata to the generated_images table with storage URL
+    // Save generated image metadata to the generated_images table with storage URL.
+    // A single image is charged to the quota right away; several candidates are stored as
+    // pending (is_candidate) and charged when the client keeps them.
     // ========================================================================
 
-    const databaseEntry = {
+    const isCandidate = validatedData.candidates > 1;
+    const databaseEntries = uploadedFiles.map((file) => ({
       user_id: user.id,
       prompt: validatedData.prompt,
-      image_url: uploadResult.publicUrl,
-    };
-
-    const { data: imageData, error: insertError } = await context.locals.supabase
+      image_url: file.publicUrl,
+      is_candidate: isCandidate,
+      positive_prompt: aiResult.positivePrompt ?? null,
+      negative_prompt: aiResult.negativePrompt ?? null,
+      technical_notes: aiResult.technicalNotes ?? null,
+      materials: aiResult.materials ?? [],
+      style: aiResult.style ?? null,
+      model: aiResult.modelUsed ?? null,
+      generation_time_ms: aiResult.generationTime ?? null,
+    }));
+
+    const { data: insertedImages, error: insertError } = await context.locals.supabase
       .from("generated_images")
-      .insert(databaseEntry)
-      .select()
-      .single();
+      .insert(databaseEntries)
+      .select();
+
+    const imageData = insertedImages?.[0];
 
     if (insertError || !imageData) {
       // eslint-disable-next-line no-console
@@ -206,6 +237,18 @@ export const POST: APIRoute = async (context) => {
       return createErrorResponse("DATABASE_ERROR", "Nie udało się zapisać wygenerowanego obrazu", 500);
     }
 
+    let remainingGenerations = quota.remaining;
+    if (!isCandidate) {
+      try {
+        remainingGenerations = await quotaService.consumeGenerations(quota, [imageData.id]);
+      } catch (error) {
+        // Cleanup: Remove the image when the quota was used up by a concurrent generation
+        await context.locals.supabase.from("generated_images").delete().eq("id", imageData.id);
+        await deleteStorageImage(context.locals.supabase, uploadedFiles[0].fileName);
+        throw error;
+      }
+    }
+
     // ========================================================================
     // STEP 9: Check Image Usage
     // Determine if this image is already used in any project
@@ -218,17 +261,17 @@ export const POST: APIRoute = async (context) => {
 
     // ========================================================================
     // STEP 10: Build Response
-    // Return GenerateImageResponseDTO with image data and remaining quota
+    // Return GenerateImageResponseDTO with image data and remaining quota.
+    // Candidates are charged only when kept (POST /api/images/candidates).
     // ========================================================================
 
+    const toImageDTO = (image: typeof imageData): GeneratedImageDTO =>
+      toGeneratedImageDTO(image, image.id === imageData.id && (projectCount ?? 0) > 0);
+
     const response: GenerateImageResponseDTO = {
-      id: imageData.id,
-      user_id: imageData.user_id,
-      prompt: imageData.prompt,
-      image_url: imageData.image_url,
-      created_at: imageData.created_at,
-      is_used: (projectCount ?? 0) > 0,
-      remaining_generations: remainingGenerations - 1,
+      ...toImageDTO(imageData),
+      remaining_generations: remainingGenerations,
+      ...(isCandidate && { candidates: insertedImages.map(toImageDTO) }),
     };
 
     return createSuccessResponse(response, 201);
@@ -238,6 +281,11 @@ export const POST: APIRoute = async (context) => {
     // Process different error types and return appropriate HTTP responses
     // ========================================================================
 
+    // Quota exceeded, quota ledger or pending candidates errors
+    if (error instanceof GenerationQuotaError || error instanceof GeneratedImageError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
     // Validation errors from Zod schema
     if (error instanceof ZodError) {
       const fieldErrors: Record<string, string> = {};
@@ -5,11 +5,12 @@
  * Returns details of a specific generated image.
  *
  * DELETE /api/images/generated/{imageId}
- * Deletes a generated image (only if not used in a project).
+ * Deletes a generated image (only if not used in a project and not refined into other versions).
  */
 
 import type { APIRoute } from "astro";
 import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+import { toGeneratedImageDTO } from "@/lib/services/generated-images.service";
 import type { GeneratedImageDTO } from "@/types";
 
 export const prerender = false;
@@ -67,14 +68,7 @@ export const GET: APIRoute = async (context) => {
       .eq("generated_image_id", image.id);
 
     // Prepare response
-    const response: GeneratedImageDTO = {
-      id: image.id,
-      user_id: image.user_id,
-      prompt: image.prompt,
-      image_url: image.image_url,
-      created_at: image.created_at,
-      is_used: (count ?? 0) > 0,
-    };
+    const response: GeneratedImageDTO = toGeneratedImageDTO(image, (count ?? 0) > 0);
 
     return createSuccessResponse(response);
   } catch {
@@ -140,6 +134,17 @@ export const DELETE: APIRoute = async (context) => {
       return createErrorResponse("IMAGE_IN_USE", "Nie można usunąć obrazu użytego w projekcie", 400);
     }
 
+    // Check if other versions were refined from this image
+    const { data: refinements } = await context.locals.supabase
+      .from("generated_images")
+      .select("id")
+      .eq("parent_image_id", image.id)
+      .limit(1);
+
+    if (refinements && refinements.length > 0) {
+      return createErrorResponse("IMAGE_HAS_VERSIONS", "Nie można usunąć obrazu, z którego powstały inne wersje", 400);
+    }
+
     // Delete image from database
     const { error: deleteError } = await context.locals.supabase
       .from("generated_images")
@@ -0,0 +1,51 @@
+/**
+ * Generated Image Versions API Endpoint
+ *
+ * GET /api/images/generated/{imageId}/versions
+ * Returns all versions of the design the image belongs to: the original image and every
+ * image refined from it, oldest first. The client builds the version tree from parent_image_id.
+ * version_count also counts deleted refinements, which still count against max_versions.
+ */
+
+import type { APIRoute } from "astro";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+import { GeneratedImagesService, GeneratedImageError } from "@/lib/services/generated-images.service";
+
+export const prerender = false;
+
+export const GET: APIRoute = async (context) => {
+  try {
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await context.locals.supabase.auth.getUser();
+
+    if (authError || !user) {
+      return createErrorResponse("UNAUTHORIZED", "Musisz być zalogowany", 401);
+    }
+
+    // Only clients can access generated images (role resolved by the middleware)
+    if (context.locals.userRole !== "client") {
+      return createErrorResponse("FORBIDDEN", "Tylko klienci mogą przeglądać wygenerowane obrazy", 403);
+    }
+
+    const { imageId } = context.params;
+
+    if (!imageId) {
+      return createErrorResponse("INVALID_REQUEST", "Brak identyfikatora obrazu", 400);
+    }
+
+    const service = new GeneratedImagesService(context.locals.supabase);
+    const versions = await service.getImageVersions(user.id, imageId);
+
+    return createSuccessResponse(versions);
+  } catch (error) {
+    if (error instanceof GeneratedImageError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // Handle unexpected errors
+    return createErrorResponse("INTERNAL_ERROR", "Wystąpił błąd serwera. Spróbuj ponownie później.", 500);
+  }
+};
@@ -15,7 +15,8 @@
  * Response: GeneratedImagesListResponseDTO
  *   - data: Array of GeneratedImageDTO objects
  *   - pagination: Pagination metadata
- *   - remaining_generations: Number of generations remaining for user
+ *   - remaining_generations: Number of generations remaining for user in the current month
+ *   - quota: Monthly generation quota (plan, limit, used, remaining, resets_at)
  *
  * Status Codes:
  *   - 200: Success
@@ -0,0 +1,250 @@
+/**
+ * Image Refinement API Endpoint - POST /api/images/refine
+ *
+ * Enables authenticated clients to refine one of their generated images with a described change
+ * ("te same, ale z orzechowymi nogami", "o 20 cm wyższy"). The new image is generated from the
+ * parent image and linked to it, so the design keeps its version history.
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the client who owns the parent image
+ * RATE LIMITING: Same per-minute limit as generation. Refinements do not count towards the
+ * generation quota; instead a design can have at most 10 versions. Deleting a version does not
+ * make room for a new one.
+ *
+ * WORKFLOW:
+ * 1. Verify authentication
+ * 2. Check rate limiting
+ * 3. Verify user role is "client"
+ * 4. Validate request body (parent_image_id, prompt: 3-300 characters)
+ * 5. Load the parent image and the history of its design, check the version limit
+ * 6. Generate the refined image from the parent image
+ * 7. Upload image to Supabase Storage
+ * 8. Save it with parent_image_id, root_image_id and the generation metadata
+ * 9. Return 201 Created with image data and remaining quota
+ *
+ * REQUEST BODY:
+ * {
+ *   "parent_image_id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "prompt": "Te same, ale z orzechowymi nogami"
+ * }
+ *
+ * SUCCESS RESPONSE (201 Created):
+ * {
+ *   "id": "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+ *   "user_id": "user-123",
+ *   "prompt": "Te same, ale z orzechowymi nogami",
+ *   "image_url": "https://...",
+ *   "created_at": "2025-10-18T12:35:10Z",
+ *   "is_used": false,
+ *   "parent_image_id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "root_image_id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "positive_prompt": "Keep the furniture from the reference image and apply only this change: ...",
+ *   "negative_prompt": "blurry, low quality, distorted",
+ *   "technical_notes": "Construction focus: joinery, materials quality",
+ *   "materials": ["walnut"],
+ *   "style": "Modern",
+ *   "model": "google/gemini-2.5-flash-image-preview",
+ *   "generation_time_ms": 9120,
+ *   "remaining_generations": 9
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid JSON body
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User role is not "client"
+ * - 404 Not Found: User or parent image not found
+ * - 422 Unprocessable Entity: Validation error (parent image ID, prompt length)
+ * - 429 Too Many Requests: Rate limit exceeded or design version limit reached
+ * - 500 Internal Server Error: Database or unexpected errors
+ * - 503 Service Unavailable: AI service unavailable or image provider (IMAGE_PROVIDER) not configured
+ */
+
+import type { APIRoute } from "astro";
+import { RefineImageSchema } from "@/lib/schemas";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+import { createAIImageService, type AIImageService } from "@/lib/services/ai-image.service";
+import {
+  GeneratedImagesService,
+  GeneratedImageError,
+  MAX_VERSIONS_PER_DESIGN,
+  toGeneratedImageDTO,
+} from "@/lib/services/generated-images.service";
+import { GenerationQuotaService } from "@/lib/services/generation-quota.service";
+import { checkImageGenerationRateLimit } from "@/lib/rate-limit";
+import { uploadBase64Image } from "@/lib/services/supabase-storage.service";
+import { ZodError } from "zod";
+import type { GenerateImageResponseDTO } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST handler for image refinement endpoint.
+ *
+ * authentication → validation → lineage and version limit → generation → persistence
+ *
+ * @param context - Astro APIContext containing request, locals (Supabase client), and cookies
+ * @returns Response with 201 status and image data, or error response with appropriate status code
+ */
+export const POST: APIRoute = async (context) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+
+    const {
+      data: { user },
+      error: authError,
+    } = await context.locals.supabase.auth.getUser();
+
+    if (authError || !user) {
+      return createErrorResponse("UNAUTHORIZED", "Musisz być zalogowany, aby dopracowywać obrazy", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Rate Limiting
+    // ========================================================================
+
+    const xForwardedFor = context.request.headers.get("x-forwarded-for");
+    const clientIp = xForwardedFor ?? context.request.headers.get("client-ip") ?? "unknown";
+
+    const rateLimitResult = checkImageGenerationRateLimit(user.id, clientIp);
+    if (!rateLimitResult.allowed) {
+      return createErrorResponse(
+        "RATE_LIMIT_EXCEEDED",
+        `Zbyt wiele żądań. Spróbuj ponownie za ${Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)} sekund`,
+        429
+      );
+    }
+
+    // ========================================================================
+    // STEP 3: Authorization - Role Check
+    // Verify user has "client" role (only clients can refine images);
+    // the role is resolved by the middleware, which also enforces the route policy
+    // ========================================================================
+
+    if (context.locals.userRole !== "client") {
+      return createErrorResponse("FORBIDDEN", "Tylko klienci mogą dopracowywać obrazy", 403);
+    }
+
+    // ========================================================================
+    // STEP 4: Input Validation
+    // ========================================================================
+
+    const body = await context.request.json();
+    const validatedData = RefineImageSchema.parse(body);
+
+    // ========================================================================
+    // STEP 5: Load Parent Image and Design History
+    // Verifies ownership and the version limit of the design
+    // ========================================================================
+
+    const generatedImagesService = new GeneratedImagesService(context.locals.supabase);
+    const refinementBase = await generatedImagesService.getRefinementBase(user.id, validatedData.parent_image_id);
+
+    let aiImageService: AIImageService;
+    try {
+      aiImageService = createAIImageService();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[API] Image provider is not configured:", error);
+      return createErrorResponse("CONFIGURATION_ERROR", "Usługa generowania obrazów jest niedostępna", 503);
+    }
+
+    // ========================================================================
+    // STEP 6: AI Image Refinement
+    // ========================================================================
+
+    const aiResult = await aiImageService.refineFurnitureImage(
+      refinementBase.designHistory,
+      validatedData.prompt,
+      refinementBase.parent.image_url
+    );
+
+    if (!aiResult.success || !aiResult.imageUrl) {
+      return createErrorResponse("AI_GENERATION_FAILED", aiResult.error || "Nie udało się dopracować obrazu", 503);
+    }
+
+    // ========================================================================
+    // STEP 7: Upload Base64 Image to Supabase Storage
+    // ========================================================================
+
+    const uploadResult = await uploadBase64Image(context.locals.supabase, aiResult.imageUrl, user.id, {
+      contentType: "image/png",
+    });
+
+    if (!uploadResult.success || !uploadResult.publicUrl) {
+      return createErrorResponse("STORAGE_UPLOAD_FAILED", "Nie udało się zapisać obrazu do magazynu", 500);
+    }
+
+    // ========================================================================
+    // STEP 8: Persist to Database with Lineage
+    // ========================================================================
+
+    const { data: imageData, error: insertError } = await context.locals.supabase
+      .from("generated_images")
+      .insert({
+        user_id: user.id,
+        prompt: validatedData.prompt,
+        image_url: uploadResult.publicUrl,
+        parent_image_id: refinementBase.parent.id,
+        root_image_id: refinementBase.rootImageId,
+        positive_prompt: aiResult.positivePrompt ?? null,
+        negative_prompt: aiResult.negativePrompt ?? null,
+        technical_notes: aiResult.technicalNotes ?? null,
+        materials: aiResult.materials ?? [],
+        style: aiResult.style ?? null,
+        model: aiResult.modelUsed ?? null,
+        generation_time_ms: aiResult.generationTime ?? null,
+      })
+      .select()
+      .single();
+
+    if (insertError || !imageData) {
+      // count_image_refinement() raises P0001 when the design ran out of versions in the meantime
+      if (insertError?.code === "P0001") {
+        return createErrorResponse(
+          "VERSION_LIMIT_REACHED",
+          `Osiągnięto limit ${MAX_VERSIONS_PER_DESIGN} wersji tego projektu`,
+          429
+        );
+      }
+      // eslint-disable-next-line no-console
+      console.error("Insert Error:", insertError);
+      return createErrorResponse("DATABASE_ERROR", "Nie udało się zapisać dopracowanego obrazu", 500);
+    }
+
+    // ========================================================================
+    // STEP 9: Build Response
+    // Refinements are free, so the remaining quota only reflects images generated from scratch
+    // ========================================================================
+
+    const quota = await new GenerationQuotaService(context.locals.supabase).getQuota(user.id);
+
+    const response: GenerateImageResponseDTO = {
+      ...toGeneratedImageDTO(imageData, false),
+      remaining_generations: quota.remaining,
+    };
+
+    return createSuccessResponse(response, 201);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const fieldErrors: Record<string, string> = {};
+
+      error.errors.forEach((err) => {
+        if (err.path.length > 0) {
+          fieldErrors[err.path[0].toString()] = err.message;
+        }
+      });
+
+      return createErrorResponse("VALIDATION_ERROR", "Błąd walidacji danych", 422, fieldErrors);
+    }
+
+    if (error instanceof GeneratedImageError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("Unexpected error in image refinement endpoint:", error);
+    return createErrorResponse("INTERNAL_ERROR", "Wystąpił błąd serwera. Spróbuj ponownie później.", 500);
+  }
+};
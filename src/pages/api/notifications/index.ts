@@ -0,0 +1,145 @@
+/**
+ * Notifications API Endpoint
+ *
+ * GET /api/notifications - List notifications of the authenticated user
+ * PATCH /api/notifications - Mark notifications as read
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Users can only access their own notifications
+ *
+ * QUERY PARAMETERS (GET):
+ * - page: number (optional, default: 1)
+ * - limit: number (optional, default: 20, max: 100)
+ * - unread_only: boolean (optional, default: false)
+ *
+ * REQUEST BODY (PATCH, application/json):
+ * { "notification_ids": ["uuid", "uuid"] }  - mark selected notifications as read
+ * { "all": true }                           - mark all notifications as read
+ *
+ * SUCCESS RESPONSE (GET 200 OK):
+ * {
+ *   "data": [
+ *     {
+ *       "id": "uuid",
+ *       "type": "proposal_received",
+ *       "title": "Nowa oferta",
+ *       "message": "Test Company złożył ofertę do Twojego projektu (2500 PLN).",
+ *       "project_id": "uuid",
+ *       "read_at": null,
+ *       "created_at": "2025-10-27T10:00:00Z"
+ *     }
+ *   ],
+ *   "pagination": { "page": 1, "limit": 20, "total": 1, "total_pages": 1 },
+ *   "unread_count": 1
+ * }
+ *
+ * SUCCESS RESPONSE (PATCH 200 OK):
+ * { "updated_count": 1, "unread_count": 0 }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid request body
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 422 Unprocessable Entity: Invalid query parameters
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { MarkNotificationsReadSchema, NotificationsQuerySchema } from "../../../lib/schemas";
+import { NotificationService, NotificationError } from "../../../lib/services/notification.service";
+import { createErrorResponse, createSuccessResponse } from "../../../lib/api-utils";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Query Parameter Validation
+    // ========================================================================
+    const url = new URL(request.url);
+    const queryValidation = NotificationsQuerySchema.safeParse({
+      page: url.searchParams.get("page"),
+      limit: url.searchParams.get("limit"),
+      unread_only: url.searchParams.get("unread_only"),
+    });
+
+    if (!queryValidation.success) {
+      const fieldErrors: Record<string, string> = {};
+      queryValidation.error.errors.forEach((err) => {
+        if (err.path.length > 0) {
+          fieldErrors[err.path[0].toString()] = err.message;
+        }
+      });
+
+      return createErrorResponse("VALIDATION_ERROR", "Parametry zapytania są nieprawidłowe", 422, fieldErrors);
+    }
+
+    // ========================================================================
+    // STEP 3: Fetch Notifications
+    // ========================================================================
+    const notificationService = new NotificationService(locals.supabase);
+    const result = await notificationService.listNotifications(user.id, queryValidation.data);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in GET /api/notifications:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
+
+export const PATCH: APIRoute = async ({ request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = MarkNotificationsReadSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Mark Notifications as Read
+    // ========================================================================
+    const notificationService = new NotificationService(locals.supabase);
+    const result = await notificationService.markAsRead(user.id, validationResult.data);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in PATCH /api/notifications:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
@@ -11,6 +11,7 @@
  *
  * REQUEST BODY (application/json):
  * - proposal_id: string (UUID) - ID of the proposal to accept
+ * - revision_number: number (optional) - Revision of the proposal the client has reviewed
  *
  * SUCCESS RESPONSE (200 OK):
  * {
@@ -26,6 +27,7 @@
  * - 401 Unauthorized: Missing or invalid authentication token
  * - 403 Forbidden: User is not the project owner
  * - 404 Not Found: Project or proposal not found
+ * - 409 Conflict: Proposal was revised after the given revision_number, is no longer pending OR has expired
  * - 500 Internal Server Error: Unexpected errors
  */
 
@@ -82,7 +84,7 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
     }
 
-    const { proposal_id } = validationResult.data;
+    const { proposal_id, revision_number } = validationResult.data;
 
     // ========================================================================
     // STEP 5: Accept Proposal
@@ -90,7 +92,7 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
     // ========================================================================
     const projectService = new ProjectService(locals.supabase);
 
-    const updatedProject = await projectService.acceptProposal(projectId, proposal_id, user.id);
+    const updatedProject = await projectService.acceptProposal(projectId, proposal_id, user.id, revision_number);
 
     // Return 200 OK with updated project data
     return createSuccessResponse(updatedProject, 200);
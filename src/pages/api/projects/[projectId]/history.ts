@@ -0,0 +1,93 @@
+/**
+ * Project History API Endpoint
+ *
+ * GET /api/projects/{projectId}/history - Get the audit trail of a project
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Project owner or the artisan whose proposal was accepted
+ *
+ * PATH PARAMETERS:
+ * - projectId: string (UUID) - ID of the project
+ *
+ * SUCCESS RESPONSE (200 OK):
+ * {
+ *   "project_id": "uuid",
+ *   "events": [
+ *     {
+ *       "id": "uuid",
+ *       "event_type": "created",
+ *       "actor_id": "uuid",
+ *       "actor_role": "client",
+ *       "from_status": null,
+ *       "to_status": "open",
+ *       "proposal_id": null,
+ *       "review_id": null,
+ *       "created_at": "2025-10-20T10:00:00Z"
+ *     },
+ *     {
+ *       "id": "uuid",
+ *       "event_type": "status_changed",
+ *       "actor_id": "uuid",
+ *       "actor_role": "client",
+ *       "from_status": "in_progress",
+ *       "to_status": "completed",
+ *       "proposal_id": null,
+ *       "review_id": null,
+ *       "created_at": "2025-11-02T16:30:00Z"
+ *     }
+ *   ]
+ * }
+ * - event_type: created | proposal_received | proposal_accepted | status_changed | review_posted
+ * - events are ordered chronologically (oldest first)
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid project ID format
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not allowed to view the history of this project
+ * - 404 Not Found: Project not found
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ProjectIdSchema } from "../../../../lib/schemas";
+import { ProjectService, ProjectError } from "../../../../lib/services/project.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const projectIdValidation = ProjectIdSchema.safeParse(params.projectId);
+
+    if (!projectIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID projektu", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Fetch History
+    // ========================================================================
+    const projectService = new ProjectService(locals.supabase);
+    const history = await projectService.getProjectHistory(projectIdValidation.data, user.id);
+
+    return createSuccessResponse(history);
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in GET /api/projects/{projectId}/history:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
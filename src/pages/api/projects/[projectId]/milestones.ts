@@ -0,0 +1,151 @@
+/**
+ * Project Milestones API Endpoint
+ *
+ * GET /api/projects/{projectId}/milestones - Get the milestone plan of a project
+ * PUT /api/projects/{projectId}/milestones - Set or replace the milestone plan of a project
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION:
+ * - GET: Project owner or the artisan whose proposal was accepted
+ * - PUT: Only the artisan whose proposal was accepted
+ *
+ * PATH PARAMETERS:
+ * - projectId: string (UUID) - ID of the project
+ *
+ * REQUEST BODY (PUT, application/json):
+ * {
+ *   "milestones": [
+ *     { "title": "Akceptacja projektu", "amount": 500, "due_date": "2025-11-01" },
+ *     { "title": "Wykonanie stelaża", "amount": 1000 },
+ *     { "title": "Wykończenie i dostawa", "amount": 1000, "due_date": "2025-12-15" }
+ *   ]
+ * }
+ * - amounts must add up to the accepted price of the project
+ * - the plan can only be replaced while no milestone has been submitted
+ *
+ * SUCCESS RESPONSE (GET and PUT 200 OK):
+ * {
+ *   "project_id": "uuid",
+ *   "accepted_price": 2500,
+ *   "approved_amount": 500,
+ *   "milestones": [
+ *     {
+ *       "id": "uuid",
+ *       "position": 1,
+ *       "title": "Akceptacja projektu",
+ *       "amount": 500,
+ *       "due_date": "2025-11-01",
+ *       "status": "approved",
+ *       "submitted_at": "2025-10-30T10:00:00Z",
+ *       "approved_at": "2025-10-31T08:00:00Z"
+ *     }
+ *   ]
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid input, amounts don't add up to the accepted price, project not in progress
+ *   or project has no accepted proposal
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not allowed to view or plan milestones
+ * - 404 Not Found: Project not found
+ * - 409 Conflict: Plan is locked because a milestone was already submitted
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ProjectIdSchema, SetMilestonePlanSchema } from "../../../../lib/schemas";
+import { MilestoneService, MilestoneError } from "../../../../lib/services/milestone.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const projectIdValidation = ProjectIdSchema.safeParse(params.projectId);
+
+    if (!projectIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID projektu", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Fetch Milestones
+    // ========================================================================
+    const milestoneService = new MilestoneService(locals.supabase);
+    const result = await milestoneService.getMilestones(projectIdValidation.data, user.id);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    if (error instanceof MilestoneError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in GET /api/projects/{projectId}/milestones:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
+
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const projectIdValidation = ProjectIdSchema.safeParse(params.projectId);
+
+    if (!projectIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID projektu", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = SetMilestonePlanSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
+    }
+
+    // ========================================================================
+    // STEP 4: Save Milestone Plan
+    // ========================================================================
+    const milestoneService = new MilestoneService(locals.supabase);
+    const result = await milestoneService.setPlan(projectIdValidation.data, user.id, validationResult.data);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    if (error instanceof MilestoneError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in PUT /api/projects/{projectId}/milestones:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
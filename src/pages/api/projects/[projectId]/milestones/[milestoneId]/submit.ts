@@ -0,0 +1,86 @@
+/**
+ * Submit Milestone API Endpoint
+ *
+ * POST /api/projects/{projectId}/milestones/{milestoneId}/submit - Submit a milestone for the client's approval
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the artisan whose proposal was accepted
+ *
+ * PATH PARAMETERS:
+ * - projectId: string (UUID) - ID of the project
+ * - milestoneId: string (UUID) - ID of the milestone
+ *
+ * SUCCESS RESPONSE (200 OK):
+ * {
+ *   "id": "uuid",
+ *   "position": 1,
+ *   "title": "Akceptacja projektu",
+ *   "amount": 500,
+ *   "due_date": "2025-11-01",
+ *   "status": "submitted",
+ *   "submitted_at": "2025-10-30T10:00:00Z",
+ *   "approved_at": null
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid ID format OR project not in progress
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not the accepted artisan
+ * - 404 Not Found: Project or milestone not found
+ * - 409 Conflict: Milestone is not pending
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ProjectIdSchema, MilestoneIdSchema } from "../../../../../../lib/schemas";
+import { MilestoneService, MilestoneError } from "../../../../../../lib/services/milestone.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const projectIdValidation = ProjectIdSchema.safeParse(params.projectId);
+
+    if (!projectIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID projektu", 400);
+    }
+
+    const milestoneIdValidation = MilestoneIdSchema.safeParse(params.milestoneId);
+
+    if (!milestoneIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID etapu", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Move Milestone From 'pending' To 'submitted'
+    // ========================================================================
+    const milestoneService = new MilestoneService(locals.supabase);
+    const milestone = await milestoneService.submitMilestone(
+      projectIdValidation.data,
+      milestoneIdValidation.data,
+      user.id
+    );
+
+    return createSuccessResponse(milestone);
+  } catch (error) {
+    if (error instanceof MilestoneError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/projects/{projectId}/milestones/{milestoneId}/submit:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
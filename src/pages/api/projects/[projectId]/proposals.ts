@@ -11,7 +11,12 @@
  *
  * REQUEST BODY (multipart/form-data):
  * - price: number - Proposed price for the project (positive, max 1,000,000 PLN)
- * - attachment: File - Proposal attachment (PDF, JPG, PNG; max 5MB)
+ * - lead_time_days: number - Estimated completion time in days (integer, 1-365)
+ * - scope_description: string (optional) - Scope of work covered by the offer (max 2000 characters)
+ * - inclusions: string (optional, repeatable) - Included services: delivery, assembly, finishing
+ * - valid_until: string (optional) - Last day the offer can be accepted (YYYY-MM-DD, not in the past)
+ * - attachments: File (repeatable) - Proposal attachments (PDF, JPG, PNG; max 5MB each, 1-5 files)
+ * - captions: string (repeatable) - Caption of each attachment, in the same order as the files (max 200 characters)
  *
  * SUCCESS RESPONSE (201 Created):
  * {
@@ -21,15 +26,35 @@
  *     "user_id": "uuid",
  *     "company_name": "Firma Stolarstwo",
  *     "average_rating": 4.5,
- *     "total_reviews": 12
+ *     "total_reviews": 12,
+ *     "specializations": [{ "id": "uuid", "name": "Stoły" }],
+ *     "portfolio_images": []
  *   },
  *   "price": 2500,
- *   "attachment_url": "https://...",
+ *   "message": null,
+ *   "lead_time_days": 21,
+ *   "scope_description": "Stół z litego dębu, olejowany",
+ *   "inclusions": ["delivery", "assembly"],
+ *   "valid_until": "2025-11-30",
+ *   "attachment_url": "/api/proposals/{id}/attachments/{fileId}",
+ *   "attachments": [
+ *     {
+ *       "id": "uuid",
+ *       "file_url": "/api/proposals/{id}/attachments/{fileId}",
+ *       "file_name": "wycena.pdf",
+ *       "mime_type": "application/pdf",
+ *       "size_bytes": 102400,
+ *       "caption": "Wycena"
+ *     }
+ *   ],
+ *   "current_revision": 1,
+ *   "status": "pending",
+ *   "rejection_reason": null,
  *   "created_at": "2025-10-21T12:30:45Z"
  * }
  *
  * ERROR RESPONSES:
- * - 400 Bad Request: Invalid input data (price, attachment validation errors)
+ * - 400 Bad Request: Invalid input data (price, offer terms, attachment or caption validation errors)
  * - 401 Unauthorized: Missing or invalid authentication token
  * - 403 Forbidden: User is not an artisan OR project is not open
  * - 404 Not Found: Project not found
@@ -70,7 +95,7 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
 
     // ========================================================================
     // STEP 3: Parse multipart/form-data
-    // Extract price and attachment from form data
+    // Extract price, offer terms and captioned attachments from form data
     // ========================================================================
     let formData: FormData;
     try {
@@ -80,18 +105,28 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
     }
 
     const priceString = formData.get("price");
-    const attachment = formData.get("attachment");
-
-    // Convert price string to number
+    const leadTimeString = formData.get("lead_time_days");
+    const scopeDescription = formData.get("scope_description")?.toString() || undefined;
+    const inclusions = formData.getAll("inclusions").map((inclusion) => inclusion.toString());
+    const validUntil = formData.get("valid_until")?.toString() || undefined;
+    const captions = formData.getAll("captions").map((caption) => caption.toString());
+    const attachments = formData.getAll("attachments").map((file, index) => ({ file, caption: captions[index] ?? "" }));
+
+    // Convert numeric strings to numbers
     const price = priceString ? parseFloat(priceString.toString()) : null;
+    const leadTimeDays = leadTimeString ? Number(leadTimeString.toString()) : undefined;
 
     // ========================================================================
     // STEP 4: Input Validation
-    // Validate price and attachment using Zod schema
+    // Validate price, offer terms and attachments using Zod schema
     // ========================================================================
     const validationResult = CreateProposalSchema.safeParse({
       price,
-      attachment,
+      lead_time_days: leadTimeDays,
+      scope_description: scopeDescription,
+      inclusions,
+      valid_until: validUntil,
+      attachments,
     });
 
     if (!validationResult.success) {
@@ -108,7 +143,11 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
     const proposal = await proposalService.createProposal({
       projectId,
       price: validationResult.data.price,
-      attachment: validationResult.data.attachment,
+      leadTimeDays: validationResult.data.lead_time_days,
+      scopeDescription: validationResult.data.scope_description,
+      inclusions: validationResult.data.inclusions,
+      validUntil: validationResult.data.valid_until,
+      attachments: validationResult.data.attachments,
       userId: user.id,
     });
 
@@ -139,160 +178,88 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
  * GET /api/projects/{projectId}/proposals - Get all proposals for a project
  *
  * AUTHENTICATION: Required (Supabase Auth token)
- * AUTHORIZATION: Only project owner can view proposals
+ * AUTHORIZATION: Project owner sees all proposals, an artisan sees only their own proposal
  *
  * PATH PARAMETERS:
  * - projectId: string (UUID) - ID of the project
  *
  * SUCCESS RESPONSE (200 OK):
- * [
- *   {
- *     "id": "uuid",
- *     "project_id": "uuid",
- *     "artisan_id": "uuid",
- *     "price": 2500,
- *     "message": "Optional message",
- *     "attachment_url": "https://...",
- *     "created_at": "2025-10-21T12:30:45Z",
- *     "artisan_profile": {
- *       "company_name": "Firma Stolarstwo",
- *       "city": "Warszawa",
- *       "user": {
- *         "full_name": "Jan Kowalski"
- *       }
+ * {
+ *   "data": [
+ *     {
+ *       "id": "uuid",
+ *       "project_id": "uuid",
+ *       "artisan": {
+ *         "user_id": "uuid",
+ *         "company_name": "Firma Stolarstwo",
+ *         "average_rating": 4.5,
+ *         "total_reviews": 12,
+ *         "specializations": [{ "id": "uuid", "name": "Stoły" }],
+ *         "portfolio_images": [{ "id": "uuid", "image_url": "https://...", "created_at": "..." }]
+ *       },
+ *       "price": 2500,
+ *       "message": "Optional message",
+ *       "lead_time_days": 21,
+ *       "scope_description": "Stół z litego dębu, olejowany",
+ *       "inclusions": ["delivery", "assembly"],
+ *       "valid_until": "2025-11-30",
+ *       "attachment_url": "/api/proposals/{id}/attachments/{fileId}",
+ *       "attachments": [
+ *         {
+ *           "id": "uuid",
+ *           "file_url": "/api/proposals/{id}/attachments/{fileId}",
+ *           "file_name": "rysunek.png",
+ *           "mime_type": "image/png",
+ *           "size_bytes": 204800,
+ *           "caption": "Rysunek techniczny"
+ *         }
+ *       ],
+ *       "current_revision": 1,
+ *       "status": "pending",
+ *       "rejection_reason": null,
+ *       "created_at": "2025-10-21T12:30:45Z"
  *     }
- *   }
- * ]
+ *   ]
+ * }
  *
  * ERROR RESPONSES:
  * - 401 Unauthorized: Missing or invalid authentication token
- * - 403 Forbidden: User is not the project owner
+ * - 403 Forbidden: User is neither the project owner nor an artisan who submitted a proposal
  * - 404 Not Found: Project not found
  * - 500 Internal Server Error: Unexpected errors
  */
 export const GET: APIRoute = async ({ params, locals }) => {
   try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
     const user = locals.user;
     if (!user || !user.id) {
       return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
     }
 
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
     const projectIdValidation = ProjectIdSchema.safeParse(params.projectId);
     if (!projectIdValidation.success) {
       return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID projektu", 400);
     }
 
-    const projectId = projectIdValidation.data;
-
-    // Check if user owns the project or is artisan with accepted proposal
-    const { data: project, error: projectError } = await locals.supabase
-      .from("projects")
-      .select("id, client_id, status, accepted_proposal_id")
-      .eq("id", projectId)
-      .single();
-
-    if (projectError || !project) {
-      return createErrorResponse("NOT_FOUND", "Projekt nie został znaleziony", 404);
-    }
-
-    const isOwner = project.client_id === user.id;
-
-    // Check if user is artisan with accepted proposal (for completed/in_progress projects)
-    let isArtisanWithAcceptedProposal = false;
-    if (!isOwner && user.role === "artisan" && project.accepted_proposal_id) {
-      const { data: artisanProposal } = await locals.supabase
-        .from("proposals")
-        .select("id")
-        .eq("id", project.accepted_proposal_id)
-        .eq("artisan_id", user.id)
-        .maybeSingle();
-
-      isArtisanWithAcceptedProposal = !!artisanProposal;
-    }
-
-    if (!isOwner && !isArtisanWithAcceptedProposal) {
-      return createErrorResponse("FORBIDDEN", "Nie masz dostępu do ofert tego projektu", 403);
-    }
-
-    // Fetch proposals with artisan details
-    const { data: proposals, error: proposalsError } = await locals.supabase
-      .from("proposals")
-      .select(
-        `
-        id,
-        project_id,
-        artisan_id,
-        price,
-        message,
-        attachment_url,
-        created_at
-      `
-      )
-      .eq("project_id", projectId)
-      .order("created_at", { ascending: false });
+    // ========================================================================
+    // STEP 3: List Proposals
+    // ProposalService checks access and fetches artisan details in bulk
+    // ========================================================================
+    const proposalService = new ProposalService(locals.supabase);
+    const proposals = await proposalService.listProjectProposals(projectIdValidation.data, user.id, user.role);
 
-    if (proposalsError) {
-      // eslint-disable-next-line no-console
-      console.error("[API] Error fetching proposals:", proposalsError);
-      return createErrorResponse("INTERNAL_SERVER_ERROR", "Nie udało się pobrać ofert", 500);
+    return createSuccessResponse({ data: proposals });
+  } catch (error) {
+    // Handle known business logic errors from ProposalService
+    if (error instanceof ProposalError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
     }
 
-    // Get unique artisan IDs
-    const artisanIds = [...new Set((proposals || []).map((p) => p.artisan_id))];
-
-    // Fetch artisan profiles for all artisans in one query
-    const { data: artisanProfiles } = await locals.supabase
-      .from("artisan_profiles")
-      .select("user_id, company_name")
-      .in("user_id", artisanIds);
-
-    // Create a map for quick lookup
-    const artisanProfilesMap = new Map(
-      (artisanProfiles || []).map((profile) => [profile.user_id, profile.company_name])
-    );
-
-    // Transform data to match expected structure and generate signed URLs for attachments
-    const transformedProposals = await Promise.all(
-      (proposals || []).map(async (proposal) => {
-        let signedAttachmentUrl = proposal.attachment_url;
-
-        // Generate signed URL for attachment if it exists
-        if (proposal.attachment_url) {
-          try {
-            const filePath = proposal.attachment_url.split("/proposal-attachments/")[1];
-            if (filePath) {
-              const { data: signedData } = await locals.supabase.storage
-                .from("proposal-attachments")
-                .createSignedUrl(filePath, 3600); // 1 hour expiry
-
-              if (signedData?.signedUrl) {
-                signedAttachmentUrl = signedData.signedUrl;
-              }
-            }
-          } catch (error) {
-            // eslint-disable-next-line no-console
-            console.error("[API] Error generating signed URL for attachment:", error);
-            // Keep original URL as fallback
-          }
-        }
-
-        return {
-          id: proposal.id,
-          project_id: proposal.project_id,
-          artisan_id: proposal.artisan_id,
-          price: proposal.price,
-          message: proposal.message,
-          attachment_url: signedAttachmentUrl,
-          created_at: proposal.created_at,
-          artisan_profiles: {
-            company_name: artisanProfilesMap.get(proposal.artisan_id) || "Nieznany rzemieślnik",
-          },
-        };
-      })
-    );
-
-    return createSuccessResponse({ data: transformedProposals });
-  } catch (error) {
     // eslint-disable-next-line no-console
     console.error("[API] Unexpected error in GET /api/projects/{projectId}/proposals:", error);
     return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
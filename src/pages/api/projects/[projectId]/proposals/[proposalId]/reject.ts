@@ -0,0 +1,108 @@
+/**
+ * Reject Proposal API Endpoint
+ *
+ * POST /api/projects/{projectId}/proposals/{proposalId}/reject - Reject a pending proposal
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the project owner (client) can reject proposals
+ *
+ * PATH PARAMETERS:
+ * - projectId: string (UUID) - ID of the project
+ * - proposalId: string (UUID) - ID of the proposal to reject
+ *
+ * REQUEST BODY (application/json, optional):
+ * - reason: string (optional) - Reason shown to the artisan (max 500 characters)
+ *
+ * SUCCESS RESPONSE (200 OK):
+ * {
+ *   "id": "uuid",
+ *   "status": "rejected",
+ *   "rejection_reason": "Cena przekracza mój budżet",
+ *   "status_changed_at": "2025-10-24T10:00:00Z"
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid input data OR proposal does not belong to the project
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not the project owner OR project is not open
+ * - 404 Not Found: Proposal not found
+ * - 409 Conflict: Proposal is no longer pending
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ProjectIdSchema, ProposalIdSchema, RejectProposalSchema } from "../../../../../../lib/schemas";
+import { ProposalService, ProposalError } from "../../../../../../lib/services/proposal.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const projectIdValidation = ProjectIdSchema.safeParse(params.projectId);
+
+    if (!projectIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID projektu", 400);
+    }
+
+    const proposalIdValidation = ProposalIdSchema.safeParse(params.proposalId);
+
+    if (!proposalIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID propozycji", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // An empty body means rejection without a reason
+    // ========================================================================
+    let requestBody: unknown = {};
+    const rawBody = await request.text();
+
+    if (rawBody.trim()) {
+      try {
+        requestBody = JSON.parse(rawBody);
+      } catch {
+        return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowe dane JSON", 400);
+      }
+    }
+
+    const validationResult = RejectProposalSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
+    }
+
+    // ========================================================================
+    // STEP 4: Reject Proposal
+    // ========================================================================
+    const proposalService = new ProposalService(locals.supabase);
+    const result = await proposalService.rejectProposal(
+      projectIdValidation.data,
+      proposalIdValidation.data,
+      user.id,
+      validationResult.data
+    );
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    if (error instanceof ProposalError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/projects/{projectId}/proposals/{proposalId}/reject:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
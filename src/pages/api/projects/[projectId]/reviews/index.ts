@@ -15,6 +15,7 @@
  *   {
  *     "id": "uuid",
  *     "reviewer_id": "uuid",
+ *     "reviewer": { "id": "uuid", "name": "Anna K.", "avatar_url": null },
  *     "rating": 5,
  *     "comment": "Excellent work!",
  *     "created_at": "2025-10-22T12:30:45Z"
@@ -36,7 +37,8 @@
  *   },
  *   "reviewer": {
  *     "id": "uuid",
- *     "email": "user@example.com"
+ *     "name": "Anna K.",
+ *     "avatar_url": null
  *   },
  *   "rating": 5,
  *   "comment": "Excellent work!",
@@ -55,6 +57,7 @@
 import type { APIRoute } from "astro";
 import { ProjectIdSchema, CreateReviewSchema } from "../../../../../lib/schemas";
 import { ReviewService, ReviewError } from "../../../../../lib/services/review.service";
+import { getDisplayName } from "../../../../../lib/services/user-profile.service";
 import { createErrorResponse, createSuccessResponse } from "../../../../../lib/api-utils";
 import { ZodError } from "zod";
 
@@ -77,10 +80,21 @@ export const GET: APIRoute = async ({ params, locals }) => {
 
     const projectId = projectIdValidation.data;
 
-    // STEP 3: Fetch reviews
+    // STEP 3: Fetch reviews with the reviewers' public profiles
     const { data: reviews, error } = await locals.supabase
       .from("reviews")
-      .select("id, reviewer_id, rating, comment, created_at")
+      .select(
+        `
+        id,
+        reviewer_id,
+        rating,
+        comment,
+        created_at,
+        reviewer:users!reviews_reviewer_id_fkey(
+          profile:user_profiles(display_name, avatar_url)
+        )
+      `
+      )
       .eq("project_id", projectId)
       .order("created_at", { ascending: false });
 
@@ -90,7 +104,17 @@ export const GET: APIRoute = async ({ params, locals }) => {
       return createErrorResponse("INTERNAL_SERVER_ERROR", "Błąd pobierania opinii", 500);
     }
 
-    return createSuccessResponse(reviews || [], 200);
+    // STEP 4: Resolve display names
+    const response = (reviews || []).map(({ reviewer, ...review }) => ({
+      ...review,
+      reviewer: {
+        id: review.reviewer_id,
+        name: getDisplayName(reviewer?.profile),
+        avatar_url: reviewer?.profile?.avatar_url ?? null,
+      },
+    }));
+
+    return createSuccessResponse(response, 200);
   } catch (error) {
     // eslint-disable-next-line no-console
     console.error("[API] Unexpected error in GET /api/projects/{projectId}/reviews:", error);
@@ -26,9 +26,10 @@
  * - closed -> (no transitions allowed)
  *
  * Note: Transition from "open" to "in_progress" is only allowed via acceptProposal endpoint
+ * Note: A project with milestones can only be completed once every milestone is approved
  *
  * ERROR RESPONSES:
- * - 400 Bad Request: Invalid input data OR invalid status transition
+ * - 400 Bad Request: Invalid input data OR invalid status transition OR milestones not approved
  * - 401 Unauthorized: Missing or invalid authentication token
  * - 403 Forbidden: User is not the project owner
  * - 404 Not Found: Project not found
@@ -11,8 +11,8 @@
  *   "generated_image_id": "uuid-string",
  *   "category_id": "uuid-string",
  *   "material_id": "uuid-string",
- *   "dimensions": "100x50x80 cm" (optional),
- *   "budget_range": "1000-2000 PLN" (optional)
+ *   "dimensions": { "width": 100, "depth": 50, "height": 80, "unit": "cm" } (optional, unit: mm | cm | m),
+ *   "budget": { "min": 1000, "max": 2000, "currency": "PLN" } (optional, either bound may be omitted)
  * }
  *
  * SUCCESS RESPONSE (201 Created):
@@ -33,8 +33,8 @@
  *     "name": "Dąb"
  *   },
  *   "status": "open",
- *   "dimensions": "100x50x80 cm",
- *   "budget_range": "1000-2000 PLN",
+ *   "dimensions": { "width": 100, "depth": 50, "height": 80, "unit": "cm" },
+ *   "budget": { "min": 1000, "max": 2000, "currency": "PLN" },
  *   "accepted_proposal_id": null,
  *   "accepted_price": null,
  *   "proposals_count": 0,
@@ -47,7 +47,7 @@
  * - 401 Unauthorized: Missing or invalid authentication token
  * - 403 Forbidden: User role is not "client" or image doesn't belong to user
  * - 404 Not Found: Image, category, or material not found
- * - 409 Conflict: Image already used in another project
+ * - 409 Conflict: Image already used in another project or still a pending candidate
  * - 500 Internal Server Error: Unexpected errors
  */
 
@@ -66,9 +66,17 @@ export const prerender = false;
  * AUTHORIZATION: Only users with role "artisan" can list projects
  *
  * QUERY PARAMETERS:
+ * - search: string (max 200 chars) - Full-text phrase matched against the image prompt, category and material
+ *   names and dimensions; results are ordered by relevance and carry a highlighted snippet
  * - status: string (default: "open") - Filter by project status
  * - category_id: string (UUID) - Filter by category
  * - material_id: string (UUID) - Filter by material
+ * - budget_min, budget_max: number - Budget range overlapping the project budget
+ * - currency: string (default: "PLN" when a budget bound is given) - Currency of the budget range
+ * - max_width, max_depth, max_height: number - Maximum dimensions in centimetres
+ * - sort: string (default: "newest") - "newest", "oldest", "budget_desc" or "fewest_proposals"
+ *   (ignored when searching, search results are ordered by relevance)
+ * - cursor: string - next_cursor of the previous page; returns the page after it (takes precedence over page)
  * - page: number (default: 1) - Page number
  * - limit: number (default: 20, max: 100) - Items per page
  *
@@ -82,24 +90,29 @@ export const prerender = false;
  *       "category": { ... },
  *       "material": { ... },
  *       "status": "open",
- *       "dimensions": "...",
- *       "budget_range": "...",
+ *       "dimensions": { "width": 120, "depth": 80, "height": 75, "unit": "cm" },
+ *       "budget": { "min": 2000, "max": 3000, "currency": "PLN" },
  *       "accepted_proposal_id": null,
  *       "accepted_price": null,
  *       "created_at": "...",
- *       "updated_at": "..."
+ *       "updated_at": "...",
+ *       "search_match": {
+ *         "rank": 0.6,
+ *         "snippet": [{ "text": "Regał z ", "highlighted": false }, { "text": "dębu", "highlighted": true }]
+ *       }
  *     }
  *   ],
  *   "pagination": {
  *     "page": 1,
  *     "limit": 20,
  *     "total": 50,
- *     "total_pages": 3
+ *     "total_pages": 3,
+ *     "next_cursor": "WyJuZXdlc3QiLC..."
  *   }
  * }
  *
  * ERROR RESPONSES:
- * - 400 Bad Request: Validation error
+ * - 400 Bad Request: Validation error or invalid cursor
  * - 401 Unauthorized: Missing or invalid authentication token
  * - 403 Forbidden: User role is not "artisan"
  * - 500 Internal Server Error: Unexpected errors
@@ -120,9 +133,18 @@ export const GET: APIRoute = async ({ url, locals }) => {
     // Parse and validate query parameters using Zod schema
     // ========================================================================
     const queryParams = {
+      search: url.searchParams.get("search"),
       status: url.searchParams.get("status"),
       category_id: url.searchParams.get("category_id"),
       material_id: url.searchParams.get("material_id"),
+      budget_min: url.searchParams.get("budget_min"),
+      budget_max: url.searchParams.get("budget_max"),
+      currency: url.searchParams.get("currency"),
+      max_width: url.searchParams.get("max_width"),
+      max_depth: url.searchParams.get("max_depth"),
+      max_height: url.searchParams.get("max_height"),
+      sort: url.searchParams.get("sort"),
+      cursor: url.searchParams.get("cursor"),
       page: url.searchParams.get("page"),
       limit: url.searchParams.get("limit"),
     };
@@ -146,9 +168,18 @@ export const GET: APIRoute = async ({ url, locals }) => {
     const projectService = new ProjectService(locals.supabase);
     const result = await projectService.listProjects(
       {
+        search: validationResult.data.search,
         status: validationResult.data.status,
         category_id: validationResult.data.category_id,
         material_id: validationResult.data.material_id,
+        budget_min: validationResult.data.budget_min,
+        budget_max: validationResult.data.budget_max,
+        currency: validationResult.data.currency,
+        max_width: validationResult.data.max_width,
+        max_depth: validationResult.data.max_depth,
+        max_height: validationResult.data.max_height,
+        sort: validationResult.data.sort,
+        cursor: validationResult.data.cursor,
         page: validationResult.data.page,
         limit: validationResult.data.limit,
       },
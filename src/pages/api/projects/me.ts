@@ -30,8 +30,8 @@
  *         "name": "Dąb"
  *       },
  *       "status": "open",
- *       "dimensions": "100x50x80 cm",
- *       "budget_range": "1000-2000 PLN",
+ *       "dimensions": { "width": 100, "depth": 50, "height": 80, "unit": "cm" },
+ *       "budget": { "min": 1000, "max": 2000, "currency": "PLN" },
  *       "accepted_proposal_id": null,
  *       "accepted_price": null,
  *       "proposals_count": 3,
@@ -0,0 +1,75 @@
+/**
+ * Proposal Attachment Download API Endpoint
+ *
+ * GET /api/proposals/{proposalId}/attachments/{fileId} - Download a proposal attachment
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the proposing artisan and the project owner
+ *
+ * PATH PARAMETERS:
+ * - proposalId: string (UUID) - ID of the proposal
+ * - fileId: string (UUID) - ID of the attachment
+ *
+ * SUCCESS RESPONSE (302 Found):
+ * Redirects to a signed URL of the file in the private storage bucket, valid for one minute.
+ * Attachments are never exposed under a public URL.
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid proposal or file ID
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is neither the proposing artisan nor the project owner
+ * - 404 Not Found: Proposal or attachment not found
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { AttachmentIdSchema, ProposalIdSchema } from "../../../../../lib/schemas";
+import { ProposalService, ProposalError } from "../../../../../lib/services/proposal.service";
+import { createErrorResponse } from "../../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, locals, redirect }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const proposalIdValidation = ProposalIdSchema.safeParse(params.proposalId);
+    if (!proposalIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID propozycji", 400);
+    }
+
+    const fileIdValidation = AttachmentIdSchema.safeParse(params.fileId);
+    if (!fileIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID załącznika", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Check Access and Redirect to a Signed URL
+    // ========================================================================
+    const proposalService = new ProposalService(locals.supabase);
+    const signedUrl = await proposalService.getAttachmentDownloadUrl(
+      proposalIdValidation.data,
+      fileIdValidation.data,
+      user.id
+    );
+
+    return redirect(signedUrl, 302);
+  } catch (error) {
+    if (error instanceof ProposalError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in GET /api/proposals/{proposalId}/attachments/{fileId}:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
@@ -0,0 +1,95 @@
+/**
+ * Proposal Counter-Offers API Endpoint
+ *
+ * POST /api/proposals/{proposalId}/counter-offers - Send a counter-offer to the artisan
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the owner of the project the proposal was submitted to
+ *
+ * PATH PARAMETERS:
+ * - proposalId: string (UUID) - ID of the proposal being negotiated
+ *
+ * REQUEST BODY (application/json):
+ * - price: number - Counter-price proposed by the client (positive, max 1,000,000 PLN)
+ * - note: string (optional) - Note for the artisan (max 1000 characters)
+ *
+ * SUCCESS RESPONSE (201 Created):
+ * {
+ *   "id": "uuid",
+ *   "price": 2200,
+ *   "note": "Czy da się zejść trochę z ceny?",
+ *   "created_at": "2025-10-23T10:00:00Z"
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid input data
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not the project owner OR project is not open
+ * - 404 Not Found: Proposal not found
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ProposalIdSchema, CreateCounterOfferSchema } from "../../../../lib/schemas";
+import { ProposalService, ProposalError } from "../../../../lib/services/proposal.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const proposalIdValidation = ProposalIdSchema.safeParse(params.proposalId);
+
+    if (!proposalIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID propozycji", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = CreateCounterOfferSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
+    }
+
+    // ========================================================================
+    // STEP 4: Create Counter-Offer
+    // ========================================================================
+    const proposalService = new ProposalService(locals.supabase);
+    const counterOffer = await proposalService.createCounterOffer(
+      proposalIdValidation.data,
+      user.id,
+      validationResult.data
+    );
+
+    return createSuccessResponse(counterOffer, 201);
+  } catch (error) {
+    if (error instanceof ProposalError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/proposals/{proposalId}/counter-offers:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
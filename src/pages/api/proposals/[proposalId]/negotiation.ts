@@ -0,0 +1,77 @@
+/**
+ * Proposal Negotiation API Endpoint
+ *
+ * GET /api/proposals/{proposalId}/negotiation - Get the negotiation thread of a proposal
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the proposing artisan and the project owner
+ *
+ * PATH PARAMETERS:
+ * - proposalId: string (UUID) - ID of the proposal
+ *
+ * SUCCESS RESPONSE (200 OK):
+ * {
+ *   "proposal_id": "uuid",
+ *   "project_id": "uuid",
+ *   "current_revision": 2,
+ *   "accepted_revision": null,
+ *   "revisions": [
+ *     { "id": "uuid", "revision_number": 1, "price": 2500, "attachment_url": "/api/proposals/{id}/attachments/{fileId}", "note": null, "created_at": "..." },
+ *     { "id": "uuid", "revision_number": 2, "price": 2300, "attachment_url": "/api/proposals/{id}/attachments/{fileId}", "note": "Bez montażu", "created_at": "..." }
+ *   ],
+ *   "counter_offers": [
+ *     { "id": "uuid", "price": 2200, "note": "Czy da się taniej?", "created_at": "..." }
+ *   ]
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid proposal ID
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User does not take part in the negotiation
+ * - 404 Not Found: Proposal not found
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ProposalIdSchema } from "../../../../lib/schemas";
+import { ProposalService, ProposalError } from "../../../../lib/services/proposal.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const proposalIdValidation = ProposalIdSchema.safeParse(params.proposalId);
+
+    if (!proposalIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID propozycji", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Fetch Negotiation Thread
+    // ========================================================================
+    const proposalService = new ProposalService(locals.supabase);
+    const negotiation = await proposalService.getNegotiation(proposalIdValidation.data, user.id);
+
+    return createSuccessResponse(negotiation);
+  } catch (error) {
+    if (error instanceof ProposalError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in GET /api/proposals/{proposalId}/negotiation:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
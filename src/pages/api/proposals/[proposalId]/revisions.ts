@@ -0,0 +1,111 @@
+/**
+ * Proposal Revisions API Endpoint
+ *
+ * POST /api/proposals/{proposalId}/revisions - Revise the price or attachment of a proposal
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the artisan who submitted the proposal
+ *
+ * PATH PARAMETERS:
+ * - proposalId: string (UUID) - ID of the proposal to revise
+ *
+ * REQUEST BODY (multipart/form-data):
+ * - price: number - New price (positive, max 1,000,000 PLN)
+ * - attachment: File (optional) - Replacement attachment (PDF, JPG, PNG; max 5MB)
+ * - note: string (optional) - Explanation of the change (max 1000 characters)
+ *
+ * SUCCESS RESPONSE (201 Created):
+ * {
+ *   "id": "uuid",
+ *   "revision_number": 2,
+ *   "price": 2300,
+ *   "attachment_url": "/api/proposals/{proposalId}/attachments/{fileId}",
+ *   "note": "Cena bez montażu",
+ *   "created_at": "2025-10-23T10:00:00Z"
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid input data
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not the proposal author OR project is not open
+ * - 404 Not Found: Proposal not found
+ * - 409 Conflict: Proposal was revised concurrently
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ProposalIdSchema, ReviseProposalSchema } from "../../../../lib/schemas";
+import { ProposalService, ProposalError } from "../../../../lib/services/proposal.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const proposalIdValidation = ProposalIdSchema.safeParse(params.proposalId);
+
+    if (!proposalIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID propozycji", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse multipart/form-data
+    // ========================================================================
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowe dane formularza", 400);
+    }
+
+    const priceString = formData.get("price");
+    const attachment = formData.get("attachment");
+    const note = formData.get("note");
+
+    // ========================================================================
+    // STEP 4: Input Validation
+    // Empty file inputs are sent as zero-length files - treat them as "no new attachment"
+    // ========================================================================
+    const validationResult = ReviseProposalSchema.safeParse({
+      price: priceString ? parseFloat(priceString.toString()) : null,
+      attachment: attachment instanceof File && attachment.size > 0 ? attachment : undefined,
+      note: note ? note.toString() : undefined,
+    });
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
+    }
+
+    // ========================================================================
+    // STEP 5: Revise Proposal
+    // ========================================================================
+    const proposalService = new ProposalService(locals.supabase);
+    const revision = await proposalService.reviseProposal({
+      proposalId: proposalIdValidation.data,
+      ...validationResult.data,
+      userId: user.id,
+    });
+
+    return createSuccessResponse(revision, 201);
+  } catch (error) {
+    if (error instanceof ProposalError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/proposals/{proposalId}/revisions:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
@@ -8,6 +8,8 @@
  *
  * QUERY PARAMETERS:
  * - status: ProjectStatus (optional) - Filter by project status
+ * - proposal_status: ProposalStatus (optional) - Filter by proposal status
+ *   (pending, accepted, withdrawn, rejected, auto_rejected)
  * - page: number (optional, default: 1)
  * - limit: number (optional, default: 10)
  *
@@ -28,7 +30,14 @@
  *         }
  *       },
  *       "price": 2500,
- *       "attachment_url": "https://...",
+ *       "lead_time_days": 21,
+ *       "scope_description": "Stół z litego dębu, olejowany",
+ *       "inclusions": ["delivery", "assembly"],
+ *       "valid_until": "2025-11-30",
+ *       "attachment_url": "/api/proposals/{id}/attachments/{fileId}",
+ *       "current_revision": 1,
+ *       "status": "accepted",
+ *       "rejection_reason": null,
  *       "created_at": "2025-10-22T12:30:45Z",
  *       "is_accepted": true
  *     }
@@ -42,6 +51,7 @@
  * }
  *
  * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid proposal_status filter
  * - 401 Unauthorized: Missing or invalid authentication token
  * - 403 Forbidden: User is not an artisan
  * - 500 Internal Server Error: Unexpected errors
@@ -49,9 +59,23 @@
 
 import type { APIRoute } from "astro";
 import { createErrorResponse, createSuccessResponse } from "../../../lib/api-utils";
+import { ProposalStatusSchema } from "../../../lib/schemas";
 
 export const prerender = false;
 
+/**
+ * Maps the stored object path of the primary attachment to its download endpoint
+ * (the files live in a private bucket and are served through signed URLs)
+ */
+function toAttachmentDownloadUrl(
+  proposalId: string,
+  attachmentPath: string | null,
+  attachments: { id: string; file_url: string }[]
+): string {
+  const attachment = attachments.find((file) => file.file_url === attachmentPath);
+  return attachment ? `/api/proposals/${proposalId}/attachments/${attachment.id}` : "";
+}
+
 export const GET: APIRoute = async ({ url, locals }) => {
   try {
     // ========================================================================
@@ -70,12 +94,19 @@ export const GET: APIRoute = async ({ url, locals }) => {
     // STEP 2: Parse Query Parameters
     // ========================================================================
     const statusParam = url.searchParams.get("status");
+    const proposalStatusParam = url.searchParams.get("proposal_status");
     const pageParam = url.searchParams.get("page");
     const limitParam = url.searchParams.get("limit");
 
     const page = pageParam ? parseInt(pageParam, 10) : 1;
     const limit = limitParam ? parseInt(limitParam, 10) : 10;
 
+    const proposalStatusValidation = proposalStatusParam ? ProposalStatusSchema.safeParse(proposalStatusParam) : null;
+
+    if (proposalStatusValidation && !proposalStatusValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy status oferty", 400);
+    }
+
     // ========================================================================
     // STEP 3: Fetch Proposals with Project Details
     // Note: Use explicit relationship name to avoid ambiguity
@@ -87,8 +118,19 @@ export const GET: APIRoute = async ({ url, locals }) => {
         `
         id,
         price,
+        lead_time_days,
+        scope_description,
+        inclusions,
+        valid_until,
         attachment_url,
+        current_revision,
+        status,
+        rejection_reason,
         created_at,
+        proposal_attachments (
+          id,
+          file_url
+        ),
         projects!proposals_project_id_fkey (
           id,
           status,
@@ -112,6 +154,10 @@ export const GET: APIRoute = async ({ url, locals }) => {
       query = query.eq("projects.status", statusParam as "open" | "in_progress" | "completed" | "closed");
     }
 
+    if (proposalStatusValidation?.success) {
+      query = query.eq("status", proposalStatusValidation.data);
+    }
+
     // Apply pagination
     const from = (page - 1) * limit;
     const to = from + limit - 1;
@@ -147,7 +193,14 @@ export const GET: APIRoute = async ({ url, locals }) => {
           },
         },
         price: proposal.price,
-        attachment_url: proposal.attachment_url || "",
+        lead_time_days: proposal.lead_time_days,
+        scope_description: proposal.scope_description,
+        inclusions: proposal.inclusions,
+        valid_until: proposal.valid_until,
+        attachment_url: toAttachmentDownloadUrl(proposal.id, proposal.attachment_url, proposal.proposal_attachments),
+        current_revision: proposal.current_revision,
+        status: proposal.status,
+        rejection_reason: proposal.rejection_reason,
         created_at: proposal.created_at,
         is_accepted: proposal.projects.accepted_proposal_id === proposal.id,
       }));
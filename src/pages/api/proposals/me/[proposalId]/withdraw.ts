@@ -0,0 +1,75 @@
+/**
+ * Withdraw Proposal API Endpoint
+ *
+ * POST /api/proposals/me/{proposalId}/withdraw - Withdraw one of the artisan's pending proposals
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the artisan who submitted the proposal
+ *
+ * PATH PARAMETERS:
+ * - proposalId: string (UUID) - ID of the proposal to withdraw
+ *
+ * SUCCESS RESPONSE (200 OK):
+ * {
+ *   "id": "uuid",
+ *   "status": "withdrawn",
+ *   "rejection_reason": null,
+ *   "status_changed_at": "2025-10-24T10:00:00Z"
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid proposal ID
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User is not an artisan OR not the proposal author
+ * - 404 Not Found: Proposal not found
+ * - 409 Conflict: Proposal is no longer pending
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { ProposalIdSchema } from "../../../../../lib/schemas";
+import { ProposalService, ProposalError } from "../../../../../lib/services/proposal.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (user.role !== "artisan") {
+      return createErrorResponse("FORBIDDEN", "Tylko rzemieślnicy mają dostęp do tego zasobu", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const proposalIdValidation = ProposalIdSchema.safeParse(params.proposalId);
+
+    if (!proposalIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID propozycji", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Withdraw Proposal
+    // ========================================================================
+    const proposalService = new ProposalService(locals.supabase);
+    const result = await proposalService.withdrawProposal(proposalIdValidation.data, user.id);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    if (error instanceof ProposalError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/proposals/me/{proposalId}/withdraw:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
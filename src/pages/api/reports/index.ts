@@ -0,0 +1,106 @@
+/**
+ * Content Reports API Endpoint
+ *
+ * POST /api/reports - Report a suspicious project, spam proposal, abusive review or offensive image
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Any signed-in user; users cannot report their own content
+ *
+ * REQUEST BODY (application/json):
+ * {
+ *   "target_type": "proposal",        // project | proposal | review | generated_image
+ *   "target_id": "uuid",
+ *   "reason": "spam",                 // spam | fraud | offensive | inappropriate_image | other
+ *   "details": "Ta sama oferta..."    // optional, max 1000 characters
+ * }
+ *
+ * SUCCESS RESPONSE (201 Created):
+ * {
+ *   "id": "uuid",
+ *   "target_type": "proposal",
+ *   "target_id": "uuid",
+ *   "reason": "spam",
+ *   "details": "Ta sama oferta...",
+ *   "status": "pending",
+ *   "created_at": "2025-11-11T10:00:00Z"
+ * }
+ *
+ * BUSINESS RULES:
+ * - A user can report a piece of content once
+ * - Content is hidden automatically once 3 different users have pending reports on it
+ * - Users can submit up to 10 reports per hour
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid JSON or the content belongs to the user
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 404 Not Found: Reported content not found
+ * - 409 Conflict: The user has already reported this content
+ * - 422 Unprocessable Entity: Validation error
+ * - 429 Too Many Requests: Rate limit exceeded
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { CreateContentReportSchema } from "@/lib/schemas";
+import { ContentReportService, ContentReportError } from "@/lib/services/content-report.service";
+import { checkContentReportRateLimit } from "@/lib/rate-limit";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Rate Limiting
+    // ========================================================================
+    const rateLimitResult = checkContentReportRateLimit(user.id);
+    if (!rateLimitResult.allowed) {
+      return createErrorResponse(
+        "RATE_LIMIT_EXCEEDED",
+        `Zbyt wiele zgłoszeń. Spróbuj ponownie za ${Math.ceil((rateLimitResult.resetTime - Date.now()) / 60000)} min`,
+        429
+      );
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_JSON", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = CreateContentReportSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 422);
+    }
+
+    // ========================================================================
+    // STEP 4: Create Report
+    // ========================================================================
+    const reportService = new ContentReportService(locals.supabase);
+    const report = await reportService.createReport(user.id, validationResult.data);
+
+    return createSuccessResponse(report, 201);
+  } catch (error) {
+    if (error instanceof ContentReportError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/reports:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
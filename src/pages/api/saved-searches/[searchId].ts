@@ -0,0 +1,128 @@
+/**
+ * Saved Search API Endpoint
+ *
+ * PATCH /api/saved-searches/{searchId} - Rename a saved search or toggle its alerts
+ * DELETE /api/saved-searches/{searchId} - Delete a saved search
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only the artisan who saved the search
+ *
+ * PATH PARAMETERS:
+ * - searchId: UUID of the saved search
+ *
+ * REQUEST BODY (PATCH, application/json) - at least one field:
+ * {
+ *   "name": "Dębowe stoły do 5000 zł",
+ *   "alerts_enabled": false
+ * }
+ *
+ * SUCCESS RESPONSE (PATCH 200 OK):
+ * { ...saved search }
+ *
+ * SUCCESS RESPONSE (DELETE):
+ * - 204 No Content (empty body)
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid search ID or request body
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 404 Not Found: Saved search not found or belongs to another artisan
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { SavedSearchIdSchema, UpdateSavedSearchSchema } from "../../../lib/schemas";
+import { SavedSearchService, SavedSearchError } from "../../../lib/services/saved-search.service";
+import { createErrorResponse, createSuccessResponse } from "../../../lib/api-utils";
+
+export const prerender = false;
+
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const searchIdValidation = SavedSearchIdSchema.safeParse(params.searchId);
+
+    if (!searchIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID wyszukiwania", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = UpdateSavedSearchSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
+    }
+
+    // ========================================================================
+    // STEP 4: Update Saved Search
+    // ========================================================================
+    const savedSearchService = new SavedSearchService(locals.supabase);
+    const search = await savedSearchService.updateSavedSearch(searchIdValidation.data, user.id, validationResult.data);
+
+    return createSuccessResponse(search);
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in PATCH /api/saved-searches/{searchId}:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Path Parameter Validation
+    // ========================================================================
+    const searchIdValidation = SavedSearchIdSchema.safeParse(params.searchId);
+
+    if (!searchIdValidation.success) {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowy format ID wyszukiwania", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Delete Saved Search
+    // ========================================================================
+    const savedSearchService = new SavedSearchService(locals.supabase);
+    await savedSearchService.deleteSavedSearch(searchIdValidation.data, user.id);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in DELETE /api/saved-searches/{searchId}:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
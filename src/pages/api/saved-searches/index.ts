@@ -0,0 +1,137 @@
+/**
+ * Saved Searches API Endpoint
+ *
+ * GET /api/saved-searches - List saved searches of the authenticated artisan
+ * POST /api/saved-searches - Save a marketplace search (with new-project alerts)
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Only users with role "artisan"; artisans only access their own saved searches
+ *
+ * REQUEST BODY (POST, application/json):
+ * {
+ *   "name": "Dębowe stoły",                 // required, max 100 characters
+ *   "query": "rozkładany",                  // optional phrase, max 200 characters
+ *   "category_id": "uuid",                  // optional
+ *   "material_id": "uuid",                  // optional
+ *   "specialization_id": "uuid",            // optional
+ *   "budget_min": 2000,                     // optional
+ *   "budget_max": 5000,                     // optional, >= budget_min
+ *   "alerts_enabled": true                  // optional, default: true
+ * }
+ *
+ * SUCCESS RESPONSE (GET 200 OK):
+ * {
+ *   "data": [
+ *     {
+ *       "id": "uuid",
+ *       "name": "Dębowe stoły",
+ *       "query": null,
+ *       "category_id": "uuid",
+ *       "material_id": "uuid",
+ *       "specialization_id": null,
+ *       "budget_min": 2000,
+ *       "budget_max": null,
+ *       "alerts_enabled": true,
+ *       "created_at": "2025-10-29T10:00:00Z"
+ *     }
+ *   ]
+ * }
+ *
+ * SUCCESS RESPONSE (POST 201 Created):
+ * { ...saved search }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid request body or unknown category/material/specialization
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 403 Forbidden: User role is not "artisan"
+ * - 409 Conflict: Limit of saved searches reached
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { CreateSavedSearchSchema } from "../../../lib/schemas";
+import { SavedSearchService, SavedSearchError } from "../../../lib/services/saved-search.service";
+import { createErrorResponse, createSuccessResponse } from "../../../lib/api-utils";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication and Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (user.role !== "artisan") {
+      return createErrorResponse("FORBIDDEN", "Tylko rzemieślnicy mogą zapisywać wyszukiwania", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Fetch Saved Searches
+    // ========================================================================
+    const savedSearchService = new SavedSearchService(locals.supabase);
+    const searches = await savedSearchService.listSavedSearches(user.id);
+
+    return createSuccessResponse({ data: searches });
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in GET /api/saved-searches:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication and Authorization
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    if (user.role !== "artisan") {
+      return createErrorResponse("FORBIDDEN", "Tylko rzemieślnicy mogą zapisywać wyszukiwania", 403);
+    }
+
+    // ========================================================================
+    // STEP 2: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = CreateSavedSearchSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Save Search
+    // ========================================================================
+    const savedSearchService = new SavedSearchService(locals.supabase);
+    const search = await savedSearchService.createSavedSearch(user.id, validationResult.data);
+
+    return createSuccessResponse(search, 201);
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in POST /api/saved-searches:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
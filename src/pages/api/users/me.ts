@@ -1,14 +1,42 @@
 /**
  * Current User API Endpoint
  *
- * Returns information about the currently authenticated user
+ * GET /api/users/me - Returns information about the currently authenticated user
+ * PATCH /api/users/me - Updates the public profile of the current user
  *
- * GET /api/users/me
- * Returns: { id, email, role }
+ * AUTHENTICATION: Required (Supabase Auth token)
+ *
+ * REQUEST BODY (PATCH, application/json) - at least one field, null clears it:
+ * {
+ *   "display_name": "Anna K.",                  // 2-50 characters
+ *   "avatar_url": "https://example.com/a.png",  // https URL
+ *   "city": "Kraków"                            // up to 100 characters
+ * }
+ *
+ * SUCCESS RESPONSE (GET 200 OK):
+ * {
+ *   "id": "uuid",
+ *   "email": "user@example.com",
+ *   "role": "client",
+ *   "profile": { "display_name": "Anna K.", "avatar_url": null, "city": "Kraków" }
+ * }
+ *
+ * SUCCESS RESPONSE (PATCH 200 OK) - the updated profile:
+ * { "display_name": "Anna K.", "avatar_url": null, "city": "Kraków" }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid JSON
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 404 Not Found: User record not found
+ * - 422 Unprocessable Entity: Validation error
+ * - 500 Internal Server Error: Unexpected errors
  */
 
 import type { APIRoute } from "astro";
+import { UpdateUserProfileSchema } from "@/lib/schemas";
+import { UserProfileService, UserProfileError } from "@/lib/services/user-profile.service";
 import { createErrorResponse, createSuccessResponse } from "@/lib/api-utils";
+import type { CurrentUserDTO } from "@/types";
 
 export const prerender = false;
 
@@ -38,15 +66,82 @@ export const GET: APIRoute = async (context) => {
       role = userData.role;
     }
 
-    // Return user data with role
-    return createSuccessResponse({
+    const userProfileService = new UserProfileService(context.locals.supabase);
+    const profile = await userProfileService.getProfile(user.id);
+
+    // Return user data with role and public profile
+    const response: CurrentUserDTO = {
       id: user.id,
-      email: user.email,
+      email: user.email ?? "",
       role,
-    });
+      profile,
+    };
+
+    return createSuccessResponse(response);
   } catch (error) {
+    if (error instanceof UserProfileError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
     // eslint-disable-next-line no-console
     console.error("Error in GET /api/users/me:", error);
     return createErrorResponse("INTERNAL_ERROR", "Wystąpił nieoczekiwany błąd serwera", 500);
   }
 };
+
+export const PATCH: APIRoute = async ({ request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_JSON", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = UpdateUserProfileSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const fieldErrors = validationResult.error.flatten().fieldErrors;
+      const details: Record<string, string> = {};
+      Object.entries(fieldErrors).forEach(([field, messages]) => {
+        if (messages && messages.length > 0) {
+          details[field] = messages[0];
+        }
+      });
+
+      return createErrorResponse(
+        "VALIDATION_ERROR",
+        validationResult.error.errors[0]?.message || "Nieprawidłowe dane wejściowe",
+        422,
+        details
+      );
+    }
+
+    // ========================================================================
+    // STEP 3: Update Profile
+    // ========================================================================
+    const userProfileService = new UserProfileService(locals.supabase);
+    const profile = await userProfileService.updateProfile(user.id, validationResult.data);
+
+    return createSuccessResponse(profile);
+  } catch (error) {
+    if (error instanceof UserProfileError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in PATCH /api/users/me:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
@@ -0,0 +1,110 @@
+/**
+ * Email Preferences API Endpoint
+ *
+ * GET /api/users/me/email-preferences - Get email preferences of the authenticated user
+ * PATCH /api/users/me/email-preferences - Opt in or out of transactional emails
+ *
+ * AUTHENTICATION: Required (Supabase Auth token)
+ * AUTHORIZATION: Users can only access their own preferences
+ *
+ * REQUEST BODY (PATCH, application/json) - at least one flag:
+ * {
+ *   "proposal_received": boolean,
+ *   "proposal_accepted": boolean,
+ *   "project_completed": boolean,
+ *   "review_request": boolean
+ * }
+ *
+ * SUCCESS RESPONSE (GET/PATCH 200 OK):
+ * {
+ *   "proposal_received": true,
+ *   "proposal_accepted": true,
+ *   "project_completed": false,
+ *   "review_request": true
+ * }
+ *
+ * ERROR RESPONSES:
+ * - 400 Bad Request: Invalid request body
+ * - 401 Unauthorized: Missing or invalid authentication token
+ * - 500 Internal Server Error: Unexpected errors
+ */
+
+import type { APIRoute } from "astro";
+import { UpdateEmailPreferencesSchema } from "../../../../lib/schemas";
+import { MailService, MailError } from "../../../../lib/services/mail.service";
+import { createErrorResponse, createSuccessResponse } from "../../../../lib/api-utils";
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Fetch Preferences
+    // ========================================================================
+    const mailService = new MailService(locals.supabase);
+    const preferences = await mailService.getPreferences(user.id);
+
+    return createSuccessResponse(preferences);
+  } catch (error) {
+    if (error instanceof MailError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in GET /api/users/me/email-preferences:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
+
+export const PATCH: APIRoute = async ({ request, locals }) => {
+  try {
+    // ========================================================================
+    // STEP 1: Authentication
+    // ========================================================================
+    const user = locals.user;
+    if (!user || !user.id) {
+      return createErrorResponse("UNAUTHORIZED", "Wymagane uwierzytelnienie", 401);
+    }
+
+    // ========================================================================
+    // STEP 2: Parse and Validate Request Body
+    // ========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("VALIDATION_ERROR", "Nieprawidłowe dane JSON", 400);
+    }
+
+    const validationResult = UpdateEmailPreferencesSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse("VALIDATION_ERROR", firstError?.message || "Nieprawidłowe dane wejściowe", 400);
+    }
+
+    // ========================================================================
+    // STEP 3: Update Preferences
+    // ========================================================================
+    const mailService = new MailService(locals.supabase);
+    const preferences = await mailService.updatePreferences(user.id, validationResult.data);
+
+    return createSuccessResponse(preferences);
+  } catch (error) {
+    if (error instanceof MailError) {
+      return createErrorResponse(error.code, error.message, error.statusCode);
+    }
+
+    // eslint-disable-next-line no-console
+    console.error("[API] Unexpected error in PATCH /api/users/me/email-preferences:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "Wystąpił nieoczekiwany błąd", 500);
+  }
+};
@@ -13,7 +13,21 @@ import type { Tables, Enums } from "./db/database.types";
 // ============================================================================
 
 export type UserRole = Enums<"user_role">;
+export type UserPlan = Enums<"user_plan">;
 export type ProjectStatus = Enums<"project_status">;
+export type ProposalStatus = Enums<"proposal_status">;
+export type ProposalInclusion = Enums<"proposal_inclusion">;
+export type MilestoneStatus = Enums<"milestone_status">;
+export type ProjectEventType = Enums<"project_event_type">;
+export type NotificationType = Enums<"notification_type">;
+export type EmailEvent = Enums<"email_event">;
+export type DimensionUnit = Enums<"dimension_unit">;
+export type CurrencyCode = Enums<"currency_code">;
+export type ModerationAction = Enums<"moderation_action">;
+export type ReportTargetType = Enums<"report_target_type">;
+export type ReportReason = Enums<"report_reason">;
+export type ReportStatus = Enums<"report_status">;
+export type VerificationStatus = Enums<"verification_status">;
 
 // ============================================================================
 // Common/Shared Types
@@ -27,6 +41,8 @@ export interface PaginationMetaDTO {
   limit: number;
   total: number;
   total_pages: number;
+  /** Opaque cursor of the next page (cursor-paginated lists only), null on the last page */
+  next_cursor?: string | null;
 }
 
 /**
@@ -63,6 +79,27 @@ export interface UserDTO {
   created_at: string;
 }
 
+/**
+ * User Profile DTO - Public profile shown to other users (reviews, proposals, chat)
+ * Source: user_profiles table (all fields null if the user never set them)
+ * Used in: GET/PATCH /api/users/me
+ */
+export type UserProfileDTO = Pick<Tables<"user_profiles">, "display_name" | "avatar_url" | "city">;
+
+/**
+ * Current User DTO - Authenticated user with their public profile
+ * Used in: GET /api/users/me
+ */
+export type CurrentUserDTO = Pick<UserDTO, "id" | "email" | "role"> & {
+  profile: UserProfileDTO;
+};
+
+/**
+ * Update User Profile Command
+ * Used in: PATCH /api/users/me (null clears a field)
+ */
+export type UpdateUserProfileCommand = Partial<UserProfileDTO>;
+
 // ============================================================================
 // Dictionary Resource Types
 // ============================================================================
@@ -88,6 +125,30 @@ export type MaterialDTO = Tables<"materials">;
  */
 export type SpecializationDTO = Tables<"specializations">;
 
+/**
+ * Confidence of a dictionary suggestion
+ */
+export type SuggestionConfidence = "high" | "medium" | "low";
+
+/**
+ * Dictionary Suggestion DTO - Category or material inferred from an image prompt
+ */
+export interface DictionarySuggestionDTO {
+  id: string;
+  name: string;
+  score: number;
+  confidence: SuggestionConfidence;
+}
+
+/**
+ * Project Suggestions DTO - Ranked category and material suggestions for a new project
+ * Used in: project creation form (/projects/new/[imageId])
+ */
+export interface ProjectSuggestionsDTO {
+  categories: DictionarySuggestionDTO[];
+  materials: DictionarySuggestionDTO[];
+}
+
 // ============================================================================
 // Artisan Profile Types
 // ============================================================================
@@ -122,8 +183,24 @@ export interface ArtisanProfileDTO {
   average_rating: number | null;
   total_reviews: number;
   updated_at: string;
+  /** Result of the NIP lookup in the business registry; reset to "unverified" when the NIP changes */
+  verification_status: VerificationStatus;
+  /** Company name and address registered under the NIP; null until found in the registry */
+  verified_company_name: string | null;
+  verified_address: string | null;
+  verified_at: string | null;
 }
 
+/**
+ * Artisan Verification DTO - Result of looking the NIP up in the business registry
+ * Source: artisan_profiles table
+ * Used in: POST /api/admin/artisans/{artisanId}/verify
+ */
+export type ArtisanVerificationDTO = Pick<
+  ArtisanProfileDTO,
+  "verification_status" | "verified_company_name" | "verified_address" | "verified_at"
+>;
+
 /**
  * Create/Update Artisan Profile Command
  * Used in: PUT /api/artisans/me
@@ -150,6 +227,12 @@ export interface AddArtisanSpecializationsCommand {
  * Generated Image DTO - AI-generated furniture image
  * Source: generated_images table
  * Used in: GET /api/images/generated/{id}
+ *
+ * Refined images link to the image they were made from (parent_image_id) and to the first
+ * image of the design (root_image_id); both are null for images generated from scratch.
+ *
+ * `prompt` is the raw description of the client; the remaining generation metadata describes
+ * how the image was produced and is null for images generated before it was recorded.
  */
 export interface GeneratedImageDTO {
   id: string;
@@ -158,6 +241,15 @@ export interface GeneratedImageDTO {
   image_url: string;
   created_at: string;
   is_used: boolean;
+  parent_image_id: string | null;
+  root_image_id: string | null;
+  positive_prompt: string | null;
+  negative_prompt: string | null;
+  technical_notes: string | null;
+  materials: string[];
+  style: string | null;
+  model: string | null;
+  generation_time_ms: number | null;
 }
 
 /**
@@ -166,14 +258,76 @@ export interface GeneratedImageDTO {
  */
 export interface GenerateImageCommand {
   prompt: string;
+  /** Number of candidate images to generate (1-4, default: 1) */
+  candidates?: number;
+}
+
+/**
+ * Refine Image Command - describes a change to an existing generated image
+ * Used in: POST /api/images/refine
+ */
+export interface RefineImageCommand {
+  parent_image_id: string;
+  prompt: string;
 }
 
 /**
  * Generate Image Response DTO
- * Used in: POST /api/images/generate (response)
+ * Used in: POST /api/images/generate, POST /api/images/refine (response)
+ *
+ * When several candidates were requested, the top-level fields describe the first candidate and
+ * `candidates` lists all of them; none is charged to the quota until it is kept.
  */
 export interface GenerateImageResponseDTO extends GeneratedImageDTO {
   remaining_generations: number;
+  candidates?: GeneratedImageDTO[];
+}
+
+/**
+ * Resolve Image Candidates Command - candidates to keep and to discard
+ * Used in: POST /api/images/candidates
+ */
+export interface ResolveImageCandidatesCommand {
+  keep: string[];
+  discard: string[];
+}
+
+/**
+ * Resolve Image Candidates Response DTO
+ * Used in: POST /api/images/candidates (response)
+ */
+export interface ResolveImageCandidatesResponseDTO {
+  kept: GeneratedImageDTO[];
+  remaining_generations: number;
+}
+
+/**
+ * Generated Image Versions Response DTO - all versions of a design, oldest first
+ * Used in: GET /api/images/generated/{id}/versions
+ */
+export interface GeneratedImageVersionsResponseDTO {
+  root_image_id: string;
+  versions: GeneratedImageDTO[];
+  /** Versions made in the design so far, deleted ones included (counts against max_versions) */
+  version_count: number;
+  max_versions: number;
+}
+
+/**
+ * Generation Quota DTO - Monthly image generation quota of a user
+ * Used in: GET /api/images/generated
+ *
+ * The limit comes from the user's plan unless an admin set a limit for the user (is_override).
+ * The quota window is the calendar month (UTC) and resets at `resets_at`.
+ */
+export interface GenerationQuotaDTO {
+  plan: UserPlan;
+  limit: number;
+  used: number;
+  remaining: number;
+  is_override: boolean;
+  period_start: string;
+  resets_at: string;
 }
 
 /**
@@ -184,6 +338,7 @@ export interface GeneratedImagesListResponseDTO {
   data: GeneratedImageDTO[];
   pagination: PaginationMetaDTO;
   remaining_generations: number;
+  quota: GenerationQuotaDTO;
 }
 
 // ============================================================================
@@ -198,6 +353,8 @@ export interface ProjectGeneratedImageDTO {
   id: string;
   image_url: string;
   prompt: string | null;
+  /** Construction notes of the design; present in project details (GET /api/projects/{id}) */
+  technical_notes?: string | null;
 }
 
 /**
@@ -218,6 +375,27 @@ export interface ProjectMaterialDTO {
   name: string;
 }
 
+/**
+ * Project Dimensions DTO - Furniture size in the unit chosen by the client
+ * Used as nested object in ProjectDTO (null when no dimensions are given)
+ */
+export interface ProjectDimensionsDTO {
+  width: number | null;
+  depth: number | null;
+  height: number | null;
+  unit: DimensionUnit;
+}
+
+/**
+ * Project Budget DTO - Budget range of the client (either bound may be open)
+ * Used as nested object in ProjectDTO (null when no budget is given)
+ */
+export interface ProjectBudgetDTO {
+  min: number | null;
+  max: number | null;
+  currency: CurrencyCode;
+}
+
 /**
  * Project DTO - Detailed project information
  * Source: projects table + related entities
@@ -230,8 +408,8 @@ export interface ProjectDTO {
   category: ProjectCategoryDTO;
   material: ProjectMaterialDTO;
   status: ProjectStatus;
-  dimensions: string | null;
-  budget_range: string | null;
+  dimensions: ProjectDimensionsDTO | null;
+  budget: ProjectBudgetDTO | null;
   accepted_proposal_id: string | null;
   accepted_price: number | null;
   proposals_count: number;
@@ -239,11 +417,31 @@ export interface ProjectDTO {
   updated_at: string;
 }
 
+/**
+ * Project Search Snippet Segment DTO - Part of a search snippet, highlighted when it matches the query
+ * Used as nested array in ProjectSearchMatchDTO
+ */
+export interface ProjectSearchSnippetSegmentDTO {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Project Search Match DTO - Relevance of a project found by full-text search
+ * Used as nested object in ProjectListItemDTO (only when the list is searched)
+ */
+export interface ProjectSearchMatchDTO {
+  rank: number;
+  snippet: ProjectSearchSnippetSegmentDTO[];
+}
+
 /**
  * Project List Item DTO - Simplified project data for listings
  * Used in: GET /api/projects, GET /api/projects/me
  */
-export type ProjectListItemDTO = Omit<ProjectDTO, "proposals_count">;
+export type ProjectListItemDTO = Omit<ProjectDTO, "proposals_count"> & {
+  search_match?: ProjectSearchMatchDTO;
+};
 
 /**
  * Create Project Command
@@ -253,8 +451,17 @@ export interface CreateProjectCommand {
   generated_image_id: string;
   category_id: string;
   material_id: string;
-  dimensions?: string;
-  budget_range?: string;
+  dimensions?: {
+    width?: number;
+    depth?: number;
+    height?: number;
+    unit: DimensionUnit;
+  };
+  budget?: {
+    min?: number;
+    max?: number;
+    currency?: CurrencyCode;
+  };
 }
 
 /**
@@ -281,6 +488,34 @@ export interface UpdateProjectStatusResponseDTO {
  */
 export interface AcceptProposalCommand {
   proposal_id: string;
+  revision_number?: number;
+}
+
+/**
+ * Project Event DTO - Single entry of the project audit trail
+ * Source: project_events table (actor_role is the role the actor had when the event was recorded)
+ * Used as nested object in ProjectHistoryDTO
+ */
+export type ProjectEventDTO = Pick<
+  Tables<"project_events">,
+  | "id"
+  | "event_type"
+  | "actor_id"
+  | "actor_role"
+  | "from_status"
+  | "to_status"
+  | "proposal_id"
+  | "review_id"
+  | "created_at"
+>;
+
+/**
+ * Project History DTO - Chronological audit trail of a project
+ * Used in: GET /api/projects/{id}/history
+ */
+export interface ProjectHistoryDTO {
+  project_id: string;
+  events: ProjectEventDTO[];
 }
 
 // ============================================================================
@@ -294,21 +529,55 @@ export interface AcceptProposalCommand {
 export interface ProposalArtisanDTO {
   user_id: string;
   company_name: string;
+  /** Public profile of the artisan (contact person, avatar, city) */
+  display_name: string | null;
+  avatar_url: string | null;
+  city: string | null;
+  /** Company verified in the business registry ("Zweryfikowany" badge) */
+  is_verified: boolean;
+  /** Company name registered under the NIP, shown with the badge; null unless verified */
+  verified_company_name: string | null;
   average_rating: number | null;
   total_reviews: number;
+  specializations: ArtisanSpecializationDTO[];
+  /** Newest portfolio images (up to 4), shown as thumbnails when comparing proposals */
+  portfolio_images: PortfolioImageDTO[];
 }
 
+/**
+ * Proposal Attachment DTO - Captioned file attached to a proposal
+ * Source: proposal_attachments table
+ * Used as nested object in ProposalDTO
+ */
+export type ProposalAttachmentDTO = Pick<
+  Tables<"proposal_attachments">,
+  "id" | "file_url" | "file_name" | "mime_type" | "size_bytes" | "caption"
+>;
+
 /**
  * Proposal DTO - Artisan proposal for a project
- * Source: proposals table + artisan profile + reviews aggregation
- * Used in: GET /api/projects/{id}/proposals
+ * Source: proposals table + attachments + artisan profile, specializations, portfolio + reviews aggregation
+ * Used in: GET /api/projects/{id}/proposals, POST /api/projects/{id}/proposals
  */
 export interface ProposalDTO {
   id: string;
   project_id: string;
   artisan: ProposalArtisanDTO;
   price: number;
-  attachment_url: string;
+  message: string | null;
+  /** Estimated completion time in days (null for proposals submitted before it was required) */
+  lead_time_days: number | null;
+  scope_description: string | null;
+  inclusions: ProposalInclusion[];
+  /** Last day (YYYY-MM-DD) on which the offer can be accepted; null if it does not expire */
+  valid_until: string | null;
+  /** Primary attachment (first file or the file of the latest revision); signed when listing proposals */
+  attachment_url: string | null;
+  /** All files of the proposal in upload order; file URLs are signed when listing proposals */
+  attachments: ProposalAttachmentDTO[];
+  current_revision: number;
+  status: ProposalStatus;
+  rejection_reason: string | null;
   created_at: string;
 }
 
@@ -334,7 +603,14 @@ export interface MyProposalDTO {
   id: string;
   project: MyProposalProjectDTO;
   price: number;
+  lead_time_days: number | null;
+  scope_description: string | null;
+  inclusions: ProposalInclusion[];
+  valid_until: string | null;
   attachment_url: string;
+  current_revision: number;
+  status: ProposalStatus;
+  rejection_reason: string | null;
   created_at: string;
   is_accepted: boolean;
 }
@@ -342,11 +618,128 @@ export interface MyProposalDTO {
 /**
  * Create Proposal Command
  * Used in: POST /api/projects/{id}/proposals
- * Note: File attachment handled via multipart/form-data
+ * Note: Attachments (files with captions) handled via multipart/form-data
  */
 export interface CreateProposalCommand {
   price: number;
-  attachment: File;
+  lead_time_days: number;
+  scope_description?: string;
+  inclusions?: ProposalInclusion[];
+  valid_until?: string;
+  attachments: { file: File; caption: string }[];
+}
+
+/**
+ * Reject Proposal Command
+ * Used in: POST /api/projects/{id}/proposals/{proposalId}/reject
+ */
+export interface RejectProposalCommand {
+  reason?: string;
+}
+
+/**
+ * Proposal Status Response DTO
+ * Used in: POST /api/projects/{id}/proposals/{proposalId}/reject,
+ *          POST /api/proposals/me/{proposalId}/withdraw (response)
+ */
+export type ProposalStatusResponseDTO = Pick<
+  Tables<"proposals">,
+  "id" | "status" | "rejection_reason" | "status_changed_at"
+>;
+
+/**
+ * Proposal Revision DTO - Single version of an artisan's offer
+ * Source: proposal_revisions table
+ * Used as nested object in ProposalNegotiationDTO
+ */
+export type ProposalRevisionDTO = Pick<
+  Tables<"proposal_revisions">,
+  "id" | "revision_number" | "price" | "attachment_url" | "note" | "created_at"
+>;
+
+/**
+ * Proposal Counter-Offer DTO - Counter-price sent by the project owner
+ * Source: proposal_counter_offers table
+ * Used as nested object in ProposalNegotiationDTO
+ */
+export type ProposalCounterOfferDTO = Pick<Tables<"proposal_counter_offers">, "id" | "price" | "note" | "created_at">;
+
+/**
+ * Proposal Negotiation DTO - Negotiation thread of a single proposal
+ * Source: proposals + proposal_revisions + proposal_counter_offers
+ * Used in: GET /api/proposals/{id}/negotiation
+ */
+export interface ProposalNegotiationDTO {
+  proposal_id: string;
+  project_id: string;
+  current_revision: number;
+  accepted_revision: number | null;
+  revisions: ProposalRevisionDTO[];
+  counter_offers: ProposalCounterOfferDTO[];
+}
+
+/**
+ * Create Counter-Offer Command
+ * Used in: POST /api/proposals/{id}/counter-offers
+ */
+export interface CreateCounterOfferCommand {
+  price: number;
+  note?: string;
+}
+
+/**
+ * Revise Proposal Command
+ * Used in: POST /api/proposals/{id}/revisions
+ * Note: Optional attachment handled via multipart/form-data
+ */
+export interface ReviseProposalCommand {
+  price: number;
+  attachment?: File;
+  note?: string;
+}
+
+// ============================================================================
+// Milestone Types
+// ============================================================================
+
+/**
+ * Milestone DTO - Checkpoint of a project in progress with its share of the price
+ * Source: project_milestones table
+ * Used as nested object in ProjectMilestonesDTO
+ */
+export type MilestoneDTO = Pick<
+  Tables<"project_milestones">,
+  "id" | "position" | "title" | "amount" | "due_date" | "status" | "submitted_at" | "approved_at"
+>;
+
+/**
+ * Project Milestones DTO - Milestone plan with staged payments summary
+ * Source: project_milestones + projects.accepted_price
+ * Used in: GET /api/projects/{id}/milestones
+ */
+export interface ProjectMilestonesDTO {
+  project_id: string;
+  accepted_price: number | null;
+  approved_amount: number;
+  milestones: MilestoneDTO[];
+}
+
+/**
+ * Milestone Plan Item Command - Single milestone in a plan
+ * Used as nested object in SetMilestonePlanCommand
+ */
+export interface MilestonePlanItemCommand {
+  title: string;
+  amount: number;
+  due_date?: string;
+}
+
+/**
+ * Set Milestone Plan Command
+ * Used in: PUT /api/projects/{id}/milestones
+ */
+export interface SetMilestonePlanCommand {
+  milestones: MilestonePlanItemCommand[];
 }
 
 // ============================================================================
@@ -370,7 +763,9 @@ export interface ReviewProjectDTO {
  */
 export interface ReviewerDTO {
   id: string;
+  /** Display name of the reviewer, "Użytkownik" if not set */
   name: string;
+  avatar_url: string | null;
 }
 
 /**
@@ -422,6 +817,221 @@ export interface ArtisanReviewsResponseDTO {
   summary: ReviewSummaryDTO;
 }
 
+// ============================================================================
+// Notification Types
+// ============================================================================
+
+/**
+ * Notification DTO - Single in-app notification
+ * Source: notifications table
+ * Used in: GET /api/notifications
+ */
+export type NotificationDTO = Pick<
+  Tables<"notifications">,
+  "id" | "type" | "title" | "message" | "project_id" | "read_at" | "created_at"
+>;
+
+/**
+ * Notifications List Response DTO
+ * Used in: GET /api/notifications
+ */
+export interface NotificationsListResponseDTO {
+  data: NotificationDTO[];
+  pagination: PaginationMetaDTO;
+  unread_count: number;
+}
+
+/**
+ * Create Notification Command - Notification emitted by a marketplace event
+ * Used internally by services (ProposalService, ProjectService, ReviewService)
+ */
+export interface CreateNotificationCommand {
+  user_id: string;
+  actor_id: string;
+  type: NotificationType;
+  project_id: string;
+  title: string;
+  message: string;
+}
+
+/**
+ * Mark Notifications Read Command - Either a list of notification IDs or all of them
+ * Used in: PATCH /api/notifications
+ */
+export interface MarkNotificationsReadCommand {
+  notification_ids?: string[];
+  all?: boolean;
+}
+
+/**
+ * Mark Notifications Read Response DTO
+ * Used in: PATCH /api/notifications (response)
+ */
+export interface MarkNotificationsReadResponseDTO {
+  updated_count: number;
+  unread_count: number;
+}
+
+/**
+ * Email Preferences DTO - Per-event email opt-outs of a user (true = receive)
+ * Source: email_preferences table (defaults to all true when the user has no row)
+ * Used in: GET/PATCH /api/users/me/email-preferences
+ */
+export type EmailPreferencesDTO = Pick<Tables<"email_preferences">, EmailEvent>;
+
+/**
+ * Update Email Preferences Command - Only the given events are changed
+ * Used in: PATCH /api/users/me/email-preferences
+ */
+export type UpdateEmailPreferencesCommand = Partial<EmailPreferencesDTO>;
+
+// ============================================================================
+// Saved Search Types
+// ============================================================================
+
+/**
+ * Saved Search DTO - Marketplace filter combination saved by an artisan
+ * Source: saved_searches table (null criteria mean "any")
+ * Used in: GET/POST /api/saved-searches, PATCH /api/saved-searches/{searchId}
+ */
+export type SavedSearchDTO = Omit<Tables<"saved_searches">, "artisan_id">;
+
+/**
+ * Create Saved Search Command - Filters from the marketplace plus optional budget and specialization
+ * Used in: POST /api/saved-searches
+ */
+export interface CreateSavedSearchCommand {
+  name: string;
+  query?: string;
+  category_id?: string;
+  material_id?: string;
+  specialization_id?: string;
+  budget_min?: number;
+  budget_max?: number;
+  alerts_enabled?: boolean;
+}
+
+/**
+ * Update Saved Search Command - Rename or toggle new-project alerts
+ * Used in: PATCH /api/saved-searches/{searchId}
+ */
+export interface UpdateSavedSearchCommand {
+  name?: string;
+  alerts_enabled?: boolean;
+}
+
+// ============================================================================
+// Admin Types
+// ============================================================================
+
+/**
+ * Admin User DTO - User as listed in the moderation console
+ * Source: admin_list_users() (company_name, is_public and verification_status are null for users without an
+ * artisan profile)
+ * Used in: GET /api/admin/users
+ */
+export interface AdminUserDTO {
+  id: string;
+  email: string;
+  role: UserRole;
+  display_name: string | null;
+  company_name: string | null;
+  is_public: boolean | null;
+  verification_status: VerificationStatus | null;
+  /** Company name registered under the NIP, compared with company_name when the status is "needs_review" */
+  verified_company_name: string | null;
+  suspended_at: string | null;
+  suspension_reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Admin Review DTO - Review with its moderation state
+ * Used in: GET /api/admin/reviews
+ */
+export type AdminReviewDTO = Pick<
+  Tables<"reviews">,
+  | "id"
+  | "project_id"
+  | "reviewer_id"
+  | "reviewee_id"
+  | "rating"
+  | "comment"
+  | "created_at"
+  | "hidden_at"
+  | "hidden_reason"
+>;
+
+/**
+ * Admin Project DTO - Project as listed in the moderation console
+ * Used in: GET /api/admin/projects
+ */
+export type AdminProjectDTO = Pick<Tables<"projects">, "id" | "client_id" | "status" | "created_at" | "updated_at"> & {
+  category: ProjectCategoryDTO;
+};
+
+/**
+ * Moderation Action DTO - Entry of the audit log of moderator actions
+ * Used in: GET /api/admin/audit
+ */
+export type ModerationActionDTO = Tables<"moderation_actions">;
+
+/**
+ * Moderation Command - Reason given by the moderator, recorded in the audit log
+ * Used in: POST /api/admin/users/{id}/suspend, /reviews/{id}/hide, /artisans/{id}/unpublish, /projects/{id}/close
+ */
+export interface ModerationCommand {
+  reason: string;
+}
+
+/**
+ * Set Generation Quota Command
+ * Used in: PUT /api/admin/users/{id}/generation-quota
+ */
+export interface SetGenerationQuotaCommand {
+  monthly_limit: number;
+  reason?: string;
+}
+
+/**
+ * Content Report DTO - Report of a project, proposal, review or generated image
+ * Used in: GET /api/admin/reports
+ */
+export type ContentReportDTO = Tables<"content_reports">;
+
+/**
+ * Resolve Content Report Command - Decision of the moderator, applied to every pending report of the content
+ * Used in: POST /api/admin/reports/{id}/resolve
+ */
+export interface ResolveContentReportCommand {
+  decision: Exclude<ReportStatus, "pending">;
+  reason: string;
+}
+
+// ============================================================================
+// Content Report Types
+// ============================================================================
+
+/**
+ * Submitted Report DTO - Report as seen by the user who submitted it
+ * Used in: POST /api/reports
+ */
+export type SubmittedReportDTO = Pick<
+  Tables<"content_reports">,
+  "id" | "target_type" | "target_id" | "reason" | "details" | "status" | "created_at"
+>;
+
+/**
+ * Create Content Report Command
+ * Used in: POST /api/reports
+ */
+export interface CreateContentReportCommand {
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: ReportReason;
+  details?: string;
+}
+
 // ============================================================================
 // Query Parameter Types
 // ============================================================================
@@ -434,14 +1044,33 @@ export interface PaginationQueryParams {
   limit?: number;
 }
 
+/**
+ * Sort orders of the project list
+ * Used in: GET /api/projects
+ */
+export type ProjectSortOption = "newest" | "oldest" | "budget_desc" | "fewest_proposals";
+
 /**
  * Project list query parameters
  * Used in: GET /api/projects
  */
 export interface ProjectsQueryParams extends PaginationQueryParams {
+  /** Full-text search over the image prompt, category and material names and dimensions */
+  search?: string;
   status?: ProjectStatus;
   category_id?: string;
   material_id?: string;
+  /** Budget filters match projects whose budget range overlaps [budget_min, budget_max] */
+  budget_min?: number;
+  budget_max?: number;
+  currency?: CurrencyCode;
+  /** Size filters in centimetres, regardless of the unit used by the client */
+  max_width?: number;
+  max_depth?: number;
+  max_height?: number;
+  sort?: ProjectSortOption;
+  /** next_cursor of the previous page; takes precedence over page */
+  cursor?: string;
 }
 
 /**
@@ -458,6 +1087,7 @@ export interface GeneratedImagesQueryParams extends PaginationQueryParams {
  */
 export interface MyProposalsQueryParams extends PaginationQueryParams {
   status?: ProjectStatus;
+  proposal_status?: ProposalStatus;
 }
 
 /**
@@ -465,3 +1095,55 @@ export interface MyProposalsQueryParams extends PaginationQueryParams {
  * Used in: GET /api/artisans/{id}/reviews
  */
 export type ReviewsQueryParams = PaginationQueryParams;
+
+/**
+ * Notifications query parameters
+ * Used in: GET /api/notifications
+ */
+export interface NotificationsQueryParams extends PaginationQueryParams {
+  unread_only?: boolean;
+}
+
+/**
+ * Admin users list query parameters
+ * Used in: GET /api/admin/users
+ */
+export interface AdminUsersQueryParams extends PaginationQueryParams {
+  /** Matches the email, display name or company name */
+  search?: string;
+  role?: UserRole;
+}
+
+/**
+ * Admin reviews list query parameters
+ * Used in: GET /api/admin/reviews
+ */
+export interface AdminReviewsQueryParams extends PaginationQueryParams {
+  hidden_only?: boolean;
+}
+
+/**
+ * Admin projects list query parameters
+ * Used in: GET /api/admin/projects
+ */
+export interface AdminProjectsQueryParams extends PaginationQueryParams {
+  status?: ProjectStatus;
+}
+
+/**
+ * Audit log query parameters
+ * Used in: GET /api/admin/audit
+ */
+export interface ModerationActionsQueryParams extends PaginationQueryParams {
+  action?: ModerationAction;
+  target_id?: string;
+}
+
+/**
+ * Report triage queue query parameters
+ * Used in: GET /api/admin/reports
+ */
+export interface ContentReportsQueryParams extends PaginationQueryParams {
+  status?: ReportStatus;
+  target_type?: ReportTargetType;
+}
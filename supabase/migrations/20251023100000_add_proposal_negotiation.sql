@@ -0,0 +1,155 @@
+-- migration: add_proposal_negotiation
+-- description: adds a negotiation thread to proposals - versioned artisan revisions and client counter-offers
+-- impacted_tables: proposals, proposal_revisions, proposal_counter_offers, projects
+-- special_notes: the first revision of every proposal is created by a trigger, so existing proposals are backfilled here.
+--                later revisions are stored by revise_proposal(), which updates the proposal and inserts the revision
+--                in one transaction. revisions are only written by the database, so users cannot fake the history.
+
+-- track which revision of a proposal is current (denormalized from proposal_revisions for cheap reads)
+alter table public.proposals
+    add column current_revision integer not null default 1;
+
+-- remember which revision of the accepted proposal was locked in by the client
+alter table public.projects
+    add column accepted_revision integer;
+
+-- proposal_revisions table
+-- every version of an artisan's offer (price and attachment); revision 1 is the original proposal.
+create table public.proposal_revisions (
+    id uuid not null primary key default gen_random_uuid(),
+    proposal_id uuid not null references public.proposals(id) on delete cascade,
+    revision_number integer not null,
+    price numeric(10, 2) not null,
+    attachment_url text,
+    note text,
+    created_at timestamptz not null default now(),
+    unique (proposal_id, revision_number)
+);
+
+-- proposal_counter_offers table
+-- counter-prices sent by the project owner to the artisan.
+create table public.proposal_counter_offers (
+    id uuid not null primary key default gen_random_uuid(),
+    proposal_id uuid not null references public.proposals(id) on delete cascade,
+    client_id uuid not null references public.users(id) on delete cascade,
+    price numeric(10, 2) not null check (price > 0),
+    note text,
+    created_at timestamptz not null default now()
+);
+
+-- enable row level security
+alter table public.proposal_revisions enable row level security;
+alter table public.proposal_counter_offers enable row level security;
+
+-- security definer helper: is the current user the owner of the project the proposal belongs to
+-- (bypasses rls on projects/proposals to avoid policy recursion, see 20251019140000_fix_rls_security_definer.sql)
+create or replace function public.user_owns_proposal_project(proposal_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return exists (
+    select 1
+    from public.proposals
+    join public.projects on projects.id = proposals.project_id
+    where proposals.id = user_owns_proposal_project.proposal_id
+    and projects.client_id = auth.uid()
+  );
+end;
+$$;
+
+grant execute on function public.user_owns_proposal_project(uuid) to authenticated;
+
+-- rls policies for proposal_revisions
+-- the proposing artisan and the project owner can read the revision history.
+create policy "allow negotiation parties to read revisions" on public.proposal_revisions for select
+    using (
+        exists (select 1 from public.proposals where id = proposal_id and artisan_id = auth.uid())
+        or public.user_owns_proposal_project(proposal_id)
+    );
+-- no insert policy: revisions are added by the on_proposal_created trigger and by revise_proposal() only.
+
+-- rls policies for proposal_counter_offers
+-- the proposing artisan and the project owner can read counter-offers.
+create policy "allow negotiation parties to read counter-offers" on public.proposal_counter_offers for select
+    using (
+        exists (select 1 from public.proposals where id = proposal_id and artisan_id = auth.uid())
+        or public.user_owns_proposal_project(proposal_id)
+    );
+-- only the project owner can send counter-offers.
+create policy "allow project owners to send counter-offers" on public.proposal_counter_offers for insert
+    with check (auth.uid() = client_id and public.user_owns_proposal_project(proposal_id));
+
+-- stores a new revision of the caller's proposal and makes it current, atomically
+-- security definer: writes the revision past rls, so it only revises proposals of the caller on open projects.
+-- base_revision is the revision the artisan revised; a proposal changed in the meantime, of another artisan or on a
+-- project that is no longer open raises 'Proposal revision conflict' (P0001) and nothing is written.
+create or replace function public.revise_proposal(
+  proposal_id uuid,
+  base_revision integer,
+  new_price numeric,
+  new_attachment_url text,
+  revision_note text default null
+)
+returns public.proposal_revisions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  next_revision integer;
+  revision public.proposal_revisions;
+begin
+  update public.proposals
+  set price = new_price,
+      attachment_url = new_attachment_url,
+      current_revision = base_revision + 1
+  where id = revise_proposal.proposal_id
+    and artisan_id = auth.uid()
+    and current_revision = base_revision
+    and exists (select 1 from public.projects where projects.id = proposals.project_id and projects.status = 'open')
+  returning current_revision into next_revision;
+
+  if not found then
+    raise exception 'Proposal revision conflict' using errcode = 'P0001';
+  end if;
+
+  insert into public.proposal_revisions (proposal_id, revision_number, price, attachment_url, note)
+  values (revise_proposal.proposal_id, next_revision, new_price, new_attachment_url, revision_note)
+  returning * into revision;
+
+  return revision;
+end;
+$$;
+
+grant execute on function public.revise_proposal(uuid, integer, numeric, text, text) to authenticated;
+
+-- create the initial revision whenever a proposal is inserted
+create or replace function public.handle_new_proposal()
+returns trigger as $$
+begin
+  insert into public.proposal_revisions (proposal_id, revision_number, price, attachment_url, note, created_at)
+  values (new.id, 1, new.price, new.attachment_url, new.message, new.created_at);
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create or replace trigger on_proposal_created
+  after insert on public.proposals
+  for each row execute function public.handle_new_proposal();
+
+-- backfill revision 1 for proposals created before this migration
+insert into public.proposal_revisions (proposal_id, revision_number, price, attachment_url, note, created_at)
+select id, 1, price, attachment_url, message, created_at
+from public.proposals
+on conflict (proposal_id, revision_number) do nothing;
+
+-- lock the revision of proposals that were already accepted
+update public.projects set accepted_revision = 1 where accepted_proposal_id is not null;
+
+-- indexes
+create index on public.proposal_revisions (proposal_id);
+create index on public.proposal_counter_offers (proposal_id);
@@ -0,0 +1,184 @@
+-- migration: add_proposal_status
+-- description: adds a lifecycle to proposals - pending, accepted, withdrawn by the artisan, rejected by the client
+--              (with an optional reason) and auto-rejected when another proposal is accepted
+-- impacted_tables: proposals
+-- special_notes: existing proposals are backfilled from projects.accepted_proposal_id. project owners and artisans can
+--                only change the status of a proposal directly (protect_proposal_columns); artisans change its terms
+--                through revise_proposal(), which now only revises pending proposals. accepting a proposal goes
+--                through accept_proposal(), which updates the project and every proposal in one transaction.
+
+-- proposal lifecycle
+create type public.proposal_status as enum ('pending', 'accepted', 'withdrawn', 'rejected', 'auto_rejected');
+
+alter table public.proposals
+    add column status public.proposal_status not null default 'pending',
+    add column rejection_reason text,
+    add column status_changed_at timestamptz;
+
+-- rls policies for proposals
+-- allows clients to accept or reject proposals submitted to their own projects.
+create policy "allow clients to update proposals on their projects" on public.proposals for update
+    using (public.user_owns_proposal_project(id))
+    with check (public.user_owns_proposal_project(id));
+
+-- project owners decide about proposals but cannot change their terms; artisans can only withdraw their proposals
+-- and change their terms through revise_proposal(). updates of anyone else are left to rls.
+-- security invoker: only guards direct updates of signed-in users (current_user 'authenticated'), not updates made
+-- by security definer functions.
+create or replace function public.protect_proposal_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user <> 'authenticated' then
+    return new;
+  end if;
+
+  if auth.uid() = old.artisan_id then
+    if (to_jsonb(new) - array['status', 'status_changed_at'])
+       is distinct from (to_jsonb(old) - array['status', 'status_changed_at']) then
+      raise exception 'Artisans can only change the status of a proposal' using errcode = '42501';
+    end if;
+
+    if new.status is distinct from old.status and (old.status <> 'pending' or new.status <> 'withdrawn') then
+      raise exception 'Artisans can only withdraw pending proposals' using errcode = '42501';
+    end if;
+
+    return new;
+  end if;
+
+  if not public.user_owns_proposal_project(old.id) then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - array['status', 'rejection_reason', 'status_changed_at'])
+     is distinct from (to_jsonb(old) - array['status', 'rejection_reason', 'status_changed_at']) then
+    raise exception 'Project owners can only change the status of a proposal' using errcode = '42501';
+  end if;
+
+  if new.status is distinct from old.status
+     and (old.status <> 'pending' or new.status not in ('accepted', 'rejected', 'auto_rejected')) then
+    raise exception 'Project owners can only accept or reject pending proposals' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger protect_proposal_columns
+  before update on public.proposals
+  for each row execute function public.protect_proposal_columns();
+
+-- only pending proposals can be revised; withdrawn, rejected and accepted proposals keep their last revision
+create or replace function public.revise_proposal(
+  proposal_id uuid,
+  base_revision integer,
+  new_price numeric,
+  new_attachment_url text,
+  revision_note text default null
+)
+returns public.proposal_revisions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  next_revision integer;
+  revision public.proposal_revisions;
+begin
+  update public.proposals
+  set price = new_price,
+      attachment_url = new_attachment_url,
+      current_revision = base_revision + 1
+  where id = revise_proposal.proposal_id
+    and artisan_id = auth.uid()
+    and status = 'pending'
+    and current_revision = base_revision
+    and exists (select 1 from public.projects where projects.id = proposals.project_id and projects.status = 'open')
+  returning current_revision into next_revision;
+
+  if not found then
+    raise exception 'Proposal revision conflict' using errcode = 'P0001';
+  end if;
+
+  insert into public.proposal_revisions (proposal_id, revision_number, price, attachment_url, note)
+  values (revise_proposal.proposal_id, next_revision, new_price, new_attachment_url, revision_note)
+  returning * into revision;
+
+  return revision;
+end;
+$$;
+
+-- accepts a proposal: moves the project to in_progress, locks the accepted revision and price, marks the proposal
+-- accepted and auto-rejects the remaining pending proposals, all or nothing.
+-- security invoker: runs under the client's rls. raises 'Proposal cannot be accepted' (P0001) when the project is
+-- no longer open, or the proposal is no longer pending or was revised after accepted_revision.
+create or replace function public.accept_proposal(
+  project_id uuid,
+  proposal_id uuid,
+  accepted_revision integer
+)
+returns public.projects
+language plpgsql
+set search_path = public
+as $$
+declare
+  offered_price numeric;
+  changed_at timestamptz := now();
+  project public.projects;
+begin
+  update public.proposals
+  set status = 'accepted', status_changed_at = changed_at
+  where id = accept_proposal.proposal_id
+    and proposals.project_id = accept_proposal.project_id
+    and status = 'pending'
+    and current_revision = accept_proposal.accepted_revision
+  returning price into offered_price;
+
+  if not found then
+    raise exception 'Proposal cannot be accepted' using errcode = 'P0001';
+  end if;
+
+  update public.projects
+  set status = 'in_progress',
+      accepted_proposal_id = accept_proposal.proposal_id,
+      accepted_price = offered_price,
+      accepted_revision = accept_proposal.accepted_revision,
+      updated_at = changed_at
+  where id = accept_proposal.project_id
+    and client_id = auth.uid()
+    and status = 'open'
+  returning * into project;
+
+  if not found then
+    raise exception 'Proposal cannot be accepted' using errcode = 'P0001';
+  end if;
+
+  update public.proposals
+  set status = 'auto_rejected', status_changed_at = changed_at
+  where proposals.project_id = accept_proposal.project_id
+    and status = 'pending';
+
+  return project;
+end;
+$$;
+
+grant execute on function public.accept_proposal(uuid, uuid, integer) to authenticated;
+
+-- backfill: accepted proposals
+update public.proposals
+set status = 'accepted', status_changed_at = projects.updated_at
+from public.projects
+where projects.accepted_proposal_id = proposals.id;
+
+-- backfill: every other proposal on a project that already has an accepted one lost the bid
+update public.proposals
+set status = 'auto_rejected', status_changed_at = projects.updated_at
+from public.projects
+where projects.id = proposals.project_id
+and projects.accepted_proposal_id is not null
+and projects.accepted_proposal_id <> proposals.id;
+
+-- indexes
+create index on public.proposals (artisan_id, status);
@@ -0,0 +1,200 @@
+-- migration: add_project_milestones
+-- description: adds milestones with staged payments to projects in progress (e.g. design approval, frame built,
+--              finishing, delivery); the artisan submits each milestone and the client approves it
+-- impacted_tables: project_milestones
+-- special_notes: the sum of milestone amounts must equal projects.accepted_price and a project with milestones can
+--                only be completed once all of them are approved - checked by MilestoneService and ProjectService,
+--                enforced by set_milestone_plan() and protect_project_completion.
+--                the artisan replaces the plan through set_milestone_plan() and can only move a milestone from pending
+--                to submitted; only the project owner can approve it (policies + protect_milestone_transitions)
+
+-- milestone lifecycle
+create type public.milestone_status as enum ('pending', 'submitted', 'approved');
+
+-- project_milestones table
+-- checkpoints of an accepted proposal, each worth a share of the accepted price.
+create table public.project_milestones (
+    id uuid not null primary key default gen_random_uuid(),
+    project_id uuid not null references public.projects(id) on delete cascade,
+    proposal_id uuid not null references public.proposals(id) on delete cascade,
+    position integer not null check (position > 0),
+    title text not null,
+    amount numeric(10, 2) not null check (amount > 0),
+    due_date date,
+    status public.milestone_status not null default 'pending',
+    submitted_at timestamptz,
+    approved_at timestamptz,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    unique (project_id, position)
+);
+
+-- enable row level security
+alter table public.project_milestones enable row level security;
+
+-- security definer helper: is the current user the artisan whose proposal was accepted for the project
+-- (bypasses rls on projects/proposals to avoid policy recursion, see 20251019140000_fix_rls_security_definer.sql)
+create or replace function public.user_is_accepted_artisan(project_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return exists (
+    select 1
+    from public.projects
+    join public.proposals on proposals.id = projects.accepted_proposal_id
+    where projects.id = user_is_accepted_artisan.project_id
+    and proposals.artisan_id = auth.uid()
+  );
+end;
+$$;
+
+grant execute on function public.user_is_accepted_artisan(uuid) to authenticated;
+
+-- rls policies for project_milestones
+-- the project owner and the accepted artisan can read milestones.
+create policy "allow project parties to read milestones" on public.project_milestones for select
+    using (
+        exists (select 1 from public.projects where id = project_id and client_id = auth.uid())
+        or public.user_is_accepted_artisan(project_id)
+    );
+-- the accepted artisan plans milestones while none of them has been submitted, and submits them for approval.
+create policy "allow accepted artisan to plan milestones" on public.project_milestones for insert
+    with check (
+        public.user_is_accepted_artisan(project_id)
+        and status = 'pending'
+        and submitted_at is null
+        and approved_at is null
+    );
+create policy "allow accepted artisan to remove pending milestones" on public.project_milestones for delete
+    using (public.user_is_accepted_artisan(project_id) and status = 'pending');
+create policy "allow accepted artisan to submit milestones" on public.project_milestones for update
+    using (public.user_is_accepted_artisan(project_id) and status = 'pending')
+    with check (public.user_is_accepted_artisan(project_id) and status = 'submitted');
+-- the project owner approves submitted milestones.
+create policy "allow project owners to approve milestones" on public.project_milestones for update
+    using (
+        status = 'submitted'
+        and exists (select 1 from public.projects where id = project_id and client_id = auth.uid())
+    )
+    with check (
+        status = 'approved'
+        and exists (select 1 from public.projects where id = project_id and client_id = auth.uid())
+    );
+
+-- an update moves a milestone to its next status and sets its timestamp, nothing else.
+-- security invoker: only guards direct updates of signed-in users (current_user 'authenticated').
+create or replace function public.protect_milestone_transitions()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  changeable text[];
+begin
+  if current_user <> 'authenticated' then
+    return new;
+  end if;
+
+  if new.status = 'submitted' then
+    changeable := array['status', 'submitted_at', 'updated_at'];
+  else
+    changeable := array['status', 'approved_at', 'updated_at'];
+  end if;
+
+  if new.status = old.status
+     or (to_jsonb(new) - changeable) is distinct from (to_jsonb(old) - changeable) then
+    raise exception 'Milestones can only move to their next status' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger protect_milestone_transitions
+  before update on public.project_milestones
+  for each row execute function public.protect_milestone_transitions();
+
+-- replaces the milestone plan of a project in one transaction. milestones is a json array of
+-- { title, amount, due_date } objects in execution order.
+-- security invoker: runs under the artisan's rls. raises 'Milestone plan is locked' (P0001) once a milestone
+-- has been submitted and 'Milestone amounts must add up to the accepted price' (22023).
+create or replace function public.set_milestone_plan(project_id uuid, proposal_id uuid, milestones jsonb)
+returns setof public.project_milestones
+language plpgsql
+set search_path = public
+as $$
+declare
+  project_price numeric;
+  planned_total numeric;
+begin
+  select projects.accepted_price
+  into project_price
+  from public.projects
+  where projects.id = set_milestone_plan.project_id;
+
+  select coalesce(sum(plan.amount), 0)
+  into planned_total
+  from jsonb_to_recordset(set_milestone_plan.milestones) as plan(amount numeric);
+
+  if project_price is null or planned_total <> project_price then
+    raise exception 'Milestone amounts must add up to the accepted price' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from public.project_milestones
+    where project_milestones.project_id = set_milestone_plan.project_id
+    and status <> 'pending'
+  ) then
+    raise exception 'Milestone plan is locked' using errcode = 'P0001';
+  end if;
+
+  delete from public.project_milestones
+  where project_milestones.project_id = set_milestone_plan.project_id;
+
+  return query
+  with inserted as (
+    insert into public.project_milestones (project_id, proposal_id, position, title, amount, due_date)
+    select set_milestone_plan.project_id, set_milestone_plan.proposal_id, plan.position::integer, plan.title,
+           plan.amount, plan.due_date
+    from rows from (jsonb_to_recordset(set_milestone_plan.milestones) as (title text, amount numeric, due_date date))
+         with ordinality as plan(title, amount, due_date, position)
+    returning *
+  )
+  select * from inserted order by inserted.position;
+end;
+$$;
+
+grant execute on function public.set_milestone_plan(uuid, uuid, jsonb) to authenticated;
+
+-- a project with milestones can only be completed once every milestone is approved
+create or replace function public.protect_project_completion()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = 'completed'
+     and old.status <> 'completed'
+     and exists (
+       select 1
+       from public.project_milestones
+       where project_milestones.project_id = new.id
+       and project_milestones.status <> 'approved'
+     ) then
+    raise exception 'Every milestone must be approved before the project is completed' using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger protect_project_completion
+  before update on public.projects
+  for each row execute function public.protect_project_completion();
+
+-- indexes
+create index on public.project_milestones (project_id);
@@ -0,0 +1,175 @@
+-- migration: add_project_events
+-- description: adds an append-only event log (audit trail) of project mutations: creation, proposals received,
+--              proposal acceptance, status transitions and reviews posted
+-- impacted_tables: project_events
+-- special_notes: events are written by triggers only (actor = auth.uid()), clients cannot insert, update or delete
+--                them. the role the actor had at the time of the event is recorded with it (actor_role).
+--                history of existing projects is backfilled from their timestamps; projects keep no completion
+--                timestamp, so a closed project with an accepted proposal is backfilled through completed only when it
+--                has reviews (reviews are posted on completed projects), otherwise with an unknown from_status.
+
+-- kinds of recorded project events
+create type public.project_event_type as enum (
+    'created',
+    'proposal_received',
+    'proposal_accepted',
+    'status_changed',
+    'review_posted'
+);
+
+-- project_events table
+-- one row per project mutation, with the actor and the status before and after the change.
+create table public.project_events (
+    id uuid not null primary key default gen_random_uuid(),
+    project_id uuid not null references public.projects(id) on delete cascade,
+    event_type public.project_event_type not null,
+    actor_id uuid references public.users(id) on delete set null,
+    actor_role public.user_role,
+    from_status public.project_status,
+    to_status public.project_status,
+    proposal_id uuid references public.proposals(id) on delete set null,
+    review_id uuid references public.reviews(id) on delete set null,
+    created_at timestamptz not null default now()
+);
+
+-- enable row level security
+alter table public.project_events enable row level security;
+
+-- rls policies for project_events
+-- the project owner and the accepted artisan can read the history of the project.
+-- there are no insert/update/delete policies: the log is written by the security definer triggers below.
+create policy "allow project parties to read project events" on public.project_events for select
+    using (
+        exists (select 1 from public.projects where id = project_id and client_id = auth.uid())
+        or public.user_is_accepted_artisan(project_id)
+    );
+
+-- record the role of the actor; users can read only their own role, so it is stored with the event
+create or replace function public.set_project_event_actor_role()
+returns trigger as $$
+begin
+  select role into new.actor_role from public.users where id = new.actor_id;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger set_project_event_actor_role
+  before insert on public.project_events
+  for each row execute function public.set_project_event_actor_role();
+
+-- record project creation
+create or replace function public.handle_project_created()
+returns trigger as $$
+begin
+  insert into public.project_events (project_id, event_type, actor_id, to_status, created_at)
+  values (new.id, 'created', coalesce(auth.uid(), new.client_id), new.status, new.created_at);
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create or replace trigger on_project_created_log_event
+  after insert on public.projects
+  for each row execute function public.handle_project_created();
+
+-- record status transitions; a transition that sets the accepted proposal is logged as its acceptance
+create or replace function public.handle_project_status_changed()
+returns trigger as $$
+begin
+  if new.status is distinct from old.status then
+    if new.accepted_proposal_id is not null and new.accepted_proposal_id is distinct from old.accepted_proposal_id then
+      insert into public.project_events (project_id, event_type, actor_id, from_status, to_status, proposal_id)
+      values (new.id, 'proposal_accepted', auth.uid(), old.status, new.status, new.accepted_proposal_id);
+    else
+      insert into public.project_events (project_id, event_type, actor_id, from_status, to_status)
+      values (new.id, 'status_changed', auth.uid(), old.status, new.status);
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create or replace trigger on_project_status_changed_log_event
+  after update on public.projects
+  for each row execute function public.handle_project_status_changed();
+
+-- record proposals received
+create or replace function public.handle_proposal_received()
+returns trigger as $$
+begin
+  insert into public.project_events (project_id, event_type, actor_id, proposal_id, created_at)
+  values (new.project_id, 'proposal_received', coalesce(auth.uid(), new.artisan_id), new.id, new.created_at);
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create or replace trigger on_proposal_created_log_event
+  after insert on public.proposals
+  for each row execute function public.handle_proposal_received();
+
+-- record reviews posted
+create or replace function public.handle_review_posted()
+returns trigger as $$
+begin
+  insert into public.project_events (project_id, event_type, actor_id, review_id, created_at)
+  values (new.project_id, 'review_posted', coalesce(auth.uid(), new.reviewer_id), new.id, new.created_at);
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create or replace trigger on_review_created_log_event
+  after insert on public.reviews
+  for each row execute function public.handle_review_posted();
+
+-- backfill the history of projects created before this migration
+insert into public.project_events (project_id, event_type, actor_id, to_status, created_at)
+select id, 'created', client_id, 'open', created_at
+from public.projects;
+
+insert into public.project_events (project_id, event_type, actor_id, proposal_id, created_at)
+select project_id, 'proposal_received', artisan_id, id, created_at
+from public.proposals;
+
+-- acceptance time is unknown for existing projects, updated_at is the best approximation
+insert into public.project_events (project_id, event_type, actor_id, from_status, to_status, proposal_id, created_at)
+select id, 'proposal_accepted', client_id, 'open', 'in_progress', accepted_proposal_id, updated_at
+from public.projects
+where accepted_proposal_id is not null;
+
+-- completion time is unknown as well: the first review of the project is the closest bound we have for closed
+-- projects, updated_at for projects still completed
+insert into public.project_events (project_id, event_type, actor_id, from_status, to_status, created_at)
+select projects.id, 'status_changed', projects.client_id, 'in_progress', 'completed',
+       case when projects.status = 'completed' then projects.updated_at else first_review.created_at end
+from public.projects
+left join lateral (
+    select min(reviews.created_at) as created_at
+    from public.reviews
+    where reviews.project_id = projects.id
+) first_review on true
+where projects.accepted_proposal_id is not null
+and (projects.status = 'completed' or (projects.status = 'closed' and first_review.created_at is not null));
+
+-- an open project can only be closed; a closed project with an accepted proposal and no reviews was closed either
+-- in progress or after completion, so its origin is left unknown
+insert into public.project_events (project_id, event_type, actor_id, from_status, to_status, created_at)
+select projects.id, 'status_changed', projects.client_id,
+       case
+           when projects.accepted_proposal_id is null then 'open'::public.project_status
+           when exists (select 1 from public.reviews where reviews.project_id = projects.id)
+               then 'completed'::public.project_status
+       end,
+       'closed', projects.updated_at
+from public.projects
+where projects.status = 'closed';
+
+insert into public.project_events (project_id, event_type, actor_id, review_id, created_at)
+select project_id, 'review_posted', reviewer_id, id, created_at
+from public.reviews;
+
+-- indexes
+create index on public.project_events (project_id, created_at);
@@ -0,0 +1,76 @@
+-- migration: add_notifications
+-- description: adds in-app notifications about marketplace events (new proposal, proposal accepted,
+--              project status changed, review received)
+-- impacted_tables: notifications
+-- special_notes: notifications are created by the user who triggers the event for the other party of the project,
+--                so the insert policy only allows the project owner and an artisan with a proposal on the project to
+--                notify each other (artisans bidding on the same project cannot notify one another)
+
+-- kinds of notifications
+create type public.notification_type as enum (
+    'proposal_received',
+    'proposal_accepted',
+    'project_status_changed',
+    'review_received'
+);
+
+-- notifications table
+-- one row per notification delivered to a user; read_at is null until the user marks it as read.
+create table public.notifications (
+    id uuid not null primary key default gen_random_uuid(),
+    user_id uuid not null references public.users(id) on delete cascade,
+    actor_id uuid references public.users(id) on delete set null,
+    type public.notification_type not null,
+    project_id uuid references public.projects(id) on delete cascade,
+    title text not null,
+    message text not null,
+    read_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+-- enable row level security
+alter table public.notifications enable row level security;
+
+-- security definer helper: are the current user and the given user the owner of the project and an artisan with
+-- a proposal on it (in either direction)
+create or replace function public.user_shares_project(project_id uuid, other_user_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return exists (
+    select 1
+    from public.projects
+    join public.proposals on proposals.project_id = projects.id
+    where projects.id = user_shares_project.project_id
+    and (
+      (projects.client_id = auth.uid() and proposals.artisan_id = user_shares_project.other_user_id)
+      or (projects.client_id = user_shares_project.other_user_id and proposals.artisan_id = auth.uid())
+    )
+  );
+end;
+$$;
+
+grant execute on function public.user_shares_project(uuid, uuid) to authenticated;
+
+-- rls policies for notifications
+-- users can read their own notifications.
+create policy "allow users to read their own notifications" on public.notifications for select
+    using (auth.uid() = user_id);
+-- users can mark their own notifications as read.
+create policy "allow users to update their own notifications" on public.notifications for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+-- the project owner and its bidding artisans can notify each other, always as themselves.
+create policy "allow project parties to notify each other" on public.notifications for insert
+    with check (
+        auth.uid() = actor_id
+        and project_id is not null
+        and public.user_shares_project(project_id, user_id)
+    );
+
+-- indexes
+create index on public.notifications (user_id, created_at desc);
+create index on public.notifications (user_id) where read_at is null;
@@ -0,0 +1,106 @@
+-- migration: add_email_preferences
+-- description: adds per-event email opt-out preferences and a helper deciding whether the other party of a
+--              project receives a transactional email
+-- impacted_tables: email_preferences
+-- special_notes: users without a row in email_preferences receive all emails (opt-out model).
+--                can_send_event_email only allows the one recipient of the event the caller can trigger (e.g. an
+--                artisan can only email the owner of a project they bid on, for proposal_received) and respects
+--                opt-outs. email addresses live in auth.users and are never exposed to users: the server reads
+--                them with the service role key (SUPABASE_SERVICE_ROLE_KEY).
+
+-- kinds of transactional emails
+create type public.email_event as enum (
+    'proposal_received',
+    'proposal_accepted',
+    'project_completed',
+    'review_request'
+);
+
+-- email_preferences table
+-- one row per user, one flag per email event; true means the user wants to receive the email.
+create table public.email_preferences (
+    user_id uuid not null primary key references public.users(id) on delete cascade,
+    proposal_received boolean not null default true,
+    proposal_accepted boolean not null default true,
+    project_completed boolean not null default true,
+    review_request boolean not null default true,
+    updated_at timestamptz not null default now()
+);
+
+-- enable row level security
+alter table public.email_preferences enable row level security;
+
+-- rls policies for email_preferences
+-- users manage only their own preferences.
+create policy "allow users to read their own email preferences" on public.email_preferences for select
+    using (auth.uid() = user_id);
+create policy "allow users to create their own email preferences" on public.email_preferences for insert
+    with check (auth.uid() = user_id);
+create policy "allow users to update their own email preferences" on public.email_preferences for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+-- security definer helper: may the caller send the email of an event to the recipient. false if the caller cannot
+-- trigger the event, the recipient is not the one the event goes to, or the recipient opted out.
+--   proposal_received - an artisan with a proposal on the project emails the project owner
+--   proposal_accepted - the project owner emails the artisan of the accepted proposal
+--   project_completed - the owner of a completed project emails the artisan of the accepted proposal
+--   review_request    - the owner of a completed project is asked for a review
+-- the address itself is never returned; the server reads it from auth.users with the service role key.
+create or replace function public.can_send_event_email(project_id uuid, recipient_id uuid, event public.email_event)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  project public.projects;
+  accepted_artisan_id uuid;
+  expected_recipient_id uuid;
+  opted_in boolean;
+begin
+  select * into project from public.projects where projects.id = can_send_event_email.project_id;
+
+  if not found then
+    return false;
+  end if;
+
+  select artisan_id into accepted_artisan_id from public.proposals where proposals.id = project.accepted_proposal_id;
+
+  expected_recipient_id := case
+    when can_send_event_email.event = 'proposal_received'
+         and exists (
+             select 1 from public.proposals
+             where proposals.project_id = project.id and proposals.artisan_id = auth.uid()
+         )
+      then project.client_id
+    when can_send_event_email.event = 'proposal_accepted' and project.client_id = auth.uid()
+      then accepted_artisan_id
+    when can_send_event_email.event = 'project_completed' and project.client_id = auth.uid()
+         and project.status = 'completed'
+      then accepted_artisan_id
+    when can_send_event_email.event = 'review_request' and project.client_id = auth.uid()
+         and project.status = 'completed'
+      then project.client_id
+  end;
+
+  if expected_recipient_id is distinct from can_send_event_email.recipient_id then
+    return false;
+  end if;
+
+  select case can_send_event_email.event
+           when 'proposal_received' then prefs.proposal_received
+           when 'proposal_accepted' then prefs.proposal_accepted
+           when 'project_completed' then prefs.project_completed
+           when 'review_request' then prefs.review_request
+         end
+  into opted_in
+  from public.email_preferences prefs
+  where prefs.user_id = can_send_event_email.recipient_id;
+
+  return opted_in is distinct from false;
+end;
+$$;
+
+grant execute on function public.can_send_event_email(uuid, uuid, public.email_event) to authenticated;
@@ -0,0 +1,183 @@
+-- migration: add_saved_searches
+-- description: lets artisans save marketplace filter combinations and alerts them about new matching projects
+-- impacted_tables: saved_searches, specialization_scopes, notifications (new notification type)
+-- special_notes: saved searches are private, so the client creating a project cannot read them.
+--                create_saved_search_alerts is a security definer function called right after a project is
+--                created; it matches the project against all saved searches and inserts the alerts itself.
+--                project budgets are still free text (budget_range), the numbers found in it are used as its range.
+
+-- new notification type for saved search alerts
+alter type public.notification_type add value 'saved_search_match';
+
+-- specialization_scopes table
+-- the categories and materials each specialization covers, used when a saved search is narrowed to a
+-- specialization. a specialization without scopes (e.g. "Renowacja mebli") does not narrow the search.
+create table public.specialization_scopes (
+    id uuid not null primary key default gen_random_uuid(),
+    specialization_id uuid not null references public.specializations(id) on delete cascade,
+    category_id uuid references public.categories(id) on delete cascade,
+    material_id uuid references public.materials(id) on delete cascade,
+    constraint specialization_scopes_target_check check ((category_id is null) <> (material_id is null))
+);
+
+-- enable row level security
+alter table public.specialization_scopes enable row level security;
+
+-- rls policies for specialization_scopes
+-- dictionary data, readable by any authenticated user.
+create policy "allow authenticated read access to specialization scopes" on public.specialization_scopes for select
+    using (auth.role() = 'authenticated');
+
+-- seed scopes of the specializations that map onto categories or materials
+insert into public.specialization_scopes (specialization_id, category_id)
+select specializations.id, categories.id
+from (values
+    ('Krzesła i fotele', 'Krzesła'),
+    ('Krzesła i fotele', 'Fotele'),
+    ('Stoły i biurka', 'Stoły'),
+    ('Stoły i biurka', 'Biurka'),
+    ('Stoły i biurka', 'Stoliki kawowe'),
+    ('Szafy i meble przechowalne', 'Szafy'),
+    ('Szafy i meble przechowalne', 'Komody'),
+    ('Szafy i meble przechowalne', 'Regały'),
+    ('Szafy i meble przechowalne', 'Szafki nocne'),
+    ('Szafy i meble przechowalne', 'Witryny'),
+    ('Meble tapicerowane', 'Fotele'),
+    ('Meble tapicerowane', 'Łóżka'),
+    ('Meble ogrodowe', 'Ławki')
+) as scopes (specialization_name, category_name)
+join public.specializations on specializations.name = scopes.specialization_name
+join public.categories on categories.name = scopes.category_name;
+
+insert into public.specialization_scopes (specialization_id, material_id)
+select specializations.id, materials.id
+from (values
+    ('Meble tapicerowane', 'Tkanina'),
+    ('Meble tapicerowane', 'Skóra naturalna'),
+    ('Meble tapicerowane', 'Skóra ekologiczna'),
+    ('Meble metalowe', 'Metal'),
+    ('Meble metalowe', 'Stal'),
+    ('Meble metalowe', 'Aluminium'),
+    ('Meble szklane', 'Szkło'),
+    ('Meble ogrodowe', 'Ratan'),
+    ('Meble ogrodowe', 'Wiklina')
+) as scopes (specialization_name, material_name)
+join public.specializations on specializations.name = scopes.specialization_name
+join public.materials on materials.name = scopes.material_name;
+
+-- saved_searches table
+-- a filter combination saved by an artisan; every criterion is optional (null means "any").
+create table public.saved_searches (
+    id uuid not null primary key default gen_random_uuid(),
+    artisan_id uuid not null references public.users(id) on delete cascade,
+    name text not null,
+    query text,
+    category_id uuid references public.categories(id) on delete cascade,
+    material_id uuid references public.materials(id) on delete cascade,
+    specialization_id uuid references public.specializations(id) on delete set null,
+    budget_min numeric(10, 2) check (budget_min >= 0),
+    budget_max numeric(10, 2) check (budget_max >= 0),
+    alerts_enabled boolean not null default true,
+    created_at timestamptz not null default now(),
+    constraint saved_searches_budget_check check (budget_min is null or budget_max is null or budget_min <= budget_max)
+);
+
+-- enable row level security
+alter table public.saved_searches enable row level security;
+
+-- rls policies for saved_searches
+-- artisans manage only their own saved searches.
+create policy "allow artisans to read their own saved searches" on public.saved_searches for select
+    using (auth.uid() = artisan_id);
+create policy "allow artisans to create their own saved searches" on public.saved_searches for insert
+    with check (
+        auth.uid() = artisan_id
+        and exists (select 1 from public.users where users.id = auth.uid() and users.role = 'artisan')
+    );
+create policy "allow artisans to update their own saved searches" on public.saved_searches for update
+    using (auth.uid() = artisan_id)
+    with check (auth.uid() = artisan_id);
+create policy "allow artisans to delete their own saved searches" on public.saved_searches for delete
+    using (auth.uid() = artisan_id);
+
+-- index for listing the saved searches of an artisan
+create index idx_saved_searches_artisan_id on public.saved_searches(artisan_id, created_at desc);
+
+-- security definer function: alerts every artisan with a saved search matching the given project.
+-- only the owner of an open project can trigger the alerts; each artisan gets at most one alert per project.
+-- returns the number of alerted artisans.
+create or replace function public.create_saved_search_alerts(project_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target record;
+  project_budget_min numeric;
+  project_budget_max numeric;
+  alerts_count integer;
+begin
+  select projects.id, projects.client_id, projects.status, projects.category_id, projects.material_id,
+         projects.budget_range,
+         concat_ws(' ', generated_images.prompt, categories.name, materials.name) as searchable_text
+  into target
+  from public.projects
+  left join public.generated_images on generated_images.id = projects.generated_image_id
+  left join public.categories on categories.id = projects.category_id
+  left join public.materials on materials.id = projects.material_id
+  where projects.id = create_saved_search_alerts.project_id;
+
+  if target.id is null or target.client_id <> auth.uid() or target.status <> 'open' then
+    return 0;
+  end if;
+
+  -- "1 000 - 2 000 PLN" -> 1000..2000, "do 1500 zł" -> 1500..1500
+  select min(numbers.value), max(numbers.value)
+  into project_budget_min, project_budget_max
+  from (
+    select (match[1])::numeric as value
+    from regexp_matches(regexp_replace(coalesce(target.budget_range, ''), '(\d)\s+(?=\d)', '\1', 'g'), '(\d+)', 'g')
+      as match
+  ) numbers;
+
+  insert into public.notifications (user_id, actor_id, type, project_id, title, message)
+  select distinct on (saved_searches.artisan_id)
+         saved_searches.artisan_id,
+         target.client_id,
+         'saved_search_match',
+         target.id,
+         'Nowy projekt dla Ciebie',
+         format('Nowy projekt pasuje do Twojego wyszukiwania „%s”.', saved_searches.name)
+  from public.saved_searches
+  where saved_searches.alerts_enabled
+    and saved_searches.artisan_id <> target.client_id
+    and (saved_searches.category_id is null or saved_searches.category_id = target.category_id)
+    and (saved_searches.material_id is null or saved_searches.material_id = target.material_id)
+    and (
+      saved_searches.query is null
+      or position(lower(saved_searches.query) in lower(target.searchable_text)) > 0
+    )
+    and (
+      saved_searches.specialization_id is null
+      or not exists (
+        select 1 from public.specialization_scopes scopes
+        where scopes.specialization_id = saved_searches.specialization_id
+      )
+      or exists (
+        select 1 from public.specialization_scopes scopes
+        where scopes.specialization_id = saved_searches.specialization_id
+        and (scopes.category_id = target.category_id or scopes.material_id = target.material_id)
+      )
+    )
+    and (saved_searches.budget_min is null or project_budget_max is null or project_budget_max >= saved_searches.budget_min)
+    and (saved_searches.budget_max is null or project_budget_min is null or project_budget_min <= saved_searches.budget_max)
+  order by saved_searches.artisan_id, saved_searches.created_at;
+
+  get diagnostics alerts_count = row_count;
+
+  return alerts_count;
+end;
+$$;
+
+grant execute on function public.create_saved_search_alerts(uuid) to authenticated;
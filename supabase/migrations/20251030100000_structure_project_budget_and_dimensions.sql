@@ -0,0 +1,188 @@
+-- migration: structure_project_budget_and_dimensions
+-- description: replaces the free-text dimensions and budget_range of projects with structured columns
+--              (width/depth/height with a unit, min/max budget with a currency) so the marketplace can filter by them
+-- impacted_tables: projects
+-- special_notes: existing strings are parsed best-effort: the first three numbers of dimensions become
+--                width/depth/height (unit mm/cm/m, cm by default), the numbers of budget_range become min/max
+--                ("do 1500 zł" only sets max, "od 3000" only sets min; currency PLN unless EUR/USD is mentioned).
+--                values that cannot be parsed are dropped together with the old columns.
+--                width_cm/depth_cm/height_cm and budget_span are generated columns used only for filtering.
+--                create_saved_search_alerts is updated to use the structured budget.
+
+-- units and currencies
+create type public.dimension_unit as enum ('mm', 'cm', 'm');
+create type public.currency_code as enum ('PLN', 'EUR', 'USD');
+
+-- structured columns
+-- dimension_unit / budget_currency are null exactly when the project has no dimensions / no budget.
+alter table public.projects
+    add column width numeric(10, 2) check (width > 0),
+    add column depth numeric(10, 2) check (depth > 0),
+    add column height numeric(10, 2) check (height > 0),
+    add column dimension_unit public.dimension_unit,
+    add column budget_min numeric(10, 2) check (budget_min >= 0),
+    add column budget_max numeric(10, 2) check (budget_max >= 0),
+    add column budget_currency public.currency_code;
+
+-- best-effort parsing of the existing dimensions ("120 x 80 x 75 cm", "1,2x0,8m")
+update public.projects
+set width = parsed.numbers[1],
+    depth = parsed.numbers[2],
+    height = parsed.numbers[3],
+    dimension_unit = case
+      when projects.dimensions ~* '\dmm|\smm\M' then 'mm'::public.dimension_unit
+      when projects.dimensions ~* '\dcm|\scm\M' then 'cm'::public.dimension_unit
+      when projects.dimensions ~* '\dm\M|\sm\M' then 'm'::public.dimension_unit
+      else 'cm'::public.dimension_unit
+    end
+from (
+    select projects.id,
+           array(
+             select (match[1])::numeric
+             from regexp_matches(replace(projects.dimensions, ',', '.'), '(\d+(?:\.\d+)?)', 'g') with ordinality
+               as numbers (match, position)
+             where (match[1])::numeric > 0 and (match[1])::numeric < 100000000
+             order by position
+             limit 3
+           ) as numbers
+    from public.projects
+    where projects.dimensions is not null
+) parsed
+where parsed.id = projects.id
+  and cardinality(parsed.numbers) > 0;
+
+-- best-effort parsing of the existing budget ranges ("1 000 - 2 000 PLN", "do 1500 zł", "od 3000 EUR")
+update public.projects
+set budget_min = case when cardinality(parsed.numbers) = 1 and parsed.is_upper_bound then null else parsed.numbers[1] end,
+    budget_max = case
+      when cardinality(parsed.numbers) = 1 and parsed.is_lower_bound then null
+      else parsed.numbers[cardinality(parsed.numbers)]
+    end,
+    budget_currency = case
+      when projects.budget_range ~* '€|eur' then 'EUR'::public.currency_code
+      when projects.budget_range ~* '\$|usd' then 'USD'::public.currency_code
+      else 'PLN'::public.currency_code
+    end
+from (
+    select projects.id,
+           projects.budget_range ~* '^\s*do\M' as is_upper_bound,
+           projects.budget_range ~* '^\s*od\M' as is_lower_bound,
+           array(
+             select (match[1])::numeric
+             from regexp_matches(regexp_replace(projects.budget_range, '(\d)\s+(?=\d)', '\1', 'g'), '(\d+)', 'g')
+               with ordinality as numbers (match, position)
+             where length(match[1]) <= 8
+             order by position
+             limit 2
+           ) as numbers
+    from public.projects
+    where projects.budget_range is not null
+) parsed
+where parsed.id = projects.id
+  and cardinality(parsed.numbers) > 0;
+
+-- swap inverted ranges ("2000-1000") so the check constraint below holds
+update public.projects
+set budget_min = budget_max, budget_max = budget_min
+where budget_min > budget_max;
+
+-- the free-text columns are replaced by the structured ones
+alter table public.projects
+    drop column dimensions,
+    drop column budget_range;
+
+alter table public.projects
+    add constraint projects_dimension_unit_check
+        check ((dimension_unit is null) = (width is null and depth is null and height is null)),
+    add constraint projects_budget_currency_check
+        check ((budget_currency is null) = (budget_min is null and budget_max is null)),
+    add constraint projects_budget_range_check
+        check (budget_min is null or budget_max is null or budget_min <= budget_max);
+
+-- normalized columns for filtering: dimensions in centimetres and the budget as a range (open bounds when missing)
+alter table public.projects
+    add column width_cm numeric generated always as (
+      width * case dimension_unit when 'mm' then 0.1 when 'm' then 100 else 1 end
+    ) stored,
+    add column depth_cm numeric generated always as (
+      depth * case dimension_unit when 'mm' then 0.1 when 'm' then 100 else 1 end
+    ) stored,
+    add column height_cm numeric generated always as (
+      height * case dimension_unit when 'mm' then 0.1 when 'm' then 100 else 1 end
+    ) stored,
+    add column budget_span numrange generated always as (numrange(budget_min, budget_max, '[]')) stored;
+
+-- the saved search alerts now use the structured budget (saved search budgets are in PLN)
+create or replace function public.create_saved_search_alerts(project_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target record;
+  alerts_count integer;
+begin
+  select projects.id, projects.client_id, projects.status, projects.category_id, projects.material_id,
+         projects.budget_min, projects.budget_max, projects.budget_currency,
+         concat_ws(' ', generated_images.prompt, categories.name, materials.name) as searchable_text
+  into target
+  from public.projects
+  left join public.generated_images on generated_images.id = projects.generated_image_id
+  left join public.categories on categories.id = projects.category_id
+  left join public.materials on materials.id = projects.material_id
+  where projects.id = create_saved_search_alerts.project_id;
+
+  if target.id is null or target.client_id <> auth.uid() or target.status <> 'open' then
+    return 0;
+  end if;
+
+  insert into public.notifications (user_id, actor_id, type, project_id, title, message)
+  select distinct on (saved_searches.artisan_id)
+         saved_searches.artisan_id,
+         target.client_id,
+         'saved_search_match',
+         target.id,
+         'Nowy projekt dla Ciebie',
+         format('Nowy projekt pasuje do Twojego wyszukiwania „%s”.', saved_searches.name)
+  from public.saved_searches
+  where saved_searches.alerts_enabled
+    and saved_searches.artisan_id <> target.client_id
+    and (saved_searches.category_id is null or saved_searches.category_id = target.category_id)
+    and (saved_searches.material_id is null or saved_searches.material_id = target.material_id)
+    and (
+      saved_searches.query is null
+      or position(lower(saved_searches.query) in lower(target.searchable_text)) > 0
+    )
+    and (
+      saved_searches.specialization_id is null
+      or not exists (
+        select 1 from public.specialization_scopes scopes
+        where scopes.specialization_id = saved_searches.specialization_id
+      )
+      or exists (
+        select 1 from public.specialization_scopes scopes
+        where scopes.specialization_id = saved_searches.specialization_id
+        and (scopes.category_id = target.category_id or scopes.material_id = target.material_id)
+      )
+    )
+    and (
+      (saved_searches.budget_min is null and saved_searches.budget_max is null)
+      or target.budget_currency is null
+      or (
+        target.budget_currency = 'PLN'
+        and (saved_searches.budget_min is null or target.budget_max is null or target.budget_max >= saved_searches.budget_min)
+        and (saved_searches.budget_max is null or target.budget_min is null or target.budget_min <= saved_searches.budget_max)
+      )
+    )
+  order by saved_searches.artisan_id, saved_searches.created_at;
+
+  get diagnostics alerts_count = row_count;
+
+  return alerts_count;
+end;
+$$;
+
+-- indexes for the marketplace filters
+create index idx_projects_budget_span on public.projects using gist (budget_span);
+create index idx_projects_dimensions_cm on public.projects(width_cm, depth_cm, height_cm);
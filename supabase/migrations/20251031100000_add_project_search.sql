@@ -0,0 +1,142 @@
+-- migration: add_project_search
+-- description: full-text search over marketplace projects (image prompt, category and material names, dimensions)
+-- impacted_tables: projects
+-- special_notes: postgres has no built-in polish stemmer, so the "public.polish" configuration folds diacritics
+--                with unaccent ("dąb" matches "dab") and keeps words unstemmed; the english configuration stems
+--                english prompts ("bookshelves"). query words are matched as prefixes, which covers most polish
+--                inflection ("dębow" matches "dębowy").
+--                search_vector and search_document are maintained by a trigger because they depend on the
+--                generated image, category and material rows. search_projects is security invoker, so the rls
+--                policies of projects apply to the results.
+
+-- diacritics folding for the polish configuration
+create extension if not exists unaccent with schema extensions;
+
+create text search configuration public.polish (copy = pg_catalog.simple);
+alter text search configuration public.polish
+    alter mapping for asciiword, asciihword, hword_asciipart, word, hword, hword_part
+    with extensions.unaccent, simple;
+
+-- searchable text of a project: the plain document (used for snippets) and its weighted vector
+-- weights: category and material names (a), image prompt (b), dimensions (c)
+alter table public.projects
+    add column search_document text,
+    add column search_vector tsvector;
+
+create or replace function public.update_project_search_vector()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  image_prompt text;
+  category_name text;
+  material_name text;
+  dimensions_text text;
+begin
+  select prompt into image_prompt from public.generated_images where id = new.generated_image_id;
+  select name into category_name from public.categories where id = new.category_id;
+  select name into material_name from public.materials where id = new.material_id;
+
+  if new.dimension_unit is not null then
+    dimensions_text := concat_ws(' x ', trim_scale(new.width)::text, trim_scale(new.depth)::text,
+                                 trim_scale(new.height)::text) || ' ' || new.dimension_unit::text;
+  end if;
+
+  new.search_document := concat_ws(' · ', image_prompt, category_name, material_name, dimensions_text);
+  new.search_vector :=
+    setweight(to_tsvector('public.polish', concat_ws(' ', category_name, material_name)), 'A')
+    || setweight(to_tsvector('english', concat_ws(' ', category_name, material_name)), 'A')
+    || setweight(to_tsvector('public.polish', coalesce(image_prompt, '')), 'B')
+    || setweight(to_tsvector('english', coalesce(image_prompt, '')), 'B')
+    || setweight(to_tsvector('simple', coalesce(dimensions_text, '')), 'C');
+
+  return new;
+end;
+$$;
+
+create trigger projects_search_vector_trigger
+    before insert or update of generated_image_id, category_id, material_id, width, depth, height, dimension_unit
+    on public.projects
+    for each row
+    execute function public.update_project_search_vector();
+
+-- backfill existing projects (fires the trigger)
+update public.projects set generated_image_id = generated_image_id;
+
+create index idx_projects_search_vector on public.projects using gin (search_vector);
+
+-- ranked search over projects with the marketplace filters applied.
+-- every word of search_query must match (as a prefix, in either configuration).
+-- returns one page of matching project ids ordered by relevance, a snippet with the matched words
+-- wrapped in ⟦ ⟧, and the total number of matches.
+create or replace function public.search_projects(
+  search_query text,
+  project_status public.project_status default null,
+  category_id uuid default null,
+  material_id uuid default null,
+  budget_min numeric default null,
+  budget_max numeric default null,
+  currency public.currency_code default null,
+  max_width numeric default null,
+  max_depth numeric default null,
+  max_height numeric default null,
+  result_limit integer default 20,
+  result_offset integer default 0
+)
+returns table (id uuid, rank real, snippet text, total_count bigint)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  query_expression text;
+  polish_query tsquery;
+  full_query tsquery;
+begin
+  select string_agg(term || ':*', ' & ')
+  into query_expression
+  from regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') as term
+  where term <> '';
+
+  if query_expression is null then
+    return;
+  end if;
+
+  polish_query := to_tsquery('public.polish', query_expression);
+  full_query := polish_query || to_tsquery('english', query_expression);
+
+  return query
+  select projects.id,
+         ts_rank_cd(projects.search_vector, full_query) as rank,
+         ts_headline('public.polish', projects.search_document, polish_query,
+                     'StartSel=⟦, StopSel=⟧, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "')
+           as snippet,
+         count(*) over () as total_count
+  from public.projects
+  where projects.search_vector @@ full_query
+    and (search_projects.project_status is null or projects.status = search_projects.project_status)
+    and (search_projects.category_id is null or projects.category_id = search_projects.category_id)
+    and (search_projects.material_id is null or projects.material_id = search_projects.material_id)
+    and (
+      (search_projects.budget_min is null and search_projects.budget_max is null
+        and (search_projects.currency is null or projects.budget_currency = search_projects.currency))
+      or (
+        projects.budget_currency = coalesce(search_projects.currency, 'PLN')
+        and projects.budget_span && numrange(search_projects.budget_min, search_projects.budget_max, '[]')
+      )
+    )
+    and (search_projects.max_width is null or projects.width_cm <= search_projects.max_width)
+    and (search_projects.max_depth is null or projects.depth_cm <= search_projects.max_depth)
+    and (search_projects.max_height is null or projects.height_cm <= search_projects.max_height)
+  order by ts_rank_cd(projects.search_vector, full_query) desc, projects.created_at desc
+  limit result_limit
+  offset result_offset;
+end;
+$$;
+
+grant execute on function public.search_projects(
+  text, public.project_status, uuid, uuid, numeric, numeric, public.currency_code, numeric, numeric, numeric,
+  integer, integer
+) to authenticated;
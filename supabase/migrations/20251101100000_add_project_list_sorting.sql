@@ -0,0 +1,48 @@
+-- migration: add_project_list_sorting
+-- description: sort keys for the marketplace project list (budget, number of proposals) and indexes for
+--              keyset (cursor) pagination
+-- impacted_tables: projects, proposals
+-- special_notes: proposals_count is a denormalized counter maintained by a trigger on proposals, so sorting by
+--                the number of proposals does not need an aggregate per request.
+--                budget_sort is the upper budget bound (or the lower one when only a minimum is given) and 0
+--                for projects without a budget; amounts are compared in the project's own currency.
+--                every sort order is paired with the project id as a tie breaker, which makes the order total
+--                and lets a cursor (last sort value, last id) resume the list without offsets.
+
+alter table public.projects
+    add column proposals_count integer not null default 0,
+    add column budget_sort numeric(12, 2) generated always as (coalesce(budget_max, budget_min, 0)) stored;
+
+alter table public.projects
+    add constraint projects_proposals_count_check check (proposals_count >= 0);
+
+create or replace function public.update_project_proposals_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.projects set proposals_count = proposals_count + 1 where id = new.project_id;
+  elsif tg_op = 'DELETE' then
+    update public.projects set proposals_count = greatest(proposals_count - 1, 0) where id = old.project_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger proposals_count_trigger
+    after insert or delete on public.proposals
+    for each row
+    execute function public.update_project_proposals_count();
+
+-- backfill counters of existing projects
+update public.projects
+set proposals_count = (select count(*) from public.proposals where proposals.project_id = projects.id);
+
+-- keyset pagination indexes, one per sort order (status is the default marketplace filter)
+create index idx_projects_status_created_at_id on public.projects (status, created_at, id);
+create index idx_projects_status_budget_sort_id on public.projects (status, budget_sort, id);
+create index idx_projects_status_proposals_count_id on public.projects (status, proposals_count, id);
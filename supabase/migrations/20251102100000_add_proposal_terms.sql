@@ -0,0 +1,17 @@
+-- migration: add_proposal_terms
+-- description: terms of an artisan's offer: estimated lead time, scope description, included services
+--              (delivery, assembly, finishing) and the date until which the offer can be accepted
+-- impacted_tables: proposals
+-- special_notes: lead_time_days is required by the api for new proposals but stays nullable for proposals
+--                submitted before this migration.
+--                valid_until is the last day on which the offer can be accepted; proposals without it do not
+--                expire. the check is done by the api when the client accepts a proposal, so expired offers
+--                keep their 'pending' status.
+
+create type public.proposal_inclusion as enum ('delivery', 'assembly', 'finishing');
+
+alter table public.proposals
+    add column lead_time_days integer check (lead_time_days > 0),
+    add column scope_description text,
+    add column inclusions public.proposal_inclusion[] not null default '{}',
+    add column valid_until date;
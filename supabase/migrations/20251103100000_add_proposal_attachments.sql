@@ -0,0 +1,55 @@
+-- migration: add_proposal_attachments
+-- description: lets artisans attach several captioned files to a proposal (technical drawings, a quote pdf,
+--              photos of material samples)
+-- impacted_tables: proposal_attachments, proposals
+-- special_notes: proposals.attachment_url is kept as the primary attachment of the proposal (the first file, or
+--                the file of the latest revision), so revisions and "my proposals" keep working unchanged.
+--                existing proposals get their single attachment copied over without a caption (size unknown).
+--                files live in the proposal-attachments bucket; the table only stores their urls and metadata.
+
+-- proposal_attachments table
+create table public.proposal_attachments (
+    id uuid not null primary key default gen_random_uuid(),
+    proposal_id uuid not null references public.proposals(id) on delete cascade,
+    file_url text not null,
+    file_name text not null,
+    mime_type text not null,
+    size_bytes integer check (size_bytes > 0),
+    caption text,
+    position smallint not null default 0,
+    created_at timestamptz not null default now()
+);
+
+create index idx_proposal_attachments_proposal_id on public.proposal_attachments (proposal_id, position);
+
+-- enable row level security
+alter table public.proposal_attachments enable row level security;
+
+-- rls policies for proposal_attachments
+-- the proposing artisan and the project owner can read attachments, only the artisan can add or remove them.
+create policy "allow proposal parties to read attachments" on public.proposal_attachments for select
+    using (
+        exists (select 1 from public.proposals where id = proposal_id and artisan_id = auth.uid())
+        or public.user_owns_proposal_project(proposal_id)
+    );
+
+create policy "allow artisans to add attachments to their own proposals" on public.proposal_attachments for insert
+    with check (exists (select 1 from public.proposals where id = proposal_id and artisan_id = auth.uid()));
+
+create policy "allow artisans to remove attachments of their own proposals" on public.proposal_attachments for delete
+    using (exists (select 1 from public.proposals where id = proposal_id and artisan_id = auth.uid()));
+
+-- copy the single attachment of existing proposals
+insert into public.proposal_attachments (proposal_id, file_url, file_name, mime_type, created_at)
+select
+    proposals.id,
+    proposals.attachment_url,
+    regexp_replace(proposals.attachment_url, '^.*/', ''),
+    case
+        when proposals.attachment_url ~* '\.pdf$' then 'application/pdf'
+        when proposals.attachment_url ~* '\.png$' then 'image/png'
+        else 'image/jpeg'
+    end,
+    proposals.created_at
+from public.proposals
+where proposals.attachment_url is not null;
@@ -0,0 +1,58 @@
+-- migration: make_proposal_attachments_private
+-- description: serves proposal attachments (quotes, technical drawings, revision files) only through the api,
+--              which checks access and redirects to a short-lived signed url
+-- impacted_tables: storage.buckets, proposals, proposal_revisions, proposal_attachments
+-- special_notes: the proposal-attachments bucket is made private, so the public urls stored so far stop working.
+--                instead of urls, the attachment columns now store the object path inside the bucket
+--                ("<artisan_id>/<project_id>/<file>"); the column names are kept.
+--                every file of a proposal gets a proposal_attachments row (files of revisions included), which
+--                is what GET /api/proposals/{id}/attachments/{fileId} looks up.
+--                the storage policies of 20251021170000 still apply: artisans read their own folder and project
+--                owners read the files of proposals to their projects. generated images and portfolio images are
+--                meant to be public and stay in public buckets.
+
+-- private bucket
+update storage.buckets set public = false where id = 'proposal-attachments';
+
+-- store object paths instead of public urls
+update public.proposals
+set attachment_url = regexp_replace(attachment_url, '^.*/proposal-attachments/', '')
+where attachment_url like '%/proposal-attachments/%';
+
+update public.proposal_revisions
+set attachment_url = regexp_replace(attachment_url, '^.*/proposal-attachments/', '')
+where attachment_url like '%/proposal-attachments/%';
+
+update public.proposal_attachments
+set file_url = regexp_replace(file_url, '^.*/proposal-attachments/', '')
+where file_url like '%/proposal-attachments/%';
+
+comment on column public.proposals.attachment_url is
+    'Object path of the primary attachment in the private proposal-attachments bucket';
+comment on column public.proposal_revisions.attachment_url is
+    'Object path of the revision attachment in the private proposal-attachments bucket';
+comment on column public.proposal_attachments.file_url is
+    'Object path of the file in the private proposal-attachments bucket';
+
+-- files uploaded with revisions become attachments of their proposal
+insert into public.proposal_attachments (proposal_id, file_url, file_name, mime_type, caption, position, created_at)
+select distinct on (proposal_revisions.proposal_id, proposal_revisions.attachment_url)
+    proposal_revisions.proposal_id,
+    proposal_revisions.attachment_url,
+    regexp_replace(proposal_revisions.attachment_url, '^.*/', ''),
+    case
+        when proposal_revisions.attachment_url ~* '\.pdf$' then 'application/pdf'
+        when proposal_revisions.attachment_url ~* '\.png$' then 'image/png'
+        else 'image/jpeg'
+    end,
+    'Wersja ' || proposal_revisions.revision_number,
+    100 + proposal_revisions.revision_number,
+    proposal_revisions.created_at
+from public.proposal_revisions
+where proposal_revisions.attachment_url is not null
+  and not exists (
+      select 1 from public.proposal_attachments
+      where proposal_attachments.proposal_id = proposal_revisions.proposal_id
+        and proposal_attachments.file_url = proposal_revisions.attachment_url
+  )
+order by proposal_revisions.proposal_id, proposal_revisions.attachment_url, proposal_revisions.revision_number;
@@ -0,0 +1,87 @@
+-- migration: add_generated_image_lineage
+-- description: lets clients refine an existing generated image ("same but with walnut legs") and keeps the
+--              refined image linked to the image it was made from
+-- impacted_tables: generated_images
+-- special_notes: parent_image_id points at the direct predecessor, root_image_id at the first image of the design,
+--                so a whole version tree is read with one query. both are null for images generated from scratch.
+--                for refinements, prompt stores the requested change, not the full description.
+--                only images without refinements can be deleted (on delete restrict), so trees never lose a node.
+--                refinements do not count towards the generation quota; a design is limited to 9 refinements instead
+--                (10 versions). the root image counts its refinements (refinements_count) and the counter is never
+--                decremented, so deleting versions does not make room for new ones. users cannot change the
+--                lineage or the counter of their images.
+
+alter table public.generated_images
+    add column parent_image_id uuid references public.generated_images(id) on delete restrict,
+    add column root_image_id uuid references public.generated_images(id) on delete restrict,
+    add column refinements_count integer not null default 0;
+
+alter table public.generated_images
+    add constraint generated_images_lineage_check
+    check ((parent_image_id is null) = (root_image_id is null));
+
+create index idx_generated_images_parent_image_id on public.generated_images (parent_image_id);
+create index idx_generated_images_root_image_id on public.generated_images (root_image_id);
+
+-- counts a refinement on the root image of its design and rejects it once the design has no versions left.
+-- security definer: updates the root image past the lineage guard below. raises 'Design version limit reached'
+-- (P0001) when the root image already has 9 refinements or belongs to another user.
+create or replace function public.count_image_refinement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  max_refinements constant int := 9;
+begin
+  if new.root_image_id is null then
+    return new;
+  end if;
+
+  update public.generated_images
+  set refinements_count = refinements_count + 1
+  where id = new.root_image_id
+    and user_id = new.user_id
+    and refinements_count < max_refinements;
+
+  if not found then
+    raise exception 'Design version limit reached' using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger count_image_refinement
+  before insert on public.generated_images
+  for each row execute function public.count_image_refinement();
+
+-- the lineage and the refinement counter are only written by the database; users cannot detach a refinement
+-- into a new design or reset the counter of a design.
+-- security invoker: only guards direct writes of signed-in users (current_user 'authenticated').
+create or replace function public.protect_image_lineage()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user <> 'authenticated' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.refinements_count := 0;
+  else
+    new.parent_image_id := old.parent_image_id;
+    new.root_image_id := old.root_image_id;
+    new.refinements_count := old.refinements_count;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger protect_image_lineage
+  before insert or update on public.generated_images
+  for each row execute function public.protect_image_lineage();
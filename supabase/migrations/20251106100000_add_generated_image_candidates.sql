@@ -0,0 +1,12 @@
+-- migration: add_generated_image_candidates
+-- description: lets clients request 2-4 candidate images in one generation and keep only the ones they like
+-- impacted_tables: generated_images
+-- special_notes: every candidate is stored as its own generated_images row with is_candidate = true until the
+--                client picks it. picked candidates become regular images (is_candidate = false); the rest are
+--                deleted together with their files. the generation quota and the gallery only count regular
+--                images, so the quota is charged per image kept rather than per image produced.
+
+alter table public.generated_images
+    add column is_candidate boolean not null default false;
+
+create index idx_generated_images_candidates on public.generated_images (user_id) where is_candidate;
@@ -0,0 +1,25 @@
+-- migration: add_generated_image_metadata
+-- description: stores how every image was generated: the enhanced prompts sent to the image model, the prompt
+--              engineer's technical notes, materials and style, the model used and the generation time
+-- impacted_tables: generated_images
+-- special_notes: prompt keeps the raw description typed by the client (or the requested change of a refinement).
+--                all new columns are nullable (materials defaults to an empty array) because images generated
+--                before this migration have no metadata. technical notes are shown to artisans on project
+--                details; the rest is meant for debugging bad generations.
+
+alter table public.generated_images
+    add column positive_prompt text,
+    add column negative_prompt text,
+    add column technical_notes text,
+    add column materials text[] not null default '{}',
+    add column style text,
+    add column model text,
+    add column generation_time_ms integer check (generation_time_ms >= 0);
+
+comment on column public.generated_images.positive_prompt is 'Enhanced prompt sent to the image model';
+comment on column public.generated_images.negative_prompt is 'Elements the image model was asked to avoid';
+comment on column public.generated_images.technical_notes is 'Construction notes derived from the description';
+comment on column public.generated_images.materials is 'Materials detected in the description';
+comment on column public.generated_images.style is 'Design style detected in the description';
+comment on column public.generated_images.model is 'Image model that generated the image';
+comment on column public.generated_images.generation_time_ms is 'Time the image model took to generate the image';
@@ -0,0 +1,123 @@
+-- migration: add_generation_quota_ledger
+-- description: replaces the all-time count of generated images with a monthly generation quota recorded in a
+--              ledger, with limits per plan (free / premium) and limits set by admins for single users
+-- impacted_tables: users, generation_quota_events, generation_quota_overrides
+-- special_notes: every image charged to the quota (an image generated from scratch, or a kept candidate) adds
+--                a generation_quota_events row. events are never updated or deleted by clients, so deleting
+--                an image no longer refunds the quota; the image reference is cleared instead. the quota
+--                window is the calendar month (utc). plan limits live in the application configuration;
+--                generation_quota_overrides replaces the plan limit of a single user. users cannot write it: it
+--                is managed by admins (write policy and /api/admin routes come with the admin role in
+--                20251110100000_add_admin_moderation.sql). events are only recorded through
+--                consume_generation_quota(), which checks and charges the quota in one transaction.
+--                existing images charged to the quota are backfilled as events.
+
+-- custom types
+create type public.user_plan as enum ('free', 'premium');
+
+-- users are on the free plan until they upgrade. users cannot update their own row, so the plan
+-- can only be changed by the service role.
+alter table public.users
+    add column plan public.user_plan not null default 'free';
+
+-- generation_quota_events table
+-- ledger of generations charged to the quota.
+create table public.generation_quota_events (
+    id uuid not null primary key default gen_random_uuid(),
+    user_id uuid not null references public.users(id) on delete cascade,
+    generated_image_id uuid references public.generated_images(id) on delete set null,
+    created_at timestamptz not null default now()
+);
+
+create index idx_generation_quota_events_user_created on public.generation_quota_events (user_id, created_at);
+
+-- enable row level security
+alter table public.generation_quota_events enable row level security;
+
+-- rls policies for generation_quota_events
+-- users read their own events; there are no insert, update or delete policies, events are recorded by
+-- consume_generation_quota() below.
+create policy "allow users to read their own generation quota events" on public.generation_quota_events for select
+    using (auth.uid() = user_id);
+
+-- generation_quota_overrides table
+-- monthly limit of a single user replacing the limit of the plan.
+create table public.generation_quota_overrides (
+    user_id uuid not null primary key references public.users(id) on delete cascade,
+    monthly_limit integer not null check (monthly_limit >= 0),
+    reason text,
+    created_by uuid references public.users(id) on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+-- enable row level security
+alter table public.generation_quota_overrides enable row level security;
+
+-- rls policies for generation_quota_overrides
+-- users read their own override; overrides are managed by admins with the service role.
+create policy "allow users to read their own generation quota override" on public.generation_quota_overrides for select
+    using (auth.uid() = user_id);
+
+-- charges images of the current user to the quota of the current month, all or nothing. plan_limit is the limit
+-- of the user's plan from the application configuration; an override of the user replaces it.
+-- security definer: the users row is locked so concurrent generations of the same user are counted one after
+-- another. raises 'Generation limit reached' (P0001) when the images do not fit in the quota.
+-- returns the remaining quota.
+create or replace function public.consume_generation_quota(image_ids uuid[], plan_limit integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  monthly_limit integer;
+  used integer;
+  generations integer := coalesce(array_length(consume_generation_quota.image_ids, 1), 0);
+begin
+  perform 1 from public.users where id = auth.uid() for update;
+
+  if not found then
+    raise exception 'User not found' using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1
+    from unnest(consume_generation_quota.image_ids) as image(id)
+    where not exists (
+      select 1 from public.generated_images
+      where generated_images.id = image.id and generated_images.user_id = auth.uid()
+    )
+  ) then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  select coalesce(
+           (select overrides.monthly_limit from public.generation_quota_overrides overrides
+            where overrides.user_id = auth.uid()),
+           consume_generation_quota.plan_limit
+         ),
+         (select count(*) from public.generation_quota_events events
+          where events.user_id = auth.uid()
+          and events.created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc')
+  into monthly_limit, used;
+
+  if used + generations > monthly_limit then
+    raise exception 'Generation limit reached' using errcode = 'P0001';
+  end if;
+
+  insert into public.generation_quota_events (user_id, generated_image_id)
+  select auth.uid(), image.id
+  from unnest(consume_generation_quota.image_ids) as image(id);
+
+  return monthly_limit - used - generations;
+end;
+$$;
+
+grant execute on function public.consume_generation_quota(uuid[], integer) to authenticated;
+
+-- backfill the ledger with images already charged to the quota
+insert into public.generation_quota_events (user_id, generated_image_id, created_at)
+select user_id, id, created_at
+from public.generated_images
+where is_candidate = false and parent_image_id is null;
@@ -0,0 +1,173 @@
+-- migration: add_user_profiles
+-- description: adds public user profiles (display name, avatar, city) shown next to reviews, proposals and in
+--              the chat, and makes the artisan reviews function read reviewer names from them
+-- impacted_tables: user_profiles
+-- special_notes: profiles are public, like artisan profiles: anyone can read them, only the owner can change
+--                them. users without a display name are shown as "Użytkownik". handle_new_user now also
+--                creates the profile of a new user. display names are backfilled from the full_name of the auth
+--                metadata; email addresses are no longer used as a fallback, so get_artisan_reviews_and_summary
+--                stops reading auth.users.
+
+-- user_profiles table
+-- one row per user with the data shown to other users.
+create table public.user_profiles (
+    user_id uuid not null primary key references public.users(id) on delete cascade,
+    display_name text check (char_length(display_name) between 2 and 50),
+    avatar_url text check (char_length(avatar_url) <= 500),
+    city text check (char_length(city) <= 100),
+    updated_at timestamptz not null default now()
+);
+
+-- enable row level security
+alter table public.user_profiles enable row level security;
+
+-- rls policies for user_profiles
+-- profiles are public; users manage only their own profile.
+create policy "allow anyone to read user profiles" on public.user_profiles for select
+    using (true);
+create policy "allow users to create their own profile" on public.user_profiles for insert
+    with check (auth.uid() = user_id);
+create policy "allow users to update their own profile" on public.user_profiles for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+-- backfill profiles of existing users with the name given at sign up
+insert into public.user_profiles (user_id, display_name)
+select u.id,
+       case when char_length(trim(au.raw_user_meta_data->>'full_name')) between 2 and 50
+            then trim(au.raw_user_meta_data->>'full_name')
+       end
+from public.users u
+inner join auth.users au on au.id = u.id;
+
+-- create the profile together with the user record
+create or replace function public.handle_new_user()
+returns trigger as $$
+declare
+  account_type text;
+  full_name text;
+begin
+  -- get account_type from user metadata, default to 'client'
+  account_type := coalesce(new.raw_user_meta_data->>'account_type', 'client');
+  full_name := trim(new.raw_user_meta_data->>'full_name');
+
+  -- cast to user_role enum
+  insert into public.users (id, role, created_at)
+  values (
+    new.id,
+    account_type::public.user_role,
+    now()
+  );
+
+  insert into public.user_profiles (user_id, display_name)
+  values (
+    new.id,
+    case when char_length(full_name) between 2 and 50 then full_name end
+  );
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- read reviewer names and avatars from user_profiles instead of auth.users
+create or replace function public.get_artisan_reviews_and_summary(
+  artisan_id_param uuid,
+  page_num int default 1,
+  page_size int default 20
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  result jsonb;
+  offset_val int;
+  total_count int;
+  avg_rating numeric;
+  rating_dist jsonb;
+  reviews_data jsonb;
+begin
+  if page_num < 1 then
+    page_num := 1;
+  end if;
+
+  if page_size < 1 or page_size > 100 then
+    page_size := 20;
+  end if;
+
+  offset_val := (page_num - 1) * page_size;
+
+  if not exists (
+    select 1 from artisan_profiles where user_id = artisan_id_param
+  ) then
+    raise exception 'Artisan not found' using errcode = 'P0001';
+  end if;
+
+  select count(*), coalesce(avg(rating), 0)
+  into total_count, avg_rating
+  from reviews
+  where reviewee_id = artisan_id_param;
+
+  select jsonb_build_object(
+    '5', coalesce(sum(case when rating = 5 then 1 else 0 end), 0),
+    '4', coalesce(sum(case when rating = 4 then 1 else 0 end), 0),
+    '3', coalesce(sum(case when rating = 3 then 1 else 0 end), 0),
+    '2', coalesce(sum(case when rating = 2 then 1 else 0 end), 0),
+    '1', coalesce(sum(case when rating = 1 then 1 else 0 end), 0)
+  )
+  into rating_dist
+  from reviews
+  where reviewee_id = artisan_id_param;
+
+  select jsonb_agg(review_obj)
+  into reviews_data
+  from (
+    select jsonb_build_object(
+      'id', r.id,
+      'project', jsonb_build_object(
+        'id', p.id,
+        'category', jsonb_build_object('name', c.name)
+      ),
+      'reviewer', jsonb_build_object(
+        'id', r.reviewer_id,
+        'name', coalesce(up.display_name, 'Użytkownik'),
+        'avatar_url', up.avatar_url
+      ),
+      'rating', r.rating,
+      'comment', r.comment,
+      'created_at', r.created_at
+    ) as review_obj
+    from reviews r
+    inner join projects p on r.project_id = p.id
+    inner join categories c on p.category_id = c.id
+    left join user_profiles up on up.user_id = r.reviewer_id
+    where r.reviewee_id = artisan_id_param
+    order by r.created_at desc
+    limit page_size
+    offset offset_val
+  ) subquery;
+
+  if reviews_data is null then
+    reviews_data := '[]'::jsonb;
+  end if;
+
+  result := jsonb_build_object(
+    'data', reviews_data,
+    'pagination', jsonb_build_object(
+      'page', page_num,
+      'limit', page_size,
+      'total', total_count,
+      'total_pages', ceil(total_count::numeric / page_size::numeric)
+    ),
+    'summary', jsonb_build_object(
+      'average_rating', round(avg_rating, 2),
+      'total_reviews', total_count,
+      'rating_distribution', rating_dist
+    )
+  );
+
+  return result;
+end;
+$$;
@@ -0,0 +1,357 @@
+-- migration: add_admin_moderation
+-- description: adds the admin role and moderation: suspending users, hiding reviews, unpublishing artisan
+--              profiles, closing projects and setting generation limits, with an audit log of moderator actions
+-- impacted_tables: users, reviews, artisan_profiles, projects, generation_quota_overrides, moderation_actions
+-- special_notes: admins act through rls policies guarded by is_admin() (security definer, so the check does not
+--                recurse into the rls of users). hidden reviews are only visible to their author and admins and
+--                are left out of ratings. an artisan profile unpublished by an admin cannot be republished by
+--                its owner. every moderator action is recorded in moderation_actions by the application.
+--                admins are promoted manually: update public.users set role = 'admin' where id = '...';
+--                handle_new_user only accepts 'client' and 'artisan' from the sign up metadata, so nobody can
+--                sign up as an admin.
+
+-- custom types
+alter type public.user_role add value 'admin';
+
+create type public.moderation_action as enum (
+    'user_suspended',
+    'user_reinstated',
+    'review_hidden',
+    'review_restored',
+    'artisan_profile_unpublished',
+    'project_closed',
+    'generation_quota_set',
+    'generation_quota_cleared'
+);
+
+-- moderation state
+alter table public.users
+    add column suspended_at timestamptz,
+    add column suspension_reason text;
+
+alter table public.reviews
+    add column hidden_at timestamptz,
+    add column hidden_reason text,
+    add column hidden_by uuid references public.users(id) on delete set null;
+
+alter table public.artisan_profiles
+    add column unpublished_at timestamptz,
+    add column unpublish_reason text;
+
+-- security definer helper: whether the current user is an admin
+-- compares the role as text, so it can be created in the transaction adding the enum value.
+create or replace function public.is_admin()
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  return exists (
+    select 1 from public.users where id = auth.uid() and role::text = 'admin' and suspended_at is null
+  );
+end;
+$$;
+
+grant execute on function public.is_admin() to authenticated;
+
+-- sign up can only create clients and artisans: any other account_type in the user metadata (which the user
+-- controls) falls back to 'client'
+create or replace function public.handle_new_user()
+returns trigger as $$
+declare
+  account_type text;
+  full_name text;
+begin
+  -- get account_type from user metadata, default to 'client'
+  account_type := case
+    when new.raw_user_meta_data->>'account_type' in ('client', 'artisan') then new.raw_user_meta_data->>'account_type'
+    else 'client'
+  end;
+  full_name := trim(new.raw_user_meta_data->>'full_name');
+
+  -- cast to user_role enum
+  insert into public.users (id, role, created_at)
+  values (
+    new.id,
+    account_type::public.user_role,
+    now()
+  );
+
+  insert into public.user_profiles (user_id, display_name)
+  values (
+    new.id,
+    case when char_length(full_name) between 2 and 50 then full_name end
+  );
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- moderation_actions table
+-- audit log of moderator actions; rows are never updated or deleted.
+create table public.moderation_actions (
+    id uuid not null primary key default gen_random_uuid(),
+    admin_id uuid references public.users(id) on delete set null,
+    action public.moderation_action not null,
+    target_id uuid not null,
+    reason text check (char_length(reason) <= 500),
+    created_at timestamptz not null default now()
+);
+
+create index idx_moderation_actions_created_at on public.moderation_actions (created_at desc);
+create index idx_moderation_actions_target_id on public.moderation_actions (target_id);
+
+-- enable row level security
+alter table public.moderation_actions enable row level security;
+
+-- rls policies for moderation_actions
+create policy "allow admins to read moderation actions" on public.moderation_actions for select
+    using (public.is_admin());
+create policy "allow admins to record their moderation actions" on public.moderation_actions for insert
+    with check (public.is_admin() and admin_id = auth.uid());
+
+-- rls policies for admins
+create policy "allow admins to read all users" on public.users for select
+    using (public.is_admin());
+create policy "allow admins to update users" on public.users for update
+    using (public.is_admin())
+    with check (public.is_admin());
+
+create policy "allow admins to read all artisan profiles" on public.artisan_profiles for select
+    using (public.is_admin());
+create policy "allow admins to update artisan profiles" on public.artisan_profiles for update
+    using (public.is_admin())
+    with check (public.is_admin());
+
+create policy "allow admins to read all projects" on public.projects for select
+    using (public.is_admin());
+create policy "allow admins to update projects" on public.projects for update
+    using (public.is_admin())
+    with check (public.is_admin());
+
+create policy "allow admins to moderate reviews" on public.reviews for update
+    using (public.is_admin())
+    with check (public.is_admin());
+
+create policy "allow admins to manage generation quota overrides" on public.generation_quota_overrides for all
+    using (public.is_admin())
+    with check (public.is_admin());
+
+-- hidden reviews are only visible to their author and admins
+drop policy "reviews are public" on public.reviews;
+create policy "reviews are public unless hidden" on public.reviews for select
+    using (hidden_at is null or auth.uid() = reviewer_id or public.is_admin());
+
+-- only admins can change the moderation state of an artisan profile; an unpublished profile stays private
+create or replace function public.protect_artisan_profile_moderation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    new.unpublished_at := old.unpublished_at;
+    new.unpublish_reason := old.unpublish_reason;
+  end if;
+
+  if new.unpublished_at is not null then
+    new.is_public := false;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger protect_artisan_profile_moderation
+  before update on public.artisan_profiles
+  for each row execute function public.protect_artisan_profile_moderation();
+
+-- security definer helper: paginated list of users with their email addresses for the admin console
+create or replace function public.admin_list_users(
+  search_query text default null,
+  role_filter public.user_role default null,
+  page_num int default 1,
+  page_size int default 20
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  offset_val int;
+  total_count int;
+  users_data jsonb;
+  pattern text;
+begin
+  if not public.is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  if page_num < 1 then
+    page_num := 1;
+  end if;
+
+  if page_size < 1 or page_size > 100 then
+    page_size := 20;
+  end if;
+
+  offset_val := (page_num - 1) * page_size;
+  -- the search is matched literally: % and _ (and the \ escape character) are escaped for ilike
+  pattern := case when nullif(trim(search_query), '') is null then null
+                  else '%' || replace(replace(replace(trim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' end;
+
+  select count(*)
+  into total_count
+  from public.users u
+  inner join auth.users au on au.id = u.id
+  left join public.user_profiles up on up.user_id = u.id
+  left join public.artisan_profiles ap on ap.user_id = u.id
+  where (role_filter is null or u.role = role_filter)
+    and (pattern is null or au.email ilike pattern or up.display_name ilike pattern or ap.company_name ilike pattern);
+
+  select jsonb_agg(user_obj)
+  into users_data
+  from (
+    select jsonb_build_object(
+      'id', u.id,
+      'email', au.email,
+      'role', u.role,
+      'display_name', up.display_name,
+      'company_name', ap.company_name,
+      'is_public', ap.is_public,
+      'suspended_at', u.suspended_at,
+      'suspension_reason', u.suspension_reason,
+      'created_at', u.created_at
+    ) as user_obj
+    from public.users u
+    inner join auth.users au on au.id = u.id
+    left join public.user_profiles up on up.user_id = u.id
+    left join public.artisan_profiles ap on ap.user_id = u.id
+    where (role_filter is null or u.role = role_filter)
+      and (pattern is null or au.email ilike pattern or up.display_name ilike pattern or ap.company_name ilike pattern)
+    order by u.created_at desc
+    limit page_size
+    offset offset_val
+  ) subquery;
+
+  return jsonb_build_object(
+    'data', coalesce(users_data, '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'page', page_num,
+      'limit', page_size,
+      'total', total_count,
+      'total_pages', ceil(total_count::numeric / page_size::numeric)
+    )
+  );
+end;
+$$;
+
+grant execute on function public.admin_list_users(text, public.user_role, int, int) to authenticated;
+
+-- leave hidden reviews out of public artisan reviews and ratings
+create or replace function public.get_artisan_reviews_and_summary(
+  artisan_id_param uuid,
+  page_num int default 1,
+  page_size int default 20
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  result jsonb;
+  offset_val int;
+  total_count int;
+  avg_rating numeric;
+  rating_dist jsonb;
+  reviews_data jsonb;
+begin
+  if page_num < 1 then
+    page_num := 1;
+  end if;
+
+  if page_size < 1 or page_size > 100 then
+    page_size := 20;
+  end if;
+
+  offset_val := (page_num - 1) * page_size;
+
+  if not exists (
+    select 1 from artisan_profiles where user_id = artisan_id_param
+  ) then
+    raise exception 'Artisan not found' using errcode = 'P0001';
+  end if;
+
+  select count(*), coalesce(avg(rating), 0)
+  into total_count, avg_rating
+  from reviews
+  where reviewee_id = artisan_id_param and hidden_at is null;
+
+  select jsonb_build_object(
+    '5', coalesce(sum(case when rating = 5 then 1 else 0 end), 0),
+    '4', coalesce(sum(case when rating = 4 then 1 else 0 end), 0),
+    '3', coalesce(sum(case when rating = 3 then 1 else 0 end), 0),
+    '2', coalesce(sum(case when rating = 2 then 1 else 0 end), 0),
+    '1', coalesce(sum(case when rating = 1 then 1 else 0 end), 0)
+  )
+  into rating_dist
+  from reviews
+  where reviewee_id = artisan_id_param and hidden_at is null;
+
+  select jsonb_agg(review_obj)
+  into reviews_data
+  from (
+    select jsonb_build_object(
+      'id', r.id,
+      'project', jsonb_build_object(
+        'id', p.id,
+        'category', jsonb_build_object('name', c.name)
+      ),
+      'reviewer', jsonb_build_object(
+        'id', r.reviewer_id,
+        'name', coalesce(up.display_name, 'Użytkownik'),
+        'avatar_url', up.avatar_url
+      ),
+      'rating', r.rating,
+      'comment', r.comment,
+      'created_at', r.created_at
+    ) as review_obj
+    from reviews r
+    inner join projects p on r.project_id = p.id
+    inner join categories c on p.category_id = c.id
+    left join user_profiles up on up.user_id = r.reviewer_id
+    where r.reviewee_id = artisan_id_param and r.hidden_at is null
+    order by r.created_at desc
+    limit page_size
+    offset offset_val
+  ) subquery;
+
+  if reviews_data is null then
+    reviews_data := '[]'::jsonb;
+  end if;
+
+  result := jsonb_build_object(
+    'data', reviews_data,
+    'pagination', jsonb_build_object(
+      'page', page_num,
+      'limit', page_size,
+      'total', total_count,
+      'total_pages', ceil(total_count::numeric / page_size::numeric)
+    ),
+    'summary', jsonb_build_object(
+      'average_rating', round(avg_rating, 2),
+      'total_reviews', total_count,
+      'rating_distribution', rating_dist
+    )
+  );
+
+  return result;
+end;
+$$;
@@ -0,0 +1,214 @@
+-- migration: add_content_reports
+-- description: lets users report projects, proposals, reviews and generated images, with a triage queue for
+--              moderators. content is hidden automatically once enough users have reported it.
+-- impacted_tables: content_reports, projects, proposals, generated_images, reviews, moderation_actions
+-- special_notes: a user can report a piece of content once, only if they can see it and it is not their own
+--                (enforced by the insert policy through can_report_content()). when 3 different users have pending reports on the
+--                same content, hide_reported_content() hides it (security definer, the reporters cannot update
+--                it themselves). hidden projects, proposals and images stay visible to their owners and admins.
+--                moderators resolve every pending report of a target at once: upholding keeps the content hidden,
+--                dismissing restores content that was hidden automatically.
+
+-- custom types
+create type public.report_target_type as enum ('project', 'proposal', 'review', 'generated_image');
+
+create type public.report_reason as enum ('spam', 'fraud', 'offensive', 'inappropriate_image', 'other');
+
+create type public.report_status as enum ('pending', 'upheld', 'dismissed');
+
+alter type public.moderation_action add value 'report_upheld';
+alter type public.moderation_action add value 'report_dismissed';
+
+-- moderation state of reportable content (reviews already have it)
+alter table public.projects
+    add column hidden_at timestamptz,
+    add column hidden_reason text;
+
+alter table public.proposals
+    add column hidden_at timestamptz,
+    add column hidden_reason text;
+
+alter table public.generated_images
+    add column hidden_at timestamptz,
+    add column hidden_reason text;
+
+-- content_reports table
+-- one row per user and reported content; target_id points to the row of the table named by target_type.
+create table public.content_reports (
+    id uuid not null primary key default gen_random_uuid(),
+    reporter_id uuid not null references public.users(id) on delete cascade,
+    target_type public.report_target_type not null,
+    target_id uuid not null,
+    reason public.report_reason not null,
+    details text check (char_length(details) <= 1000),
+    status public.report_status not null default 'pending',
+    resolved_at timestamptz,
+    resolved_by uuid references public.users(id) on delete set null,
+    resolution_note text check (char_length(resolution_note) <= 500),
+    created_at timestamptz not null default now(),
+    unique (reporter_id, target_type, target_id)
+);
+
+create index idx_content_reports_target on public.content_reports (target_type, target_id);
+create index idx_content_reports_status_created_at on public.content_reports (status, created_at);
+
+-- enable row level security
+alter table public.content_reports enable row level security;
+
+-- helper: whether the current user can report the content, i.e. it is visible to them and not their own.
+-- security invoker on purpose: the rls policies of the target table decide what the reporter can see.
+create or replace function public.can_report_content(
+    report_target_type public.report_target_type,
+    report_target_id uuid
+)
+returns boolean
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  case report_target_type
+    when 'project' then
+      return exists (select 1 from public.projects where id = report_target_id and client_id <> auth.uid());
+    when 'proposal' then
+      return exists (select 1 from public.proposals where id = report_target_id and artisan_id <> auth.uid());
+    when 'review' then
+      return exists (select 1 from public.reviews where id = report_target_id and reviewer_id <> auth.uid());
+    when 'generated_image' then
+      return exists (select 1 from public.generated_images where id = report_target_id and user_id <> auth.uid());
+  end case;
+end;
+$$;
+
+grant execute on function public.can_report_content(public.report_target_type, uuid) to authenticated;
+
+-- rls policies for content_reports
+create policy "allow users to report content they can see" on public.content_reports for insert
+    with check (
+        auth.uid() = reporter_id
+        and status = 'pending'
+        and public.can_report_content(target_type, target_id)
+    );
+create policy "allow users to view their own reports" on public.content_reports for select
+    using (auth.uid() = reporter_id);
+create policy "allow admins to read all reports" on public.content_reports for select
+    using (public.is_admin());
+create policy "allow admins to resolve reports" on public.content_reports for update
+    using (public.is_admin())
+    with check (public.is_admin());
+
+-- admins moderate reported proposals and images
+create policy "allow admins to read all proposals" on public.proposals for select
+    using (public.is_admin());
+create policy "allow admins to update proposals" on public.proposals for update
+    using (public.is_admin())
+    with check (public.is_admin());
+
+create policy "allow admins to read all generated images" on public.generated_images for select
+    using (public.is_admin());
+create policy "allow admins to update generated images" on public.generated_images for update
+    using (public.is_admin())
+    with check (public.is_admin());
+
+-- hidden content is left out of what other users can see
+drop policy "allow authenticated users to view open projects" on public.projects;
+create policy "allow authenticated users to view open projects" on public.projects for select
+    using (status = 'open' and hidden_at is null);
+
+drop policy "allow clients to view proposals on their projects" on public.proposals;
+create policy "allow clients to view proposals on their projects" on public.proposals for select
+    using (
+        hidden_at is null
+        and exists (
+            select 1
+            from public.projects
+            where projects.id = proposals.project_id
+            and projects.client_id = auth.uid()
+        )
+    );
+
+drop policy "allow authenticated users to read images used in projects" on public.generated_images;
+create policy "allow authenticated users to read images used in projects" on public.generated_images for select
+    using (
+        auth.role() = 'authenticated'
+        and hidden_at is null
+        and exists (
+            select 1
+            from public.projects
+            where projects.generated_image_id = generated_images.id
+        )
+    );
+
+-- owners cannot unhide their own content; only admins and the security definer functions below can change it.
+-- security invoker on purpose: current_user is 'authenticated' for api requests and the function owner inside
+-- hide_reported_content().
+create or replace function public.protect_content_moderation()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user = 'authenticated' and not public.is_admin() then
+    new.hidden_at := old.hidden_at;
+    new.hidden_reason := old.hidden_reason;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger protect_project_moderation
+  before update on public.projects
+  for each row execute function public.protect_content_moderation();
+
+create trigger protect_proposal_moderation
+  before update on public.proposals
+  for each row execute function public.protect_content_moderation();
+
+create trigger protect_generated_image_moderation
+  before update on public.generated_images
+  for each row execute function public.protect_content_moderation();
+
+-- hides reported content once 3 different users have pending reports on it
+create or replace function public.hide_reported_content()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  report_threshold constant int := 3;
+  reporters_count int;
+  auto_hidden_reason constant text := 'Ukryto automatycznie po zgłoszeniach użytkowników';
+begin
+  select count(distinct reporter_id)
+  into reporters_count
+  from public.content_reports
+  where target_type = new.target_type and target_id = new.target_id and status = 'pending';
+
+  if reporters_count < report_threshold then
+    return new;
+  end if;
+
+  case new.target_type
+    when 'project' then
+      update public.projects set hidden_at = now(), hidden_reason = auto_hidden_reason
+      where id = new.target_id and hidden_at is null;
+    when 'proposal' then
+      update public.proposals set hidden_at = now(), hidden_reason = auto_hidden_reason
+      where id = new.target_id and hidden_at is null;
+    when 'review' then
+      update public.reviews set hidden_at = now(), hidden_reason = auto_hidden_reason
+      where id = new.target_id and hidden_at is null;
+    when 'generated_image' then
+      update public.generated_images set hidden_at = now(), hidden_reason = auto_hidden_reason
+      where id = new.target_id and hidden_at is null;
+  end case;
+
+  return new;
+end;
+$$;
+
+create trigger on_content_reported_hide_content
+  after insert on public.content_reports
+  for each row execute function public.hide_reported_content();
@@ -0,0 +1,139 @@
+-- migration: add_artisan_verification
+-- description: adds verification of artisan companies: moderators look the nip up in the business registry and
+--              the verified company name and address are stored on the artisan profile. a registry name that does
+--              not match the company name of the profile is left for manual review (needs_review)
+-- impacted_tables: artisan_profiles, moderation_actions
+-- special_notes: the lookup runs in the application (AdminService.verifyArtisan), so only admins can change the
+--                verification state; values written by the artisan are ignored. changing the nip or the company
+--                name resets the profile to unverified. admin_list_users() returns the verification status and
+--                the registered company name.
+
+-- custom types
+create type public.verification_status as enum ('unverified', 'verified', 'needs_review', 'failed');
+
+alter type public.moderation_action add value 'artisan_nip_checked';
+
+-- verification state of the company, as returned by the business registry
+alter table public.artisan_profiles
+    add column verification_status public.verification_status not null default 'unverified',
+    add column verified_company_name text,
+    add column verified_address text,
+    add column verified_at timestamptz;
+
+-- only admins can change the verification state; a new nip or company name has to be verified again
+create or replace function public.protect_artisan_verification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    if tg_op = 'INSERT'
+       or new.nip is distinct from old.nip
+       or new.company_name is distinct from old.company_name then
+      new.verification_status := 'unverified';
+      new.verified_company_name := null;
+      new.verified_address := null;
+      new.verified_at := null;
+    else
+      new.verification_status := old.verification_status;
+      new.verified_company_name := old.verified_company_name;
+      new.verified_address := old.verified_address;
+      new.verified_at := old.verified_at;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger protect_artisan_verification
+  before insert or update on public.artisan_profiles
+  for each row execute function public.protect_artisan_verification();
+
+-- return the verification status of artisans in the admin console
+create or replace function public.admin_list_users(
+  search_query text default null,
+  role_filter public.user_role default null,
+  page_num int default 1,
+  page_size int default 20
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  offset_val int;
+  total_count int;
+  users_data jsonb;
+  pattern text;
+begin
+  if not public.is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  if page_num < 1 then
+    page_num := 1;
+  end if;
+
+  if page_size < 1 or page_size > 100 then
+    page_size := 20;
+  end if;
+
+  offset_val := (page_num - 1) * page_size;
+  -- the search is matched literally: % and _ (and the \ escape character) are escaped for ilike
+  pattern := case when nullif(trim(search_query), '') is null then null
+                  else '%' || replace(replace(replace(trim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' end;
+
+  select count(*)
+  into total_count
+  from public.users u
+  inner join auth.users au on au.id = u.id
+  left join public.user_profiles up on up.user_id = u.id
+  left join public.artisan_profiles ap on ap.user_id = u.id
+  where (role_filter is null or u.role = role_filter)
+    and (pattern is null or au.email ilike pattern or up.display_name ilike pattern or ap.company_name ilike pattern);
+
+  select jsonb_agg(user_obj)
+  into users_data
+  from (
+    select jsonb_build_object(
+      'id', u.id,
+      'email', au.email,
+      'role', u.role,
+      'display_name', up.display_name,
+      'company_name', ap.company_name,
+      'is_public', ap.is_public,
+      'verification_status', ap.verification_status,
+      'verified_company_name', ap.verified_company_name,
+      'suspended_at', u.suspended_at,
+      'suspension_reason', u.suspension_reason,
+      'created_at', u.created_at
+    ) as user_obj
+    from public.users u
+    inner join auth.users au on au.id = u.id
+    left join public.user_profiles up on up.user_id = u.id
+    left join public.artisan_profiles ap on ap.user_id = u.id
+    where (role_filter is null or u.role = role_filter)
+      and (pattern is null or au.email ilike pattern or up.display_name ilike pattern or ap.company_name ilike pattern)
+    order by u.created_at desc
+    limit page_size
+    offset offset_val
+  ) subquery;
+
+  return jsonb_build_object(
+    'data', coalesce(users_data, '[]'::jsonb),
+    'pagination', jsonb_build_object(
+      'page', page_num,
+      'limit', page_size,
+      'total', total_count,
+      'total_pages', ceil(total_count::numeric / page_size::numeric)
+    )
+  );
+end;
+$$;
+
+grant execute on function public.admin_list_users(text, public.user_role, int, int) to authenticated;
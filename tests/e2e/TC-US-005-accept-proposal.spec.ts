@@ -124,14 +124,17 @@ describeOrSkip("TC-US-005: Accept Proposal Flow", () => {
       await page.getByRole("option", { name: /dąb/i }).click();
 
       // Opcjonalnie: wymiary i budżet
-      const dimensionsInput = page.getByLabel(/wymiar/i);
-      if (await dimensionsInput.isVisible().catch(() => false)) {
-        await dimensionsInput.fill("45x50x85 cm");
+      const widthInput = page.getByLabel(/szerokość/i);
+      if (await widthInput.isVisible().catch(() => false)) {
+        await widthInput.fill("45");
+        await page.getByLabel(/głębokość/i).fill("50");
+        await page.getByLabel(/wysokość/i).fill("85");
       }
 
-      const budgetInput = page.getByLabel(/budżet/i);
-      if (await budgetInput.isVisible().catch(() => false)) {
-        await budgetInput.fill("1000-2000 PLN");
+      const budgetMinInput = page.locator("#budget_min");
+      if (await budgetMinInput.isVisible().catch(() => false)) {
+        await budgetMinInput.fill("1000");
+        await page.locator("#budget_max").fill("2000");
       }
 
       // Zapisz projekt
@@ -205,7 +208,7 @@ describeOrSkip("TC-US-005: Accept Proposal Flow", () => {
           await companyNameInput.fill("Test Stolarstwo E2E");
 
           const nipInput = page.getByLabel(/nip/i);
-          await nipInput.fill("1234567890");
+          await nipInput.fill("1234563218");
 
           const saveProfileButton = page.getByRole("button", { name: /zapisz/i });
           await saveProfileButton.click();
@@ -127,7 +127,7 @@ export const TEST_USERS = {
     email: "test.artisan@example.com",
     password: "TestPassword123!@#",
     type: "rzemieślnik" as const,
-    nip: "1234567890",
+    nip: "1234563218",
   },
 };
 
@@ -37,9 +37,11 @@ const createMockContext = (
 // Mock Supabase client
 const createMockSupabaseClient = () => {
   const mockFrom = vi.fn();
+  const mockRpc = vi.fn().mockResolvedValue({ data: null, error: null });
 
   return {
     from: mockFrom,
+    rpc: mockRpc,
   } as unknown as SupabaseClient;
 };
 
@@ -348,6 +350,7 @@ describe("Integration: POST /api/projects/{projectId}/accept-proposal", () => {
         id: "550e8400-e29b-41d4-a716-446655440001",
         project_id: "550e8400-e29b-41d4-a716-446655440000",
         price: 2500,
+        status: "pending",
       };
 
       const mockUpdatedProject = {
@@ -376,20 +379,16 @@ describe("Integration: POST /api/projects/{projectId}/accept-proposal", () => {
         }),
       };
 
-      const updateChain = {
-        update: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        select: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: mockUpdatedProject,
-          error: null,
-        }),
+      const notificationChain = {
+        insert: vi.fn().mockResolvedValue({ error: null }),
       };
 
+      (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ data: mockUpdatedProject, error: null });
+
       (mockSupabase.from as ReturnType<typeof vi.fn>)
         .mockReturnValueOnce(projectChain)
         .mockReturnValueOnce(proposalChain)
-        .mockReturnValueOnce(updateChain);
+        .mockReturnValue(notificationChain);
 
       const body = { proposal_id: "550e8400-e29b-41d4-a716-446655440001" };
       const context = createMockContext(
@@ -44,6 +44,7 @@ const createMockSupabaseClient = () => {
   return {
     from: mockFrom,
     storage: mockStorage,
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
   } as unknown as SupabaseClient;
 };
 
@@ -75,7 +76,9 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
     it("powinien zwrócić 401 gdy użytkownik nie jest zalogowany", async () => {
       const formData = new FormData();
       formData.append("price", "2500");
-      formData.append("attachment", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("lead_time_days", "21");
+      formData.append("attachments", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
 
       const context = createMockContext({ projectId: "project-uuid" }, formData, null);
 
@@ -95,7 +98,9 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
     it("powinien zwrócić 400 gdy projectId jest nieprawidłowy", async () => {
       const formData = new FormData();
       formData.append("price", "2500");
-      formData.append("attachment", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("lead_time_days", "21");
+      formData.append("attachments", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
 
       const mockUser = { id: "artisan-uuid", role: "artisan" };
       const context = createMockContext({ projectId: "invalid-uuid" }, formData, mockUser);
@@ -110,7 +115,9 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
     it("powinien zwrócić 400 gdy price jest nieprawidłowa", async () => {
       const formData = new FormData();
       formData.append("price", "-100"); // Negative price
-      formData.append("attachment", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("lead_time_days", "21");
+      formData.append("attachments", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
 
       const mockUser = { id: "artisan-uuid", role: "artisan" };
       const context = createMockContext({ projectId: "123e4567-e89b-12d3-a456-426614174000" }, formData, mockUser);
@@ -123,10 +130,64 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
       expect(json.error.message).toContain("dodatnia");
     });
 
+    it("powinien zwrócić 400 gdy brakuje czasu realizacji", async () => {
+      const formData = new FormData();
+      formData.append("price", "2500");
+      formData.append("attachments", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
+
+      const mockUser = { id: "artisan-uuid", role: "artisan" };
+      const context = createMockContext({ projectId: "123e4567-e89b-12d3-a456-426614174000" }, formData, mockUser);
+
+      const response = await POST(context);
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.message).toBe("Czas realizacji jest wymagany");
+    });
+
+    it("powinien zwrócić 400 gdy data ważności oferty jest w przeszłości", async () => {
+      const formData = new FormData();
+      formData.append("price", "2500");
+      formData.append("lead_time_days", "21");
+      formData.append("valid_until", "2020-01-31");
+      formData.append("attachments", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
+
+      const mockUser = { id: "artisan-uuid", role: "artisan" };
+      const context = createMockContext({ projectId: "123e4567-e89b-12d3-a456-426614174000" }, formData, mockUser);
+
+      const response = await POST(context);
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.message).toBe("Data ważności oferty nie może być w przeszłości");
+    });
+
+    it("powinien zwrócić 400 gdy załącznik nie ma podpisu", async () => {
+      const formData = new FormData();
+      formData.append("price", "2500");
+      formData.append("lead_time_days", "21");
+      formData.append("attachments", createMockFile("quote.pdf", 1024, "application/pdf"));
+      formData.append("attachments", createMockFile("drawing.png", 1024, "image/png"));
+      formData.append("captions", "Wycena");
+
+      const mockUser = { id: "artisan-uuid", role: "artisan" };
+      const context = createMockContext({ projectId: "123e4567-e89b-12d3-a456-426614174000" }, formData, mockUser);
+
+      const response = await POST(context);
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.message).toBe("Podpis załącznika jest wymagany");
+    });
+
     it("powinien zwrócić 400 gdy attachment jest za duży", async () => {
       const formData = new FormData();
       formData.append("price", "2500");
-      formData.append("attachment", createMockFile("large.pdf", 6 * 1024 * 1024, "application/pdf"));
+      formData.append("lead_time_days", "21");
+      formData.append("attachments", createMockFile("large.pdf", 6 * 1024 * 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
 
       const mockUser = { id: "artisan-uuid", role: "artisan" };
       const context = createMockContext({ projectId: "123e4567-e89b-12d3-a456-426614174000" }, formData, mockUser);
@@ -142,7 +203,9 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
     it("powinien zwrócić 400 gdy attachment ma nieprawidłowy typ", async () => {
       const formData = new FormData();
       formData.append("price", "2500");
-      formData.append("attachment", createMockFile("document.txt", 1024, "text/plain"));
+      formData.append("lead_time_days", "21");
+      formData.append("attachments", createMockFile("document.txt", 1024, "text/plain"));
+      formData.append("captions", "Wycena");
 
       const mockUser = { id: "artisan-uuid", role: "artisan" };
       const context = createMockContext({ projectId: "123e4567-e89b-12d3-a456-426614174000" }, formData, mockUser);
@@ -160,7 +223,9 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
     it("powinien zwrócić 404 gdy projekt nie istnieje", async () => {
       const formData = new FormData();
       formData.append("price", "2500");
-      formData.append("attachment", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("lead_time_days", "21");
+      formData.append("attachments", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
 
       const mockUser = { id: "artisan-uuid", role: "artisan" };
       const context = createMockContext({ projectId: "123e4567-e89b-12d3-a456-426614174000" }, formData, mockUser);
@@ -203,7 +268,9 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
     it("powinien zwrócić 409 gdy rzemieślnik już złożył propozycję", async () => {
       const formData = new FormData();
       formData.append("price", "2500");
-      formData.append("attachment", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("lead_time_days", "21");
+      formData.append("attachments", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
 
       const mockUser = { id: "artisan-uuid", role: "artisan" };
       const context = createMockContext({ projectId: "123e4567-e89b-12d3-a456-426614174000" }, formData, mockUser);
@@ -265,7 +332,13 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
     it("powinien utworzyć propozycję i zwrócić 201 z danymi", async () => {
       const formData = new FormData();
       formData.append("price", "2500");
-      formData.append("attachment", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("lead_time_days", "21");
+      formData.append("scope_description", "Stół z litego dębu, olejowany");
+      formData.append("inclusions", "delivery");
+      formData.append("inclusions", "assembly");
+      formData.append("valid_until", "2099-12-31");
+      formData.append("attachments", createMockFile("proposal.pdf", 1024, "application/pdf"));
+      formData.append("captions", "Wycena");
 
       const mockUser = { id: "artisan-uuid", role: "artisan" };
       const projectId = "123e4567-e89b-12d3-a456-426614174000";
@@ -304,13 +377,8 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
         error: null,
       });
 
-      const mockStorageGetPublicUrl = vi.fn().mockReturnValue({
-        data: { publicUrl: "https://storage.example.com/proposal.pdf" },
-      });
-
       const mockStorageFrom = vi.fn().mockReturnValue({
         upload: mockStorageUpload,
-        getPublicUrl: mockStorageGetPublicUrl,
       });
 
       // Mock: Proposal insert
@@ -321,7 +389,11 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
           id: "new-proposal-uuid",
           project_id: projectId,
           price: 2500,
-          attachment_url: "https://storage.example.com/proposal.pdf",
+          lead_time_days: 21,
+          scope_description: "Stół z litego dębu, olejowany",
+          inclusions: ["delivery", "assembly"],
+          valid_until: "2099-12-31",
+          attachment_url: "artisan-uuid/project-uuid/proposal.pdf",
           created_at: "2025-10-21T12:00:00Z",
           artisan: {
             id: mockUser.id,
@@ -333,29 +405,46 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
         error: null,
       });
 
-      // Mock: Artisan profile
-      const mockArtisanProfileSelect = vi.fn().mockReturnThis();
-      const mockArtisanProfileEq = vi.fn().mockReturnThis();
-      const mockArtisanProfileSingle = vi.fn().mockResolvedValue({
-        data: { company_name: "Test Company" },
+      // Mock: Attachment metadata insert
+      const savedAttachment = {
+        id: "attachment-uuid",
+        file_url: "artisan-uuid/project-uuid/proposal.pdf",
+        file_name: "proposal.pdf",
+        mime_type: "application/pdf",
+        size_bytes: 1024,
+        caption: "Wycena",
+      };
+      const mockAttachmentsInsert = vi.fn().mockReturnThis();
+      const mockAttachmentsSelect = vi.fn().mockResolvedValue({ data: [savedAttachment], error: null });
+
+      // Mock: Artisan details fetched in bulk (profile, specializations, portfolio, reviews)
+      const mockArtisanProfileIn = vi.fn().mockResolvedValue({
+        data: [
+          {
+            user_id: mockUser.id,
+            company_name: "Test Company",
+            verification_status: "verified",
+            verified_company_name: "TEST COMPANY SP. Z O.O.",
+          },
+        ],
         error: null,
       });
-
-      // Mock: Reviews count query
-      const mockReviewsCountSelect = vi.fn().mockReturnThis();
-      const mockReviewsCountEq = vi.fn().mockReturnThis();
-      const mockReviewsCount = vi.fn().mockResolvedValue({
-        count: 5,
+      const mockSpecializationsIn = vi.fn().mockResolvedValue({
+        data: [{ artisan_id: mockUser.id, specializations: { id: "spec-1", name: "Stoły" } }],
         error: null,
       });
-
-      // Mock: Reviews average rating query
-      const mockReviewsRatingSelect = vi.fn().mockReturnThis();
-      const mockReviewsRatingEq = vi.fn().mockResolvedValue({
-        data: [{ rating: 4.5 }],
+      const mockPortfolioOrder = vi.fn().mockResolvedValue({ data: [], error: null });
+      const mockReviewsIn = vi.fn().mockResolvedValue({
+        data: [
+          { reviewee_id: mockUser.id, rating: 4 },
+          { reviewee_id: mockUser.id, rating: 5 },
+        ],
         error: null,
       });
 
+      // Mock: Notification for the project owner
+      const mockNotificationInsert = vi.fn().mockResolvedValue({ error: null });
+
       (context.locals.supabase.from as ReturnType<typeof vi.fn>)
         .mockReturnValueOnce({
           select: mockUserSelect,
@@ -378,18 +467,28 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
           single: mockProposalSingle,
         })
         .mockReturnValueOnce({
-          select: mockArtisanProfileSelect,
-          eq: mockArtisanProfileEq,
-          single: mockArtisanProfileSingle,
+          insert: mockAttachmentsInsert,
+          select: mockAttachmentsSelect,
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          in: mockArtisanProfileIn,
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          in: mockSpecializationsIn,
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
+          order: mockPortfolioOrder,
         })
         .mockReturnValueOnce({
-          select: mockReviewsCountSelect,
-          eq: mockReviewsCountEq,
-          count: mockReviewsCount,
+          select: vi.fn().mockReturnThis(),
+          in: mockReviewsIn,
         })
         .mockReturnValueOnce({
-          select: mockReviewsRatingSelect,
-          eq: mockReviewsRatingEq,
+          insert: mockNotificationInsert,
         });
 
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -402,11 +501,51 @@ describe("Integration: POST /api/projects/{projectId}/proposals", () => {
       expect(json.id).toBe("new-proposal-uuid");
       expect(json.project_id).toBe(projectId);
       expect(json.price).toBe(2500);
-      expect(json.attachment_url).toBe("https://storage.example.com/proposal.pdf");
-      expect(json.artisan).toMatchObject({
+      expect(json.lead_time_days).toBe(21);
+      expect(json.inclusions).toEqual(["delivery", "assembly"]);
+      expect(json.valid_until).toBe("2099-12-31");
+      expect(mockInsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lead_time_days: 21,
+          scope_description: "Stół z litego dębu, olejowany",
+          inclusions: ["delivery", "assembly"],
+          valid_until: "2099-12-31",
+        })
+      );
+      expect(json.attachment_url).toBe("/api/proposals/new-proposal-uuid/attachments/attachment-uuid");
+      expect(json.attachments).toEqual([
+        { ...savedAttachment, file_url: "/api/proposals/new-proposal-uuid/attachments/attachment-uuid" },
+      ]);
+      expect(mockAttachmentsInsert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          proposal_id: "new-proposal-uuid",
+          file_url: mockStorageUpload.mock.calls[0][0],
+          file_name: "proposal.pdf",
+          caption: "Wycena",
+          position: 0,
+        }),
+      ]);
+      expect(json.artisan).toEqual({
         user_id: mockUser.id,
         company_name: "Test Company",
+        display_name: null,
+        avatar_url: null,
+        city: null,
+        is_verified: true,
+        verified_company_name: "TEST COMPANY SP. Z O.O.",
+        average_rating: 4.5,
+        total_reviews: 2,
+        specializations: [{ id: "spec-1", name: "Stoły" }],
+        portfolio_images: [],
       });
+      expect(mockNotificationInsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: "client-uuid",
+          actor_id: mockUser.id,
+          type: "proposal_received",
+          project_id: projectId,
+        })
+      );
     });
   });
 });
@@ -82,7 +82,7 @@ describe("Integration: GET /api/artisans/{artisanId}", () => {
           data: {
             user_id: artisanId,
             company_name: "Test Company",
-            nip: "1234567890",
+            nip: "1234563218",
             is_public: false,
             updated_at: "2025-10-21T12:00:00Z",
           },
@@ -142,7 +142,7 @@ describe("Integration: GET /api/artisans/{artisanId}", () => {
           data: {
             user_id: artisanId,
             company_name: "Amazing Furniture Co.",
-            nip: "1234567890",
+            nip: "1234563218",
             is_public: true,
             updated_at: "2025-10-21T12:00:00Z",
           },
@@ -211,7 +211,7 @@ describe("Integration: GET /api/artisans/{artisanId}", () => {
       expect(json).toMatchObject({
         user_id: artisanId,
         company_name: "Amazing Furniture Co.",
-        nip: "1234567890",
+        nip: "1234563218",
         is_public: true,
         specializations: [
           { id: "spec-1", name: "Stoły" },
@@ -51,8 +51,13 @@ const createMockProjectData = (clientId: string, overrides = {}) => ({
   id: "project-uuid-1",
   client_id: clientId,
   status: "open",
-  dimensions: "200x100x75 cm",
-  budget_range: "5000-8000 PLN",
+  width: 200,
+  depth: 100,
+  height: 75,
+  dimension_unit: "cm",
+  budget_min: 5000,
+  budget_max: 8000,
+  budget_currency: "PLN",
   accepted_proposal_id: null,
   accepted_price: null,
   created_at: "2025-10-19T12:00:00Z",
@@ -378,7 +383,7 @@ describe("Integration: GET /api/projects/me", () => {
       expect(project).toHaveProperty("client_id");
       expect(project).toHaveProperty("status");
       expect(project).toHaveProperty("dimensions");
-      expect(project).toHaveProperty("budget_range");
+      expect(project).toHaveProperty("budget");
       expect(project).toHaveProperty("accepted_proposal_id");
       expect(project).toHaveProperty("accepted_price");
       expect(project).toHaveProperty("proposals_count");
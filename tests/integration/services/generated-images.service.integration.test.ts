@@ -3,10 +3,6 @@ import type { SupabaseClient } from "@/db/supabase.client";
 import { GeneratedImagesService } from "@/lib/services/generated-images.service";
 import type { GeneratedImagesQueryParams } from "@/types";
 
-vi.mock("@/lib/services/ai-image.service", () => ({
-  getMaxFreeGenerations: vi.fn(() => 10),
-}));
-
 /**
  * Integracja testowa: GeneratedImagesService + Supabase
  *
@@ -31,6 +27,8 @@ describe("Integration: GeneratedImagesService", () => {
     image_url: `https://images.example.com/${id}.jpg`,
     created_at: createdAt,
     is_used: isUsed,
+    parent_image_id: null,
+    root_image_id: null,
   });
 
   const createMockSupabase = (selectResolvedValues: unknown[]) => {
@@ -48,6 +46,9 @@ describe("Integration: GeneratedImagesService", () => {
 
           return Object.assign(promise, {
             eq: vi.fn(() => createChainable(value)),
+            is: vi.fn(() => createChainable(value)),
+            gte: vi.fn(() => createChainable(value)),
+            single: vi.fn(() => createChainable(value)),
             not: vi.fn(() => createChainable(value)),
             in: vi.fn(() => createChainable(value)),
             order: vi.fn(() => createChainable(value)),
@@ -76,7 +77,8 @@ describe("Integration: GeneratedImagesService", () => {
       const mockSelect = [
         { count: 0, error: null },
         { data: [], error: null },
-        { count: 0, error: null }, // total images count for quota
+        { data: { plan: "free", generation_quota_overrides: null }, error: null }, // user plan for quota
+        { count: 0, error: null }, // generations this month (quota ledger)
       ];
 
       mockSupabase = createMockSupabase(mockSelect);
@@ -115,7 +117,8 @@ describe("Integration: GeneratedImagesService", () => {
       const mockSelect = [
         { count: 12, error: null },
         { data: mockImages.slice(0, 5), error: null },
-        { count: 12, error: null }, // total images count for quota
+        { data: { plan: "free", generation_quota_overrides: null }, error: null }, // user plan for quota
+        { count: 12, error: null }, // generations this month (quota ledger)
       ];
 
       mockSupabase = createMockSupabase(mockSelect);
@@ -144,7 +147,8 @@ describe("Integration: GeneratedImagesService", () => {
       const mockSelect = [
         { count: 12, error: null },
         { data: mockImages.slice(10, 12), error: null },
-        { count: 12, error: null }, // total images count for quota
+        { data: { plan: "free", generation_quota_overrides: null }, error: null }, // user plan for quota
+        { count: 12, error: null }, // generations this month (quota ledger)
       ];
 
       mockSupabase = createMockSupabase(mockSelect);
@@ -175,11 +179,12 @@ describe("Integration: GeneratedImagesService", () => {
       ];
 
       // Z filtrowanym unused_only=true, zwracamy tylko nieużyte obrazy (is_used=false)
-      // Dodajemy trzecie zapytanie dla total images (quota calculation)
+      // Kolejne zapytania dotyczą limitu generacji (plan użytkownika i rejestr generacji)
       const mockSelect = [
         { count: 2, error: null }, // count dla filtered query
         { data: mockImages, error: null }, // data dla filtered query
-        { count: 5, error: null }, // count dla total images (quota)
+        { data: { plan: "free", generation_quota_overrides: null }, error: null }, // user plan for quota
+        { count: 5, error: null }, // generations this month (quota ledger)
       ];
 
       mockSupabase = createMockSupabase(mockSelect);
@@ -212,7 +217,8 @@ describe("Integration: GeneratedImagesService", () => {
       const mockSelect = [
         { count: 3, error: null },
         { data: mockImages, error: null },
-        { count: 3, error: null }, // total images count for quota
+        { data: { plan: "free", generation_quota_overrides: null }, error: null }, // user plan for quota
+        { count: 3, error: null }, // generations this month (quota ledger)
       ];
 
       mockSupabase = createMockSupabase(mockSelect);
@@ -243,7 +249,8 @@ describe("Integration: GeneratedImagesService", () => {
       const mockSelect = [
         { count: 7, error: null },
         { data: mockImages, error: null },
-        { count: 7, error: null }, // total images count for quota
+        { data: { plan: "free", generation_quota_overrides: null }, error: null }, // user plan for quota
+        { count: 7, error: null }, // generations this month (quota ledger)
       ];
 
       mockSupabase = createMockSupabase(mockSelect);
@@ -269,7 +276,8 @@ describe("Integration: GeneratedImagesService", () => {
       const mockSelect = [
         { count: 10, error: null },
         { data: mockImages, error: null },
-        { count: 10, error: null }, // total images count for quota
+        { data: { plan: "free", generation_quota_overrides: null }, error: null }, // user plan for quota
+        { count: 10, error: null }, // generations this month (quota ledger)
       ];
 
       mockSupabase = createMockSupabase(mockSelect);
@@ -279,6 +287,60 @@ describe("Integration: GeneratedImagesService", () => {
 
       expect(result.remaining_generations).toBe(0);
     });
+
+    it("stosuje limit planu premium i zwraca datę odnowienia", async () => {
+      const params: Required<GeneratedImagesQueryParams> & {
+        page: number;
+        limit: number;
+      } = {
+        page: 1,
+        limit: 20,
+        unused_only: false,
+      };
+
+      const mockSelect = [
+        { count: 0, error: null },
+        { data: [], error: null },
+        { data: { plan: "premium", generation_quota_overrides: null }, error: null },
+        { count: 40, error: null },
+      ];
+
+      mockSupabase = createMockSupabase(mockSelect);
+      service = new GeneratedImagesService(mockSupabase);
+
+      const result = await service.listUserGeneratedImages(mockUserId, params);
+
+      // Usunięte obrazy nie zwracają limitu - liczą się zdarzenia w rejestrze, nie wiersze obrazów
+      expect(result.remaining_generations).toBe(60);
+      expect(result.quota).toMatchObject({ plan: "premium", limit: 100, used: 40, is_override: false });
+      expect(new Date(result.quota.resets_at).getUTCDate()).toBe(1);
+    });
+
+    it("stosuje limit ustawiony przez administratora", async () => {
+      const params: Required<GeneratedImagesQueryParams> & {
+        page: number;
+        limit: number;
+      } = {
+        page: 1,
+        limit: 20,
+        unused_only: false,
+      };
+
+      const mockSelect = [
+        { count: 0, error: null },
+        { data: [], error: null },
+        { data: { plan: "free", generation_quota_overrides: { monthly_limit: 25 } }, error: null },
+        { count: 12, error: null },
+      ];
+
+      mockSupabase = createMockSupabase(mockSelect);
+      service = new GeneratedImagesService(mockSupabase);
+
+      const result = await service.listUserGeneratedImages(mockUserId, params);
+
+      expect(result.remaining_generations).toBe(13);
+      expect(result.quota).toMatchObject({ limit: 25, is_override: true });
+    });
   });
 
   describe("Błędy", () => {
@@ -338,7 +400,8 @@ describe("Integration: GeneratedImagesService", () => {
       const mockSelect = [
         { count: 1000, error: null },
         { data: mockImages, error: null },
-        { count: 1000, error: null }, // total images count for quota
+        { data: { plan: "free", generation_quota_overrides: null }, error: null }, // user plan for quota
+        { count: 1000, error: null }, // generations this month (quota ledger)
       ];
 
       mockSupabase = createMockSupabase(mockSelect);
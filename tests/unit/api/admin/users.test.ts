@@ -0,0 +1,172 @@
+/**
+ * Unit Tests: /api/admin/users
+ *
+ * Tests the admin-only user list and the suspension endpoints: authentication,
+ * the admin role check, validation and mapping of moderation errors.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "@/pages/api/admin/users/index";
+import { POST, DELETE } from "@/pages/api/admin/users/[userId]/suspend";
+import { AdminError } from "@/lib/services/admin.service";
+import type { APIContext } from "astro";
+
+// Mock AdminService
+const mockListUsers = vi.fn();
+const mockSuspendUser = vi.fn();
+const mockReinstateUser = vi.fn();
+
+vi.mock("@/lib/services/admin.service", () => {
+  return {
+    AdminService: vi.fn().mockImplementation(() => ({
+      listUsers: mockListUsers,
+      suspendUser: mockSuspendUser,
+      reinstateUser: mockReinstateUser,
+    })),
+    AdminError: class AdminError extends Error {
+      constructor(
+        message: string,
+        public code: string,
+        public statusCode = 400
+      ) {
+        super(message);
+        this.name = "AdminError";
+      }
+    },
+  };
+});
+
+const adminId = "11111111-1111-4111-8111-111111111111";
+const userId = "22222222-2222-4222-8222-222222222222";
+
+function createMockContext(
+  options: {
+    role?: string | null;
+    query?: Record<string, string>;
+    body?: unknown;
+    params?: Record<string, string>;
+  } = {}
+): APIContext {
+  const { role = "admin", query = {}, body, params = { userId } } = options;
+  const url = new URL("http://localhost:3000/api/admin/users");
+  Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  return {
+    params,
+    request: {
+      url: url.toString(),
+      json: vi.fn().mockResolvedValue(body),
+    } as unknown as Request,
+    locals: {
+      supabase: {} as APIContext["locals"]["supabase"],
+      user: role === null ? null : ({ id: adminId } as APIContext["locals"]["user"]),
+      userRole: role ?? undefined,
+    },
+  } as unknown as APIContext;
+}
+
+describe("Unit: /api/admin/users", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET", () => {
+    it("powinien zwrócić listę użytkowników administratorowi", async () => {
+      const result = { data: [], pagination: { page: 1, limit: 20, total: 0, total_pages: 0 } };
+      mockListUsers.mockResolvedValueOnce(result);
+
+      const response = await GET(createMockContext({ query: { search: " kowalski ", role: "artisan" } }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(result);
+      expect(mockListUsers).toHaveBeenCalledWith({ search: "kowalski", role: "artisan", page: 1, limit: 20 });
+    });
+
+    it("powinien zwrócić 401 dla niezalogowanego użytkownika", async () => {
+      const response = await GET(createMockContext({ role: null }));
+
+      expect(response.status).toBe(401);
+    });
+
+    it("powinien zwrócić 403 dla użytkownika bez roli administratora", async () => {
+      const clientResponse = await GET(createMockContext({ role: "client" }));
+      const artisanResponse = await GET(createMockContext({ role: "artisan" }));
+
+      expect(clientResponse.status).toBe(403);
+      expect(artisanResponse.status).toBe(403);
+      expect(mockListUsers).not.toHaveBeenCalled();
+    });
+
+    it("powinien zwrócić 422 dla nieznanej roli", async () => {
+      const response = await GET(createMockContext({ query: { role: "moderator" } }));
+      const data = await response.json();
+
+      expect(response.status).toBe(422);
+      expect(data.error.details.role).toBe("Nieprawidłowa rola");
+    });
+  });
+
+  describe("POST /{userId}/suspend", () => {
+    it("powinien zawiesić użytkownika z podanym powodem", async () => {
+      mockSuspendUser.mockResolvedValueOnce(undefined);
+
+      const response = await POST(createMockContext({ body: { reason: "  Fałszywe oferty " } }));
+
+      expect(response.status).toBe(204);
+      expect(mockSuspendUser).toHaveBeenCalledWith(adminId, userId, "Fałszywe oferty");
+    });
+
+    it("powinien zwrócić 422 bez powodu", async () => {
+      const response = await POST(createMockContext({ body: {} }));
+
+      expect(response.status).toBe(422);
+      expect(mockSuspendUser).not.toHaveBeenCalled();
+    });
+
+    it("powinien zwrócić 400 dla nieprawidłowego ID użytkownika", async () => {
+      const response = await POST(createMockContext({ body: { reason: "Spam" }, params: { userId: "abc" } }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it("powinien zwrócić 403 dla użytkownika bez roli administratora", async () => {
+      const response = await POST(createMockContext({ role: "client", body: { reason: "Spam" } }));
+
+      expect(response.status).toBe(403);
+      expect(mockSuspendUser).not.toHaveBeenCalled();
+    });
+
+    it("powinien przekazać błąd moderacji z serwisu", async () => {
+      mockSuspendUser.mockRejectedValueOnce(
+        new AdminError("Nie można zawiesić administratora", "CANNOT_SUSPEND_ADMIN", 403)
+      );
+
+      const response = await POST(createMockContext({ body: { reason: "Spam" } }));
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error.code).toBe("CANNOT_SUSPEND_ADMIN");
+    });
+  });
+
+  describe("DELETE /{userId}/suspend", () => {
+    it("powinien przywrócić zawieszonego użytkownika", async () => {
+      mockReinstateUser.mockResolvedValueOnce(undefined);
+
+      const response = await DELETE(createMockContext());
+
+      expect(response.status).toBe(204);
+      expect(mockReinstateUser).toHaveBeenCalledWith(adminId, userId);
+    });
+
+    it("powinien zwrócić 409 gdy użytkownik nie jest zawieszony", async () => {
+      mockReinstateUser.mockRejectedValueOnce(
+        new AdminError("Użytkownik nie jest zawieszony", "USER_NOT_SUSPENDED", 409)
+      );
+
+      const response = await DELETE(createMockContext());
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
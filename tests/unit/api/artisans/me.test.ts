@@ -39,7 +39,7 @@ describe("Unit: PUT /api/artisans/me", () => {
             data: {
               user_id: userId,
               company_name: (body as { company_name?: string })?.company_name || "Master Woodworks",
-              nip: (body as { nip?: string })?.nip || "1234567890",
+              nip: (body as { nip?: string })?.nip || "1234563218",
               is_public: false,
               updated_at: new Date().toISOString(),
             },
@@ -81,7 +81,7 @@ describe("Unit: PUT /api/artisans/me", () => {
     it("powinien zwrócić 200 i dane profilu dla poprawnego żądania", async () => {
       const validBody = {
         company_name: "Master Woodworks",
-        nip: "1234567890",
+        nip: "1234563218",
         is_public: false,
       };
 
@@ -93,7 +93,7 @@ describe("Unit: PUT /api/artisans/me", () => {
       const data = await response.json();
       expect(data.user_id).toBe("artisan-123");
       expect(data.company_name).toBe("Master Woodworks");
-      expect(data.nip).toBe("1234567890");
+      expect(data.nip).toBe("1234563218");
       expect(data.is_public).toBe(false);
       expect(data.specializations).toEqual([]);
       expect(data.portfolio_images).toEqual([]);
@@ -102,7 +102,7 @@ describe("Unit: PUT /api/artisans/me", () => {
     it("powinien aktualizować istniejący profil", async () => {
       const updateBody = {
         company_name: "Updated Woodworks",
-        nip: "1234567890",
+        nip: "1234563218",
         is_public: false,
       };
 
@@ -118,7 +118,7 @@ describe("Unit: PUT /api/artisans/me", () => {
 
   describe("Błędy autoryzacji", () => {
     it("powinien zwrócić 401 gdy użytkownik nie jest zalogowany", async () => {
-      const context = createMockContext({ company_name: "Test", nip: "1234567890" });
+      const context = createMockContext({ company_name: "Test", nip: "1234563218" });
       (context.locals.supabase.auth.getUser as ReturnType<typeof vi.fn>).mockResolvedValue({
         data: { user: null },
         error: { message: "Unauthorized" },
@@ -133,7 +133,7 @@ describe("Unit: PUT /api/artisans/me", () => {
     });
 
     it("powinien zwrócić 403 gdy użytkownik nie jest rzemieślnikiem", async () => {
-      const context = createMockContext({ company_name: "Test", nip: "1234567890" }, "client");
+      const context = createMockContext({ company_name: "Test", nip: "1234563218" }, "client");
 
       const response = await PUT(context);
 
@@ -145,7 +145,7 @@ describe("Unit: PUT /api/artisans/me", () => {
     });
 
     it("powinien zwrócić 404 gdy nie znaleziono użytkownika", async () => {
-      const context = createMockContext({ company_name: "Test", nip: "1234567890" });
+      const context = createMockContext({ company_name: "Test", nip: "1234563218" });
       const mockFrom = context.locals.supabase.from as ReturnType<typeof vi.fn>;
 
       mockFrom.mockImplementation((tableName: string) => {
@@ -174,7 +174,7 @@ describe("Unit: PUT /api/artisans/me", () => {
   describe("Błędy walidacji", () => {
     it("powinien zwrócić 422 gdy brak company_name", async () => {
       const invalidBody = {
-        nip: "1234567890",
+        nip: "1234563218",
       };
 
       const context = createMockContext(invalidBody);
@@ -190,7 +190,7 @@ describe("Unit: PUT /api/artisans/me", () => {
     it("powinien zwrócić 422 gdy company_name jest pusty", async () => {
       const invalidBody = {
         company_name: "",
-        nip: "1234567890",
+        nip: "1234563218",
       };
 
       const context = createMockContext(invalidBody);
@@ -252,7 +252,7 @@ describe("Unit: PUT /api/artisans/me", () => {
     it("powinien zwrócić 422 gdy NIP ma za dużo znaków", async () => {
       const invalidBody = {
         company_name: "Master Woodworks",
-        nip: "12345678901",
+        nip: "12345632181",
       };
 
       const context = createMockContext(invalidBody);
@@ -269,7 +269,7 @@ describe("Unit: PUT /api/artisans/me", () => {
     it("powinien zwrócić 409 gdy NIP jest już używany przez innego rzemieślnika", async () => {
       const validBody = {
         company_name: "Master Woodworks",
-        nip: "1234567890",
+        nip: "1234563218",
         is_public: false,
       };
 
@@ -316,7 +316,7 @@ describe("Unit: PUT /api/artisans/me", () => {
     it("powinien zwrócić 500 gdy wystąpi błąd bazy danych", async () => {
       const validBody = {
         company_name: "Test Woodworks",
-        nip: "1234567890",
+        nip: "1234563218",
         is_public: false,
       };
 
@@ -398,7 +398,7 @@ describe("Unit: GET /api/artisans/me", () => {
             data: {
               user_id: userId,
               company_name: "Master Woodworks",
-              nip: "1234567890",
+              nip: "1234563218",
               is_public: false,
               updated_at: new Date().toISOString(),
             },
@@ -487,7 +487,7 @@ describe("Unit: GET /api/artisans/me", () => {
       const data = await response.json();
       expect(data.user_id).toBe("artisan-123");
       expect(data.company_name).toBe("Master Woodworks");
-      expect(data.nip).toBe("1234567890");
+      expect(data.nip).toBe("1234563218");
       expect(data.is_public).toBe(false);
       expect(data.specializations).toHaveLength(1);
       expect(data.specializations[0].name).toBe("Krzesła");
@@ -681,7 +681,7 @@ describe("Unit: GET /api/artisans/me", () => {
               data: {
                 user_id: "artisan-123",
                 company_name: "Workshop",
-                nip: "1234567890",
+                nip: "1234563218",
                 is_public: false,
                 updated_at: new Date().toISOString(),
               },
@@ -5,10 +5,17 @@ import type { APIContext } from "astro";
 // Mock Supabase client
 const mockSupabaseAuth = {
   signInWithPassword: vi.fn(),
+  signOut: vi.fn(),
 };
 
 // Helper function to create mock API context
-function createMockContext(body: unknown): APIContext {
+function createMockContext(body: unknown, suspendedAt: string | null = null): APIContext {
+  const accountChain = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: { suspended_at: suspendedAt }, error: null }),
+  };
+
   return {
     request: {
       json: async () => body,
@@ -16,6 +23,7 @@ function createMockContext(body: unknown): APIContext {
     locals: {
       supabase: {
         auth: mockSupabaseAuth,
+        from: vi.fn().mockReturnValue(accountChain),
       },
       user: null,
     } as unknown as APIContext["locals"],
@@ -257,6 +265,32 @@ describe("POST /api/auth/login - Testy Jednostkowe", () => {
       expect(data.error.code).toBe("NO_SESSION");
       expect(data.error.message).toMatch(/sesji|session/i);
     });
+
+    it("powinien zwrócić błąd 403 i wylogować zawieszonego użytkownika", async () => {
+      mockSupabaseAuth.signInWithPassword.mockResolvedValueOnce({
+        data: {
+          session: { access_token: "mock-access-token", refresh_token: "mock-refresh-token" },
+          user: { id: "user-123", email: "test@example.com" },
+        },
+        error: null,
+      });
+
+      const context = createMockContext(
+        {
+          email: "test@example.com",
+          password: "password123",
+        },
+        "2025-11-10T10:00:00Z"
+      );
+
+      const response = await POST(context);
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error.code).toBe("ACCOUNT_SUSPENDED");
+      expect(mockSupabaseAuth.signOut).toHaveBeenCalled();
+      expect(context.cookies.set).not.toHaveBeenCalled();
+    });
   });
 
   describe("Obsługa błędów", () => {
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/pages/api/images/candidates";
+import { GeneratedImageError } from "@/lib/services/generated-images.service";
+import type { APIContext } from "astro";
+
+const mockResolveCandidates = vi.fn();
+
+vi.mock("@/lib/services/generated-images.service", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/services/generated-images.service")>();
+  return {
+    ...actual,
+    GeneratedImagesService: vi.fn().mockImplementation(() => ({
+      resolveCandidates: mockResolveCandidates,
+    })),
+  };
+});
+
+const keptId = "550e8400-e29b-41d4-a716-446655440000";
+const discardedId = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+
+function createMockContext(body: unknown, userRole = "client"): APIContext {
+  return {
+    request: {
+      json: async () => body,
+    } as unknown as Request,
+    locals: {
+      supabase: {
+        auth: {
+          getUser: vi.fn().mockResolvedValue({ data: { user: { id: "user-123" } }, error: null }),
+        },
+      },
+      userRole,
+    } as unknown as APIContext["locals"],
+  } as unknown as APIContext;
+}
+
+describe("POST /api/images/candidates", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockResolveCandidates.mockResolvedValue({
+      kept: [{ id: keptId, image_url: "https://storage.example.com/chairai_bucket/user-123/a.png" }],
+      remaining_generations: 8,
+    });
+  });
+
+  it("powinien zachować wybrane warianty i odrzucić pozostałe", async () => {
+    const context = createMockContext({ keep: [keptId], discard: [discardedId] });
+
+    const response = await POST(context);
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockResolveCandidates).toHaveBeenCalledWith("user-123", [keptId], [discardedId]);
+    expect(json.remaining_generations).toBe(8);
+    expect(json.kept).toHaveLength(1);
+  });
+
+  it("powinien odrzucić żądanie bez wariantów", async () => {
+    const context = createMockContext({ keep: [], discard: [] });
+
+    const response = await POST(context);
+
+    expect(response.status).toBe(422);
+    expect(mockResolveCandidates).not.toHaveBeenCalled();
+  });
+
+  it("powinien odrzucić wariant jednocześnie zachowany i odrzucony", async () => {
+    const context = createMockContext({ keep: [keptId], discard: [keptId] });
+
+    const response = await POST(context);
+
+    expect(response.status).toBe(422);
+  });
+
+  it("powinien odrzucić użytkownika bez roli client", async () => {
+    const context = createMockContext({ keep: [keptId] }, "artisan");
+
+    const response = await POST(context);
+
+    expect(response.status).toBe(403);
+  });
+
+  it("powinien zwrócić 429 gdy limit nie wystarcza", async () => {
+    mockResolveCandidates.mockRejectedValueOnce(
+      new GeneratedImageError("Możesz zachować jeszcze 1 obraz", "GENERATION_LIMIT_REACHED", 429)
+    );
+    const context = createMockContext({ keep: [keptId, discardedId] });
+
+    const response = await POST(context);
+    const json = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(json.error.code).toBe("GENERATION_LIMIT_REACHED");
+  });
+});
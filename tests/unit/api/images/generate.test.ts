@@ -1,27 +1,65 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { POST } from "@/pages/api/images/generate";
+import { GenerationQuotaError } from "@/lib/services/generation-quota.service";
+import { GeneratedImageError } from "@/lib/services/generated-images.service";
+import { deleteStorageImage } from "@/lib/services/supabase-storage.service";
 import type { APIContext } from "astro";
 
 const mockSupabaseAuth = {
   getUser: vi.fn(),
 };
 
+const mockAssertCanGenerate = vi.fn();
+const mockConsumeGenerations = vi.fn();
+
+vi.mock("@/lib/services/generation-quota.service", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/services/generation-quota.service")>();
+  return {
+    ...actual,
+    GenerationQuotaService: vi.fn().mockImplementation(() => ({
+      assertCanGenerate: mockAssertCanGenerate,
+      consumeGenerations: mockConsumeGenerations,
+    })),
+  };
+});
+
+const mockAssertCanCreateCandidates = vi.fn();
+
+vi.mock("@/lib/services/generated-images.service", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/services/generated-images.service")>();
+  return {
+    ...actual,
+    GeneratedImagesService: vi.fn().mockImplementation(() => ({
+      assertCanCreateCandidates: mockAssertCanCreateCandidates,
+    })),
+  };
+});
+
 vi.mock("@/lib/services/ai-image.service", () => {
   // Base64 encoded 1x1 transparent PNG pixel
   const mockBase64Image =
     "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
 
-  return {
-    AIImageService: vi.fn().mockImplementation(() => ({
-      generateFurnitureImage: vi.fn().mockResolvedValue({
-        // Return base64-encoded PNG image (1x1 transparent pixel)
-        imageUrl: mockBase64Image,
-        success: true,
-        positivePrompt: "test positive prompt",
-        negativePrompt: "test negative prompt",
-      }),
-      getMaxFreeGenerations: vi.fn().mockReturnValue(10),
+  const createService = () => ({
+    generateFurnitureImage: vi.fn().mockImplementation(async (_prompt: string, candidateCount = 1) => ({
+      // Return base64-encoded PNG image (1x1 transparent pixel)
+      imageUrl: mockBase64Image,
+      ...(candidateCount > 1 && { imageUrls: Array(candidateCount).fill(mockBase64Image) }),
+      success: true,
+      positivePrompt: "test positive prompt",
+      negativePrompt: "test negative prompt",
+      technicalNotes: "Construction focus: joinery",
+      materials: ["wood"],
+      style: "Modern",
+      modelUsed: "mock-placeholder",
+      generationTime: 1500,
     })),
+    getMaxFreeGenerations: vi.fn().mockReturnValue(10),
+  });
+
+  return {
+    AIImageService: vi.fn().mockImplementation(createService),
+    createAIImageService: vi.fn().mockImplementation(createService),
   };
 });
 
@@ -36,6 +74,7 @@ vi.mock("@/lib/rate-limit", () => {
 
 vi.mock("@/lib/services/supabase-storage.service", () => {
   return {
+    deleteStorageImage: vi.fn().mockResolvedValue(true),
     uploadBase64Image: vi.fn().mockResolvedValue({
       success: true,
       publicUrl: "https://storage.example.com/chairai_bucket/user-123/image.png",
@@ -45,39 +84,36 @@ vi.mock("@/lib/services/supabase-storage.service", () => {
 });
 
 function createMockContext(body: unknown, userRole = "client"): APIContext {
-  let insertedData: Record<string, unknown> | null = null;
-
   const mockFromChain = (tableName: string) => {
-    if (tableName === "users") {
-      return {
-        select: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: { role: userRole },
-          error: null,
-        }),
-      };
-    }
-
     if (tableName === "generated_images") {
       return {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         head: vi.fn().mockReturnThis(),
-        insert: vi.fn().mockImplementation((data) => {
-          // Capture the inserted data
-          insertedData = data;
+        delete: vi.fn().mockReturnThis(),
+        insert: vi.fn().mockImplementation((data: Record<string, unknown>[]) => {
+          // One inserted entry per candidate
           return {
-            select: vi.fn().mockReturnThis(),
-            single: vi.fn().mockResolvedValue({
-              data: {
-                id: "image-123",
+            select: vi.fn().mockResolvedValue({
+              data: data.map((entry, index) => ({
+                id: index === 0 ? "image-123" : `image-123-${index}`,
                 user_id: "user-123",
-                prompt: insertedData?.prompt || "test",
-                image_url: insertedData?.image_url || "https://storage.example.com/chairai_bucket/user-123/image.png",
+                prompt: entry.prompt || "test",
+                image_url: entry.image_url || "https://storage.example.com/chairai_bucket/user-123/image.png",
                 created_at: new Date().toISOString(),
                 is_used: false,
-              },
+                is_candidate: entry.is_candidate,
+                parent_image_id: null,
+                root_image_id: null,
+                positive_prompt: entry.positive_prompt,
+                negative_prompt: entry.negative_prompt,
+                technical_notes: entry.technical_notes,
+                materials: entry.materials,
+                style: entry.style,
+                model: entry.model,
+                generation_time_ms: entry.generation_time_ms,
+              })),
               error: null,
             }),
           };
@@ -134,6 +170,7 @@ function createMockContext(body: unknown, userRole = "client"): APIContext {
         from: mockFromChain,
         storage: mockStorage,
       },
+      userRole,
     } as unknown as APIContext["locals"],
     cookies: {
       set: vi.fn(),
@@ -152,6 +189,17 @@ describe("POST /api/images/generate", () => {
       data: { user: { id: "user-123" } },
       error: null,
     });
+    mockAssertCanGenerate.mockReset().mockResolvedValue({
+      plan: "free",
+      limit: 10,
+      used: 0,
+      remaining: 10,
+      is_override: false,
+      period_start: "2025-11-01T00:00:00.000Z",
+      resets_at: "2025-12-01T00:00:00.000Z",
+    });
+    mockConsumeGenerations.mockReset().mockResolvedValue(9);
+    mockAssertCanCreateCandidates.mockReset().mockResolvedValue(undefined);
   });
 
   describe("Walidacja wejścia", () => {
@@ -257,6 +305,26 @@ describe("POST /api/images/generate", () => {
       expect(data.prompt).toBe(testPrompt);
     });
 
+    it("powinien zapisać ulepszone prompty i metadane generowania", async () => {
+      const context = createMockContext({
+        prompt: "Nowoczesny fotel",
+      });
+
+      const response = await POST(context);
+      const data = (await response.json()) as Record<string, unknown>;
+
+      expect(data).toMatchObject({
+        prompt: "Nowoczesny fotel",
+        positive_prompt: "test positive prompt",
+        negative_prompt: "test negative prompt",
+        technical_notes: "Construction focus: joinery",
+        materials: ["wood"],
+        style: "Modern",
+        model: "mock-placeholder",
+        generation_time_ms: 1500,
+      });
+    });
+
     it("powinien ustawić is_used na false", async () => {
       const context = createMockContext({
         prompt: "Nowoczesny fotel",
@@ -269,6 +337,121 @@ describe("POST /api/images/generate", () => {
     });
   });
 
+  describe("Warianty obrazu", () => {
+    it("powinien zwrócić listę wariantów bez pobierania limitu", async () => {
+      const context = createMockContext({
+        prompt: "Nowoczesny fotel",
+        candidates: 3,
+      });
+
+      const response = await POST(context);
+      const data = (await response.json()) as Record<string, unknown>;
+
+      expect(response.status).toBe(201);
+      expect(data.candidates).toHaveLength(3);
+      expect(data.id).toBe("image-123");
+      expect(data.remaining_generations).toBe(10);
+      expect(mockConsumeGenerations).not.toHaveBeenCalled();
+      expect(mockAssertCanGenerate).toHaveBeenCalledWith("user-123", 3);
+      expect(mockAssertCanCreateCandidates).toHaveBeenCalledWith("user-123", 3);
+    });
+
+    it("powinien zwrócić 429 gdy użytkownik ma zbyt wiele niewybranych wariantów", async () => {
+      mockAssertCanCreateCandidates.mockRejectedValueOnce(
+        new GeneratedImageError("Masz zbyt wiele niewybranych wariantów", "CANDIDATE_LIMIT_REACHED", 429)
+      );
+      const context = createMockContext({
+        prompt: "Nowoczesny fotel",
+        candidates: 4,
+      });
+
+      const response = await POST(context);
+      const data = (await response.json()) as { error: { code: string } };
+
+      expect(response.status).toBe(429);
+      expect(data.error.code).toBe("CANDIDATE_LIMIT_REACHED");
+    });
+
+    it("powinien pobrać limit za pojedynczy obraz", async () => {
+      const context = createMockContext({
+        prompt: "Nowoczesny fotel",
+      });
+
+      const response = await POST(context);
+      const data = (await response.json()) as Record<string, unknown>;
+
+      expect(data).not.toHaveProperty("candidates");
+      expect(data.remaining_generations).toBe(9);
+      expect(mockConsumeGenerations).toHaveBeenCalledWith(expect.objectContaining({ remaining: 10 }), ["image-123"]);
+      expect(mockAssertCanCreateCandidates).not.toHaveBeenCalled();
+    });
+
+    it("powinien odrzucić więcej niż 4 warianty", async () => {
+      const context = createMockContext({
+        prompt: "Nowoczesny fotel",
+        candidates: 5,
+      });
+
+      const response = await POST(context);
+      expect(response.status).toBe(422);
+    });
+  });
+
+  describe("Miesięczny limit generacji", () => {
+    it("powinien zwrócić 429 z datą odnowienia gdy limit jest wyczerpany", async () => {
+      mockAssertCanGenerate.mockRejectedValueOnce(
+        new GenerationQuotaError(
+          "Osiągnięto miesięczny limit 10 generacji. Limit odnowi się 1.12.2025",
+          "GENERATION_LIMIT_REACHED",
+          429
+        )
+      );
+      const context = createMockContext({ prompt: "Nowoczesny fotel" });
+
+      const response = await POST(context);
+      const data = (await response.json()) as { error: { code: string; message: string } };
+
+      expect(response.status).toBe(429);
+      expect(data.error.code).toBe("GENERATION_LIMIT_REACHED");
+      expect(data.error.message).toContain("1.12.2025");
+      expect(mockConsumeGenerations).not.toHaveBeenCalled();
+    });
+
+    it("powinien uwzględnić limit ustawiony przez administratora", async () => {
+      mockAssertCanGenerate.mockResolvedValueOnce({
+        plan: "free",
+        limit: 50,
+        used: 20,
+        remaining: 30,
+        is_override: true,
+        period_start: "2025-11-01T00:00:00.000Z",
+        resets_at: "2025-12-01T00:00:00.000Z",
+      });
+      mockConsumeGenerations.mockResolvedValueOnce(29);
+      const context = createMockContext({ prompt: "Nowoczesny fotel" });
+
+      const response = await POST(context);
+      const data = (await response.json()) as Record<string, unknown>;
+
+      expect(response.status).toBe(201);
+      expect(data.remaining_generations).toBe(29);
+    });
+
+    it("powinien usunąć obraz gdy limit wyczerpał się w trakcie generowania", async () => {
+      mockConsumeGenerations.mockRejectedValueOnce(
+        new GenerationQuotaError("Osiągnięto miesięczny limit 10 generacji", "GENERATION_LIMIT_REACHED", 429)
+      );
+      const context = createMockContext({ prompt: "Nowoczesny fotel" });
+
+      const response = await POST(context);
+      const data = (await response.json()) as { error: { code: string } };
+
+      expect(response.status).toBe(429);
+      expect(data.error.code).toBe("GENERATION_LIMIT_REACHED");
+      expect(deleteStorageImage).toHaveBeenCalledWith(expect.anything(), "user-123/image.png");
+    });
+  });
+
   describe("Obsługa błędów", () => {
     it("powinien zwrócić 500 na błąd", async () => {
       mockSupabaseAuth.getUser.mockImplementationOnce(() => {
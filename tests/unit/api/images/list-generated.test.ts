@@ -7,11 +7,22 @@ const mockSupabaseAuth = {
   getUser: vi.fn(),
 };
 
+const mockQuota: GeneratedImagesListResponseDTO["quota"] = {
+  plan: "free",
+  limit: 10,
+  used: 0,
+  remaining: 10,
+  is_override: false,
+  period_start: "2025-11-01T00:00:00.000Z",
+  resets_at: "2025-12-01T00:00:00.000Z",
+};
+
 // Store for mock responses that tests can modify
 let mockServiceResponse: GeneratedImagesListResponseDTO = {
   data: [],
   pagination: { page: 1, limit: 20, total: 0, total_pages: 0 },
   remaining_generations: 10,
+  quota: mockQuota,
 };
 
 vi.mock("@/lib/services/generated-images.service", () => {
@@ -43,6 +54,7 @@ function createMockContext(
       total_pages: Math.ceil(imagesWithUsedStatus.length / 20),
     },
     remaining_generations: 10,
+    quota: mockQuota,
   };
   const searchParams = new URLSearchParams(queryParams);
   const url = new URL(`http://localhost/api/images/generated?${searchParams.toString()}`);
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/pages/api/images/refine";
+import { GeneratedImageError } from "@/lib/services/generated-images.service";
+import type { APIContext } from "astro";
+
+const mockRefineFurnitureImage = vi.fn();
+const mockGetRefinementBase = vi.fn();
+const mockGetQuota = vi.fn();
+
+vi.mock("@/lib/services/ai-image.service", () => ({
+  createAIImageService: vi.fn().mockImplementation(() => ({
+    refineFurnitureImage: mockRefineFurnitureImage,
+    getMaxFreeGenerations: vi.fn().mockReturnValue(10),
+  })),
+  getMaxFreeGenerations: vi.fn().mockReturnValue(10),
+}));
+
+vi.mock("@/lib/services/generated-images.service", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/services/generated-images.service")>();
+  return {
+    ...actual,
+    GeneratedImagesService: vi.fn().mockImplementation(() => ({
+      getRefinementBase: mockGetRefinementBase,
+    })),
+  };
+});
+
+vi.mock("@/lib/services/generation-quota.service", () => ({
+  GenerationQuotaService: vi.fn().mockImplementation(() => ({
+    getQuota: mockGetQuota,
+  })),
+}));
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkImageGenerationRateLimit: vi.fn().mockReturnValue({ allowed: true, resetTime: Date.now() + 60000 }),
+}));
+
+vi.mock("@/lib/services/supabase-storage.service", () => ({
+  uploadBase64Image: vi.fn().mockResolvedValue({
+    success: true,
+    publicUrl: "https://storage.example.com/chairai_bucket/user-123/refined.png",
+    fileName: "user-123/refined.png",
+  }),
+}));
+
+const parentImageId = "550e8400-e29b-41d4-a716-446655440000";
+
+function createMockContext(body: unknown, userRole = "client") {
+  const insert = vi.fn().mockImplementation((data) => ({
+    select: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: { id: "refined-123", created_at: "2025-10-18T12:35:10Z", is_used: false, ...data },
+      error: null,
+    }),
+  }));
+
+  // generated_images: insert of the refined image
+  const from = vi.fn(() => ({
+    insert,
+  }));
+
+  const context = {
+    request: {
+      json: async () => body,
+      headers: { get: vi.fn(() => "192.168.1.1") },
+    } as unknown as Request,
+    locals: {
+      userRole,
+      supabase: {
+        auth: {
+          getUser: vi.fn().mockResolvedValue({ data: { user: { id: "user-123" } }, error: null }),
+        },
+        from,
+      },
+    } as unknown as APIContext["locals"],
+  } as unknown as APIContext;
+
+  return { context, insert };
+}
+
+describe("POST /api/images/refine", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetQuota.mockResolvedValue({ limit: 10, used: 3, remaining: 7 });
+    mockGetRefinementBase.mockResolvedValue({
+      parent: {
+        id: parentImageId,
+        image_url: "https://storage.example.com/chairai_bucket/user-123/parent.png",
+        parent_image_id: null,
+        root_image_id: null,
+      },
+      rootImageId: parentImageId,
+      designHistory: ["Dębowy stół jadalny z metalowymi nogami"],
+      versionCount: 1,
+    });
+    mockRefineFurnitureImage.mockResolvedValue({
+      imageUrl: "data:image/png;base64,iVBORw0KGgo=",
+      success: true,
+      positivePrompt: "walnut legs dining table",
+      negativePrompt: "blurry",
+      technicalNotes: "Construction focus: joinery",
+      materials: ["walnut"],
+      style: "Modern",
+      modelUsed: "mock-placeholder",
+      generationTime: 1200,
+    });
+  });
+
+  it("powinien zapisać dopracowany obraz powiązany z obrazem nadrzędnym", async () => {
+    const { context, insert } = createMockContext({
+      parent_image_id: parentImageId,
+      prompt: "Te same, ale z orzechowymi nogami",
+    });
+
+    const response = await POST(context);
+    const json = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockGetRefinementBase).toHaveBeenCalledWith("user-123", parentImageId);
+    expect(mockRefineFurnitureImage).toHaveBeenCalledWith(
+      ["Dębowy stół jadalny z metalowymi nogami"],
+      "Te same, ale z orzechowymi nogami",
+      "https://storage.example.com/chairai_bucket/user-123/parent.png"
+    );
+    expect(insert).toHaveBeenCalledWith({
+      user_id: "user-123",
+      prompt: "Te same, ale z orzechowymi nogami",
+      image_url: "https://storage.example.com/chairai_bucket/user-123/refined.png",
+      parent_image_id: parentImageId,
+      root_image_id: parentImageId,
+      positive_prompt: "walnut legs dining table",
+      negative_prompt: "blurry",
+      technical_notes: "Construction focus: joinery",
+      materials: ["walnut"],
+      style: "Modern",
+      model: "mock-placeholder",
+      generation_time_ms: 1200,
+    });
+    expect(json).toMatchObject({
+      id: "refined-123",
+      parent_image_id: parentImageId,
+      root_image_id: parentImageId,
+      technical_notes: "Construction focus: joinery",
+      model: "mock-placeholder",
+      is_used: false,
+      remaining_generations: 7,
+    });
+  });
+
+  it("powinien odrzucić nieprawidłowy identyfikator obrazu", async () => {
+    const { context } = createMockContext({ parent_image_id: "not-a-uuid", prompt: "Orzechowe nogi" });
+
+    const response = await POST(context);
+
+    expect(response.status).toBe(422);
+    expect(mockGetRefinementBase).not.toHaveBeenCalled();
+  });
+
+  it("powinien odrzucić zbyt krótki opis zmian", async () => {
+    const { context } = createMockContext({ parent_image_id: parentImageId, prompt: "ab" });
+
+    const response = await POST(context);
+
+    expect(response.status).toBe(422);
+  });
+
+  it("powinien odrzucić użytkownika bez roli client", async () => {
+    const { context } = createMockContext({ parent_image_id: parentImageId, prompt: "Orzechowe nogi" }, "artisan");
+
+    const response = await POST(context);
+
+    expect(response.status).toBe(403);
+  });
+
+  it("powinien zwrócić 404 gdy obraz nie należy do użytkownika", async () => {
+    mockGetRefinementBase.mockRejectedValueOnce(new GeneratedImageError("Nie znaleziono obrazu", "NOT_FOUND", 404));
+    const { context } = createMockContext({ parent_image_id: parentImageId, prompt: "Orzechowe nogi" });
+
+    const response = await POST(context);
+
+    expect(response.status).toBe(404);
+    expect(mockRefineFurnitureImage).not.toHaveBeenCalled();
+  });
+
+  it("powinien zwrócić 429 po osiągnięciu limitu wersji projektu", async () => {
+    mockGetRefinementBase.mockRejectedValueOnce(
+      new GeneratedImageError("Osiągnięto limit 10 wersji tego projektu", "VERSION_LIMIT_REACHED", 429)
+    );
+    const { context } = createMockContext({ parent_image_id: parentImageId, prompt: "Orzechowe nogi" });
+
+    const response = await POST(context);
+    const json = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(json.error.code).toBe("VERSION_LIMIT_REACHED");
+  });
+
+  it("powinien zwrócić 429 gdy baza danych odrzuci wersję ponad limit", async () => {
+    const { context, insert } = createMockContext({ parent_image_id: parentImageId, prompt: "Orzechowe nogi" });
+    insert.mockReturnValueOnce({
+      select: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({
+        data: null,
+        error: { code: "P0001", message: "Design version limit reached" },
+      }),
+    });
+
+    const response = await POST(context);
+    const json = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(json.error.code).toBe("VERSION_LIMIT_REACHED");
+  });
+
+  it("powinien zwrócić 503 gdy usługa AI nie dopracuje obrazu", async () => {
+    mockRefineFurnitureImage.mockResolvedValueOnce({ imageUrl: "", success: false, error: "Timeout" });
+    const { context } = createMockContext({ parent_image_id: parentImageId, prompt: "Orzechowe nogi" });
+
+    const response = await POST(context);
+
+    expect(response.status).toBe(503);
+  });
+});
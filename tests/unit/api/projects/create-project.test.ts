@@ -74,8 +74,8 @@ function createMockProjectDTO(): ProjectDTO {
       name: "Dąb",
     },
     status: "open",
-    dimensions: "200x100x75 cm",
-    budget_range: "5000-8000 PLN",
+    dimensions: { width: 200, depth: 100, height: 75, unit: "cm" },
+    budget: { min: 5000, max: 8000, currency: "PLN" },
     accepted_proposal_id: null,
     accepted_price: null,
     proposals_count: 0,
@@ -105,8 +105,8 @@ describe("POST /api/projects", () => {
         generated_image_id: "550e8400-e29b-41d4-a716-446655440000",
         category_id: "660e8400-e29b-41d4-a716-446655440000",
         material_id: "770e8400-e29b-41d4-a716-446655440000",
-        dimensions: "200x100x75 cm",
-        budget_range: "5000-8000 PLN",
+        dimensions: { width: 200, depth: 100, height: 75, unit: "cm" },
+        budget: { min: 5000, max: 8000, currency: "PLN" },
       };
 
       const context = createMockContext(requestBody);
@@ -278,12 +278,12 @@ describe("POST /api/projects", () => {
       expect(data.error.details).toHaveProperty("material_id");
     });
 
-    it("should return 400 when dimensions exceeds 100 characters", async () => {
+    it("should return 400 when dimensions have no value", async () => {
       const context = createMockContext({
         generated_image_id: "550e8400-e29b-41d4-a716-446655440000",
         category_id: "550e8400-e29b-41d4-a716-446655440000",
         material_id: "550e8400-e29b-41d4-a716-446655440000",
-        dimensions: "a".repeat(101),
+        dimensions: { unit: "cm" },
       });
 
       const response = await POST(context);
@@ -294,12 +294,12 @@ describe("POST /api/projects", () => {
       expect(data.error.details).toHaveProperty("dimensions");
     });
 
-    it("should return 400 when budget_range exceeds 50 characters", async () => {
+    it("should return 400 when dimension unit is invalid", async () => {
       const context = createMockContext({
         generated_image_id: "550e8400-e29b-41d4-a716-446655440000",
         category_id: "550e8400-e29b-41d4-a716-446655440000",
         material_id: "550e8400-e29b-41d4-a716-446655440000",
-        budget_range: "a".repeat(51),
+        dimensions: { width: 120, unit: "in" },
       });
 
       const response = await POST(context);
@@ -307,7 +307,39 @@ describe("POST /api/projects", () => {
 
       expect(response.status).toBe(400);
       expect(data.error.code).toBe("VALIDATION_ERROR");
-      expect(data.error.details).toHaveProperty("budget_range");
+      expect(data.error.details).toHaveProperty("dimensions");
+    });
+
+    it("should return 400 when budget min is greater than max", async () => {
+      const context = createMockContext({
+        generated_image_id: "550e8400-e29b-41d4-a716-446655440000",
+        category_id: "550e8400-e29b-41d4-a716-446655440000",
+        material_id: "550e8400-e29b-41d4-a716-446655440000",
+        budget: { min: 8000, max: 5000 },
+      });
+
+      const response = await POST(context);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error.code).toBe("VALIDATION_ERROR");
+      expect(data.error.details).toHaveProperty("budget");
+    });
+
+    it("should return 400 when budget is given as free text", async () => {
+      const context = createMockContext({
+        generated_image_id: "550e8400-e29b-41d4-a716-446655440000",
+        category_id: "550e8400-e29b-41d4-a716-446655440000",
+        material_id: "550e8400-e29b-41d4-a716-446655440000",
+        budget: "5000-8000 PLN",
+      });
+
+      const response = await POST(context);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error.code).toBe("VALIDATION_ERROR");
+      expect(data.error.details).toHaveProperty("budget");
     });
   });
 
@@ -73,8 +73,8 @@ function createMockProjectDTO(): ProjectDTO {
       name: "Dąb",
     },
     status: "open",
-    dimensions: "200x100x75 cm",
-    budget_range: "5000-8000 PLN",
+    dimensions: { width: 200, depth: 100, height: 75, unit: "cm" },
+    budget: { min: 5000, max: 8000, currency: "PLN" },
     accepted_proposal_id: null,
     accepted_price: null,
     proposals_count: 3,
@@ -294,7 +294,7 @@ describe("GET /api/projects/{projectId}", () => {
     it("should handle project with null optional fields", async () => {
       const mockProject = createMockProjectDTO();
       mockProject.dimensions = null;
-      mockProject.budget_range = null;
+      mockProject.budget = null;
       mockProject.accepted_proposal_id = null;
       mockProject.accepted_price = null;
       mockGetProjectDetails.mockResolvedValue(mockProject);
@@ -305,7 +305,7 @@ describe("GET /api/projects/{projectId}", () => {
       expect(response.status).toBe(200);
       const body = await response.json();
       expect(body.dimensions).toBeNull();
-      expect(body.budget_range).toBeNull();
+      expect(body.budget).toBeNull();
       expect(body.accepted_proposal_id).toBeNull();
       expect(body.accepted_price).toBeNull();
     });
@@ -79,8 +79,8 @@ function createMockPaginatedResponse(): PaginatedResponseDTO<ProjectDTO> {
           name: "Dąb",
         },
         status: "open",
-        dimensions: "200x100x75 cm",
-        budget_range: "5000-8000 PLN",
+        dimensions: { width: 200, depth: 100, height: 75, unit: "cm" },
+        budget: { min: 5000, max: 8000, currency: "PLN" },
         accepted_proposal_id: null,
         accepted_price: null,
         proposals_count: 3,
@@ -104,8 +104,8 @@ function createMockPaginatedResponse(): PaginatedResponseDTO<ProjectDTO> {
           name: "Skóra",
         },
         status: "in_progress",
-        dimensions: "80x90x100 cm",
-        budget_range: "3000-5000 PLN",
+        dimensions: { width: 80, depth: 90, height: 100, unit: "cm" },
+        budget: { min: 3000, max: 5000, currency: "PLN" },
         accepted_proposal_id: "proposal-1",
         accepted_price: 4200,
         proposals_count: 5,
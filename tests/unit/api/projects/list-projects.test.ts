@@ -79,8 +79,8 @@ function createMockPaginatedResponse(): PaginatedResponseDTO<ProjectListItemDTO>
           name: "Dąb",
         },
         status: "open",
-        dimensions: "200x100x75 cm",
-        budget_range: "5000-8000 PLN",
+        dimensions: { width: 200, depth: 100, height: 75, unit: "cm" },
+        budget: { min: 5000, max: 8000, currency: "PLN" },
         accepted_proposal_id: null,
         accepted_price: null,
         created_at: "2025-10-19T12:00:00Z",
@@ -122,6 +122,7 @@ describe("GET /api/projects", () => {
           status: "open",
           category_id: undefined,
           material_id: undefined,
+          sort: "newest",
           page: 1,
           limit: 20,
         },
@@ -153,6 +154,7 @@ describe("GET /api/projects", () => {
           status: "in_progress",
           category_id: validCategoryId,
           material_id: validMaterialId,
+          sort: "newest",
           page: 2,
           limit: 10,
         },
@@ -161,6 +163,64 @@ describe("GET /api/projects", () => {
       );
     });
 
+    it("should pass budget and size filters", async () => {
+      const mockResponse = createMockPaginatedResponse();
+      mockListProjects.mockResolvedValue(mockResponse);
+
+      const context = createMockContext({
+        budget_min: "1000",
+        budget_max: "3000",
+        currency: "EUR",
+        max_width: "120",
+        max_height: "80.5",
+      });
+
+      const response = await GET(context);
+
+      expect(response.status).toBe(200);
+      expect(mockListProjects).toHaveBeenCalledWith(
+        expect.objectContaining({
+          budget_min: 1000,
+          budget_max: 3000,
+          currency: "EUR",
+          max_width: 120,
+          max_depth: undefined,
+          max_height: 80.5,
+        }),
+        "artisan-123",
+        "artisan"
+      );
+    });
+
+    it("should pass the search phrase", async () => {
+      const mockResponse = createMockPaginatedResponse();
+      mockListProjects.mockResolvedValue(mockResponse);
+
+      const context = createMockContext({ search: " dąb regał " });
+      const response = await GET(context);
+
+      expect(response.status).toBe(200);
+      expect(mockListProjects).toHaveBeenCalledWith(
+        expect.objectContaining({ search: "dąb regał", status: "open" }),
+        "artisan-123",
+        "artisan"
+      );
+    });
+
+    it("should pass the sort order and cursor", async () => {
+      mockListProjects.mockResolvedValue(createMockPaginatedResponse());
+
+      const context = createMockContext({ sort: "budget_desc", cursor: "WyJidWRnZXRfZGVzYyIsMTAwMCwicC0xIl0" });
+      const response = await GET(context);
+
+      expect(response.status).toBe(200);
+      expect(mockListProjects).toHaveBeenCalledWith(
+        expect.objectContaining({ sort: "budget_desc", cursor: "WyJidWRnZXRfZGVzYyIsMTAwMCwicC0xIl0" }),
+        "artisan-123",
+        "artisan"
+      );
+    });
+
     it("should handle empty results", async () => {
       const emptyResponse: PaginatedResponseDTO<ProjectListItemDTO> = {
         data: [],
@@ -269,6 +329,44 @@ describe("GET /api/projects", () => {
       expect(mockListProjects).not.toHaveBeenCalled();
     });
 
+    it("should reject budget_min greater than budget_max", async () => {
+      const context = createMockContext({
+        budget_min: "5000",
+        budget_max: "1000",
+      });
+
+      const response = await GET(context);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details).toHaveProperty("budget_min");
+      expect(mockListProjects).not.toHaveBeenCalled();
+    });
+
+    it("should reject non-numeric size filters", async () => {
+      const context = createMockContext({
+        max_width: "wide",
+      });
+
+      const response = await GET(context);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details).toHaveProperty("max_width");
+      expect(mockListProjects).not.toHaveBeenCalled();
+    });
+
+    it("should reject unsupported sort order", async () => {
+      const context = createMockContext({ sort: "random" });
+
+      const response = await GET(context);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details).toHaveProperty("sort");
+      expect(mockListProjects).not.toHaveBeenCalled();
+    });
+
     it("should reject invalid page number", async () => {
       const context = createMockContext({
         page: "0",
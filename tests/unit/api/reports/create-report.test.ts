@@ -0,0 +1,114 @@
+/**
+ * Unit Tests: POST /api/reports
+ *
+ * Tests reporting content: authentication, the per-user rate limit, validation
+ * and mapping of report errors.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/pages/api/reports/index";
+import { ContentReportError } from "@/lib/services/content-report.service";
+import { clearAllRateLimits } from "@/lib/rate-limit";
+import type { APIContext } from "astro";
+
+// Mock ContentReportService
+const mockCreateReport = vi.fn();
+
+vi.mock("@/lib/services/content-report.service", () => {
+  return {
+    ContentReportService: vi.fn().mockImplementation(() => ({
+      createReport: mockCreateReport,
+    })),
+    ContentReportError: class ContentReportError extends Error {
+      constructor(
+        message: string,
+        public code: string,
+        public statusCode = 400
+      ) {
+        super(message);
+        this.name = "ContentReportError";
+      }
+    },
+  };
+});
+
+const userId = "11111111-1111-4111-8111-111111111111";
+const proposalId = "22222222-2222-4222-8222-222222222222";
+
+const validBody = { target_type: "proposal", target_id: proposalId, reason: "spam", details: "  Powtórzona oferta " };
+
+function createMockContext(options: { authenticated?: boolean; body?: unknown } = {}): APIContext {
+  const { authenticated = true, body = validBody } = options;
+
+  return {
+    request: {
+      json: vi.fn().mockResolvedValue(body),
+    } as unknown as Request,
+    locals: {
+      supabase: {} as APIContext["locals"]["supabase"],
+      user: authenticated ? ({ id: userId } as APIContext["locals"]["user"]) : null,
+    },
+  } as unknown as APIContext;
+}
+
+describe("Unit: POST /api/reports", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearAllRateLimits();
+  });
+
+  it("powinien zapisać zgłoszenie i zwrócić 201", async () => {
+    const report = { id: "report-uuid-1", target_type: "proposal", target_id: proposalId, status: "pending" };
+    mockCreateReport.mockResolvedValueOnce(report);
+
+    const response = await POST(createMockContext());
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual(report);
+    expect(mockCreateReport).toHaveBeenCalledWith(userId, {
+      target_type: "proposal",
+      target_id: proposalId,
+      reason: "spam",
+      details: "Powtórzona oferta",
+    });
+  });
+
+  it("powinien zwrócić 401 dla niezalogowanego użytkownika", async () => {
+    const response = await POST(createMockContext({ authenticated: false }));
+
+    expect(response.status).toBe(401);
+    expect(mockCreateReport).not.toHaveBeenCalled();
+  });
+
+  it("powinien zwrócić 422 dla nieznanego typu treści", async () => {
+    const response = await POST(createMockContext({ body: { ...validBody, target_type: "user" } }));
+
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+  });
+
+  it("powinien zwrócić 429 po przekroczeniu limitu zgłoszeń", async () => {
+    mockCreateReport.mockResolvedValue({ id: "report-uuid-1" });
+
+    for (let i = 0; i < 10; i++) {
+      await POST(createMockContext());
+    }
+    const response = await POST(createMockContext());
+
+    expect(response.status).toBe(429);
+    expect(mockCreateReport).toHaveBeenCalledTimes(10);
+  });
+
+  it("powinien zmapować błąd ponownego zgłoszenia na 409", async () => {
+    mockCreateReport.mockRejectedValueOnce(
+      new ContentReportError("Ta treść została już przez Ciebie zgłoszona", "ALREADY_REPORTED", 409)
+    );
+
+    const response = await POST(createMockContext());
+
+    expect(response.status).toBe(409);
+    const body = await response.json();
+    expect(body.error.code).toBe("ALREADY_REPORTED");
+  });
+});
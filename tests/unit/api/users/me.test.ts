@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, PATCH } from "@/pages/api/users/me";
+import type { APIContext } from "astro";
+
+/**
+ * Testy jednostkowe: GET/PATCH /api/users/me
+ *
+ * Sprawdzają zwracanie profilu publicznego bieżącego użytkownika,
+ * walidację i zapis zmian profilu.
+ */
+describe("Unit: /api/users/me", () => {
+  const userId = "user-123";
+  const storedProfile = { display_name: "Anna K.", avatar_url: null, city: "Kraków" };
+
+  let profileChain: {
+    select: ReturnType<typeof vi.fn>;
+    eq: ReturnType<typeof vi.fn>;
+    maybeSingle: ReturnType<typeof vi.fn>;
+    upsert: ReturnType<typeof vi.fn>;
+    single: ReturnType<typeof vi.fn>;
+  };
+
+  function createMockContext(body?: unknown, authenticated = true): APIContext {
+    return {
+      request: {
+        json: vi.fn().mockResolvedValue(body),
+        headers: new Headers(),
+      },
+      locals: {
+        user: authenticated ? { id: userId, email: "anna@example.com" } : null,
+        userRole: "client",
+        supabase: {
+          from: vi.fn().mockReturnValue(profileChain),
+        },
+      },
+    } as unknown as APIContext;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    profileChain = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      maybeSingle: vi.fn().mockResolvedValue({ data: storedProfile, error: null }),
+      upsert: vi.fn().mockReturnThis(),
+      single: vi.fn().mockImplementation(async () => ({
+        data: { ...storedProfile, ...profileChain.upsert.mock.calls[0]?.[0] },
+        error: null,
+      })),
+    };
+  });
+
+  describe("GET", () => {
+    it("powinien zwrócić użytkownika z profilem publicznym", async () => {
+      const response = await GET(createMockContext());
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({
+        id: userId,
+        email: "anna@example.com",
+        role: "client",
+        profile: storedProfile,
+      });
+    });
+
+    it("powinien zwrócić 401 dla niezalogowanego użytkownika", async () => {
+      const response = await GET(createMockContext(undefined, false));
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("PATCH", () => {
+    it("powinien zapisać nazwę wyświetlaną i miasto", async () => {
+      const response = await PATCH(createMockContext({ display_name: "  Jan Nowak ", city: "Gdańsk" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(profileChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: userId, display_name: "Jan Nowak", city: "Gdańsk" })
+      );
+      expect(data).toMatchObject({ display_name: "Jan Nowak", city: "Gdańsk", avatar_url: null });
+    });
+
+    it("powinien zwrócić 422 dla zbyt krótkiej nazwy wyświetlanej", async () => {
+      const response = await PATCH(createMockContext({ display_name: "A" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(422);
+      expect(data.error.details.display_name).toBe("Nazwa wyświetlana musi mieć co najmniej 2 znaki");
+      expect(profileChain.upsert).not.toHaveBeenCalled();
+    });
+
+    it("powinien odrzucić adres awatara bez https", async () => {
+      const response = await PATCH(createMockContext({ avatar_url: "http://example.com/avatar.png" }));
+
+      expect(response.status).toBe(422);
+    });
+
+    it("powinien odrzucić nieznane pola i puste żądanie", async () => {
+      const unknownField = await PATCH(createMockContext({ email: "new@example.com" }));
+      const emptyBody = await PATCH(createMockContext({}));
+
+      expect(unknownField.status).toBe(422);
+      expect(emptyBody.status).toBe(422);
+    });
+
+    it("powinien zwrócić 401 dla niezalogowanego użytkownika", async () => {
+      const response = await PATCH(createMockContext({ city: "Gdańsk" }, false));
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -16,7 +16,13 @@ describe("useImageGenerator", () => {
         isLoading: false,
         error: null,
         generatedImage: null,
+        candidates: [],
+        versions: [],
+        versionCount: 0,
+        maxVersions: 10,
         remainingGenerations: 10,
+        generationLimit: 10,
+        quotaResetsAt: null,
       });
     });
   });
@@ -151,7 +157,13 @@ describe("useImageGenerator", () => {
         isLoading: false,
         error: null,
         generatedImage: null,
+        candidates: [],
+        versions: [],
+        versionCount: 0,
+        maxVersions: 10,
         remainingGenerations: 10,
+        generationLimit: 10,
+        quotaResetsAt: null,
       });
     });
   });
@@ -222,6 +234,15 @@ describe("useImageGenerator", () => {
               data: [],
               pagination: { page: 1, limit: 1, total: 5, total_pages: 5 },
               remaining_generations: 5,
+              quota: {
+                plan: "premium",
+                limit: 100,
+                used: 95,
+                remaining: 5,
+                is_override: false,
+                period_start: "2025-11-01T00:00:00.000Z",
+                resets_at: "2025-12-01T00:00:00.000Z",
+              },
             }),
         } as unknown as Response)
       );
@@ -232,6 +253,8 @@ describe("useImageGenerator", () => {
       await waitFor(() => {
         expect(result.current.state.remainingGenerations).toBe(5);
       });
+      expect(result.current.state.generationLimit).toBe(100);
+      expect(result.current.state.quotaResetsAt).toBe("2025-12-01T00:00:00.000Z");
 
       expect(global.fetch).toHaveBeenCalledWith("/api/images/generated?page=1&limit=1");
     });
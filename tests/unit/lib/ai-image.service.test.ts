@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { AIImageService } from "@/lib/services/ai-image.service";
+import { OpenRouterService } from "@/lib/services/openrouter.service";
+import { OpenRouterImageService } from "@/lib/services/openrouter-image.service";
 
 // Mock OpenRouterService
 vi.mock("@/lib/services/openrouter.service", () => {
@@ -134,6 +136,18 @@ describe("AIImageService", () => {
       expect(result.negativePrompt).toBeDefined();
     });
 
+    it("powinien zwrócić metadane generowania: uwagi techniczne, materiały, styl, model i czas", async () => {
+      const result = await service.generateFurnitureImage("drewniane krzesło biurowe");
+
+      expect(result).toMatchObject({
+        technicalNotes: "Construction focus: joinery, materials quality",
+        materials: ["wood"],
+        style: "Modern",
+        modelUsed: "google/gemini-2.5-flash-image-preview",
+        generationTime: 1000,
+      });
+    });
+
     it("powinien zwrócić błąd dla pustego opisu", async () => {
       const result = await service.generateFurnitureImage("");
 
@@ -259,6 +273,60 @@ describe("AIImageService", () => {
     });
   });
 
+  describe("refineFurnitureImage()", () => {
+    beforeEach(() => {
+      service = new AIImageService(mockApiKey);
+    });
+
+    it("powinien dopracować obraz na podstawie obrazu nadrzędnego", async () => {
+      const result = await service.refineFurnitureImage(
+        ["Dębowy stół jadalny z metalowymi nogami"],
+        "te same, ale z orzechowymi nogami",
+        "https://storage.example.com/parent.png"
+      );
+
+      const imageService = vi.mocked(OpenRouterImageService).mock.results[0].value;
+      expect(result.success).toBe(true);
+      expect(result.imageUrl).not.toBe("");
+      expect(imageService.generateImage).toHaveBeenCalledWith(
+        expect.stringContaining("te same, ale z orzechowymi nogami"),
+        "mockowy negatywny prompt",
+        "https://storage.example.com/parent.png"
+      );
+    });
+
+    it("powinien przekazać historię projektu do ulepszenia promptu", async () => {
+      await service.refineFurnitureImage(
+        ["Dębowy stół jadalny", "orzechowe nogi"],
+        "o 20 cm wyższy",
+        "https://storage.example.com/parent.png"
+      );
+
+      const openrouterService = vi.mocked(OpenRouterService).mock.results[0].value;
+      const description = openrouterService.generateImagePrompt.mock.calls[0][0];
+      expect(description).toContain("Dębowy stół jadalny");
+      expect(description).toContain("- orzechowe nogi\n- o 20 cm wyższy");
+    });
+
+    it("powinien zwrócić błąd dla pustego opisu zmian", async () => {
+      const result = await service.refineFurnitureImage(["Dębowy stół"], "   ", "https://storage.example.com/p.png");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Opis zmian nie może być pusty");
+    });
+
+    it("powinien zwrócić błąd dla zbyt długiego opisu zmian (>300 znaków)", async () => {
+      const result = await service.refineFurnitureImage(
+        ["Dębowy stół"],
+        "a".repeat(301),
+        "https://storage.example.com/p.png"
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("300 znaków");
+    });
+  });
+
   describe("Obsługa wyjątków", () => {
     beforeEach(() => {
       service = new AIImageService(mockApiKey);
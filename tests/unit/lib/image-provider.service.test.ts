@@ -0,0 +1,174 @@
+/**
+ * Unit Tests: Image providers
+ *
+ * Tests the provider registry (selection via IMAGE_PROVIDER), the offline mock provider,
+ * the OpenAI-compatible provider and AIImageService running on the mock provider.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  createImageProvider,
+  getImageProviderNames,
+  registerImageProvider,
+  type ImageProvider,
+} from "@/lib/services/image-provider.service";
+import { MockImageService } from "@/lib/services/mock-image.service";
+import { OpenAIImageService } from "@/lib/services/openai-image.service";
+import { OpenRouterImageService } from "@/lib/services/openrouter-image.service";
+import { createAIImageService } from "@/lib/services/ai-image.service";
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const decodePng = (dataUrl: string) => {
+  const buffer = Buffer.from(dataUrl.replace("data:image/png;base64,", ""), "base64");
+  return {
+    signature: buffer.subarray(0, 8).toString("hex"),
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+  };
+};
+
+describe("Image providers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("createImageProvider()", () => {
+    it("powinien domyślnie utworzyć dostawcę OpenRouter z modelem z konfiguracji", () => {
+      const provider = createImageProvider({ PUBLIC_OPENROUTER_API_KEY: "key", IMAGE_MODEL: "custom/model" });
+
+      expect(provider).toBeInstanceOf(OpenRouterImageService);
+      expect(provider.model).toBe("custom/model");
+    });
+
+    it("powinien utworzyć dostawcę zgodnego z OpenAI", () => {
+      const provider = createImageProvider({
+        IMAGE_PROVIDER: "openai",
+        OPENAI_IMAGES_API_KEY: "key",
+        OPENAI_IMAGES_BASE_URL: "http://localhost:8080/v1",
+      });
+
+      expect(provider).toBeInstanceOf(OpenAIImageService);
+      expect(provider.model).toBe("gpt-image-1");
+    });
+
+    it("powinien utworzyć dostawcę mock bez żadnych kluczy", () => {
+      expect(createImageProvider({ IMAGE_PROVIDER: "mock" })).toBeInstanceOf(MockImageService);
+    });
+
+    it("powinien rzucić błąd gdy brakuje klucza wybranego dostawcy", () => {
+      expect(() => createImageProvider({})).toThrow("PUBLIC_OPENROUTER_API_KEY is required");
+      expect(() => createImageProvider({ IMAGE_PROVIDER: "openai" })).toThrow("OPENAI_IMAGES_API_KEY is required");
+    });
+
+    it("powinien rzucić błąd dla nieznanego dostawcy", () => {
+      expect(() => createImageProvider({ IMAGE_PROVIDER: "unknown" })).toThrow("Unknown IMAGE_PROVIDER 'unknown'");
+    });
+
+    it("powinien pozwolić zarejestrować własnego dostawcę", () => {
+      const customProvider = { name: "custom", model: "custom-model" } as ImageProvider;
+      registerImageProvider("custom", () => customProvider);
+
+      expect(getImageProviderNames()).toEqual(expect.arrayContaining(["openrouter", "openai", "mock", "custom"]));
+      expect(createImageProvider({ IMAGE_PROVIDER: "custom" })).toBe(customProvider);
+    });
+  });
+
+  describe("MockImageService", () => {
+    const provider = new MockImageService();
+
+    it("powinien wygenerować poprawny obraz PNG", async () => {
+      const result = await provider.generateImage("Dębowy stół jadalny");
+
+      expect(result.success).toBe(true);
+      expect(result.imageUrl).toMatch(/^data:image\/png;base64,/);
+      expect(decodePng(result.imageUrl)).toEqual({ signature: "89504e470d0a1a0a", width: 256, height: 256 });
+    });
+
+    it("powinien zwracać ten sam obraz dla tego samego promptu i różne dla różnych", async () => {
+      const first = await provider.generateImage("Dębowy stół jadalny");
+      const second = await provider.generateImage("Dębowy stół jadalny");
+      const other = await provider.generateImage("Fotel z szarą tkaniną");
+
+      expect(first.imageUrl).toBe(second.imageUrl);
+      expect(first.imageUrl).not.toBe(other.imageUrl);
+    });
+
+    it("powinien wygenerować różne warianty dla jednego promptu", async () => {
+      const result = await provider.generateImageCandidates("Dębowy stół jadalny", "", 3);
+
+      expect(result.success).toBe(true);
+      expect(new Set(result.imageUrls).size).toBe(3);
+    });
+
+    it("powinien zwrócić błąd dla pustego promptu", async () => {
+      const result = await provider.generateImage("   ");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Prompt cannot be empty");
+    });
+  });
+
+  describe("OpenAIImageService", () => {
+    const provider = new OpenAIImageService({ apiKey: "key", baseUrl: "http://localhost:8080/v1/" });
+
+    it("powinien wysłać żądanie generowania i zwrócić obraz jako data URL", async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [{ b64_json: "aW1hZ2U=" }] }),
+      });
+
+      const result = await provider.generateImage("Dębowy stół", "blurry");
+
+      expect(result).toMatchObject({ success: true, imageUrl: "data:image/png;base64,aW1hZ2U=" });
+      const [url, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+      expect(url).toBe("http://localhost:8080/v1/images/generations");
+      expect(JSON.parse(init.body)).toEqual({
+        model: "gpt-image-1",
+        prompt: "Dębowy stół\n\nAvoid: blurry",
+        n: 1,
+        size: "1024x1024",
+      });
+    });
+
+    it("powinien wygenerować warianty jednym żądaniem z parametrem n", async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [{ b64_json: "YQ==" }, { b64_json: "Yg==" }] }),
+      });
+
+      const result = await provider.generateImageCandidates("Dębowy stół", "", 2);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body).n).toBe(2);
+      expect(result.imageUrls).toEqual(["data:image/png;base64,YQ==", "data:image/png;base64,Yg=="]);
+    });
+
+    it("powinien zwrócić błąd API zamiast rzucać wyjątek", async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: { message: "Invalid API key", code: "invalid_api_key" } }),
+      });
+
+      const result = await provider.generateImage("Dębowy stół");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Images API error: Invalid API key");
+    });
+  });
+
+  describe("createAIImageService()", () => {
+    it("powinien generować obrazy offline z dostawcą mock", async () => {
+      const service = createAIImageService({ IMAGE_PROVIDER: "mock", PUBLIC_OPENROUTER_API_KEY: "key" });
+
+      const result = await service.generateFurnitureImage("Nowoczesny fotel w stylu skandynawskim", 2);
+
+      expect(result.success).toBe(true);
+      expect(result.imageUrls).toHaveLength(2);
+      expect(result.positivePrompt).toBeTruthy();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+});
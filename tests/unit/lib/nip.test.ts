@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { isValidNip } from "@/lib/nip";
+import { CreateUpdateArtisanProfileSchema } from "@/lib/schemas";
+
+describe("nip", () => {
+  describe("isValidNip", () => {
+    it("powinien zaakceptować NIP z poprawną cyfrą kontrolną", () => {
+      expect(isValidNip("1234563218")).toBe(true);
+      expect(isValidNip("5260250995")).toBe(true);
+    });
+
+    it("powinien odrzucić NIP z błędną cyfrą kontrolną", () => {
+      expect(isValidNip("1234567890")).toBe(false);
+      expect(isValidNip("5260250996")).toBe(false);
+    });
+
+    it("powinien odrzucić NIP, dla którego suma kontrolna daje 10", () => {
+      // Weighted sum 6·1 + 2·2 = 10; no check digit can match it
+      expect(isValidNip("1002000000")).toBe(false);
+    });
+
+    it("powinien odrzucić NIP w nieprawidłowym formacie", () => {
+      expect(isValidNip("123-456-32-18")).toBe(false);
+      expect(isValidNip("123456321")).toBe(false);
+      expect(isValidNip("")).toBe(false);
+    });
+  });
+
+  describe("CreateUpdateArtisanProfileSchema", () => {
+    it("powinien zgłosić błąd cyfry kontrolnej dla NIP w poprawnym formacie", () => {
+      const result = CreateUpdateArtisanProfileSchema.safeParse({
+        company_name: "Stolarnia",
+        nip: "1234567890",
+        is_public: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.errors.map((error) => error.message)).toEqual([
+        "Nieprawidłowy NIP - cyfra kontrolna się nie zgadza",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  comparePriceToBudget,
+  formatBudget,
+  formatDimensions,
+  formatLeadTime,
+  isProposalExpired,
+} from "@/lib/project-format";
+
+describe("project-format", () => {
+  describe("formatDimensions", () => {
+    it("powinien sformatować wszystkie trzy wymiary", () => {
+      expect(formatDimensions({ width: 120, depth: 80, height: 75, unit: "cm" })).toBe("120 × 80 × 75 cm");
+    });
+
+    it("powinien opisać wymiary, gdy część z nich nie została podana", () => {
+      expect(formatDimensions({ width: 1.2, depth: null, height: 0.75, unit: "m" })).toBe("szer. 1,2 m, wys. 0,75 m");
+    });
+
+    it("powinien zwrócić null dla projektu bez wymiarów", () => {
+      expect(formatDimensions(null)).toBeNull();
+    });
+  });
+
+  describe("formatBudget", () => {
+    it("powinien sformatować zakres budżetu", () => {
+      expect(formatBudget({ min: 2000, max: 3000, currency: "PLN" })).toBe("2000 – 3000 PLN");
+    });
+
+    it("powinien sformatować budżet z jedną granicą", () => {
+      expect(formatBudget({ min: null, max: 1500, currency: "PLN" })).toBe("do 1500 PLN");
+      expect(formatBudget({ min: 3000, max: null, currency: "EUR" })).toBe("od 3000 EUR");
+    });
+
+    it("powinien sformatować stały budżet jako jedną kwotę", () => {
+      expect(formatBudget({ min: 2000, max: 2000, currency: "USD" })).toBe("2000 USD");
+    });
+
+    it("powinien zwrócić null dla projektu bez budżetu", () => {
+      expect(formatBudget(null)).toBeNull();
+    });
+  });
+
+  describe("comparePriceToBudget", () => {
+    it("powinien oznaczyć cenę mieszczącą się w budżecie", () => {
+      expect(comparePriceToBudget(2500, { min: 2000, max: 3000, currency: "PLN" })).toEqual({
+        position: "within",
+        label: "w budżecie",
+      });
+    });
+
+    it("powinien podać różnicę dla ceny spoza budżetu", () => {
+      expect(comparePriceToBudget(3500, { min: null, max: 3000, currency: "PLN" })).toEqual({
+        position: "above",
+        label: "500 PLN powyżej budżetu",
+      });
+      expect(comparePriceToBudget(1500, { min: 2000, max: null, currency: "PLN" })).toEqual({
+        position: "below",
+        label: "500 PLN poniżej budżetu",
+      });
+    });
+
+    it("powinien zwrócić null bez budżetu lub dla budżetu w innej walucie", () => {
+      expect(comparePriceToBudget(2500, null)).toBeNull();
+      expect(comparePriceToBudget(2500, { min: 2000, max: 3000, currency: "EUR" })).toBeNull();
+    });
+  });
+
+  describe("formatLeadTime", () => {
+    it("powinien odmienić liczbę dni", () => {
+      expect(formatLeadTime(1)).toBe("1 dzień");
+      expect(formatLeadTime(21)).toBe("21 dni");
+    });
+
+    it("powinien zwrócić null, gdy czas realizacji nie został podany", () => {
+      expect(formatLeadTime(null)).toBeNull();
+    });
+  });
+
+  describe("isProposalExpired", () => {
+    const now = new Date("2025-11-15T18:00:00Z");
+
+    it("powinien uznać ofertę za ważną do końca dnia ważności", () => {
+      expect(isProposalExpired("2025-11-15", now)).toBe(false);
+      expect(isProposalExpired("2025-11-30", now)).toBe(false);
+    });
+
+    it("powinien uznać ofertę za wygasłą po dniu ważności", () => {
+      expect(isProposalExpired("2025-11-14", now)).toBe(true);
+    });
+
+    it("powinien uznać ofertę bez daty ważności za bezterminową", () => {
+      expect(isProposalExpired(null, now)).toBe(false);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import type { SupabaseClient } from "@/db/supabase.client";
-import { ProjectService, ProjectError } from "@/lib/services/project.service";
-import type { CreateProjectCommand } from "@/types";
+import { ProjectService, ProjectError, parseSearchSnippet } from "@/lib/services/project.service";
+import type { CreateProjectCommand, ProjectSortOption } from "@/types";
 
 /**
  * Testy jednostkowe: ProjectService
@@ -22,8 +22,8 @@ describe("Unit: ProjectService", () => {
     generated_image_id: mockImageId,
     category_id: mockCategoryId,
     material_id: mockMaterialId,
-    dimensions: "100x50x80 cm",
-    budget_range: "1000-2000 PLN",
+    dimensions: { width: 100, depth: 50, height: 80, unit: "cm" },
+    budget: { min: 1000, max: 2000 },
   };
 
   const createMockSupabase = () => {
@@ -31,6 +31,7 @@ describe("Unit: ProjectService", () => {
 
     return {
       from: mockFrom,
+      rpc: vi.fn().mockResolvedValue({ data: 0, error: null }),
     } as unknown as SupabaseClient;
   };
 
@@ -54,8 +55,13 @@ describe("Unit: ProjectService", () => {
         id: "project-123",
         client_id: mockClientId,
         status: "open",
-        dimensions: "100x50x80 cm",
-        budget_range: "1000-2000 PLN",
+        width: 100,
+        depth: 50,
+        height: 80,
+        dimension_unit: "cm",
+        budget_min: 1000,
+        budget_max: 2000,
+        budget_currency: "PLN",
         accepted_proposal_id: null,
         accepted_price: null,
         created_at: "2025-01-01T00:00:00Z",
@@ -76,6 +82,7 @@ describe("Unit: ProjectService", () => {
       };
 
       // Setup mock chains
+      const insertMock = vi.fn().mockReturnThis();
       let callIndex = 0;
       (mockSupabase.from as ReturnType<typeof vi.fn>).mockImplementation(() => {
         callIndex++;
@@ -119,7 +126,7 @@ describe("Unit: ProjectService", () => {
         if (callIndex === 5) {
           // Fifth call: insert project
           return {
-            insert: vi.fn().mockReturnThis(),
+            insert: insertMock,
             select: vi.fn().mockReturnThis(),
             single: vi.fn().mockResolvedValue({ data: mockProject, error: null }),
           };
@@ -141,12 +148,24 @@ describe("Unit: ProjectService", () => {
       expect(result.id).toBe("project-123");
       expect(result.client_id).toBe(mockClientId);
       expect(result.status).toBe("open");
-      expect(result.dimensions).toBe("100x50x80 cm");
-      expect(result.budget_range).toBe("1000-2000 PLN");
+      expect(result.dimensions).toEqual({ width: 100, depth: 50, height: 80, unit: "cm" });
+      expect(result.budget).toEqual({ min: 1000, max: 2000, currency: "PLN" });
+      expect(insertMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          width: 100,
+          depth: 50,
+          height: 80,
+          dimension_unit: "cm",
+          budget_min: 1000,
+          budget_max: 2000,
+          budget_currency: "PLN",
+        })
+      );
       expect(result.generated_image.id).toBe(mockImageId);
       expect(result.category.name).toBe("Krzesła");
       expect(result.material.name).toBe("Drewno");
       expect(result.proposals_count).toBe(0);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("create_saved_search_alerts", { project_id: "project-123" });
     });
 
     it("powinien utworzyć projekt bez opcjonalnych pól", async () => {
@@ -165,8 +184,13 @@ describe("Unit: ProjectService", () => {
         id: "project-123",
         client_id: mockClientId,
         status: "open",
-        dimensions: null,
-        budget_range: null,
+        width: null,
+        depth: null,
+        height: null,
+        dimension_unit: null,
+        budget_min: null,
+        budget_max: null,
+        budget_currency: null,
         accepted_proposal_id: null,
         accepted_price: null,
         created_at: "2025-01-01T00:00:00Z",
@@ -237,7 +261,7 @@ describe("Unit: ProjectService", () => {
       const result = await service.createProject(commandWithoutOptionals, mockClientId);
 
       expect(result.dimensions).toBeNull();
-      expect(result.budget_range).toBeNull();
+      expect(result.budget).toBeNull();
     });
   });
 
@@ -283,6 +307,24 @@ describe("Unit: ProjectService", () => {
       });
     });
 
+    it("powinien rzucić błąd 409 gdy obraz jest niewybranym wariantem", async () => {
+      (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: { id: mockImageId, user_id: mockClientId, is_candidate: true },
+              error: null,
+            }),
+          }),
+        }),
+      });
+
+      await expect(service.createProject(validCommand, mockClientId)).rejects.toMatchObject({
+        code: "IMAGE_IS_CANDIDATE",
+        statusCode: 409,
+      });
+    });
+
     it("powinien rzucić błąd 409 gdy obraz jest już używany", async () => {
       const mockGeneratedImage = {
         id: mockImageId,
@@ -615,8 +657,13 @@ describe("Unit: ProjectService", () => {
             id: "project-1",
             client_id: "client-1",
             status: "open",
-            dimensions: "100x50x80 cm",
-            budget_range: "1000-2000 PLN",
+            width: 100,
+            depth: 50,
+            height: 80,
+            dimension_unit: "cm",
+            budget_min: 1000,
+            budget_max: 2000,
+            budget_currency: "PLN",
             accepted_proposal_id: null,
             accepted_price: null,
             created_at: "2025-10-19T12:00:00Z",
@@ -639,8 +686,13 @@ describe("Unit: ProjectService", () => {
             id: "project-2",
             client_id: "client-2",
             status: "open",
-            dimensions: "200x100x75 cm",
-            budget_range: "5000-8000 PLN",
+            width: 200,
+            depth: 100,
+            height: 75,
+            dimension_unit: "cm",
+            budget_min: 5000,
+            budget_max: 8000,
+            budget_currency: "PLN",
             accepted_proposal_id: null,
             accepted_price: null,
             created_at: "2025-10-19T11:00:00Z",
@@ -682,14 +734,27 @@ describe("Unit: ProjectService", () => {
           mockArtisanRole
         );
 
-        expect(result).toEqual({
-          data: mockProjects,
-          pagination: {
-            page: 1,
-            limit: 20,
-            total: 2,
-            total_pages: 1,
-          },
+        expect(result.data).toHaveLength(2);
+        expect(result.data[0]).toEqual({
+          id: "project-1",
+          client_id: "client-1",
+          generated_image: mockProjects[0].generated_image,
+          category: mockProjects[0].category,
+          material: mockProjects[0].material,
+          status: "open",
+          dimensions: { width: 100, depth: 50, height: 80, unit: "cm" },
+          budget: { min: 1000, max: 2000, currency: "PLN" },
+          accepted_proposal_id: null,
+          accepted_price: null,
+          created_at: "2025-10-19T12:00:00Z",
+          updated_at: "2025-10-19T12:00:00Z",
+        });
+        expect(result.pagination).toEqual({
+          page: 1,
+          limit: 20,
+          total: 2,
+          total_pages: 1,
+          next_cursor: null,
         });
         expect(mockSupabase.from).toHaveBeenCalledWith("projects");
       });
@@ -729,6 +794,259 @@ describe("Unit: ProjectService", () => {
         expect(mockRange).toHaveBeenCalledWith(10, 19); // page 2, limit 10
       });
 
+      it("should apply budget and size filters", async () => {
+        const mockEq = vi.fn().mockReturnThis();
+        const mockOverlaps = vi.fn().mockReturnThis();
+        const mockLte = vi.fn().mockReturnThis();
+
+        (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+          select: vi.fn().mockReturnThis(),
+          eq: mockEq,
+          overlaps: mockOverlaps,
+          lte: mockLte,
+          order: vi.fn().mockReturnThis(),
+          range: vi.fn().mockResolvedValue({ data: [], error: null, count: 0 }),
+        });
+
+        await service.listProjects(
+          {
+            status: "open",
+            budget_max: 3000,
+            max_width: 120,
+            max_height: 80,
+            page: 1,
+            limit: 20,
+          },
+          mockUserId,
+          mockArtisanRole
+        );
+
+        expect(mockEq).toHaveBeenCalledWith("budget_currency", "PLN");
+        expect(mockOverlaps).toHaveBeenCalledWith("budget_span", "[,3000]");
+        expect(mockLte).toHaveBeenCalledWith("width_cm", 120);
+        expect(mockLte).toHaveBeenCalledWith("height_cm", 80);
+        expect(mockLte).not.toHaveBeenCalledWith("depth_cm", expect.anything());
+      });
+
+      it("should filter by currency alone without a budget range", async () => {
+        const mockEq = vi.fn().mockReturnThis();
+        const mockOverlaps = vi.fn().mockReturnThis();
+
+        (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+          select: vi.fn().mockReturnThis(),
+          eq: mockEq,
+          overlaps: mockOverlaps,
+          order: vi.fn().mockReturnThis(),
+          range: vi.fn().mockResolvedValue({ data: [], error: null, count: 0 }),
+        });
+
+        await service.listProjects({ currency: "EUR", page: 1, limit: 20 }, mockUserId, mockArtisanRole);
+
+        expect(mockEq).toHaveBeenCalledWith("budget_currency", "EUR");
+        expect(mockOverlaps).not.toHaveBeenCalled();
+      });
+
+      it("should sort by the requested order with the id as a tie breaker", async () => {
+        const mockOrder = vi.fn().mockReturnThis();
+
+        (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          order: mockOrder,
+          range: vi.fn().mockResolvedValue({ data: [], error: null, count: 0 }),
+        });
+
+        await service.listProjects({ sort: "fewest_proposals", page: 1, limit: 20 }, mockUserId, mockArtisanRole);
+
+        expect(mockOrder).toHaveBeenNthCalledWith(1, "proposals_count", { ascending: true });
+        expect(mockOrder).toHaveBeenNthCalledWith(2, "id", { ascending: true });
+      });
+
+      it("should return a next_cursor and resume the list after it", async () => {
+        const listRow = (id: string, createdAt: string) => ({
+          id,
+          client_id: "client-1",
+          status: "open",
+          width: null,
+          depth: null,
+          height: null,
+          dimension_unit: null,
+          budget_min: null,
+          budget_max: null,
+          budget_currency: null,
+          budget_sort: 0,
+          proposals_count: 0,
+          accepted_proposal_id: null,
+          accepted_price: null,
+          created_at: createdAt,
+          updated_at: createdAt,
+          generated_image: { id: `image-${id}`, image_url: "https://example.com/image.jpg", prompt: null },
+          category: { id: "category-1", name: "Regały" },
+          material: { id: "material-1", name: "Dąb" },
+        });
+
+        (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          order: vi.fn().mockReturnThis(),
+          range: vi.fn().mockResolvedValue({
+            data: [
+              listRow("00000000-0000-4000-8000-000000000003", "2025-10-19T12:00:00+00:00"),
+              listRow("00000000-0000-4000-8000-000000000002", "2025-10-19T11:00:00+00:00"),
+            ],
+            error: null,
+            count: 3,
+          }),
+        });
+
+        const firstPage = await service.listProjects({ page: 1, limit: 2 }, mockUserId, mockArtisanRole);
+        const nextCursor = firstPage.pagination.next_cursor;
+
+        expect(nextCursor).toEqual(expect.any(String));
+
+        const mockOr = vi.fn().mockReturnThis();
+        const mockLimit = vi.fn().mockResolvedValue({
+          data: [listRow("00000000-0000-4000-8000-000000000001", "2025-10-19T10:00:00+00:00")],
+          error: null,
+          count: 3,
+        });
+        (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          order: vi.fn().mockReturnThis(),
+          or: mockOr,
+          limit: mockLimit,
+        });
+
+        const secondPage = await service.listProjects(
+          { cursor: nextCursor ?? undefined, page: 1, limit: 2 },
+          mockUserId,
+          mockArtisanRole
+        );
+
+        expect(mockOr).toHaveBeenCalledWith(
+          'created_at.lt."2025-10-19T11:00:00+00:00",and(created_at.eq."2025-10-19T11:00:00+00:00",id.lt.00000000-0000-4000-8000-000000000002)'
+        );
+        expect(mockLimit).toHaveBeenCalledWith(3); // one extra row tells whether there is a next page
+        expect(secondPage.data.map((project) => project.id)).toEqual(["00000000-0000-4000-8000-000000000001"]);
+        expect(secondPage.pagination.next_cursor).toBeNull();
+      });
+
+      it("should reject a malformed cursor or a cursor of another sort order", async () => {
+        const cursor = Buffer.from(
+          JSON.stringify(["newest", "2025-10-19T11:00:00+00:00", "00000000-0000-4000-8000-000000000002"])
+        ).toString("base64url");
+
+        await expect(
+          service.listProjects({ cursor: "not-a-cursor", page: 1, limit: 20 }, mockUserId, mockArtisanRole)
+        ).rejects.toMatchObject({ code: "INVALID_CURSOR", statusCode: 400 });
+        await expect(
+          service.listProjects({ cursor, sort: "budget_desc", page: 1, limit: 20 }, mockUserId, mockArtisanRole)
+        ).rejects.toMatchObject({ code: "INVALID_CURSOR", statusCode: 400 });
+        expect(mockSupabase.from).not.toHaveBeenCalled();
+      });
+
+      it("should reject a cursor whose values do not match the sort column before they reach the filter", async () => {
+        const encode = (parts: unknown[]) => Buffer.from(JSON.stringify(parts)).toString("base64url");
+        const projectId = "00000000-0000-4000-8000-000000000002";
+
+        const cases: [ProjectSortOption, unknown[]][] = [
+          ["newest", ["newest", "2025-10-19T11:00:00+00:00", "x,id.gt.00000000-0000-4000-8000-000000000000"]],
+          ["newest", ["newest", "2025-10-19),status.eq.closed", projectId]],
+          ["newest", ["newest", 5, projectId]],
+          ["fewest_proposals", ["fewest_proposals", "0)", projectId]],
+          ["newest", ["toString", "2025-10-19T11:00:00+00:00", projectId]],
+        ];
+
+        for (const [sort, parts] of cases) {
+          await expect(
+            service.listProjects({ cursor: encode(parts), sort, page: 1, limit: 20 }, mockUserId, mockArtisanRole)
+          ).rejects.toMatchObject({ code: "INVALID_CURSOR", statusCode: 400 });
+        }
+        expect(mockSupabase.from).not.toHaveBeenCalled();
+      });
+
+      it("should order search results by relevance and attach snippets", async () => {
+        const searchRow = (id: string) => ({
+          id,
+          client_id: "client-1",
+          status: "open",
+          width: null,
+          depth: null,
+          height: null,
+          dimension_unit: null,
+          budget_min: null,
+          budget_max: null,
+          budget_currency: null,
+          accepted_proposal_id: null,
+          accepted_price: null,
+          created_at: "2025-10-19T12:00:00Z",
+          updated_at: "2025-10-19T12:00:00Z",
+          generated_image: { id: `image-${id}`, image_url: "https://example.com/image.jpg", prompt: "regał z dębu" },
+          category: { id: "category-1", name: "Regały" },
+          material: { id: "material-1", name: "Dąb" },
+        });
+        const mockIn = vi.fn().mockResolvedValue({
+          data: [searchRow("project-1"), searchRow("project-2")],
+          error: null,
+          count: 2,
+        });
+        const mockRange = vi.fn();
+
+        (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+          data: [
+            { id: "project-2", rank: 0.9, snippet: "⟦regał⟧ z dębu", total_count: 25 },
+            { id: "project-1", rank: 0.4, snippet: "szafa · ⟦Regały⟧", total_count: 25 },
+          ],
+          error: null,
+        });
+        (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
+          select: vi.fn().mockReturnThis(),
+          in: mockIn,
+          range: mockRange,
+        });
+
+        const result = await service.listProjects(
+          { search: "regał", status: "open", budget_max: 3000, page: 2, limit: 20 },
+          mockUserId,
+          mockArtisanRole
+        );
+
+        expect(mockSupabase.rpc).toHaveBeenCalledWith(
+          "search_projects",
+          expect.objectContaining({
+            search_query: "regał",
+            project_status: "open",
+            budget_max: 3000,
+            result_limit: 20,
+            result_offset: 20,
+          })
+        );
+        expect(mockIn).toHaveBeenCalledWith("id", ["project-2", "project-1"]);
+        expect(mockRange).not.toHaveBeenCalled();
+        expect(result.data.map((project) => project.id)).toEqual(["project-2", "project-1"]);
+        expect(result.data[0].search_match).toEqual({
+          rank: 0.9,
+          snippet: [
+            { text: "regał", highlighted: true },
+            { text: " z dębu", highlighted: false },
+          ],
+        });
+        expect(result.pagination).toEqual({ page: 2, limit: 20, total: 25, total_pages: 2, next_cursor: null });
+      });
+
+      it("should return an empty page when nothing matches the search", async () => {
+        (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({ data: [], error: null });
+
+        const result = await service.listProjects({ search: "xyz", page: 1, limit: 20 }, mockUserId, mockArtisanRole);
+
+        expect(result).toEqual({
+          data: [],
+          pagination: { page: 1, limit: 20, total: 0, total_pages: 0, next_cursor: null },
+        });
+        expect(mockSupabase.from).not.toHaveBeenCalled();
+      });
+
       it("should calculate pagination correctly", async () => {
         (mockSupabase.from as ReturnType<typeof vi.fn>).mockReturnValue({
           select: vi.fn().mockReturnThis(),
@@ -756,6 +1074,7 @@ describe("Unit: ProjectService", () => {
           limit: 20,
           total: 53,
           total_pages: 3,
+          next_cursor: null,
         });
       });
     });
@@ -831,6 +1150,32 @@ describe("Unit: ProjectService", () => {
           expect((error as ProjectError).statusCode).toBe(500);
         }
       });
+
+      it("should handle search errors", async () => {
+        (mockSupabase.rpc as ReturnType<typeof vi.fn>).mockResolvedValue({
+          data: null,
+          error: { message: "Database error" },
+        });
+
+        await expect(
+          service.listProjects({ search: "regał", page: 1, limit: 20 }, mockUserId, mockArtisanRole)
+        ).rejects.toMatchObject({ code: "PROJECT_SEARCH_FAILED", statusCode: 500 });
+      });
+    });
+  });
+
+  describe("parseSearchSnippet", () => {
+    it("should split a snippet into plain and highlighted segments", () => {
+      expect(parseSearchSnippet("Regał z ⟦dębu⟧ · ⟦Dąb⟧")).toEqual([
+        { text: "Regał z ", highlighted: false },
+        { text: "dębu", highlighted: true },
+        { text: " · ", highlighted: false },
+        { text: "Dąb", highlighted: true },
+      ]);
+    });
+
+    it("should return a single plain segment when nothing is highlighted", () => {
+      expect(parseSearchSnippet("Regał")).toEqual([{ text: "Regał", highlighted: false }]);
     });
   });
 
@@ -847,8 +1192,13 @@ describe("Unit: ProjectService", () => {
       id: mockProjectId,
       client_id: mockClientId,
       status: "open",
-      dimensions: "100x50x80 cm",
-      budget_range: "1000-2000 PLN",
+      width: 100,
+      depth: 50,
+      height: 80,
+      dimension_unit: "cm",
+      budget_min: 1000,
+      budget_max: 2000,
+      budget_currency: "PLN",
       accepted_proposal_id: null,
       accepted_price: null,
       created_at: "2025-10-19T12:00:00Z",
@@ -857,6 +1207,7 @@ describe("Unit: ProjectService", () => {
         id: "image-123",
         image_url: "https://example.com/image.jpg",
         prompt: "test prompt",
+        technical_notes: "Construction focus: joinery",
       },
       category: {
         id: "category-123",
@@ -905,6 +1256,7 @@ describe("Unit: ProjectService", () => {
         expect(result.id).toBe(mockProjectId);
         expect(result.client_id).toBe(mockClientId);
         expect(result.proposals_count).toBe(3);
+        expect(result.generated_image.technical_notes).toBe("Construction focus: joinery");
       });
 
       it("should return project details for artisan when project is open", async () => {
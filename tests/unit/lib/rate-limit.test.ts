@@ -5,6 +5,7 @@ import {
   getRemainingRequests,
   getResetTime,
   checkImageGenerationRateLimit,
+  checkContentReportRateLimit,
   resetRateLimit,
   clearAllRateLimits,
 } from "@/lib/rate-limit";
@@ -195,6 +196,27 @@ describe("Rate Limiting", () => {
     });
   });
 
+  describe("checkContentReportRateLimit()", () => {
+    it("powinien odrzucić zgłoszenia przekraczające limit", () => {
+      // Wyczerpaj limit
+      for (let i = 0; i < 10; i++) {
+        expect(checkContentReportRateLimit("user123").allowed).toBe(true);
+      }
+
+      // Następne zgłoszenie powinno być odrzucone
+      expect(checkContentReportRateLimit("user123").allowed).toBe(false);
+    });
+
+    it("powinien liczyć zgłoszenia niezależnie od generowania obrazów", () => {
+      for (let i = 0; i < 10; i++) {
+        checkContentReportRateLimit("user123");
+      }
+
+      const result = checkImageGenerationRateLimit("user123", "192.168.1.1");
+      expect(result.allowed).toBe(true);
+    });
+  });
+
   describe("resetRateLimit()", () => {
     it("powinien resetować limit dla konkretnego klucza", () => {
       const key = "test-key";
@@ -0,0 +1,296 @@
+/**
+ * Unit Tests: Route Policies
+ *
+ * Checks the access decision of every page and API route for each kind of viewer,
+ * and the responses built for denied requests (redirects for pages, JSON for the API).
+ */
+
+import { readdirSync } from "fs";
+import { join, relative, resolve } from "path";
+import { describe, it, expect, vi } from "vitest";
+import {
+  checkRouteAccess,
+  createAccessDeniedResponse,
+  findRoutePolicy,
+  type RouteAccessDenial,
+  type RouteViewer,
+} from "@/middleware/route-policies";
+import type { UserRole } from "@/types";
+
+type Outcome = "allowed" | RouteAccessDenial;
+type ViewerName = "anonymous" | "client" | "artisan" | "artisanWithoutProfile" | "admin";
+type Expectation = Record<ViewerName, Outcome>;
+
+const viewers: Record<ViewerName, { role?: UserRole; hasProfile: boolean }> = {
+  anonymous: { hasProfile: false },
+  client: { role: "client", hasProfile: false },
+  artisan: { role: "artisan", hasProfile: true },
+  artisanWithoutProfile: { role: "artisan", hasProfile: false },
+  admin: { role: "admin", hasProfile: false },
+};
+
+const anyone: Expectation = {
+  anonymous: "allowed",
+  client: "allowed",
+  artisan: "allowed",
+  artisanWithoutProfile: "allowed",
+  admin: "allowed",
+};
+
+const signedIn: Expectation = { ...anyone, anonymous: "unauthenticated" };
+
+function only(role: UserRole): Expectation {
+  const outcome = (viewerRole: UserRole): Outcome => (viewerRole === role ? "allowed" : "forbidden");
+
+  return {
+    anonymous: "unauthenticated",
+    client: outcome("client"),
+    artisan: outcome("artisan"),
+    artisanWithoutProfile: outcome("artisan"),
+    admin: outcome("admin"),
+  };
+}
+
+const artisansWithProfile: Expectation = { ...only("artisan"), artisanWithoutProfile: "artisan_profile_incomplete" };
+
+// [method, route file path, expectation]
+const ROUTES: [string, string, Expectation][] = [
+  // Pages
+  ["GET", "/", anyone],
+  ["GET", "/admin", only("admin")],
+  ["GET", "/artisan/[id]", anyone],
+  ["GET", "/auth/confirm", anyone],
+  ["GET", "/dashboard/artisan", only("artisan")],
+  ["GET", "/dashboard/client", only("client")],
+  ["GET", "/gallery", only("client")],
+  ["GET", "/generate", only("client")],
+  ["GET", "/login", anyone],
+  ["GET", "/market", artisansWithProfile],
+  ["GET", "/password-recovery", anyone],
+  ["GET", "/password-reset", anyone],
+  ["GET", "/profile", only("artisan")],
+  ["GET", "/profile/edit", only("artisan")],
+  ["GET", "/projects", only("artisan")],
+  ["GET", "/projects/[projectId]", signedIn],
+  ["GET", "/projects/new/[imageId]", only("client")],
+  ["GET", "/register", anyone],
+  ["GET", "/settings/notifications", signedIn],
+  ["GET", "/settings/profile", signedIn],
+
+  // API: moderation
+  ["POST", "/api/admin/artisans/[artisanId]/unpublish", only("admin")],
+  ["POST", "/api/admin/artisans/[artisanId]/verify", only("admin")],
+  ["GET", "/api/admin/audit", only("admin")],
+  ["POST", "/api/admin/projects/[projectId]/close", only("admin")],
+  ["GET", "/api/admin/projects", only("admin")],
+  ["POST", "/api/admin/reports/[reportId]/resolve", only("admin")],
+  ["GET", "/api/admin/reports", only("admin")],
+  ["POST", "/api/admin/reviews/[reviewId]/hide", only("admin")],
+  ["DELETE", "/api/admin/reviews/[reviewId]/hide", only("admin")],
+  ["GET", "/api/admin/reviews", only("admin")],
+  ["PUT", "/api/admin/users/[userId]/generation-quota", only("admin")],
+  ["DELETE", "/api/admin/users/[userId]/generation-quota", only("admin")],
+  ["POST", "/api/admin/users/[userId]/suspend", only("admin")],
+  ["DELETE", "/api/admin/users/[userId]/suspend", only("admin")],
+  ["GET", "/api/admin/users", only("admin")],
+
+  // API: artisans
+  ["GET", "/api/artisans/[artisanId]", anyone],
+  ["GET", "/api/artisans/[artisanId]/reviews", anyone],
+  ["GET", "/api/artisans/me", only("artisan")],
+  ["PUT", "/api/artisans/me", only("artisan")],
+  ["DELETE", "/api/artisans/me/portfolio/[imageId]", only("artisan")],
+  ["POST", "/api/artisans/me/portfolio", only("artisan")],
+  ["DELETE", "/api/artisans/me/specializations/[specializationId]", only("artisan")],
+  ["POST", "/api/artisans/me/specializations", only("artisan")],
+
+  // API: authentication and dictionaries
+  ["GET", "/api/auth/callback", anyone],
+  ["POST", "/api/auth/login", anyone],
+  ["POST", "/api/auth/logout", anyone],
+  ["POST", "/api/auth/password-recovery", anyone],
+  ["POST", "/api/auth/password-reset", anyone],
+  ["POST", "/api/auth/register", anyone],
+  ["GET", "/api/categories", anyone],
+  ["GET", "/api/materials", anyone],
+  ["GET", "/api/specializations", anyone],
+  ["GET", "/api/debug/env", anyone],
+
+  // API: chat and notifications
+  ["GET", "/api/chat/token", signedIn],
+  ["POST", "/api/chat/users", signedIn],
+  ["GET", "/api/notifications", signedIn],
+  ["PATCH", "/api/notifications", signedIn],
+
+  // API: images
+  ["POST", "/api/images/candidates", only("client")],
+  ["POST", "/api/images/generate", only("client")],
+  ["GET", "/api/images/generated/[imageId]", only("client")],
+  ["DELETE", "/api/images/generated/[imageId]", only("client")],
+  ["GET", "/api/images/generated/[imageId]/versions", only("client")],
+  ["GET", "/api/images/generated", only("client")],
+  ["POST", "/api/images/refine", only("client")],
+
+  // API: projects
+  ["GET", "/api/projects", only("artisan")],
+  ["POST", "/api/projects", only("client")],
+  ["GET", "/api/projects/me", only("client")],
+  ["GET", "/api/projects/[projectId]", signedIn],
+  ["POST", "/api/projects/[projectId]/accept-proposal", only("client")],
+  ["GET", "/api/projects/[projectId]/history", signedIn],
+  ["GET", "/api/projects/[projectId]/milestones", signedIn],
+  ["PUT", "/api/projects/[projectId]/milestones", signedIn],
+  ["POST", "/api/projects/[projectId]/milestones/[milestoneId]/approve", only("client")],
+  ["POST", "/api/projects/[projectId]/milestones/[milestoneId]/submit", only("artisan")],
+  ["GET", "/api/projects/[projectId]/proposals", signedIn],
+  ["POST", "/api/projects/[projectId]/proposals", artisansWithProfile],
+  ["POST", "/api/projects/[projectId]/proposals/[proposalId]/reject", only("client")],
+  ["GET", "/api/projects/[projectId]/reviews", signedIn],
+  ["POST", "/api/projects/[projectId]/reviews", signedIn],
+  ["PATCH", "/api/projects/[projectId]/status", signedIn],
+
+  // API: proposals
+  ["GET", "/api/proposals/[proposalId]/attachments/[fileId]", signedIn],
+  ["POST", "/api/proposals/[proposalId]/counter-offers", signedIn],
+  ["GET", "/api/proposals/[proposalId]/negotiation", signedIn],
+  ["POST", "/api/proposals/[proposalId]/revisions", signedIn],
+  ["GET", "/api/proposals/me", only("artisan")],
+  ["POST", "/api/proposals/me/[proposalId]/withdraw", only("artisan")],
+
+  // API: content reports
+  ["POST", "/api/reports", signedIn],
+
+  // API: saved searches
+  ["GET", "/api/saved-searches", artisansWithProfile],
+  ["POST", "/api/saved-searches", artisansWithProfile],
+  ["PATCH", "/api/saved-searches/[searchId]", artisansWithProfile],
+  ["DELETE", "/api/saved-searches/[searchId]", artisansWithProfile],
+
+  // API: account
+  ["GET", "/api/users/me", signedIn],
+  ["PATCH", "/api/users/me", signedIn],
+  ["GET", "/api/users/me/email-preferences", signedIn],
+  ["PATCH", "/api/users/me/email-preferences", signedIn],
+];
+
+/**
+ * Turns a route file path into a request path, e.g. /projects/[projectId] -> /projects/3f2a...
+ */
+function toPathname(route: string): string {
+  return route.replace(/\[[^\]]+\]/g, "3f2a8c1e-0d4b-4c6a-9e7f-1a2b3c4d5e6f");
+}
+
+async function resolveOutcome(method: string, route: string, viewerName: ViewerName): Promise<Outcome> {
+  const policy = findRoutePolicy(toPathname(route), method);
+  if (!policy) {
+    return "allowed";
+  }
+
+  const viewer = viewers[viewerName];
+  const access = await checkRouteAccess(policy, {
+    isAuthenticated: viewerName !== "anonymous",
+    role: viewer.role,
+    hasArtisanProfile: () => Promise.resolve(viewer.hasProfile),
+  });
+
+  return access.allowed ? "allowed" : access.reason;
+}
+
+/**
+ * Lists the routes defined by the files in src/pages
+ */
+function listPageRoutes(): string[] {
+  const pagesDir = resolve(__dirname, "../../../src/pages");
+
+  const walk = (dir: string): string[] =>
+    readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+      entry.isDirectory() ? walk(join(dir, entry.name)) : [join(dir, entry.name)]
+    );
+
+  return walk(pagesDir).map((file) => {
+    const route = relative(pagesDir, file)
+      .replace(/\\/g, "/")
+      .replace(/\.(astro|ts)$/, "")
+      .replace(/(^|\/)index$/, "");
+
+    return `/${route}`;
+  });
+}
+
+describe("Route policies", () => {
+  it("powinien mieć oczekiwania dla każdej strony i endpointu API", () => {
+    const covered = new Set(ROUTES.map(([, route]) => route));
+    const missing = listPageRoutes().filter((route) => !covered.has(route));
+
+    expect(missing).toEqual([]);
+  });
+
+  describe.each(ROUTES)("%s %s", (method, route, expectation) => {
+    it.each(Object.keys(viewers) as ViewerName[])("%s", async (viewerName) => {
+      expect(await resolveOutcome(method, route, viewerName)).toBe(expectation[viewerName]);
+    });
+  });
+
+  describe("findRoutePolicy()", () => {
+    it("powinien dopasować politykę do metody HTTP", () => {
+      expect(findRoutePolicy("/api/projects", "GET")?.roles).toEqual(["artisan"]);
+      expect(findRoutePolicy("/api/projects", "post")?.roles).toEqual(["client"]);
+    });
+
+    it("powinien ignorować ukośnik na końcu ścieżki", () => {
+      expect(findRoutePolicy("/generate/", "GET")?.roles).toEqual(["client"]);
+    });
+
+    it("nie powinien dopasować ścieżek o wspólnym przedrostku", () => {
+      expect(findRoutePolicy("/generated", "GET")).toBeUndefined();
+      expect(findRoutePolicy("/api/administration", "GET")).toBeUndefined();
+    });
+  });
+
+  describe("checkRouteAccess()", () => {
+    it("powinien sprawdzać profil rzemieślnika tylko gdy polityka tego wymaga", async () => {
+      const viewer: RouteViewer = { isAuthenticated: true, role: "artisan", hasArtisanProfile: vi.fn() };
+
+      await checkRouteAccess({ pattern: "/profile/*", roles: ["artisan"] }, viewer);
+      expect(viewer.hasArtisanProfile).not.toHaveBeenCalled();
+
+      await checkRouteAccess({ pattern: "/market", roles: ["artisan"], requiresCompleteArtisanProfile: true }, viewer);
+      expect(viewer.hasArtisanProfile).toHaveBeenCalledTimes(1);
+    });
+
+    it("powinien odmówić dostępu użytkownikowi bez znanej roli", async () => {
+      const access = await checkRouteAccess(
+        { pattern: "/generate", roles: ["client"] },
+        { isAuthenticated: true, hasArtisanProfile: vi.fn() }
+      );
+
+      expect(access).toEqual({ allowed: false, reason: "forbidden" });
+    });
+  });
+
+  describe("createAccessDeniedResponse()", () => {
+    it.each([
+      ["unauthenticated", 401, "UNAUTHORIZED"],
+      ["forbidden", 403, "FORBIDDEN"],
+      ["artisan_profile_incomplete", 403, "ARTISAN_PROFILE_INCOMPLETE"],
+    ] as const)("powinien zwrócić błąd JSON dla API (%s)", async (reason, status, code) => {
+      const response = createAccessDeniedResponse("/api/images/generate", reason);
+      const data = await response.json();
+
+      expect(response.status).toBe(status);
+      expect(response.headers.get("Content-Type")).toBe("application/json");
+      expect(data.error.code).toBe(code);
+    });
+
+    it.each([
+      ["unauthenticated", "/login"],
+      ["forbidden", "/"],
+      ["artisan_profile_incomplete", "/profile/edit"],
+    ] as const)("powinien przekierować stronę (%s)", (reason, location) => {
+      const response = createAccessDeniedResponse("/market", reason);
+
+      expect(response.status).toBe(302);
+      expect(response.headers.get("Location")).toBe(location);
+    });
+  });
+});
@@ -230,6 +230,81 @@ describe("ProjectsQuerySchema", () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe("Budget and Size Validation", () => {
+    const baseQuery = {
+      status: null,
+      category_id: null,
+      material_id: null,
+      page: null,
+      limit: null,
+    };
+
+    it("should parse budget and size filters as numbers", () => {
+      const result = ProjectsQuerySchema.safeParse({
+        ...baseQuery,
+        budget_min: "1000",
+        budget_max: "2500.50",
+        currency: "USD",
+        max_width: "120",
+        max_depth: null,
+        max_height: "",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.budget_min).toBe(1000);
+        expect(result.data.budget_max).toBe(2500.5);
+        expect(result.data.currency).toBe("USD");
+        expect(result.data.max_width).toBe(120);
+        expect(result.data.max_depth).toBeUndefined();
+        expect(result.data.max_height).toBeUndefined();
+      }
+    });
+
+    it("should reject budget_min greater than budget_max", () => {
+      const result = ProjectsQuerySchema.safeParse({ ...baseQuery, budget_min: "3000", budget_max: "1000" });
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject negative and non-numeric values", () => {
+      expect(ProjectsQuerySchema.safeParse({ ...baseQuery, budget_max: "-5" }).success).toBe(false);
+      expect(ProjectsQuerySchema.safeParse({ ...baseQuery, max_width: "abc" }).success).toBe(false);
+    });
+
+    it("should trim the search phrase and ignore an empty one", () => {
+      const trimmed = ProjectsQuerySchema.safeParse({ ...baseQuery, search: "  dąb regał " });
+      const empty = ProjectsQuerySchema.safeParse({ ...baseQuery, search: "   " });
+
+      expect(trimmed.success && trimmed.data.search).toBe("dąb regał");
+      expect(empty.success && empty.data.search).toBeUndefined();
+    });
+
+    it("should reject a search phrase longer than 200 characters", () => {
+      const result = ProjectsQuerySchema.safeParse({ ...baseQuery, search: "a".repeat(201) });
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should default the sort order to newest", () => {
+      const result = ProjectsQuerySchema.safeParse(baseQuery);
+
+      expect(result.success && result.data.sort).toBe("newest");
+    });
+
+    it("should reject unsupported sort order", () => {
+      const result = ProjectsQuerySchema.safeParse({ ...baseQuery, sort: "random" });
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject unsupported currency", () => {
+      const result = ProjectsQuerySchema.safeParse({ ...baseQuery, currency: "GBP" });
+
+      expect(result.success).toBe(false);
+    });
+  });
 });
 
 describe("ProjectIdSchema", () => {
@@ -0,0 +1,587 @@
+/**
+ * Unit tests for AdminService
+ *
+ * Tests moderator actions (suspending users, hiding reviews, unpublishing artisan profiles,
+ * verifying artisans, closing projects, generation limits, resolving content reports), their
+ * audit log entries and the moderation lists.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AdminService, AdminError } from "@/lib/services/admin.service";
+import { AUTO_HIDDEN_REASON } from "@/lib/services/content-report.service";
+import { BusinessRegistryError, StubBusinessRegistryProvider } from "@/lib/services/business-registry.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("AdminService", () => {
+  let service: AdminService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+  let mockRpc: ReturnType<typeof vi.fn>;
+
+  const adminId = "admin-uuid-1";
+  const userId = "user-uuid-1";
+  const reviewId = "review-uuid-1";
+  const projectId = "project-uuid-1";
+  const reportId = "report-uuid-1";
+
+  const createSingleChain = (data: unknown, error: unknown = null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data, error }),
+    maybeSingle: vi.fn().mockResolvedValue({ data, error }),
+  });
+
+  const createUpdateChain = (error: unknown = null) => ({
+    update: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockResolvedValue({ error }),
+  });
+
+  const createAuditChain = (error: unknown = null) => ({
+    insert: vi.fn().mockResolvedValue({ error }),
+  });
+
+  const createListChain = (data: unknown[], count: number, error: unknown = null) => ({
+    select: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    not: vi.fn().mockReturnThis(),
+    range: vi.fn().mockResolvedValue({ data, count, error }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockRpc = vi.fn();
+    service = new AdminService({ from: mockFrom, rpc: mockRpc } as unknown as SupabaseClient);
+  });
+
+  describe("listUsers()", () => {
+    it("powinien pobrać użytkowników przez funkcję admin_list_users", async () => {
+      const result = { data: [{ id: userId, email: "jan@example.com" }], pagination: { page: 1, total: 1 } };
+      mockRpc.mockResolvedValueOnce({ data: result, error: null });
+
+      const users = await service.listUsers({ search: "jan", role: "artisan", page: 1, limit: 20 });
+
+      expect(mockRpc).toHaveBeenCalledWith("admin_list_users", {
+        search_query: "jan",
+        role_filter: "artisan",
+        page_num: 1,
+        page_size: 20,
+      });
+      expect(users).toEqual(result);
+    });
+
+    it("powinien zwrócić 403 gdy funkcja odmówi dostępu", async () => {
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: "42501", message: "Admin access required" } });
+
+      await expect(service.listUsers({ search: undefined, role: undefined, page: 1, limit: 20 })).rejects.toMatchObject(
+        { code: "FORBIDDEN", statusCode: 403 }
+      );
+    });
+  });
+
+  describe("suspendUser()", () => {
+    it("powinien zawiesić użytkownika i zapisać akcję w dzienniku", async () => {
+      const updateChain = createUpdateChain();
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ id: userId, role: "artisan", suspended_at: null }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.suspendUser(adminId, userId, "Fałszywe oferty");
+
+      expect(updateChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ suspended_at: expect.any(String), suspension_reason: "Fałszywe oferty" })
+      );
+      expect(updateChain.eq).toHaveBeenCalledWith("id", userId);
+      expect(auditChain.insert).toHaveBeenCalledWith({
+        admin_id: adminId,
+        action: "user_suspended",
+        target_id: userId,
+        reason: "Fałszywe oferty",
+      });
+    });
+
+    it("nie powinien pozwolić administratorowi zawiesić samego siebie", async () => {
+      await expect(service.suspendUser(adminId, adminId, "Test")).rejects.toMatchObject({
+        code: "CANNOT_MODERATE_SELF",
+      });
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it("nie powinien pozwolić zawiesić innego administratora", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain({ id: userId, role: "admin", suspended_at: null }));
+
+      await expect(service.suspendUser(adminId, userId, "Test")).rejects.toMatchObject({
+        code: "CANNOT_SUSPEND_ADMIN",
+        statusCode: 403,
+      });
+    });
+
+    it("powinien zwrócić 409 dla już zawieszonego użytkownika", async () => {
+      mockFrom.mockReturnValueOnce(
+        createSingleChain({ id: userId, role: "client", suspended_at: "2025-11-10T10:00:00Z" })
+      );
+
+      await expect(service.suspendUser(adminId, userId, "Test")).rejects.toMatchObject({
+        code: "USER_ALREADY_SUSPENDED",
+        statusCode: 409,
+      });
+    });
+
+    it("powinien zwrócić 404 dla nieistniejącego użytkownika", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain(null, { message: "Not found" }));
+
+      const error = await service.suspendUser(adminId, userId, "Test").catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AdminError);
+      expect(error).toMatchObject({ code: "USER_NOT_FOUND", statusCode: 404 });
+    });
+  });
+
+  describe("reinstateUser()", () => {
+    it("powinien zdjąć zawieszenie i zapisać akcję w dzienniku", async () => {
+      const updateChain = createUpdateChain();
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ id: userId, role: "client", suspended_at: "2025-11-10T10:00:00Z" }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.reinstateUser(adminId, userId);
+
+      expect(updateChain.update).toHaveBeenCalledWith({ suspended_at: null, suspension_reason: null });
+      expect(auditChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "user_reinstated", reason: null })
+      );
+    });
+
+    it("powinien zwrócić 409 gdy użytkownik nie jest zawieszony", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain({ id: userId, role: "client", suspended_at: null }));
+
+      await expect(service.reinstateUser(adminId, userId)).rejects.toMatchObject({ code: "USER_NOT_SUSPENDED" });
+    });
+  });
+
+  describe("hideReview() / restoreReview()", () => {
+    it("powinien ukryć opinię z powodem i autorem moderacji", async () => {
+      const updateChain = createUpdateChain();
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ id: reviewId, hidden_at: null }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.hideReview(adminId, reviewId, "Obraźliwe treści");
+
+      expect(updateChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ hidden_reason: "Obraźliwe treści", hidden_by: adminId })
+      );
+      expect(auditChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "review_hidden", target_id: reviewId })
+      );
+    });
+
+    it("powinien zwrócić 409 dla już ukrytej opinii", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain({ id: reviewId, hidden_at: "2025-11-10T10:00:00Z" }));
+
+      await expect(service.hideReview(adminId, reviewId, "Test")).rejects.toMatchObject({
+        code: "REVIEW_ALREADY_HIDDEN",
+        statusCode: 409,
+      });
+    });
+
+    it("powinien przywrócić ukrytą opinię", async () => {
+      const updateChain = createUpdateChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ id: reviewId, hidden_at: "2025-11-10T10:00:00Z" }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(createAuditChain());
+
+      await service.restoreReview(adminId, reviewId);
+
+      expect(updateChain.update).toHaveBeenCalledWith({ hidden_at: null, hidden_reason: null, hidden_by: null });
+    });
+
+    it("powinien zwrócić 404 dla nieistniejącej opinii", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain(null, { message: "Not found" }));
+
+      await expect(service.restoreReview(adminId, reviewId)).rejects.toMatchObject({ code: "REVIEW_NOT_FOUND" });
+    });
+  });
+
+  describe("unpublishArtisanProfile()", () => {
+    it("powinien ukryć profil rzemieślnika i zablokować jego ponowną publikację", async () => {
+      const updateChain = createUpdateChain();
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ user_id: userId, unpublished_at: null }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.unpublishArtisanProfile(adminId, userId, "Fałszywe dane firmy");
+
+      expect(updateChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ is_public: false, unpublish_reason: "Fałszywe dane firmy" })
+      );
+      expect(updateChain.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(auditChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "artisan_profile_unpublished", target_id: userId })
+      );
+    });
+
+    it("powinien zwrócić 404 gdy użytkownik nie ma profilu rzemieślnika", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain(null));
+
+      await expect(service.unpublishArtisanProfile(adminId, userId, "Test")).rejects.toMatchObject({
+        code: "ARTISAN_NOT_FOUND",
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe("verifyArtisan()", () => {
+    const nip = "1234563218";
+    const registry = new StubBusinessRegistryProvider({
+      [nip]: { company_name: "Stolarnia Kowalski Sp. z o.o.", address: "ul. Leśna 5, 00-001 Warszawa" },
+    });
+
+    beforeEach(() => {
+      service = new AdminService({ from: mockFrom, rpc: mockRpc } as unknown as SupabaseClient, registry);
+    });
+
+    it("powinien oznaczyć profil jako zweryfikowany i zapisać dane firmy z rejestru", async () => {
+      const updateChain = createUpdateChain();
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ user_id: userId, nip, company_name: "Stolarnia Kowalski" }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(auditChain);
+
+      const result = await service.verifyArtisan(adminId, userId);
+
+      expect(result).toMatchObject({
+        verification_status: "verified",
+        verified_company_name: "Stolarnia Kowalski Sp. z o.o.",
+        verified_address: "ul. Leśna 5, 00-001 Warszawa",
+      });
+      expect(result.verified_at).not.toBeNull();
+      expect(updateChain.update).toHaveBeenCalledWith(result);
+      expect(updateChain.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(auditChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "artisan_nip_checked",
+          target_id: userId,
+          reason: "Zweryfikowano w rejestrze: Stolarnia Kowalski Sp. z o.o.",
+        })
+      );
+    });
+
+    it("powinien zostawić profil do ręcznej weryfikacji gdy nazwa firmy różni się od rejestru", async () => {
+      const updateChain = createUpdateChain();
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ user_id: userId, nip, company_name: "Meble Nowak" }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(auditChain);
+
+      const result = await service.verifyArtisan(adminId, userId);
+
+      expect(result).toEqual({
+        verification_status: "needs_review",
+        verified_company_name: "Stolarnia Kowalski Sp. z o.o.",
+        verified_address: "ul. Leśna 5, 00-001 Warszawa",
+        verified_at: null,
+      });
+      expect(updateChain.update).toHaveBeenCalledWith(result);
+      expect(auditChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: "Nazwa w rejestrze różni się od profilu: Stolarnia Kowalski Sp. z o.o. (profil: Meble Nowak)",
+        })
+      );
+    });
+
+    it("powinien zweryfikować profil mimo różnicy nazw po zatwierdzeniu przez moderatora", async () => {
+      const updateChain = createUpdateChain();
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ user_id: userId, nip, company_name: "Meble Nowak" }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(auditChain);
+
+      const result = await service.verifyArtisan(adminId, userId, true);
+
+      expect(result.verification_status).toBe("verified");
+      expect(result.verified_at).not.toBeNull();
+      expect(auditChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: "Zweryfikowano ręcznie mimo różnicy nazw: Stolarnia Kowalski Sp. z o.o. (profil: Meble Nowak)",
+        })
+      );
+    });
+
+    it("powinien oznaczyć weryfikację jako nieudaną gdy NIP nie figuruje w rejestrze", async () => {
+      const updateChain = createUpdateChain();
+      mockFrom
+        .mockReturnValueOnce(
+          createSingleChain({ user_id: userId, nip: "5260250995", company_name: "Stolarnia Kowalski" })
+        )
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(createAuditChain());
+
+      const result = await service.verifyArtisan(adminId, userId);
+
+      expect(result).toEqual({
+        verification_status: "failed",
+        verified_company_name: null,
+        verified_address: null,
+        verified_at: null,
+      });
+      expect(updateChain.update).toHaveBeenCalledWith(result);
+    });
+
+    it("powinien zwrócić 503 gdy rejestr jest niedostępny", async () => {
+      const unavailableRegistry = new StubBusinessRegistryProvider();
+      vi.spyOn(unavailableRegistry, "lookupByNip").mockRejectedValueOnce(
+        new BusinessRegistryError("Business registry request timed out", "REGISTRY_UNAVAILABLE")
+      );
+      service = new AdminService({ from: mockFrom, rpc: mockRpc } as unknown as SupabaseClient, unavailableRegistry);
+      mockFrom.mockReturnValueOnce(createSingleChain({ user_id: userId, nip, company_name: "Stolarnia Kowalski" }));
+
+      await expect(service.verifyArtisan(adminId, userId)).rejects.toMatchObject({
+        code: "REGISTRY_UNAVAILABLE",
+        statusCode: 503,
+      });
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+    });
+
+    it("powinien zwrócić 404 gdy użytkownik nie ma profilu rzemieślnika", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain(null));
+
+      await expect(service.verifyArtisan(adminId, userId)).rejects.toMatchObject({
+        code: "ARTISAN_NOT_FOUND",
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe("closeProject()", () => {
+    it("powinien zamknąć projekt niezależnie od jego statusu", async () => {
+      const updateChain = createUpdateChain();
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ id: projectId, status: "in_progress" }))
+        .mockReturnValueOnce(updateChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.closeProject(adminId, projectId, "Spam");
+
+      expect(updateChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: "closed" }));
+      expect(auditChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "project_closed", target_id: projectId, reason: "Spam" })
+      );
+    });
+
+    it("powinien zwrócić 409 dla zamkniętego projektu", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain({ id: projectId, status: "closed" }));
+
+      await expect(service.closeProject(adminId, projectId, "Spam")).rejects.toMatchObject({
+        code: "PROJECT_ALREADY_CLOSED",
+        statusCode: 409,
+      });
+    });
+
+    it("powinien zgłosić błąd gdy nie uda się zapisać akcji w dzienniku", async () => {
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ id: projectId, status: "open" }))
+        .mockReturnValueOnce(createUpdateChain())
+        .mockReturnValueOnce(createAuditChain({ message: "DB error" }));
+
+      await expect(service.closeProject(adminId, projectId, "Spam")).rejects.toMatchObject({
+        code: "AUDIT_RECORD_FAILED",
+        statusCode: 500,
+      });
+    });
+  });
+
+  describe("setGenerationQuota() / clearGenerationQuota()", () => {
+    it("powinien ustawić limit i zapisać go w dzienniku", async () => {
+      const overrideChain = { upsert: vi.fn().mockResolvedValue({ error: null }) };
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ id: userId, role: "client", suspended_at: null }))
+        .mockReturnValueOnce(overrideChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.setGenerationQuota(adminId, userId, { monthly_limit: 50, reason: "Projekt pilotażowy" });
+
+      expect(overrideChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: userId, monthly_limit: 50, created_by: adminId })
+      );
+      expect(auditChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "generation_quota_set",
+          reason: "Limit miesięczny: 50. Projekt pilotażowy",
+        })
+      );
+    });
+
+    it("powinien usunąć limit i zapisać akcję w dzienniku", async () => {
+      const overrideChain = { delete: vi.fn().mockReturnThis(), eq: vi.fn().mockResolvedValue({ error: null }) };
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ id: userId, role: "client", suspended_at: null }))
+        .mockReturnValueOnce(overrideChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.clearGenerationQuota(adminId, userId);
+
+      expect(overrideChain.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(auditChain.insert).toHaveBeenCalledWith(expect.objectContaining({ action: "generation_quota_cleared" }));
+    });
+  });
+
+  describe("resolveReport()", () => {
+    const pendingReport = { id: reportId, target_type: "proposal", target_id: projectId, status: "pending" };
+
+    // update().eq()...eq() resolving after the given number of filters
+    const createFilteredUpdateChain = (filters: number, error: unknown = null) => {
+      const chain = { update: vi.fn(), eq: vi.fn() };
+      chain.update.mockReturnValue(chain);
+      for (let i = 1; i < filters; i++) {
+        chain.eq.mockReturnValueOnce(chain);
+      }
+      chain.eq.mockResolvedValueOnce({ error });
+      return chain;
+    };
+
+    it("powinien uwzględnić wszystkie oczekujące zgłoszenia treści i ją ukryć", async () => {
+      const reportsChain = createFilteredUpdateChain(3);
+      const contentChain = createFilteredUpdateChain(1);
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain(pendingReport))
+        .mockReturnValueOnce(reportsChain)
+        .mockReturnValueOnce(contentChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.resolveReport(adminId, reportId, { decision: "upheld", reason: "Spam" });
+
+      expect(reportsChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "upheld", resolved_by: adminId, resolution_note: "Spam" })
+      );
+      expect(reportsChain.eq).toHaveBeenCalledWith("target_type", "proposal");
+      expect(reportsChain.eq).toHaveBeenCalledWith("target_id", projectId);
+      expect(reportsChain.eq).toHaveBeenCalledWith("status", "pending");
+      expect(mockFrom).toHaveBeenNthCalledWith(3, "proposals");
+      expect(contentChain.update).toHaveBeenCalledWith({ hidden_at: expect.any(String), hidden_reason: "Spam" });
+      expect(auditChain.insert).toHaveBeenCalledWith({
+        admin_id: adminId,
+        action: "report_upheld",
+        target_id: projectId,
+        reason: "Spam",
+      });
+    });
+
+    it("powinien zapisać moderatora ukrywającego opinię", async () => {
+      const contentChain = createFilteredUpdateChain(1);
+      mockFrom
+        .mockReturnValueOnce(createSingleChain({ ...pendingReport, target_type: "review", target_id: reviewId }))
+        .mockReturnValueOnce(createFilteredUpdateChain(3))
+        .mockReturnValueOnce(contentChain)
+        .mockReturnValueOnce(createAuditChain());
+
+      await service.resolveReport(adminId, reportId, { decision: "upheld", reason: "Obraźliwe treści" });
+
+      expect(mockFrom).toHaveBeenNthCalledWith(3, "reviews");
+      expect(contentChain.update).toHaveBeenCalledWith(expect.objectContaining({ hidden_by: adminId }));
+    });
+
+    it("powinien przy odrzuceniu przywrócić tylko treść ukrytą automatycznie", async () => {
+      const contentChain = createFilteredUpdateChain(2);
+      const auditChain = createAuditChain();
+      mockFrom
+        .mockReturnValueOnce(createSingleChain(pendingReport))
+        .mockReturnValueOnce(createFilteredUpdateChain(3))
+        .mockReturnValueOnce(contentChain)
+        .mockReturnValueOnce(auditChain);
+
+      await service.resolveReport(adminId, reportId, { decision: "dismissed", reason: "Brak naruszeń" });
+
+      expect(contentChain.update).toHaveBeenCalledWith({ hidden_at: null, hidden_reason: null });
+      expect(contentChain.eq).toHaveBeenCalledWith("hidden_reason", AUTO_HIDDEN_REASON);
+      expect(auditChain.insert).toHaveBeenCalledWith(expect.objectContaining({ action: "report_dismissed" }));
+    });
+
+    it("powinien zwrócić 404 dla nieistniejącego zgłoszenia", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain(null, { code: "PGRST116" }));
+
+      await expect(
+        service.resolveReport(adminId, reportId, { decision: "upheld", reason: "Spam" })
+      ).rejects.toMatchObject({ code: "REPORT_NOT_FOUND", statusCode: 404 });
+    });
+
+    it("powinien zwrócić 409 dla rozpatrzonego zgłoszenia", async () => {
+      mockFrom.mockReturnValueOnce(createSingleChain({ ...pendingReport, status: "dismissed" }));
+
+      await expect(
+        service.resolveReport(adminId, reportId, { decision: "upheld", reason: "Spam" })
+      ).rejects.toMatchObject({ code: "REPORT_ALREADY_RESOLVED", statusCode: 409 });
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("listy moderacji", () => {
+    it("powinien filtrować ukryte opinie i zwrócić paginację", async () => {
+      const chain = createListChain([{ id: reviewId }], 41);
+      mockFrom.mockReturnValueOnce(chain);
+
+      const result = await service.listReviews({ hidden_only: true, page: 3, limit: 20 });
+
+      expect(chain.not).toHaveBeenCalledWith("hidden_at", "is", null);
+      expect(chain.range).toHaveBeenCalledWith(40, 59);
+      expect(result.pagination).toEqual({ page: 3, limit: 20, total: 41, total_pages: 3 });
+    });
+
+    it("powinien filtrować projekty po statusie", async () => {
+      const chain = createListChain([], 0);
+      mockFrom.mockReturnValueOnce(chain);
+
+      const result = await service.listProjects({ status: "open", page: 1, limit: 20 });
+
+      expect(chain.eq).toHaveBeenCalledWith("status", "open");
+      expect(result.data).toEqual([]);
+    });
+
+    it("powinien filtrować dziennik po akcji i obiekcie", async () => {
+      const chain = createListChain([], 0);
+      mockFrom.mockReturnValueOnce(chain);
+
+      await service.listAuditLog({ action: "review_hidden", target_id: reviewId, page: 1, limit: 20 });
+
+      expect(mockFrom).toHaveBeenCalledWith("moderation_actions");
+      expect(chain.eq).toHaveBeenCalledWith("action", "review_hidden");
+      expect(chain.eq).toHaveBeenCalledWith("target_id", reviewId);
+    });
+
+    it("powinien filtrować kolejkę zgłoszeń po statusie i typie treści", async () => {
+      const chain = createListChain([{ id: reportId }], 1);
+      mockFrom.mockReturnValueOnce(chain);
+
+      const result = await service.listReports({ status: "pending", target_type: "review", page: 1, limit: 20 });
+
+      expect(mockFrom).toHaveBeenCalledWith("content_reports");
+      expect(chain.eq).toHaveBeenCalledWith("status", "pending");
+      expect(chain.eq).toHaveBeenCalledWith("target_type", "review");
+      expect(chain.order).toHaveBeenCalledWith("created_at", { ascending: true });
+      expect(result.data).toEqual([{ id: reportId }]);
+    });
+
+    it("powinien zgłosić błąd gdy pobranie listy się nie powiedzie", async () => {
+      mockFrom.mockReturnValueOnce(createListChain([], 0, { message: "DB error" }));
+
+      await expect(
+        service.listAuditLog({ action: undefined, target_id: undefined, page: 1, limit: 20 })
+      ).rejects.toMatchObject({ code: "AUDIT_FETCH_FAILED", statusCode: 500 });
+    });
+  });
+});
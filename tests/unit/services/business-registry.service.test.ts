@@ -0,0 +1,123 @@
+/**
+ * Unit Tests: Business registry
+ *
+ * Tests the registry selection via BUSINESS_REGISTRY_PROVIDER, the offline stub,
+ * the lookup in the VAT taxpayer white list of the Ministry of Finance and the comparison
+ * of company names.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  BusinessRegistryError,
+  companyNamesMatch,
+  createBusinessRegistryProvider,
+  MfWhiteListRegistryProvider,
+  StubBusinessRegistryProvider,
+} from "@/lib/services/business-registry.service";
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const mockFetch = global.fetch as ReturnType<typeof vi.fn>;
+
+describe("Business registry", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("createBusinessRegistryProvider()", () => {
+    it("powinien domyślnie utworzyć rejestr Ministerstwa Finansów", () => {
+      expect(createBusinessRegistryProvider({})).toBeInstanceOf(MfWhiteListRegistryProvider);
+    });
+
+    it("powinien utworzyć rejestr testowy", () => {
+      expect(createBusinessRegistryProvider({ BUSINESS_REGISTRY_PROVIDER: "stub" })).toBeInstanceOf(
+        StubBusinessRegistryProvider
+      );
+    });
+  });
+
+  describe("StubBusinessRegistryProvider", () => {
+    it("powinien znaleźć tylko podane numery NIP", async () => {
+      const registry = new StubBusinessRegistryProvider({
+        "1234563218": { company_name: "Stolarnia Kowalski", address: "ul. Leśna 5, Warszawa" },
+      });
+
+      await expect(registry.lookupByNip("1234563218")).resolves.toEqual({
+        company_name: "Stolarnia Kowalski",
+        address: "ul. Leśna 5, Warszawa",
+      });
+      await expect(registry.lookupByNip("5260250995")).resolves.toBeNull();
+    });
+
+    it("powinien bez wpisów uznać każdy NIP za zarejestrowany", async () => {
+      const entry = await new StubBusinessRegistryProvider().lookupByNip("1234563218");
+
+      expect(entry?.company_name).toBe("Firma testowa NIP 1234563218");
+    });
+  });
+
+  describe("MfWhiteListRegistryProvider", () => {
+    const registry = new MfWhiteListRegistryProvider("http://localhost:9000");
+
+    it("powinien zwrócić nazwę i adres firmy z białej listy", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          result: {
+            subject: {
+              name: "STOLARNIA KOWALSKI SP. Z O.O.",
+              workingAddress: null,
+              residenceAddress: "LEŚNA 5, 00-001 WARSZAWA",
+            },
+          },
+        }),
+      });
+
+      const entry = await registry.lookupByNip("1234563218");
+
+      expect(entry).toEqual({ company_name: "STOLARNIA KOWALSKI SP. Z O.O.", address: "LEŚNA 5, 00-001 WARSZAWA" });
+      expect(mockFetch.mock.calls[0][0]).toMatch(
+        /^http:\/\/localhost:9000\/api\/search\/nip\/1234563218\?date=\d{4}-\d{2}-\d{2}$/
+      );
+    });
+
+    it("powinien zwrócić null gdy NIP nie figuruje w rejestrze", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ result: { subject: null } }) });
+
+      await expect(registry.lookupByNip("1234563218")).resolves.toBeNull();
+    });
+
+    it("powinien zgłosić błąd rejestru dla odpowiedzi z błędem", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({ message: "Internal error" }) });
+
+      await expect(registry.lookupByNip("1234563218")).rejects.toThrow(BusinessRegistryError);
+    });
+
+    it("powinien zgłosić niedostępność rejestru gdy żądanie się nie powiedzie", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+      await expect(registry.lookupByNip("1234563218")).rejects.toMatchObject({ code: "REGISTRY_UNAVAILABLE" });
+    });
+  });
+
+  describe("companyNamesMatch()", () => {
+    it("powinien pominąć wielkość liter, polskie znaki i formę prawną", () => {
+      expect(companyNamesMatch("Stolarnia Kowalski", "STOLARNIA KOWALSKI SP. Z O.O.")).toBe(true);
+      expect(companyNamesMatch("Łódzkie Meble S.A.", "LODZKIE MEBLE SPÓŁKA AKCYJNA")).toBe(true);
+    });
+
+    it("powinien uznać nazwę zawartą w nazwie z rejestru", () => {
+      expect(companyNamesMatch("Stolarnia Kowalski", "JAN KOWALSKI STOLARNIA KOWALSKI")).toBe(true);
+    });
+
+    it("powinien odrzucić inną nazwę firmy", () => {
+      expect(companyNamesMatch("Meble Nowak", "STOLARNIA KOWALSKI SP. Z O.O.")).toBe(false);
+      expect(companyNamesMatch("Stolarnia Nowak", "STOLARNIA KOWALSKI")).toBe(false);
+    });
+
+    it("powinien odrzucić nazwę złożoną z samej formy prawnej", () => {
+      expect(companyNamesMatch("Sp. z o.o.", "STOLARNIA KOWALSKI SP. Z O.O.")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for ContentReportService
+ *
+ * Tests reporting projects, proposals, reviews and generated images: visibility of the
+ * reported content, reporting own content and duplicate reports.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ContentReportService, ContentReportError } from "@/lib/services/content-report.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("ContentReportService", () => {
+  let service: ContentReportService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+
+  const reporterId = "user-uuid-1";
+  const authorId = "user-uuid-2";
+  const proposalId = "proposal-uuid-1";
+
+  const createTargetChain = (data: unknown, error: unknown = null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data, error }),
+  });
+
+  const createInsertChain = (data: unknown, error: unknown = null) => ({
+    insert: vi.fn().mockReturnThis(),
+    select: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data, error }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    service = new ContentReportService({ from: mockFrom } as unknown as SupabaseClient);
+  });
+
+  describe("createReport()", () => {
+    it("powinien zapisać zgłoszenie oferty", async () => {
+      const targetChain = createTargetChain({ id: proposalId, owner_id: authorId });
+      const report = { id: "report-uuid-1", target_type: "proposal", target_id: proposalId, status: "pending" };
+      const insertChain = createInsertChain(report);
+      mockFrom.mockReturnValueOnce(targetChain).mockReturnValueOnce(insertChain);
+
+      const result = await service.createReport(reporterId, {
+        target_type: "proposal",
+        target_id: proposalId,
+        reason: "spam",
+      });
+
+      expect(mockFrom).toHaveBeenNthCalledWith(1, "proposals");
+      expect(targetChain.select).toHaveBeenCalledWith("id, owner_id:artisan_id");
+      expect(targetChain.eq).toHaveBeenCalledWith("id", proposalId);
+      expect(insertChain.insert).toHaveBeenCalledWith({
+        reporter_id: reporterId,
+        target_type: "proposal",
+        target_id: proposalId,
+        reason: "spam",
+        details: null,
+      });
+      expect(result).toEqual(report);
+    });
+
+    it("powinien sprawdzić autora obrazu w tabeli generated_images", async () => {
+      const targetChain = createTargetChain({ id: "image-uuid-1", owner_id: authorId });
+      mockFrom.mockReturnValueOnce(targetChain).mockReturnValueOnce(createInsertChain({ id: "report-uuid-1" }));
+
+      await service.createReport(reporterId, {
+        target_type: "generated_image",
+        target_id: "image-uuid-1",
+        reason: "inappropriate_image",
+        details: "Treści dla dorosłych",
+      });
+
+      expect(mockFrom).toHaveBeenNthCalledWith(1, "generated_images");
+      expect(targetChain.select).toHaveBeenCalledWith("id, owner_id:user_id");
+    });
+
+    it("powinien zwrócić 404 gdy treść nie istnieje lub nie jest widoczna", async () => {
+      mockFrom.mockReturnValueOnce(createTargetChain(null));
+
+      await expect(
+        service.createReport(reporterId, { target_type: "review", target_id: "review-uuid-1", reason: "offensive" })
+      ).rejects.toMatchObject({ code: "TARGET_NOT_FOUND", statusCode: 404 });
+    });
+
+    it("nie powinien pozwolić zgłosić własnej treści", async () => {
+      mockFrom.mockReturnValueOnce(createTargetChain({ id: "project-uuid-1", owner_id: reporterId }));
+
+      await expect(
+        service.createReport(reporterId, { target_type: "project", target_id: "project-uuid-1", reason: "fraud" })
+      ).rejects.toMatchObject({ code: "CANNOT_REPORT_OWN_CONTENT", statusCode: 400 });
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+    });
+
+    it("powinien zwrócić 409 przy ponownym zgłoszeniu tej samej treści", async () => {
+      mockFrom
+        .mockReturnValueOnce(createTargetChain({ id: proposalId, owner_id: authorId }))
+        .mockReturnValueOnce(createInsertChain(null, { code: "23505", message: "duplicate key" }));
+
+      const promise = service.createReport(reporterId, {
+        target_type: "proposal",
+        target_id: proposalId,
+        reason: "spam",
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(ContentReportError);
+      await expect(promise).rejects.toMatchObject({ code: "ALREADY_REPORTED", statusCode: 409 });
+    });
+
+    it("powinien zwrócić 404 gdy polityka RLS odrzuci zgłoszenie", async () => {
+      mockFrom
+        .mockReturnValueOnce(createTargetChain({ id: proposalId, owner_id: authorId }))
+        .mockReturnValueOnce(
+          createInsertChain(null, { code: "42501", message: "new row violates row-level security policy" })
+        );
+
+      await expect(
+        service.createReport(reporterId, { target_type: "proposal", target_id: proposalId, reason: "spam" })
+      ).rejects.toMatchObject({ code: "TARGET_NOT_FOUND", statusCode: 404 });
+    });
+
+    it("powinien zgłosić błąd 500 gdy zapis się nie powiedzie", async () => {
+      mockFrom
+        .mockReturnValueOnce(createTargetChain({ id: proposalId, owner_id: authorId }))
+        .mockReturnValueOnce(createInsertChain(null, { code: "XX000", message: "DB error" }));
+
+      await expect(
+        service.createReport(reporterId, { target_type: "proposal", target_id: proposalId, reason: "other" })
+      ).rejects.toMatchObject({ code: "REPORT_CREATE_FAILED", statusCode: 500 });
+    });
+  });
+});
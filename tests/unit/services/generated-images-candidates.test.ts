@@ -0,0 +1,167 @@
+/**
+ * Unit tests for GeneratedImagesService candidate images
+ *
+ * Tests resolveCandidates(), including ownership, the quota charged per kept
+ * candidate and the removal of discarded candidates with their files, and
+ * assertCanCreateCandidates() with the expiry and the limit of pending candidates.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { GeneratedImagesService } from "@/lib/services/generated-images.service";
+import { GenerationQuotaError, type GenerationQuotaService } from "@/lib/services/generation-quota.service";
+import { deleteStorageImage } from "@/lib/services/supabase-storage.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+vi.mock("@/lib/services/supabase-storage.service", () => ({
+  deleteStorageImage: vi.fn().mockResolvedValue(true),
+  getStorageFileName: vi.fn((url: string) => url.split("/chairai_bucket/")[1] ?? null),
+}));
+
+describe("GeneratedImagesService - candidates", () => {
+  let service: GeneratedImagesService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+  let mockQuotaService: { assertCanGenerate: ReturnType<typeof vi.fn>; consumeGenerations: ReturnType<typeof vi.fn> };
+
+  const userId = "user-uuid-1";
+
+  const candidateRow = (id: string) => ({
+    id,
+    user_id: userId,
+    prompt: "Dębowy stół jadalny",
+    image_url: `https://storage.example.com/chairai_bucket/${userId}/${id}.png`,
+    created_at: "2025-10-18T12:00:00Z",
+    is_used: false,
+    is_candidate: true,
+    parent_image_id: null,
+    root_image_id: null,
+  });
+
+  const createCandidatesChain = (candidates: ReturnType<typeof candidateRow>[]) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    gte: vi.fn().mockReturnThis(),
+    in: vi.fn().mockResolvedValue({ data: candidates, error: null }),
+  });
+
+  const createUpdateChain = () => ({
+    update: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    in: vi.fn().mockResolvedValue({ error: null }),
+  });
+
+  const createDeleteChain = () => ({
+    delete: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    in: vi.fn().mockResolvedValue({ error: null }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockQuotaService = {
+      assertCanGenerate: vi.fn(),
+      consumeGenerations: vi.fn().mockResolvedValue(5),
+    };
+    service = new GeneratedImagesService(
+      { from: mockFrom } as unknown as SupabaseClient,
+      mockQuotaService as unknown as GenerationQuotaService
+    );
+    vi.clearAllMocks();
+  });
+
+  it("powinien zachować wybrane warianty i usunąć pozostałe wraz z plikami", async () => {
+    const updateChain = createUpdateChain();
+    const deleteChain = createDeleteChain();
+    mockFrom
+      .mockReturnValueOnce(createCandidatesChain([candidateRow("a"), candidateRow("b"), candidateRow("c")]))
+      .mockReturnValueOnce(updateChain)
+      .mockReturnValueOnce(deleteChain);
+
+    mockQuotaService.assertCanGenerate.mockResolvedValueOnce({ remaining: 6 });
+
+    const result = await service.resolveCandidates(userId, ["a"], ["b", "c"]);
+
+    expect(mockQuotaService.assertCanGenerate).toHaveBeenCalledWith(userId, 1);
+    expect(mockQuotaService.consumeGenerations).toHaveBeenCalledWith({ remaining: 6 }, ["a"]);
+    expect(updateChain.update).toHaveBeenCalledWith({ is_candidate: false });
+    expect(updateChain.in).toHaveBeenCalledWith("id", ["a"]);
+    expect(deleteChain.in).toHaveBeenCalledWith("id", ["b", "c"]);
+    expect(deleteStorageImage).toHaveBeenCalledTimes(2);
+    expect(deleteStorageImage).toHaveBeenCalledWith(expect.anything(), `${userId}/b.png`);
+    expect(result.kept.map((image) => image.id)).toEqual(["a"]);
+    expect(result.remaining_generations).toBe(5);
+  });
+
+  it("powinien odrzucić wszystkie warianty bez pobierania limitu", async () => {
+    const deleteChain = createDeleteChain();
+    mockFrom
+      .mockReturnValueOnce(createCandidatesChain([candidateRow("a"), candidateRow("b")]))
+      .mockReturnValueOnce(deleteChain);
+    mockQuotaService.assertCanGenerate.mockResolvedValueOnce({ remaining: 8 });
+
+    const result = await service.resolveCandidates(userId, [], ["a", "b"]);
+
+    expect(mockFrom).toHaveBeenCalledTimes(2);
+    expect(mockQuotaService.consumeGenerations).not.toHaveBeenCalled();
+    expect(result.kept).toEqual([]);
+    expect(result.remaining_generations).toBe(8);
+  });
+
+  it("powinien rzucić błąd 404 gdy wariant nie należy do użytkownika", async () => {
+    mockFrom.mockReturnValueOnce(createCandidatesChain([candidateRow("a")]));
+
+    await expect(service.resolveCandidates(userId, ["a"], ["foreign"])).rejects.toMatchObject({
+      code: "CANDIDATE_NOT_FOUND",
+      statusCode: 404,
+    });
+  });
+
+  it("powinien rzucić błąd 429 gdy limit nie wystarcza na zachowanie wariantów", async () => {
+    mockFrom.mockReturnValueOnce(createCandidatesChain([candidateRow("a"), candidateRow("b")]));
+    mockQuotaService.assertCanGenerate.mockRejectedValueOnce(
+      new GenerationQuotaError("Możesz zachować jeszcze 1 obraz w tym miesiącu", "GENERATION_LIMIT_REACHED", 429)
+    );
+
+    await expect(service.resolveCandidates(userId, ["a", "b"], [])).rejects.toMatchObject({
+      code: "GENERATION_LIMIT_REACHED",
+      statusCode: 429,
+    });
+  });
+
+  describe("assertCanCreateCandidates()", () => {
+    const createExpiredChain = (expired: ReturnType<typeof candidateRow>[]) => ({
+      delete: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      lt: vi.fn().mockReturnThis(),
+      select: vi.fn().mockResolvedValue({ data: expired, error: null }),
+    });
+
+    const createPendingCountChain = (count: number) => {
+      const chain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn(),
+      };
+      chain.eq.mockReturnValueOnce(chain).mockResolvedValueOnce({ count, error: null });
+      return chain;
+    };
+
+    it("powinien usunąć przeterminowane warianty wraz z plikami", async () => {
+      const expiredChain = createExpiredChain([candidateRow("old")]);
+      mockFrom.mockReturnValueOnce(expiredChain).mockReturnValueOnce(createPendingCountChain(2));
+
+      await service.assertCanCreateCandidates(userId, 3, new Date("2025-10-20T12:00:00Z"));
+
+      expect(expiredChain.lt).toHaveBeenCalledWith("created_at", "2025-10-19T12:00:00.000Z");
+      expect(deleteStorageImage).toHaveBeenCalledWith(expect.anything(), `${userId}/old.png`);
+    });
+
+    it("powinien rzucić błąd 429 gdy oczekujących wariantów byłoby za dużo", async () => {
+      mockFrom.mockReturnValueOnce(createExpiredChain([])).mockReturnValueOnce(createPendingCountChain(6));
+
+      await expect(service.assertCanCreateCandidates(userId, 3)).rejects.toMatchObject({
+        code: "CANDIDATE_LIMIT_REACHED",
+        statusCode: 429,
+      });
+      expect(deleteStorageImage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for GeneratedImagesService version trees
+ *
+ * Tests getImageVersions() and getRefinementBase(), including ownership,
+ * the design history passed to the refinement and the version limit.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { GeneratedImagesService, MAX_VERSIONS_PER_DESIGN } from "@/lib/services/generated-images.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+vi.mock("@/lib/services/ai-image.service", () => ({
+  getMaxFreeGenerations: vi.fn(() => 10),
+}));
+
+describe("GeneratedImagesService - versions", () => {
+  let service: GeneratedImagesService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+
+  const userId = "user-uuid-1";
+
+  const imageRow = (id: string, prompt: string, parentId: string | null, rootId: string | null) => ({
+    id,
+    user_id: userId,
+    prompt,
+    image_url: `https://storage.example.com/${id}.png`,
+    created_at: "2025-10-18T12:00:00Z",
+    is_used: false,
+    parent_image_id: parentId,
+    root_image_id: rootId,
+    refinements_count: 0,
+  });
+
+  const createImageChain = (image: { id: string; root_image_id: string | null } | null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data: image, error: null }),
+  });
+
+  const createVersionsChain = (versions: ReturnType<typeof imageRow>[]) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    or: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({ data: versions, error: null }),
+  });
+
+  // root -> walnut legs -> taller, root -> white paint
+  const tree = [
+    { ...imageRow("root", "Dębowy stół jadalny z metalowymi nogami", null, null), refinements_count: 3 },
+    imageRow("walnut", "orzechowe nogi", "root", "root"),
+    imageRow("white", "pomalowany na biało", "root", "root"),
+    imageRow("taller", "o 20 cm wyższy", "walnut", "root"),
+  ];
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    service = new GeneratedImagesService({ from: mockFrom } as unknown as SupabaseClient);
+    vi.clearAllMocks();
+  });
+
+  describe("getImageVersions()", () => {
+    it("powinien pobrać całe drzewo projektu jednym zapytaniem", async () => {
+      const versionsChain = createVersionsChain(tree);
+      mockFrom
+        .mockReturnValueOnce(createImageChain({ id: "taller", root_image_id: "root" }))
+        .mockReturnValueOnce(versionsChain);
+
+      const result = await service.getImageVersions(userId, "taller");
+
+      expect(versionsChain.or).toHaveBeenCalledWith("id.eq.root,root_image_id.eq.root");
+      expect(versionsChain.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(result.root_image_id).toBe("root");
+      expect(result.version_count).toBe(4);
+      expect(result.max_versions).toBe(MAX_VERSIONS_PER_DESIGN);
+      expect(result.versions.map((version) => version.id)).toEqual(["root", "walnut", "white", "taller"]);
+      expect(result.versions[3]).toMatchObject({ parent_image_id: "walnut", root_image_id: "root" });
+    });
+
+    it("powinien rzucić błąd 404 dla obrazu innego użytkownika", async () => {
+      mockFrom.mockReturnValueOnce(createImageChain(null));
+
+      await expect(service.getImageVersions(userId, "foreign-image")).rejects.toMatchObject({
+        code: "NOT_FOUND",
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe("getRefinementBase()", () => {
+    it("powinien zwrócić historię projektu od oryginału do obrazu nadrzędnego", async () => {
+      mockFrom
+        .mockReturnValueOnce(createImageChain({ id: "taller", root_image_id: "root" }))
+        .mockReturnValueOnce(createVersionsChain(tree));
+
+      const result = await service.getRefinementBase(userId, "taller");
+
+      expect(result.parent.id).toBe("taller");
+      expect(result.rootImageId).toBe("root");
+      expect(result.versionCount).toBe(4);
+      expect(result.designHistory).toEqual([
+        "Dębowy stół jadalny z metalowymi nogami",
+        "orzechowe nogi",
+        "o 20 cm wyższy",
+      ]);
+    });
+
+    it("powinien traktować obraz bez rodzica jako korzeń projektu", async () => {
+      mockFrom
+        .mockReturnValueOnce(createImageChain({ id: "root", root_image_id: null }))
+        .mockReturnValueOnce(
+          createVersionsChain([imageRow("root", "Dębowy stół jadalny z metalowymi nogami", null, null)])
+        );
+
+      const result = await service.getRefinementBase(userId, "root");
+
+      expect(result.rootImageId).toBe("root");
+      expect(result.versionCount).toBe(1);
+      expect(result.designHistory).toEqual(["Dębowy stół jadalny z metalowymi nogami"]);
+    });
+
+    it("powinien rzucić błąd 429 gdy projekt ma już maksymalną liczbę wersji", async () => {
+      const fullTree = [
+        { ...tree[0], refinements_count: MAX_VERSIONS_PER_DESIGN - 1 },
+        ...Array.from({ length: MAX_VERSIONS_PER_DESIGN - 1 }, (_, index) =>
+          imageRow(`version-${index}`, `zmiana ${index}`, "root", "root")
+        ),
+      ];
+      mockFrom
+        .mockReturnValueOnce(createImageChain({ id: "root", root_image_id: null }))
+        .mockReturnValueOnce(createVersionsChain(fullTree));
+
+      await expect(service.getRefinementBase(userId, "root")).rejects.toMatchObject({
+        code: "VERSION_LIMIT_REACHED",
+        statusCode: 429,
+      });
+    });
+
+    it("powinien liczyć do limitu także usunięte wersje projektu", async () => {
+      // Only the root is left, but 9 refinements were made before they were deleted
+      const root = {
+        ...imageRow("root", "Dębowy stół jadalny z metalowymi nogami", null, null),
+        refinements_count: MAX_VERSIONS_PER_DESIGN - 1,
+      };
+      mockFrom
+        .mockReturnValueOnce(createImageChain({ id: "root", root_image_id: null }))
+        .mockReturnValueOnce(createVersionsChain([root]));
+
+      await expect(service.getRefinementBase(userId, "root")).rejects.toMatchObject({
+        code: "VERSION_LIMIT_REACHED",
+        statusCode: 429,
+      });
+    });
+  });
+});
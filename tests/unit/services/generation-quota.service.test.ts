@@ -0,0 +1,206 @@
+/**
+ * Unit tests for GenerationQuotaService
+ *
+ * Tests the monthly quota window, limits per plan and admin overrides,
+ * and charging generations to the quota ledger.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  GenerationQuotaService,
+  GenerationQuotaError,
+  GENERATION_PLAN_LIMITS,
+  getQuotaPeriod,
+} from "@/lib/services/generation-quota.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("GenerationQuotaService", () => {
+  let service: GenerationQuotaService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+  let mockRpc: ReturnType<typeof vi.fn>;
+
+  const userId = "user-uuid-1";
+  const now = new Date("2025-11-15T10:00:00Z");
+
+  const createUserChain = (plan: string, override: { monthly_limit: number } | null = null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: { plan, generation_quota_overrides: override }, error: null }),
+  });
+
+  const createEventsCountChain = (count: number) => {
+    const chain = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      gte: vi.fn().mockResolvedValue({ count, error: null }),
+    };
+    return chain;
+  };
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockRpc = vi.fn();
+    service = new GenerationQuotaService({ from: mockFrom, rpc: mockRpc } as unknown as SupabaseClient);
+  });
+
+  describe("getQuotaPeriod()", () => {
+    it("powinien zwrócić bieżący miesiąc kalendarzowy w UTC", () => {
+      const period = getQuotaPeriod(new Date("2025-12-31T23:30:00Z"));
+
+      expect(period.start.toISOString()).toBe("2025-12-01T00:00:00.000Z");
+      expect(period.end.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    });
+  });
+
+  describe("getQuota()", () => {
+    it("powinien policzyć generacje z bieżącego miesiąca według limitu planu", async () => {
+      const eventsChain = createEventsCountChain(4);
+      mockFrom.mockReturnValueOnce(createUserChain("free")).mockReturnValueOnce(eventsChain);
+
+      const quota = await service.getQuota(userId, now);
+
+      expect(mockFrom).toHaveBeenNthCalledWith(2, "generation_quota_events");
+      expect(eventsChain.gte).toHaveBeenCalledWith("created_at", "2025-11-01T00:00:00.000Z");
+      expect(quota).toEqual({
+        plan: "free",
+        limit: GENERATION_PLAN_LIMITS.free,
+        used: 4,
+        remaining: 6,
+        is_override: false,
+        period_start: "2025-11-01T00:00:00.000Z",
+        resets_at: "2025-12-01T00:00:00.000Z",
+      });
+    });
+
+    it("powinien zastosować wyższy limit planu premium", async () => {
+      mockFrom.mockReturnValueOnce(createUserChain("premium")).mockReturnValueOnce(createEventsCountChain(15));
+
+      const quota = await service.getQuota(userId, now);
+
+      expect(quota.limit).toBe(GENERATION_PLAN_LIMITS.premium);
+      expect(quota.remaining).toBe(GENERATION_PLAN_LIMITS.premium - 15);
+    });
+
+    it("powinien zastąpić limit planu limitem ustawionym przez administratora", async () => {
+      mockFrom
+        .mockReturnValueOnce(createUserChain("free", { monthly_limit: 0 }))
+        .mockReturnValueOnce(createEventsCountChain(0));
+
+      const quota = await service.getQuota(userId, now);
+
+      expect(quota).toMatchObject({ limit: 0, remaining: 0, is_override: true });
+    });
+
+    it("powinien rzucić błąd gdy nie można odczytać planu", async () => {
+      mockFrom.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { message: "DB error" } }),
+      });
+
+      await expect(service.getQuota(userId, now)).rejects.toMatchObject({
+        code: "QUOTA_FETCH_FAILED",
+        statusCode: 500,
+      });
+    });
+  });
+
+  describe("assertCanGenerate()", () => {
+    it("powinien rzucić błąd 429 z datą odnowienia gdy limit jest wyczerpany", async () => {
+      mockFrom.mockReturnValueOnce(createUserChain("free")).mockReturnValueOnce(createEventsCountChain(10));
+
+      const error = await service.assertCanGenerate(userId).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(GenerationQuotaError);
+      expect(error).toMatchObject({ code: "GENERATION_LIMIT_REACHED", statusCode: 429 });
+      expect((error as Error).message).toContain("Limit odnowi się");
+    });
+
+    it("powinien rzucić błąd gdy limit nie wystarcza na wszystkie generacje", async () => {
+      mockFrom.mockReturnValueOnce(createUserChain("free")).mockReturnValueOnce(createEventsCountChain(9));
+
+      await expect(service.assertCanGenerate(userId, 2)).rejects.toThrow("Możesz zachować jeszcze 1 obraz");
+    });
+
+    it("powinien zwrócić limit gdy generacje są dostępne", async () => {
+      mockFrom.mockReturnValueOnce(createUserChain("free")).mockReturnValueOnce(createEventsCountChain(3));
+
+      const quota = await service.assertCanGenerate(userId);
+
+      expect(quota.remaining).toBe(7);
+    });
+  });
+
+  describe("consumeGenerations()", () => {
+    const quota = {
+      plan: "free" as const,
+      limit: 10,
+      used: 3,
+      remaining: 7,
+      is_override: false,
+      period_start: "2025-11-01T00:00:00.000Z",
+      resets_at: "2025-12-01T00:00:00.000Z",
+    };
+
+    it("powinien pobrać limit za każdy obraz w jednej transakcji", async () => {
+      mockRpc.mockResolvedValueOnce({ data: 5, error: null });
+
+      const remaining = await service.consumeGenerations(quota, ["image-1", "image-2"]);
+
+      expect(remaining).toBe(5);
+      expect(mockRpc).toHaveBeenCalledWith("consume_generation_quota", {
+        image_ids: ["image-1", "image-2"],
+        plan_limit: GENERATION_PLAN_LIMITS.free,
+      });
+    });
+
+    it("nie powinien wykonywać zapytania bez obrazów", async () => {
+      await expect(service.consumeGenerations(quota, [])).resolves.toBe(7);
+
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it("powinien rzucić błąd 429 gdy limit wyczerpał się w międzyczasie", async () => {
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: "P0001", message: "Generation limit reached" } });
+
+      await expect(service.consumeGenerations(quota, ["image-1"])).rejects.toMatchObject({
+        code: "GENERATION_LIMIT_REACHED",
+        statusCode: 429,
+      });
+    });
+
+    it("powinien rzucić błąd gdy zapis się nie powiedzie", async () => {
+      mockRpc.mockResolvedValueOnce({ data: null, error: { message: "DB error" } });
+
+      await expect(service.consumeGenerations(quota, ["image-1"])).rejects.toMatchObject({
+        code: "QUOTA_RECORD_FAILED",
+      });
+    });
+  });
+
+  describe("setOverride()", () => {
+    it("powinien zapisać limit użytkownika z autorem i powodem", async () => {
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      mockFrom.mockReturnValueOnce({ upsert });
+
+      await service.setOverride(userId, 50, "admin-uuid", "Projekt pilotażowy");
+
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: userId,
+          monthly_limit: 50,
+          created_by: "admin-uuid",
+          reason: "Projekt pilotażowy",
+        })
+      );
+    });
+
+    it("powinien odrzucić ujemny limit", async () => {
+      await expect(service.setOverride(userId, -1, "admin-uuid")).rejects.toMatchObject({
+        code: "INVALID_QUOTA_LIMIT",
+        statusCode: 422,
+      });
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+});
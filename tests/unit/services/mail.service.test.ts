@@ -0,0 +1,243 @@
+/**
+ * Unit tests for MailService
+ *
+ * Tests event emails (recipient check, address lookup with the service role client, opt-out,
+ * best-effort delivery through the file transport), transport selection and email preferences.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  MailService,
+  MailError,
+  FileMailTransport,
+  ConsoleMailTransport,
+  SmtpMailTransport,
+  createMailTransport,
+  type MailMessage,
+} from "@/lib/services/mail.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("MailService", () => {
+  let service: MailService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+  let mockRpc: ReturnType<typeof vi.fn>;
+  let mockGetUserById: ReturnType<typeof vi.fn>;
+  let adminClient: SupabaseClient;
+  let mailDir: string;
+
+  const projectId = "project-uuid-1";
+  const recipientId = "client-uuid-1";
+
+  const readSentMessages = async (): Promise<MailMessage[]> => {
+    const files = await readdir(mailDir).catch(() => []);
+    return Promise.all(files.map(async (file) => JSON.parse(await readFile(join(mailDir, file), "utf-8"))));
+  };
+
+  beforeEach(async () => {
+    mailDir = await mkdtemp(join(tmpdir(), "chairai-mail-"));
+    mockFrom = vi.fn();
+    mockRpc = vi.fn();
+    mockGetUserById = vi.fn();
+    adminClient = { auth: { admin: { getUserById: mockGetUserById } } } as unknown as SupabaseClient;
+    service = new MailService(
+      { from: mockFrom, rpc: mockRpc } as unknown as SupabaseClient,
+      new FileMailTransport(mailDir),
+      { from: "ChairAI <no-reply@chairai.pl>", appUrl: "https://chairai.pl" },
+      adminClient
+    );
+  });
+
+  afterEach(async () => {
+    await rm(mailDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe("sendEventEmail()", () => {
+    it("powinien wysłać wiadomość na adres odczytany kluczem serwisowym", async () => {
+      mockRpc.mockResolvedValueOnce({ data: true, error: null });
+      mockGetUserById.mockResolvedValueOnce({ data: { user: { email: "client@example.com" } }, error: null });
+
+      await service.sendEventEmail("proposal_received", {
+        projectId,
+        recipientId,
+        data: { companyName: "Stolarnia <Dąb>", price: 2500 },
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith("can_send_event_email", {
+        project_id: projectId,
+        recipient_id: recipientId,
+        event: "proposal_received",
+      });
+      expect(mockGetUserById).toHaveBeenCalledWith(recipientId);
+
+      const messages = await readSentMessages();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].to).toBe("client@example.com");
+      expect(messages[0].from).toBe("ChairAI <no-reply@chairai.pl>");
+      expect(messages[0].subject).toBe("Nowa oferta do Twojego projektu");
+      expect(messages[0].text).toContain("Stolarnia <Dąb> złożył ofertę");
+      expect(messages[0].text).toContain(`https://chairai.pl/projects/${projectId}`);
+      expect(messages[0].text).toContain("https://chairai.pl/settings/notifications");
+      expect(messages[0].html).toContain("Stolarnia &lt;Dąb&gt;");
+    });
+
+    it("nie powinien wysyłać wiadomości ani odczytywać adresu, gdy odbiorca zrezygnował z powiadomień", async () => {
+      mockRpc.mockResolvedValueOnce({ data: false, error: null });
+
+      await service.sendEventEmail("review_request", { projectId, recipientId, data: {} });
+
+      expect(await readSentMessages()).toHaveLength(0);
+      expect(mockGetUserById).not.toHaveBeenCalled();
+    });
+
+    it("nie powinien rzucać błędu, gdy nie udało się odczytać adresu odbiorcy", async () => {
+      const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+      mockRpc.mockResolvedValueOnce({ data: true, error: null });
+      mockGetUserById.mockResolvedValueOnce({ data: { user: null }, error: { message: "User not allowed" } });
+
+      await expect(
+        service.sendEventEmail("proposal_accepted", { projectId, recipientId, data: { price: 2500 } })
+      ).resolves.toBeUndefined();
+
+      expect(await readSentMessages()).toHaveLength(0);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+
+    it("nie powinien rzucać błędu, gdy nie udało się ustalić odbiorcy", async () => {
+      const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+      mockRpc.mockResolvedValueOnce({ data: null, error: { message: "Database error" } });
+
+      await expect(
+        service.sendEventEmail("proposal_accepted", { projectId, recipientId, data: { price: 2500 } })
+      ).resolves.toBeUndefined();
+
+      expect(await readSentMessages()).toHaveLength(0);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+
+    it("nie powinien rzucać błędu, gdy transport zawiedzie", async () => {
+      const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+      const failingTransport = { send: vi.fn().mockRejectedValue(new Error("SMTP down")) };
+      service = new MailService({ rpc: mockRpc } as unknown as SupabaseClient, failingTransport, {}, adminClient);
+      mockRpc.mockResolvedValueOnce({ data: true, error: null });
+      mockGetUserById.mockResolvedValueOnce({ data: { user: { email: "artisan@example.com" } }, error: null });
+
+      await expect(
+        service.sendEventEmail("project_completed", { projectId, recipientId, data: {} })
+      ).resolves.toBeUndefined();
+
+      expect(failingTransport.send).toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe("createMailTransport()", () => {
+    it("powinien domyślnie używać transportu konsolowego", () => {
+      expect(createMailTransport({})).toBeInstanceOf(ConsoleMailTransport);
+    });
+
+    it("powinien utworzyć transport plikowy", () => {
+      expect(createMailTransport({ MAIL_TRANSPORT: "file", MAIL_FILE_DIR: mailDir })).toBeInstanceOf(FileMailTransport);
+    });
+
+    it("powinien utworzyć transport SMTP", () => {
+      expect(createMailTransport({ MAIL_TRANSPORT: "smtp", SMTP_HOST: "smtp.example.com" })).toBeInstanceOf(
+        SmtpMailTransport
+      );
+    });
+
+    it("powinien rzucić błąd, gdy MAIL_TRANSPORT nie jest ustawiony w produkcji", () => {
+      expect(() => createMailTransport({ PROD: true })).toThrow("MAIL_TRANSPORT");
+    });
+
+    it("powinien pozwolić na transport konsolowy w produkcji, gdy jest wybrany jawnie", () => {
+      expect(createMailTransport({ PROD: true, MAIL_TRANSPORT: "console" })).toBeInstanceOf(ConsoleMailTransport);
+    });
+
+    it("powinien rzucić błąd, gdy brakuje SMTP_HOST", () => {
+      expect(() => createMailTransport({ MAIL_TRANSPORT: "smtp" })).toThrow("SMTP_HOST");
+    });
+  });
+
+  describe("getPreferences()", () => {
+    it("powinien zwrócić domyślne ustawienia, gdy użytkownik ich nie zmieniał", async () => {
+      mockFrom.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      });
+
+      const result = await service.getPreferences(recipientId);
+
+      expect(mockFrom).toHaveBeenCalledWith("email_preferences");
+      expect(result).toEqual({
+        proposal_received: true,
+        proposal_accepted: true,
+        project_completed: true,
+        review_request: true,
+      });
+    });
+
+    it("powinien rzucić MailError, gdy zapytanie się nie powiedzie", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+      mockFrom.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: null, error: { message: "Database error" } }),
+      });
+
+      await expect(service.getPreferences(recipientId)).rejects.toThrow(MailError);
+    });
+  });
+
+  describe("updatePreferences()", () => {
+    it("powinien zmienić tylko przekazane ustawienia", async () => {
+      const saved = {
+        proposal_received: false,
+        proposal_accepted: true,
+        project_completed: false,
+        review_request: true,
+      };
+      const upsertChain = {
+        upsert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: saved, error: null }),
+      };
+      mockFrom
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          maybeSingle: vi.fn().mockResolvedValue({ data: { ...saved, proposal_received: true }, error: null }),
+        })
+        .mockReturnValueOnce(upsertChain);
+
+      const result = await service.updatePreferences(recipientId, { proposal_received: false });
+
+      expect(upsertChain.upsert).toHaveBeenCalledWith(expect.objectContaining({ ...saved, user_id: recipientId }));
+      expect(result).toEqual(saved);
+    });
+
+    it("powinien rzucić MailError, gdy zapis się nie powiedzie", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+      mockFrom
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+        })
+        .mockReturnValueOnce({
+          upsert: vi.fn().mockReturnThis(),
+          select: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({ data: null, error: { message: "Database error" } }),
+        });
+
+      await expect(service.updatePreferences(recipientId, { review_request: false })).rejects.toMatchObject({
+        code: "EMAIL_PREFERENCES_UPDATE_FAILED",
+        statusCode: 500,
+      });
+    });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Unit tests for MilestoneService
+ *
+ * Tests milestone planning, submission and approval, including authorization
+ * of the accepted artisan and the project owner and the staged payments rules.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MilestoneService, MilestoneError } from "@/lib/services/milestone.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("MilestoneService", () => {
+  let service: MilestoneService;
+  let mockSupabase: SupabaseClient;
+  let mockFrom: ReturnType<typeof vi.fn>;
+  let mockRpc: ReturnType<typeof vi.fn>;
+
+  const mockData = {
+    projectId: "project-uuid-1",
+    proposalId: "proposal-uuid-1",
+    milestoneId: "milestone-uuid-1",
+    clientId: "client-uuid-1",
+    artisanId: "artisan-uuid-1",
+  };
+
+  const createProjectChain = (overrides: { status?: string; accepted_price?: number } = {}) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: {
+        id: mockData.projectId,
+        client_id: mockData.clientId,
+        status: overrides.status ?? "in_progress",
+        accepted_proposal_id: mockData.proposalId,
+        accepted_price: overrides.accepted_price ?? 2500,
+      },
+      error: null,
+    }),
+  });
+
+  const createAcceptedProposalChain = () => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data: { artisan_id: mockData.artisanId }, error: null }),
+  });
+
+  const createMilestonesChain = (milestones: { status: string; amount: number }[]) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({
+      data: milestones.map((milestone, index) => ({
+        id: `milestone-${index + 1}`,
+        position: index + 1,
+        title: `Etap ${index + 1}`,
+        due_date: null,
+        submitted_at: null,
+        approved_at: null,
+        ...milestone,
+      })),
+      error: null,
+    }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockRpc = vi.fn();
+    mockSupabase = {
+      from: mockFrom,
+      rpc: mockRpc,
+    } as unknown as SupabaseClient;
+    service = new MilestoneService(mockSupabase);
+    vi.clearAllMocks();
+  });
+
+  describe("getMilestones()", () => {
+    it("powinien zwrócić etapy wraz z zatwierdzoną kwotą", async () => {
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(
+          createMilestonesChain([
+            { status: "approved", amount: 500 },
+            { status: "submitted", amount: 1000 },
+            { status: "pending", amount: 1000 },
+          ])
+        );
+
+      const result = await service.getMilestones(mockData.projectId, mockData.clientId);
+
+      expect(result.accepted_price).toBe(2500);
+      expect(result.approved_amount).toBe(500);
+      expect(result.milestones).toHaveLength(3);
+    });
+
+    it("powinien rzucić błąd 403 dla użytkownika spoza projektu", async () => {
+      mockFrom.mockReturnValueOnce(createProjectChain()).mockReturnValueOnce(createAcceptedProposalChain());
+
+      await expect(service.getMilestones(mockData.projectId, "other-user-uuid")).rejects.toMatchObject({
+        code: "MILESTONES_FORBIDDEN",
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe("setPlan()", () => {
+    it("powinien zapisać plan etapów sumujący się do zaakceptowanej ceny", async () => {
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(createMilestonesChain([]));
+      mockRpc.mockResolvedValue({
+        data: [
+          { id: "m-1", position: 1, title: "Akceptacja projektu", amount: 500.1, status: "pending" },
+          { id: "m-2", position: 2, title: "Dostawa", amount: 1999.9, status: "pending" },
+        ],
+        error: null,
+      });
+
+      const result = await service.setPlan(mockData.projectId, mockData.artisanId, {
+        milestones: [
+          { title: "Akceptacja projektu", amount: 500.1, due_date: "2025-11-01" },
+          { title: "Dostawa", amount: 1999.9 },
+        ],
+      });
+
+      expect(result).toMatchObject({ project_id: mockData.projectId, accepted_price: 2500, approved_amount: 0 });
+      expect(result.milestones).toHaveLength(2);
+      expect(mockRpc).toHaveBeenCalledWith("set_milestone_plan", {
+        project_id: mockData.projectId,
+        proposal_id: mockData.proposalId,
+        milestones: [
+          { title: "Akceptacja projektu", amount: 500.1, due_date: "2025-11-01" },
+          { title: "Dostawa", amount: 1999.9, due_date: null },
+        ],
+      });
+    });
+
+    it("powinien rzucić błąd 400 gdy suma kwot nie zgadza się z ceną", async () => {
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(createMilestonesChain([]));
+
+      await expect(
+        service.setPlan(mockData.projectId, mockData.artisanId, {
+          milestones: [{ title: "Całość", amount: 2000 }],
+        })
+      ).rejects.toMatchObject({ code: "MILESTONE_AMOUNTS_MISMATCH", statusCode: 400 });
+    });
+
+    it("powinien rzucić błąd 409 gdy któryś etap został już przesłany", async () => {
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(createMilestonesChain([{ status: "submitted", amount: 2500 }]));
+
+      await expect(
+        service.setPlan(mockData.projectId, mockData.artisanId, {
+          milestones: [{ title: "Całość", amount: 2500 }],
+        })
+      ).rejects.toMatchObject({ code: "MILESTONE_PLAN_LOCKED", statusCode: 409 });
+    });
+
+    it("powinien rzucić błąd 409 gdy etap został przesłany w trakcie zapisu planu", async () => {
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(createMilestonesChain([]));
+      mockRpc.mockResolvedValue({ data: null, error: { code: "P0001", message: "Milestone plan is locked" } });
+
+      await expect(
+        service.setPlan(mockData.projectId, mockData.artisanId, {
+          milestones: [{ title: "Całość", amount: 2500 }],
+        })
+      ).rejects.toMatchObject({ code: "MILESTONE_PLAN_LOCKED", statusCode: 409 });
+    });
+
+    it("powinien rzucić błąd 400 gdy baza danych odrzuci plan o złej sumie kwot", async () => {
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(createMilestonesChain([]));
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: { code: "22023", message: "Milestone amounts must add up to the accepted price" },
+      });
+
+      await expect(
+        service.setPlan(mockData.projectId, mockData.artisanId, {
+          milestones: [{ title: "Całość", amount: 2500 }],
+        })
+      ).rejects.toMatchObject({ code: "MILESTONE_AMOUNTS_MISMATCH", statusCode: 400 });
+    });
+
+    it("powinien rzucić błąd 403 gdy plan ustala klient", async () => {
+      mockFrom.mockReturnValueOnce(createProjectChain()).mockReturnValueOnce(createAcceptedProposalChain());
+
+      await expect(
+        service.setPlan(mockData.projectId, mockData.clientId, {
+          milestones: [{ title: "Całość", amount: 2500 }],
+        })
+      ).rejects.toMatchObject({ code: "FORBIDDEN_NOT_ACCEPTED_ARTISAN", statusCode: 403 });
+    });
+  });
+
+  describe("submitMilestone() / approveMilestone()", () => {
+    const createTransitionChains = (currentStatus: string, newStatus: string) => {
+      const fetchChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: mockData.milestoneId, status: currentStatus }, error: null }),
+      };
+      const updateChain = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: mockData.milestoneId, status: newStatus }, error: null }),
+      };
+      return { fetchChain, updateChain };
+    };
+
+    it("powinien przesłać oczekujący etap do akceptacji", async () => {
+      const { fetchChain, updateChain } = createTransitionChains("pending", "submitted");
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(fetchChain)
+        .mockReturnValueOnce(updateChain);
+
+      const result = await service.submitMilestone(mockData.projectId, mockData.milestoneId, mockData.artisanId);
+
+      expect(result.status).toBe("submitted");
+      expect(updateChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: "submitted" }));
+    });
+
+    it("powinien zatwierdzić przesłany etap", async () => {
+      const { fetchChain, updateChain } = createTransitionChains("submitted", "approved");
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(fetchChain)
+        .mockReturnValueOnce(updateChain);
+
+      const result = await service.approveMilestone(mockData.projectId, mockData.milestoneId, mockData.clientId);
+
+      expect(result.status).toBe("approved");
+      expect(updateChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: "approved" }));
+    });
+
+    it("powinien rzucić błąd 409 przy zatwierdzaniu nieprzesłanego etapu", async () => {
+      const { fetchChain } = createTransitionChains("pending", "approved");
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createAcceptedProposalChain())
+        .mockReturnValueOnce(fetchChain);
+
+      try {
+        await service.approveMilestone(mockData.projectId, mockData.milestoneId, mockData.clientId);
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(MilestoneError);
+        expect((error as MilestoneError).code).toBe("INVALID_MILESTONE_TRANSITION");
+        expect((error as MilestoneError).statusCode).toBe(409);
+      }
+    });
+
+    it("powinien rzucić błąd 403 gdy etap zatwierdza rzemieślnik", async () => {
+      mockFrom.mockReturnValueOnce(createProjectChain()).mockReturnValueOnce(createAcceptedProposalChain());
+
+      await expect(
+        service.approveMilestone(mockData.projectId, mockData.milestoneId, mockData.artisanId)
+      ).rejects.toMatchObject({ code: "FORBIDDEN_NOT_PROJECT_OWNER", statusCode: 403 });
+    });
+
+    it("powinien rzucić błąd 400 gdy projekt nie jest w realizacji", async () => {
+      mockFrom
+        .mockReturnValueOnce(createProjectChain({ status: "completed" }))
+        .mockReturnValueOnce(createAcceptedProposalChain());
+
+      await expect(
+        service.submitMilestone(mockData.projectId, mockData.milestoneId, mockData.artisanId)
+      ).rejects.toMatchObject({ code: "PROJECT_NOT_IN_PROGRESS", statusCode: 400 });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for NotificationService
+ *
+ * Tests emitting notifications (best-effort delivery), listing them with the
+ * unread count and marking them as read.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NotificationService, NotificationError } from "@/lib/services/notification.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { CreateNotificationCommand } from "@/types";
+
+describe("NotificationService", () => {
+  let service: NotificationService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+
+  const userId = "user-uuid-1";
+
+  const mockNotification = {
+    id: "notification-uuid-1",
+    type: "proposal_received",
+    title: "Nowa oferta",
+    message: "Test Company złożył ofertę do Twojego projektu (2500 PLN).",
+    project_id: "project-uuid-1",
+    read_at: null,
+    created_at: "2025-10-27T10:00:00Z",
+  };
+
+  const createUnreadCountChain = (count: number | null, error: unknown = null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockResolvedValue({ count, error }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    service = new NotificationService({ from: mockFrom } as unknown as SupabaseClient);
+    vi.clearAllMocks();
+  });
+
+  describe("notify()", () => {
+    const command: CreateNotificationCommand = {
+      user_id: "client-uuid-1",
+      actor_id: "artisan-uuid-1",
+      type: "proposal_received",
+      project_id: "project-uuid-1",
+      title: "Nowa oferta",
+      message: "Otrzymałeś nową ofertę.",
+    };
+
+    it("powinien zapisać powiadomienie dla odbiorcy", async () => {
+      const insertChain = { insert: vi.fn().mockResolvedValue({ error: null }) };
+      mockFrom.mockReturnValueOnce(insertChain);
+
+      await service.notify(command);
+
+      expect(mockFrom).toHaveBeenCalledWith("notifications");
+      expect(insertChain.insert).toHaveBeenCalledWith(command);
+    });
+
+    it("nie powinien powiadamiać użytkownika o jego własnej akcji", async () => {
+      await service.notify({ ...command, user_id: command.actor_id });
+
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it("nie powinien rzucać błędu gdy zapis powiadomienia się nie powiedzie", async () => {
+      mockFrom.mockReturnValueOnce({
+        insert: vi.fn().mockResolvedValue({ error: { message: "RLS violation" } }),
+      });
+
+      await expect(service.notify(command)).resolves.toBeUndefined();
+    });
+  });
+
+  describe("listNotifications()", () => {
+    it("powinien zwrócić stronę powiadomień z liczbą nieprzeczytanych", async () => {
+      const listChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        range: vi.fn().mockResolvedValue({ data: [mockNotification], count: 21, error: null }),
+      };
+      mockFrom.mockReturnValueOnce(listChain).mockReturnValueOnce(createUnreadCountChain(3));
+
+      const result = await service.listNotifications(userId, { page: 2, limit: 20, unread_only: false });
+
+      expect(result).toEqual({
+        data: [mockNotification],
+        pagination: { page: 2, limit: 20, total: 21, total_pages: 2 },
+        unread_count: 3,
+      });
+      expect(listChain.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(listChain.order).toHaveBeenCalledWith("created_at", { ascending: false });
+      expect(listChain.range).toHaveBeenCalledWith(20, 39);
+      expect(listChain.is).not.toHaveBeenCalled();
+    });
+
+    it("powinien filtrować tylko nieprzeczytane gdy unread_only = true", async () => {
+      const listChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        range: vi.fn().mockResolvedValue({ data: [], count: 0, error: null }),
+      };
+      mockFrom.mockReturnValueOnce(listChain).mockReturnValueOnce(createUnreadCountChain(0));
+
+      const result = await service.listNotifications(userId, { page: 1, limit: 20, unread_only: true });
+
+      expect(listChain.is).toHaveBeenCalledWith("read_at", null);
+      expect(result.pagination.total_pages).toBe(0);
+    });
+
+    it("powinien rzucić NotificationError gdy pobranie się nie powiedzie", async () => {
+      mockFrom.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        range: vi.fn().mockResolvedValue({ data: null, count: null, error: { message: "DB error" } }),
+      });
+
+      await expect(service.listNotifications(userId, { page: 1, limit: 20, unread_only: false })).rejects.toThrow(
+        NotificationError
+      );
+    });
+  });
+
+  describe("markAsRead()", () => {
+    const createUpdateChain = (data: unknown, error: unknown = null) => ({
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      in: vi.fn().mockReturnThis(),
+      select: vi.fn().mockResolvedValue({ data, error }),
+    });
+
+    it("powinien oznaczyć wybrane powiadomienia jako przeczytane", async () => {
+      const updateChain = createUpdateChain([{ id: "notification-uuid-1" }]);
+      mockFrom.mockReturnValueOnce(updateChain).mockReturnValueOnce(createUnreadCountChain(2));
+
+      const result = await service.markAsRead(userId, { notification_ids: ["notification-uuid-1"] });
+
+      expect(result).toEqual({ updated_count: 1, unread_count: 2 });
+      expect(updateChain.update).toHaveBeenCalledWith({ read_at: expect.any(String) });
+      expect(updateChain.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(updateChain.is).toHaveBeenCalledWith("read_at", null);
+      expect(updateChain.in).toHaveBeenCalledWith("id", ["notification-uuid-1"]);
+    });
+
+    it("powinien oznaczyć wszystkie powiadomienia jako przeczytane", async () => {
+      const updateChain = createUpdateChain([{ id: "n-1" }, { id: "n-2" }]);
+      mockFrom.mockReturnValueOnce(updateChain).mockReturnValueOnce(createUnreadCountChain(0));
+
+      const result = await service.markAsRead(userId, { all: true });
+
+      expect(result).toEqual({ updated_count: 2, unread_count: 0 });
+      expect(updateChain.in).not.toHaveBeenCalled();
+    });
+
+    it("powinien rzucić błąd 500 gdy aktualizacja się nie powiedzie", async () => {
+      mockFrom.mockReturnValueOnce(createUpdateChain(null, { message: "DB error" }));
+
+      await expect(service.markAsRead(userId, { all: true })).rejects.toMatchObject({
+        code: "NOTIFICATIONS_UPDATE_FAILED",
+        statusCode: 500,
+      });
+    });
+  });
+});
@@ -13,6 +13,7 @@ describe("ProjectService - acceptProposal()", () => {
   let service: ProjectService;
   let mockSupabase: SupabaseClient;
   let mockFrom: ReturnType<typeof vi.fn>;
+  let mockRpc: ReturnType<typeof vi.fn>;
 
   const mockData = {
     projectId: "project-uuid-1",
@@ -22,8 +23,10 @@ describe("ProjectService - acceptProposal()", () => {
 
   beforeEach(() => {
     mockFrom = vi.fn();
+    mockRpc = vi.fn().mockResolvedValue({ data: null, error: null });
     mockSupabase = {
       from: mockFrom,
+      rpc: mockRpc,
     } as unknown as SupabaseClient;
     service = new ProjectService(mockSupabase);
     vi.clearAllMocks();
@@ -40,7 +43,10 @@ describe("ProjectService - acceptProposal()", () => {
       const mockProposal = {
         id: mockData.proposalId,
         project_id: mockData.projectId,
+        artisan_id: "artisan-uuid-1",
         price: 2500,
+        status: "pending",
+        current_revision: 1,
       };
 
       const mockUpdatedProject = {
@@ -71,22 +77,19 @@ describe("ProjectService - acceptProposal()", () => {
         }),
       };
 
-      // Mock chain for updating project
-      const updateChain = {
-        update: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        select: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: mockUpdatedProject,
-          error: null,
-        }),
+      // Mock the accept_proposal() transaction
+      mockRpc.mockResolvedValueOnce({ data: mockUpdatedProject, error: null });
+
+      // Mock chain for notifying the artisan
+      const notificationChain = {
+        insert: vi.fn().mockResolvedValue({ error: null }),
       };
 
       // Setup mockFrom to return appropriate chains
       mockFrom
         .mockReturnValueOnce(projectChain) // First call: fetch project
         .mockReturnValueOnce(proposalChain) // Second call: fetch proposal
-        .mockReturnValueOnce(updateChain); // Third call: update project
+        .mockReturnValueOnce(notificationChain); // Third call: notify the artisan
 
       const result = await service.acceptProposal(mockData.projectId, mockData.proposalId, mockData.userId);
 
@@ -97,6 +100,25 @@ describe("ProjectService - acceptProposal()", () => {
         accepted_price: 2500,
         updated_at: "2025-10-22T10:00:00Z",
       });
+      expect(mockRpc).toHaveBeenCalledWith("accept_proposal", {
+        project_id: mockData.projectId,
+        proposal_id: mockData.proposalId,
+        accepted_revision: 1,
+      });
+      expect(mockFrom).toHaveBeenCalledWith("notifications");
+      expect(notificationChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: "artisan-uuid-1",
+          actor_id: mockData.userId,
+          type: "proposal_accepted",
+          project_id: mockData.projectId,
+        })
+      );
+      expect(mockRpc).toHaveBeenCalledWith("can_send_event_email", {
+        project_id: mockData.projectId,
+        recipient_id: "artisan-uuid-1",
+        event: "proposal_accepted",
+      });
     });
   });
 
@@ -267,6 +289,160 @@ describe("ProjectService - acceptProposal()", () => {
     });
   });
 
+  describe("Proposal status", () => {
+    it("powinien rzucić błąd 409 gdy oferta została wycofana lub odrzucona", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.projectId, client_id: mockData.userId, status: "open" },
+          error: null,
+        }),
+      };
+
+      const proposalChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.proposalId, project_id: mockData.projectId, price: 2500, status: "withdrawn" },
+          error: null,
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(proposalChain);
+
+      try {
+        await service.acceptProposal(mockData.projectId, mockData.proposalId, mockData.userId);
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProjectError);
+        expect((error as ProjectError).code).toBe("PROPOSAL_NOT_PENDING");
+        expect((error as ProjectError).statusCode).toBe(409);
+      }
+    });
+
+    it("powinien rzucić błąd 409 gdy termin ważności oferty minął", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.projectId, client_id: mockData.userId, status: "open" },
+          error: null,
+        }),
+      };
+
+      const proposalChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: mockData.proposalId,
+            project_id: mockData.projectId,
+            price: 2500,
+            status: "pending",
+            valid_until: "2020-01-31",
+          },
+          error: null,
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(proposalChain);
+
+      await expect(
+        service.acceptProposal(mockData.projectId, mockData.proposalId, mockData.userId)
+      ).rejects.toMatchObject({ code: "PROPOSAL_EXPIRED", statusCode: 409 });
+      expect(mockFrom).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Revision locking", () => {
+    it("powinien zapisać aktualną wersję oferty w projekcie", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.projectId, client_id: mockData.userId, status: "open" },
+          error: null,
+        }),
+      };
+
+      const proposalChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: mockData.proposalId,
+            project_id: mockData.projectId,
+            price: 2200,
+            current_revision: 3,
+            status: "pending",
+          },
+          error: null,
+        }),
+      };
+
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          id: mockData.projectId,
+          status: "in_progress",
+          accepted_proposal_id: mockData.proposalId,
+          accepted_price: 2200,
+          updated_at: "2025-10-22T10:00:00Z",
+        },
+        error: null,
+      });
+
+      mockFrom
+        .mockReturnValueOnce(projectChain)
+        .mockReturnValueOnce(proposalChain)
+        .mockReturnValue({ insert: vi.fn().mockResolvedValue({ error: null }) });
+
+      await service.acceptProposal(mockData.projectId, mockData.proposalId, mockData.userId, 3);
+
+      expect(mockRpc).toHaveBeenCalledWith(
+        "accept_proposal",
+        expect.objectContaining({ proposal_id: mockData.proposalId, accepted_revision: 3 })
+      );
+    });
+
+    it("powinien rzucić błąd 409 gdy oferta została zmieniona po jej obejrzeniu", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.projectId, client_id: mockData.userId, status: "open" },
+          error: null,
+        }),
+      };
+
+      const proposalChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: mockData.proposalId,
+            project_id: mockData.projectId,
+            price: 2200,
+            current_revision: 3,
+            status: "pending",
+          },
+          error: null,
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(proposalChain);
+
+      try {
+        await service.acceptProposal(mockData.projectId, mockData.proposalId, mockData.userId, 2);
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProjectError);
+        expect((error as ProjectError).code).toBe("PROPOSAL_REVISION_OUTDATED");
+        expect((error as ProjectError).statusCode).toBe(409);
+      }
+    });
+  });
+
   describe("Update errors", () => {
     it("powinien rzucić błąd 500 gdy aktualizacja projektu nie powiedzie się", async () => {
       const mockProject = {
@@ -279,6 +455,7 @@ describe("ProjectService - acceptProposal()", () => {
         id: mockData.proposalId,
         project_id: mockData.projectId,
         price: 2500,
+        status: "pending",
       };
 
       const projectChain = {
@@ -299,17 +476,9 @@ describe("ProjectService - acceptProposal()", () => {
         }),
       };
 
-      const updateChain = {
-        update: vi.fn().mockReturnThis(),
-        eq: vi.fn().mockReturnThis(),
-        select: vi.fn().mockReturnThis(),
-        single: vi.fn().mockResolvedValue({
-          data: null,
-          error: { message: "Update failed" },
-        }),
-      };
+      mockRpc.mockResolvedValueOnce({ data: null, error: { message: "Update failed" } });
 
-      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(proposalChain).mockReturnValueOnce(updateChain);
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(proposalChain);
 
       try {
         await service.acceptProposal(mockData.projectId, mockData.proposalId, mockData.userId);
@@ -321,5 +490,32 @@ describe("ProjectService - acceptProposal()", () => {
         expect((error as ProjectError).message).toContain("Nie udało się zaakceptować propozycji");
       }
     });
+
+    it("powinien rzucić błąd 409 gdy projekt lub oferta zmieniły się w trakcie akceptacji", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.projectId, client_id: mockData.userId, status: "open" },
+          error: null,
+        }),
+      };
+
+      const proposalChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.proposalId, project_id: mockData.projectId, price: 2500, status: "pending" },
+          error: null,
+        }),
+      };
+
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: "P0001", message: "Proposal cannot be accepted" } });
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(proposalChain);
+
+      await expect(
+        service.acceptProposal(mockData.projectId, mockData.proposalId, mockData.userId)
+      ).rejects.toMatchObject({ code: "PROPOSAL_ACCEPT_CONFLICT", statusCode: 409 });
+    });
   });
 });
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for ProjectService.getProjectHistory()
+ *
+ * Tests access rules for the project audit trail and the actor role recorded on
+ * each event.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ProjectService, ProjectError } from "@/lib/services/project.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("ProjectService - getProjectHistory()", () => {
+  let service: ProjectService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+
+  const mockData = {
+    projectId: "project-uuid-1",
+    clientId: "client-uuid-1",
+    artisanId: "artisan-uuid-1",
+    proposalId: "proposal-uuid-1",
+  };
+
+  const mockEvents = [
+    {
+      id: "event-1",
+      event_type: "created",
+      actor_id: mockData.clientId,
+      actor_role: "client",
+      from_status: null,
+      to_status: "open",
+      proposal_id: null,
+      review_id: null,
+      created_at: "2025-10-20T10:00:00Z",
+    },
+    {
+      id: "event-2",
+      event_type: "proposal_received",
+      actor_id: mockData.artisanId,
+      actor_role: "artisan",
+      from_status: null,
+      to_status: null,
+      proposal_id: mockData.proposalId,
+      review_id: null,
+      created_at: "2025-10-21T10:00:00Z",
+    },
+    {
+      id: "event-3",
+      event_type: "status_changed",
+      actor_id: null,
+      actor_role: null,
+      from_status: "in_progress",
+      to_status: "completed",
+      proposal_id: null,
+      review_id: null,
+      created_at: "2025-10-25T10:00:00Z",
+    },
+  ];
+
+  const createProjectChain = (acceptedProposalId: string | null = mockData.proposalId) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: { id: mockData.projectId, client_id: mockData.clientId, accepted_proposal_id: acceptedProposalId },
+      error: null,
+    }),
+  });
+
+  const createEventsChain = (data: unknown = mockEvents, error: unknown = null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({ data, error }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    service = new ProjectService({ from: mockFrom } as unknown as SupabaseClient);
+    vi.clearAllMocks();
+  });
+
+  describe("Success scenarios", () => {
+    it("powinien zwrócić historię projektu właścicielowi w kolejności chronologicznej", async () => {
+      const eventsChain = createEventsChain();
+      mockFrom.mockReturnValueOnce(createProjectChain()).mockReturnValueOnce(eventsChain);
+
+      const result = await service.getProjectHistory(mockData.projectId, mockData.clientId);
+
+      expect(result.project_id).toBe(mockData.projectId);
+      expect(result.events).toHaveLength(3);
+      expect(mockFrom).toHaveBeenCalledWith("project_events");
+      expect(eventsChain.eq).toHaveBeenCalledWith("project_id", mockData.projectId);
+      expect(eventsChain.order).toHaveBeenCalledWith("created_at", { ascending: true });
+    });
+
+    it("powinien zwrócić rolę autora zapisaną przy zdarzeniu", async () => {
+      const closedByAdmin = {
+        ...mockEvents[2],
+        id: "event-4",
+        actor_id: "admin-uuid-1",
+        actor_role: "admin",
+        from_status: "open",
+        to_status: "closed",
+      };
+      const eventsChain = createEventsChain([...mockEvents, closedByAdmin]);
+      mockFrom.mockReturnValueOnce(createProjectChain()).mockReturnValueOnce(eventsChain);
+
+      const result = await service.getProjectHistory(mockData.projectId, mockData.clientId);
+
+      expect(eventsChain.select).toHaveBeenCalledWith(expect.stringContaining("actor_role"));
+      expect(result.events.map((event) => event.actor_role)).toEqual(["client", "artisan", null, "admin"]);
+    });
+
+    it("powinien zwrócić historię rzemieślnikowi z zaakceptowaną ofertą", async () => {
+      const proposalChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: { id: mockData.proposalId }, error: null }),
+      };
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(proposalChain)
+        .mockReturnValueOnce(createEventsChain());
+
+      const result = await service.getProjectHistory(mockData.projectId, mockData.artisanId);
+
+      expect(result.events).toHaveLength(3);
+      expect(proposalChain.eq).toHaveBeenCalledWith("id", mockData.proposalId);
+      expect(proposalChain.eq).toHaveBeenCalledWith("artisan_id", mockData.artisanId);
+    });
+
+    it("powinien zwrócić pustą listę zdarzeń, gdy historia jest pusta", async () => {
+      mockFrom.mockReturnValueOnce(createProjectChain()).mockReturnValueOnce(createEventsChain(null));
+
+      const result = await service.getProjectHistory(mockData.projectId, mockData.clientId);
+
+      expect(result.events).toEqual([]);
+    });
+  });
+
+  describe("Error scenarios", () => {
+    it("powinien rzucić błąd 404, gdy projekt nie istnieje", async () => {
+      mockFrom.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { message: "Not found" } }),
+      });
+
+      await expect(service.getProjectHistory(mockData.projectId, mockData.clientId)).rejects.toMatchObject({
+        code: "PROJECT_NOT_FOUND",
+        statusCode: 404,
+      });
+    });
+
+    it("powinien rzucić błąd 403 dla rzemieślnika bez zaakceptowanej oferty", async () => {
+      mockFrom.mockReturnValueOnce(createProjectChain()).mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      });
+
+      await expect(service.getProjectHistory(mockData.projectId, "other-artisan")).rejects.toMatchObject({
+        code: "PROJECT_FORBIDDEN",
+        statusCode: 403,
+      });
+    });
+
+    it("powinien rzucić błąd 403 dla innego użytkownika, gdy projekt nie ma zaakceptowanej oferty", async () => {
+      mockFrom.mockReturnValueOnce(createProjectChain(null));
+
+      await expect(service.getProjectHistory(mockData.projectId, "other-user")).rejects.toBeInstanceOf(ProjectError);
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+    });
+
+    it("powinien rzucić błąd 500, gdy pobranie zdarzeń się nie powiedzie", async () => {
+      mockFrom
+        .mockReturnValueOnce(createProjectChain())
+        .mockReturnValueOnce(createEventsChain(null, { message: "DB error" }));
+
+      await expect(service.getProjectHistory(mockData.projectId, mockData.clientId)).rejects.toMatchObject({
+        code: "HISTORY_FETCH_FAILED",
+        statusCode: 500,
+      });
+    });
+  });
+});
@@ -14,6 +14,7 @@ describe("ProjectService - updateProjectStatus()", () => {
   let service: ProjectService;
   let mockSupabase: SupabaseClient;
   let mockFrom: ReturnType<typeof vi.fn>;
+  let mockRpc: ReturnType<typeof vi.fn>;
 
   const mockData = {
     projectId: "project-uuid-1",
@@ -22,8 +23,10 @@ describe("ProjectService - updateProjectStatus()", () => {
 
   beforeEach(() => {
     mockFrom = vi.fn();
+    mockRpc = vi.fn().mockResolvedValue({ data: null, error: null });
     mockSupabase = {
       from: mockFrom,
+      rpc: mockRpc,
     } as unknown as SupabaseClient;
     service = new ProjectService(mockSupabase);
     vi.clearAllMocks();
@@ -116,7 +119,15 @@ describe("ProjectService - updateProjectStatus()", () => {
         }),
       };
 
-      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(updateChain);
+      const milestonesChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({
+          data: [{ id: "milestone-1", status: "approved" }],
+          error: null,
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(milestonesChain).mockReturnValueOnce(updateChain);
 
       const result = await service.updateProjectStatus(mockData.projectId, "completed", mockData.userId);
 
@@ -231,6 +242,169 @@ describe("ProjectService - updateProjectStatus()", () => {
     });
   });
 
+  describe("Notifications", () => {
+    const createUpdateChain = (status: ProjectStatus) => ({
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({
+        data: { id: mockData.projectId, status, updated_at: "2025-10-22T10:00:00Z" },
+        error: null,
+      }),
+    });
+
+    it("powinien powiadomić rzemieślnika z zaakceptowaną ofertą o zmianie statusu", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: mockData.projectId,
+            client_id: mockData.userId,
+            status: "in_progress" as ProjectStatus,
+            accepted_proposal: { artisan_id: "artisan-uuid-1" },
+          },
+          error: null,
+        }),
+      };
+      const notificationChain = {
+        insert: vi.fn().mockResolvedValue({ error: null }),
+      };
+
+      mockFrom
+        .mockReturnValueOnce(projectChain)
+        .mockReturnValueOnce(createUpdateChain("closed"))
+        .mockReturnValueOnce(notificationChain);
+
+      await service.updateProjectStatus(mockData.projectId, "closed", mockData.userId);
+
+      expect(mockFrom).toHaveBeenCalledWith("notifications");
+      expect(notificationChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: "artisan-uuid-1",
+          actor_id: mockData.userId,
+          type: "project_status_changed",
+          project_id: mockData.projectId,
+        })
+      );
+    });
+
+    it("nie powinien wysyłać powiadomienia gdy projekt nie ma zaakceptowanej oferty", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: mockData.projectId,
+            client_id: mockData.userId,
+            status: "open" as ProjectStatus,
+            accepted_proposal: null,
+          },
+          error: null,
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(createUpdateChain("closed"));
+
+      await service.updateProjectStatus(mockData.projectId, "closed", mockData.userId);
+
+      expect(mockFrom).toHaveBeenCalledTimes(2);
+      expect(mockFrom).not.toHaveBeenCalledWith("notifications");
+    });
+
+    it("nie powinien przerywać zmiany statusu gdy powiadomienie się nie powiedzie", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: mockData.projectId,
+            client_id: mockData.userId,
+            status: "in_progress" as ProjectStatus,
+            accepted_proposal: { artisan_id: "artisan-uuid-1" },
+          },
+          error: null,
+        }),
+      };
+      const notificationChain = {
+        insert: vi.fn().mockResolvedValue({ error: { message: "RLS violation" } }),
+      };
+
+      mockFrom
+        .mockReturnValueOnce(projectChain)
+        .mockReturnValueOnce(createUpdateChain("closed"))
+        .mockReturnValueOnce(notificationChain);
+
+      const result = await service.updateProjectStatus(mockData.projectId, "closed", mockData.userId);
+
+      expect(result.status).toBe("closed");
+    });
+
+    it("powinien wysłać e-maile o zakończeniu projektu do rzemieślnika i klienta", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: mockData.projectId,
+            client_id: mockData.userId,
+            status: "in_progress" as ProjectStatus,
+            accepted_proposal: { artisan_id: "artisan-uuid-1" },
+          },
+          error: null,
+        }),
+      };
+      const milestonesChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ data: [], error: null }),
+      };
+
+      mockFrom
+        .mockReturnValueOnce(projectChain)
+        .mockReturnValueOnce(milestonesChain)
+        .mockReturnValueOnce(createUpdateChain("completed"))
+        .mockReturnValueOnce({ insert: vi.fn().mockResolvedValue({ error: null }) });
+
+      await service.updateProjectStatus(mockData.projectId, "completed", mockData.userId);
+
+      expect(mockRpc).toHaveBeenCalledWith("can_send_event_email", {
+        project_id: mockData.projectId,
+        recipient_id: "artisan-uuid-1",
+        event: "project_completed",
+      });
+      expect(mockRpc).toHaveBeenCalledWith("can_send_event_email", {
+        project_id: mockData.projectId,
+        recipient_id: mockData.userId,
+        event: "review_request",
+      });
+    });
+
+    it("nie powinien wysyłać e-maili o zakończeniu przy innych zmianach statusu", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: {
+            id: mockData.projectId,
+            client_id: mockData.userId,
+            status: "in_progress" as ProjectStatus,
+            accepted_proposal: { artisan_id: "artisan-uuid-1" },
+          },
+          error: null,
+        }),
+      };
+
+      mockFrom
+        .mockReturnValueOnce(projectChain)
+        .mockReturnValueOnce(createUpdateChain("closed"))
+        .mockReturnValueOnce({ insert: vi.fn().mockResolvedValue({ error: null }) });
+
+      await service.updateProjectStatus(mockData.projectId, "closed", mockData.userId);
+
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Error scenarios - Not Found", () => {
     it("powinien rzucić błąd PROJECT_NOT_FOUND gdy projekt nie istnieje", async () => {
       const projectChain = {
@@ -438,6 +612,72 @@ describe("ProjectService - updateProjectStatus()", () => {
     });
   });
 
+  describe("Error scenarios - Milestones", () => {
+    it("powinien rzucić błąd MILESTONES_NOT_APPROVED gdy nie wszystkie etapy są zatwierdzone", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.projectId, client_id: mockData.userId, status: "in_progress" as ProjectStatus },
+          error: null,
+        }),
+      };
+
+      const milestonesChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({
+          data: [
+            { id: "milestone-1", status: "approved" },
+            { id: "milestone-2", status: "submitted" },
+          ],
+          error: null,
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(milestonesChain);
+
+      await expect(service.updateProjectStatus(mockData.projectId, "completed", mockData.userId)).rejects.toMatchObject(
+        {
+          code: "MILESTONES_NOT_APPROVED",
+          statusCode: 400,
+        }
+      );
+    });
+
+    it("powinien rzucić błąd MILESTONES_NOT_APPROVED gdy baza danych odrzuci zakończenie projektu", async () => {
+      const projectChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: mockData.projectId, client_id: mockData.userId, status: "in_progress" as ProjectStatus },
+          error: null,
+        }),
+      };
+      const milestonesChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ data: [{ id: "milestone-1", status: "approved" }], error: null }),
+      };
+      const updateChain = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: null,
+          error: { code: "23514", message: "Every milestone must be approved before the project is completed" },
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(projectChain).mockReturnValueOnce(milestonesChain).mockReturnValueOnce(updateChain);
+
+      await expect(service.updateProjectStatus(mockData.projectId, "completed", mockData.userId)).rejects.toMatchObject(
+        {
+          code: "MILESTONES_NOT_APPROVED",
+          statusCode: 400,
+        }
+      );
+    });
+  });
+
   describe("Error scenarios - Database Errors", () => {
     it("powinien rzucić błąd STATUS_UPDATE_FAILED gdy aktualizacja w bazie danych się nie powiedzie", async () => {
       const mockProject = {
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for ProjectSuggestionService
+ *
+ * Tests mapping of image prompts to the seeded categories and materials,
+ * ranking of suggestions and their confidence.
+ */
+
+import { describe, it, expect } from "vitest";
+import { ProjectSuggestionService } from "@/lib/services/project-suggestion.service";
+import type { CategoryDTO, MaterialDTO } from "@/types";
+
+const toDictionary = (names: string[]) =>
+  names.map((name, index) => ({ id: `${index + 1}`, name, created_at: "2025-10-19T12:00:00Z" }));
+
+const categories = toDictionary([
+  "Krzesła",
+  "Stoły",
+  "Szafy",
+  "Komody",
+  "Regały",
+  "Biurka",
+  "Łóżka",
+  "Fotele",
+  "Ławki",
+  "Stoliki kawowe",
+  "Szafki nocne",
+  "Witryny",
+]) as CategoryDTO[];
+
+const materials = toDictionary([
+  "Drewno dębowe",
+  "Drewno bukowe",
+  "Drewno sosnowe",
+  "Drewno orzechowe",
+  "Drewno jesionowe",
+  "Metal",
+  "Stal",
+  "Szkło",
+  "Tkanina",
+  "Skóra naturalna",
+  "Skóra ekologiczna",
+]) as MaterialDTO[];
+
+const names = (suggestions: { name: string }[]) => suggestions.map((suggestion) => suggestion.name);
+
+describe("ProjectSuggestionService", () => {
+  const service = new ProjectSuggestionService();
+
+  it("powinien rozpoznać kategorię i materiał z polskiego promptu", () => {
+    const result = service.suggest("Dębowy stół jadalny na metalowych nogach", categories, materials);
+
+    expect(result.categories[0]).toMatchObject({ id: "2", name: "Stoły", confidence: "high" });
+    expect(names(result.materials)).toEqual(["Drewno dębowe", "Metal"]);
+    expect(result.materials[0].confidence).toBe("medium");
+  });
+
+  it("powinien rozpoznać odmienione formy i angielskie słowa", () => {
+    expect(names(service.suggest("Zestaw krzeseł z buku", categories, materials).categories)).toEqual(["Krzesła"]);
+    expect(names(service.suggest("Zestaw krzeseł z buku", categories, materials).materials)).toEqual(["Drewno bukowe"]);
+    expect(names(service.suggest("Walnut writing desks", categories, materials).categories)).toEqual(["Biurka"]);
+  });
+
+  it("powinien preferować dłuższe frazy przed ogólnymi słowami", () => {
+    const result = service.suggest("Szafka nocna z szufladą", categories, materials);
+
+    expect(names(result.categories)).toEqual(["Szafki nocne", "Szafy"]);
+    expect(result.categories[0].score).toBeGreaterThan(result.categories[1].score);
+  });
+
+  it("powinien odróżnić skórę ekologiczną od naturalnej", () => {
+    const result = service.suggest("Fotel obity skórą ekologiczną", categories, materials);
+
+    expect(result.categories[0].name).toBe("Fotele");
+    expect(result.materials[0].name).toBe("Skóra ekologiczna");
+  });
+
+  it("powinien zaproponować wszystkie gatunki drewna z niską pewnością dla ogólnego drewna", () => {
+    const result = service.suggest("Drewniana komoda", categories, materials, 5);
+
+    expect(result.categories[0]).toMatchObject({ name: "Komody", confidence: "high" });
+    expect(result.materials).toHaveLength(5);
+    expect(result.materials.every((suggestion) => suggestion.confidence === "low")).toBe(true);
+  });
+
+  it("powinien pominąć materiały spoza słownika", () => {
+    const result = service.suggest("Betonowy stolik kawowy", categories, materials);
+
+    expect(result.categories[0].name).toBe("Stoliki kawowe");
+    expect(result.materials).toEqual([]);
+  });
+
+  it("powinien zwrócić puste sugestie dla nierozpoznanego promptu", () => {
+    expect(service.suggest("Coś ładnego do salonu", categories, materials)).toEqual({
+      categories: [],
+      materials: [],
+    });
+  });
+});
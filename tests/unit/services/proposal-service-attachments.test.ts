@@ -0,0 +1,116 @@
+/**
+ * Unit tests for ProposalService attachment downloads
+ *
+ * Tests getAttachmentDownloadUrl(), including access of both proposal parties,
+ * files outside the proposal and signing errors of the private bucket.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ProposalService } from "@/lib/services/proposal.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("ProposalService - getAttachmentDownloadUrl()", () => {
+  let service: ProposalService;
+  let mockSupabase: SupabaseClient;
+  let mockFrom: ReturnType<typeof vi.fn>;
+  let mockCreateSignedUrl: ReturnType<typeof vi.fn>;
+
+  const mockData = {
+    proposalId: "proposal-uuid-1",
+    projectId: "project-uuid-1",
+    clientId: "client-uuid-1",
+    artisanId: "artisan-uuid-1",
+    fileId: "attachment-uuid-1",
+  };
+
+  const createProposalChain = () => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: {
+        id: mockData.proposalId,
+        project_id: mockData.projectId,
+        artisan_id: mockData.artisanId,
+        price: 2500,
+        attachment_url: "artisan-uuid-1/project-uuid-1/offer.pdf",
+        current_revision: 1,
+        status: "pending",
+        project: { id: mockData.projectId, client_id: mockData.clientId, status: "open", accepted_revision: null },
+      },
+      error: null,
+    }),
+  });
+
+  const createAttachmentChain = (attachment: { file_url: string } | null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data: attachment, error: null }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockCreateSignedUrl = vi.fn();
+    mockSupabase = {
+      from: mockFrom,
+      storage: { from: vi.fn().mockReturnValue({ createSignedUrl: mockCreateSignedUrl }) },
+    } as unknown as SupabaseClient;
+    service = new ProposalService(mockSupabase);
+    vi.clearAllMocks();
+  });
+
+  it("powinien zwrócić krótkotrwały podpisany URL właścicielowi projektu", async () => {
+    const attachmentChain = createAttachmentChain({ file_url: "artisan-uuid-1/project-uuid-1/offer.pdf" });
+    mockFrom.mockReturnValueOnce(createProposalChain()).mockReturnValueOnce(attachmentChain);
+    mockCreateSignedUrl.mockResolvedValue({
+      data: { signedUrl: "https://storage.example.com/signed/offer.pdf?token=abc" },
+      error: null,
+    });
+
+    const url = await service.getAttachmentDownloadUrl(mockData.proposalId, mockData.fileId, mockData.clientId);
+
+    expect(url).toBe("https://storage.example.com/signed/offer.pdf?token=abc");
+    expect(attachmentChain.eq).toHaveBeenCalledWith("id", mockData.fileId);
+    expect(attachmentChain.eq).toHaveBeenCalledWith("proposal_id", mockData.proposalId);
+    expect(mockSupabase.storage.from).toHaveBeenCalledWith("proposal-attachments");
+    expect(mockCreateSignedUrl).toHaveBeenCalledWith("artisan-uuid-1/project-uuid-1/offer.pdf", 60);
+  });
+
+  it("powinien udostępnić załącznik rzemieślnikowi, który złożył ofertę", async () => {
+    mockFrom
+      .mockReturnValueOnce(createProposalChain())
+      .mockReturnValueOnce(createAttachmentChain({ file_url: "artisan-uuid-1/project-uuid-1/offer.pdf" }));
+    mockCreateSignedUrl.mockResolvedValue({ data: { signedUrl: "https://storage.example.com/signed" }, error: null });
+
+    await expect(
+      service.getAttachmentDownloadUrl(mockData.proposalId, mockData.fileId, mockData.artisanId)
+    ).resolves.toBe("https://storage.example.com/signed");
+  });
+
+  it("powinien rzucić błąd 403 dla użytkownika spoza oferty", async () => {
+    mockFrom.mockReturnValueOnce(createProposalChain());
+
+    await expect(
+      service.getAttachmentDownloadUrl(mockData.proposalId, mockData.fileId, "other-artisan-uuid")
+    ).rejects.toMatchObject({ code: "ATTACHMENT_FORBIDDEN", statusCode: 403 });
+    expect(mockCreateSignedUrl).not.toHaveBeenCalled();
+  });
+
+  it("powinien rzucić błąd 404 gdy plik nie należy do oferty", async () => {
+    mockFrom.mockReturnValueOnce(createProposalChain()).mockReturnValueOnce(createAttachmentChain(null));
+
+    await expect(
+      service.getAttachmentDownloadUrl(mockData.proposalId, mockData.fileId, mockData.clientId)
+    ).rejects.toMatchObject({ code: "ATTACHMENT_NOT_FOUND", statusCode: 404 });
+  });
+
+  it("powinien rzucić błąd 500 gdy nie uda się podpisać pliku", async () => {
+    mockFrom
+      .mockReturnValueOnce(createProposalChain())
+      .mockReturnValueOnce(createAttachmentChain({ file_url: "artisan-uuid-1/project-uuid-1/offer.pdf" }));
+    mockCreateSignedUrl.mockResolvedValue({ data: null, error: { message: "Object not found" } });
+
+    await expect(
+      service.getAttachmentDownloadUrl(mockData.proposalId, mockData.fileId, mockData.clientId)
+    ).rejects.toMatchObject({ code: "ATTACHMENT_URL_FAILED", statusCode: 500 });
+  });
+});
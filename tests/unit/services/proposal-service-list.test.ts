@@ -0,0 +1,220 @@
+/**
+ * Unit tests for ProposalService proposal listing
+ *
+ * Tests listProjectProposals(), including access rules, the bulk fetch of artisan
+ * details used by the comparison view, captioned attachments and their download endpoints.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ProposalService } from "@/lib/services/proposal.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("ProposalService - listProjectProposals()", () => {
+  let service: ProposalService;
+  let mockSupabase: SupabaseClient;
+  let mockFrom: ReturnType<typeof vi.fn>;
+
+  const mockData = {
+    projectId: "project-uuid-1",
+    clientId: "client-uuid-1",
+    artisanA: "artisan-uuid-1",
+    artisanB: "artisan-uuid-2",
+  };
+
+  const createProjectChain = (project: Record<string, unknown> | null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: project, error: project ? null : { message: "Not found" } }),
+  });
+
+  const createProposalsChain = (proposals: Record<string, unknown>[]) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({ data: proposals, error: null }),
+  });
+
+  const createInChain = (data: Record<string, unknown>[]) => ({
+    select: vi.fn().mockReturnThis(),
+    in: vi.fn().mockResolvedValue({ data, error: null }),
+  });
+
+  const proposalRow = (id: string, artisanId: string, attachmentUrl: string | null) => ({
+    id,
+    project_id: mockData.projectId,
+    artisan_id: artisanId,
+    price: 2500,
+    message: null,
+    lead_time_days: 21,
+    scope_description: null,
+    inclusions: [],
+    valid_until: null,
+    attachment_url: attachmentUrl,
+    current_revision: 1,
+    status: "pending",
+    rejection_reason: null,
+    created_at: "2025-10-21T12:00:00Z",
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockSupabase = {
+      from: mockFrom,
+    } as unknown as SupabaseClient;
+    service = new ProposalService(mockSupabase);
+    vi.clearAllMocks();
+  });
+
+  it("powinien zwrócić oferty z danymi rzemieślników pobranymi zbiorczo", async () => {
+    const proposalsChain = createProposalsChain([
+      proposalRow("proposal-1", mockData.artisanA, "a/offer.pdf"),
+      proposalRow("proposal-2", mockData.artisanB, null),
+    ]);
+    const profilesChain = createInChain([
+      {
+        user_id: mockData.artisanA,
+        company_name: "Stolarnia A",
+        user: { profile: { display_name: "Jan Kowalski", avatar_url: null, city: "Poznań" } },
+      },
+      { user_id: mockData.artisanB, company_name: "Stolarnia B" },
+    ]);
+    const attachmentsChain = {
+      select: vi.fn().mockReturnThis(),
+      in: vi.fn().mockReturnThis(),
+      order: vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: "attachment-1",
+            proposal_id: "proposal-1",
+            file_url: "a/offer.pdf",
+            file_name: "offer.pdf",
+            mime_type: "application/pdf",
+            size_bytes: 2048,
+            caption: "Wycena",
+          },
+          {
+            id: "attachment-2",
+            proposal_id: "proposal-1",
+            file_url: "a/drawing.png",
+            file_name: "drawing.png",
+            mime_type: "image/png",
+            size_bytes: 4096,
+            caption: "Rysunek techniczny",
+          },
+        ],
+        error: null,
+      }),
+    };
+    const portfolioChain = {
+      select: vi.fn().mockReturnThis(),
+      in: vi.fn().mockReturnThis(),
+      order: vi.fn().mockResolvedValue({
+        data: [1, 2, 3, 4, 5].map((index) => ({
+          id: `image-${index}`,
+          artisan_id: mockData.artisanA,
+          image_url: `https://example.com/${index}.jpg`,
+          created_at: "2025-10-01T12:00:00Z",
+        })),
+        error: null,
+      }),
+    };
+
+    mockFrom
+      .mockReturnValueOnce(createProjectChain({ id: mockData.projectId, client_id: mockData.clientId }))
+      .mockReturnValueOnce(proposalsChain)
+      .mockReturnValueOnce(profilesChain)
+      .mockReturnValueOnce(
+        createInChain([{ artisan_id: mockData.artisanB, specializations: { id: "spec-1", name: "Stoły" } }])
+      )
+      .mockReturnValueOnce(portfolioChain)
+      .mockReturnValueOnce(
+        createInChain([
+          { reviewee_id: mockData.artisanA, rating: 5 },
+          { reviewee_id: mockData.artisanA, rating: 4 },
+        ])
+      )
+      .mockReturnValueOnce(attachmentsChain);
+
+    const result = await service.listProjectProposals(mockData.projectId, mockData.clientId, "client");
+
+    expect(profilesChain.in).toHaveBeenCalledWith("user_id", [mockData.artisanA, mockData.artisanB]);
+    expect(attachmentsChain.in).toHaveBeenCalledWith("proposal_id", ["proposal-1", "proposal-2"]);
+    expect(result).toHaveLength(2);
+    expect(result[0].attachment_url).toBe("/api/proposals/proposal-1/attachments/attachment-1");
+    expect(result[0].artisan).toMatchObject({
+      company_name: "Stolarnia A",
+      display_name: "Jan Kowalski",
+      city: "Poznań",
+      average_rating: 4.5,
+      total_reviews: 2,
+      specializations: [],
+    });
+    expect(result[0].artisan.portfolio_images).toHaveLength(4);
+    expect(result[0].attachments).toEqual([
+      {
+        id: "attachment-1",
+        file_url: "/api/proposals/proposal-1/attachments/attachment-1",
+        file_name: "offer.pdf",
+        mime_type: "application/pdf",
+        size_bytes: 2048,
+        caption: "Wycena",
+      },
+      {
+        id: "attachment-2",
+        file_url: "/api/proposals/proposal-1/attachments/attachment-2",
+        file_name: "drawing.png",
+        mime_type: "image/png",
+        size_bytes: 4096,
+        caption: "Rysunek techniczny",
+      },
+    ]);
+    expect(result[1].attachments).toEqual([]);
+    expect(result[1].attachment_url).toBeNull();
+    expect(result[1].artisan).toMatchObject({
+      company_name: "Stolarnia B",
+      display_name: null,
+      average_rating: null,
+      total_reviews: 0,
+      specializations: [{ id: "spec-1", name: "Stoły" }],
+      portfolio_images: [],
+    });
+  });
+
+  it("powinien ograniczyć rzemieślnika do jego własnej oferty", async () => {
+    const ownProposalChain = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      maybeSingle: vi.fn().mockResolvedValue({ data: { id: "proposal-1" }, error: null }),
+    };
+    const proposalsChain = createProposalsChain([]);
+
+    mockFrom
+      .mockReturnValueOnce(
+        createProjectChain({ id: mockData.projectId, client_id: mockData.clientId, accepted_proposal_id: null })
+      )
+      .mockReturnValueOnce(ownProposalChain)
+      .mockReturnValueOnce(proposalsChain);
+
+    const result = await service.listProjectProposals(mockData.projectId, mockData.artisanA, "artisan");
+
+    expect(result).toEqual([]);
+    expect(proposalsChain.eq).toHaveBeenCalledWith("artisan_id", mockData.artisanA);
+  });
+
+  it("powinien odmówić dostępu użytkownikowi bez oferty w projekcie", async () => {
+    mockFrom.mockReturnValueOnce(createProjectChain({ id: mockData.projectId, client_id: mockData.clientId }));
+
+    await expect(service.listProjectProposals(mockData.projectId, "other-client", "client")).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      statusCode: 403,
+    });
+  });
+
+  it("powinien rzucić błąd 404 gdy projekt nie istnieje", async () => {
+    mockFrom.mockReturnValueOnce(createProjectChain(null));
+
+    await expect(service.listProjectProposals(mockData.projectId, mockData.clientId, "client")).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      statusCode: 404,
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Unit tests for ProposalService negotiation methods
+ *
+ * Tests getNegotiation(), createCounterOffer() and reviseProposal(),
+ * including authorization of both negotiation parties and project status checks.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ProposalService, ProposalError } from "@/lib/services/proposal.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("ProposalService - negotiation", () => {
+  let service: ProposalService;
+  let mockSupabase: SupabaseClient;
+  let mockFrom: ReturnType<typeof vi.fn>;
+  let mockRpc: ReturnType<typeof vi.fn>;
+
+  const mockData = {
+    proposalId: "proposal-uuid-1",
+    projectId: "project-uuid-1",
+    clientId: "client-uuid-1",
+    artisanId: "artisan-uuid-1",
+  };
+
+  const createProposalChain = (
+    overrides: { status?: string; accepted_revision?: number | null; proposal_status?: string } = {}
+  ) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: {
+        id: mockData.proposalId,
+        project_id: mockData.projectId,
+        artisan_id: mockData.artisanId,
+        price: 2500,
+        attachment_url: "a/b/offer.pdf",
+        current_revision: 1,
+        status: overrides.proposal_status ?? "pending",
+        project: {
+          id: mockData.projectId,
+          client_id: mockData.clientId,
+          status: overrides.status ?? "open",
+          accepted_revision: overrides.accepted_revision ?? null,
+        },
+      },
+      error: null,
+    }),
+  });
+
+  const createAttachmentsChain = () => ({
+    select: vi.fn().mockReturnThis(),
+    in: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: "attachment-1",
+          proposal_id: mockData.proposalId,
+          file_url: "a/b/offer.pdf",
+          file_name: "offer.pdf",
+          mime_type: "application/pdf",
+          size_bytes: 2048,
+          caption: "Wycena",
+        },
+      ],
+      error: null,
+    }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockRpc = vi.fn();
+    mockSupabase = {
+      from: mockFrom,
+      rpc: mockRpc,
+      storage: {
+        from: vi.fn(),
+      },
+    } as unknown as SupabaseClient;
+    service = new ProposalService(mockSupabase);
+    vi.clearAllMocks();
+  });
+
+  describe("getNegotiation()", () => {
+    it("powinien zwrócić wersje oferty i kontrpropozycje", async () => {
+      const revisionsChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue({
+          data: [
+            {
+              id: "rev-1",
+              revision_number: 1,
+              price: 2500,
+              attachment_url: "a/b/offer.pdf",
+              note: null,
+              created_at: "2025-10-23T10:00:00Z",
+            },
+          ],
+          error: null,
+        }),
+      };
+      const counterOffersChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue({
+          data: [{ id: "co-1", price: 2200, note: "Taniej?", created_at: "2025-10-23T11:00:00Z" }],
+          error: null,
+        }),
+      };
+
+      mockFrom
+        .mockReturnValueOnce(createProposalChain())
+        .mockReturnValueOnce(revisionsChain)
+        .mockReturnValueOnce(counterOffersChain)
+        .mockReturnValueOnce(createAttachmentsChain());
+
+      const result = await service.getNegotiation(mockData.proposalId, mockData.clientId);
+
+      expect(result.current_revision).toBe(1);
+      expect(result.accepted_revision).toBeNull();
+      expect(result.revisions).toHaveLength(1);
+      expect(result.revisions[0].attachment_url).toBe(`/api/proposals/${mockData.proposalId}/attachments/attachment-1`);
+      expect(result.counter_offers).toEqual([
+        { id: "co-1", price: 2200, note: "Taniej?", created_at: "2025-10-23T11:00:00Z" },
+      ]);
+    });
+
+    it("powinien rzucić błąd 403 dla użytkownika spoza negocjacji", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain());
+
+      try {
+        await service.getNegotiation(mockData.proposalId, "other-user-uuid");
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("NEGOTIATION_FORBIDDEN");
+        expect((error as ProposalError).statusCode).toBe(403);
+      }
+    });
+
+    it("powinien rzucić błąd 404 gdy propozycja nie istnieje", async () => {
+      mockFrom.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { message: "Not found" } }),
+      });
+
+      try {
+        await service.getNegotiation(mockData.proposalId, mockData.clientId);
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("PROPOSAL_NOT_FOUND");
+        expect((error as ProposalError).statusCode).toBe(404);
+      }
+    });
+  });
+
+  describe("createCounterOffer()", () => {
+    it("powinien utworzyć kontrpropozycję właściciela projektu", async () => {
+      const insertChain = {
+        insert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: "co-1", price: 2200, note: null, created_at: "2025-10-23T11:00:00Z" },
+          error: null,
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(createProposalChain()).mockReturnValueOnce(insertChain);
+
+      const result = await service.createCounterOffer(mockData.proposalId, mockData.clientId, { price: 2200 });
+
+      expect(result.price).toBe(2200);
+      expect(insertChain.insert).toHaveBeenCalledWith({
+        proposal_id: mockData.proposalId,
+        client_id: mockData.clientId,
+        price: 2200,
+        note: null,
+      });
+    });
+
+    it("powinien rzucić błąd 403 gdy kontrpropozycję składa rzemieślnik", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain());
+
+      try {
+        await service.createCounterOffer(mockData.proposalId, mockData.artisanId, { price: 2200 });
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("FORBIDDEN_NOT_PROJECT_OWNER");
+        expect((error as ProposalError).statusCode).toBe(403);
+      }
+    });
+
+    it("powinien rzucić błąd 403 gdy projekt nie jest otwarty", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain({ status: "in_progress", accepted_revision: 1 }));
+
+      try {
+        await service.createCounterOffer(mockData.proposalId, mockData.clientId, { price: 2200 });
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("PROJECT_NOT_OPEN");
+      }
+    });
+  });
+
+  describe("reviseProposal()", () => {
+    it("powinien rzucić błąd 409 gdy oferta została wycofana", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain({ proposal_status: "withdrawn" }));
+
+      try {
+        await service.reviseProposal({ proposalId: mockData.proposalId, price: 2300, userId: mockData.artisanId });
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("PROPOSAL_NOT_PENDING");
+        expect((error as ProposalError).statusCode).toBe(409);
+      }
+    });
+
+    it("powinien zapisać nową wersję i zachować poprzedni załącznik", async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          id: "rev-2",
+          proposal_id: mockData.proposalId,
+          revision_number: 2,
+          price: 2300,
+          attachment_url: "a/b/offer.pdf",
+          note: "Bez montażu",
+          created_at: "2025-10-23T12:00:00Z",
+        },
+        error: null,
+      });
+      mockFrom.mockReturnValueOnce(createProposalChain()).mockReturnValueOnce(createAttachmentsChain());
+
+      const result = await service.reviseProposal({
+        proposalId: mockData.proposalId,
+        price: 2300,
+        note: "Bez montażu",
+        userId: mockData.artisanId,
+      });
+
+      expect(result).toEqual({
+        id: "rev-2",
+        revision_number: 2,
+        price: 2300,
+        attachment_url: `/api/proposals/${mockData.proposalId}/attachments/attachment-1`,
+        note: "Bez montażu",
+        created_at: "2025-10-23T12:00:00Z",
+      });
+      expect(mockRpc).toHaveBeenCalledWith("revise_proposal", {
+        proposal_id: mockData.proposalId,
+        base_revision: 1,
+        new_price: 2300,
+        new_attachment_url: "a/b/offer.pdf",
+        revision_note: "Bez montażu",
+      });
+    });
+
+    it("powinien rzucić błąd 409 przy równoczesnej zmianie oferty", async () => {
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: "P0001", message: "Proposal revision conflict" } });
+      mockFrom.mockReturnValueOnce(createProposalChain());
+
+      try {
+        await service.reviseProposal({ proposalId: mockData.proposalId, price: 2300, userId: mockData.artisanId });
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("PROPOSAL_REVISION_CONFLICT");
+        expect((error as ProposalError).statusCode).toBe(409);
+      }
+    });
+
+    it("powinien rzucić błąd 403 gdy ofertę zmienia ktoś inny niż autor", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain());
+
+      try {
+        await service.reviseProposal({ proposalId: mockData.proposalId, price: 2300, userId: mockData.clientId });
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("FORBIDDEN_NOT_PROPOSAL_OWNER");
+        expect((error as ProposalError).statusCode).toBe(403);
+      }
+    });
+  });
+});
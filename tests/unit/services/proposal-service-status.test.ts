@@ -0,0 +1,194 @@
+/**
+ * Unit tests for ProposalService status changes
+ *
+ * Tests withdrawProposal() and rejectProposal(), including authorization,
+ * project/proposal status checks and the persisted status update.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ProposalService, ProposalError } from "@/lib/services/proposal.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("ProposalService - status changes", () => {
+  let service: ProposalService;
+  let mockSupabase: SupabaseClient;
+  let mockFrom: ReturnType<typeof vi.fn>;
+
+  const mockData = {
+    proposalId: "proposal-uuid-1",
+    projectId: "project-uuid-1",
+    clientId: "client-uuid-1",
+    artisanId: "artisan-uuid-1",
+  };
+
+  const createProposalChain = (overrides: { status?: string; project_status?: string } = {}) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: {
+        id: mockData.proposalId,
+        project_id: mockData.projectId,
+        artisan_id: mockData.artisanId,
+        price: 2500,
+        attachment_url: null,
+        current_revision: 1,
+        status: overrides.status ?? "pending",
+        project: {
+          id: mockData.projectId,
+          client_id: mockData.clientId,
+          status: overrides.project_status ?? "open",
+          accepted_revision: null,
+        },
+      },
+      error: null,
+    }),
+  });
+
+  const createStatusUpdateChain = (status: string, rejectionReason: string | null = null) => ({
+    update: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    select: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: {
+        id: mockData.proposalId,
+        status,
+        rejection_reason: rejectionReason,
+        status_changed_at: "2025-10-24T10:00:00Z",
+      },
+      error: null,
+    }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockSupabase = {
+      from: mockFrom,
+    } as unknown as SupabaseClient;
+    service = new ProposalService(mockSupabase);
+    vi.clearAllMocks();
+  });
+
+  describe("withdrawProposal()", () => {
+    it("powinien wycofać oczekującą ofertę rzemieślnika", async () => {
+      const updateChain = createStatusUpdateChain("withdrawn");
+      mockFrom.mockReturnValueOnce(createProposalChain()).mockReturnValueOnce(updateChain);
+
+      const result = await service.withdrawProposal(mockData.proposalId, mockData.artisanId);
+
+      expect(result.status).toBe("withdrawn");
+      expect(updateChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "withdrawn", rejection_reason: null })
+      );
+      expect(updateChain.eq).toHaveBeenCalledWith("id", mockData.proposalId);
+    });
+
+    it("powinien rzucić błąd 403 gdy ofertę wycofuje ktoś inny niż autor", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain());
+
+      try {
+        await service.withdrawProposal(mockData.proposalId, mockData.clientId);
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("FORBIDDEN_NOT_PROPOSAL_OWNER");
+        expect((error as ProposalError).statusCode).toBe(403);
+      }
+    });
+
+    it("powinien rzucić błąd 409 gdy oferta została już zaakceptowana", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain({ status: "accepted", project_status: "in_progress" }));
+
+      try {
+        await service.withdrawProposal(mockData.proposalId, mockData.artisanId);
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("PROPOSAL_NOT_PENDING");
+        expect((error as ProposalError).statusCode).toBe(409);
+      }
+    });
+  });
+
+  describe("rejectProposal()", () => {
+    it("powinien odrzucić ofertę z podanym powodem", async () => {
+      const updateChain = createStatusUpdateChain("rejected", "Cena przekracza mój budżet");
+      mockFrom.mockReturnValueOnce(createProposalChain()).mockReturnValueOnce(updateChain);
+
+      const result = await service.rejectProposal(mockData.projectId, mockData.proposalId, mockData.clientId, {
+        reason: "Cena przekracza mój budżet",
+      });
+
+      expect(result.status).toBe("rejected");
+      expect(result.rejection_reason).toBe("Cena przekracza mój budżet");
+      expect(updateChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "rejected", rejection_reason: "Cena przekracza mój budżet" })
+      );
+    });
+
+    it("powinien odrzucić ofertę bez powodu", async () => {
+      const updateChain = createStatusUpdateChain("rejected");
+      mockFrom.mockReturnValueOnce(createProposalChain()).mockReturnValueOnce(updateChain);
+
+      await service.rejectProposal(mockData.projectId, mockData.proposalId, mockData.clientId, {});
+
+      expect(updateChain.update).toHaveBeenCalledWith(expect.objectContaining({ rejection_reason: null }));
+    });
+
+    it("powinien rzucić błąd 403 gdy ofertę odrzuca ktoś inny niż właściciel projektu", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain());
+
+      try {
+        await service.rejectProposal(mockData.projectId, mockData.proposalId, mockData.artisanId, {});
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("FORBIDDEN_NOT_PROJECT_OWNER");
+        expect((error as ProposalError).statusCode).toBe(403);
+      }
+    });
+
+    it("powinien rzucić błąd 400 gdy oferta nie należy do projektu", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain());
+
+      try {
+        await service.rejectProposal("other-project-uuid", mockData.proposalId, mockData.clientId, {});
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("PROPOSAL_PROJECT_MISMATCH");
+        expect((error as ProposalError).statusCode).toBe(400);
+      }
+    });
+
+    it("powinien rzucić błąd 409 gdy oferta została wycofana", async () => {
+      mockFrom.mockReturnValueOnce(createProposalChain({ status: "withdrawn" }));
+
+      try {
+        await service.rejectProposal(mockData.projectId, mockData.proposalId, mockData.clientId, {});
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("PROPOSAL_NOT_PENDING");
+      }
+    });
+
+    it("powinien rzucić błąd 500 gdy zapis statusu się nie powiedzie", async () => {
+      const updateChain = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { message: "Database error" } }),
+      };
+      mockFrom.mockReturnValueOnce(createProposalChain()).mockReturnValueOnce(updateChain);
+
+      try {
+        await service.rejectProposal(mockData.projectId, mockData.proposalId, mockData.clientId, {});
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProposalError);
+        expect((error as ProposalError).code).toBe("PROPOSAL_STATUS_UPDATE_FAILED");
+        expect((error as ProposalError).statusCode).toBe(500);
+      }
+    });
+  });
+});
@@ -39,7 +39,8 @@ describe("ProposalService - createProposal()", () => {
   const mockData = {
     projectId: "project-uuid-1",
     price: 2500,
-    attachment: createMockFile("proposal.pdf", 1024, "application/pdf"),
+    leadTimeDays: 21,
+    attachments: [{ file: createMockFile("proposal.pdf", 1024, "application/pdf"), caption: "Wycena" }],
     userId: "artisan-uuid-1",
   };
 
@@ -216,7 +217,7 @@ describe("ProposalService - createProposal()", () => {
     it("powinien rzucić błąd gdy plik jest za duży", async () => {
       // Create file larger than 5MB
       const largeFile = createMockFile("large.pdf", 6 * 1024 * 1024, "application/pdf");
-      const dataWithLargeFile = { ...mockData, attachment: largeFile };
+      const dataWithLargeFile = { ...mockData, attachments: [{ file: largeFile, caption: "Rysunek" }] };
 
       const mockUserChain = {
         select: vi.fn().mockReturnThis(),
@@ -262,6 +263,49 @@ describe("ProposalService - createProposal()", () => {
         expect((error as ProposalError).message).toContain("Rozmiar pliku nie może przekraczać");
       }
     });
+
+    it("powinien usunąć już przesłane pliki gdy kolejny załącznik się nie prześle", async () => {
+      const mockUpload = vi.fn().mockResolvedValue({ error: null });
+      const mockRemove = vi.fn().mockResolvedValue({ error: null });
+      (mockSupabase.storage.from as ReturnType<typeof vi.fn>).mockReturnValue({
+        upload: mockUpload,
+        remove: mockRemove,
+      });
+
+      mockFrom
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({ data: { id: mockData.userId, role: "artisan" }, error: null }),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({
+            data: { id: mockData.projectId, status: "open", client_id: "client-uuid" },
+            error: null,
+          }),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+        });
+
+      await expect(
+        service.createProposal({
+          ...mockData,
+          attachments: [
+            { file: createMockFile("quote.pdf", 1024, "application/pdf"), caption: "Wycena" },
+            { file: createMockFile("large.png", 6 * 1024 * 1024, "image/png"), caption: "Próbki" },
+          ],
+        })
+      ).rejects.toMatchObject({ code: "FILE_TOO_LARGE" });
+
+      expect(mockUpload).toHaveBeenCalledTimes(1);
+      expect(mockRemove).toHaveBeenCalledWith([mockUpload.mock.calls[0][0]]);
+      expect(mockFrom).toHaveBeenCalledTimes(3);
+    });
   });
 
   describe("Integration Notes", () => {
@@ -200,17 +200,25 @@ describe("ReviewService - createReview()", () => {
               id: mockData.projectId,
               category: { name: "Krzesła" },
             },
+            reviewer: {
+              profile: { display_name: "Anna K.", avatar_url: "https://example.com/anna.png" },
+            },
           },
           error: null,
         }),
       };
 
+      const mockNotificationChain = {
+        insert: vi.fn().mockResolvedValue({ error: null }),
+      };
+
       mockFrom
         .mockReturnValueOnce(mockProjectChain)
         .mockReturnValueOnce(mockProposalChain)
         .mockReturnValueOnce(mockExistingReviewChain)
         .mockReturnValueOnce(mockInsertChain)
-        .mockReturnValueOnce(mockCompleteReviewChain);
+        .mockReturnValueOnce(mockCompleteReviewChain)
+        .mockReturnValueOnce(mockNotificationChain);
 
       mockGetUserById.mockResolvedValue({
         data: {
@@ -230,9 +238,18 @@ describe("ReviewService - createReview()", () => {
         comment: mockData.dto.comment,
         reviewer: {
           id: clientId,
-          name: "Użytkownik",
+          name: "Anna K.",
+          avatar_url: "https://example.com/anna.png",
         },
       });
+      expect(mockNotificationChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: artisanId,
+          actor_id: clientId,
+          type: "review_received",
+          project_id: mockData.projectId,
+        })
+      );
     });
 
     it("powinien pozwolić rzemieślnikowi projektu dodać recenzję", async () => {
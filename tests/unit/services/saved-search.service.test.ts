@@ -0,0 +1,197 @@
+/**
+ * Unit tests for SavedSearchService
+ *
+ * Tests managing saved searches (limit, ownership) and best-effort
+ * alerts about new projects matching them.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SavedSearchService, SavedSearchError, MAX_SAVED_SEARCHES } from "@/lib/services/saved-search.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("SavedSearchService", () => {
+  let service: SavedSearchService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+  let mockRpc: ReturnType<typeof vi.fn>;
+
+  const artisanId = "artisan-uuid-1";
+  const searchId = "search-uuid-1";
+
+  const mockSearch = {
+    id: searchId,
+    name: "Dębowe stoły",
+    query: null,
+    category_id: "category-uuid-1",
+    material_id: "material-uuid-1",
+    specialization_id: null,
+    budget_min: 2000,
+    budget_max: null,
+    alerts_enabled: true,
+    created_at: "2025-10-29T10:00:00Z",
+  };
+
+  const createCountChain = (count: number | null, error: unknown = null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockResolvedValue({ count, error }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    mockRpc = vi.fn();
+    service = new SavedSearchService({ from: mockFrom, rpc: mockRpc } as unknown as SupabaseClient);
+    vi.clearAllMocks();
+  });
+
+  describe("listSavedSearches()", () => {
+    it("powinien zwrócić zapisane wyszukiwania rzemieślnika od najnowszych", async () => {
+      const listChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue({ data: [mockSearch], error: null }),
+      };
+      mockFrom.mockReturnValueOnce(listChain);
+
+      const result = await service.listSavedSearches(artisanId);
+
+      expect(mockFrom).toHaveBeenCalledWith("saved_searches");
+      expect(listChain.eq).toHaveBeenCalledWith("artisan_id", artisanId);
+      expect(listChain.order).toHaveBeenCalledWith("created_at", { ascending: false });
+      expect(result).toEqual([mockSearch]);
+    });
+  });
+
+  describe("createSavedSearch()", () => {
+    it("powinien zapisać wyszukiwanie z domyślnie włączonymi powiadomieniami", async () => {
+      const insertChain = {
+        insert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: mockSearch, error: null }),
+      };
+      mockFrom.mockReturnValueOnce(createCountChain(2)).mockReturnValueOnce(insertChain);
+
+      const result = await service.createSavedSearch(artisanId, {
+        name: "Dębowe stoły",
+        category_id: "category-uuid-1",
+        material_id: "material-uuid-1",
+        budget_min: 2000,
+      });
+
+      expect(insertChain.insert).toHaveBeenCalledWith({
+        artisan_id: artisanId,
+        name: "Dębowe stoły",
+        query: null,
+        category_id: "category-uuid-1",
+        material_id: "material-uuid-1",
+        specialization_id: null,
+        budget_min: 2000,
+        budget_max: null,
+        alerts_enabled: true,
+      });
+      expect(result).toEqual(mockSearch);
+    });
+
+    it("powinien rzucić błąd SAVED_SEARCH_LIMIT_REACHED po osiągnięciu limitu", async () => {
+      mockFrom.mockReturnValueOnce(createCountChain(MAX_SAVED_SEARCHES));
+
+      await expect(service.createSavedSearch(artisanId, { name: "Krzesła" })).rejects.toMatchObject({
+        code: "SAVED_SEARCH_LIMIT_REACHED",
+        statusCode: 409,
+      });
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+    });
+
+    it("powinien rzucić błąd SAVED_SEARCH_INVALID_FILTER dla nieistniejącej kategorii", async () => {
+      mockFrom.mockReturnValueOnce(createCountChain(0)).mockReturnValueOnce({
+        insert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { code: "23503", message: "FK violation" } }),
+      });
+
+      await expect(
+        service.createSavedSearch(artisanId, { name: "Krzesła", category_id: "unknown-uuid" })
+      ).rejects.toMatchObject({
+        code: "SAVED_SEARCH_INVALID_FILTER",
+        statusCode: 400,
+      });
+    });
+  });
+
+  describe("updateSavedSearch()", () => {
+    it("powinien wyłączyć powiadomienia własnego wyszukiwania", async () => {
+      const updateChain = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: { ...mockSearch, alerts_enabled: false }, error: null }),
+      };
+      mockFrom.mockReturnValueOnce(updateChain);
+
+      const result = await service.updateSavedSearch(searchId, artisanId, { alerts_enabled: false });
+
+      expect(updateChain.update).toHaveBeenCalledWith({ alerts_enabled: false });
+      expect(updateChain.eq).toHaveBeenCalledWith("id", searchId);
+      expect(updateChain.eq).toHaveBeenCalledWith("artisan_id", artisanId);
+      expect(result.alerts_enabled).toBe(false);
+    });
+
+    it("powinien rzucić błąd SAVED_SEARCH_NOT_FOUND dla cudzego wyszukiwania", async () => {
+      mockFrom.mockReturnValueOnce({
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      });
+
+      await expect(service.updateSavedSearch(searchId, "other-artisan", { name: "Nowa nazwa" })).rejects.toThrow(
+        SavedSearchError
+      );
+    });
+  });
+
+  describe("deleteSavedSearch()", () => {
+    it("powinien usunąć własne wyszukiwanie", async () => {
+      const deleteChain = {
+        delete: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockResolvedValue({ data: [{ id: searchId }], error: null }),
+      };
+      mockFrom.mockReturnValueOnce(deleteChain);
+
+      await expect(service.deleteSavedSearch(searchId, artisanId)).resolves.toBeUndefined();
+      expect(deleteChain.eq).toHaveBeenCalledWith("artisan_id", artisanId);
+    });
+
+    it("powinien rzucić błąd SAVED_SEARCH_NOT_FOUND gdy nic nie usunięto", async () => {
+      mockFrom.mockReturnValueOnce({
+        delete: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockResolvedValue({ data: [], error: null }),
+      });
+
+      await expect(service.deleteSavedSearch(searchId, artisanId)).rejects.toMatchObject({
+        code: "SAVED_SEARCH_NOT_FOUND",
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe("alertMatchingArtisans()", () => {
+    it("powinien zwrócić liczbę powiadomionych rzemieślników", async () => {
+      mockRpc.mockResolvedValueOnce({ data: 3, error: null });
+
+      const result = await service.alertMatchingArtisans("project-uuid-1");
+
+      expect(mockRpc).toHaveBeenCalledWith("create_saved_search_alerts", { project_id: "project-uuid-1" });
+      expect(result).toBe(3);
+    });
+
+    it("nie powinien rzucać błędu gdy dopasowanie się nie powiedzie", async () => {
+      const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+      mockRpc.mockResolvedValueOnce({ data: null, error: { message: "Database error" } });
+
+      await expect(service.alertMatchingArtisans("project-uuid-1")).resolves.toBe(0);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for UserProfileService
+ *
+ * Tests reading and updating public user profiles and the display name fallback.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  UserProfileService,
+  UserProfileError,
+  DEFAULT_DISPLAY_NAME,
+  getDisplayName,
+} from "@/lib/services/user-profile.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+describe("UserProfileService", () => {
+  let service: UserProfileService;
+  let mockFrom: ReturnType<typeof vi.fn>;
+
+  const userId = "user-uuid-1";
+  const storedProfile = { display_name: "Anna K.", avatar_url: null, city: "Kraków" };
+
+  const createProfileChain = (data: unknown, error: unknown = null) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data, error }),
+  });
+
+  beforeEach(() => {
+    mockFrom = vi.fn();
+    service = new UserProfileService({ from: mockFrom } as unknown as SupabaseClient);
+  });
+
+  describe("getDisplayName()", () => {
+    it("powinien zwrócić nazwę wyświetlaną użytkownika", () => {
+      expect(getDisplayName(storedProfile)).toBe("Anna K.");
+    });
+
+    it("powinien zwrócić domyślną nazwę bez profilu lub nazwy", () => {
+      expect(getDisplayName(null)).toBe(DEFAULT_DISPLAY_NAME);
+      expect(getDisplayName({ display_name: null })).toBe(DEFAULT_DISPLAY_NAME);
+    });
+  });
+
+  describe("getProfile()", () => {
+    it("powinien zwrócić zapisany profil", async () => {
+      const chain = createProfileChain(storedProfile);
+      mockFrom.mockReturnValueOnce(chain);
+
+      const profile = await service.getProfile(userId);
+
+      expect(mockFrom).toHaveBeenCalledWith("user_profiles");
+      expect(chain.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(profile).toEqual(storedProfile);
+    });
+
+    it("powinien zwrócić pusty profil gdy użytkownik go nie ustawił", async () => {
+      mockFrom.mockReturnValueOnce(createProfileChain(null));
+
+      const profile = await service.getProfile(userId);
+
+      expect(profile).toEqual({ display_name: null, avatar_url: null, city: null });
+    });
+
+    it("powinien rzucić błąd gdy zapytanie się nie powiedzie", async () => {
+      mockFrom.mockReturnValueOnce(createProfileChain(null, { message: "DB error" }));
+
+      await expect(service.getProfile(userId)).rejects.toMatchObject({
+        code: "USER_PROFILE_FETCH_FAILED",
+        statusCode: 500,
+      });
+    });
+  });
+
+  describe("getProfiles()", () => {
+    it("powinien pobrać profile wielu użytkowników jednym zapytaniem", async () => {
+      const chain = {
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockResolvedValue({ data: [{ user_id: userId, ...storedProfile }], error: null }),
+      };
+      mockFrom.mockReturnValueOnce(chain);
+
+      const profiles = await service.getProfiles([userId, "user-uuid-2"]);
+
+      expect(chain.in).toHaveBeenCalledWith("user_id", [userId, "user-uuid-2"]);
+      expect(profiles.get(userId)).toEqual(storedProfile);
+      expect(profiles.has("user-uuid-2")).toBe(false);
+    });
+
+    it("nie powinien wykonywać zapytania bez użytkowników", async () => {
+      const profiles = await service.getProfiles([]);
+
+      expect(profiles.size).toBe(0);
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateProfile()", () => {
+    it("powinien zmienić tylko podane pola profilu", async () => {
+      const upsertChain = {
+        upsert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { ...storedProfile, city: "Gdańsk" }, error: null }),
+      };
+      mockFrom.mockReturnValueOnce(createProfileChain(storedProfile)).mockReturnValueOnce(upsertChain);
+
+      const profile = await service.updateProfile(userId, { city: "Gdańsk" });
+
+      expect(upsertChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: userId, display_name: "Anna K.", avatar_url: null, city: "Gdańsk" })
+      );
+      expect(profile.city).toBe("Gdańsk");
+    });
+
+    it("powinien wyczyścić pole ustawione na null", async () => {
+      const upsertChain = {
+        upsert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { ...storedProfile, display_name: null }, error: null }),
+      };
+      mockFrom.mockReturnValueOnce(createProfileChain(storedProfile)).mockReturnValueOnce(upsertChain);
+
+      await service.updateProfile(userId, { display_name: null });
+
+      expect(upsertChain.upsert).toHaveBeenCalledWith(expect.objectContaining({ display_name: null, city: "Kraków" }));
+    });
+
+    it("powinien rzucić błąd gdy zapis się nie powiedzie", async () => {
+      mockFrom.mockReturnValueOnce(createProfileChain(null)).mockReturnValueOnce({
+        upsert: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { message: "DB error" } }),
+      });
+
+      const error = await service.updateProfile(userId, { city: "Gdańsk" }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UserProfileError);
+      expect(error).toMatchObject({ code: "USER_PROFILE_UPDATE_FAILED", statusCode: 500 });
+    });
+  });
+});